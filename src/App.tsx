@@ -3,12 +3,26 @@
  * 基于架构文档的应用设计
  */
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useWatermarkStore } from '@/stores/watermarkStore';
 import { FileUploader } from '@/components/business/FileUploader';
 import { DocumentPreview } from '@/components/business/DocumentPreview';
+import { TamperHeatmap } from '@/components/business/TamperHeatmap';
+import { TemplateLibraryPanel } from '@/components/business/TemplateLibraryPanel';
+import { DistributionPanel } from '@/components/business/DistributionPanel';
+import { PageRulesPanel } from '@/components/business/PageRulesPanel';
+import { StampPanel } from '@/components/business/StampPanel';
+import { FlattenPanel } from '@/components/business/FlattenPanel';
+import { PDFSecurityPanel } from '@/components/business/PDFSecurityPanel';
+import { MetadataPanel } from '@/components/business/MetadataPanel';
+import { AnimationPanel } from '@/components/business/AnimationPanel';
+import { SigningKeyPanel } from '@/components/business/SigningKeyPanel';
+import { LeakAttributionView } from '@/components/business/LeakAttributionView';
 import { Button } from '@/components/ui/Button';
-import { downloadFile, downloadMultipleFiles, generateWatermarkedFilename, checkDownloadSupport } from '@/utils/downloadHelper';
+import { downloadFile, generateWatermarkedFilename, checkDownloadSupport } from '@/utils/downloadHelper';
+import { WatermarkVerifier, type VerificationReport } from '@/utils/watermark/WatermarkVerifier';
+import { WatermarkVariables } from '@/utils/watermark/WatermarkVariables';
+import { RecipientList } from '@/utils/watermark/RecipientList';
 // 开发时引入测试功能
 import './test-chinese-validation';
 import './test-pdf-chinese-support';
@@ -17,19 +31,46 @@ const App: React.FC = () => {
   const {
     files,
     watermark,
+    distribution,
     ui,
     selectFiles,
     processFiles,
     clearFiles,
+    downloadResultsAsZip,
     updateWatermarkSettings,
     setActiveView,
-    initializeCanvas
+    initializeCanvas,
+    loadTemplates,
+    exportSigningKey
   } = useWatermarkStore();
 
+  // 验证视图状态
+  const [verifyFile, setVerifyFile] = useState<File | null>(null);
+  const [certificateFile, setCertificateFile] = useState<File | null>(null);
+  const [trustedPublicKey, setTrustedPublicKey] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [verifyError, setVerifyError] = useState<string | null>(null);
+  const [verificationReport, setVerificationReport] = useState<VerificationReport | null>(null);
+
+  const [showVariableHelp, setShowVariableHelp] = useState(false);
+
+  // 水印文字变量预览
+  const watermarkText = watermark.settings.text?.content || '';
+  const textVariables = watermark.settings.text?.variables || {};
+  const firstRecipient = distribution.recipients[0];
+  const textPreview = watermark.settings.type !== 'image' && /[{}]/.test(watermarkText)
+    ? WatermarkVariables.preview(watermarkText, {
+      ...textVariables,
+      ...(firstRecipient && { user: firstRecipient.name, email: firstRecipient.email, id: firstRecipient.id }),
+      filename: files.selected[0]?.name
+    })
+    : null;
+
   useEffect(() => {
-    // 初始化应用
+    // 初始化应用，模板库需在选择文件前就绪以套用默认模板
     initializeCanvas();
-  }, [initializeCanvas]);
+    loadTemplates();
+  }, [initializeCanvas, loadTemplates]);
 
   const handleFilesSelect = (newFiles: File[]) => {
     selectFiles(newFiles);
@@ -40,7 +81,10 @@ const App: React.FC = () => {
 
   const handleProcess = async () => {
     try {
-      await processFiles(watermark.settings);
+      await processFiles(
+        watermark.settings,
+        distribution.recipients.length > 0 ? { distribution: { recipients: distribution.recipients } } : undefined
+      );
     } catch (error) {
       console.error('Processing failed:', error);
     }
@@ -63,16 +107,19 @@ const App: React.FC = () => {
     }
 
     const filename = generateWatermarkedFilename(result.originalFile.name, result.processedImage.format);
-    downloadFile(result.processedImage.dataUrl, filename);
+    downloadFile(result.processedImage.dataUrl, result.recipient ? RecipientList.getFilename(filename, result.recipient) : filename);
   };
 
   const handleDownloadAll = async () => {
     const successfulResults = Array.from(files.results.entries())
       .filter(([, result]) => result.success && result.processedImage.dataUrl)
-      .map(([, result]) => ({
-        dataUrl: result.processedImage.dataUrl,
-        filename: generateWatermarkedFilename(result.originalFile.name, result.processedImage.format)
-      }));
+      .map(([, result]) => {
+        const filename = generateWatermarkedFilename(result.originalFile.name, result.processedImage.format);
+        return {
+          dataUrl: result.processedImage.dataUrl,
+          filename: result.recipient ? RecipientList.getFilename(filename, result.recipient) : filename
+        };
+      });
 
     if (successfulResults.length === 0) {
       alert('没有成功处理的文件可供下载');
@@ -84,7 +131,49 @@ const App: React.FC = () => {
       return;
     }
 
-    await downloadMultipleFiles(successfulResults);
+    // 单个文件直接下载，多个文件打包为ZIP
+    if (successfulResults.length === 1) {
+      downloadFile(successfulResults[0].dataUrl, successfulResults[0].filename);
+      return;
+    }
+
+    try {
+      await downloadResultsAsZip();
+    } catch (error) {
+      console.error('ZIP download failed:', error);
+      alert(error instanceof Error ? error.message : '打包下载失败，请重试');
+    }
+  };
+
+  const handleVerify = async () => {
+    if (!verifyFile) return;
+
+    setVerifying(true);
+    setVerifyError(null);
+    setVerificationReport(null);
+
+    try {
+      const certificate = certificateFile
+        ? await WatermarkVerifier.readCertificateFile(certificateFile)
+        : undefined;
+      // 可信公钥支持PEM文本或JWK JSON，留空时信任本机签名公钥
+      const key = trustedPublicKey.trim();
+      const report = await WatermarkVerifier.verify(verifyFile, {
+        certificate,
+        trustedPublicKey: key ? (key.startsWith('{') ? JSON.parse(key) : key) : await exportSigningKey()
+      });
+      setVerificationReport(report);
+    } catch (error) {
+      setVerifyError(error instanceof Error ? error.message : '验证失败');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleVerifyFileSelect = (selected: File[]) => {
+    setVerifyFile(selected[0] || null);
+    setVerificationReport(null);
+    setVerifyError(null);
   };
 
   const renderUploadView = () => (
@@ -94,15 +183,21 @@ const App: React.FC = () => {
           水印增强产品
         </h1>
         <p className="text-gray-600">
-          支持图片和文档水印处理，包括 PDF、Word 文档，100% 浏览器端处理，无需上传到服务器
+          支持图片和文档水印处理，包括 PDF、Word、Excel、PowerPoint 文档，100% 浏览器端处理，无需上传到服务器
         </p>
+        <Button variant="outline" size="sm" className="mt-4" onClick={() => setActiveView('verify')}>
+          验证文件真伪
+        </Button>
+        <Button variant="outline" size="sm" className="mt-4 ml-2" onClick={() => setActiveView('attribution')}>
+          泄露溯源
+        </Button>
       </div>
 
       <FileUploader
         onFilesSelect={handleFilesSelect}
         maxFiles={10}
         maxFileSize={100 * 1024 * 1024}
-        acceptedFormats={['image/*', '.pdf', '.doc', '.docx', 'application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document']}
+        acceptedFormats={['image/*', '.tif', '.tiff', '.pdf', '.doc', '.docx', '.rtf', '.xlsx', 'application/pdf', 'application/msword', 'application/rtf', 'text/rtf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', '.pptx', 'application/vnd.openxmlformats-officedocument.presentationml.presentation']}
       />
     </div>
   );
@@ -121,9 +216,13 @@ const App: React.FC = () => {
             variant="primary"
             onClick={handleProcess}
             loading={ui.loading}
-            disabled={files.selected.length === 0}
+            disabled={
+              files.selected.length === 0 ||
+              (textPreview !== null && !textPreview.valid) ||
+              (distribution.recipients.length > 0 && files.selected.length !== 1)
+            }
           >
-            开始处理
+            {distribution.recipients.length > 0 ? `分发 ${distribution.recipients.length} 份` : '开始处理'}
           </Button>
         </div>
       </div>
@@ -143,7 +242,12 @@ const App: React.FC = () => {
                   if (file.type === 'application/msword' || 
                       file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
                       file.name.toLowerCase().endsWith('.doc') ||
+                      file.name.toLowerCase().endsWith('.rtf') ||
                       file.name.toLowerCase().endsWith('.docx')) return '📝';
+                  if (file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
+                      file.name.toLowerCase().endsWith('.xlsx')) return '📊';
+                  if (file.type === 'application/vnd.openxmlformats-officedocument.presentationml.presentation' ||
+                      file.name.toLowerCase().endsWith('.pptx')) return '📽️';
                   return '📁';
                 };
 
@@ -153,7 +257,12 @@ const App: React.FC = () => {
                   if (file.type === 'application/msword' || 
                       file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
                       file.name.toLowerCase().endsWith('.doc') ||
+                      file.name.toLowerCase().endsWith('.rtf') ||
                       file.name.toLowerCase().endsWith('.docx')) return 'Word';
+                  if (file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
+                      file.name.toLowerCase().endsWith('.xlsx')) return 'Excel';
+                  if (file.type === 'application/vnd.openxmlformats-officedocument.presentationml.presentation' ||
+                      file.name.toLowerCase().endsWith('.pptx')) return 'PowerPoint';
                   return '未知';
                 };
 
@@ -173,6 +282,9 @@ const App: React.FC = () => {
               })}
             </div>
           </div>
+
+          <TemplateLibraryPanel className="mt-6" />
+          <DistributionPanel className="mt-6" />
         </div>
 
         {/* 水印设置 */}
@@ -196,7 +308,7 @@ const App: React.FC = () => {
                 </select>
               </div>
 
-{watermark.settings.type === 'text' && (
+{watermark.settings.type !== 'image' && (
                 <>
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -211,8 +323,65 @@ const App: React.FC = () => {
                           content: e.target.value
                         }
                       })}
+                      placeholder="例如：机密 {user} {date:YYYY-MM-DD} 第{page}/{pages}页"
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                     />
+                    <button
+                      type="button"
+                      onClick={() => setShowVariableHelp(!showVariableHelp)}
+                      className="mt-1 text-xs text-blue-600 hover:underline"
+                    >
+                      {showVariableHelp ? '收起变量说明' : '插入动态变量…'}
+                    </button>
+                    {showVariableHelp && (
+                      <ul className="mt-1 space-y-0.5 text-xs text-gray-600">
+                        {WatermarkVariables.getDefinitions().map(definition => (
+                          <li key={definition.name}>
+                            <button
+                              type="button"
+                              onClick={() => updateWatermarkSettings({
+                                text: {
+                                  ...watermark.settings.text!,
+                                  content: `${watermarkText}{${definition.name}}`
+                                }
+                              })}
+                              className="font-mono text-blue-600 hover:underline mr-2"
+                            >
+                              {definition.syntax}
+                            </button>
+                            {definition.description}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {textPreview && (
+                      <div className="mt-2 space-y-2">
+                        {(['user', 'email'] as const).filter(name => textPreview.variables.includes(name)).map(name => (
+                          <input
+                            key={name}
+                            type="text"
+                            value={textVariables[name] || ''}
+                            onChange={(e) => updateWatermarkSettings({
+                              text: {
+                                ...watermark.settings.text!,
+                                variables: { ...textVariables, [name]: e.target.value }
+                              }
+                            })}
+                            placeholder={name === 'user' ? '{user} 用户名' : '{email} 邮箱'}
+                            className="w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        ))}
+                        <p className="text-xs text-gray-700 bg-gray-50 rounded px-2 py-1 break-all">
+                          预览：{textPreview.text}
+                        </p>
+                        {textPreview.errors.map(error => (
+                          <p key={error} className="text-xs text-red-600">{error}</p>
+                        ))}
+                        {textPreview.warnings.map(warning => (
+                          <p key={warning} className="text-xs text-yellow-700">{warning}</p>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
                   <div>
@@ -500,6 +669,106 @@ const App: React.FC = () => {
                 </>
               )}
 
+              {watermark.settings.type !== 'text' && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      水印图片（PNG/SVG）
+                    </label>
+                    <input
+                      type="file"
+                      accept="image/png,image/svg+xml,image/jpeg,image/webp"
+                      onChange={(e) => {
+                        const logoFile = e.target.files?.[0];
+                        if (!logoFile) return;
+                        updateWatermarkSettings({
+                          image: {
+                            preserveAspectRatio: true,
+                            ...watermark.settings.image,
+                            source: logoFile
+                          }
+                        });
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    {watermark.settings.image?.source instanceof File && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        当前图片：{watermark.settings.image.source.name}
+                      </p>
+                    )}
+                  </div>
+
+                  {watermark.settings.image && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          图片宽度（像素，留空自动）
+                        </label>
+                        <input
+                          type="number"
+                          min="1"
+                          value={watermark.settings.image.width || ''}
+                          onChange={(e) => updateWatermarkSettings({
+                            image: {
+                              ...watermark.settings.image!,
+                              width: e.target.value ? parseInt(e.target.value, 10) : undefined
+                            }
+                          })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+
+                      <div>
+                        <label className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={watermark.settings.image.preserveAspectRatio}
+                            onChange={(e) => updateWatermarkSettings({
+                              image: {
+                                ...watermark.settings.image!,
+                                preserveAspectRatio: e.target.checked
+                              }
+                            })}
+                            className="mr-2"
+                          />
+                          保持宽高比
+                        </label>
+                      </div>
+
+                      <div>
+                        <label className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={!!watermark.settings.image.tint}
+                            onChange={(e) => updateWatermarkSettings({
+                              image: {
+                                ...watermark.settings.image!,
+                                tint: e.target.checked ? '#FFFFFF' : undefined
+                              }
+                            })}
+                            className="mr-2"
+                          />
+                          图片着色
+                        </label>
+                        {watermark.settings.image.tint && (
+                          <input
+                            type="color"
+                            value={watermark.settings.image.tint}
+                            onChange={(e) => updateWatermarkSettings({
+                              image: {
+                                ...watermark.settings.image!,
+                                tint: e.target.value
+                              }
+                            })}
+                            className="ml-6 mt-1 w-16 h-8 border border-gray-300 rounded"
+                          />
+                        )}
+                      </div>
+                    </>
+                  )}
+                </>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   水印位置
@@ -721,13 +990,22 @@ const App: React.FC = () => {
                       file.type === 'application/msword' || 
                       file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
                       file.name.toLowerCase().endsWith('.doc') ||
+                      file.name.toLowerCase().endsWith('.rtf') ||
                       file.name.toLowerCase().endsWith('.docx')
                     );
+                    const hasExcel = files.selected.some(file => 
+                      file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
+                      file.name.toLowerCase().endsWith('.xlsx')
+                    );
+                    const hasPowerPoint = files.selected.some(file => 
+                      file.type === 'application/vnd.openxmlformats-officedocument.presentationml.presentation' ||
+                      file.name.toLowerCase().endsWith('.pptx')
+                    );
                     
                     const options = [];
                     
                     // 保持原格式选项（优先推荐）
-                    if (hasPDFs || hasWord) {
+                    if (hasPDFs || hasWord || hasExcel || hasPowerPoint) {
                       options.push(<option key="original" value="original">保持原格式</option>);
                     }
                     
@@ -761,7 +1039,10 @@ const App: React.FC = () => {
                         file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
                         file.name.toLowerCase().endsWith('.pdf') ||
                         file.name.toLowerCase().endsWith('.doc') ||
-                        file.name.toLowerCase().endsWith('.docx')
+                        file.name.toLowerCase().endsWith('.rtf') ||
+                        file.name.toLowerCase().endsWith('.docx') ||
+                        file.name.toLowerCase().endsWith('.xlsx') ||
+                        file.name.toLowerCase().endsWith('.pptx')
                       );
                       return hasDocuments ? 
                         '推荐选择"保持原格式"以维持文档的完整性和可编辑性' : 
@@ -770,6 +1051,196 @@ const App: React.FC = () => {
                   </p>
                 )}
               </div>
+
+              {files.selected.some(file => file.type.startsWith('image/')) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    文件大小上限（MB）
+                  </label>
+                  <input
+                    type="number"
+                    min={0.1}
+                    step={0.1}
+                    placeholder="不限制"
+                    value={watermark.settings.output.maxFileSize ? watermark.settings.output.maxFileSize / 1024 / 1024 : ''}
+                    onChange={(e) => updateWatermarkSettings({
+                      output: {
+                        ...watermark.settings.output,
+                        maxFileSize: e.target.value ? Math.round(Number(e.target.value) * 1024 * 1024) : undefined
+                      }
+                    })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    超出时自动降低质量，仍超出则缩小尺寸；PNG可能转为WebP或JPEG
+                  </p>
+                </div>
+              )}
+
+              {files.selected.some(file => file.name.toLowerCase().endsWith('.xlsx')) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Excel水印方式
+                  </label>
+                  <select
+                    value={watermark.settings.output.spreadsheetMode || 'header'}
+                    onChange={(e) => updateWatermarkSettings({
+                      output: {
+                        ...watermark.settings.output,
+                        spreadsheetMode: e.target.value as 'header' | 'background'
+                      }
+                    })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="header">页眉图片（打印时每页显示）</option>
+                    <option value="background">工作表背景（仅屏幕显示）</option>
+                  </select>
+                </div>
+              )}
+
+              {files.selected.some(file => file.name.toLowerCase().endsWith('.pptx')) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    PowerPoint水印位置
+                  </label>
+                  <select
+                    value={watermark.settings.output.presentationTarget || 'slides'}
+                    onChange={(e) => updateWatermarkSettings({
+                      output: {
+                        ...watermark.settings.output,
+                        presentationTarget: e.target.value as 'slides' | 'master'
+                      }
+                    })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="slides">每张幻灯片</option>
+                    <option value="master">幻灯片母版和版式</option>
+                  </select>
+                </div>
+              )}
+
+              {files.selected.some(file => /\.tiff?$/i.test(file.name)) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    TIFF输出
+                  </label>
+                  <select
+                    value={watermark.settings.output.tiffOutput || 'pdf'}
+                    onChange={(e) => updateWatermarkSettings({
+                      output: {
+                        ...watermark.settings.output,
+                        tiffOutput: e.target.value as 'pdf' | 'tiff'
+                      }
+                    })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="pdf">PDF（每个TIFF页面一页）</option>
+                    <option value="tiff">多页TIFF</option>
+                  </select>
+                </div>
+              )}
+
+              {files.selected.some(file => file.type.startsWith('image/')) && (
+                <MetadataPanel />
+              )}
+
+              {files.selected.some(file => /\.(gif|a?png)$/i.test(file.name)) && (
+                <AnimationPanel />
+              )}
+
+              {files.selected.some(file => file.name.toLowerCase().endsWith('.pdf')) && (
+                <PageRulesPanel />
+              )}
+
+              {files.selected.some(file => /\.(pdf|docx?|rtf)$/i.test(file.name)) && (
+                <>
+                  <StampPanel />
+                  <FlattenPanel />
+                  <PDFSecurityPanel />
+                </>
+              )}
+
+              <div>
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={!!watermark.settings.security.invisibleWatermark?.enabled}
+                    onChange={(e) => updateWatermarkSettings({
+                      security: {
+                        ...watermark.settings.security,
+                        invisibleWatermark: {
+                          payload: { ownerId: '', documentId: '', timestamp: 0 },
+                          ...watermark.settings.security.invisibleWatermark,
+                          enabled: e.target.checked
+                        }
+                      }
+                    })}
+                    className="mr-2"
+                  />
+                  嵌入隐形水印（仅图片）
+                </label>
+                {watermark.settings.security.invisibleWatermark?.enabled && (
+                  <div className="ml-6 mt-2 space-y-2 p-3 bg-gray-50 rounded">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">所有者ID</label>
+                      <input
+                        type="text"
+                        value={watermark.settings.security.invisibleWatermark.payload.ownerId}
+                        onChange={(e) => updateWatermarkSettings({
+                          security: {
+                            ...watermark.settings.security,
+                            invisibleWatermark: {
+                              ...watermark.settings.security.invisibleWatermark!,
+                              payload: {
+                                ...watermark.settings.security.invisibleWatermark!.payload,
+                                ownerId: e.target.value
+                              }
+                            }
+                          }
+                        })}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">文档ID（留空使用文件名）</label>
+                      <input
+                        type="text"
+                        value={watermark.settings.security.invisibleWatermark.payload.documentId}
+                        onChange={(e) => updateWatermarkSettings({
+                          security: {
+                            ...watermark.settings.security,
+                            invisibleWatermark: {
+                              ...watermark.settings.security.invisibleWatermark!,
+                              payload: {
+                                ...watermark.settings.security.invisibleWatermark!.payload,
+                                documentId: e.target.value
+                              }
+                            }
+                          }
+                        })}
+                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  证书签发者
+                </label>
+                <input
+                  type="text"
+                  value={watermark.settings.security.issuer || ''}
+                  onChange={(e) => updateWatermarkSettings({
+                    security: { ...watermark.settings.security, issuer: e.target.value }
+                  })}
+                  placeholder="如公司或部门名称，显示在验证结果中"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <SigningKeyPanel />
             </div>
           </div>
         </div>
@@ -808,8 +1279,8 @@ const App: React.FC = () => {
           <Button variant="outline" onClick={handleClearFiles}>
             处理新文件
           </Button>
-          <Button variant="primary" onClick={handleDownloadAll}>
-            下载全部
+          <Button variant="primary" onClick={handleDownloadAll} disabled={!!ui.progress}>
+            {ui.progress ? `打包中 ${ui.progress.current}%` : '下载全部'}
           </Button>
         </div>
       </div>
@@ -822,7 +1293,12 @@ const App: React.FC = () => {
             if (file.type === 'application/msword' || 
                 file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
                 file.name.toLowerCase().endsWith('.doc') ||
+                file.name.toLowerCase().endsWith('.rtf') ||
                 file.name.toLowerCase().endsWith('.docx')) return '📝';
+            if (file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
+                file.name.toLowerCase().endsWith('.xlsx')) return '📊';
+            if (file.type === 'application/vnd.openxmlformats-officedocument.presentationml.presentation' ||
+                file.name.toLowerCase().endsWith('.pptx')) return '📽️';
             return '📁';
           };
 
@@ -832,7 +1308,12 @@ const App: React.FC = () => {
             if (file.type === 'application/msword' || 
                 file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
                 file.name.toLowerCase().endsWith('.doc') ||
+                file.name.toLowerCase().endsWith('.rtf') ||
                 file.name.toLowerCase().endsWith('.docx')) return 'Word';
+            if (file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
+                file.name.toLowerCase().endsWith('.xlsx')) return 'Excel';
+            if (file.type === 'application/vnd.openxmlformats-officedocument.presentationml.presentation' ||
+                file.name.toLowerCase().endsWith('.pptx')) return 'PowerPoint';
             return '未知';
           };
 
@@ -867,6 +1348,9 @@ const App: React.FC = () => {
                 <h3 className="font-medium text-gray-900 truncate flex items-center">
                   <span className="mr-2">{getFileIcon(result.originalFile)}</span>
                   {result.originalFile.name}
+                  {result.recipient && (
+                    <span className="ml-2 text-sm text-blue-600">→ {result.recipient.name} ({result.recipient.id})</span>
+                  )}
                 </h3>
                 <p className="text-sm text-gray-500 mt-1">
                   {result.success ? (
@@ -880,6 +1364,9 @@ const App: React.FC = () => {
                     '处理失败'
                   )}
                 </p>
+                {result.metadata?.warnings?.map(warning => (
+                  <p key={warning} className="text-xs text-yellow-700 mt-1">⚠️ {warning}</p>
+                ))}
                 {result.success && (
                   <div className="flex justify-between items-center mt-2">
                     <span className="text-xs text-gray-400">
@@ -907,6 +1394,143 @@ const App: React.FC = () => {
     </div>
   );
 
+  const renderVerifyView = () => {
+    const report = verificationReport;
+    const checks = report ? [
+      { label: '证书', passed: report.certificateSource !== 'none', detail: report.certificateSource === 'external' ? '外部证书' : report.certificateSource === 'embedded' ? '文件内嵌证书' : '未找到证书' },
+      { label: '数字签名', passed: report.signatureValid, detail: report.signatureValid ? '签名完整' : '签名无效或与公钥不匹配' },
+      { label: '签名者', passed: report.trustedKey, detail: report.trustedKey ? '已由可信公钥验证' : '签名者不受信任' },
+      { label: '内容哈希', passed: report.hashValid, detail: report.hashValid ? '与证书记录一致' : '与证书记录不一致' },
+      { label: '篡改检测', passed: !report.tamperDetected, detail: report.tamperDetected ? '检测到内容被修改' : '未发现篡改' },
+      { label: '时间戳', passed: report.timestampValid, detail: report.timestampValid ? '在有效期内' : '已过期或无效' }
+    ] : [];
+
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold text-gray-900">
+            文件真伪验证
+          </h2>
+          <Button variant="outline" onClick={() => setActiveView('upload')}>
+            返回
+          </Button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6 space-y-4">
+          <FileUploader
+            onFilesSelect={handleVerifyFileSelect}
+            maxFiles={1}
+            maxFileSize={100 * 1024 * 1024}
+            acceptedFormats={['image/*', '.pdf', '.docx', '.xlsx', 'application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', '.pptx', 'application/vnd.openxmlformats-officedocument.presentationml.presentation']}
+          />
+          {verifyFile && (
+            <p className="text-sm text-gray-600">待验证文件：{verifyFile.name}</p>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              外部证书（可选，JSON）
+            </label>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => setCertificateFile(e.target.files?.[0] || null)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              可信公钥（可选，PEM 或 JWK，留空使用本机签名公钥）
+            </label>
+            <textarea
+              value={trustedPublicKey}
+              onChange={(e) => setTrustedPublicKey(e.target.value)}
+              rows={3}
+              placeholder="-----BEGIN PUBLIC KEY-----"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <Button
+            variant="primary"
+            onClick={handleVerify}
+            loading={verifying}
+            disabled={!verifyFile}
+          >
+            开始验证
+          </Button>
+
+          {verifyError && (
+            <p className="text-sm text-red-600">{verifyError}</p>
+          )}
+        </div>
+
+        {report && (
+          <div className="bg-white rounded-lg shadow p-6 mt-6">
+            <div className={`text-xl font-bold mb-4 ${report.isValid ? 'text-green-600' : 'text-red-600'}`}>
+              {report.isValid ? '✅ 证书有效，文件未被篡改' : '❌ 验证未通过'}
+            </div>
+
+            <ul className="space-y-2">
+              {checks.map(check => (
+                <li key={check.label} className="flex justify-between text-sm">
+                  <span className="text-gray-700">{check.passed ? '✅' : '❌'} {check.label}</span>
+                  <span className="text-gray-500">{check.detail}</span>
+                </li>
+              ))}
+              {report.perceptual && (
+                <li className="flex justify-between text-sm">
+                  <span className="text-gray-700">🖼️ 感知相似度</span>
+                  <span className="text-gray-500">
+                    {report.perceptual.similarity !== undefined
+                      ? `${Math.round(report.perceptual.similarity * 100)}%`
+                      : '证书未记录感知哈希'}
+                  </span>
+                </li>
+              )}
+              {report.tamperMap && (
+                <li className="flex justify-between text-sm">
+                  <span className="text-gray-700">{report.tamperMap.tampered ? '❌' : '✅'} 区域比对</span>
+                  <span className="text-gray-500">
+                    {report.tamperMap.dimensionsChanged
+                      ? '图片比例已改变，可能被裁剪'
+                      : `${report.tamperMap.changedBlocks.length} / ${report.tamperMap.scores.length} 个区域有变化`}
+                  </span>
+                </li>
+              )}
+            </ul>
+
+            {report.tamperMap?.tampered && verifyFile && (
+              <div className="mt-4">
+                <p className="text-sm text-gray-600 mb-2">篡改区域热力图（颜色越红变化越大）</p>
+                <TamperHeatmap image={verifyFile} tamperMap={report.tamperMap} />
+              </div>
+            )}
+
+            {report.issuer && (
+              <div className="mt-4 pt-4 border-t text-sm text-gray-600 space-y-1">
+                <p>签发者：{report.issuer.name || '未署名'}</p>
+                {report.issuer.issuedAt && (
+                  <p>签发时间：{new Date(report.issuer.issuedAt).toLocaleString()}</p>
+                )}
+                {report.issuer.keyFingerprint && (
+                  <p className="break-all">签名公钥指纹：{report.issuer.keyFingerprint}</p>
+                )}
+              </div>
+            )}
+
+            {report.errors.length > 0 && (
+              <ul className="mt-4 text-xs text-red-600 list-disc list-inside">
+                {report.errors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   if (ui.error) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
@@ -935,6 +1559,8 @@ const App: React.FC = () => {
       {ui.activeView === 'upload' && renderUploadView()}
       {ui.activeView === 'editor' && renderEditorView()}
       {ui.activeView === 'preview' && renderPreviewView()}
+      {ui.activeView === 'verify' && renderVerifyView()}
+      {ui.activeView === 'attribution' && <LeakAttributionView onBack={() => setActiveView('upload')} />}
     </div>
   );
 };
@@ -0,0 +1,73 @@
+/**
+ * 动图水印面板 - GIF/APNG保留动画逐帧加水印，可让水印随时间移动
+ */
+
+import React from 'react';
+import { useWatermarkStore } from '@/stores/watermarkStore';
+import { DEFAULT_ANIMATION_CONFIG } from '@/engines/image/AnimatedWatermark';
+import type { AnimationConfig } from '@/types/watermark.types';
+
+const MOTIONS: Array<{ value: AnimationConfig['motion']; label: string }> = [
+  { value: 'static', label: '固定位置' },
+  { value: 'scroll', label: '滚动（从另一侧回绕）' },
+  { value: 'bounce', label: '弹跳（在画面内往返）' }
+];
+
+interface AnimationPanelProps {
+  className?: string;
+}
+
+export const AnimationPanel: React.FC<AnimationPanelProps> = ({ className = '' }) => {
+  const { watermark, updateWatermarkSettings } = useWatermarkStore();
+  const { output } = watermark.settings;
+  const animation = { ...DEFAULT_ANIMATION_CONFIG, ...output.animation };
+
+  const update = (changes: Partial<AnimationConfig>) => {
+    updateWatermarkSettings({ output: { ...output, animation: { ...animation, ...changes } } });
+  };
+
+  return (
+    <div className={className}>
+      <label className="flex items-center text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={animation.preserve}
+          onChange={(e) => update({ preserve: e.target.checked })}
+          className="mr-2"
+        />
+        保留GIF/APNG动画
+      </label>
+
+      {animation.preserve && (
+        <div className="mt-2 grid grid-cols-2 gap-2 pl-6">
+          <label className="text-xs text-gray-700">
+            水印运动
+            <select
+              value={animation.motion}
+              onChange={(e) => update({ motion: e.target.value as AnimationConfig['motion'] })}
+              className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+            >
+              {MOTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs text-gray-700">
+            速度（像素/秒）
+            <input
+              type="number"
+              min={1}
+              value={animation.speed}
+              disabled={animation.motion === 'static'}
+              onChange={(e) => update({ speed: Math.max(1, Number(e.target.value) || 1) })}
+              className="mt-1 w-full px-2 py-1 border border-gray-300 rounded-md"
+            />
+          </label>
+          <p className="col-span-2 text-xs text-gray-500">
+            保留原帧延时、循环次数和处置方式；GIF输出为GIF，APNG输出为PNG。动图不写入隐形水印和元数据。
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+/**
+ * 分发模式面板 - 导入收件人列表，为每位收件人生成一份单独加水印的副本
+ */
+
+import React, { useRef, useState } from 'react';
+import { useWatermarkStore } from '@/stores/watermarkStore';
+import { Button } from '@/components/ui/Button';
+
+interface DistributionPanelProps {
+  className?: string;
+}
+
+export const DistributionPanel: React.FC<DistributionPanelProps> = ({ className = '' }) => {
+  const { distribution, files, loadRecipientList, clearRecipientList } = useWatermarkStore();
+  const [message, setMessage] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const result = await loadRecipientList(file);
+      setMessage(result.recipients.length === 0 ? '列表中没有有效的收件人' : null);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : '收件人列表读取失败');
+    }
+  };
+
+  const active = distribution.recipients.length > 0;
+
+  return (
+    <div className={`bg-white rounded-lg shadow p-4 ${className}`}>
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-medium text-gray-900">分发模式</h3>
+        <div className="space-x-2">
+          <Button size="sm" variant="outline" onClick={() => inputRef.current?.click()}>
+            导入收件人
+          </Button>
+          {active && (
+            <Button size="sm" variant="outline" onClick={clearRecipientList}>
+              清除
+            </Button>
+          )}
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,.json,.txt,text/csv,application/json"
+            className="hidden"
+            onChange={(e) => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 mb-3">
+        CSV列：姓名,编号,邮箱（可带表头），或JSON数组。每位收件人生成一份副本，文字中的 {'{user}'}、{'{id}'}、{'{email}'} 按收件人填入，证书记录收件人。
+      </p>
+
+      {message && <p className="text-xs text-red-600 mb-2">{message}</p>}
+
+      {active && (
+        <>
+          <p className="text-sm text-gray-700">
+            {distribution.listName}：{distribution.recipients.length} 位收件人
+          </p>
+          {files.selected.length !== 1 && (
+            <p className="text-xs text-yellow-700 mt-1">分发模式只能选择一个源文件</p>
+          )}
+          {distribution.errors.length > 0 && (
+            <ul className="text-xs text-yellow-700 mt-1 space-y-0.5">
+              {distribution.errors.slice(0, 5).map(error => <li key={error}>已跳过：{error}</li>)}
+              {distribution.errors.length > 5 && <li>…共 {distribution.errors.length} 条</li>}
+            </ul>
+          )}
+          <ul className="mt-2 max-h-40 overflow-y-auto text-xs text-gray-600 divide-y divide-gray-100">
+            {distribution.recipients.map(recipient => (
+              <li key={recipient.id} className="py-1 flex justify-between">
+                <span className="truncate">{recipient.name}{recipient.email ? ` <${recipient.email}>` : ''}</span>
+                <span className="font-mono text-gray-400 ml-2">{recipient.id}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
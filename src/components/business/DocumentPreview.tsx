@@ -42,6 +42,7 @@ export const DocumentPreview: React.FC<DocumentPreviewProps> = ({
     if (file.type === 'application/msword' || 
         file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
         file.name.toLowerCase().endsWith('.doc') ||
+        file.name.toLowerCase().endsWith('.rtf') ||
         file.name.toLowerCase().endsWith('.docx')) return '📝';
     return '📁';
   };
@@ -51,6 +52,7 @@ export const DocumentPreview: React.FC<DocumentPreviewProps> = ({
     if (file.type === 'application/msword' || 
         file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
         file.name.toLowerCase().endsWith('.doc') ||
+        file.name.toLowerCase().endsWith('.rtf') ||
         file.name.toLowerCase().endsWith('.docx')) return 'Word';
     return '文档';
   };
@@ -6,12 +6,13 @@
 import React, { useCallback, useState } from 'react';
 import type { FileUploaderProps } from '@/types/app.types';
 import { Button } from '@/components/ui/Button';
+import { readDroppedFiles } from '@/utils/fileTree';
 
 export const FileUploader: React.FC<FileUploaderProps> = ({
   onFilesSelect,
   maxFiles = 10,
   maxFileSize = 100 * 1024 * 1024,
-  acceptedFormats = ['image/*', '.pdf', '.doc', '.docx', 'application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  acceptedFormats = ['image/*', '.pdf', '.doc', '.docx', '.rtf', 'application/pdf', 'application/msword', 'application/rtf', 'text/rtf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', '.xlsx', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', '.pptx', 'application/vnd.openxmlformats-officedocument.presentationml.presentation'],
   className = ''
 }) => {
   const [isDragOver, setIsDragOver] = useState(false);
@@ -26,11 +27,12 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
     setIsDragOver(false);
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
     
-    const files = Array.from(e.dataTransfer.files);
+    // 支持拖入文件夹，保留相对目录供批量下载使用
+    const files = await readDroppedFiles(e.dataTransfer);
     const validFiles = files.filter(file => {
       // 检查文件类型
       const isImage = file.type.startsWith('image/');
@@ -38,9 +40,14 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
       const isWord = file.type === 'application/msword' || 
                      file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
                      file.name.toLowerCase().endsWith('.doc') ||
+                     file.name.toLowerCase().endsWith('.rtf') ||
                      file.name.toLowerCase().endsWith('.docx');
+      const isExcel = file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
+                      file.name.toLowerCase().endsWith('.xlsx');
+      const isPowerPoint = file.type === 'application/vnd.openxmlformats-officedocument.presentationml.presentation' ||
+                           file.name.toLowerCase().endsWith('.pptx');
       
-      return (isImage || isPDF || isWord) && file.size <= maxFileSize;
+      return (isImage || isPDF || isWord || isExcel || isPowerPoint) && file.size <= maxFileSize;
     });
     
     if (validFiles.length > 0) {
@@ -59,9 +66,14 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
         const isWord = file.type === 'application/msword' || 
                        file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
                        file.name.toLowerCase().endsWith('.doc') ||
+                       file.name.toLowerCase().endsWith('.rtf') ||
                        file.name.toLowerCase().endsWith('.docx');
+        const isExcel = file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
+                        file.name.toLowerCase().endsWith('.xlsx');
+        const isPowerPoint = file.type === 'application/vnd.openxmlformats-officedocument.presentationml.presentation' ||
+                             file.name.toLowerCase().endsWith('.pptx');
         
-        return (isImage || isPDF || isWord) && file.size <= maxFileSize;
+        return (isImage || isPDF || isWord || isExcel || isPowerPoint) && file.size <= maxFileSize;
       });
       
       if (validFiles.length > 0) {
@@ -91,7 +103,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
               拖拽文件到此处或点击选择文件
             </h3>
             <p className="text-sm text-gray-500 mt-1">
-              支持图片（JPG、PNG、WebP）和文档（PDF、Word）格式，最大 {Math.round(maxFileSize / 1024 / 1024)}MB
+              支持图片（JPG、PNG、WebP、GIF、TIFF）和文档（PDF、Word、Excel、PowerPoint）格式，最大 {Math.round(maxFileSize / 1024 / 1024)}MB
             </p>
           </div>
           <div>
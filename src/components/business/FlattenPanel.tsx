@@ -0,0 +1,101 @@
+/**
+ * PDF栅格化面板 - 将水印与页面合为图片，防止在PDF编辑器中删除水印
+ */
+
+import React from 'react';
+import { useWatermarkStore } from '@/stores/watermarkStore';
+import { FLATTEN_PRESETS, PDFFlattener } from '@/engines/pdf/PDFFlattener';
+import type { FlattenConfig } from '@/types/watermark.types';
+
+const DEFAULT_FLATTEN: FlattenConfig = {
+  enabled: true,
+  preset: 'standard',
+  keepTextLayer: true
+};
+
+const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+interface FlattenPanelProps {
+  className?: string;
+}
+
+export const FlattenPanel: React.FC<FlattenPanelProps> = ({ className = '' }) => {
+  const { watermark, updateWatermarkSettings } = useWatermarkStore();
+  const flatten = watermark.settings.output.flatten;
+
+  const update = (changes: Partial<FlattenConfig>) => {
+    updateWatermarkSettings({
+      output: { ...watermark.settings.output, flatten: { ...(flatten || DEFAULT_FLATTEN), ...changes } }
+    });
+  };
+
+  return (
+    <div className={className}>
+      <label className="flex items-center text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={!!flatten?.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="mr-2"
+        />
+        栅格化PDF（水印无法删除）
+      </label>
+
+      {flatten?.enabled && (
+        <div className="mt-2 space-y-2 pl-6">
+          <select
+            value={flatten.preset}
+            onChange={(e) => update({ preset: e.target.value as FlattenConfig['preset'] })}
+            className={inputClass}
+          >
+            {Object.entries(FLATTEN_PRESETS).map(([preset, { dpi, label }]) => (
+              <option key={preset} value={preset}>{label} · {dpi} DPI</option>
+            ))}
+            <option value="custom">自定义</option>
+          </select>
+
+          {flatten.preset === 'custom' && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">DPI</label>
+                <input
+                  type="number"
+                  min={36}
+                  max={600}
+                  value={PDFFlattener.resolveQuality(flatten).dpi}
+                  onChange={(e) => update({ dpi: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">JPEG质量</label>
+                <input
+                  type="number"
+                  min={0.1}
+                  max={1}
+                  step={0.05}
+                  value={PDFFlattener.resolveQuality(flatten).quality}
+                  onChange={(e) => update({ quality: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+
+          <label className="flex items-center text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={flatten.keepTextLayer}
+              onChange={(e) => update({ keepTextLayer: e.target.checked })}
+              className="mr-1"
+            />
+            保留不可见文字层（可搜索、可复制）
+          </label>
+          <p className="text-xs text-gray-500">
+            每页渲染为图片，矢量文字和链接不再保留，文件体积随DPI增大。
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
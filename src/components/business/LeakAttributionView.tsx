@@ -0,0 +1,170 @@
+/**
+ * 泄露溯源视图 - 上传泄露的图片/PDF，按相似度列出可能的来源副本
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useWatermarkStore } from '@/stores/watermarkStore';
+import { FileUploader } from '@/components/business/FileUploader';
+import { Button } from '@/components/ui/Button';
+import type { AttributionMethod, AttributionReport } from '@/types/attribution.types';
+
+const METHOD_LABELS: Record<AttributionMethod, string> = {
+  exact: '文件完全一致',
+  certificate: '内嵌证书一致',
+  text: 'PDF文字含收件人信息',
+  perceptual: '感知哈希相似'
+};
+
+interface LeakAttributionViewProps {
+  onBack: () => void;
+}
+
+export const LeakAttributionView: React.FC<LeakAttributionViewProps> = ({ onBack }) => {
+  const {
+    attribution,
+    loadIssuanceRecords,
+    matchLeakedFile,
+    deleteIssuanceRecord,
+    clearIssuanceRecords
+  } = useWatermarkStore();
+
+  const [leakedFile, setLeakedFile] = useState<File | null>(null);
+  const [matching, setMatching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<AttributionReport | null>(null);
+
+  useEffect(() => {
+    loadIssuanceRecords();
+  }, [loadIssuanceRecords]);
+
+  const handleMatch = async () => {
+    if (!leakedFile) return;
+
+    setMatching(true);
+    setError(null);
+    setReport(null);
+    try {
+      setReport(await matchLeakedFile(leakedFile));
+    } catch (matchError) {
+      setError(matchError instanceof Error ? matchError.message : '溯源失败');
+    } finally {
+      setMatching(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">泄露溯源</h2>
+        <Button variant="outline" onClick={onBack}>
+          返回
+        </Button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <p className="text-sm text-gray-600">
+          上传泄露的图片或PDF（可以是截图或重新保存的文件），与本机登记的 {attribution.records.length} 份签发副本比对。
+        </p>
+        <FileUploader
+          onFilesSelect={(selected) => {
+            setLeakedFile(selected[0] || null);
+            setReport(null);
+          }}
+          maxFiles={1}
+          maxFileSize={100 * 1024 * 1024}
+          acceptedFormats={['image/*', '.pdf', 'application/pdf']}
+        />
+        {leakedFile && (
+          <p className="text-sm text-gray-600">待溯源文件：{leakedFile.name}</p>
+        )}
+        <Button
+          variant="primary"
+          onClick={handleMatch}
+          loading={matching}
+          disabled={!leakedFile || attribution.records.length === 0}
+        >
+          开始溯源
+        </Button>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      {report && (
+        <div className="bg-white rounded-lg shadow p-6 mt-6">
+          <h3 className="font-medium text-gray-900 mb-1">候选副本</h3>
+          <p className="text-xs text-gray-500 mb-4">
+            已比对 {report.searched} 份登记{!report.fingerprinted && '；未能解码文件内容，仅比对了文件哈希与证书'}
+          </p>
+          {report.candidates.length === 0 ? (
+            <p className="text-sm text-gray-500">没有找到相似的签发副本</p>
+          ) : (
+            <ol className="space-y-3">
+              {report.candidates.map((candidate, index) => (
+                <li key={candidate.record.id} className="border border-gray-200 rounded p-3">
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm font-medium text-gray-900">
+                      {index + 1}. {candidate.record.recipient
+                        ? `${candidate.record.recipient.name}（${candidate.record.recipient.id}）`
+                        : candidate.record.filename}
+                    </span>
+                    <span className={`text-sm font-bold ${candidate.score >= 0.9 ? 'text-green-600' : 'text-yellow-600'}`}>
+                      {Math.round(candidate.score * 100)}%
+                    </span>
+                  </div>
+                  <div className="h-1.5 bg-gray-100 rounded mt-2">
+                    <div className="h-1.5 bg-blue-500 rounded" style={{ width: `${Math.round(candidate.score * 100)}%` }} />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    {METHOD_LABELS[candidate.method]}
+                    {candidate.perceptualSimilarity !== undefined && ` · 整体 ${Math.round(candidate.perceptualSimilarity * 100)}%`}
+                    {candidate.blockSimilarity !== undefined && ` · 分块 ${Math.round(candidate.blockSimilarity * 100)}%`}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {candidate.record.filename} · 签发于 {new Date(candidate.record.issuedAt).toLocaleString()}
+                    {candidate.record.recipient?.email && ` · ${candidate.record.recipient.email}`}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow p-6 mt-6">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="font-medium text-gray-900">签发登记 ({attribution.records.length})</h3>
+          {attribution.records.length > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => window.confirm('清空全部签发登记？清空后将无法溯源这些副本。') && clearIssuanceRecords()}
+            >
+              清空
+            </Button>
+          )}
+        </div>
+        {attribution.records.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {attribution.loaded ? '暂无登记。生成证书或使用分发模式处理的文件会自动登记。' : '加载中…'}
+          </p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 text-xs text-gray-600">
+            {attribution.records.map(record => (
+              <li key={record.id} className="py-2 flex justify-between items-center">
+                <span className="truncate">
+                  {record.filename}
+                  {record.recipient && <span className="text-blue-600 ml-2">{record.recipient.name}</span>}
+                </span>
+                <span className="flex items-center shrink-0 ml-2">
+                  <span className="text-gray-400">{new Date(record.issuedAt).toLocaleDateString()}</span>
+                  <button className="text-red-600 hover:underline ml-3" onClick={() => deleteIssuanceRecord(record.id)}>
+                    删除
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
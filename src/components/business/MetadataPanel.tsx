@@ -0,0 +1,70 @@
+/**
+ * 图片元数据面板 - 保留原图EXIF/XMP/ICC，可去除GPS位置和个人信息
+ */
+
+import React from 'react';
+import { useWatermarkStore } from '@/stores/watermarkStore';
+import { DEFAULT_METADATA_CONFIG } from '@/engines/image/ImageMetadata';
+import type { MetadataConfig } from '@/types/watermark.types';
+
+const OPTIONS: Array<{ key: 'exif' | 'xmp' | 'icc'; label: string }> = [
+  { key: 'exif', label: 'EXIF（相机、拍摄参数、版权）' },
+  { key: 'xmp', label: 'XMP' },
+  { key: 'icc', label: 'ICC色彩配置文件' }
+];
+
+interface MetadataPanelProps {
+  className?: string;
+}
+
+export const MetadataPanel: React.FC<MetadataPanelProps> = ({ className = '' }) => {
+  const { watermark, updateWatermarkSettings } = useWatermarkStore();
+  const { output } = watermark.settings;
+  const metadata = output.metadata || DEFAULT_METADATA_CONFIG;
+
+  const update = (changes: Partial<MetadataConfig>) => {
+    updateWatermarkSettings({ output: { ...output, metadata: { ...metadata, ...changes } } });
+  };
+
+  return (
+    <div className={className}>
+      <label className="flex items-center text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={output.preserveOriginalMetadata}
+          onChange={(e) => updateWatermarkSettings({ output: { ...output, preserveOriginalMetadata: e.target.checked } })}
+          className="mr-2"
+        />
+        保留原图元数据
+      </label>
+
+      {output.preserveOriginalMetadata && (
+        <div className="mt-2 space-y-1 pl-6">
+          {OPTIONS.map(({ key, label }) => (
+            <label key={key} className="flex items-center text-xs text-gray-700">
+              <input
+                type="checkbox"
+                checked={metadata[key]}
+                onChange={(e) => update({ [key]: e.target.checked })}
+                className="mr-1"
+              />
+              {label}
+            </label>
+          ))}
+          <label className="flex items-center text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={metadata.stripPrivate}
+              onChange={(e) => update({ stripPrivate: e.target.checked })}
+              className="mr-1"
+            />
+            去除GPS位置和个人信息（作者、设备序列号等）
+          </label>
+          <p className="text-xs text-gray-500">
+            照片按EXIF方向摆正后输出，方向标记重置为正常；原图缩略图和厂商私有数据不保留。
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+/**
+ * PDF加密面板 - 输出加密与权限限制，以及受密码保护的输入PDF
+ */
+
+import React from 'react';
+import { useWatermarkStore } from '@/stores/watermarkStore';
+import { PDFSecurity } from '@/engines/pdf/PDFSecurity';
+import type { PDFEncryptionConfig, PDFPermissions } from '@/types/watermark.types';
+
+const DEFAULT_ENCRYPTION: PDFEncryptionConfig = {
+  enabled: true,
+  algorithm: 'aes-256',
+  userPassword: '',
+  ownerPassword: '',
+  permissions: PDFSecurity.DEFAULT_PERMISSIONS
+};
+
+const PERMISSION_LABELS: Record<keyof PDFPermissions, string> = {
+  print: '打印',
+  copy: '复制内容',
+  modify: '编辑',
+  annotate: '注释/填表'
+};
+
+const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+interface PDFSecurityPanelProps {
+  className?: string;
+}
+
+export const PDFSecurityPanel: React.FC<PDFSecurityPanelProps> = ({ className = '' }) => {
+  const { watermark, updateWatermarkSettings } = useWatermarkStore();
+  const encryption = watermark.settings.output.encryption;
+
+  const update = (changes: Partial<PDFEncryptionConfig>) => {
+    updateWatermarkSettings({
+      output: { ...watermark.settings.output, encryption: { ...(encryption || DEFAULT_ENCRYPTION), ...changes } }
+    });
+  };
+
+  return (
+    <div className={className}>
+      <label className="flex items-center text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={!!encryption?.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="mr-2"
+        />
+        加密PDF并限制权限
+      </label>
+
+      {encryption?.enabled && (
+        <div className="mt-2 space-y-2 pl-6">
+          <select
+            value={encryption.algorithm}
+            onChange={(e) => update({ algorithm: e.target.value as PDFEncryptionConfig['algorithm'] })}
+            className={inputClass}
+          >
+            <option value="aes-256">AES-256（Acrobat X 及以上）</option>
+            <option value="aes-128">AES-128（兼容旧版阅读器）</option>
+          </select>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">打开密码</label>
+              <input
+                type="password"
+                value={encryption.userPassword}
+                onChange={(e) => update({ userPassword: e.target.value })}
+                placeholder="留空则无需密码"
+                autoComplete="new-password"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">权限密码</label>
+              <input
+                type="password"
+                value={encryption.ownerPassword}
+                onChange={(e) => update({ ownerPassword: e.target.value })}
+                placeholder="留空则随机生成"
+                autoComplete="new-password"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            {(Object.keys(PERMISSION_LABELS) as Array<keyof PDFPermissions>).map(name => (
+              <label key={name} className="flex items-center text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={encryption.permissions[name]}
+                  onChange={(e) => update({ permissions: { ...encryption.permissions, [name]: e.target.checked } })}
+                  className="mr-1"
+                />
+                允许{PERMISSION_LABELS[name]}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            权限限制由阅读器执行；未设置打开密码时任何人都能查看内容。
+          </p>
+        </div>
+      )}
+
+      <div className="mt-2">
+        <label className="block text-xs font-medium text-gray-600 mb-1">输入PDF密码（受保护的PDF）</label>
+        <input
+          type="password"
+          value={watermark.settings.security.pdfPassword || ''}
+          onChange={(e) => updateWatermarkSettings({
+            security: { ...watermark.settings.security, pdfPassword: e.target.value || undefined }
+          })}
+          autoComplete="off"
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+};
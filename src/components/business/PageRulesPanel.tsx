@@ -0,0 +1,169 @@
+/**
+ * PDF页面规则面板 - 设置基础水印应用的页面，并为不同页面追加不同的水印
+ */
+
+import React from 'react';
+import { useWatermarkStore } from '@/stores/watermarkStore';
+import { Button } from '@/components/ui/Button';
+import { PageRules } from '@/utils/watermark/PageRules';
+import { WatermarkVariables } from '@/utils/watermark/WatermarkVariables';
+import type { PageSelection, PageWatermarkRule, WatermarkLayoutConfig } from '@/types/watermark.types';
+
+const PLACEMENT_OPTIONS: Array<{ value: string; label: string; position: Partial<WatermarkLayoutConfig> }> = [
+  { value: 'center', label: '页面居中', position: { placement: 'center', edge: undefined } },
+  { value: 'top', label: '页眉', position: { placement: 'edge', edge: 'top' } },
+  { value: 'bottom', label: '页脚', position: { placement: 'edge', edge: 'bottom' } },
+  { value: 'pattern', label: '平铺', position: { placement: 'pattern', edge: undefined } }
+];
+
+// 新规则默认为正文页页脚
+const DEFAULT_RULE: PageWatermarkRule = {
+  name: '页脚',
+  selection: { pages: '2-last' },
+  type: 'text',
+  text: { content: '第 {page} 页 / 共 {pages} 页', font: { size: 10 } },
+  position: { placement: 'edge', edge: 'bottom', scale: 1, rotation: 0 }
+};
+
+const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+interface PageSelectionFieldsProps {
+  selection: PageSelection;
+  onChange: (selection: PageSelection) => void;
+}
+
+const PageSelectionFields: React.FC<PageSelectionFieldsProps> = ({ selection, onChange }) => {
+  const error = PageRules.validate(selection.pages);
+
+  return (
+    <div>
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="text"
+          value={selection.pages || ''}
+          onChange={(e) => onChange({ ...selection, pages: e.target.value })}
+          placeholder="全部页，如 1-3,7 或 2-last"
+          className={`${inputClass} ${error ? 'border-red-400' : ''}`}
+        />
+        <select
+          value={selection.parity || ''}
+          onChange={(e) => onChange({ ...selection, parity: (e.target.value || undefined) as PageSelection['parity'] })}
+          className={inputClass}
+        >
+          <option value="">奇偶页都加</option>
+          <option value="odd">仅奇数页</option>
+          <option value="even">仅偶数页</option>
+        </select>
+      </div>
+      <label className="flex items-center text-xs text-gray-600 mt-1">
+        <input
+          type="checkbox"
+          checked={!!selection.skipBlank}
+          onChange={(e) => onChange({ ...selection, skipBlank: e.target.checked })}
+          className="mr-1"
+        />
+        跳过空白页
+      </label>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+interface PageRulesPanelProps {
+  className?: string;
+}
+
+export const PageRulesPanel: React.FC<PageRulesPanelProps> = ({ className = '' }) => {
+  const { watermark, updateWatermarkSettings } = useWatermarkStore();
+  const { pages = {}, pageRules = [] } = watermark.settings;
+
+  const updateRule = (index: number, changes: Partial<PageWatermarkRule>) => {
+    updateWatermarkSettings({
+      pageRules: pageRules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule))
+    });
+  };
+
+  return (
+    <div className={className}>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        PDF页面规则
+      </label>
+
+      <p className="text-xs text-gray-500 mb-1">上方水印应用的页面</p>
+      <PageSelectionFields selection={pages} onChange={(selection) => updateWatermarkSettings({ pages: selection })} />
+
+      {pageRules.map((rule, index) => {
+        const placement = rule.position?.placement === 'edge' ? rule.position.edge : rule.position?.placement;
+        const textErrors = WatermarkVariables.validate(rule.text?.content || '').errors;
+
+        return (
+          <div key={index} className="border border-gray-200 rounded p-3 mt-3 space-y-2">
+            <div className="flex justify-between items-center">
+              <input
+                type="text"
+                value={rule.name || ''}
+                onChange={(e) => updateRule(index, { name: e.target.value })}
+                placeholder={`规则 ${index + 1}`}
+                className="text-sm font-medium text-gray-900 border-none p-0 focus:outline-none"
+              />
+              <button
+                className="text-xs text-red-600 hover:underline"
+                onClick={() => updateWatermarkSettings({ pageRules: pageRules.filter((_, i) => i !== index) })}
+              >
+                删除
+              </button>
+            </div>
+            <input
+              type="text"
+              value={rule.text?.content || ''}
+              onChange={(e) => updateRule(index, { text: { ...rule.text, content: e.target.value } })}
+              placeholder="水印文字，支持 {page}、{pages} 等变量"
+              className={inputClass}
+            />
+            {textErrors.length > 0 && <p className="text-xs text-red-600">{textErrors.join('；')}</p>}
+            <div className="grid grid-cols-2 gap-2">
+              <select
+                value={placement || 'center'}
+                onChange={(e) => updateRule(index, {
+                  position: {
+                    ...rule.position,
+                    ...PLACEMENT_OPTIONS.find(option => option.value === e.target.value)?.position
+                  }
+                })}
+                className={inputClass}
+              >
+                {PLACEMENT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={6}
+                max={200}
+                value={rule.text?.font?.size ?? watermark.settings.text?.font.size ?? 24}
+                onChange={(e) => updateRule(index, {
+                  text: { ...rule.text, font: { ...rule.text?.font, size: Number(e.target.value) } }
+                })}
+                title="字号"
+                className={inputClass}
+              />
+            </div>
+            <PageSelectionFields selection={rule.selection} onChange={(selection) => updateRule(index, { selection })} />
+          </div>
+        );
+      })}
+
+      <Button
+        size="sm"
+        variant="outline"
+        className="mt-3"
+        onClick={() => updateWatermarkSettings({ pageRules: [...pageRules, DEFAULT_RULE] })}
+      >
+        添加页面规则
+      </Button>
+      <p className="text-xs text-gray-500 mt-1">
+        例如上方水印只加在第1页（封面），再添加一条2-last的页脚规则。
+      </p>
+    </div>
+  );
+};
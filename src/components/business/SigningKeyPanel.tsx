@@ -0,0 +1,77 @@
+/**
+ * 签名密钥面板 - 查看证书签名公钥指纹，导出公钥给验证方，导入导出密钥对用于备份迁移
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useWatermarkStore } from '@/stores/watermarkStore';
+import { Button } from '@/components/ui/Button';
+import { downloadFile } from '@/utils/downloadHelper';
+
+interface SigningKeyPanelProps {
+  className?: string;
+}
+
+export const SigningKeyPanel: React.FC<SigningKeyPanelProps> = ({ className = '' }) => {
+  const { getSigningKeyFingerprint, exportSigningKey, importSigningKey } = useWatermarkStore();
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    getSigningKeyFingerprint()
+      .then(setFingerprint)
+      .catch(error => setMessage(error instanceof Error ? error.message : '签名密钥加载失败'));
+  }, [getSigningKeyFingerprint]);
+
+  const run = async (action: () => Promise<unknown>, success?: string) => {
+    try {
+      await action();
+      setMessage(success || null);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : '操作失败');
+    }
+  };
+
+  const handleExport = (includePrivateKey: boolean) => run(async () => {
+    const pem = await exportSigningKey(includePrivateKey);
+    const url = URL.createObjectURL(new Blob([pem], { type: 'application/x-pem-file' }));
+    downloadFile(url, includePrivateKey ? 'watermark-signing-key.pem' : 'watermark-public-key.pem');
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }, includePrivateKey ? '密钥对已导出，请妥善保管私钥' : undefined);
+
+  const handleImport = (file: File | undefined) => file && run(async () => {
+    setFingerprint(await importSigningKey(await file.text()));
+  }, '签名密钥已导入');
+
+  return (
+    <div className={className}>
+      <label className="block text-sm font-medium text-gray-700 mb-1">证书签名密钥</label>
+      <p className="text-xs text-gray-500 font-mono break-all mb-2">
+        {fingerprint ? `指纹 ${fingerprint.slice(0, 32)}…` : '加载中…'}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" onClick={() => handleExport(false)}>
+          导出公钥
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => handleExport(true)}>
+          导出密钥对
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => importInputRef.current?.click()}>
+          导入密钥对
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".pem,.key,.txt"
+          className="hidden"
+          onChange={(e) => {
+            handleImport(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <p className="text-xs text-gray-500 mt-1">验证方需配置此公钥，证书才会被判定为有效。</p>
+      {message && <p className="text-xs text-gray-600 mt-1">{message}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+/**
+ * PDF页眉页脚面板 - 页眉页脚文字、第X页共Y页和Bates编号
+ */
+
+import React from 'react';
+import { useWatermarkStore } from '@/stores/watermarkStore';
+import { PDFStamper } from '@/engines/pdf/PDFStamper';
+import { WatermarkVariables } from '@/utils/watermark/WatermarkVariables';
+import type { StampConfig, StampItem } from '@/types/watermark.types';
+
+const SLOTS: Array<Pick<StampItem, 'x' | 'y'> & { label: string }> = [
+  { x: 'left', y: 'top', label: '页眉左' },
+  { x: 'center', y: 'top', label: '页眉中' },
+  { x: 'right', y: 'top', label: '页眉右' },
+  { x: 'left', y: 'bottom', label: '页脚左' },
+  { x: 'center', y: 'bottom', label: '页脚中' },
+  { x: 'right', y: 'bottom', label: '页脚右' }
+];
+
+const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+interface StampPanelProps {
+  className?: string;
+}
+
+export const StampPanel: React.FC<StampPanelProps> = ({ className = '' }) => {
+  const { watermark, updateWatermarkSettings } = useWatermarkStore();
+  const stamp = watermark.settings.stamp;
+
+  const update = (changes: Partial<StampConfig>) => {
+    updateWatermarkSettings({ stamp: { ...(stamp || PDFStamper.DEFAULT_CONFIG), ...changes } });
+  };
+
+  // 每个位置最多一段文字，留空即移除
+  const updateSlot = (slot: Pick<StampItem, 'x' | 'y'>, text: string) => {
+    const items = (stamp?.items || []).filter(item => item.x !== slot.x || item.y !== slot.y);
+    update({ items: text ? [...items, { ...slot, text }] : items });
+  };
+
+  const usesBates = !!stamp?.items.some(item => WatermarkVariables.validate(item.text).variables.includes('bates'));
+
+  return (
+    <div className={className}>
+      <label className="flex items-center text-sm font-medium text-gray-700">
+        <input
+          type="checkbox"
+          checked={!!stamp?.enabled}
+          onChange={(e) => update({ enabled: e.target.checked })}
+          className="mr-2"
+        />
+        PDF页眉页脚 / Bates编号
+      </label>
+
+      {stamp?.enabled && (
+        <div className="mt-2 space-y-3 pl-6">
+          <div className="grid grid-cols-3 gap-2">
+            {SLOTS.map(slot => {
+              const text = stamp.items.find(item => item.x === slot.x && item.y === slot.y)?.text || '';
+              const errors = WatermarkVariables.validate(text).errors;
+              return (
+                <div key={`${slot.y}-${slot.x}`}>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">{slot.label}</label>
+                  <input
+                    type="text"
+                    value={text}
+                    onChange={(e) => updateSlot(slot, e.target.value)}
+                    title={errors.join('；') || undefined}
+                    className={`${inputClass} ${errors.length > 0 ? 'border-red-400' : ''}`}
+                  />
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-500">
+            可用 {'{page}'}、{'{pages}'}、{'{bates}'}、{'{date}'}、{'{filename}'} 等变量，例如“第 {'{page}'} 页 / 共 {'{pages}'} 页”。
+          </p>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Bates前缀</label>
+              <input
+                type="text"
+                value={stamp.bates.prefix}
+                onChange={(e) => update({ bates: { ...stamp.bates, prefix: e.target.value } })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">位数</label>
+              <input
+                type="number"
+                min={1}
+                max={12}
+                value={stamp.bates.digits}
+                onChange={(e) => update({ bates: { ...stamp.bates, digits: Number(e.target.value) } })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">起始序号</label>
+              <input
+                type="number"
+                min={0}
+                value={stamp.bates.start}
+                onChange={(e) => update({ bates: { ...stamp.bates, start: Number(e.target.value) } })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          {usesBates && (
+            <p className="text-xs text-gray-500">
+              编号在本批所有PDF中连续：{PDFStamper.formatBates(stamp.bates, stamp.bates.start)}、
+              {PDFStamper.formatBates(stamp.bates, stamp.bates.start + 1)}…
+            </p>
+          )}
+
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">字号</label>
+              <input
+                type="number"
+                min={4}
+                max={36}
+                value={stamp.fontSize}
+                onChange={(e) => update({ fontSize: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">边距</label>
+              <input
+                type="number"
+                min={0}
+                max={144}
+                value={stamp.margin}
+                onChange={(e) => update({ margin: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">颜色</label>
+              <input
+                type="color"
+                value={stamp.color}
+                onChange={(e) => update({ color: e.target.value })}
+                className="w-full h-8 border border-gray-300 rounded"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!stamp.stampOnly}
+              onChange={(e) => update({ stampOnly: e.target.checked })}
+              className="mr-1"
+            />
+            只加盖页眉页脚，不加水印（仅PDF源文件）
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+/**
+ * 篡改热力图组件 - 在图片上叠加显示被修改的区域
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { TamperMap } from '@/engines/crypto/HashGenerator';
+
+interface TamperHeatmapProps {
+  image: Blob;
+  tamperMap: TamperMap;
+  threshold?: number; // 低于此变化程度的区块不着色
+  className?: string;
+}
+
+export const TamperHeatmap: React.FC<TamperHeatmapProps> = ({
+  image,
+  tamperMap,
+  threshold = 0.1,
+  className = ''
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(image);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !size) return;
+
+    canvas.width = size.width;
+    canvas.height = size.height;
+    ctx.clearRect(0, 0, size.width, size.height);
+
+    // 按变化程度由黄到红着色，与分块哈希的相对坐标划分保持一致
+    tamperMap.scores.forEach((score, index) => {
+      if (score < threshold) return;
+
+      const col = index % tamperMap.cols;
+      const row = Math.floor(index / tamperMap.cols);
+      const x = Math.floor((col * size.width) / tamperMap.cols);
+      const y = Math.floor((row * size.height) / tamperMap.rows);
+      const width = Math.floor(((col + 1) * size.width) / tamperMap.cols) - x;
+      const height = Math.floor(((row + 1) * size.height) / tamperMap.rows) - y;
+
+      ctx.fillStyle = `rgba(255, ${Math.round(200 * (1 - score))}, 0, ${0.25 + 0.45 * score})`;
+      ctx.fillRect(x, y, width, height);
+    });
+  }, [tamperMap, threshold, size]);
+
+  return (
+    <div className={`relative inline-block ${className}`}>
+      {imageUrl && (
+        <img
+          src={imageUrl}
+          alt="篡改检测"
+          className="block max-w-full"
+          onLoad={(e) => setSize({
+            width: e.currentTarget.naturalWidth,
+            height: e.currentTarget.naturalHeight
+          })}
+        />
+      )}
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 w-full h-full pointer-events-none"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+/**
+ * 水印模板库面板 - 保存、套用、设置默认以及导入导出模板
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useWatermarkStore } from '@/stores/watermarkStore';
+import { Button } from '@/components/ui/Button';
+import { downloadFile } from '@/utils/downloadHelper';
+import type { TemplateFileType } from '@/types/template.types';
+
+const FILE_TYPE_LABELS: Record<TemplateFileType, string> = {
+  image: '图片',
+  pdf: 'PDF',
+  word: 'Word',
+  excel: 'Excel',
+  powerpoint: 'PowerPoint'
+};
+
+interface TemplateLibraryPanelProps {
+  className?: string;
+}
+
+export const TemplateLibraryPanel: React.FC<TemplateLibraryPanelProps> = ({ className = '' }) => {
+  const {
+    templates,
+    loadTemplates,
+    saveTemplate,
+    updateTemplate,
+    revertTemplate,
+    deleteTemplate,
+    applyTemplate,
+    setDefaultTemplate,
+    clearDefaultTemplate,
+    importTemplates,
+    exportTemplates,
+    watermark
+  } = useWatermarkStore();
+
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!templates.loaded) {
+      loadTemplates();
+    }
+  }, [templates.loaded, loadTemplates]);
+
+  const allTags = useMemo(
+    () => Array.from(new Set(templates.items.flatMap(item => item.tags))).sort(),
+    [templates.items]
+  );
+  const visibleItems = activeTag
+    ? templates.items.filter(item => item.tags.includes(activeTag))
+    : templates.items;
+
+  const run = async (action: () => Promise<unknown>, success?: string) => {
+    try {
+      await action();
+      setMessage(success || null);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : '操作失败');
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    await saveTemplate({ name, tags: tags.split(/[,，]/) });
+    setName('');
+    setTags('');
+  }, '模板已保存');
+
+  const handleExport = () => run(async () => {
+    const json = await exportTemplates();
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    downloadFile(url, `watermark-templates-${new Date().toISOString().slice(0, 10)}.json`);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  });
+
+  const handleImport = (file: File | undefined) => file && run(async () => {
+    const result = await importTemplates(await file.text());
+    setMessage(`导入${result.imported}个，更新${result.updated}个，跳过${result.skipped}个` +
+      (result.errors.length > 0 ? `，${result.errors.length}个无效` : ''));
+  });
+
+  return (
+    <div className={`bg-white rounded-lg shadow p-4 ${className}`}>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-medium text-gray-900">模板库 ({templates.items.length})</h3>
+        <div className="space-x-2">
+          <Button size="sm" variant="outline" onClick={() => importInputRef.current?.click()}>
+            导入
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleExport} disabled={templates.items.length === 0}>
+            导出
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              handleImport(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="模板名称"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="标签，用逗号分隔"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <Button size="sm" onClick={handleSave} disabled={!name.trim()} className="w-full">
+          保存当前设置为模板
+        </Button>
+      </div>
+
+      {message && <p className="text-xs text-gray-600 mb-3">{message}</p>}
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-3">
+          {[null, ...allTags].map(tag => (
+            <button
+              key={tag ?? '__all'}
+              onClick={() => setActiveTag(tag)}
+              className={`px-2 py-0.5 rounded-full text-xs ${activeTag === tag ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+            >
+              {tag ?? '全部'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {visibleItems.map(item => (
+          <div
+            key={item.id}
+            className={`flex space-x-3 p-2 rounded border ${templates.appliedTemplateId === item.id ? 'border-blue-500' : 'border-gray-200'}`}
+          >
+            {item.thumbnail ? (
+              <img src={item.thumbnail} alt={item.name} className="w-20 h-16 object-cover rounded bg-gray-50" />
+            ) : (
+              <div className="w-20 h-16 rounded bg-gray-100" />
+            )}
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-gray-900 truncate">{item.name}</p>
+                <span className="text-xs text-gray-500">v{item.version}</span>
+              </div>
+              {item.tags.length > 0 && (
+                <p className="text-xs text-gray-500 truncate">{item.tags.join(' · ')}</p>
+              )}
+              {item.defaultFor.length > 0 && (
+                <p className="text-xs text-blue-600">
+                  默认：{item.defaultFor.map(type => FILE_TYPE_LABELS[type]).join('、')}
+                </p>
+              )}
+              <div className="flex flex-wrap gap-2 text-xs">
+                <button className="text-blue-600 hover:underline" onClick={() => applyTemplate(item.id)}>
+                  套用
+                </button>
+                <button
+                  className="text-blue-600 hover:underline"
+                  onClick={() => run(() => updateTemplate(item.id, { settings: watermark.settings }), '已保存为新版本')}
+                >
+                  用当前设置更新
+                </button>
+                <select
+                  value=""
+                  onChange={(e) => {
+                    const [action, type] = e.target.value.split(':') as ['set' | 'clear', TemplateFileType];
+                    run(() => action === 'set' ? setDefaultTemplate(item.id, type) : clearDefaultTemplate(type));
+                  }}
+                  className="border border-gray-300 rounded"
+                >
+                  <option value="">设为默认…</option>
+                  {(Object.keys(FILE_TYPE_LABELS) as TemplateFileType[]).map(type => (
+                    item.defaultFor.includes(type)
+                      ? <option key={type} value={`clear:${type}`}>取消{FILE_TYPE_LABELS[type]}默认</option>
+                      : <option key={type} value={`set:${type}`}>{FILE_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+                {item.history.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => run(() => revertTemplate(item.id, Number(e.target.value)), '已恢复历史版本')}
+                    className="border border-gray-300 rounded"
+                  >
+                    <option value="">恢复版本…</option>
+                    {item.history.map(entry => (
+                      <option key={entry.version} value={entry.version}>
+                        v{entry.version}{entry.note ? ` (${entry.note})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  className="text-red-600 hover:underline"
+                  onClick={() => window.confirm(`删除模板“${item.name}”？`) && run(() => deleteTemplate(item.id))}
+                >
+                  删除
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+        {templates.loaded && visibleItems.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-4">暂无模板</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,569 @@
+/**
+ * 证书嵌入器 - 将水印证书写入输出文件并读回
+ * PNG: iTXt块；JPEG: APP1 XMP段；PDF: 嵌入附件；DOCX等OOXML: 自定义XML部件
+ * 证书哈希基于"签名内容"计算，签名内容不受证书本身嵌入与否影响
+ */
+
+import JSZip from 'jszip';
+import {
+  PDFDocument,
+  PDFName,
+  PDFDict,
+  PDFArray,
+  PDFRef,
+  PDFStream,
+  PDFRawStream,
+  PDFString,
+  PDFHexString,
+  decodePDFRawStream
+} from 'pdf-lib';
+import { PDFSecurity } from '@/engines/pdf/PDFSecurity';
+import type { CertificateData } from '@/types/worker.types';
+
+export type CertificateContainerFormat = 'png' | 'jpeg' | 'pdf' | 'ooxml' | 'unknown';
+
+export interface ExtractedCertificate {
+  format: CertificateContainerFormat;
+  certificate: CertificateData | null;
+  content: Uint8Array; // 去除证书后的签名内容
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+const PNG_KEYWORD = 'WatermarkCertificate';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_NAMESPACE = 'https://watermark.app/ns/certificate/1.0/';
+const PDF_ATTACHMENT_NAME = 'watermark-certificate.json';
+const OOXML_RELATIONSHIP_ID = 'rIdWatermarkCertificate';
+const OOXML_CUSTOM_XML_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/customXml';
+const OOXML_CUSTOM_PROPS_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/customXmlProps';
+
+let crcTable: Uint32Array | null = null;
+
+export class CertificateEmbedder {
+
+  /**
+   * 根据文件头识别容器格式
+   */
+  static detectFormat(bytes: Uint8Array): CertificateContainerFormat {
+    if (PNG_SIGNATURE.every((value, index) => bytes[index] === value)) {
+      return 'png';
+    }
+    if (bytes[0] === 0xFF && bytes[1] === 0xD8 && bytes[2] === 0xFF) {
+      return 'jpeg';
+    }
+    if (this.latin1(bytes.subarray(0, 1024)).includes('%PDF-')) {
+      return 'pdf';
+    }
+    if (bytes[0] === 0x50 && bytes[1] === 0x4B && bytes[2] === 0x03 && bytes[3] === 0x04) {
+      return 'ooxml';
+    }
+    return 'unknown';
+  }
+
+  /**
+   * 将证书嵌入文件（已有证书会被替换）
+   */
+  static async embed(file: Blob, certificate: CertificateData): Promise<Blob> {
+    const bytes = await this.embedBytes(new Uint8Array(await file.arrayBuffer()), certificate);
+    return new Blob([bytes as BlobPart], { type: file.type });
+  }
+
+  /**
+   * 从文件读取证书及签名内容
+   */
+  static async extract(file: Blob): Promise<ExtractedCertificate> {
+    return this.extractBytes(new Uint8Array(await file.arrayBuffer()));
+  }
+
+  /**
+   * 计算文件的签名内容（用于生成证书哈希）
+   */
+  static async getSignedContent(file: Blob): Promise<Uint8Array> {
+    return (await this.extract(file)).content;
+  }
+
+  static async embedBytes(bytes: Uint8Array, certificate: CertificateData): Promise<Uint8Array> {
+    const json = JSON.stringify(certificate);
+    const format = this.detectFormat(bytes);
+
+    switch (format) {
+      case 'png':
+        return this.embedPng(this.stripPng(bytes).content, json);
+      case 'jpeg':
+        return this.embedJpeg(this.stripJpeg(bytes).content, json);
+      case 'pdf':
+        return this.embedPdf(bytes, json);
+      case 'ooxml':
+        return this.embedOoxml(bytes, json);
+      default:
+        throw new Error('Unsupported file format for certificate embedding');
+    }
+  }
+
+  static async extractBytes(bytes: Uint8Array): Promise<ExtractedCertificate> {
+    const format = this.detectFormat(bytes);
+    let result: { content: Uint8Array; json: string | null };
+
+    switch (format) {
+      case 'png':
+        result = this.stripPng(bytes);
+        break;
+      case 'jpeg':
+        result = this.stripJpeg(bytes);
+        break;
+      case 'pdf':
+        result = await this.readPdf(bytes);
+        break;
+      case 'ooxml':
+        result = await this.readOoxml(bytes);
+        break;
+      default:
+        result = { content: bytes, json: null };
+    }
+
+    return {
+      format,
+      certificate: result.json ? this.parseCertificate(result.json) : null,
+      content: result.content
+    };
+  }
+
+  // ---------- PNG ----------
+
+  private static embedPng(bytes: Uint8Array, json: string): Uint8Array {
+    const iendOffset = this.findPngChunk(bytes, 'IEND');
+    if (iendOffset < 0) {
+      throw new Error('Invalid PNG: IEND chunk not found');
+    }
+
+    // iTXt: keyword\0 + 压缩标志 + 压缩方法 + 语言标签\0 + 翻译关键字\0 + UTF-8文本
+    const data = this.concat([
+      this.fromLatin1(`${PNG_KEYWORD}\0\0\0\0\0`),
+      new TextEncoder().encode(json)
+    ]);
+    const chunk = this.createPngChunk('iTXt', data);
+
+    return this.concat([bytes.subarray(0, iendOffset), chunk, bytes.subarray(iendOffset)]);
+  }
+
+  private static stripPng(bytes: Uint8Array): { content: Uint8Array; json: string | null } {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const keep: Uint8Array[] = [bytes.subarray(0, 8)];
+    let json: string | null = null;
+    let offset = 8;
+
+    while (offset + 12 <= bytes.length) {
+      const length = view.getUint32(offset);
+      const type = this.latin1(bytes.subarray(offset + 4, offset + 8));
+      const end = offset + 12 + length;
+      const prefix = `${PNG_KEYWORD}\0`;
+
+      if (type === 'iTXt' && this.latin1(bytes.subarray(offset + 8, offset + 8 + prefix.length)) === prefix) {
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        json = this.readITXtText(data, prefix.length);
+      } else {
+        keep.push(bytes.subarray(offset, end));
+      }
+
+      offset = end;
+      if (type === 'IEND') break;
+    }
+
+    if (offset < bytes.length) {
+      keep.push(bytes.subarray(offset));
+    }
+
+    return { content: json === null ? bytes : this.concat(keep), json };
+  }
+
+  private static readITXtText(data: Uint8Array, start: number): string {
+    // 跳过压缩标志、压缩方法，以及语言标签和翻译关键字两个以\0结尾的字段
+    let offset = start + 2;
+    for (let field = 0; field < 2; field++) {
+      while (offset < data.length && data[offset] !== 0) offset++;
+      offset++;
+    }
+    return new TextDecoder().decode(data.subarray(offset));
+  }
+
+  private static findPngChunk(bytes: Uint8Array, chunkType: string): number {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 8;
+    while (offset + 12 <= bytes.length) {
+      if (this.latin1(bytes.subarray(offset + 4, offset + 8)) === chunkType) {
+        return offset;
+      }
+      offset += 12 + view.getUint32(offset);
+    }
+    return -1;
+  }
+
+  private static createPngChunk(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(this.fromLatin1(type), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, this.crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+  }
+
+  private static crc32(bytes: Uint8Array): number {
+    if (!crcTable) {
+      crcTable = new Uint32Array(256);
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        }
+        crcTable[n] = c >>> 0;
+      }
+    }
+
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < bytes.length; i++) {
+      crc = crcTable[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+  }
+
+  // ---------- JPEG ----------
+
+  private static embedJpeg(bytes: Uint8Array, json: string): Uint8Array {
+    const packet = [
+      '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+      '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+      '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+      `<rdf:Description rdf:about="" xmlns:wmcert="${XMP_NAMESPACE}">`,
+      `<wmcert:Certificate>${this.toBase64(new TextEncoder().encode(json))}</wmcert:Certificate>`,
+      '</rdf:Description>',
+      '</rdf:RDF>',
+      '</x:xmpmeta>',
+      '<?xpacket end="w"?>'
+    ].join('');
+
+    const payload = this.concat([this.fromLatin1(XMP_HEADER), new TextEncoder().encode(packet)]);
+    if (payload.length + 2 > 0xFFFF) {
+      throw new Error('Certificate too large for a JPEG APP1 segment');
+    }
+
+    const segment = new Uint8Array(4 + payload.length);
+    segment[0] = 0xFF;
+    segment[1] = 0xE1;
+    new DataView(segment.buffer).setUint16(2, payload.length + 2);
+    segment.set(payload, 4);
+
+    // 插入在SOI及开头的APP0/APP1（JFIF/EXIF）段之后
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xFF &&
+           (bytes[offset + 1] === 0xE0 || bytes[offset + 1] === 0xE1)) {
+      offset += 2 + view.getUint16(offset + 2);
+    }
+
+    return this.concat([bytes.subarray(0, offset), segment, bytes.subarray(offset)]);
+  }
+
+  private static stripJpeg(bytes: Uint8Array): { content: Uint8Array; json: string | null } {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 2;
+
+    // 仅扫描图像数据(SOS)之前的标记段
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xFF) {
+      const marker = bytes[offset + 1];
+      if (marker === 0xDA || marker === 0xD9) break;
+
+      const length = view.getUint16(offset + 2);
+      const end = offset + 2 + length;
+
+      if (marker === 0xE1) {
+        const segment = bytes.subarray(offset + 4, end);
+        if (this.latin1(segment.subarray(0, XMP_HEADER.length)) === XMP_HEADER) {
+          const xmp = new TextDecoder().decode(segment.subarray(XMP_HEADER.length));
+          const match = xmp.match(/<wmcert:Certificate>([A-Za-z0-9+/=\s]+)<\/wmcert:Certificate>/);
+          if (match && xmp.includes(XMP_NAMESPACE)) {
+            return {
+              content: this.concat([bytes.subarray(0, offset), bytes.subarray(end)]),
+              json: new TextDecoder().decode(this.fromBase64(match[1]))
+            };
+          }
+        }
+      }
+
+      offset = end;
+    }
+
+    return { content: bytes, json: null };
+  }
+
+  // ---------- PDF ----------
+
+  private static async embedPdf(bytes: Uint8Array, json: string): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+
+    await pdfDoc.attach(Uint8Array.from(new TextEncoder().encode(json)), PDF_ATTACHMENT_NAME, {
+      mimeType: 'application/json',
+      description: 'Watermark certificate'
+    });
+
+    // 不重建表单外观，避免改变页面内容
+    return pdfDoc.save({ updateFieldAppearances: false });
+  }
+
+  private static async readPdf(bytes: Uint8Array): Promise<{ content: Uint8Array; json: string | null }> {
+    // 加密输出（仅设置权限密码时）可直接解密读取，签名内容与加密前一致
+    const pdfDoc = await PDFDocument.load(await PDFSecurity.open(bytes), { updateMetadata: false });
+    const context = pdfDoc.context;
+
+    let json: string | null = null;
+    const names = pdfDoc.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+    const embeddedFiles = names?.lookupMaybe(PDFName.of('EmbeddedFiles'), PDFDict);
+    if (embeddedFiles) {
+      this.visitNameTree(embeddedFiles, (name, fileSpec) => {
+        if (name !== PDF_ATTACHMENT_NAME || !(fileSpec instanceof PDFDict)) return;
+        const stream = fileSpec.lookupMaybe(PDFName.of('EF'), PDFDict)?.lookup(PDFName.of('F'));
+        if (stream instanceof PDFRawStream) {
+          json = new TextDecoder().decode(decodePDFRawStream(stream).decode());
+        }
+      });
+    }
+
+    // 签名内容：从页面树出发遍历所有可达对象，对象引用按遍历顺序重新编号，
+    // 因此不受附件、元数据和对象重新编号的影响
+    const pagesRef = pdfDoc.catalog.get(PDFName.of('Pages'));
+    const catalogRef = context.trailerInfo.Root;
+    const ids = new Map<string, number>();
+    const queue: PDFRef[] = [];
+    const parts: Uint8Array[] = [];
+    const encoder = new TextEncoder();
+
+    const serialize = (object: unknown): string => {
+      if (object instanceof PDFRef) {
+        if (catalogRef instanceof PDFRef && object.tag === catalogRef.tag) return '@C';
+        if (!ids.has(object.tag)) {
+          ids.set(object.tag, ids.size);
+          queue.push(object);
+        }
+        return `@${ids.get(object.tag)}`;
+      }
+      if (object instanceof PDFDict) {
+        const entries = object.entries()
+          .map(([key, value]) => [key.toString(), value] as const)
+          .filter(([key]) => key !== '/Length')
+          .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `<<${entries.map(([key, value]) => `${key} ${serialize(value)}`).join(' ')}>>`;
+      }
+      if (object instanceof PDFArray) {
+        return `[${object.asArray().map(serialize).join(' ')}]`;
+      }
+      if (object instanceof PDFString || object instanceof PDFHexString) {
+        return `(${object.decodeText()})`;
+      }
+      return String(object);
+    };
+
+    if (pagesRef) {
+      serialize(pagesRef);
+    }
+
+    for (let index = 0; index < queue.length; index++) {
+      const object = context.lookup(queue[index]);
+      if (object instanceof PDFStream) {
+        const contents = object.getContents();
+        parts.push(encoder.encode(`${index} ${serialize(object.dict)} ${contents.length}\n`), contents);
+      } else {
+        parts.push(encoder.encode(`${index} ${serialize(object)}\n`));
+      }
+    }
+
+    return { content: this.concat(parts), json };
+  }
+
+  private static visitNameTree(node: PDFDict, visit: (name: string, value: unknown) => void): void {
+    const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+    if (names) {
+      for (let i = 0; i + 1 < names.size(); i += 2) {
+        const key = names.lookup(i);
+        if (key instanceof PDFString || key instanceof PDFHexString) {
+          visit(key.decodeText(), names.lookup(i + 1));
+        }
+      }
+    }
+
+    const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+    kids?.asArray().forEach((_, i) => {
+      const kid = kids.lookup(i);
+      if (kid instanceof PDFDict) this.visitNameTree(kid, visit);
+    });
+  }
+
+  // ---------- OOXML (DOCX/XLSX/PPTX) ----------
+
+  private static async embedOoxml(bytes: Uint8Array, json: string): Promise<Uint8Array> {
+    const zip = await JSZip.loadAsync(bytes);
+    await this.removeOoxmlCertificate(zip);
+
+    const mainRels = await this.getOoxmlMainRelsPath(zip);
+    let index = 1;
+    while (zip.file(`customXml/item${index}.xml`)) index++;
+
+    const itemXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+      `<wmcert:certificate xmlns:wmcert="${XMP_NAMESPACE}">${this.toBase64(new TextEncoder().encode(json))}</wmcert:certificate>`;
+    const itemProps = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+      `<ds:datastoreItem ds:itemID="{${this.createGuid(json)}}" xmlns:ds="http://schemas.openxmlformats.org/officeDocument/2006/customXml">` +
+      `<ds:schemaRefs><ds:schemaRef ds:uri="${XMP_NAMESPACE}"/></ds:schemaRefs></ds:datastoreItem>`;
+    const itemRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+      `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      `<Relationship Id="rId1" Type="${OOXML_CUSTOM_PROPS_TYPE}" Target="itemProps${index}.xml"/></Relationships>`;
+
+    zip.file(`customXml/item${index}.xml`, itemXml);
+    zip.file(`customXml/itemProps${index}.xml`, itemProps);
+    zip.file(`customXml/_rels/item${index}.xml.rels`, itemRels);
+
+    const contentTypes = await zip.file('[Content_Types].xml')?.async('string');
+    if (contentTypes) {
+      zip.file('[Content_Types].xml', contentTypes.replace('</Types>', `${this.ooxmlContentTypes(index)}</Types>`));
+    }
+
+    const rels = await zip.file(mainRels.path)?.async('string');
+    if (rels) {
+      zip.file(mainRels.path, rels.replace('</Relationships>', `${this.ooxmlRelationship(index, mainRels.depth)}</Relationships>`));
+    }
+
+    return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+  }
+
+  private static async readOoxml(bytes: Uint8Array): Promise<{ content: Uint8Array; json: string | null }> {
+    const zip = await JSZip.loadAsync(bytes);
+    const json = await this.removeOoxmlCertificate(zip);
+
+    // 签名内容：按文件名排序的所有部件（解压后）
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const names = Object.keys(zip.files).filter(name => !zip.files[name].dir).sort();
+    for (const name of names) {
+      const data = await zip.files[name].async('uint8array');
+      parts.push(encoder.encode(`${name}\0${data.length}\n`), data);
+    }
+
+    return { content: this.concat(parts), json };
+  }
+
+  /**
+   * 从包中移除证书部件并还原被修改的关系与内容类型，返回证书JSON
+   */
+  private static async removeOoxmlCertificate(zip: JSZip): Promise<string | null> {
+    const itemPattern = /^customXml\/item(\d+)\.xml$/;
+
+    for (const name of Object.keys(zip.files)) {
+      const match = name.match(itemPattern);
+      if (!match) continue;
+
+      const xml = await zip.files[name].async('string');
+      const certificate = xml.match(/<wmcert:certificate[^>]*>([A-Za-z0-9+/=\s]+)<\/wmcert:certificate>/);
+      if (!certificate || !xml.includes(XMP_NAMESPACE)) continue;
+
+      const index = Number(match[1]);
+      const mainRels = await this.getOoxmlMainRelsPath(zip);
+
+      zip.remove(name);
+      zip.remove(`customXml/itemProps${index}.xml`);
+      zip.remove(`customXml/_rels/item${index}.xml.rels`);
+
+      const contentTypes = await zip.file('[Content_Types].xml')?.async('string');
+      if (contentTypes) {
+        zip.file('[Content_Types].xml', contentTypes.replace(this.ooxmlContentTypes(index), ''));
+      }
+      const rels = await zip.file(mainRels.path)?.async('string');
+      if (rels) {
+        zip.file(mainRels.path, rels.replace(this.ooxmlRelationship(index, mainRels.depth), ''));
+      }
+
+      return new TextDecoder().decode(this.fromBase64(certificate[1]));
+    }
+
+    return null;
+  }
+
+  private static async getOoxmlMainRelsPath(zip: JSZip): Promise<{ path: string; depth: number }> {
+    const rootRels = await zip.file('_rels/.rels')?.async('string');
+    const target = rootRels?.match(/<Relationship[^>]*Type="[^"]*\/officeDocument"[^>]*>/)?.[0]
+      .match(/Target="\/?([^"]+)"/)?.[1];
+
+    if (!target) {
+      throw new Error('Invalid OOXML package: main document part not found');
+    }
+
+    const slash = target.lastIndexOf('/');
+    const directory = slash >= 0 ? target.slice(0, slash + 1) : '';
+    return {
+      path: `${directory}_rels/${target.slice(slash + 1)}.rels`,
+      depth: directory.split('/').filter(Boolean).length
+    };
+  }
+
+  private static ooxmlContentTypes(index: number): string {
+    return `<Override PartName="/customXml/itemProps${index}.xml" ` +
+      `ContentType="application/vnd.openxmlformats-officedocument.customXmlProperties+xml"/>`;
+  }
+
+  private static ooxmlRelationship(index: number, depth: number): string {
+    return `<Relationship Id="${OOXML_RELATIONSHIP_ID}" Type="${OOXML_CUSTOM_XML_TYPE}" ` +
+      `Target="${'../'.repeat(depth)}customXml/item${index}.xml"/>`;
+  }
+
+  private static createGuid(seed: string): string {
+    // 由证书内容派生稳定的GUID格式标识
+    let hash = this.crc32(new TextEncoder().encode(seed));
+    const hex = Array.from({ length: 4 }, (_, i) => {
+      hash = (Math.imul(hash ^ (hash >>> 15), 0x2C1B3C6D) + i) >>> 0;
+      return hash.toString(16).padStart(8, '0');
+    }).join('').toUpperCase();
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+  }
+
+  // ---------- 通用工具 ----------
+
+  private static parseCertificate(json: string): CertificateData | null {
+    try {
+      const certificate = JSON.parse(json);
+      if (certificate && typeof certificate.hash === 'string' && typeof certificate.signature === 'string') {
+        return certificate as CertificateData;
+      }
+    } catch (error) {
+      console.warn('Embedded certificate is not valid JSON:', error);
+    }
+    return null;
+  }
+
+  private static concat(parts: Uint8Array[]): Uint8Array {
+    const total = parts.reduce((sum, part) => sum + part.length, 0);
+    const result = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+      result.set(part, offset);
+      offset += part.length;
+    }
+    return result;
+  }
+
+  private static latin1(bytes: Uint8Array): string {
+    let result = '';
+    for (let i = 0; i < bytes.length; i++) {
+      result += String.fromCharCode(bytes[i]);
+    }
+    return result;
+  }
+
+  private static fromLatin1(text: string): Uint8Array {
+    return Uint8Array.from(text, char => char.charCodeAt(0));
+  }
+
+  private static toBase64(bytes: Uint8Array): string {
+    return btoa(this.latin1(bytes));
+  }
+
+  private static fromBase64(base64: string): Uint8Array {
+    return this.fromLatin1(atob(base64.replace(/\s+/g, '')));
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * 证书签名器 - ECDSA P-256 公钥签名
+ * 密钥对生成、JWK/PEM导入导出、规范化JSON签名与验证、公钥指纹
+ */
+
+export type SigningKeyFormat = 'jwk' | 'pem';
+
+export interface ExportedKeyPair {
+  publicKey: JsonWebKey | string;
+  privateKey: JsonWebKey | string;
+}
+
+export class CertificateSigner {
+  static readonly ALGORITHM = 'ECDSA-P256-SHA256';
+
+  private static readonly KEY_PARAMS: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+  private static readonly SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+  /**
+   * 生成ECDSA P-256密钥对
+   */
+  static async generateKeyPair(extractable: boolean = true): Promise<CryptoKeyPair> {
+    return crypto.subtle.generateKey(this.KEY_PARAMS, extractable, ['sign', 'verify']);
+  }
+
+  /**
+   * 导出密钥（JWK对象或PEM字符串）
+   */
+  static async exportKey(key: CryptoKey, format: 'jwk'): Promise<JsonWebKey>;
+  static async exportKey(key: CryptoKey, format: 'pem'): Promise<string>;
+  static async exportKey(key: CryptoKey, format: SigningKeyFormat): Promise<JsonWebKey | string> {
+    if (format === 'jwk') {
+      return crypto.subtle.exportKey('jwk', key);
+    }
+
+    const isPrivate = key.type === 'private';
+    const der = await crypto.subtle.exportKey(isPrivate ? 'pkcs8' : 'spki', key);
+    return this.derToPem(new Uint8Array(der), isPrivate ? 'PRIVATE KEY' : 'PUBLIC KEY');
+  }
+
+  /**
+   * 导出整个密钥对
+   */
+  static async exportKeyPair(keyPair: CryptoKeyPair, format: SigningKeyFormat): Promise<ExportedKeyPair> {
+    if (format === 'jwk') {
+      return {
+        publicKey: await this.exportKey(keyPair.publicKey, 'jwk'),
+        privateKey: await this.exportKey(keyPair.privateKey, 'jwk')
+      };
+    }
+
+    return {
+      publicKey: await this.exportKey(keyPair.publicKey, 'pem'),
+      privateKey: await this.exportKey(keyPair.privateKey, 'pem')
+    };
+  }
+
+  /**
+   * 导入公钥（JWK对象或PEM字符串）
+   */
+  static async importPublicKey(key: JsonWebKey | string): Promise<CryptoKey> {
+    if (typeof key === 'string') {
+      const der = this.pemToDer(key, 'PUBLIC KEY');
+      return crypto.subtle.importKey('spki', der, this.KEY_PARAMS, true, ['verify']);
+    }
+
+    // 只保留公钥参数，避免误传入私钥JWK时导入失败
+    const { kty, crv, x, y } = key;
+    return crypto.subtle.importKey('jwk', { kty, crv, x, y }, this.KEY_PARAMS, true, ['verify']);
+  }
+
+  /**
+   * 导入私钥（JWK对象或PEM字符串）
+   */
+  static async importPrivateKey(key: JsonWebKey | string, extractable: boolean = false): Promise<CryptoKey> {
+    if (typeof key === 'string') {
+      const der = this.pemToDer(key, 'PRIVATE KEY');
+      return crypto.subtle.importKey('pkcs8', der, this.KEY_PARAMS, extractable, ['sign']);
+    }
+
+    if (!key.d) {
+      throw new Error('JWK does not contain a private key');
+    }
+
+    return crypto.subtle.importKey('jwk', key, this.KEY_PARAMS, extractable, ['sign']);
+  }
+
+  /**
+   * 公钥指纹：SPKI DER的SHA-256（十六进制）
+   */
+  static async getKeyFingerprint(publicKey: CryptoKey): Promise<string> {
+    const der = await crypto.subtle.exportKey('spki', publicKey);
+    const digest = await crypto.subtle.digest('SHA-256', der);
+    return this.toHex(new Uint8Array(digest));
+  }
+
+  /**
+   * 对数据签名（规范化JSON），返回十六进制签名
+   */
+  static async sign(privateKey: CryptoKey, data: unknown): Promise<string> {
+    const payload = new TextEncoder().encode(this.canonicalize(data));
+    const signature = await crypto.subtle.sign(this.SIGN_PARAMS, privateKey, payload);
+    return this.toHex(new Uint8Array(signature));
+  }
+
+  /**
+   * 验证签名
+   */
+  static async verify(publicKey: CryptoKey, data: unknown, signature: string): Promise<boolean> {
+    if (!/^[0-9a-f]+$/i.test(signature) || signature.length % 2 !== 0) {
+      return false;
+    }
+
+    const payload = new TextEncoder().encode(this.canonicalize(data));
+    return crypto.subtle.verify(this.SIGN_PARAMS, publicKey, this.fromHex(signature), payload);
+  }
+
+  /**
+   * 规范化JSON：对象键排序、忽略undefined，保证签名与验证的字节一致
+   */
+  static canonicalize(value: unknown): string {
+    if (value === null || typeof value !== 'object') {
+      return JSON.stringify(value) ?? 'null';
+    }
+
+    if (Array.isArray(value)) {
+      return `[${value.map(item => (item === undefined ? 'null' : this.canonicalize(item))).join(',')}]`;
+    }
+
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${this.canonicalize((value as Record<string, unknown>)[key])}`);
+
+    return `{${entries.join(',')}}`;
+  }
+
+  private static derToPem(der: Uint8Array, label: string): string {
+    let binary = '';
+    der.forEach(byte => {
+      binary += String.fromCharCode(byte);
+    });
+    const base64 = btoa(binary).match(/.{1,64}/g)?.join('\n') || '';
+    return `-----BEGIN ${label}-----\n${base64}\n-----END ${label}-----`;
+  }
+
+  private static pemToDer(pem: string, label: string): Uint8Array<ArrayBuffer> {
+    const match = pem.match(new RegExp(`-----BEGIN ${label}-----([\\s\\S]+?)-----END ${label}-----`));
+    if (!match) {
+      throw new Error(`Invalid PEM: expected ${label}`);
+    }
+
+    const binary = atob(match[1].replace(/\s+/g, ''));
+    const der = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      der[i] = binary.charCodeAt(i);
+    }
+    return der;
+  }
+
+  private static toHex(bytes: Uint8Array): string {
+    return Array.from(bytes)
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  private static fromHex(hex: string): Uint8Array<ArrayBuffer> {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return bytes;
+  }
+}
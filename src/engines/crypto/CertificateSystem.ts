@@ -1,21 +1,27 @@
 /**
  * 证书系统核心实现
- * SHA-256 证书生成和验证
+ * SHA-256 证书生成和验证，ECDSA P-256 数字签名
  * 基于架构文档的安全设计
  */
 
 import type { CertificateData } from '@/types/worker.types';
 import type { WatermarkResult, ProcessingMetadata } from '@/types/watermark.types';
+import { CertificateSigner, type SigningKeyFormat } from './CertificateSigner';
+import { CertificateEmbedder } from './CertificateEmbedder';
 
 export interface CertificateConfig {
   algorithm: 'SHA-256' | 'SHA-512';
   includeTimestamp: boolean;
   includeMetadata: boolean;
   customFields?: Record<string, any>;
+  signingKeyPair?: CryptoKeyPair;
 }
 
+export type TrustedPublicKey = CryptoKey | JsonWebKey | string;
+
 export class CertificateSystem {
   private readonly _config: CertificateConfig;
+  private _keyPair: Promise<CryptoKeyPair> | null = null;
 
   constructor(config: Partial<CertificateConfig> = {}) {
     this._config = {
@@ -24,6 +30,35 @@ export class CertificateSystem {
       includeMetadata: true,
       ...config
     };
+
+    if (this._config.signingKeyPair) {
+      this._keyPair = Promise.resolve(this._config.signingKeyPair);
+    }
+  }
+
+  /**
+   * 设置签名密钥对
+   */
+  setSigningKeyPair(keyPair: CryptoKeyPair): void {
+    this._keyPair = Promise.resolve(keyPair);
+  }
+
+  /**
+   * 导出当前签名公钥，供验证方配置为可信公钥
+   */
+  async exportPublicKey(format: SigningKeyFormat = 'jwk'): Promise<JsonWebKey | string> {
+    const { publicKey } = await this._getKeyPair();
+    return format === 'jwk'
+      ? CertificateSigner.exportKey(publicKey, 'jwk')
+      : CertificateSigner.exportKey(publicKey, 'pem');
+  }
+
+  /**
+   * 获取当前签名公钥指纹
+   */
+  async getKeyFingerprint(): Promise<string> {
+    const { publicKey } = await this._getKeyPair();
+    return CertificateSigner.getKeyFingerprint(publicKey);
   }
 
   /**
@@ -38,16 +73,16 @@ export class CertificateSystem {
     }
 
     try {
-      // 获取图像数据
-      const imageBuffer = await result.processedImage.blob.arrayBuffer();
+      // 获取签名内容（文件中已嵌入的证书不计入哈希）
+      const content = await CertificateEmbedder.getSignedContent(result.processedImage.blob);
       
       // 计算图像哈希
-      const imageHash = await this._calculateHash(new Uint8Array(imageBuffer));
+      const imageHash = await this._calculateHash(content);
       
       // 构建证书数据
       const certificateData: any = {
         imageHash,
-        imageSize: imageBuffer.byteLength,
+        imageSize: result.processedImage.blob.size,
         dimensions: result.processedImage.dimensions,
         format: result.processedImage.format
       };
@@ -69,23 +104,35 @@ export class CertificateSystem {
         Object.assign(certificateData, this._config.customFields);
       }
 
-      // 生成数字签名
-      const signature = await this._generateSignature(certificateData);
-      
       // 计算证书哈希
       const certificateHash = await this._calculateHash(
         new TextEncoder().encode(JSON.stringify(certificateData))
       );
 
+      // 签名公钥信息写入元数据，验证方据此识别签名者
+      const keyPair = await this._getKeyPair();
+      const metadata = {
+        ...certificateData,
+        algorithm: this._config.algorithm,
+        version: '2.0.0',
+        signatureAlgorithm: CertificateSigner.ALGORITHM,
+        keyFingerprint: await CertificateSigner.getKeyFingerprint(keyPair.publicKey),
+        publicKey: await CertificateSigner.exportKey(keyPair.publicKey, 'jwk')
+      };
+
+      const timestamp = certificateData.timestamp || Date.now();
+
+      // 生成数字签名
+      const signature = await CertificateSigner.sign(
+        keyPair.privateKey,
+        this._getSignedContent({ hash: certificateHash, timestamp, metadata })
+      );
+
       return {
         hash: certificateHash,
-        timestamp: certificateData.timestamp || Date.now(),
+        timestamp,
         signature,
-        metadata: {
-          ...certificateData,
-          algorithm: this._config.algorithm,
-          version: '1.0.0'
-        }
+        metadata
       };
     } catch (error) {
       throw new Error(`Certificate generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -93,16 +140,32 @@ export class CertificateSystem {
   }
 
   /**
-   * 验证证书的有效性
+   * 将证书嵌入输出文件
+   */
+  async embedCertificate(file: Blob, certificate: CertificateData): Promise<Blob> {
+    return CertificateEmbedder.embed(file, certificate);
+  }
+
+  /**
+   * 验证证书：可直接传入带嵌入证书的文件，或传入外部证书与文件
    */
+  async validateCertificate(
+    file: Blob,
+    trustedPublicKey?: TrustedPublicKey
+  ): Promise<CertificateValidationResult>;
   async validateCertificate(
     certificate: CertificateData,
-    imageBlob: Blob
-  ): Promise<{
-    isValid: boolean;
-    errors: string[];
-    details: ValidationDetails;
-  }> {
+    imageBlob: Blob,
+    trustedPublicKey?: TrustedPublicKey
+  ): Promise<CertificateValidationResult>;
+  async validateCertificate(
+    certificateOrFile: CertificateData | Blob,
+    imageBlobOrKey?: Blob | TrustedPublicKey,
+    trustedKey?: TrustedPublicKey
+  ): Promise<CertificateValidationResult> {
+    const embeddedOnly = !('signature' in certificateOrFile);
+    const imageBlob = embeddedOnly ? certificateOrFile as Blob : imageBlobOrKey as Blob;
+    const trustedPublicKey = embeddedOnly ? imageBlobOrKey as TrustedPublicKey | undefined : trustedKey;
     const errors: string[] = [];
     const details: ValidationDetails = {
       hashValid: false,
@@ -110,13 +173,21 @@ export class CertificateSystem {
       timestampValid: false,
       metadataValid: false,
       tamperDetected: false,
-      confidence: 0
+      confidence: 0,
+      trustedKey: false
     };
 
     try {
+      const extracted = await CertificateEmbedder.extract(imageBlob);
+      const certificate = embeddedOnly ? extracted.certificate : certificateOrFile as CertificateData;
+
+      if (!certificate) {
+        errors.push('No embedded certificate found in file');
+        return { isValid: false, errors, details };
+      }
+
       // 验证图像哈希
-      const currentImageBuffer = await imageBlob.arrayBuffer();
-      const currentImageHash = await this._calculateHash(new Uint8Array(currentImageBuffer));
+      const currentImageHash = await this._calculateHash(extracted.content);
       
       if (certificate.metadata.imageHash === currentImageHash) {
         details.hashValid = true;
@@ -127,11 +198,16 @@ export class CertificateSystem {
 
       // 验证数字签名
       try {
-        const signatureValid = await this._verifySignature(certificate);
-        details.signatureValid = signatureValid;
+        const verification = await this._verifySignature(certificate, trustedPublicKey);
+        details.signatureValid = verification.valid;
+        details.signerFingerprint = verification.fingerprint;
+        details.trustedKey = verification.valid && !!trustedPublicKey;
         
-        if (!signatureValid) {
-          errors.push('Digital signature verification failed');
+        if (!verification.valid) {
+          errors.push(verification.error || 'Digital signature verification failed');
+        } else if (!details.trustedKey) {
+          // 证书内公钥只能证明签名完整，任何人都可以用自己的密钥重新签名
+          errors.push('Untrusted signer: signature was not verified against a trusted public key');
         }
       } catch (error) {
         errors.push(`Signature verification error: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -175,12 +251,13 @@ export class CertificateSystem {
 
       details.confidence = totalChecks > 0 ? validCount / totalChecks : 0;
 
-      const isValid = errors.length === 0 && details.confidence >= 0.75;
+      const isValid = errors.length === 0 && details.trustedKey && details.confidence >= 0.75;
 
       return {
         isValid,
         errors,
-        details
+        details,
+        certificate
       };
     } catch (error) {
       errors.push(`Validation error: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -256,37 +333,54 @@ export class CertificateSystem {
       .join('');
   }
 
-  private async _generateSignature(data: any): Promise<string> {
-    const dataString = JSON.stringify(data);
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(dataString);
-    
-    // 生成 HMAC 签名（实际应用中应使用更安全的密钥管理）
-    const key = await crypto.subtle.generateKey(
-      { name: 'HMAC', hash: this._config.algorithm },
-      false,
-      ['sign']
-    );
-    
-    const signatureBuffer = await crypto.subtle.sign('HMAC', key, dataBuffer);
-    
-    return Array.from(new Uint8Array(signatureBuffer))
-      .map(byte => byte.toString(16).padStart(2, '0'))
-      .join('');
+  private _getKeyPair(): Promise<CryptoKeyPair> {
+    if (!this._keyPair) {
+      // 未配置密钥时生成临时密钥对，签发的证书无法被可信公钥验证
+      console.warn('No signing key configured, generating an ephemeral ECDSA key pair');
+      this._keyPair = CertificateSigner.generateKeyPair(false);
+    }
+    return this._keyPair;
   }
 
-  private async _verifySignature(certificate: CertificateData): Promise<boolean> {
-    try {
-      // 重新构建签名数据
-      const signatureData = { ...certificate.metadata };
-      delete signatureData.signature; // 移除签名字段
-      
-      const expectedSignature = await this._generateSignature(signatureData);
-      return expectedSignature === certificate.signature;
-    } catch (error) {
-      console.error('Signature verification failed:', error);
-      return false;
+  private _getSignedContent(certificate: Pick<CertificateData, 'hash' | 'timestamp' | 'metadata'>): Record<string, unknown> {
+    return {
+      hash: certificate.hash,
+      timestamp: certificate.timestamp,
+      metadata: certificate.metadata
+    };
+  }
+
+  private async _verifySignature(
+    certificate: CertificateData,
+    trustedPublicKey?: TrustedPublicKey
+  ): Promise<{ valid: boolean; fingerprint?: string; error?: string }> {
+    const metadata = certificate.metadata;
+
+    if (metadata.signatureAlgorithm !== CertificateSigner.ALGORITHM) {
+      return { valid: false, error: `Unsupported signature algorithm: ${String(metadata.signatureAlgorithm)}` };
+    }
+
+    const keySource = trustedPublicKey ?? (metadata.publicKey as JsonWebKey | undefined);
+    if (!keySource) {
+      return { valid: false, error: 'No public key available for signature verification' };
     }
+
+    const publicKey = keySource instanceof CryptoKey
+      ? keySource
+      : await CertificateSigner.importPublicKey(keySource);
+    const fingerprint = await CertificateSigner.getKeyFingerprint(publicKey);
+
+    if (fingerprint !== metadata.keyFingerprint) {
+      return { valid: false, fingerprint, error: 'Signing key fingerprint mismatch' };
+    }
+
+    const valid = await CertificateSigner.verify(
+      publicKey,
+      this._getSignedContent(certificate),
+      certificate.signature
+    );
+
+    return { valid, fingerprint };
   }
 
   private _sanitizeMetadata(metadata: ProcessingMetadata): Record<string, any> {
@@ -335,6 +429,13 @@ export class CertificateSystem {
   }
 }
 
+export interface CertificateValidationResult {
+  isValid: boolean;
+  errors: string[];
+  details: ValidationDetails;
+  certificate?: CertificateData;
+}
+
 interface ValidationDetails {
   hashValid: boolean;
   signatureValid: boolean;
@@ -342,4 +443,6 @@ interface ValidationDetails {
   metadataValid: boolean;
   tamperDetected: boolean;
   confidence: number;
+  trustedKey: boolean; // 签名由调用方提供的可信公钥验证通过
+  signerFingerprint?: string;
 }
\ No newline at end of file
@@ -12,8 +12,36 @@ export interface HashOptions {
   chunkSize?: number;
 }
 
+export interface HashPixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface BlockHashGrid {
+  cols: number;
+  rows: number;
+  width: number;
+  height: number;
+  hashes: string[]; // 每块64位均值哈希（十六进制）
+  masks: string[]; // 每块64位可信位掩码：像素与均值差距足够大时置1
+  means: number[]; // 每块平均亮度
+}
+
+export interface TamperMap {
+  cols: number;
+  rows: number;
+  scores: number[]; // 每块变化程度 0-1
+  changedBlocks: number[]; // 超过阈值的块索引
+  changedRatio: number;
+  dimensionsChanged: boolean; // 宽高比变化，可能被裁剪
+  tampered: boolean;
+}
+
 export class HashGenerator {
   private static readonly DEFAULT_CHUNK_SIZE = 64 * 1024; // 64KB
+  private static readonly BLOCK_HASH_SIZE = 8;
+  private static readonly BLOCK_HASH_DEADZONE = 4; // 亮度差低于此值的位视为不可靠
 
   /**
    * 计算数据的哈希值
@@ -128,6 +156,82 @@ export class HashGenerator {
     return 1 - (differences / hash1.length);
   }
 
+  /**
+   * 计算分块感知哈希，用于定位被修改的区域
+   */
+  static blockPerceptualHashes(image: HashPixelBuffer, grid: number = 8): BlockHashGrid {
+    const { width, height, data } = image;
+    const size = this.BLOCK_HASH_SIZE;
+    const luma = new Float32Array(width * height);
+    for (let i = 0; i < luma.length; i++) {
+      luma[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+    }
+
+    // 分块按相对坐标划分，等比缩放后的图片仍能对应
+    const cols = Math.min(grid, width);
+    const rows = Math.min(grid, height);
+    const result: BlockHashGrid = { cols, rows, width, height, hashes: [], masks: [], means: [] };
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const cells = this._sampleBlock(luma, width, height,
+          (col * width) / cols, (row * height) / rows,
+          ((col + 1) * width) / cols, ((row + 1) * height) / rows, size);
+        const mean = cells.reduce((sum, value) => sum + value, 0) / cells.length;
+
+        result.hashes.push(this._bitsToHex(cells.map(value => value >= mean)));
+        result.masks.push(this._bitsToHex(cells.map(value => Math.abs(value - mean) >= this.BLOCK_HASH_DEADZONE)));
+        result.means.push(Math.round(mean));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 比较分块感知哈希，生成篡改热力图
+   */
+  static compareBlockHashes(original: BlockHashGrid, current: BlockHashGrid, threshold: number = 0.25): TamperMap {
+    if (original.cols !== current.cols || original.rows !== current.rows) {
+      throw new Error('Block hash grids must have the same layout for comparison');
+    }
+
+    const scores = original.hashes.map((hash, index) => {
+      const hashA = this._hexToBits(hash);
+      const hashB = this._hexToBits(current.hashes[index]);
+      const maskA = this._hexToBits(original.masks[index]);
+      const maskB = this._hexToBits(current.masks[index]);
+
+      // 只统计至少一侧可信的位，避免平坦区域的噪声翻转
+      let differences = 0;
+      for (let bit = 0; bit < hashA.length; bit++) {
+        if ((maskA[bit] || maskB[bit]) && hashA[bit] !== hashB[bit]) {
+          differences++;
+        }
+      }
+
+      const bitScore = differences / hashA.length;
+      const meanScore = Math.min(1, Math.abs(original.means[index] - current.means[index]) / 32);
+      return Math.max(bitScore, meanScore);
+    });
+
+    const changedBlocks = scores
+      .map((score, index) => (score >= threshold ? index : -1))
+      .filter(index => index >= 0);
+    const dimensionsChanged = Math.abs(original.width / original.height - current.width / current.height) >
+      0.01 * (original.width / original.height);
+
+    return {
+      cols: original.cols,
+      rows: original.rows,
+      scores,
+      changedBlocks,
+      changedRatio: changedBlocks.length / scores.length,
+      dimensionsChanged,
+      tampered: changedBlocks.length > 0 || dimensionsChanged
+    };
+  }
+
   /**
    * 验证哈希值格式
    */
@@ -187,6 +291,57 @@ export class HashGenerator {
       .join('');
   }
 
+  private static _sampleBlock(
+    luma: Float32Array,
+    width: number,
+    height: number,
+    left: number,
+    top: number,
+    right: number,
+    bottom: number,
+    size: number
+  ): number[] {
+    const cells: number[] = [];
+
+    for (let cy = 0; cy < size; cy++) {
+      const y0 = Math.floor(top + ((bottom - top) * cy) / size);
+      const y1 = Math.min(height, Math.max(y0 + 1, Math.floor(top + ((bottom - top) * (cy + 1)) / size)));
+
+      for (let cx = 0; cx < size; cx++) {
+        const x0 = Math.floor(left + ((right - left) * cx) / size);
+        const x1 = Math.min(width, Math.max(x0 + 1, Math.floor(left + ((right - left) * (cx + 1)) / size)));
+
+        let sum = 0;
+        for (let y = y0; y < y1; y++) {
+          for (let x = x0; x < x1; x++) {
+            sum += luma[y * width + x];
+          }
+        }
+        cells.push(sum / ((y1 - y0) * (x1 - x0)));
+      }
+    }
+
+    return cells;
+  }
+
+  private static _bitsToHex(bits: boolean[]): string {
+    let hex = '';
+    for (let i = 0; i < bits.length; i += 4) {
+      const nibble = (bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0);
+      hex += nibble.toString(16);
+    }
+    return hex;
+  }
+
+  private static _hexToBits(hex: string): boolean[] {
+    const bits: boolean[] = [];
+    for (const char of hex) {
+      const nibble = parseInt(char, 16);
+      bits.push(!!(nibble & 8), !!(nibble & 4), !!(nibble & 2), !!(nibble & 1));
+    }
+    return bits;
+  }
+
   private static async _calculateHash(buffer: ArrayBuffer, algorithm: HashAlgorithm): Promise<ArrayBuffer> {
     switch (algorithm) {
       case 'SHA-1':
@@ -0,0 +1,135 @@
+/**
+ * PDF标准安全处理器用到的密码学原语
+ * WebCrypto不提供MD5和RC4，这里自行实现；AES-CBC使用WebCrypto，并补充无填充模式
+ */
+
+export type PDFHashAlgorithm = 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+const BLOCK = 16;
+
+// MD5每轮的循环左移位数
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21
+];
+
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32) | 0);
+
+export class PDFCrypto {
+  static md5(data: Uint8Array): Uint8Array {
+    const length = ((data.length + 8) >> 6) + 1 << 6;
+    const padded = new Uint8Array(length);
+    padded.set(data);
+    padded[data.length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(length - 8, data.length * 8, true);
+    view.setUint32(length - 4, Math.floor(data.length / 0x20000000), true);
+
+    let a0 = 0x67452301;
+    let b0 = 0xEFCDAB89 | 0;
+    let c0 = 0x98BADCFE | 0;
+    let d0 = 0x10325476;
+    const words = new Int32Array(16);
+
+    for (let offset = 0; offset < length; offset += 64) {
+      for (let i = 0; i < 16; i++) words[i] = view.getInt32(offset + i * 4, true);
+      let a = a0, b = b0, c = c0, d = d0;
+
+      for (let i = 0; i < 64; i++) {
+        let f: number;
+        let g: number;
+        if (i < 16) {
+          f = (b & c) | (~b & d);
+          g = i;
+        } else if (i < 32) {
+          f = (d & b) | (~d & c);
+          g = (5 * i + 1) & 15;
+        } else if (i < 48) {
+          f = b ^ c ^ d;
+          g = (3 * i + 5) & 15;
+        } else {
+          f = c ^ (b | ~d);
+          g = (7 * i) & 15;
+        }
+        const sum = (a + f + MD5_CONSTANTS[i] + words[g]) | 0;
+        a = d;
+        d = c;
+        c = b;
+        b = (b + ((sum << MD5_SHIFTS[i]) | (sum >>> (32 - MD5_SHIFTS[i])))) | 0;
+      }
+
+      a0 = (a0 + a) | 0;
+      b0 = (b0 + b) | 0;
+      c0 = (c0 + c) | 0;
+      d0 = (d0 + d) | 0;
+    }
+
+    const digest = new Uint8Array(16);
+    const out = new DataView(digest.buffer);
+    [a0, b0, c0, d0].forEach((word, index) => out.setInt32(index * 4, word, true));
+    return digest;
+  }
+
+  /**
+   * RC4加解密（对称），仅用于读取旧版加密PDF和R2-R4的口令校验
+   */
+  static rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+    const state = new Uint8Array(256);
+    for (let i = 0; i < 256; i++) state[i] = i;
+    for (let i = 0, j = 0; i < 256; i++) {
+      j = (j + state[i] + key[i % key.length]) & 0xFF;
+      [state[i], state[j]] = [state[j], state[i]];
+    }
+
+    const out = new Uint8Array(data.length);
+    for (let n = 0, i = 0, j = 0; n < data.length; n++) {
+      i = (i + 1) & 0xFF;
+      j = (j + state[i]) & 0xFF;
+      [state[i], state[j]] = [state[j], state[i]];
+      out[n] = data[n] ^ state[(state[i] + state[j]) & 0xFF];
+    }
+    return out;
+  }
+
+  static async hash(algorithm: PDFHashAlgorithm, data: Uint8Array): Promise<Uint8Array> {
+    return new Uint8Array(await crypto.subtle.digest(algorithm, data as BufferSource));
+  }
+
+  /**
+   * AES-CBC加密；padding为false时输入须为16字节整数倍，输出不含填充块
+   */
+  static async aesEncrypt(key: Uint8Array, iv: Uint8Array, data: Uint8Array, padding = true): Promise<Uint8Array> {
+    const cryptoKey = await this.importKey(key);
+    const encrypted = new Uint8Array(
+      await crypto.subtle.encrypt({ name: 'AES-CBC', iv: iv as BufferSource }, cryptoKey, data as BufferSource)
+    );
+    return padding ? encrypted : encrypted.slice(0, data.length);
+  }
+
+  /**
+   * AES-CBC解密；padding为false时按无填充处理
+   */
+  static async aesDecrypt(key: Uint8Array, iv: Uint8Array, data: Uint8Array, padding = true): Promise<Uint8Array> {
+    const cryptoKey = await this.importKey(key);
+    let input = data;
+    if (!padding) {
+      // WebCrypto只接受PKCS#7填充：追加一个解密后恰为完整填充块的密文块
+      const previous = data.length >= BLOCK ? data.subarray(data.length - BLOCK) : iv;
+      const pad = new Uint8Array(
+        await crypto.subtle.encrypt({ name: 'AES-CBC', iv: previous as BufferSource }, cryptoKey, new Uint8Array(BLOCK).fill(BLOCK))
+      ).subarray(0, BLOCK);
+      input = new Uint8Array(data.length + BLOCK);
+      input.set(data);
+      input.set(pad, data.length);
+    }
+    return new Uint8Array(
+      await crypto.subtle.decrypt({ name: 'AES-CBC', iv: iv as BufferSource }, cryptoKey, input as BufferSource)
+    );
+  }
+
+  private static importKey(key: Uint8Array): Promise<CryptoKey> {
+    return crypto.subtle.importKey('raw', key as BufferSource, 'AES-CBC', false, ['encrypt', 'decrypt']);
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * 证书嵌入测试 - 单元测试
+ * 覆盖：PNG/JPEG/PDF/DOCX的嵌入与读回、签名内容不受嵌入影响、仅凭文件验证证书
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { webcrypto } from 'node:crypto';
+import { Blob as NodeBlob } from 'node:buffer';
+import JSZip from 'jszip';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { CertificateEmbedder } from '../CertificateEmbedder';
+import { CertificateSigner } from '../CertificateSigner';
+import { CertificateSystem } from '../CertificateSystem';
+import type { CertificateData } from '@/types/worker.types';
+import type { WatermarkResult } from '@/types/watermark.types';
+
+// 1x1 PNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
+
+const certificate: CertificateData = {
+  hash: 'a'.repeat(64),
+  timestamp: 1718000000000,
+  signature: 'b'.repeat(128),
+  metadata: { imageHash: 'a'.repeat(64), owner: '张三' }
+};
+
+const pngBytes = (): Uint8Array => Uint8Array.from(atob(PNG_BASE64), c => c.charCodeAt(0));
+
+// SOI + APP0(JFIF) + DQT占位段 + EOI
+const jpegBytes = (): Uint8Array => new Uint8Array([
+  0xFF, 0xD8,
+  0xFF, 0xE0, 0x00, 0x10, 0x4A, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00,
+  0xFF, 0xDB, 0x00, 0x04, 0x00, 0x01,
+  0xFF, 0xD9
+]);
+
+const pdfBytes = async (): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  pdfDoc.addPage([595, 842]).drawText('CONFIDENTIAL', { x: 100, y: 400, size: 24, font });
+  pdfDoc.addPage([595, 842]);
+  return pdfDoc.save();
+};
+
+const docxBytes = async (): Promise<Uint8Array> => {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="xml" ContentType="application/xml"/></Types>');
+  zip.file('_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>');
+  zip.file('word/document.xml', '<w:document><w:body><w:p><w:r><w:t>机密</w:t></w:r></w:p></w:body></w:document>');
+  zip.file('word/_rels/document.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>');
+  return zip.generateAsync({ type: 'uint8array' });
+};
+
+describe('CertificateEmbedder', () => {
+  it('should detect container formats', async () => {
+    expect(CertificateEmbedder.detectFormat(pngBytes())).toBe('png');
+    expect(CertificateEmbedder.detectFormat(jpegBytes())).toBe('jpeg');
+    expect(CertificateEmbedder.detectFormat(await pdfBytes())).toBe('pdf');
+    expect(CertificateEmbedder.detectFormat(await docxBytes())).toBe('ooxml');
+    expect(CertificateEmbedder.detectFormat(new Uint8Array([1, 2, 3]))).toBe('unknown');
+  });
+
+  it('should round-trip a PNG iTXt chunk and restore the original bytes', async () => {
+    const original = pngBytes();
+    const embedded = await CertificateEmbedder.embedBytes(original, certificate);
+    expect(embedded.length).toBeGreaterThan(original.length);
+
+    const extracted = await CertificateEmbedder.extractBytes(embedded);
+    expect(extracted.certificate).toEqual(certificate);
+    expect(extracted.content).toEqual(original);
+  });
+
+  it('should replace an existing PNG certificate', async () => {
+    const first = await CertificateEmbedder.embedBytes(pngBytes(), certificate);
+    const second = await CertificateEmbedder.embedBytes(first, { ...certificate, signature: 'c'.repeat(128) });
+
+    const extracted = await CertificateEmbedder.extractBytes(second);
+    expect(extracted.certificate?.signature).toBe('c'.repeat(128));
+    expect(extracted.content).toEqual(pngBytes());
+  });
+
+  it('should round-trip a JPEG XMP segment after the JFIF header', async () => {
+    const original = jpegBytes();
+    const embedded = await CertificateEmbedder.embedBytes(original, certificate);
+
+    // APP0保持在首位，XMP段紧随其后
+    expect(embedded[3]).toBe(0xE0);
+    expect(embedded[20]).toBe(0xFF);
+    expect(embedded[21]).toBe(0xE1);
+
+    const extracted = await CertificateEmbedder.extractBytes(embedded);
+    expect(extracted.certificate).toEqual(certificate);
+    expect(extracted.content).toEqual(original);
+  });
+
+  it('should attach the certificate to a PDF without changing its signed content', async () => {
+    const original = await pdfBytes();
+    const embedded = await CertificateEmbedder.embedBytes(original, certificate);
+
+    const before = await CertificateEmbedder.extractBytes(original);
+    const after = await CertificateEmbedder.extractBytes(embedded);
+
+    expect(before.certificate).toBeNull();
+    expect(after.certificate).toEqual(certificate);
+    expect(after.content).toEqual(before.content);
+
+    const attached = await PDFDocument.load(embedded);
+    expect(attached.getPageCount()).toBe(2);
+  });
+
+  it('should detect modified PDF page content', async () => {
+    const original = await pdfBytes();
+    const embedded = await CertificateEmbedder.embedBytes(original, certificate);
+
+    const pdfDoc = await PDFDocument.load(embedded);
+    pdfDoc.getPage(1).drawText('EDITED', { x: 10, y: 10, size: 12 });
+    const modified = await pdfDoc.save();
+
+    const before = await CertificateEmbedder.extractBytes(original);
+    const after = await CertificateEmbedder.extractBytes(modified);
+    expect(after.certificate).toEqual(certificate);
+    expect(after.content).not.toEqual(before.content);
+  });
+
+  it('should add a custom XML part to DOCX packages', async () => {
+    const original = await docxBytes();
+    const embedded = await CertificateEmbedder.embedBytes(original, certificate);
+
+    const zip = await JSZip.loadAsync(embedded);
+    expect(zip.file('customXml/item1.xml')).not.toBeNull();
+    expect(zip.file('customXml/itemProps1.xml')).not.toBeNull();
+    expect(await zip.file('word/_rels/document.xml.rels')!.async('string')).toContain('../customXml/item1.xml');
+    expect(await zip.file('[Content_Types].xml')!.async('string')).toContain('/customXml/itemProps1.xml');
+
+    const before = await CertificateEmbedder.extractBytes(original);
+    const after = await CertificateEmbedder.extractBytes(embedded);
+    expect(after.certificate).toEqual(certificate);
+    expect(after.content).toEqual(before.content);
+  });
+});
+
+describe('CertificateSystem with embedded certificates', () => {
+  let mockedSubtle: SubtleCrypto;
+
+  // 使用真实WebCrypto；jsdom的ArrayBuffer与Node不属于同一realm，digest输入统一转为Uint8Array
+  beforeAll(() => {
+    const subtle = webcrypto.subtle;
+    mockedSubtle = globalThis.crypto.subtle;
+    (globalThis.crypto as any).subtle = {
+      generateKey: subtle.generateKey.bind(subtle),
+      importKey: subtle.importKey.bind(subtle),
+      exportKey: subtle.exportKey.bind(subtle),
+      sign: subtle.sign.bind(subtle),
+      verify: subtle.verify.bind(subtle),
+      digest: (algorithm: string, data: ArrayBuffer) => subtle.digest(algorithm, new Uint8Array(data))
+    };
+  });
+
+  afterAll(() => {
+    (globalThis.crypto as any).subtle = mockedSubtle;
+  });
+
+  // jsdom的Blob不支持arrayBuffer()，使用Node实现
+  const toBlob = (bytes: Uint8Array, type: string): Blob =>
+    new NodeBlob([bytes], { type }) as unknown as Blob;
+
+  const createResult = (blob: Blob, format: string): WatermarkResult => ({
+    success: true,
+    originalFile: new File([], `output.${format}`),
+    processedImage: { blob, dataUrl: '', dimensions: { width: 1, height: 1 }, format, size: blob.size },
+    metadata: { processingTime: 1, compressionRatio: 1 } as WatermarkResult['metadata']
+  });
+
+  it.each([
+    ['png', 'image/png', async () => pngBytes()],
+    ['pdf', 'application/pdf', pdfBytes]
+  ])('should validate a %s file from its embedded certificate', async (format, type, build) => {
+    const keyPair = await CertificateSigner.generateKeyPair();
+    const system = new CertificateSystem({ signingKeyPair: keyPair });
+    const output = toBlob(await build(), type);
+
+    const issued = await system.generateCertificate(createResult(output, format));
+    const embedded = toBlob(await CertificateEmbedder.embedBytes(
+      new Uint8Array(await output.arrayBuffer()),
+      issued
+    ), type);
+
+    const validation = await system.validateCertificate(embedded, keyPair.publicKey);
+    expect(validation.errors).toEqual([]);
+    expect(validation.isValid).toBe(true);
+    expect(validation.details.hashValid).toBe(true);
+    expect(validation.details.trustedKey).toBe(true);
+    expect(validation.certificate).toEqual(issued);
+  });
+
+  it('should report files without a certificate', async () => {
+    const validation = await new CertificateSystem().validateCertificate(toBlob(pngBytes(), 'image/png'));
+    expect(validation.isValid).toBe(false);
+    expect(validation.errors).toContain('No embedded certificate found in file');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * 分块感知哈希测试 - 单元测试
+ * 覆盖：篡改区域定位、轻微噪声容忍、等比缩放、裁剪检测
+ */
+
+import { describe, it, expect } from 'vitest';
+import { HashGenerator, type HashPixelBuffer } from '../HashGenerator';
+
+// 带纹理的测试图像（渐变 + 伪随机噪声）
+const createTestImage = (width: number, height: number): HashPixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let seed = 4242;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed / 0x7fffffff;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const wave = Math.sin(x / 9) * 40 + Math.cos(y / 7) * 40;
+      data[i] = 120 + wave + (random() - 0.5) * 30;
+      data[i + 1] = 110 + wave;
+      data[i + 2] = 100 - wave;
+      data[i + 3] = 255;
+    }
+  }
+
+  return { data, width, height };
+};
+
+const fillRect = (image: HashPixelBuffer, left: number, top: number, size: number, value: number) => {
+  for (let y = top; y < top + size; y++) {
+    for (let x = left; x < left + size; x++) {
+      const i = (y * image.width + x) * 4;
+      image.data[i] = image.data[i + 1] = image.data[i + 2] = value;
+    }
+  }
+};
+
+// 最近邻缩放
+const resize = (image: HashPixelBuffer, width: number, height: number): HashPixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = (Math.floor((y * image.height) / height) * image.width + Math.floor((x * image.width) / width)) * 4;
+      data.set(image.data.subarray(source, source + 4), (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+};
+
+describe('HashGenerator block hashes', () => {
+  it('should produce one hash per block', () => {
+    const grid = HashGenerator.blockPerceptualHashes(createTestImage(256, 192), 8);
+
+    expect(grid.cols).toBe(8);
+    expect(grid.rows).toBe(8);
+    expect(grid.hashes).toHaveLength(64);
+    expect(grid.hashes[0]).toMatch(/^[0-9a-f]{16}$/);
+    expect(grid.masks[0]).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('should localise a pasted-over region', () => {
+    const original = createTestImage(256, 256);
+    const modified = createTestImage(256, 256);
+    fillRect(modified, 96, 64, 32, 250); // 8x8网格中的第(3,2)块
+
+    const map = HashGenerator.compareBlockHashes(
+      HashGenerator.blockPerceptualHashes(original, 8),
+      HashGenerator.blockPerceptualHashes(modified, 8)
+    );
+
+    expect(map.tampered).toBe(true);
+    expect(map.dimensionsChanged).toBe(false);
+    expect(map.changedBlocks).toEqual([2 * 8 + 3]);
+  });
+
+  it('should tolerate slight noise and proportional resizing', () => {
+    const original = createTestImage(256, 256);
+    const noisy = createTestImage(256, 256);
+    for (let i = 0; i < noisy.data.length; i += 4) {
+      noisy.data[i] += (i / 4) % 3 - 1;
+    }
+
+    const originalGrid = HashGenerator.blockPerceptualHashes(original, 8);
+    const noiseMap = HashGenerator.compareBlockHashes(originalGrid, HashGenerator.blockPerceptualHashes(noisy, 8));
+    const resizeMap = HashGenerator.compareBlockHashes(
+      originalGrid,
+      HashGenerator.blockPerceptualHashes(resize(original, 128, 128), 8)
+    );
+
+    expect(noiseMap.tampered).toBe(false);
+    expect(resizeMap.tampered).toBe(false);
+  });
+
+  it('should flag a changed aspect ratio as a possible crop', () => {
+    const original = createTestImage(256, 256);
+    const squashed = resize(original, 256, 200);
+
+    const map = HashGenerator.compareBlockHashes(
+      HashGenerator.blockPerceptualHashes(original, 8),
+      HashGenerator.blockPerceptualHashes(squashed, 8)
+    );
+
+    expect(map.dimensionsChanged).toBe(true);
+    expect(map.tampered).toBe(true);
+  });
+
+  it('should reject grids with different layouts', () => {
+    const image = createTestImage(64, 64);
+    expect(() => HashGenerator.compareBlockHashes(
+      HashGenerator.blockPerceptualHashes(image, 8),
+      HashGenerator.blockPerceptualHashes(image, 4)
+    )).toThrow('same layout');
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * PDF密码学原语测试 - 单元测试
+ * 覆盖：MD5（RFC 1321）、RC4、AES-CBC有/无填充
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { webcrypto } from 'node:crypto';
+import { PDFCrypto } from '../PDFCrypto';
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+const fromHex = (value: string) => Uint8Array.from(value.match(/../g)!, byte => parseInt(byte, 16));
+const ascii = (value: string) => new TextEncoder().encode(value);
+
+describe('PDFCrypto', () => {
+  beforeAll(() => {
+    vi.stubGlobal('crypto', webcrypto);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should compute MD5 digests from the RFC 1321 test suite', () => {
+    expect(hex(PDFCrypto.md5(ascii('')))).toBe('d41d8cd98f00b204e9800998ecf8427e');
+    expect(hex(PDFCrypto.md5(ascii('abc')))).toBe('900150983cd24fb0d6963f7d28e17f72');
+    expect(hex(PDFCrypto.md5(ascii('1234567890'.repeat(8))))).toBe('57edf4a22be3c955ac49da2e2107b67a');
+  });
+
+  it('should encrypt RC4 symmetrically', () => {
+    const encrypted = PDFCrypto.rc4(ascii('Key'), ascii('Plaintext'));
+
+    expect(hex(encrypted)).toBe('bbf316e8d940af0ad3');
+    expect(new TextDecoder().decode(PDFCrypto.rc4(ascii('Key'), encrypted))).toBe('Plaintext');
+  });
+
+  it('should run AES-CBC with and without padding', async () => {
+    // NIST SP 800-38A F.2.1 第一个分组
+    const key = fromHex('2b7e151628aed2a6abf7158809cf4f3c');
+    const iv = fromHex('000102030405060708090a0b0c0d0e0f');
+    const block = fromHex('6bc1bee22e409f96e93d7e117393172a');
+
+    const raw = await PDFCrypto.aesEncrypt(key, iv, block, false);
+    const padded = await PDFCrypto.aesEncrypt(key, iv, block);
+
+    expect(hex(raw)).toBe('7649abac8119b246cee98e9b12e9197d');
+    expect(padded).toHaveLength(32);
+    expect(await PDFCrypto.aesDecrypt(key, iv, raw, false)).toEqual(block);
+    expect(await PDFCrypto.aesDecrypt(key, iv, padded)).toEqual(block);
+  });
+});
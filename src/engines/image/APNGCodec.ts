@@ -0,0 +1,213 @@
+/**
+ * APNG编解码 - 每帧拆成独立PNG交给浏览器解码后合成；编码输出RGBA，帧数据使用Sub滤波
+ */
+
+import { PNGChunks } from './PNGChunks';
+import { FrameCanvas, type AnimatedImage, type AnimationFrame, type FrameDisposal } from './AnimatedImage';
+
+/**
+ * 把单帧PNG解码为非预乘RGBA，可在测试或不支持OffscreenCanvas的环境中替换
+ */
+export type PNGFrameDecoder = (png: Uint8Array, width: number, height: number) => Promise<Uint8ClampedArray>;
+
+interface FrameControl {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  delay: number;
+  disposal: FrameDisposal;
+  blend: 'source' | 'over';
+  data: Uint8Array[];
+}
+
+const DISPOSALS: FrameDisposal[] = ['none', 'background', 'previous'];
+// 各帧单独的PNG需要携带的IDAT之前的辅助块（调色板、透明度、色彩信息等）
+const ANIMATION_CHUNKS = new Set(['IHDR', 'acTL', 'fcTL', 'IDAT', 'fdAT', 'IEND']);
+
+export class APNGCodec {
+  /**
+   * acTL必须出现在第一个IDAT之前
+   */
+  static isAnimated(bytes: Uint8Array): boolean {
+    if (!PNGChunks.isPNG(bytes)) return false;
+    for (const { type } of PNGChunks.read(bytes)) {
+      if (type === 'acTL') return true;
+      if (type === 'IDAT') return false;
+    }
+    return false;
+  }
+
+  static async decode(bytes: Uint8Array, decodeFrame: PNGFrameDecoder = decodeWithCanvas): Promise<AnimatedImage> {
+    const chunks = PNGChunks.read(bytes);
+    const header = chunks.find(chunk => chunk.type === 'IHDR');
+    const control = chunks.find(chunk => chunk.type === 'acTL');
+    if (!header || !control) {
+      throw new Error('不是有效的APNG文件');
+    }
+
+    const headerView = new DataView(header.data.buffer, header.data.byteOffset, header.data.byteLength);
+    const width = headerView.getUint32(0);
+    const height = headerView.getUint32(4);
+    const loopCount = new DataView(control.data.buffer, control.data.byteOffset).getUint32(4);
+
+    const shared: Uint8Array[] = [];
+    const controls: FrameControl[] = [];
+    let current: FrameControl | null = null;
+    let seenImageData = false;
+
+    for (const { type, data, raw } of chunks) {
+      if (type === 'fcTL') {
+        const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+        const denominator = view.getUint16(22) || 100;
+        current = {
+          width: view.getUint32(4),
+          height: view.getUint32(8),
+          x: view.getUint32(12),
+          y: view.getUint32(16),
+          delay: Math.round(view.getUint16(20) * 1000 / denominator),
+          disposal: DISPOSALS[data[24]] || 'none',
+          blend: data[25] === 1 ? 'over' : 'source',
+          data: []
+        };
+        controls.push(current);
+      } else if (type === 'IDAT') {
+        seenImageData = true;
+        // 没有fcTL的默认图像不属于动画
+        current?.data.push(data);
+      } else if (type === 'fdAT') {
+        current?.data.push(data.subarray(4));
+      } else if (!seenImageData && !ANIMATION_CHUNKS.has(type)) {
+        shared.push(raw);
+      }
+    }
+
+    const canvas = new FrameCanvas(width, height);
+    const frames: AnimationFrame[] = [];
+
+    for (const frame of controls.filter(item => item.data.length > 0)) {
+      FrameCanvas.assertWithinLimit(width, height, frames.length + 1);
+
+      const frameHeader = header.data.slice();
+      new DataView(frameHeader.buffer).setUint32(0, frame.width);
+      new DataView(frameHeader.buffer).setUint32(4, frame.height);
+      const png = concat([
+        PNGChunks.SIGNATURE,
+        PNGChunks.create('IHDR', frameHeader),
+        ...shared,
+        ...frame.data.map(data => PNGChunks.create('IDAT', data)),
+        PNGChunks.create('IEND', new Uint8Array(0))
+      ]);
+      const pixels = await decodeFrame(png, frame.width, frame.height);
+      const rect = { x: frame.x, y: frame.y, width: frame.width, height: frame.height };
+
+      // 第一帧的previous按background处理
+      const disposal = frames.length === 0 && frame.disposal === 'previous' ? 'background' : frame.disposal;
+      canvas.begin(disposal);
+      canvas.draw(pixels, frame.width, { ...rect, x: 0, y: 0 }, rect, frame.blend);
+      frames.push({ pixels: canvas.snapshot(), delay: frame.delay, disposal, rect });
+      canvas.end(rect, disposal);
+    }
+
+    if (frames.length === 0) {
+      throw new Error('APNG文件不包含动画帧');
+    }
+
+    return { format: 'apng', width, height, loopCount, frames };
+  }
+
+  static async encode(animation: AnimatedImage): Promise<Uint8Array> {
+    const { width, height, frames } = animation;
+    const regions = FrameCanvas.planRegions(animation, 'source');
+    const parts: Uint8Array[] = [PNGChunks.SIGNATURE];
+
+    const header = new Uint8Array(13);
+    new DataView(header.buffer).setUint32(0, width);
+    new DataView(header.buffer).setUint32(4, height);
+    header.set([8, 6, 0, 0, 0], 8); // 8位RGBA，不隔行
+    parts.push(PNGChunks.create('IHDR', header));
+
+    const animationControl = new Uint8Array(8);
+    new DataView(animationControl.buffer).setUint32(0, frames.length);
+    new DataView(animationControl.buffer).setUint32(4, animation.loopCount);
+    parts.push(PNGChunks.create('acTL', animationControl));
+
+    let sequence = 0;
+    for (let index = 0; index < frames.length; index++) {
+      const frame = frames[index];
+      const rect = regions[index];
+
+      const frameControl = new Uint8Array(26);
+      const view = new DataView(frameControl.buffer);
+      const denominator = frame.delay > 0xFFFF ? 100 : 1000;
+      view.setUint32(0, sequence++);
+      view.setUint32(4, rect.width);
+      view.setUint32(8, rect.height);
+      view.setUint32(12, rect.x);
+      view.setUint32(16, rect.y);
+      view.setUint16(20, Math.min(0xFFFF, Math.round(frame.delay * denominator / 1000)));
+      view.setUint16(22, denominator);
+      frameControl[24] = DISPOSALS.indexOf(frame.disposal);
+      frameControl[25] = 0; // APNG_BLEND_OP_SOURCE，区域内像素整块替换
+      parts.push(PNGChunks.create('fcTL', frameControl));
+
+      const data = await encodePixels(FrameCanvas.crop(frame.pixels, width, rect), rect.width, rect.height);
+      if (index === 0) {
+        parts.push(PNGChunks.create('IDAT', data));
+      } else {
+        const frameData = new Uint8Array(4 + data.length);
+        new DataView(frameData.buffer).setUint32(0, sequence++);
+        frameData.set(data, 4);
+        parts.push(PNGChunks.create('fdAT', frameData));
+      }
+    }
+
+    parts.push(PNGChunks.create('IEND', new Uint8Array(0)));
+    return concat(parts);
+  }
+}
+
+/**
+ * 每行使用Sub滤波后zlib压缩
+ */
+async function encodePixels(pixels: Uint8ClampedArray, width: number, height: number): Promise<Uint8Array> {
+  const stride = width * 4;
+  const filtered = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (stride + 1);
+    filtered[row] = 1;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= 4 ? pixels[y * stride + x - 4] : 0;
+      filtered[row + 1 + x] = (pixels[y * stride + x] - left) & 0xFF;
+    }
+  }
+  return PNGChunks.deflate(filtered);
+}
+
+async function decodeWithCanvas(png: Uint8Array, width: number, height: number): Promise<Uint8ClampedArray> {
+  const bitmap = await createImageBitmap(new Blob([png as BlobPart], { type: 'image/png' }), {
+    premultiplyAlpha: 'none',
+    colorSpaceConversion: 'none'
+  });
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(width, height)
+    : Object.assign(document.createElement('canvas'), { width, height });
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('无法创建Canvas上下文');
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx.getImageData(0, 0, width, height).data;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
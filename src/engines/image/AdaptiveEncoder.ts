@@ -0,0 +1,128 @@
+/**
+ * 自适应编码器 - 在字节预算内搜索最高质量，最低质量仍超出时逐级缩小尺寸
+ * 只负责搜索策略，编码由调用方提供（Worker中为OffscreenCanvas，主线程为Canvas）
+ */
+
+export type AdaptiveFormat = 'jpeg' | 'webp' | 'png';
+
+/**
+ * 按缩放比例、格式和质量编码一次；浏览器不支持该格式时返回的Blob类型与请求不同
+ */
+export type ScaledEncoder = (scale: number, format: AdaptiveFormat, quality: number) => Promise<Blob>;
+
+export interface AdaptiveEncodeOptions {
+  maxFileSize: number; // bytes
+  formats: AdaptiveFormat[]; // 按优先顺序尝试，PNG不搜索质量
+  maxQuality?: number;
+  minQuality?: number;
+  minScale?: number;
+}
+
+export interface AdaptiveEncodeResult {
+  blob: Blob;
+  format: AdaptiveFormat;
+  quality: number;
+  scale: number;
+  fits: boolean; // 为false时blob为能得到的最小结果
+  attempts: number;
+}
+
+const QUALITY_SEARCH_STEPS = 6;
+
+export class AdaptiveEncoder {
+  static readonly DEFAULT_MAX_QUALITY = 0.92;
+  static readonly DEFAULT_MIN_QUALITY = 0.4;
+  static readonly DEFAULT_MIN_SCALE = 0.25;
+
+  /**
+   * 候选格式：优先请求的格式，PNG先尝试原格式再转有损格式；有透明度时不转为JPEG
+   */
+  static candidateFormats(requested: string, hasTransparency: boolean): AdaptiveFormat[] {
+    const lossy: AdaptiveFormat[] = requested === 'webp' ? ['webp', 'jpeg'] : ['jpeg', 'webp'];
+    const formats = lossy.filter(format => !(hasTransparency && format === 'jpeg' && requested !== 'jpeg'));
+    return requested === 'png' ? ['png', ...formats] : formats;
+  }
+
+  /**
+   * 搜索顺序：同一尺寸下依次尝试各格式并取质量最高者；都放不下时按超出比例缩小再试
+   */
+  static async encode(encoder: ScaledEncoder, options: AdaptiveEncodeOptions): Promise<AdaptiveEncodeResult> {
+    const maxQuality = options.maxQuality ?? this.DEFAULT_MAX_QUALITY;
+    const minQuality = Math.min(maxQuality, options.minQuality ?? this.DEFAULT_MIN_QUALITY);
+    const minScale = options.minScale ?? this.DEFAULT_MIN_SCALE;
+    const budget = options.maxFileSize;
+
+    let scale = 1;
+    let attempts = 0;
+    let smallest: Omit<AdaptiveEncodeResult, 'fits' | 'attempts'> | null = null;
+
+    const tryEncode = async (format: AdaptiveFormat, quality: number): Promise<Blob | null> => {
+      attempts++;
+      const blob = await encoder(scale, format, quality);
+      if (blob.type && blob.type !== `image/${format}`) return null;
+      if (!smallest || blob.size < smallest.blob.size) {
+        smallest = { blob, format, quality, scale };
+      }
+      return blob;
+    };
+
+    for (;;) {
+      let best: Omit<AdaptiveEncodeResult, 'fits' | 'attempts'> | null = null;
+      let minSize = Infinity;
+
+      for (const format of options.formats) {
+        if (format === 'png') {
+          const blob = await tryEncode(format, 1);
+          if (!blob) continue;
+          minSize = Math.min(minSize, blob.size);
+          if (blob.size <= budget) {
+            best = { blob, format, quality: 1, scale };
+            break;
+          }
+          continue;
+        }
+
+        const high = await tryEncode(format, maxQuality);
+        if (!high) continue;
+        if (high.size <= budget) {
+          best = { blob: high, format, quality: maxQuality, scale };
+          break;
+        }
+
+        const low = await tryEncode(format, minQuality);
+        minSize = Math.min(minSize, low?.size ?? Infinity);
+        if (!low || low.size > budget) continue;
+
+        // 二分查找放得下的最高质量
+        let fit = { blob: low, quality: minQuality };
+        let upper = maxQuality;
+        for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+          const quality = Math.round(((fit.quality + upper) / 2) * 100) / 100;
+          if (quality <= fit.quality || quality >= upper) break;
+          const blob = (await tryEncode(format, quality))!;
+          if (blob.size <= budget) fit = { blob, quality };
+          else upper = quality;
+        }
+
+        if (!best || fit.quality > best.quality) {
+          best = { ...fit, format, scale };
+        }
+      }
+
+      if (best) {
+        return { ...best, fits: true, attempts };
+      }
+
+      if (scale <= minScale || minSize === Infinity) {
+        if (!smallest) {
+          throw new Error('当前浏览器不支持所选的输出格式');
+        }
+        return { ...(smallest as Omit<AdaptiveEncodeResult, 'fits' | 'attempts'>), fits: false, attempts };
+      }
+
+      // 文件大小约与像素数成正比，按面积比例估算下一尺寸，每轮缩小10%-50%
+      const ratio = Math.sqrt(budget / minSize) * 0.95;
+      scale = Math.max(minScale, scale * Math.min(0.9, Math.max(0.5, ratio)));
+    }
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * 动图帧模型 - GIF与APNG解码后统一为逐帧合成的完整画面，编码时再按处置方式计算每帧需要写入的区域
+ */
+
+export type FrameDisposal = 'none' | 'background' | 'previous';
+
+export interface FrameRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface AnimationFrame {
+  pixels: Uint8ClampedArray; // 整个画布的RGBA，已与之前的帧合成
+  delay: number; // 毫秒
+  disposal: FrameDisposal; // 本帧显示结束后对其区域的处理
+  rect: FrameRect; // 原文件中本帧覆盖的区域
+}
+
+export interface AnimatedImage {
+  format: 'gif' | 'apng';
+  width: number;
+  height: number;
+  loopCount: number; // 播放次数，0为无限循环
+  frames: AnimationFrame[];
+}
+
+/**
+ * 帧写入方式：source为整块替换（APNG），over为跳过透明像素（GIF）
+ */
+export type FrameBlend = 'source' | 'over';
+
+const MAX_ANIMATION_PIXELS = 50_000_000; // 全部帧像素总数上限，约200MB RGBA
+
+/**
+ * 播放画布 - 模拟浏览器逐帧绘制与处置，解码和编码共用
+ */
+export class FrameCanvas {
+  readonly pixels: Uint8ClampedArray;
+  private saved: Uint8ClampedArray | null = null;
+
+  constructor(readonly width: number, readonly height: number) {
+    this.pixels = new Uint8ClampedArray(width * height * 4);
+  }
+
+  /**
+   * 解码时检查累计像素数，避免超长动图耗尽内存
+   */
+  static assertWithinLimit(width: number, height: number, frameCount: number): void {
+    if (width * height * frameCount > MAX_ANIMATION_PIXELS) {
+      throw new Error(`动图过大（${width}x${height}，${frameCount}帧），超出可处理的像素总数`);
+    }
+  }
+
+  /**
+   * 计算重新编码时每帧写入的区域：原区域并上与当前显示内容不同的部分，第一帧覆盖整个画布
+   */
+  static planRegions(animation: AnimatedImage, blend: FrameBlend): FrameRect[] {
+    const { width, height } = animation;
+    const display = new FrameCanvas(width, height);
+
+    return animation.frames.map((frame, index) => {
+      const changed = diffBounds(display.pixels, frame.pixels, width, height);
+      const rect = index === 0
+        ? { x: 0, y: 0, width, height }
+        : clipRect(changed ? unionRect(frame.rect, changed) : frame.rect, width, height);
+
+      display.begin(frame.disposal);
+      display.draw(frame.pixels, width, rect, rect, blend);
+      display.end(rect, frame.disposal);
+      return rect;
+    });
+  }
+
+  /**
+   * 从帧像素中裁出指定区域
+   */
+  static crop(pixels: Uint8ClampedArray, width: number, rect: FrameRect): Uint8ClampedArray {
+    const out = new Uint8ClampedArray(rect.width * rect.height * 4);
+    for (let y = 0; y < rect.height; y++) {
+      const start = ((rect.y + y) * width + rect.x) * 4;
+      out.set(pixels.subarray(start, start + rect.width * 4), y * rect.width * 4);
+    }
+    return out;
+  }
+
+  begin(disposal: FrameDisposal): void {
+    this.saved = disposal === 'previous' ? this.pixels.slice() : null;
+  }
+
+  /**
+   * 将source中sourceRect区域的像素绘制到画布的target位置（超出画布的部分裁掉）
+   */
+  draw(
+    source: Uint8ClampedArray,
+    sourceWidth: number,
+    sourceRect: FrameRect,
+    target: FrameRect,
+    blend: FrameBlend
+  ): void {
+    const width = Math.min(target.width, this.width - target.x);
+    const height = Math.min(target.height, this.height - target.y);
+
+    for (let y = 0; y < height; y++) {
+      let from = ((sourceRect.y + y) * sourceWidth + sourceRect.x) * 4;
+      let to = ((target.y + y) * this.width + target.x) * 4;
+      for (let x = 0; x < width; x++, from += 4, to += 4) {
+        const alpha = source[from + 3];
+        if (blend === 'source' || alpha === 255) {
+          this.pixels[to] = source[from];
+          this.pixels[to + 1] = source[from + 1];
+          this.pixels[to + 2] = source[from + 2];
+          this.pixels[to + 3] = alpha;
+        } else if (alpha > 0) {
+          blendPixel(this.pixels, to, source, from);
+        }
+      }
+    }
+  }
+
+  end(rect: FrameRect, disposal: FrameDisposal): void {
+    if (disposal === 'none') return;
+
+    const width = Math.min(rect.width, this.width - rect.x);
+    for (let y = rect.y; y < Math.min(rect.y + rect.height, this.height); y++) {
+      const start = (y * this.width + rect.x) * 4;
+      if (disposal === 'previous' && this.saved) {
+        this.pixels.set(this.saved.subarray(start, start + width * 4), start);
+      } else {
+        this.pixels.fill(0, start, start + width * 4);
+      }
+    }
+    this.saved = null;
+  }
+
+  snapshot(): Uint8ClampedArray {
+    return this.pixels.slice();
+  }
+}
+
+/**
+ * 非预乘RGBA的source-over合成
+ */
+export function blendPixel(target: Uint8ClampedArray, to: number, source: Uint8ClampedArray, from: number): void {
+  const sourceAlpha = source[from + 3] / 255;
+  const targetAlpha = target[to + 3] / 255;
+  const alpha = sourceAlpha + targetAlpha * (1 - sourceAlpha);
+  if (alpha <= 0) return;
+
+  for (let channel = 0; channel < 3; channel++) {
+    target[to + channel] = (
+      source[from + channel] * sourceAlpha + target[to + channel] * targetAlpha * (1 - sourceAlpha)
+    ) / alpha;
+  }
+  target[to + 3] = alpha * 255;
+}
+
+function diffBounds(a: Uint8ClampedArray, b: Uint8ClampedArray, width: number, height: number): FrameRect | null {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0, i = y * width * 4; x < width; x++, i += 4) {
+      // 都是全透明时颜色值无意义
+      if (a[i + 3] === 0 && b[i + 3] === 0) continue;
+      if (a[i] !== b[i] || a[i + 1] !== b[i + 1] || a[i + 2] !== b[i + 2] || a[i + 3] !== b[i + 3]) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        maxY = y;
+      }
+    }
+  }
+
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+function unionRect(a: FrameRect, b: FrameRect): FrameRect {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y
+  };
+}
+
+function clipRect(rect: FrameRect, width: number, height: number): FrameRect {
+  const x = Math.min(Math.max(0, rect.x), width - 1);
+  const y = Math.min(Math.max(0, rect.y), height - 1);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(rect.x + rect.width, width) - x),
+    height: Math.max(1, Math.min(rect.y + rect.height, height) - y)
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * 动图水印 - 逐帧合成预先渲染好的水印层，可随时间滚动或弹跳，重新编码时保留帧延时、循环次数和处置方式
+ * 不依赖DOM，主线程和图像Worker共用
+ */
+
+import type { AnimationConfig } from '../../types/watermark.types';
+import { GIFCodec } from './GIFCodec';
+import { APNGCodec, type PNGFrameDecoder } from './APNGCodec';
+import { blendPixel, type AnimatedImage, type FrameRect } from './AnimatedImage';
+
+export type AnimatedFormat = 'gif' | 'apng';
+
+export interface AnimatedWatermarkResult {
+  blob: Blob;
+  format: 'gif' | 'png'; // 输出文件扩展名，APNG仍为PNG
+  dimensions: { width: number; height: number };
+  frameCount: number;
+}
+
+export const DEFAULT_ANIMATION_CONFIG: AnimationConfig = {
+  preserve: true,
+  motion: 'static',
+  speed: 40
+};
+
+export class AnimatedWatermark {
+  /**
+   * 只有多帧GIF和带acTL的PNG按动图处理
+   */
+  static detect(bytes: Uint8Array): AnimatedFormat | null {
+    if (GIFCodec.isAnimated(bytes)) return 'gif';
+    if (APNGCodec.isAnimated(bytes)) return 'apng';
+    return null;
+  }
+
+  /**
+   * 读取画布尺寸（GIF逻辑屏幕或PNG的IHDR），用于提前渲染水印层
+   */
+  static readSize(bytes: Uint8Array): { width: number; height: number } {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    return GIFCodec.isGIF(bytes)
+      ? { width: view.getUint16(6, true), height: view.getUint16(8, true) }
+      : { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  /**
+   * 解码、逐帧叠加水印层并按原格式重新编码
+   */
+  static async process(
+    bytes: Uint8Array,
+    overlay: ImageData,
+    config: AnimationConfig = DEFAULT_ANIMATION_CONFIG,
+    decodeFrame?: PNGFrameDecoder
+  ): Promise<AnimatedWatermarkResult> {
+    const format = this.detect(bytes);
+    if (!format) {
+      throw new Error('不是动图文件');
+    }
+
+    const animation = format === 'gif' ? GIFCodec.decode(bytes) : await APNGCodec.decode(bytes, decodeFrame);
+    if (overlay.width !== animation.width || overlay.height !== animation.height) {
+      throw new Error('水印层尺寸与动图画布不一致');
+    }
+
+    this.composite(animation, overlay.data, config);
+
+    const encoded = format === 'gif' ? GIFCodec.encode(animation) : await APNGCodec.encode(animation);
+    return {
+      blob: new Blob([encoded as BlobPart], { type: format === 'gif' ? 'image/gif' : 'image/png' }),
+      format: format === 'gif' ? 'gif' : 'png',
+      dimensions: { width: animation.width, height: animation.height },
+      frameCount: animation.frames.length
+    };
+  }
+
+  /**
+   * 按帧开始时间计算水印层偏移后合成到每一帧
+   */
+  static composite(animation: AnimatedImage, overlay: Uint8ClampedArray, config: AnimationConfig): void {
+    const { width, height } = animation;
+    const bounds = opaqueBounds(overlay, width, height);
+    if (!bounds) return;
+
+    let time = 0;
+    for (const frame of animation.frames) {
+      const offset = this.offsetAt(time / 1000, config, bounds, width, height);
+      const wrap = config.motion === 'scroll';
+
+      for (let y = bounds.y; y < bounds.y + bounds.height; y++) {
+        let targetY = y + offset.y;
+        if (wrap) targetY = ((targetY % height) + height) % height;
+        else if (targetY < 0 || targetY >= height) continue;
+
+        for (let x = bounds.x; x < bounds.x + bounds.width; x++) {
+          const from = (y * width + x) * 4;
+          if (overlay[from + 3] === 0) continue;
+
+          let targetX = x + offset.x;
+          if (wrap) targetX = ((targetX % width) + width) % width;
+          else if (targetX < 0 || targetX >= width) continue;
+
+          blendPixel(frame.pixels, (targetY * width + targetX) * 4, overlay, from);
+        }
+      }
+
+      time += frame.delay;
+    }
+  }
+
+  /**
+   * scroll：向右下方匀速移动并从另一侧回绕；bounce：水印整体在画布内往返
+   */
+  static offsetAt(
+    seconds: number,
+    config: AnimationConfig,
+    bounds: FrameRect,
+    width: number,
+    height: number
+  ): { x: number; y: number } {
+    const distance = Math.round(seconds * config.speed);
+
+    switch (config.motion) {
+      case 'scroll':
+        return { x: distance % width, y: Math.round(distance / 2) % height };
+      case 'bounce':
+        return {
+          x: triangleWave(distance, -bounds.x, width - bounds.x - bounds.width),
+          y: triangleWave(Math.round(distance * 0.75), -bounds.y, height - bounds.y - bounds.height)
+        };
+      default:
+        return { x: 0, y: 0 };
+    }
+  }
+}
+
+function triangleWave(distance: number, min: number, max: number): number {
+  const range = max - min;
+  if (range <= 0) return 0;
+  // 从原位置出发，先向max方向移动
+  const start = -min;
+  const position = (start + distance) % (2 * range);
+  return min + (position <= range ? position : 2 * range - position);
+}
+
+function opaqueBounds(pixels: Uint8ClampedArray, width: number, height: number): FrameRect | null {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (pixels[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      maxY = y;
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
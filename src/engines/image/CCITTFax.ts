@@ -0,0 +1,193 @@
+/**
+ * CCITT Group 4（T.6）传真解码 - 扫描件TIFF最常见的黑白压缩方式
+ * 输出按行字节对齐的1位数据，黑色游程为1（与TIFF WhiteIsZero一致）
+ */
+
+// T.4码表：终止码为0-63，组合码为64的倍数
+const WHITE_TERMINATING = [
+  '00110101', '000111', '0111', '1000', '1011', '1100', '1110', '1111',
+  '10011', '10100', '00111', '01000', '001000', '000011', '110100', '110101',
+  '101010', '101011', '0100111', '0001100', '0001000', '0010111', '0000011', '0000100',
+  '0101000', '0101011', '0010011', '0100100', '0011000', '00000010', '00000011', '00011010',
+  '00011011', '00010010', '00010011', '00010100', '00010101', '00010110', '00010111', '00101000',
+  '00101001', '00101010', '00101011', '00101100', '00101101', '00000100', '00000101', '00001010',
+  '00001011', '01010010', '01010011', '01010100', '01010101', '00100100', '00100101', '01011000',
+  '01011001', '01011010', '01011011', '01001010', '01001011', '00110010', '00110011', '00110100'
+];
+
+const WHITE_MAKEUP = [
+  '11011', '10010', '010111', '0110111', '00110110', '00110111', '01100100', '01100101',
+  '01101000', '01100111', '011001100', '011001101', '011010010', '011010011', '011010100', '011010101',
+  '011010110', '011010111', '011011000', '011011001', '011011010', '011011011', '010011000', '010011001',
+  '010011010', '011000', '010011011'
+];
+
+const BLACK_TERMINATING = [
+  '0000110111', '010', '11', '10', '011', '0011', '0010', '00011',
+  '000101', '000100', '0000100', '0000101', '0000111', '00000100', '00000111', '000011000',
+  '0000010111', '0000011000', '0000001000', '00001100111', '00001101000', '00001101100', '00000110111', '00000101000',
+  '00000010111', '00000011000', '000011001010', '000011001011', '000011001100', '000011001101', '000001101000', '000001101001',
+  '000001101010', '000001101011', '000011010010', '000011010011', '000011010100', '000011010101', '000011010110', '000011010111',
+  '000001101100', '000001101101', '000011011010', '000011011011', '000001010100', '000001010101', '000001010110', '000001010111',
+  '000001100100', '000001100101', '000001010010', '000001010011', '000000100100', '000000110111', '000000111000', '000000100111',
+  '000000101000', '000001011000', '000001011001', '000000101011', '000000101100', '000001011010', '000001100110', '000001100111'
+];
+
+const BLACK_MAKEUP = [
+  '0000001111', '000011001000', '000011001001', '000001011011', '000000110011', '000000110100', '000000110101', '0000001101100',
+  '0000001101101', '0000001001010', '0000001001011', '0000001001100', '0000001001101', '0000001110010', '0000001110011', '0000001110100',
+  '0000001110101', '0000001110110', '0000001110111', '0000001010010', '0000001010011', '0000001010100', '0000001010101', '0000001011010',
+  '0000001011011', '0000001100100', '0000001100101'
+];
+
+// 1792-2560，黑白共用
+const EXTENDED_MAKEUP = [
+  '00000001000', '00000001100', '00000001101', '000000010010', '000000010011', '000000010100', '000000010101',
+  '000000010110', '000000010111', '000000011100', '000000011101', '000000011110', '000000011111'
+];
+
+const MODE_PASS = 10;
+const MODE_HORIZONTAL = 11;
+const MODE_END = 12;
+
+// 二维编码模式，垂直模式的值为a1相对b1的偏移
+const MODES: Record<string, number> = {
+  '1': 0,
+  '011': 1,
+  '000011': 2,
+  '0000011': 3,
+  '010': -1,
+  '000010': -2,
+  '0000010': -3,
+  '001': MODE_HORIZONTAL,
+  '0001': MODE_PASS,
+  '000000000001': MODE_END // EOFB由两个EOL组成
+};
+
+type CodeTable = Map<number, number>;
+
+let tables: { white: CodeTable; black: CodeTable; modes: CodeTable } | null = null;
+
+export class CCITTFax {
+  /**
+   * 解码一个条带/分块，参考行从全白开始
+   */
+  static decodeG4(
+    data: Uint8Array,
+    width: number,
+    height: number,
+    options: { reverseBits?: boolean } = {}
+  ): Uint8Array {
+    const { white, black, modes } = getTables();
+    const rowBytes = (width + 7) >> 3;
+    const out = new Uint8Array(rowBytes * height);
+    const reader = new BitReader(data, !!options.reverseBits);
+    let reference: number[] = [];
+
+    for (let row = 0; row < height; row++) {
+      const ref = [...reference, width, width];
+      const changes: number[] = [];
+      let a0 = -1;
+      let color = 0; // 0白 1黑
+      let index = 0;
+
+      while (a0 < width) {
+        // b1：参考行上a0右侧第一个与a0颜色相反的变化点（偶数下标为白→黑）
+        while (index > 0 && ref[index - 1] > a0) index--;
+        while (ref[index] <= a0 || (index & 1) !== color) index++;
+        const b1 = ref[index];
+        const b2 = ref[index + 1] ?? width;
+
+        const mode = reader.readCode(modes, 12);
+        if (mode === MODE_END) {
+          return out;
+        }
+        if (mode === MODE_PASS) {
+          a0 = b2;
+        } else if (mode === MODE_HORIZONTAL) {
+          const start = Math.max(a0, 0);
+          const a1 = Math.min(width, start + reader.readRun(color === 0 ? white : black));
+          const a2 = Math.min(width, a1 + reader.readRun(color === 0 ? black : white));
+          changes.push(a1, a2);
+          a0 = a2;
+        } else {
+          const a1 = Math.min(width, Math.max(0, b1 + mode));
+          changes.push(a1);
+          a0 = a1;
+          color ^= 1;
+        }
+      }
+
+      const offset = row * rowBytes;
+      for (let i = 0; i < changes.length; i += 2) {
+        fillBits(out, offset, changes[i], changes[i + 1] ?? width);
+      }
+      reference = changes;
+    }
+
+    return out;
+  }
+}
+
+class BitReader {
+  private position = 0;
+
+  constructor(private readonly data: Uint8Array, private readonly reverse: boolean) {}
+
+  bit(): number {
+    if (this.position >= this.data.length * 8) {
+      throw new Error('CCITT数据意外结束');
+    }
+    const byte = this.data[this.position >> 3];
+    const shift = this.position & 7;
+    this.position++;
+    return this.reverse ? (byte >> shift) & 1 : (byte >> (7 - shift)) & 1;
+  }
+
+  readCode(table: CodeTable, maxLength: number): number {
+    let code = 0;
+    for (let length = 1; length <= maxLength; length++) {
+      code = (code << 1) | this.bit();
+      const value = table.get((length << 16) | code);
+      if (value !== undefined) return value;
+    }
+    throw new Error('CCITT数据包含无效编码');
+  }
+
+  /**
+   * 组合码之后必须跟一个终止码
+   */
+  readRun(table: CodeTable): number {
+    let total = 0;
+    for (;;) {
+      const run = this.readCode(table, 13);
+      total += run;
+      if (run < 64) return total;
+    }
+  }
+}
+
+function getTables(): { white: CodeTable; black: CodeTable; modes: CodeTable } {
+  if (!tables) {
+    const build = (entries: Array<[string, number]>): CodeTable =>
+      new Map(entries.map(([code, value]) => [(code.length << 16) | parseInt(code, 2), value]));
+    const runs = (terminating: string[], makeup: string[]): Array<[string, number]> => [
+      ...terminating.map((code, run): [string, number] => [code, run]),
+      ...makeup.map((code, index): [string, number] => [code, (index + 1) * 64]),
+      ...EXTENDED_MAKEUP.map((code, index): [string, number] => [code, 1792 + index * 64])
+    ];
+
+    tables = {
+      white: build(runs(WHITE_TERMINATING, WHITE_MAKEUP)),
+      black: build(runs(BLACK_TERMINATING, BLACK_MAKEUP)),
+      modes: build(Object.entries(MODES))
+    };
+  }
+  return tables;
+}
+
+function fillBits(out: Uint8Array, offset: number, from: number, to: number): void {
+  for (let x = from; x < to; x++) {
+    out[offset + (x >> 3)] |= 0x80 >> (x & 7);
+  }
+}
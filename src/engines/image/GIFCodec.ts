@@ -0,0 +1,552 @@
+/**
+ * GIF编解码 - 解码为逐帧合成的画面，编码时每帧使用局部调色板并保留延时、循环次数和处置方式
+ */
+
+import { FrameCanvas, type AnimatedImage, type AnimationFrame, type FrameDisposal } from './AnimatedImage';
+
+const DISPOSAL_CODES: Record<FrameDisposal, number> = { none: 1, background: 2, previous: 3 };
+const MAX_CODE = 4096;
+const HISTOGRAM_BITS = 5; // 量化直方图每通道位数
+
+interface GraphicControl {
+  delay: number;
+  disposal: FrameDisposal;
+  transparentIndex: number; // -1表示无透明色
+}
+
+export class GIFCodec {
+  static isGIF(bytes: Uint8Array): boolean {
+    return bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x38;
+  }
+
+  /**
+   * 只扫描块结构，不解压像素：含两帧及以上时为动图
+   */
+  static isAnimated(bytes: Uint8Array): boolean {
+    if (!this.isGIF(bytes) || bytes.length < 13) return false;
+
+    let offset = 13 + colorTableSize(bytes[10]);
+    let frames = 0;
+    while (offset < bytes.length) {
+      const block = bytes[offset];
+      if (block === 0x2C) {
+        if (++frames > 1) return true;
+        offset = skipSubBlocks(bytes, offset + 11 + colorTableSize(bytes[offset + 9]));
+      } else if (block === 0x21) {
+        offset = skipSubBlocks(bytes, offset + 2);
+      } else {
+        break;
+      }
+    }
+    return false;
+  }
+
+  static decode(bytes: Uint8Array): AnimatedImage {
+    if (!this.isGIF(bytes) || bytes.length < 13) {
+      throw new Error('不是有效的GIF文件');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const width = view.getUint16(6, true);
+    const height = view.getUint16(8, true);
+    const globalTableSize = colorTableSize(bytes[10]);
+    const globalPalette = globalTableSize ? bytes.subarray(13, 13 + globalTableSize) : null;
+
+    const canvas = new FrameCanvas(width, height);
+    const frames: AnimationFrame[] = [];
+    let loopCount = 1; // 没有NETSCAPE扩展时只播放一次
+    let control: GraphicControl | null = null;
+    let offset = 13 + globalTableSize;
+
+    while (offset < bytes.length) {
+      const block = bytes[offset];
+
+      if (block === 0x3B) break;
+
+      if (block === 0x21) {
+        const label = bytes[offset + 1];
+        if (label === 0xF9 && bytes[offset + 2] === 4) {
+          const packed = bytes[offset + 3];
+          const disposalCode = (packed >> 2) & 7;
+          control = {
+            delay: view.getUint16(offset + 4, true) * 10,
+            disposal: disposalCode === 2 ? 'background' : disposalCode === 3 ? 'previous' : 'none',
+            transparentIndex: packed & 1 ? bytes[offset + 6] : -1
+          };
+        } else if (label === 0xFF && latin1(bytes.subarray(offset + 3, offset + 14)) === 'NETSCAPE2.0') {
+          const loops = view.getUint16(offset + 16, true);
+          loopCount = loops === 0 ? 0 : loops + 1;
+        }
+        offset = skipSubBlocks(bytes, offset + 2);
+        continue;
+      }
+
+      if (block !== 0x2C) {
+        throw new Error('GIF文件结构损坏');
+      }
+
+      const rect = {
+        x: view.getUint16(offset + 1, true),
+        y: view.getUint16(offset + 3, true),
+        width: view.getUint16(offset + 5, true),
+        height: view.getUint16(offset + 7, true)
+      };
+      const packed = bytes[offset + 9];
+      const localTableSize = colorTableSize(packed);
+      const palette = localTableSize ? bytes.subarray(offset + 10, offset + 10 + localTableSize) : globalPalette;
+      offset += 10 + localTableSize;
+
+      const minCodeSize = bytes[offset];
+      const end = skipSubBlocks(bytes, offset + 1);
+      const data = readSubBlocks(bytes, offset + 1, end);
+      offset = end;
+
+      if (!palette) {
+        throw new Error('GIF帧缺少调色板');
+      }
+      FrameCanvas.assertWithinLimit(width, height, frames.length + 1);
+
+      let indices = lzwDecode(data, minCodeSize, rect.width * rect.height);
+      if (packed & 0x40) {
+        indices = deinterlace(indices, rect.width, rect.height);
+      }
+
+      const frameControl: GraphicControl = control || { delay: 0, disposal: 'none', transparentIndex: -1 };
+      const pixels = new Uint8ClampedArray(rect.width * rect.height * 4);
+      for (let i = 0; i < indices.length; i++) {
+        const index = indices[i];
+        if (index === frameControl.transparentIndex || index * 3 + 2 >= palette.length) continue;
+        pixels.set(palette.subarray(index * 3, index * 3 + 3), i * 4);
+        pixels[i * 4 + 3] = 255;
+      }
+
+      canvas.begin(frameControl.disposal);
+      canvas.draw(pixels, rect.width, { ...rect, x: 0, y: 0 }, rect, 'over');
+      frames.push({
+        pixels: canvas.snapshot(),
+        delay: frameControl.delay,
+        disposal: frameControl.disposal,
+        rect
+      });
+      canvas.end(rect, frameControl.disposal);
+      control = null;
+    }
+
+    if (frames.length === 0) {
+      throw new Error('GIF文件不包含图像帧');
+    }
+
+    return { format: 'gif', width, height, loopCount, frames };
+  }
+
+  /**
+   * 编码为GIF89a：半透明像素按50%阈值处理为透明或不透明
+   */
+  static encode(animation: AnimatedImage): Uint8Array {
+    const { width, height } = animation;
+    const frames = animation.frames.map(frame => ({ ...frame, pixels: thresholdAlpha(frame.pixels) }));
+    const regions = FrameCanvas.planRegions({ ...animation, frames }, 'over');
+    const out = new ByteWriter();
+
+    out.text('GIF89a');
+    out.uint16(width);
+    out.uint16(height);
+    out.bytes([0, 0, 0]); // 无全局调色板
+
+    if (animation.loopCount !== 1) {
+      out.bytes([0x21, 0xFF, 11]);
+      out.text('NETSCAPE2.0');
+      out.bytes([3, 1]);
+      out.uint16(animation.loopCount === 0 ? 0 : Math.min(0xFFFF, animation.loopCount - 1));
+      out.bytes([0]);
+    }
+
+    frames.forEach((frame, index) => {
+      const rect = regions[index];
+      const { palette, indices, transparentIndex } = quantize(FrameCanvas.crop(frame.pixels, width, rect));
+      const tableBits = Math.max(1, Math.ceil(Math.log2(Math.max(2, palette.length / 3))));
+
+      out.bytes([0x21, 0xF9, 4, (DISPOSAL_CODES[frame.disposal] << 2) | (transparentIndex >= 0 ? 1 : 0)]);
+      out.uint16(Math.min(0xFFFF, Math.round(frame.delay / 10)));
+      out.bytes([Math.max(0, transparentIndex), 0]);
+
+      out.bytes([0x2C]);
+      out.uint16(rect.x);
+      out.uint16(rect.y);
+      out.uint16(rect.width);
+      out.uint16(rect.height);
+      out.bytes([0x80 | (tableBits - 1)]);
+      const table = new Uint8Array(3 << tableBits);
+      table.set(palette);
+      out.bytes(table);
+
+      const minCodeSize = Math.max(2, tableBits);
+      out.bytes([minCodeSize]);
+      const data = lzwEncode(indices, minCodeSize);
+      for (let i = 0; i < data.length; i += 255) {
+        const block = data.subarray(i, i + 255);
+        out.bytes([block.length]);
+        out.bytes(block);
+      }
+      out.bytes([0]);
+    });
+
+    out.bytes([0x3B]);
+    return out.toBytes();
+  }
+}
+
+// ---------- 块结构 ----------
+
+function colorTableSize(packed: number): number {
+  return packed & 0x80 ? 3 << ((packed & 7) + 1) : 0;
+}
+
+function skipSubBlocks(bytes: Uint8Array, offset: number): number {
+  while (offset < bytes.length && bytes[offset] !== 0) {
+    offset += bytes[offset] + 1;
+  }
+  return offset + 1;
+}
+
+function readSubBlocks(bytes: Uint8Array, start: number, end: number): Uint8Array {
+  const data = new Uint8Array(end - start);
+  let length = 0;
+  for (let offset = start; offset < end - 1 && bytes[offset] !== 0; offset += bytes[offset] + 1) {
+    const block = bytes.subarray(offset + 1, offset + 1 + bytes[offset]);
+    data.set(block, length);
+    length += block.length;
+  }
+  return data.subarray(0, length);
+}
+
+function latin1(bytes: Uint8Array): string {
+  return String.fromCharCode(...bytes);
+}
+
+class ByteWriter {
+  private buffer = new Uint8Array(1024);
+  private length = 0;
+
+  bytes(values: ArrayLike<number>): void {
+    this.reserve(values.length);
+    this.buffer.set(values, this.length);
+    this.length += values.length;
+  }
+
+  uint16(value: number): void {
+    this.bytes([value & 0xFF, (value >> 8) & 0xFF]);
+  }
+
+  text(value: string): void {
+    this.bytes(Array.from(value, char => char.charCodeAt(0)));
+  }
+
+  toBytes(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.buffer.length) return;
+    let capacity = this.buffer.length * 2;
+    while (capacity < this.length + size) capacity *= 2;
+    const next = new Uint8Array(capacity);
+    next.set(this.buffer.subarray(0, this.length));
+    this.buffer = next;
+  }
+}
+
+// ---------- LZW ----------
+
+function lzwDecode(data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array {
+  const out = new Uint8Array(pixelCount);
+  const clear = 1 << minCodeSize;
+  const eoi = clear + 1;
+  const prefix = new Int16Array(MAX_CODE);
+  const suffix = new Uint8Array(MAX_CODE);
+  const first = new Uint8Array(MAX_CODE);
+  const stack = new Uint8Array(MAX_CODE + 1);
+
+  for (let code = 0; code < clear; code++) {
+    prefix[code] = -1;
+    suffix[code] = code;
+    first[code] = code;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let next = eoi + 1;
+  let previous = -1;
+  let buffer = 0;
+  let bits = 0;
+  let position = 0;
+  let written = 0;
+
+  while (written < pixelCount) {
+    while (bits < codeSize) {
+      if (position >= data.length) return out; // 数据截断时其余像素保持索引0
+      buffer |= data[position++] << bits;
+      bits += 8;
+    }
+    const code = buffer & ((1 << codeSize) - 1);
+    buffer >>>= codeSize;
+    bits -= codeSize;
+
+    if (code === clear) {
+      codeSize = minCodeSize + 1;
+      next = eoi + 1;
+      previous = -1;
+      continue;
+    }
+    if (code === eoi) break;
+    if (code > next || (code === next && previous < 0)) break;
+
+    // code === next 为KwKwK情形：前一串加上其首字符
+    let top = 0;
+    let current = code;
+    if (code === next) {
+      stack[top++] = first[previous];
+      current = previous;
+    }
+    while (current >= 0) {
+      stack[top++] = suffix[current];
+      current = prefix[current];
+    }
+    const head = stack[top - 1];
+    while (top > 0 && written < pixelCount) {
+      out[written++] = stack[--top];
+    }
+
+    if (previous >= 0 && next < MAX_CODE) {
+      prefix[next] = previous;
+      suffix[next] = head;
+      first[next] = first[previous];
+      next++;
+      if (next === 1 << codeSize && codeSize < 12) codeSize++;
+    }
+    previous = code;
+  }
+
+  return out;
+}
+
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const out = new ByteWriter();
+  const clear = 1 << minCodeSize;
+  const eoi = clear + 1;
+  const dictionary = new Map<number, number>();
+  let codeSize = minCodeSize + 1;
+  let next = eoi + 1;
+  let buffer = 0;
+  let bits = 0;
+
+  const write = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.bytes([buffer & 0xFF]);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  write(clear);
+  let prefix = indices[0] ?? 0;
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    write(prefix);
+    if (next < MAX_CODE) {
+      dictionary.set(key, next++);
+      if (next > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      write(clear);
+      dictionary.clear();
+      codeSize = minCodeSize + 1;
+      next = eoi + 1;
+    }
+    prefix = indices[i];
+  }
+
+  write(prefix);
+  write(eoi);
+  if (bits > 0) out.bytes([buffer & 0xFF]);
+  return out.toBytes();
+}
+
+function deinterlace(indices: Uint8Array, width: number, height: number): Uint8Array {
+  const out = new Uint8Array(indices.length);
+  let row = 0;
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+    for (let y = start; y < height; y += step, row++) {
+      out.set(indices.subarray(row * width, (row + 1) * width), y * width);
+    }
+  }
+  return out;
+}
+
+// ---------- 调色板量化 ----------
+
+function thresholdAlpha(pixels: Uint8ClampedArray): Uint8ClampedArray {
+  const out = pixels.slice();
+  for (let i = 3; i < out.length; i += 4) {
+    out[i] = out[i] >= 128 ? 255 : 0;
+  }
+  return out;
+}
+
+/**
+ * 不超过256色时使用精确调色板，否则在5位直方图上做中位切分
+ */
+function quantize(pixels: Uint8ClampedArray): { palette: Uint8Array; indices: Uint8Array; transparentIndex: number } {
+  const count = pixels.length / 4;
+  const indices = new Uint8Array(count);
+  let hasTransparency = false;
+  for (let i = 3; i < pixels.length; i += 4) {
+    if (pixels[i] === 0) {
+      hasTransparency = true;
+      break;
+    }
+  }
+  const maxColors = hasTransparency ? 255 : 256;
+
+  const exact = new Map<number, number>();
+  for (let i = 0; i < pixels.length && exact.size <= maxColors; i += 4) {
+    if (pixels[i + 3] === 0) continue;
+    const color = (pixels[i] << 16) | (pixels[i + 1] << 8) | pixels[i + 2];
+    if (!exact.has(color)) exact.set(color, exact.size);
+  }
+
+  let colors: Uint8Array;
+  let lookup: (r: number, g: number, b: number) => number;
+
+  if (exact.size <= maxColors) {
+    colors = new Uint8Array(exact.size * 3);
+    exact.forEach((index, color) => colors.set([color >> 16, (color >> 8) & 0xFF, color & 0xFF], index * 3));
+    lookup = (r, g, b) => exact.get((r << 16) | (g << 8) | b)!;
+  } else {
+    colors = medianCut(pixels, maxColors);
+    const cache = new Int16Array(1 << (HISTOGRAM_BITS * 3)).fill(-1);
+    lookup = (r, g, b) => {
+      const bin = histogramBin(r, g, b);
+      if (cache[bin] < 0) cache[bin] = nearestColor(colors, r, g, b);
+      return cache[bin];
+    };
+  }
+
+  // 透明色追加在调色板最后
+  const transparentIndex = hasTransparency ? colors.length / 3 : -1;
+  const palette = new Uint8Array(colors.length + (hasTransparency ? 3 : 0));
+  palette.set(colors);
+
+  for (let i = 0; i < count; i++) {
+    const offset = i * 4;
+    indices[i] = pixels[offset + 3] === 0
+      ? transparentIndex
+      : lookup(pixels[offset], pixels[offset + 1], pixels[offset + 2]);
+  }
+
+  return { palette, indices, transparentIndex };
+}
+
+function histogramBin(r: number, g: number, b: number): number {
+  const shift = 8 - HISTOGRAM_BITS;
+  return ((r >> shift) << (HISTOGRAM_BITS * 2)) | ((g >> shift) << HISTOGRAM_BITS) | (b >> shift);
+}
+
+interface ColorBin {
+  count: number;
+  r: number; // 颜色分量之和
+  g: number;
+  b: number;
+}
+
+function medianCut(pixels: Uint8ClampedArray, maxColors: number): Uint8Array {
+  const histogram = new Map<number, ColorBin>();
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] === 0) continue;
+    const bin = histogramBin(pixels[i], pixels[i + 1], pixels[i + 2]);
+    const entry = histogram.get(bin);
+    if (entry) {
+      entry.count++;
+      entry.r += pixels[i];
+      entry.g += pixels[i + 1];
+      entry.b += pixels[i + 2];
+    } else {
+      histogram.set(bin, { count: 1, r: pixels[i], g: pixels[i + 1], b: pixels[i + 2] });
+    }
+  }
+
+  const average = (bin: ColorBin, channel: 0 | 1 | 2) => [bin.r, bin.g, bin.b][channel] / bin.count;
+  const boxes: ColorBin[][] = [Array.from(histogram.values())];
+
+  while (boxes.length < maxColors) {
+    // 拆分像素最多且可拆分的盒子
+    let target = -1;
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].length > 1 && (target < 0 || boxPixels(boxes[i]) > boxPixels(boxes[target]))) {
+        target = i;
+      }
+    }
+    if (target < 0) break;
+
+    const box = boxes[target];
+    const channel = widestChannel(box, average);
+    box.sort((a, b) => average(a, channel) - average(b, channel));
+
+    const half = boxPixels(box) / 2;
+    let split = 1;
+    for (let seen = box[0].count; split < box.length - 1 && seen < half; split++) {
+      seen += box[split].count;
+    }
+    boxes.splice(target, 1, box.slice(0, split), box.slice(split));
+  }
+
+  const palette = new Uint8Array(boxes.length * 3);
+  boxes.forEach((box, index) => {
+    const total = boxPixels(box);
+    palette[index * 3] = Math.round(box.reduce((sum, bin) => sum + bin.r, 0) / total);
+    palette[index * 3 + 1] = Math.round(box.reduce((sum, bin) => sum + bin.g, 0) / total);
+    palette[index * 3 + 2] = Math.round(box.reduce((sum, bin) => sum + bin.b, 0) / total);
+  });
+  return palette;
+}
+
+function boxPixels(box: ColorBin[]): number {
+  return box.reduce((sum, bin) => sum + bin.count, 0);
+}
+
+function widestChannel(box: ColorBin[], average: (bin: ColorBin, channel: 0 | 1 | 2) => number): 0 | 1 | 2 {
+  let widest: 0 | 1 | 2 = 0;
+  let widestRange = -1;
+  for (const channel of [0, 1, 2] as const) {
+    let min = 255, max = 0;
+    for (const bin of box) {
+      const value = average(bin, channel);
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    if (max - min > widestRange) {
+      widest = channel;
+      widestRange = max - min;
+    }
+  }
+  return widest;
+}
+
+function nearestColor(palette: Uint8Array, r: number, g: number, b: number): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < palette.length; i += 3) {
+    const distance = (palette[i] - r) ** 2 + (palette[i + 1] - g) ** 2 + (palette[i + 2] - b) ** 2;
+    if (distance < bestDistance) {
+      best = i / 3;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,635 @@
+/**
+ * 图片元数据 - 解析JPEG/PNG/WebP中的EXIF、XMP和ICC色彩配置，并写回Canvas导出的图片
+ * Canvas导出会丢弃全部元数据；写回时方向重置为1（像素已按方向绘制），缩略图和MakerNote不保留
+ */
+
+import type { MetadataConfig } from '../../types/watermark.types';
+import { PNGChunks } from './PNGChunks';
+
+export type ImageContainerFormat = 'jpeg' | 'png' | 'webp';
+
+export interface ImageMetadataBlock {
+  format: ImageContainerFormat | 'unknown';
+  exif?: Uint8Array; // TIFF结构，不含"Exif\0\0"前缀
+  xmp?: string;
+  icc?: Uint8Array;
+  orientation: number; // EXIF方向 1-8
+}
+
+export interface ExifTag {
+  ifd: 'ifd0' | 'exif' | 'gps' | 'interop';
+  tag: number;
+}
+
+interface TiffEntry {
+  tag: number;
+  type: number;
+  count: number;
+  value: Uint8Array; // 原字节序的原始值
+}
+
+interface TiffIfd {
+  entries: TiffEntry[];
+  exif?: TiffIfd;
+  gps?: TiffIfd;
+  interop?: TiffIfd;
+}
+
+interface TiffData {
+  littleEndian: boolean;
+  ifd0: TiffIfd;
+}
+
+interface RiffChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+export const DEFAULT_METADATA_CONFIG: MetadataConfig = {
+  exif: true,
+  xmp: true,
+  icc: true,
+  stripPrivate: false
+};
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+const JPEG_SEGMENT_MAX = 0xFFFF - 2;
+const ICC_CHUNK_MAX = JPEG_SEGMENT_MAX - ICC_HEADER.length - 2;
+
+// 证书嵌入器写入的XMP包不属于原图元数据，不随图片复制
+const CERTIFICATE_NAMESPACE = 'watermark.app/ns/certificate';
+
+// TIFF字段类型对应的单个值字节数
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8, 4];
+const SUB_IFD_TAGS = { exif: 0x8769, gps: 0x8825, interop: 0xA005 } as const;
+const ORIENTATION_TAG = 0x0112;
+const MAKER_NOTE_TAG = 0x927C;
+// 指向文件内数据的偏移量，重排后失效：条带、缩略图、SubIFD
+const OFFSET_TAGS = new Set([0x0111, 0x0117, 0x0144, 0x0145, 0x014A, 0x0201, 0x0202]);
+// 个人信息：作者、主机名、用户注释、图片唯一ID、机主、机身/镜头序列号、Windows备注/作者
+const PRIVATE_TAGS = new Set([0x013B, 0x013C, 0x9286, 0xA420, 0xA430, 0xA431, 0xA435, 0x9C9C, 0x9C9D]);
+const XMP_PRIVATE_PROPERTY = '(?:exif:GPS\\w*|exifEX:(?:BodySerialNumber|LensSerialNumber|CameraOwnerName|ImageUniqueID)|aux:(?:SerialNumber|LensSerialNumber|OwnerName)|dc:creator|photoshop:AuthorsPosition)';
+
+export class ImageMetadata {
+  static detectFormat(bytes: Uint8Array): ImageContainerFormat | 'unknown' {
+    if (bytes[0] === 0xFF && bytes[1] === 0xD8) return 'jpeg';
+    if (PNGChunks.isPNG(bytes)) return 'png';
+    if (latin1(bytes.subarray(0, 4)) === 'RIFF' && latin1(bytes.subarray(8, 12)) === 'WEBP') return 'webp';
+    return 'unknown';
+  }
+
+  /**
+   * 读取图片中的EXIF、XMP和ICC，无法识别的格式或损坏的段返回空结果
+   */
+  static async read(source: Blob | Uint8Array): Promise<ImageMetadataBlock> {
+    const bytes = source instanceof Uint8Array ? source : new Uint8Array(await source.arrayBuffer());
+    const format = this.detectFormat(bytes);
+    const metadata: ImageMetadataBlock = { format, orientation: 1 };
+
+    try {
+      if (format === 'jpeg') this.readJpeg(bytes, metadata);
+      else if (format === 'png') await this.readPng(bytes, metadata);
+      else if (format === 'webp') this.readWebp(bytes, metadata);
+    } catch (error) {
+      console.warn('⚠️ 图片元数据解析失败，已忽略:', error);
+    }
+
+    if (metadata.exif) {
+      metadata.orientation = this.readOrientation(metadata.exif);
+    }
+
+    return metadata;
+  }
+
+  /**
+   * 按配置筛选要写回的元数据：EXIF重建为方向=1、无缩略图的版本，可选去除GPS和个人信息
+   */
+  static select(metadata: ImageMetadataBlock, config: MetadataConfig = DEFAULT_METADATA_CONFIG): ImageMetadataBlock {
+    const selected: ImageMetadataBlock = { format: metadata.format, orientation: 1 };
+
+    if (config.exif && metadata.exif) {
+      const tiff = parseTiff(metadata.exif);
+      if (tiff) {
+        sanitizeIfd(tiff.ifd0, tiff.littleEndian, config.stripPrivate);
+        selected.exif = writeTiff(tiff);
+      }
+    }
+    if (config.xmp && metadata.xmp) {
+      selected.xmp = this.sanitizeXmp(metadata.xmp, config.stripPrivate);
+    }
+    if (config.icc && metadata.icc) {
+      selected.icc = metadata.icc;
+    }
+
+    return selected;
+  }
+
+  static isEmpty(metadata: ImageMetadataBlock): boolean {
+    return !metadata.exif && !metadata.xmp && !metadata.icc;
+  }
+
+  /**
+   * 写回后文件增加字节数的上限估计，用于从文件大小预算中扣除
+   */
+  static byteLength(metadata: ImageMetadataBlock): number {
+    let size = 32; // WebP扩展头等固定开销
+    if (metadata.exif) size += metadata.exif.length + 16;
+    if (metadata.xmp) size += new TextEncoder().encode(metadata.xmp).length + XMP_HEADER.length + 16;
+    if (metadata.icc) size += metadata.icc.length + Math.ceil(metadata.icc.length / ICC_CHUNK_MAX) * 18;
+    return size;
+  }
+
+  /**
+   * 将元数据写入Canvas导出的图片，格式由图片内容决定
+   */
+  static async write(image: Blob, metadata: ImageMetadataBlock): Promise<Blob> {
+    if (this.isEmpty(metadata)) return image;
+
+    const bytes = new Uint8Array(await image.arrayBuffer());
+    const format = this.detectFormat(bytes);
+    let output: Uint8Array;
+
+    if (format === 'jpeg') output = this.writeJpeg(bytes, metadata);
+    else if (format === 'png') output = await this.writePng(bytes, metadata);
+    else if (format === 'webp') output = this.writeWebp(bytes, metadata);
+    else return image;
+
+    return new Blob([output as BlobPart], { type: image.type });
+  }
+
+  /**
+   * 列出EXIF中的全部标签，用于检查去除个人信息后的结果
+   */
+  static readExifTags(exif: Uint8Array): ExifTag[] {
+    const tiff = parseTiff(exif);
+    if (!tiff) return [];
+
+    const tags: ExifTag[] = [];
+    const collect = (ifd: TiffIfd | undefined, name: ExifTag['ifd']) => {
+      ifd?.entries.forEach(entry => tags.push({ ifd: name, tag: entry.tag }));
+    };
+    collect(tiff.ifd0, 'ifd0');
+    collect(tiff.ifd0.exif, 'exif');
+    collect(tiff.ifd0.gps, 'gps');
+    collect(tiff.ifd0.exif?.interop, 'interop');
+    return tags;
+  }
+
+  /**
+   * 方向5-8需要交换宽高
+   */
+  static getOrientedSize(width: number, height: number, orientation: number): { width: number; height: number } {
+    return orientation >= 5 && orientation <= 8 ? { width: height, height: width } : { width, height };
+  }
+
+  private static readOrientation(exif: Uint8Array): number {
+    const tiff = parseTiff(exif);
+    const entry = tiff?.ifd0.entries.find(item => item.tag === ORIENTATION_TAG);
+    if (!tiff || !entry || entry.value.length < 2) return 1;
+
+    const value = new DataView(entry.value.buffer, entry.value.byteOffset).getUint16(0, tiff.littleEndian);
+    return value >= 1 && value <= 8 ? value : 1;
+  }
+
+  private static sanitizeXmp(xmp: string, stripPrivate: boolean): string {
+    let result = xmp
+      .replace(/(tiff:Orientation=["'])\d(["'])/g, (_match, start, end) => `${start}1${end}`)
+      .replace(/(<tiff:Orientation>)\d(<\/tiff:Orientation>)/g, (_match, start, end) => `${start}1${end}`);
+
+    if (stripPrivate) {
+      result = result
+        .replace(new RegExp(`\\s${XMP_PRIVATE_PROPERTY}=("[^"]*"|'[^']*')`, 'g'), '')
+        .replace(new RegExp(`<(${XMP_PRIVATE_PROPERTY})\\b[^>]*/>`, 'g'), '')
+        .replace(new RegExp(`<(${XMP_PRIVATE_PROPERTY})\\b[^>]*>[\\s\\S]*?</\\1>`, 'g'), '');
+    }
+
+    return result;
+  }
+
+  // ---------- JPEG ----------
+
+  private static readJpeg(bytes: Uint8Array, metadata: ImageMetadataBlock): void {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const iccChunks: Array<{ sequence: number; data: Uint8Array }> = [];
+    let offset = 2;
+
+    // 仅扫描图像数据(SOS)之前的标记段
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xFF) {
+      const marker = bytes[offset + 1];
+      if (marker === 0xDA || marker === 0xD9) break;
+
+      const end = offset + 2 + view.getUint16(offset + 2);
+      const segment = bytes.subarray(offset + 4, Math.min(end, bytes.length));
+
+      if (marker === 0xE1 && startsWith(segment, EXIF_HEADER) && !metadata.exif) {
+        metadata.exif = segment.slice(EXIF_HEADER.length);
+      } else if (marker === 0xE1 && startsWith(segment, XMP_HEADER)) {
+        const xmp = new TextDecoder().decode(segment.subarray(XMP_HEADER.length));
+        if (!xmp.includes(CERTIFICATE_NAMESPACE)) metadata.xmp = xmp;
+      } else if (marker === 0xE2 && startsWith(segment, ICC_HEADER)) {
+        iccChunks.push({
+          sequence: segment[ICC_HEADER.length],
+          data: segment.subarray(ICC_HEADER.length + 2)
+        });
+      }
+
+      offset = end;
+    }
+
+    if (iccChunks.length > 0) {
+      metadata.icc = concat(iccChunks.sort((a, b) => a.sequence - b.sequence).map(chunk => chunk.data));
+    }
+  }
+
+  private static writeJpeg(bytes: Uint8Array, metadata: ImageMetadataBlock): Uint8Array {
+    const segments: Uint8Array[] = [];
+
+    if (metadata.exif) {
+      const payload = concat([fromLatin1(EXIF_HEADER), metadata.exif]);
+      if (payload.length <= JPEG_SEGMENT_MAX) {
+        segments.push(createJpegSegment(0xE1, payload));
+      } else {
+        console.warn('⚠️ EXIF超出JPEG段长度上限，未写入');
+      }
+    }
+
+    if (metadata.xmp) {
+      const payload = concat([fromLatin1(XMP_HEADER), new TextEncoder().encode(metadata.xmp)]);
+      if (payload.length <= JPEG_SEGMENT_MAX) {
+        segments.push(createJpegSegment(0xE1, payload));
+      } else {
+        console.warn('⚠️ XMP超出JPEG段长度上限，未写入');
+      }
+    }
+
+    if (metadata.icc) {
+      // 大于单段上限的ICC按序号拆分到多个APP2段
+      const total = Math.ceil(metadata.icc.length / ICC_CHUNK_MAX);
+      for (let index = 0; index < total; index++) {
+        const chunk = metadata.icc.subarray(index * ICC_CHUNK_MAX, (index + 1) * ICC_CHUNK_MAX);
+        segments.push(createJpegSegment(0xE2, concat([
+          fromLatin1(ICC_HEADER),
+          Uint8Array.of(index + 1, total),
+          chunk
+        ])));
+      }
+    }
+
+    // JFIF要求APP0紧跟SOI，元数据段插入其后
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 2;
+    if (bytes[offset] === 0xFF && bytes[offset + 1] === 0xE0) {
+      offset += 2 + view.getUint16(offset + 2);
+    }
+
+    return concat([bytes.subarray(0, offset), ...segments, bytes.subarray(offset)]);
+  }
+
+  // ---------- PNG ----------
+
+  private static async readPng(bytes: Uint8Array, metadata: ImageMetadataBlock): Promise<void> {
+    for (const { type, data } of PNGChunks.read(bytes)) {
+      if (type === 'eXIf') {
+        metadata.exif = data.slice();
+      } else if (type === 'iTXt' && startsWith(data, `${PNG_XMP_KEYWORD}\0`)) {
+        const compressed = data[PNG_XMP_KEYWORD.length + 1] === 1;
+        // 跳过压缩标志、压缩方法，以及语言标签和翻译关键字两个以\0结尾的字段
+        let offset = PNG_XMP_KEYWORD.length + 3;
+        for (let field = 0; field < 2; field++) {
+          while (offset < data.length && data[offset] !== 0) offset++;
+          offset++;
+        }
+        const text = data.subarray(offset);
+        metadata.xmp = new TextDecoder().decode(compressed ? await PNGChunks.inflate(text) : text);
+      } else if (type === 'iCCP') {
+        const nameEnd = data.indexOf(0);
+        metadata.icc = await PNGChunks.inflate(data.subarray(nameEnd + 2));
+      } else if (type === 'IDAT') {
+        break;
+      }
+    }
+  }
+
+  private static async writePng(bytes: Uint8Array, metadata: ImageMetadataBlock): Promise<Uint8Array> {
+    const chunks = PNGChunks.read(bytes);
+    const added: Uint8Array[] = [];
+
+    // iCCP和eXIf须在IDAT之前，统一插入在IHDR之后
+    if (metadata.icc) {
+      added.push(PNGChunks.create('iCCP', concat([
+        fromLatin1('ICC Profile\0\0'),
+        await PNGChunks.deflate(metadata.icc)
+      ])));
+    }
+    if (metadata.exif) {
+      added.push(PNGChunks.create('eXIf', metadata.exif));
+    }
+    if (metadata.xmp) {
+      added.push(PNGChunks.create('iTXt', concat([
+        fromLatin1(`${PNG_XMP_KEYWORD}\0\0\0\0\0`),
+        new TextEncoder().encode(metadata.xmp)
+      ])));
+    }
+
+    const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+    for (const chunk of chunks) {
+      // 写入ICC后sRGB块与之冲突，按规范移除
+      if (metadata.icc && chunk.type === 'sRGB') continue;
+      parts.push(chunk.raw);
+      if (chunk.type === 'IHDR') parts.push(...added);
+    }
+    return concat(parts);
+  }
+
+  // ---------- WebP ----------
+
+  private static readWebp(bytes: Uint8Array, metadata: ImageMetadataBlock): void {
+    for (const { type, data } of readRiffChunks(bytes)) {
+      if (type === 'EXIF') {
+        // 部分编码器在EXIF块中保留了"Exif\0\0"前缀
+        metadata.exif = (startsWith(data, EXIF_HEADER) ? data.subarray(EXIF_HEADER.length) : data).slice();
+      } else if (type === 'XMP ') {
+        metadata.xmp = new TextDecoder().decode(data);
+      } else if (type === 'ICCP') {
+        metadata.icc = data.slice();
+      }
+    }
+  }
+
+  private static writeWebp(bytes: Uint8Array, metadata: ImageMetadataBlock): Uint8Array {
+    const chunks = readRiffChunks(bytes).filter(chunk => !['ICCP', 'EXIF', 'XMP '].includes(chunk.type));
+    const image = chunks.filter(chunk => chunk.type !== 'VP8X');
+    let header = chunks.find(chunk => chunk.type === 'VP8X')?.data.slice();
+
+    // 简单格式（仅VP8/VP8L）需转换为扩展格式才能携带元数据
+    if (!header) {
+      const size = readWebpSize(image);
+      if (!size) {
+        console.warn('⚠️ 无法识别WebP图像尺寸，未写入元数据');
+        return bytes;
+      }
+      header = new Uint8Array(10);
+      header[0] = size.alpha ? 0x10 : 0;
+      writeUint24(header, 4, size.width - 1);
+      writeUint24(header, 7, size.height - 1);
+    }
+
+    header[0] = (header[0] & ~0x2C) |
+      (metadata.icc ? 0x20 : 0) |
+      (metadata.exif ? 0x08 : 0) |
+      (metadata.xmp ? 0x04 : 0);
+
+    // 块顺序：VP8X、ICCP、图像数据、EXIF、XMP
+    const ordered: RiffChunk[] = [{ type: 'VP8X', data: header }];
+    if (metadata.icc) ordered.push({ type: 'ICCP', data: metadata.icc });
+    ordered.push(...image);
+    if (metadata.exif) ordered.push({ type: 'EXIF', data: metadata.exif });
+    if (metadata.xmp) ordered.push({ type: 'XMP ', data: new TextEncoder().encode(metadata.xmp) });
+
+    const body = concat(ordered.map(({ type, data }) => {
+      const chunk = new Uint8Array(8 + data.length + (data.length & 1));
+      chunk.set(fromLatin1(type), 0);
+      new DataView(chunk.buffer).setUint32(4, data.length, true);
+      chunk.set(data, 8);
+      return chunk;
+    }));
+
+    const output = new Uint8Array(12 + body.length);
+    output.set(fromLatin1('RIFF'), 0);
+    new DataView(output.buffer).setUint32(4, 4 + body.length, true);
+    output.set(fromLatin1('WEBP'), 8);
+    output.set(body, 12);
+    return output;
+  }
+}
+
+// ---------- TIFF ----------
+
+function parseTiff(bytes: Uint8Array): TiffData | null {
+  if (bytes.length < 8) return null;
+
+  const order = latin1(bytes.subarray(0, 2));
+  if (order !== 'II' && order !== 'MM') return null;
+
+  const littleEndian = order === 'II';
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint16(2, littleEndian) !== 42) return null;
+
+  try {
+    return { littleEndian, ifd0: readIfd(bytes, view, view.getUint32(4, littleEndian), littleEndian, 0) };
+  } catch {
+    return null;
+  }
+}
+
+function readIfd(bytes: Uint8Array, view: DataView, offset: number, littleEndian: boolean, depth: number): TiffIfd {
+  const ifd: TiffIfd = { entries: [] };
+  const count = view.getUint16(offset, littleEndian);
+
+  for (let index = 0; index < count; index++) {
+    const position = offset + 2 + index * 12;
+    const tag = view.getUint16(position, littleEndian);
+    const type = view.getUint16(position + 2, littleEndian);
+    const valueCount = view.getUint32(position + 4, littleEndian);
+    const size = (TYPE_SIZES[type] || 0) * valueCount;
+    if (!size) continue;
+
+    const valueOffset = size <= 4 ? position + 8 : view.getUint32(position + 8, littleEndian);
+    if (valueOffset + size > bytes.length) continue;
+
+    const subIfd = (Object.keys(SUB_IFD_TAGS) as Array<keyof typeof SUB_IFD_TAGS>)
+      .find(key => SUB_IFD_TAGS[key] === tag);
+    if (subIfd) {
+      // 子IFD最多两层（IFD0 → Exif → Interop），防止循环引用
+      if (depth < 2) {
+        ifd[subIfd] = readIfd(bytes, view, view.getUint32(position + 8, littleEndian), littleEndian, depth + 1);
+      }
+      continue;
+    }
+
+    ifd.entries.push({ tag, type, count: valueCount, value: bytes.slice(valueOffset, valueOffset + size) });
+  }
+
+  return ifd;
+}
+
+function sanitizeIfd(ifd: TiffIfd, littleEndian: boolean, stripPrivate: boolean): void {
+  ifd.entries = ifd.entries.filter(entry =>
+    entry.tag !== MAKER_NOTE_TAG &&
+    !OFFSET_TAGS.has(entry.tag) &&
+    !(stripPrivate && PRIVATE_TAGS.has(entry.tag))
+  );
+
+  const orientation = ifd.entries.find(entry => entry.tag === ORIENTATION_TAG);
+  if (orientation) {
+    orientation.value = new Uint8Array(2);
+    new DataView(orientation.value.buffer).setUint16(0, 1, littleEndian);
+    orientation.type = 3;
+    orientation.count = 1;
+  }
+
+  if (stripPrivate) {
+    delete ifd.gps;
+  }
+  if (ifd.exif) sanitizeIfd(ifd.exif, littleEndian, stripPrivate);
+  if (ifd.interop) sanitizeIfd(ifd.interop, littleEndian, stripPrivate);
+}
+
+/**
+ * 重新序列化TIFF：只写IFD0及其子IFD，不写IFD1（缩略图为未加水印的原图）
+ */
+function writeTiff(tiff: TiffData): Uint8Array {
+  const out: number[] = [];
+  const { littleEndian } = tiff;
+
+  const setUint = (position: number, value: number, size: 2 | 4) => {
+    for (let index = 0; index < size; index++) {
+      const shift = littleEndian ? index * 8 : (size - 1 - index) * 8;
+      out[position + index] = (value >>> shift) & 0xFF;
+    }
+  };
+  const pushUint = (value: number, size: 2 | 4) => {
+    const position = out.length;
+    out.length += size;
+    setUint(position, value, size);
+  };
+  const align = () => {
+    if (out.length & 1) out.push(0);
+  };
+
+  const writeIfd = (ifd: TiffIfd): number => {
+    align();
+    const subIfds = (Object.keys(SUB_IFD_TAGS) as Array<keyof typeof SUB_IFD_TAGS>)
+      .filter(key => ifd[key])
+      .map(key => ({ tag: SUB_IFD_TAGS[key], child: ifd[key]! }));
+    const entries: Array<TiffEntry & { child?: TiffIfd }> = [
+      ...ifd.entries,
+      ...subIfds.map(({ tag, child }) => ({ tag, type: 4, count: 1, value: new Uint8Array(4), child }))
+    ].sort((a, b) => a.tag - b.tag);
+
+    const start = out.length;
+    const pendingData: Array<{ position: number; value: Uint8Array }> = [];
+    const pendingChildren: Array<{ position: number; child: TiffIfd }> = [];
+
+    pushUint(entries.length, 2);
+    for (const entry of entries) {
+      pushUint(entry.tag, 2);
+      pushUint(entry.type, 2);
+      pushUint(entry.count, 4);
+      const position = out.length;
+      if (entry.child) {
+        pendingChildren.push({ position, child: entry.child });
+        pushUint(0, 4);
+      } else if (entry.value.length <= 4) {
+        out.push(...entry.value, ...new Array(4 - entry.value.length).fill(0));
+      } else {
+        pendingData.push({ position, value: entry.value });
+        pushUint(0, 4);
+      }
+    }
+    pushUint(0, 4); // 无下一个IFD
+
+    for (const { position, value } of pendingData) {
+      align();
+      setUint(position, out.length, 4);
+      for (let index = 0; index < value.length; index++) out.push(value[index]);
+    }
+    for (const { position, child } of pendingChildren) {
+      setUint(position, writeIfd(child), 4);
+    }
+
+    return start;
+  };
+
+  out.push(...fromLatin1(littleEndian ? 'II' : 'MM'));
+  pushUint(42, 2);
+  pushUint(8, 4);
+  writeIfd(tiff.ifd0);
+
+  return Uint8Array.from(out);
+}
+
+// ---------- 容器辅助函数 ----------
+
+function readRiffChunks(bytes: Uint8Array): RiffChunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({
+      type: latin1(bytes.subarray(offset, offset + 4)),
+      data: bytes.subarray(offset + 8, offset + 8 + size)
+    });
+    offset += 8 + size + (size & 1);
+  }
+
+  return chunks;
+}
+
+function readWebpSize(chunks: RiffChunk[]): { width: number; height: number; alpha: boolean } | null {
+  for (const { type, data } of chunks) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    if (type === 'VP8 ' && data.length >= 10) {
+      return {
+        width: view.getUint16(6, true) & 0x3FFF,
+        height: view.getUint16(8, true) & 0x3FFF,
+        alpha: chunks.some(chunk => chunk.type === 'ALPH')
+      };
+    }
+    if (type === 'VP8L' && data.length >= 5 && data[0] === 0x2F) {
+      const bits = view.getUint32(1, true);
+      return {
+        width: (bits & 0x3FFF) + 1,
+        height: ((bits >>> 14) & 0x3FFF) + 1,
+        alpha: ((bits >>> 28) & 1) === 1
+      };
+    }
+  }
+  return null;
+}
+
+function writeUint24(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value & 0xFF;
+  bytes[offset + 1] = (value >>> 8) & 0xFF;
+  bytes[offset + 2] = (value >>> 16) & 0xFF;
+}
+
+function createJpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  const segment = new Uint8Array(4 + payload.length);
+  segment[0] = 0xFF;
+  segment[1] = marker;
+  new DataView(segment.buffer).setUint16(2, payload.length + 2);
+  segment.set(payload, 4);
+  return segment;
+}
+
+function startsWith(bytes: Uint8Array, prefix: string): boolean {
+  return bytes.length >= prefix.length && latin1(bytes.subarray(0, prefix.length)) === prefix;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function latin1(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i++) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text;
+}
+
+function fromLatin1(text: string): Uint8Array {
+  return Uint8Array.from(text, char => char.charCodeAt(0));
+}
@@ -0,0 +1,89 @@
+/**
+ * PNG块读写 - 元数据写回与APNG编解码共用
+ */
+
+export interface PNGChunk {
+  type: string;
+  data: Uint8Array;
+  raw: Uint8Array; // 含长度、类型和CRC的完整块
+}
+
+const SIGNATURE = Uint8Array.of(0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A);
+
+let crcTable: Uint32Array | null = null;
+
+export class PNGChunks {
+  static readonly SIGNATURE = SIGNATURE;
+
+  static isPNG(bytes: Uint8Array): boolean {
+    return SIGNATURE.every((value, index) => bytes[index] === value);
+  }
+
+  /**
+   * 按顺序读取全部块，读到IEND为止
+   */
+  static read(bytes: Uint8Array): PNGChunk[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: PNGChunk[] = [];
+    let offset = 8;
+
+    while (offset + 12 <= bytes.length) {
+      const length = view.getUint32(offset);
+      const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+      const end = offset + 12 + length;
+      chunks.push({
+        type,
+        data: bytes.subarray(offset + 8, offset + 8 + length),
+        raw: bytes.subarray(offset, end)
+      });
+      offset = end;
+      if (type === 'IEND') break;
+    }
+
+    return chunks;
+  }
+
+  static create(type: string, data: Uint8Array): Uint8Array {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) {
+      chunk[4 + i] = type.charCodeAt(i);
+    }
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, this.crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+  }
+
+  static crc32(bytes: Uint8Array): number {
+    if (!crcTable) {
+      crcTable = new Uint32Array(256);
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        }
+        crcTable[n] = c >>> 0;
+      }
+    }
+
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < bytes.length; i++) {
+      crc = crcTable[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+  }
+
+  /**
+   * zlib压缩/解压（IDAT、iCCP等块的数据格式）
+   */
+  static async deflate(bytes: Uint8Array): Promise<Uint8Array> {
+    const stream = new Response(bytes as BodyInit).body!.pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+
+  static async inflate(bytes: Uint8Array): Promise<Uint8Array> {
+    const stream = new Response(bytes as BodyInit).body!.pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+}
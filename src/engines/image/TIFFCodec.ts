@@ -0,0 +1,652 @@
+/**
+ * TIFF编解码 - 浏览器无法直接显示TIFF，按页解码为RGBA后再加水印
+ * 解码支持无压缩、LZW、PackBits和CCITT G4，条带与分块布局；编码输出LZW压缩的多页RGB(A) TIFF
+ */
+
+import { CCITTFax } from './CCITTFax';
+
+export interface TIFFPage {
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray; // RGBA
+  dpi: { x: number; y: number };
+}
+
+/**
+ * 一页的IFD，解码前只读取标签，多页文件可逐页解码以控制内存
+ */
+export interface TIFFPageInfo {
+  width: number;
+  height: number;
+  tags: Map<number, number[]>;
+}
+
+const TAG = {
+  newSubfileType: 254,
+  imageWidth: 256,
+  imageLength: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  fillOrder: 266,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  xResolution: 282,
+  yResolution: 283,
+  planarConfiguration: 284,
+  resolutionUnit: 296,
+  pageNumber: 297,
+  predictor: 317,
+  colorMap: 320,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  extraSamples: 338
+} as const;
+
+const COMPRESSION = { none: 1, ccittG4: 4, lzw: 5, packBits: 32773 } as const;
+const PHOTOMETRIC = { whiteIsZero: 0, blackIsZero: 1, rgb: 2, palette: 3, cmyk: 5 } as const;
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+const DEFAULT_DPI = 72;
+const STRIP_BYTES = 64 * 1024; // 编码时每个条带的未压缩大小
+
+export class TIFFCodec {
+  static isTIFF(bytes: Uint8Array): boolean {
+    return (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 0x2A && bytes[3] === 0) ||
+      (bytes[0] === 0x4D && bytes[1] === 0x4D && bytes[2] === 0 && bytes[3] === 0x2A);
+  }
+
+  /**
+   * 读取全部页面的IFD，跳过缩略图等降采样子图
+   */
+  static readPages(bytes: Uint8Array): TIFFPageInfo[] {
+    if (!this.isTIFF(bytes)) {
+      throw new Error('不是有效的TIFF文件');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const littleEndian = bytes[0] === 0x49;
+    const pages: TIFFPageInfo[] = [];
+    const visited = new Set<number>();
+    let offset = view.getUint32(4, littleEndian);
+
+    while (offset && offset + 2 <= bytes.length && !visited.has(offset)) {
+      visited.add(offset);
+      const count = view.getUint16(offset, littleEndian);
+      const tags = new Map<number, number[]>();
+
+      for (let i = 0; i < count; i++) {
+        const entry = offset + 2 + i * 12;
+        if (entry + 12 > bytes.length) break;
+        const values = readValues(view, entry, littleEndian);
+        if (values) tags.set(view.getUint16(entry, littleEndian), values);
+      }
+
+      if (!((tags.get(TAG.newSubfileType)?.[0] ?? 0) & 1)) {
+        pages.push({
+          width: tags.get(TAG.imageWidth)?.[0] ?? 0,
+          height: tags.get(TAG.imageLength)?.[0] ?? 0,
+          tags
+        });
+      }
+
+      const next = offset + 2 + count * 12;
+      offset = next + 4 <= bytes.length ? view.getUint32(next, littleEndian) : 0;
+    }
+
+    if (pages.length === 0) {
+      throw new Error('TIFF文件不包含图像');
+    }
+    return pages;
+  }
+
+  static decode(bytes: Uint8Array): TIFFPage[] {
+    return this.readPages(bytes).map(page => this.decodePage(bytes, page));
+  }
+
+  static decodePage(bytes: Uint8Array, page: TIFFPageInfo): TIFFPage {
+    const { width, height, tags } = page;
+    const get = (tag: number, fallback: number) => tags.get(tag)?.[0] ?? fallback;
+    const compression = get(TAG.compression, COMPRESSION.none);
+    const photometric = get(TAG.photometric, PHOTOMETRIC.blackIsZero);
+    const samples = get(TAG.samplesPerPixel, 1);
+    const bits = get(TAG.bitsPerSample, 1);
+    const predictor = get(TAG.predictor, 1);
+
+    if (!width || !height) {
+      throw new Error('TIFF页面缺少尺寸信息');
+    }
+    if (![1, 2, 4, 8, 16].includes(bits)) {
+      throw new Error(`不支持的TIFF位深: ${bits}`);
+    }
+    if (samples > 1 && get(TAG.planarConfiguration, 1) !== 1) {
+      throw new Error('不支持分平面存储的TIFF');
+    }
+    if (predictor !== 1 && (predictor !== 2 || bits < 8)) {
+      throw new Error(`不支持的TIFF预测器: ${predictor}`);
+    }
+
+    const rowBytes = Math.ceil(width * samples * bits / 8);
+    const raw = new Uint8Array(rowBytes * height);
+    const decodeBlock = (data: Uint8Array, blockWidth: number, rows: number): Uint8Array => {
+      const blockRowBytes = Math.ceil(blockWidth * samples * bits / 8);
+      const decoded = decompress(data, compression, blockRowBytes * rows, blockWidth, rows, get(TAG.fillOrder, 1) === 2);
+      if (predictor === 2) {
+        undoPredictor(decoded, blockRowBytes, rows, samples, bits, bytes[0] === 0x49);
+      }
+      return decoded;
+    };
+
+    const tileOffsets = tags.get(TAG.tileOffsets);
+    if (tileOffsets) {
+      const tileWidth = get(TAG.tileWidth, 0);
+      const tileLength = get(TAG.tileLength, 0);
+      const tileCounts = tags.get(TAG.tileByteCounts) || [];
+      const tileRowBytes = Math.ceil(tileWidth * samples * bits / 8);
+      const across = Math.ceil(width / tileWidth);
+
+      tileOffsets.forEach((offset, index) => {
+        const tile = decodeBlock(bytes.subarray(offset, offset + (tileCounts[index] ?? 0)), tileWidth, tileLength);
+        const tileX = (index % across) * tileRowBytes;
+        const tileY = Math.floor(index / across) * tileLength;
+        const copyBytes = Math.min(tileRowBytes, rowBytes - tileX);
+        for (let y = 0; y < tileLength && tileY + y < height; y++) {
+          raw.set(tile.subarray(y * tileRowBytes, y * tileRowBytes + copyBytes), (tileY + y) * rowBytes + tileX);
+        }
+      });
+    } else {
+      const stripOffsets = tags.get(TAG.stripOffsets) || [];
+      const stripCounts = tags.get(TAG.stripByteCounts) || [];
+      const rowsPerStrip = Math.min(get(TAG.rowsPerStrip, height), height);
+
+      stripOffsets.forEach((offset, index) => {
+        const firstRow = index * rowsPerStrip;
+        const rows = Math.min(rowsPerStrip, height - firstRow);
+        if (rows <= 0) return;
+        const count = stripCounts[index] ?? bytes.length - offset;
+        const strip = decodeBlock(bytes.subarray(offset, offset + count), width, rows);
+        raw.set(strip.subarray(0, rows * rowBytes), firstRow * rowBytes);
+      });
+    }
+
+    return {
+      width,
+      height,
+      pixels: toRGBA(raw, width, height, rowBytes, { photometric, samples, bits, tags, littleEndian: bytes[0] === 0x49 }),
+      dpi: readDpi(tags)
+    };
+  }
+
+  /**
+   * 编码为多页TIFF：8位RGB，存在透明像素时附带非预乘Alpha，LZW压缩
+   */
+  static encode(pages: TIFFPage[]): Uint8Array {
+    const chunks: Uint8Array[] = [];
+    let length = 8;
+    const append = (chunk: Uint8Array): number => {
+      const offset = length;
+      chunks.push(chunk);
+      length += chunk.length;
+      if (length & 1) {
+        chunks.push(new Uint8Array(1));
+        length++;
+      }
+      return offset;
+    };
+
+    const header = new Uint8Array(8);
+    header.set([0x49, 0x49, 0x2A, 0]);
+    const ifdOffsets: number[] = [];
+
+    pages.forEach((page, pageIndex) => {
+      const { width, height } = page;
+      const alpha = hasTransparency(page.pixels);
+      const samples = alpha ? 4 : 3;
+      const rowBytes = width * samples;
+      const rowsPerStrip = Math.max(1, Math.min(height, Math.floor(STRIP_BYTES / rowBytes)));
+      const stripOffsets: number[] = [];
+      const stripCounts: number[] = [];
+
+      for (let row = 0; row < height; row += rowsPerStrip) {
+        const rows = Math.min(rowsPerStrip, height - row);
+        const raw = new Uint8Array(rows * rowBytes);
+        for (let i = 0, from = row * width * 4; i < raw.length; from += 4) {
+          raw[i++] = page.pixels[from];
+          raw[i++] = page.pixels[from + 1];
+          raw[i++] = page.pixels[from + 2];
+          if (alpha) raw[i++] = page.pixels[from + 3];
+        }
+        const compressed = lzwEncode(raw);
+        stripOffsets.push(append(compressed));
+        stripCounts.push(compressed.length);
+      }
+
+      const entries: IFDEntry[] = [
+        [TAG.newSubfileType, 4, [2]],
+        [TAG.imageWidth, 4, [width]],
+        [TAG.imageLength, 4, [height]],
+        [TAG.bitsPerSample, 3, new Array(samples).fill(8)],
+        [TAG.compression, 3, [COMPRESSION.lzw]],
+        [TAG.photometric, 3, [PHOTOMETRIC.rgb]],
+        [TAG.stripOffsets, 4, stripOffsets],
+        [TAG.samplesPerPixel, 3, [samples]],
+        [TAG.rowsPerStrip, 4, [rowsPerStrip]],
+        [TAG.stripByteCounts, 4, stripCounts],
+        [TAG.xResolution, 5, [Math.round(page.dpi.x * 100), 100]],
+        [TAG.yResolution, 5, [Math.round(page.dpi.y * 100), 100]],
+        [TAG.planarConfiguration, 3, [1]],
+        [TAG.resolutionUnit, 3, [2]],
+        [TAG.pageNumber, 3, [pageIndex, pages.length]],
+        ...(alpha ? [[TAG.extraSamples, 3, [2]] as IFDEntry] : [])
+      ];
+      ifdOffsets.push(append(writeIfd(entries, length)));
+    });
+
+    // 串联IFD链：首个IFD偏移写入文件头，其余写入上一个IFD末尾
+    const view = new DataView(header.buffer);
+    view.setUint32(4, ifdOffsets[0] ?? 0, true);
+    const output = concat([header, ...chunks]);
+    const outputView = new DataView(output.buffer);
+    ifdOffsets.forEach((offset, index) => {
+      const count = outputView.getUint16(offset, true);
+      outputView.setUint32(offset + 2 + count * 12, ifdOffsets[index + 1] ?? 0, true);
+    });
+    return output;
+  }
+}
+
+// ---------- IFD ----------
+
+type IFDEntry = [tag: number, type: number, values: number[]];
+
+function readValues(view: DataView, entry: number, littleEndian: boolean): number[] | null {
+  const type = view.getUint16(entry + 2, littleEndian);
+  const count = view.getUint32(entry + 4, littleEndian);
+  const size = TYPE_SIZES[type];
+  if (!size || type === 2) return null;
+
+  const total = size * count;
+  const offset = total <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+  if (offset + total > view.byteLength) return null;
+
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const position = offset + i * size;
+    switch (type) {
+      case 1: case 7: values.push(view.getUint8(position)); break;
+      case 6: values.push(view.getInt8(position)); break;
+      case 3: values.push(view.getUint16(position, littleEndian)); break;
+      case 8: values.push(view.getInt16(position, littleEndian)); break;
+      case 4: values.push(view.getUint32(position, littleEndian)); break;
+      case 9: values.push(view.getInt32(position, littleEndian)); break;
+      case 5: case 10: {
+        const read = type === 5 ? view.getUint32.bind(view) : view.getInt32.bind(view);
+        const denominator = read(position + 4, littleEndian);
+        values.push(denominator ? read(position, littleEndian) / denominator : 0);
+        break;
+      }
+      case 11: values.push(view.getFloat32(position, littleEndian)); break;
+      case 12: values.push(view.getFloat64(position, littleEndian)); break;
+    }
+  }
+  return values;
+}
+
+/**
+ * 写出IFD（小端），超过4字节的值紧跟在IFD之后；末尾的下一IFD偏移稍后填写
+ */
+function writeIfd(entries: IFDEntry[], offset: number): Uint8Array {
+  const sizes = entries.map(([, type, values]) => TYPE_SIZES[type] * (type === 5 ? values.length / 2 : values.length));
+  const extra = sizes.reduce((total, size) => total + (size > 4 ? size + (size & 1) : 0), 0);
+  const ifdLength = 2 + entries.length * 12 + 4;
+  const bytes = new Uint8Array(ifdLength + extra);
+  const view = new DataView(bytes.buffer);
+  let extraOffset = ifdLength;
+
+  view.setUint16(0, entries.length, true);
+  entries.forEach(([tag, type, values], index) => {
+    const entry = 2 + index * 12;
+    const count = type === 5 ? values.length / 2 : values.length;
+    view.setUint16(entry, tag, true);
+    view.setUint16(entry + 2, type, true);
+    view.setUint32(entry + 4, count, true);
+
+    let position = entry + 8;
+    if (sizes[index] > 4) {
+      view.setUint32(entry + 8, offset + extraOffset, true);
+      position = extraOffset;
+      extraOffset += sizes[index] + (sizes[index] & 1);
+    }
+    values.forEach((value, valueIndex) => {
+      if (type === 3) view.setUint16(position + valueIndex * 2, value, true);
+      else view.setUint32(position + valueIndex * 4, value, true);
+    });
+  });
+
+  return bytes;
+}
+
+function readDpi(tags: Map<number, number[]>): { x: number; y: number } {
+  const unit = tags.get(TAG.resolutionUnit)?.[0] ?? 2;
+  const toDpi = (value: number | undefined) => {
+    if (!value || unit === 1) return DEFAULT_DPI;
+    return unit === 3 ? value * 2.54 : value;
+  };
+  const x = toDpi(tags.get(TAG.xResolution)?.[0]);
+  return { x, y: tags.has(TAG.yResolution) ? toDpi(tags.get(TAG.yResolution)?.[0]) : x };
+}
+
+// ---------- 解压 ----------
+
+function decompress(
+  data: Uint8Array,
+  compression: number,
+  expected: number,
+  width: number,
+  rows: number,
+  reverseBits: boolean
+): Uint8Array {
+  switch (compression) {
+    case COMPRESSION.none: {
+      const out = new Uint8Array(expected);
+      out.set(data.subarray(0, expected));
+      return out;
+    }
+    case COMPRESSION.lzw:
+      return lzwDecode(data, expected);
+    case COMPRESSION.packBits:
+      return packBitsDecode(data, expected);
+    case COMPRESSION.ccittG4:
+      return CCITTFax.decodeG4(data, width, rows, { reverseBits });
+    default:
+      throw new Error(`不支持的TIFF压缩方式: ${compression}`);
+  }
+}
+
+function packBitsDecode(data: Uint8Array, expected: number): Uint8Array {
+  const out = new Uint8Array(expected);
+  let written = 0;
+  let position = 0;
+
+  while (written < expected && position < data.length) {
+    const header = (data[position++] << 24) >> 24;
+    if (header >= 0) {
+      const literal = data.subarray(position, position + header + 1).subarray(0, expected - written);
+      out.set(literal, written);
+      written += literal.length;
+      position += header + 1;
+    } else if (header !== -128) {
+      const end = Math.min(expected, written + 1 - header);
+      out.fill(data[position++], written, end);
+      written = end;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * TIFF的LZW：高位在前，码长比GIF提前一个码字增长（early change）
+ */
+function lzwDecode(data: Uint8Array, expected: number): Uint8Array {
+  const out = new Uint8Array(expected);
+  const prefix = new Int16Array(4096);
+  const suffix = new Uint8Array(4096);
+  const first = new Uint8Array(4096);
+  const stack = new Uint8Array(4097);
+
+  for (let code = 0; code < 256; code++) {
+    prefix[code] = -1;
+    suffix[code] = code;
+    first[code] = code;
+  }
+
+  let codeSize = 9;
+  let next = 258;
+  let previous = -1;
+  let bitPosition = 0;
+  let written = 0;
+  const totalBits = data.length * 8;
+
+  while (written < expected && bitPosition + codeSize <= totalBits) {
+    const byte = bitPosition >> 3;
+    const window = (data[byte] << 16) | ((data[byte + 1] ?? 0) << 8) | (data[byte + 2] ?? 0);
+    const code = (window >> (24 - codeSize - (bitPosition & 7))) & ((1 << codeSize) - 1);
+    bitPosition += codeSize;
+
+    if (code === 256) {
+      codeSize = 9;
+      next = 258;
+      previous = -1;
+      continue;
+    }
+    if (code === 257) break;
+    if (code > next || (code === next && previous < 0)) break;
+
+    let top = 0;
+    let current = code;
+    if (code === next) {
+      stack[top++] = first[previous];
+      current = previous;
+    }
+    while (current >= 0) {
+      stack[top++] = suffix[current];
+      current = prefix[current];
+    }
+    const head = stack[top - 1];
+    while (top > 0 && written < expected) {
+      out[written++] = stack[--top];
+    }
+
+    if (previous >= 0 && next < 4096) {
+      prefix[next] = previous;
+      suffix[next] = head;
+      first[next] = first[previous];
+      next++;
+      if (next === (1 << codeSize) - 1 && codeSize < 12) codeSize++;
+    }
+    previous = code;
+  }
+
+  return out;
+}
+
+function lzwEncode(data: Uint8Array): Uint8Array {
+  let out = new Uint8Array(Math.max(64, data.length >> 1));
+  let length = 0;
+  let buffer = 0;
+  let bits = 0;
+  let codeSize = 9;
+  let next = 258;
+  const dictionary = new Map<number, number>();
+
+  const write = (code: number) => {
+    buffer = (buffer << codeSize) | code;
+    bits += codeSize;
+    while (bits >= 8) {
+      if (length === out.length) {
+        const grown = new Uint8Array(out.length * 2);
+        grown.set(out);
+        out = grown;
+      }
+      bits -= 8;
+      out[length++] = (buffer >>> bits) & 0xFF;
+    }
+    buffer &= (1 << bits) - 1;
+  };
+  const reset = () => {
+    dictionary.clear();
+    codeSize = 9;
+    next = 258;
+  };
+
+  write(256);
+  let prefix = data[0] ?? 0;
+  for (let i = 1; i < data.length; i++) {
+    const key = (prefix << 8) | data[i];
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    write(prefix);
+    dictionary.set(key, next++);
+    if (next === 4094) {
+      write(256);
+      reset();
+    } else if (next === 1 << codeSize) {
+      codeSize++;
+    }
+    prefix = data[i];
+  }
+
+  write(prefix);
+  // 解码端读到最后一个码字时仍会新增表项，EOI需按其码长写出
+  if (++next === 1 << codeSize && codeSize < 12) codeSize++;
+  write(257);
+  const result = new Uint8Array(length + (bits > 0 ? 1 : 0));
+  result.set(out.subarray(0, length));
+  if (bits > 0) result[length] = (buffer << (8 - bits)) & 0xFF; // 补齐最后一个字节
+  return result;
+}
+
+function undoPredictor(
+  data: Uint8Array,
+  rowBytes: number,
+  rows: number,
+  samples: number,
+  bits: number,
+  littleEndian: boolean
+): void {
+  if (bits === 8) {
+    for (let y = 0; y < rows; y++) {
+      const row = y * rowBytes;
+      for (let i = samples; i < rowBytes; i++) {
+        data[row + i] = (data[row + i] + data[row + i - samples]) & 0xFF;
+      }
+    }
+    return;
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  for (let y = 0; y < rows; y++) {
+    const row = y * rowBytes;
+    for (let i = samples * 2; i + 1 < rowBytes; i += 2) {
+      const value = view.getUint16(row + i, littleEndian) + view.getUint16(row + i - samples * 2, littleEndian);
+      view.setUint16(row + i, value & 0xFFFF, littleEndian);
+    }
+  }
+}
+
+// ---------- 像素转换 ----------
+
+function toRGBA(
+  raw: Uint8Array,
+  width: number,
+  height: number,
+  rowBytes: number,
+  format: { photometric: number; samples: number; bits: number; tags: Map<number, number[]>; littleEndian: boolean }
+): Uint8ClampedArray {
+  const { photometric, samples, bits, tags, littleEndian } = format;
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const max = (1 << bits) - 1;
+  const colorSamples = photometric === PHOTOMETRIC.rgb ? 3 : photometric === PHOTOMETRIC.cmyk ? 4 : 1;
+  const extra = tags.get(TAG.extraSamples)?.[0];
+  const alphaSample = samples > colorSamples && (extra === 1 || extra === 2) ? colorSamples : -1;
+  const premultiplied = extra === 1;
+  const colorMap = tags.get(TAG.colorMap);
+
+  if (photometric === PHOTOMETRIC.palette && !colorMap) {
+    throw new Error('调色板TIFF缺少ColorMap');
+  }
+  if (!(Object.values(PHOTOMETRIC) as number[]).includes(photometric) || samples < colorSamples) {
+    throw new Error(`不支持的TIFF色彩模式: ${photometric}`);
+  }
+
+  // 读取第n个样本值并缩放到0-255（调色板索引保留原值）
+  const sample = (row: number, index: number, scale: boolean): number => {
+    let value: number;
+    if (bits === 8) {
+      value = raw[row + index];
+    } else if (bits === 16) {
+      const position = row + index * 2;
+      value = littleEndian ? raw[position] | (raw[position + 1] << 8) : (raw[position] << 8) | raw[position + 1];
+      return scale ? value >> 8 : value;
+    } else {
+      const bit = index * bits;
+      value = (raw[row + (bit >> 3)] >> (8 - bits - (bit & 7))) & max;
+    }
+    return scale ? Math.round(value * 255 / max) : value;
+  };
+
+  for (let y = 0; y < height; y++) {
+    const row = y * rowBytes;
+    for (let x = 0; x < width; x++) {
+      const base = x * samples;
+      const out = (y * width + x) * 4;
+      let r: number, g: number, b: number;
+
+      switch (photometric) {
+        case PHOTOMETRIC.whiteIsZero:
+          r = g = b = 255 - sample(row, base, true);
+          break;
+        case PHOTOMETRIC.blackIsZero:
+          r = g = b = sample(row, base, true);
+          break;
+        case PHOTOMETRIC.palette: {
+          const index = sample(row, base, false);
+          const entries = colorMap!.length / 3;
+          r = colorMap![index] >> 8;
+          g = colorMap![entries + index] >> 8;
+          b = colorMap![entries * 2 + index] >> 8;
+          break;
+        }
+        case PHOTOMETRIC.cmyk: {
+          const k = 255 - sample(row, base + 3, true);
+          r = (255 - sample(row, base, true)) * k / 255;
+          g = (255 - sample(row, base + 1, true)) * k / 255;
+          b = (255 - sample(row, base + 2, true)) * k / 255;
+          break;
+        }
+        default:
+          r = sample(row, base, true);
+          g = sample(row, base + 1, true);
+          b = sample(row, base + 2, true);
+      }
+
+      const alpha = alphaSample >= 0 ? sample(row, base + alphaSample, true) : 255;
+      if (premultiplied && alpha > 0 && alpha < 255) {
+        r = r * 255 / alpha;
+        g = g * 255 / alpha;
+        b = b * 255 / alpha;
+      }
+      pixels[out] = r;
+      pixels[out + 1] = g;
+      pixels[out + 2] = b;
+      pixels[out + 3] = alpha;
+    }
+  }
+
+  return pixels;
+}
+
+function hasTransparency(pixels: Uint8ClampedArray): boolean {
+  for (let i = 3; i < pixels.length; i += 4) {
+    if (pixels[i] < 255) return true;
+  }
+  return false;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -0,0 +1,101 @@
+/**
+ * APNG编解码测试 - 单元测试
+ * 覆盖：动图识别、帧延时/循环/处置方式往返、fcTL/fdAT序号
+ */
+
+import { describe, it, expect } from 'vitest';
+import { APNGCodec, type PNGFrameDecoder } from '../APNGCodec';
+import { PNGChunks } from '../PNGChunks';
+import type { AnimatedImage, AnimationFrame, FrameDisposal } from '../AnimatedImage';
+
+// 1x1像素PNG
+const PIXEL_PNG = Uint8Array.from(
+  atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='),
+  char => char.charCodeAt(0)
+);
+
+/**
+ * 测试用解码：只支持编码器输出的8位RGBA、None/Sub滤波
+ */
+const decodeFrame: PNGFrameDecoder = async (png, width, height) => {
+  const chunks = PNGChunks.read(png);
+  const header = chunks.find(chunk => chunk.type === 'IHDR')!;
+  expect(new DataView(header.data.buffer, header.data.byteOffset).getUint32(0)).toBe(width);
+
+  const compressed = chunks.filter(chunk => chunk.type === 'IDAT').map(chunk => Array.from(chunk.data)).flat();
+  const raw = await PNGChunks.inflate(Uint8Array.from(compressed));
+  const stride = width * 4;
+  const pixels = new Uint8ClampedArray(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    for (let x = 0; x < stride; x++) {
+      const left = filter === 1 && x >= 4 ? pixels[y * stride + x - 4] : 0;
+      pixels[y * stride + x] = (raw[y * (stride + 1) + 1 + x] + left) & 0xFF;
+    }
+  }
+  return pixels;
+};
+
+function frame(
+  paint: (x: number, y: number) => [number, number, number, number],
+  delay: number,
+  disposal: FrameDisposal = 'none'
+): AnimationFrame {
+  const pixels = new Uint8ClampedArray(3 * 3 * 4);
+  for (let y = 0; y < 3; y++) {
+    for (let x = 0; x < 3; x++) {
+      pixels.set(paint(x, y), (y * 3 + x) * 4);
+    }
+  }
+  return { pixels, delay, disposal, rect: { x: 0, y: 0, width: 3, height: 3 } };
+}
+
+describe('APNGCodec', () => {
+  it('should only treat PNGs with an acTL chunk as animated', () => {
+    expect(APNGCodec.isAnimated(PIXEL_PNG)).toBe(false);
+    expect(APNGCodec.isAnimated(new Uint8Array(16))).toBe(false);
+  });
+
+  it('should round-trip frames with delays, disposal modes, loop count and partial alpha', async () => {
+    const background = (x: number): [number, number, number, number] => [0, 0, 200, x === 2 ? 128 : 255];
+    const animation: AnimatedImage = {
+      format: 'apng',
+      width: 3,
+      height: 3,
+      loopCount: 2,
+      frames: [
+        frame(background, 33),
+        {
+          ...frame((x, y) => x === 1 && y === 1 ? [255, 255, 0, 255] : background(x), 500, 'previous'),
+          rect: { x: 1, y: 1, width: 1, height: 1 }
+        },
+        frame((x, y) => y === 0 ? [0, 0, 0, 0] : background(x), 70000, 'background')
+      ]
+    };
+
+    const bytes = await APNGCodec.encode(animation);
+    expect(APNGCodec.isAnimated(bytes)).toBe(true);
+
+    const decoded = await APNGCodec.decode(bytes, decodeFrame);
+    expect(decoded).toMatchObject({ format: 'apng', width: 3, height: 3, loopCount: 2 });
+    expect(decoded.frames.map(item => item.delay)).toEqual([33, 500, 70000]);
+    expect(decoded.frames.map(item => item.disposal)).toEqual(['none', 'previous', 'background']);
+    decoded.frames.forEach((item, index) => {
+      expect(item.pixels).toEqual(animation.frames[index].pixels);
+    });
+    expect(decoded.frames[1].rect).toEqual({ x: 1, y: 1, width: 1, height: 1 });
+  });
+
+  it('should write fdAT sequence numbers after each fcTL', async () => {
+    const still = frame(() => [10, 20, 30, 255], 100);
+    const moved = frame((x, y) => x === 0 && y === 2 ? [1, 2, 3, 255] : [10, 20, 30, 255], 100);
+    const bytes = await APNGCodec.encode({ format: 'apng', width: 3, height: 3, loopCount: 0, frames: [still, moved, still] });
+
+    const sequence = PNGChunks.read(bytes)
+      .filter(chunk => chunk.type === 'fcTL' || chunk.type === 'fdAT')
+      .map(chunk => `${chunk.type}:${new DataView(chunk.data.buffer, chunk.data.byteOffset).getUint32(0)}`);
+
+    expect(sequence).toEqual(['fcTL:0', 'fcTL:1', 'fdAT:2', 'fcTL:3', 'fdAT:4']);
+    expect(PNGChunks.read(bytes).map(chunk => chunk.type).slice(0, 4)).toEqual(['IHDR', 'acTL', 'fcTL', 'IDAT']);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * 自适应编码器测试 - 单元测试
+ * 覆盖：直接满足预算、质量二分查找、缩小尺寸、格式回退、无法满足预算
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AdaptiveEncoder, type AdaptiveFormat, type ScaledEncoder } from '../AdaptiveEncoder';
+
+/**
+ * 模拟编码：大小与像素数和质量成正比，unsupported中的格式返回PNG（与浏览器行为一致）
+ */
+function createEncoder(bytesAtFullQuality: number, unsupported: AdaptiveFormat[] = []) {
+  const calls: Array<{ scale: number; format: AdaptiveFormat; quality: number }> = [];
+  const encoder: ScaledEncoder = async (scale, format, quality) => {
+    calls.push({ scale, format, quality });
+    const type = unsupported.includes(format) ? 'image/png' : `image/${format}`;
+    const size = Math.round(bytesAtFullQuality * scale * scale * (format === 'png' ? 2 : quality));
+    return new Blob([new Uint8Array(size)], { type });
+  };
+  return { encoder, calls };
+}
+
+describe('AdaptiveEncoder', () => {
+  it('should keep the requested quality when it already fits', async () => {
+    const { encoder, calls } = createEncoder(1000);
+
+    const result = await AdaptiveEncoder.encode(encoder, { maxFileSize: 2000, formats: ['jpeg'], maxQuality: 0.9 });
+
+    expect(result).toMatchObject({ format: 'jpeg', quality: 0.9, scale: 1, fits: true, attempts: 1 });
+    expect(calls).toHaveLength(1);
+  });
+
+  it('should search for the highest quality within the budget', async () => {
+    const { encoder } = createEncoder(1000);
+
+    const result = await AdaptiveEncoder.encode(encoder, { maxFileSize: 700, formats: ['jpeg'] });
+
+    expect(result.fits).toBe(true);
+    expect(result.scale).toBe(1);
+    expect(result.blob.size).toBeLessThanOrEqual(700);
+    expect(result.quality).toBeGreaterThan(0.65);
+    expect(result.quality).toBeLessThanOrEqual(0.7);
+  });
+
+  it('should downscale when the minimum quality is still too large', async () => {
+    const { encoder, calls } = createEncoder(10000);
+
+    const result = await AdaptiveEncoder.encode(encoder, { maxFileSize: 1000, formats: ['webp'], minQuality: 0.5 });
+
+    expect(result.fits).toBe(true);
+    expect(result.scale).toBeLessThan(1);
+    expect(result.blob.size).toBeLessThanOrEqual(1000);
+    expect(new Set(calls.map(call => call.scale)).size).toBeGreaterThan(1);
+  });
+
+  it('should fall back to the next format when the browser cannot encode one', async () => {
+    const { encoder } = createEncoder(1000, ['webp']);
+
+    const result = await AdaptiveEncoder.encode(encoder, { maxFileSize: 800, formats: ['webp', 'jpeg'] });
+
+    expect(result).toMatchObject({ format: 'jpeg', fits: true });
+  });
+
+  it('should return the smallest result when the budget cannot be met', async () => {
+    const { encoder } = createEncoder(100000);
+
+    const result = await AdaptiveEncoder.encode(encoder, { maxFileSize: 10, formats: ['jpeg'], minScale: 0.5 });
+
+    expect(result).toMatchObject({ fits: false, scale: 0.5, quality: AdaptiveEncoder.DEFAULT_MIN_QUALITY });
+    expect(result.blob.size).toBe(Math.round(100000 * 0.25 * AdaptiveEncoder.DEFAULT_MIN_QUALITY));
+  });
+});
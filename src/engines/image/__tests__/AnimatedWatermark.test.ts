@@ -0,0 +1,108 @@
+/**
+ * 动图水印测试 - 单元测试
+ * 覆盖：动图识别、GIF逐帧加水印并保留时序、滚动与弹跳偏移
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Blob as NodeBlob } from 'node:buffer';
+import { AnimatedWatermark } from '../AnimatedWatermark';
+import { GIFCodec } from '../GIFCodec';
+import type { AnimatedImage } from '../AnimatedImage';
+
+const WIDTH = 8;
+const HEIGHT = 6;
+
+function solidFrames(colors: Array<[number, number, number]>, delay: number): AnimatedImage {
+  return {
+    format: 'gif',
+    width: WIDTH,
+    height: HEIGHT,
+    loopCount: 0,
+    frames: colors.map(color => {
+      const pixels = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+      for (let i = 0; i < pixels.length; i += 4) pixels.set([...color, 255], i);
+      return { pixels, delay, disposal: 'none' as const, rect: { x: 0, y: 0, width: WIDTH, height: HEIGHT } };
+    })
+  };
+}
+
+/**
+ * 只有(1,1)一个白色不透明像素的水印层
+ */
+function dotOverlay(): ImageData {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  data.set([255, 255, 255, 255], (1 * WIDTH + 1) * 4);
+  return { width: WIDTH, height: HEIGHT, data, colorSpace: 'srgb' } as ImageData;
+}
+
+function whitePixels(pixels: Uint8ClampedArray): number[] {
+  const positions: number[] = [];
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i] === 255 && pixels[i + 1] === 255 && pixels[i + 2] === 255) positions.push(i / 4);
+  }
+  return positions;
+}
+
+describe('AnimatedWatermark', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Blob', NodeBlob);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should watermark every GIF frame and keep delays and loop count', async () => {
+    const source = GIFCodec.encode(solidFrames([[200, 0, 0], [0, 200, 0], [0, 0, 200]], 120));
+    expect(AnimatedWatermark.detect(source)).toBe('gif');
+    expect(AnimatedWatermark.readSize(source)).toEqual({ width: WIDTH, height: HEIGHT });
+
+    const result = await AnimatedWatermark.process(source, dotOverlay());
+
+    expect(result).toMatchObject({ format: 'gif', frameCount: 3, dimensions: { width: WIDTH, height: HEIGHT } });
+    expect(result.blob.type).toBe('image/gif');
+    const decoded = GIFCodec.decode(new Uint8Array(await result.blob.arrayBuffer()));
+    expect(decoded.loopCount).toBe(0);
+    expect(decoded.frames.map(frame => frame.delay)).toEqual([120, 120, 120]);
+    decoded.frames.forEach(frame => {
+      expect(whitePixels(frame.pixels)).toEqual([1 * WIDTH + 1]);
+    });
+  });
+
+  it('should not treat still images as animations', async () => {
+    const still = GIFCodec.encode(solidFrames([[1, 2, 3]], 0));
+
+    expect(AnimatedWatermark.detect(still)).toBeNull();
+    await expect(AnimatedWatermark.process(still, dotOverlay())).rejects.toThrow('不是动图文件');
+  });
+
+  it('should scroll the watermark over time and wrap around the canvas', () => {
+    const animation = solidFrames([[0, 0, 0], [0, 0, 0], [0, 0, 0]], 500);
+
+    AnimatedWatermark.composite(animation, dotOverlay().data, { preserve: true, motion: 'scroll', speed: 10 });
+
+    // 每秒向右10像素、向下5像素；第三帧x=1+10回绕为3，y=1+5回绕为0
+    expect(animation.frames.map(frame => whitePixels(frame.pixels))).toEqual([
+      [1 * WIDTH + 1],
+      [4 * WIDTH + 6],
+      [0 * WIDTH + 3]
+    ]);
+  });
+
+  it('should keep a bouncing watermark inside the canvas', () => {
+    const bounds = { x: 1, y: 1, width: 1, height: 1 };
+    const config = { preserve: true, motion: 'bounce' as const, speed: 10 };
+
+    for (let second = 0; second < 10; second += 0.25) {
+      const { x, y } = AnimatedWatermark.offsetAt(second, config, bounds, WIDTH, HEIGHT);
+      expect(1 + x).toBeGreaterThanOrEqual(0);
+      expect(1 + x).toBeLessThan(WIDTH);
+      expect(1 + y).toBeGreaterThanOrEqual(0);
+      expect(1 + y).toBeLessThan(HEIGHT);
+    }
+    expect(AnimatedWatermark.offsetAt(0, config, bounds, WIDTH, HEIGHT)).toEqual({ x: 0, y: 0 });
+    // 到达右边缘后折返
+    expect(AnimatedWatermark.offsetAt(0.6, config, bounds, WIDTH, HEIGHT).x).toBe(6);
+    expect(AnimatedWatermark.offsetAt(0.8, config, bounds, WIDTH, HEIGHT).x).toBe(4);
+  });
+});
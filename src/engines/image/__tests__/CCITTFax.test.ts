@@ -0,0 +1,51 @@
+/**
+ * CCITT G4解码测试 - 单元测试
+ * 覆盖：水平/垂直模式、组合码、EOFB结束、FillOrder位序反转
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CCITTFax } from '../CCITTFax';
+
+const EOFB = '000000000001000000000001';
+
+function toBytes(bits: string, reverse = false): Uint8Array {
+  const bytes = new Uint8Array(Math.ceil(bits.length / 8));
+  for (let i = 0; i < bits.length; i++) {
+    if (bits[i] === '1') {
+      bytes[i >> 3] |= reverse ? 1 << (i & 7) : 0x80 >> (i & 7);
+    }
+  }
+  return bytes;
+}
+
+describe('CCITTFax', () => {
+  it('should decode horizontal and vertical modes against the reference line', () => {
+    // 第一行：H 白2 黑3，V0到行尾；第二行与参考行相同：三个V0
+    const data = toBytes('001' + '0111' + '10' + '1' + '111' + EOFB);
+
+    const rows = CCITTFax.decodeG4(data, 8, 2);
+
+    expect(Array.from(rows)).toEqual([0b00111000, 0b00111000]);
+  });
+
+  it('should combine makeup and terminating codes for long runs', () => {
+    // 白70 = 组合码64 + 终止码6，黑30
+    const data = toBytes('001' + '11011' + '1110' + '000001101001' + EOFB);
+
+    const row = CCITTFax.decodeG4(data, 100, 1);
+
+    const black = Array.from({ length: 100 }, (_, x) => (row[x >> 3] >> (7 - (x & 7))) & 1);
+    expect(black.indexOf(1)).toBe(70);
+    expect(black.lastIndexOf(0)).toBe(69);
+    expect(black.filter(Boolean)).toHaveLength(30);
+  });
+
+  it('should honour reversed bit order and stop at EOFB', () => {
+    const data = toBytes('001' + '0111' + '10' + '1' + EOFB, true);
+
+    const rows = CCITTFax.decodeG4(data, 8, 3, { reverseBits: true });
+
+    expect(Array.from(rows)).toEqual([0b00111000, 0, 0]);
+    expect(() => CCITTFax.decodeG4(new Uint8Array(1), 8, 1)).toThrow('CCITT');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * GIF编解码测试 - 单元测试
+ * 覆盖：外部GIF解码、帧延时/循环/处置方式往返、LZW码表重置、超过256色的量化
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GIFCodec } from '../GIFCodec';
+import type { AnimatedImage, AnimationFrame, FrameDisposal } from '../AnimatedImage';
+
+// 1x1透明GIF
+const PIXEL_GIF = Uint8Array.from(
+  atob('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'),
+  char => char.charCodeAt(0)
+);
+
+function frame(
+  width: number,
+  height: number,
+  paint: (x: number, y: number) => [number, number, number, number],
+  delay = 100,
+  disposal: FrameDisposal = 'none'
+): AnimationFrame {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixels.set(paint(x, y), (y * width + x) * 4);
+    }
+  }
+  return { pixels, delay, disposal, rect: { x: 0, y: 0, width, height } };
+}
+
+describe('GIFCodec', () => {
+  it('should decode a single-frame GIF produced by another encoder', () => {
+    expect(GIFCodec.isGIF(PIXEL_GIF)).toBe(true);
+    expect(GIFCodec.isAnimated(PIXEL_GIF)).toBe(false);
+
+    const image = GIFCodec.decode(PIXEL_GIF);
+
+    expect(image).toMatchObject({ format: 'gif', width: 1, height: 1, loopCount: 1 });
+    expect(image.frames).toHaveLength(1);
+    expect(Array.from(image.frames[0].pixels)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('should round-trip frames with delays, disposal modes and loop count', () => {
+    const red = (x: number): [number, number, number, number] => x < 2 ? [255, 0, 0, 255] : [0, 0, 0, 0];
+    const animation: AnimatedImage = {
+      format: 'gif',
+      width: 4,
+      height: 4,
+      loopCount: 3,
+      frames: [
+        frame(4, 4, x => red(x), 100),
+        // 右下角临时出现蓝点，显示后清除
+        { ...frame(4, 4, (x, y) => x === 3 && y === 3 ? [0, 0, 255, 255] : red(x), 250, 'background'), rect: { x: 3, y: 3, width: 1, height: 1 } },
+        frame(4, 4, (x, y) => x === 0 && y === 0 ? [0, 255, 0, 255] : red(x), 40, 'previous')
+      ]
+    };
+
+    const bytes = GIFCodec.encode(animation);
+    expect(GIFCodec.isAnimated(bytes)).toBe(true);
+
+    const decoded = GIFCodec.decode(bytes);
+    expect(decoded).toMatchObject({ width: 4, height: 4, loopCount: 3 });
+    expect(decoded.frames.map(item => item.delay)).toEqual([100, 250, 40]);
+    expect(decoded.frames.map(item => item.disposal)).toEqual(['none', 'background', 'previous']);
+    decoded.frames.forEach((item, index) => {
+      expect(Array.from(item.pixels)).toEqual(Array.from(animation.frames[index].pixels));
+    });
+    // 第二帧只写入变化的像素
+    expect(decoded.frames[1].rect).toEqual({ x: 3, y: 3, width: 1, height: 1 });
+  });
+
+  it('should keep infinite looping and survive LZW table resets', () => {
+    const noise = (x: number, y: number): [number, number, number, number] => {
+      const value = (x * 7919 + y * 104729) % 200;
+      return [value, 255 - value, (value * 3) & 0xFF, 255];
+    };
+    const animation: AnimatedImage = {
+      format: 'gif',
+      width: 120,
+      height: 100,
+      loopCount: 0,
+      frames: [frame(120, 100, noise), frame(120, 100, (x, y) => noise(y, x))]
+    };
+
+    const decoded = GIFCodec.decode(GIFCodec.encode(animation));
+
+    expect(decoded.loopCount).toBe(0);
+    decoded.frames.forEach((item, index) => {
+      expect(item.pixels).toEqual(animation.frames[index].pixels);
+    });
+  });
+
+  it('should quantise frames with more than 256 colours', () => {
+    const gradient = frame(64, 64, (x, y) => [x * 4, y * 4, 128, 255]);
+    const decoded = GIFCodec.decode(GIFCodec.encode({ format: 'gif', width: 64, height: 64, loopCount: 0, frames: [gradient, gradient] }));
+
+    const pixels = decoded.frames[0].pixels;
+    let error = 0;
+    for (let i = 0; i < pixels.length; i += 4) {
+      error += Math.abs(pixels[i] - gradient.pixels[i]) + Math.abs(pixels[i + 1] - gradient.pixels[i + 1]);
+      expect(pixels[i + 3]).toBe(255);
+    }
+    expect(error / (pixels.length / 2)).toBeLessThan(8);
+  });
+});
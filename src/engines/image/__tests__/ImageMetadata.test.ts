@@ -0,0 +1,186 @@
+/**
+ * 图片元数据测试 - 单元测试
+ * 覆盖：JPEG元数据解析、方向重置与去除个人信息、JPEG/PNG/WebP写回
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Blob as NodeBlob } from 'node:buffer';
+import { ImageMetadata } from '../ImageMetadata';
+
+// 1x1像素PNG
+const PIXEL_PNG = Uint8Array.from(
+  atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='),
+  char => char.charCodeAt(0)
+);
+
+const XMP = '<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF><rdf:Description tiff:Orientation="6" ' +
+  'exif:GPSLatitude="31,14.0N"><dc:rights>ACME</dc:rights><dc:creator><rdf:Seq><rdf:li>Alice</rdf:li>' +
+  '</rdf:Seq></dc:creator></rdf:Description></rdf:RDF></x:xmpmeta>';
+
+const ascii = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+/**
+ * 小端TIFF：IFD0（方向6、作者、版权、Exif/GPS指针）→ Exif IFD（机身序列号、MakerNote）→ GPS IFD，另有缩略图IFD1
+ */
+function buildExif(): Uint8Array {
+  const bytes = new Uint8Array(256);
+  const view = new DataView(bytes.buffer);
+  let data = 160;
+  const text = (value: string) => {
+    const offset = data;
+    bytes.set(ascii(`${value}\0`), offset);
+    data += value.length + 1;
+    return offset;
+  };
+  const ifd = (offset: number, entries: Array<[number, number, number, number]>, next = 0) => {
+    view.setUint16(offset, entries.length, true);
+    entries.forEach(([tag, type, count, value], index) => {
+      const position = offset + 2 + index * 12;
+      view.setUint16(position, tag, true);
+      view.setUint16(position + 2, type, true);
+      view.setUint32(position + 4, count, true);
+      if (type === 3) view.setUint16(position + 8, value, true);
+      else view.setUint32(position + 8, value, true);
+    });
+    view.setUint32(offset + 2 + entries.length * 12, next, true);
+  };
+
+  bytes.set([0x49, 0x49, 0x2A, 0, 8, 0, 0, 0]);
+  ifd(8, [
+    [0x0112, 3, 1, 6],
+    [0x013B, 2, 12, text('Alice Smith')],
+    [0x8298, 2, 9, text('(c) ACME')],
+    [0x8769, 4, 1, 74],
+    [0x8825, 4, 1, 104]
+  ], 122);
+  ifd(74, [[0xA431, 2, 8, text('SN12345')], [0x927C, 7, 4, 0x01020304]]);
+  ifd(104, [[0x0001, 2, 2, 0x4E]]);
+  ifd(122, [[0x0201, 4, 1, 200], [0x0202, 4, 1, 10]]);
+
+  return bytes.slice(0, data);
+}
+
+function segment(marker: number, payload: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(4 + payload.length);
+  bytes.set([0xFF, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xFF]);
+  bytes.set(payload, 4);
+  return bytes;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  parts.reduce((offset, part) => (result.set(part, offset), offset + part.length), 0);
+  return result;
+}
+
+const JFIF = segment(0xE0, ascii('JFIF\0\x01\x01\0\0\x01\0\x01\0\0'));
+const SOS_EOI = Uint8Array.of(0xFF, 0xDA, 0x00, 0x02, 0x00, 0xFF, 0xD9);
+
+async function blobBytes(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+describe('ImageMetadata', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Blob', NodeBlob);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should read EXIF orientation, XMP and a multi-segment ICC profile from JPEG', async () => {
+    const jpeg = concat([
+      Uint8Array.of(0xFF, 0xD8),
+      JFIF,
+      segment(0xE1, concat([ascii('Exif\0\0'), buildExif()])),
+      segment(0xE1, concat([ascii('http://ns.adobe.com/xap/1.0/\0'), ascii(XMP)])),
+      // 故意乱序，按序号拼接
+      segment(0xE2, concat([ascii('ICC_PROFILE\0'), Uint8Array.of(2, 2), ascii('-part2')])),
+      segment(0xE2, concat([ascii('ICC_PROFILE\0'), Uint8Array.of(1, 2), ascii('part1')])),
+      SOS_EOI
+    ]);
+
+    const metadata = await ImageMetadata.read(jpeg);
+
+    expect(metadata.format).toBe('jpeg');
+    expect(metadata.orientation).toBe(6);
+    expect(metadata.xmp).toBe(XMP);
+    expect(new TextDecoder().decode(metadata.icc)).toBe('part1-part2');
+    expect(ImageMetadata.getOrientedSize(400, 300, metadata.orientation)).toEqual({ width: 300, height: 400 });
+  });
+
+  it('should reset orientation and drop thumbnail and MakerNote while keeping other EXIF', async () => {
+    const selected = ImageMetadata.select({ format: 'jpeg', exif: buildExif(), xmp: XMP, orientation: 6 });
+    const tags = ImageMetadata.readExifTags(selected.exif!);
+
+    expect(tags).toEqual(expect.arrayContaining([
+      { ifd: 'ifd0', tag: 0x013B },
+      { ifd: 'ifd0', tag: 0x8298 },
+      { ifd: 'exif', tag: 0xA431 },
+      { ifd: 'gps', tag: 0x0001 }
+    ]));
+    expect(tags.some(entry => entry.tag === 0x927C || entry.tag === 0x0201)).toBe(false);
+    expect(selected.xmp).toContain('tiff:Orientation="1"');
+
+    // 写回后重新读取，方向已为1
+    const jpeg = await ImageMetadata.write(new Blob([concat([Uint8Array.of(0xFF, 0xD8), SOS_EOI]) as BlobPart]), selected);
+    expect((await ImageMetadata.read(await blobBytes(jpeg))).orientation).toBe(1);
+  });
+
+  it('should strip GPS and personal information when requested', () => {
+    const selected = ImageMetadata.select(
+      { format: 'jpeg', exif: buildExif(), xmp: XMP, orientation: 6 },
+      { exif: true, xmp: true, icc: true, stripPrivate: true }
+    );
+    const tags = ImageMetadata.readExifTags(selected.exif!);
+    const text = new TextDecoder('latin1').decode(selected.exif);
+
+    expect(tags.map(entry => entry.tag)).toEqual([0x0112, 0x8298]);
+    expect(text).not.toContain('Alice');
+    expect(text).not.toContain('SN12345');
+    expect(text).toContain('(c) ACME');
+    expect(selected.xmp).not.toContain('GPSLatitude');
+    expect(selected.xmp).not.toContain('Alice');
+    expect(selected.xmp).toContain('<dc:rights>ACME</dc:rights>');
+  });
+
+  it('should inject metadata into JPEG after JFIF and split large ICC profiles', async () => {
+    const icc = new Uint8Array(70000).map((_, index) => index % 251);
+    const output = await blobBytes(await ImageMetadata.write(
+      new Blob([concat([Uint8Array.of(0xFF, 0xD8), JFIF, SOS_EOI]) as BlobPart], { type: 'image/jpeg' }),
+      { format: 'jpeg', exif: buildExif(), icc, orientation: 1 }
+    ));
+
+    expect(Array.from(output.subarray(0, 4))).toEqual([0xFF, 0xD8, 0xFF, 0xE0]);
+    expect(output[2 + JFIF.length + 1]).toBe(0xE1);
+
+    const metadata = await ImageMetadata.read(output);
+    expect(metadata.icc).toEqual(icc);
+    expect(metadata.exif).toEqual(buildExif());
+  });
+
+  it('should round-trip metadata through PNG and WebP outputs', async () => {
+    const metadata = { format: 'jpeg' as const, exif: buildExif(), xmp: XMP, icc: ascii('icc-profile'), orientation: 1 };
+
+    const png = await blobBytes(await ImageMetadata.write(new Blob([PIXEL_PNG], { type: 'image/png' }), metadata));
+    const fromPng = await ImageMetadata.read(png);
+    expect(fromPng).toMatchObject({ format: 'png', xmp: XMP, orientation: 6 });
+    expect(fromPng.exif).toEqual(metadata.exif);
+    expect(fromPng.icc).toEqual(metadata.icc);
+    // 元数据块位于IHDR之后、IDAT之前
+    const text = new TextDecoder('latin1').decode(png);
+    expect(text.indexOf('iCCP')).toBeLessThan(text.indexOf('IDAT'));
+
+    // 简单格式WebP（VP8L，5x3，含透明度）转为扩展格式
+    const vp8l = Uint8Array.of(0x2F, 4, 0x80, 0x00, 0x10, 0x00);
+    const webp = concat([ascii('RIFF'), Uint8Array.of(18, 0, 0, 0), ascii('WEBPVP8L'), Uint8Array.of(6, 0, 0, 0), vp8l]);
+    const output = await blobBytes(await ImageMetadata.write(new Blob([webp as BlobPart], { type: 'image/webp' }), metadata));
+
+    expect(new TextDecoder('latin1').decode(output.subarray(12, 16))).toBe('VP8X');
+    expect(output[20]).toBe(0x20 | 0x10 | 0x08 | 0x04);
+    expect(Array.from(output.subarray(24, 30))).toEqual([4, 0, 0, 2, 0, 0]);
+    expect(new DataView(output.buffer).getUint32(4, true)).toBe(output.length - 8);
+    expect(await ImageMetadata.read(output)).toMatchObject({ format: 'webp', xmp: XMP, icc: metadata.icc, exif: metadata.exif });
+  });
+});
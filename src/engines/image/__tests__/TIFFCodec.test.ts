@@ -0,0 +1,152 @@
+/**
+ * TIFF编解码测试 - 单元测试
+ * 覆盖：大小端无压缩、PackBits、LZW（规范示例）、调色板、G4、多页编码往返
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TIFFCodec, type TIFFPage } from '../TIFFCodec';
+
+type Entry = [tag: number, type: number, values: number[]];
+
+/**
+ * 手工构造单页TIFF：条带数据紧跟文件头，IFD在其后
+ */
+function buildTiff(entries: Entry[], data: number[], littleEndian = true): Uint8Array {
+  const dataLength = data.length + (data.length & 1);
+  const ifd = 8 + dataLength;
+  const all: Entry[] = [...entries, [273, 4, [8]], [279, 4, [data.length]]];
+  all.sort((a, b) => a[0] - b[0]);
+  const sizes = all.map(([, type, values]) => (type === 3 ? 2 : 4) * values.length);
+  const extra = sizes.reduce((total, size) => total + (size > 4 ? size : 0), 0);
+  const bytes = new Uint8Array(ifd + 2 + all.length * 12 + 4 + extra);
+  const view = new DataView(bytes.buffer);
+  let extraOffset = ifd + 2 + all.length * 12 + 4;
+
+  bytes.set(littleEndian ? [0x49, 0x49] : [0x4D, 0x4D]);
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, ifd, littleEndian);
+  bytes.set(data, 8);
+  view.setUint16(ifd, all.length, littleEndian);
+  all.forEach(([tag, type, values], index) => {
+    const entry = ifd + 2 + index * 12;
+    view.setUint16(entry, tag, littleEndian);
+    view.setUint16(entry + 2, type, littleEndian);
+    view.setUint32(entry + 4, type === 5 ? values.length / 2 : values.length, littleEndian);
+    let position = entry + 8;
+    if (sizes[index] > 4) {
+      view.setUint32(entry + 8, extraOffset, littleEndian);
+      position = extraOffset;
+      extraOffset += sizes[index];
+    }
+    values.forEach((value, i) => {
+      if (type === 3) view.setUint16(position + i * 2, value, littleEndian);
+      else view.setUint32(position + i * 4, value, littleEndian);
+    });
+  });
+  return bytes;
+}
+
+function packCodes(codes: number[], size = 9): number[] {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const code of codes) {
+    buffer = (buffer << size) | code;
+    bits += size;
+    while (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xFF);
+    }
+  }
+  if (bits > 0) bytes.push((buffer << (8 - bits)) & 0xFF);
+  return bytes;
+}
+
+// TIFF 6.0规范中的LZW示例：7 7 7 8 8 7 7 6 6
+const SPEC_CODES = [256, 7, 258, 8, 8, 258, 6, 6, 257];
+
+function rgb(pixels: Uint8ClampedArray): number[][] {
+  const result: number[][] = [];
+  for (let i = 0; i < pixels.length; i += 4) result.push([pixels[i], pixels[i + 1], pixels[i + 2], pixels[i + 3]]);
+  return result;
+}
+
+describe('TIFFCodec', () => {
+  it('should decode uncompressed big-endian RGB with resolution', () => {
+    const bytes = buildTiff([
+      [256, 3, [2]], [257, 3, [1]], [258, 3, [8, 8, 8]], [259, 3, [1]], [262, 3, [2]],
+      [277, 3, [3]], [278, 3, [1]], [282, 5, [300, 1]], [283, 5, [600, 1]], [296, 3, [2]]
+    ], [255, 0, 0, 0, 0, 255], false);
+
+    expect(TIFFCodec.isTIFF(bytes)).toBe(true);
+    const [page] = TIFFCodec.decode(bytes);
+
+    expect(page).toMatchObject({ width: 2, height: 1, dpi: { x: 300, y: 600 } });
+    expect(rgb(page.pixels)).toEqual([[255, 0, 0, 255], [0, 0, 255, 255]]);
+  });
+
+  it('should decode PackBits greyscale and LZW palette images', () => {
+    const packBits = buildTiff([
+      [256, 3, [6]], [257, 3, [1]], [258, 3, [8]], [259, 3, [32773]], [262, 3, [1]]
+    ], [0xFD, 0x80, 0x01, 0x10, 0x20]);
+    expect(rgb(TIFFCodec.decode(packBits)[0].pixels).map(pixel => pixel[0])).toEqual([128, 128, 128, 128, 16, 32]);
+
+    const colorMap = new Array(256 * 3).fill(0);
+    colorMap[6] = 0xFFFF; // 索引6为红色
+    colorMap[256 + 7] = 0xFFFF; // 索引7为绿色
+    colorMap[512 + 8] = 0xFFFF; // 索引8为蓝色
+    const lzw = buildTiff([
+      [256, 3, [9]], [257, 3, [1]], [258, 3, [8]], [259, 3, [5]], [262, 3, [3]], [320, 3, colorMap]
+    ], packCodes(SPEC_CODES));
+
+    const pixels = rgb(TIFFCodec.decode(lzw)[0].pixels);
+    expect(pixels.map(pixel => pixel.slice(0, 3).indexOf(255))).toEqual([1, 1, 1, 2, 2, 1, 1, 0, 0]);
+  });
+
+  it('should decode CCITT G4 bilevel pages as black on white', () => {
+    const bits = '001' + '0111' + '10' + '1' + '000000000001000000000001';
+    const data = Array.from({ length: Math.ceil(bits.length / 8) }, (_, i) => parseInt(bits.slice(i * 8, i * 8 + 8).padEnd(8, '0'), 2));
+    const bytes = buildTiff([
+      [256, 3, [8]], [257, 3, [1]], [258, 3, [1]], [259, 3, [4]], [262, 3, [0]]
+    ], data);
+
+    const [page] = TIFFCodec.decode(bytes);
+
+    expect(rgb(page.pixels).map(pixel => pixel[0])).toEqual([255, 255, 0, 0, 0, 255, 255, 255]);
+    expect(() => TIFFCodec.decode(buildTiff([[256, 3, [1]], [257, 3, [1]], [259, 3, [7]]], [0]))).toThrow('不支持的TIFF压缩方式');
+  });
+
+  it('should encode LZW strips exactly as the specification example', () => {
+    const pixels = new Uint8ClampedArray([7, 7, 7, 255, 8, 8, 7, 255, 7, 6, 6, 255]);
+    const bytes = TIFFCodec.encode([{ width: 3, height: 1, pixels, dpi: { x: 72, y: 72 } }]);
+
+    const [info] = TIFFCodec.readPages(bytes);
+    const offset = info.tags.get(273)![0];
+    const count = info.tags.get(279)![0];
+    expect(Array.from(bytes.subarray(offset, offset + count))).toEqual(packCodes(SPEC_CODES));
+  });
+
+  it('should round-trip multi-page images with alpha and LZW table resets', () => {
+    const page = (width: number, height: number, paint: (x: number, y: number) => number[]): TIFFPage => {
+      const pixels = new Uint8ClampedArray(width * height * 4);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) pixels.set(paint(x, y), (y * width + x) * 4);
+      }
+      return { width, height, pixels, dpi: { x: 150, y: 150 } };
+    };
+    const pages = [
+      page(160, 120, (x, y) => [(x * 7919 + y * 104729) % 251, (x * 31) & 0xFF, (y * 17) & 0xFF, 255]),
+      page(3, 2, x => [10, 20, 30, x === 0 ? 0 : 200])
+    ];
+
+    const bytes = TIFFCodec.encode(pages);
+    const decoded = TIFFCodec.decode(bytes);
+
+    expect(TIFFCodec.readPages(bytes).map(info => info.tags.get(297))).toEqual([[0, 2], [1, 2]]);
+    expect(decoded).toHaveLength(2);
+    decoded.forEach((item, index) => {
+      expect(item).toMatchObject({ width: pages[index].width, height: pages[index].height, dpi: { x: 150, y: 150 } });
+      expect(item.pixels).toEqual(pages[index].pixels);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * PDF栅格化（扁平化） - 将已加水印的页面渲染为图片后重建PDF
+ * 水印与正文合为同一张图片，无法在PDF编辑器中单独删除；可保留不可见文字层供搜索和复制
+ */
+
+import {
+  PDFDocument,
+  TextRenderingMode,
+  beginText,
+  endText,
+  popGraphicsState,
+  pushGraphicsState,
+  setFontAndSize,
+  setTextMatrix,
+  setTextRenderingMode,
+  setCharacterSqueeze,
+  showText,
+  type PDFFont,
+  type PDFPage
+} from 'pdf-lib';
+import { PDFPageRenderer, type PDFPageSnapshot, type PDFSnapshotOptions, type PDFTextItem } from './PDFPageRenderer';
+import { PDFImageWatermark } from './PDFImageWatermark';
+import { ChineseFontLoader } from '../../utils/fonts/ChineseFontLoader';
+import type { FlattenConfig } from '../../types/watermark.types';
+
+export type PageSnapshotter = (
+  bytes: Uint8Array,
+  options: PDFSnapshotOptions,
+  onPage: (snapshot: PDFPageSnapshot) => Promise<void>
+) => Promise<number>;
+
+export interface PDFFlattenOptions {
+  snapshotter?: PageSnapshotter;      // 默认使用PDF.js渲染
+}
+
+export interface PDFFlattenResult {
+  bytes: Uint8Array;
+  pageCount: number;
+  textItemCount: number;
+  dpi: number;
+}
+
+export const FLATTEN_PRESETS: Record<Exclude<FlattenConfig['preset'], 'custom'>, { dpi: number; quality: number; label: string }> = {
+  screen: { dpi: 96, quality: 0.6, label: '屏幕阅读（体积小）' },
+  standard: { dpi: 150, quality: 0.8, label: '标准' },
+  print: { dpi: 300, quality: 0.92, label: '打印（体积大）' }
+};
+
+export class PDFFlattener {
+  /**
+   * 按预设或自定义参数得到渲染DPI与JPEG质量
+   */
+  static resolveQuality(config: FlattenConfig): { dpi: number; quality: number } {
+    if (config.preset !== 'custom') {
+      const { dpi, quality } = FLATTEN_PRESETS[config.preset];
+      return { dpi, quality };
+    }
+    return {
+      dpi: Math.min(600, Math.max(36, config.dpi || FLATTEN_PRESETS.standard.dpi)),
+      quality: Math.min(1, Math.max(0.1, config.quality || FLATTEN_PRESETS.standard.quality))
+    };
+  }
+
+  /**
+   * 栅格化PDF，每页一张图片，页面尺寸与原文档一致
+   */
+  static async flatten(
+    source: Uint8Array,
+    config: FlattenConfig,
+    options: PDFFlattenOptions = {}
+  ): Promise<PDFFlattenResult> {
+    const { dpi, quality } = this.resolveQuality(config);
+    const snapshotter = options.snapshotter || PDFPageRenderer.snapshotPages.bind(PDFPageRenderer);
+    const output = await PDFDocument.create();
+    const pages: Array<{ page: PDFPage; textItems: PDFTextItem[] }> = [];
+
+    const pageCount = await snapshotter(
+      source,
+      { scale: dpi / 72, type: 'image/jpeg', quality, includeText: config.keepTextLayer },
+      async snapshot => {
+        const bytes = new Uint8Array(await snapshot.image.arrayBuffer());
+        const image = PDFImageWatermark.detectFormat(bytes, snapshot.image.type) === 'png'
+          ? await output.embedPng(bytes)
+          : await output.embedJpg(bytes);
+
+        const page = output.addPage([snapshot.width, snapshot.height]);
+        page.drawImage(image, { x: 0, y: 0, width: snapshot.width, height: snapshot.height });
+        pages.push({ page, textItems: snapshot.textItems || [] });
+      }
+    );
+
+    // 文字层在全部页面渲染后统一添加，字体需覆盖所有页面的字符
+    let textItemCount = 0;
+    const allText = pages.flatMap(entry => entry.textItems.map(item => item.text)).join('');
+    if (config.keepTextLayer && allText) {
+      const font = await ChineseFontLoader.createPDFFont(output, allText);
+      if (font) {
+        for (const { page, textItems } of pages) {
+          textItemCount += this.addInvisibleText(page, font, textItems);
+        }
+      } else {
+        console.warn('⚠️ 文字层字体加载失败，输出不含可搜索文字');
+      }
+    }
+
+    console.log('🧱 PDF栅格化完成:', { pageCount, dpi, quality, textItemCount });
+
+    return {
+      bytes: await output.save({ useObjectStreams: false }),
+      pageCount,
+      textItemCount,
+      dpi
+    };
+  }
+
+  /**
+   * 以不可见渲染模式写入文字，位置和宽度与原文字对齐，返回写入的条数
+   */
+  private static addInvisibleText(page: PDFPage, font: PDFFont, items: PDFTextItem[]): number {
+    const fontKey = page.node.newFontDictionary(font.name, font.ref);
+    let count = 0;
+
+    for (const item of items) {
+      const [a, b, c, d, e, f] = item.transform;
+      const size = Math.hypot(a, b);
+      if (!size) continue;
+
+      let encoded;
+      try {
+        encoded = font.encodeText(item.text);
+      } catch {
+        // 字体无法编码的字符（如缺少中文字体时）跳过
+        continue;
+      }
+
+      // 按原宽度横向缩放，选中文字时的高亮框与图片上的文字重合
+      const naturalWidth = font.widthOfTextAtSize(item.text, size);
+      const squeeze = naturalWidth > 0 && item.width > 0 ? (item.width / naturalWidth) * 100 : 100;
+
+      page.pushOperators(
+        pushGraphicsState(),
+        beginText(),
+        setFontAndSize(fontKey, size),
+        setTextRenderingMode(TextRenderingMode.Invisible),
+        setCharacterSqueeze(squeeze),
+        setTextMatrix(a / size, b / size, c / size, d / size, e, f),
+        showText(encoded),
+        endText(),
+        popGraphicsState()
+      );
+      count++;
+    }
+
+    return count;
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * PDF图片水印工具 - Logo嵌入与绘制
+ * 图片只嵌入一次（单个Image XObject），所有页面通过引用复用，文件体积不随页数增长
+ */
+
+import { degrees, type PDFDocument, type PDFImage, type PDFPage } from 'pdf-lib';
+import { PDFWatermarkMerger } from './PDFWatermarkMerger';
+
+export type PDFImageWatermarkSource = Blob | ArrayBuffer | Uint8Array | ImageData;
+
+export interface PDFImageWatermarkOptions {
+  source: PDFImageWatermarkSource;
+  width?: number; // 目标宽度（PDF点），未设置时按页面宽度的25%计算
+  height?: number; // 目标高度（PDF点）
+  preserveAspectRatio?: boolean;
+  scale?: number;
+  withText?: boolean; // 混合水印：Logo下方同时绘制文字
+}
+
+export interface EmbeddedWatermarkImage {
+  image: PDFImage;
+  format: 'png' | 'jpeg';
+  width: number;
+  height: number;
+}
+
+export interface ImageDrawOptions {
+  width: number;
+  height: number;
+  opacity: number;
+  rotation?: number; // 角度，逆时针
+}
+
+export class PDFImageWatermark {
+
+  /**
+   * 检测图片格式（基于文件头）
+   */
+  static detectFormat(bytes: Uint8Array, mimeType?: string): 'png' | 'jpeg' | 'svg' | 'unknown' {
+    if (bytes.length >= 8 &&
+        bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4E && bytes[3] === 0x47) {
+      return 'png';
+    }
+    if (bytes.length >= 3 && bytes[0] === 0xFF && bytes[1] === 0xD8 && bytes[2] === 0xFF) {
+      return 'jpeg';
+    }
+    if (mimeType === 'image/svg+xml') {
+      return 'svg';
+    }
+
+    // SVG为文本格式，检查开头是否为XML/SVG标签
+    const head = new TextDecoder().decode(bytes.subarray(0, 256)).trimStart();
+    if (head.startsWith('<svg') || (head.startsWith('<?xml') && head.includes('<svg'))) {
+      return 'svg';
+    }
+
+    return 'unknown';
+  }
+
+  /**
+   * 将图片嵌入PDF文档（整个文档只调用一次）
+   */
+  static async embed(pdfDoc: Pick<PDFDocument, 'embedPng' | 'embedJpg'>, source: PDFImageWatermarkSource): Promise<EmbeddedWatermarkImage> {
+    const mimeType = source instanceof Blob ? source.type : undefined;
+    let bytes = await this.toUint8Array(source);
+    let format = this.detectFormat(bytes, mimeType);
+
+    if (format === 'svg') {
+      // SVG先栅格化为PNG
+      const svgBlob = new Blob([bytes as BlobPart], { type: 'image/svg+xml' });
+      bytes = new Uint8Array(await PDFWatermarkMerger.convertSVGToPNG(svgBlob));
+      format = 'png';
+    }
+
+    let image: PDFImage;
+    if (format === 'png') {
+      image = await pdfDoc.embedPng(bytes);
+    } else if (format === 'jpeg') {
+      image = await pdfDoc.embedJpg(bytes);
+    } else {
+      throw new Error('不支持的水印图片格式，仅支持PNG、JPEG和SVG');
+    }
+
+    return { image, format, width: image.width, height: image.height };
+  }
+
+  /**
+   * 计算Logo在页面上的绘制尺寸
+   */
+  static calculateSize(
+    embedded: EmbeddedWatermarkImage,
+    pageWidth: number,
+    options: Omit<PDFImageWatermarkOptions, 'source'>
+  ): { width: number; height: number } {
+    const scale = options.scale ?? 1;
+    const naturalWidth = embedded.width || 1;
+    const naturalHeight = embedded.height || 1;
+    const aspectRatio = naturalWidth / naturalHeight;
+
+    let boxWidth = options.width;
+    let boxHeight = options.height;
+
+    if (!boxWidth && !boxHeight) {
+      boxWidth = Math.min(naturalWidth, pageWidth * 0.25);
+      boxHeight = boxWidth / aspectRatio;
+    } else if (!boxWidth) {
+      boxWidth = boxHeight! * aspectRatio;
+    } else if (!boxHeight) {
+      boxHeight = boxWidth / aspectRatio;
+    }
+
+    let width = boxWidth;
+    let height = boxHeight!;
+
+    if (options.preserveAspectRatio !== false) {
+      const fit = Math.min(boxWidth / naturalWidth, boxHeight! / naturalHeight);
+      width = naturalWidth * fit;
+      height = naturalHeight * fit;
+    }
+
+    return { width: width * scale, height: height * scale };
+  }
+
+  /**
+   * 以(centerX, centerY)为中心绘制Logo，旋转围绕中心进行
+   */
+  static drawCentered(
+    page: Pick<PDFPage, 'drawImage'>,
+    embedded: EmbeddedWatermarkImage,
+    centerX: number,
+    centerY: number,
+    options: ImageDrawOptions
+  ): void {
+    const { width, height, opacity } = options;
+    const rotation = options.rotation || 0;
+    const radians = (rotation * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+
+    // pdf-lib围绕左下角旋转，需要反推左下角坐标
+    const x = centerX - (width / 2) * cos + (height / 2) * sin;
+    const y = centerY - (width / 2) * sin - (height / 2) * cos;
+
+    page.drawImage(embedded.image, {
+      x,
+      y,
+      width,
+      height,
+      opacity,
+      rotate: degrees(rotation)
+    });
+  }
+
+  /**
+   * 统一转换为Uint8Array
+   */
+  private static async toUint8Array(source: PDFImageWatermarkSource): Promise<Uint8Array> {
+    if (source instanceof Uint8Array) {
+      return source;
+    }
+    if (source instanceof ArrayBuffer) {
+      return new Uint8Array(source);
+    }
+    if (source instanceof Blob) {
+      return new Uint8Array(await source.arrayBuffer());
+    }
+    return this.encodeImageData(source);
+  }
+
+  /**
+   * ImageData经Canvas编码为PNG
+   */
+  private static async encodeImageData(imageData: ImageData): Promise<Uint8Array> {
+    const canvas = document.createElement('canvas');
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('无法创建Canvas上下文');
+    }
+    ctx.putImageData(imageData, 0, 0);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) {
+      throw new Error('水印图片转换PNG失败');
+    }
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+}
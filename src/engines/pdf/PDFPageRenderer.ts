@@ -0,0 +1,192 @@
+/**
+ * PDF页面渲染器 - 基于PDF.js将页面渲染为像素并提取文本
+ * PDF.js按需加载，未使用时不进入主包
+ */
+
+export interface PDFRenderOptions {
+  scale?: number;        // 渲染倍率，1 = 72dpi
+  maxPages?: number;     // 最多渲染的页数，从第1页开始
+}
+
+export interface RenderedPDFPage {
+  pageNumber: number;
+  imageData: ImageData;
+}
+
+export interface PDFSnapshotOptions {
+  scale?: number;
+  type?: 'image/jpeg' | 'image/png';
+  quality?: number;
+  includeText?: boolean; // 同时提取文字及其位置
+}
+
+export interface PDFTextItem {
+  text: string;
+  transform: number[];   // 文字矩阵，PDF坐标（左下角为原点，单位为点）
+  width: number;         // 文字宽度（点）
+}
+
+export interface PDFPageSnapshot {
+  pageNumber: number;
+  width: number;         // 页面尺寸（点），已计入页面旋转
+  height: number;
+  image: Blob;
+  textItems?: PDFTextItem[];
+}
+
+export class PDFPageRenderer {
+  private static pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+  /**
+   * 渲染页面为ImageData
+   */
+  static async renderPages(bytes: Uint8Array, options: PDFRenderOptions = {}): Promise<RenderedPDFPage[]> {
+    const { scale = 1, maxPages = Infinity } = options;
+    const pdf = await this.load(bytes);
+
+    try {
+      const pages: RenderedPDFPage[] = [];
+      const count = Math.min(pdf.numPages, maxPages);
+
+      for (let pageNumber = 1; pageNumber <= count; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const viewport = page.getViewport({ scale });
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(viewport.width);
+        canvas.height = Math.ceil(viewport.height);
+
+        const context = canvas.getContext('2d');
+        if (!context) {
+          throw new Error('无法创建Canvas上下文');
+        }
+
+        await page.render({ canvasContext: context, canvas, viewport } as any).promise;
+        pages.push({ pageNumber, imageData: context.getImageData(0, 0, canvas.width, canvas.height) });
+        page.cleanup();
+      }
+
+      return pages;
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  /**
+   * 逐页渲染为图片，每页处理完即释放画布，避免整份文档的像素同时驻留内存
+   */
+  static async snapshotPages(
+    bytes: Uint8Array,
+    options: PDFSnapshotOptions,
+    onPage: (snapshot: PDFPageSnapshot) => Promise<void>
+  ): Promise<number> {
+    const { scale = 1, type = 'image/jpeg', quality = 0.85, includeText = false } = options;
+    const pdf = await this.load(bytes);
+
+    try {
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const pageViewport = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale });
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(viewport.width);
+        canvas.height = Math.ceil(viewport.height);
+
+        const context = canvas.getContext('2d');
+        if (!context) {
+          throw new Error('无法创建Canvas上下文');
+        }
+
+        // JPEG没有透明通道，先铺白底
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        await page.render({ canvasContext: context, canvas, viewport } as any).promise;
+
+        const image = await new Promise<Blob>((resolve, reject) => {
+          canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error(`第${pageNumber}页渲染结果编码失败`))), type, quality);
+        });
+
+        const snapshot: PDFPageSnapshot = { pageNumber, width: pageViewport.width, height: pageViewport.height, image };
+        if (includeText) {
+          const content = await page.getTextContent();
+          snapshot.textItems = content.items
+            .filter(item => 'str' in item && item.str.trim())
+            .map(item => {
+              const textItem = item as { str: string; transform: number[]; width: number };
+              return {
+                text: textItem.str,
+                transform: toPageSpace(pageViewport.transform, textItem.transform, pageViewport.height),
+                width: textItem.width
+              };
+            });
+        }
+
+        canvas.width = 0;
+        canvas.height = 0;
+        page.cleanup();
+        await onPage(snapshot);
+      }
+
+      return pdf.numPages;
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  /**
+   * 提取页面文本，页与页之间以换行分隔
+   */
+  static async extractText(bytes: Uint8Array, maxPages: number = Infinity): Promise<string> {
+    const pdf = await this.load(bytes);
+
+    try {
+      const texts: string[] = [];
+      const count = Math.min(pdf.numPages, maxPages);
+
+      for (let pageNumber = 1; pageNumber <= count; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        texts.push(content.items.map(item => ('str' in item ? item.str : '')).join(''));
+      }
+
+      return texts.join('\n');
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  private static async load(bytes: Uint8Array) {
+    const pdfjs = await this.loadLibrary();
+    // PDF.js会转移传入的缓冲区，复制一份避免调用方的数据被清空
+    return pdfjs.getDocument({ data: bytes.slice() }).promise;
+  }
+
+  private static loadLibrary(): Promise<typeof import('pdfjs-dist')> {
+    if (!this.pdfjsPromise) {
+      this.pdfjsPromise = import('pdfjs-dist').then(pdfjs => {
+        if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+          pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+        }
+        return pdfjs;
+      }).catch(error => {
+        this.pdfjsPromise = null;
+        throw error;
+      });
+    }
+    return this.pdfjsPromise;
+  }
+}
+
+/**
+ * 将文字矩阵换算到旋转后页面的坐标：先经视口变换到画布坐标（左上原点），再翻转为左下原点
+ */
+function toPageSpace(viewportTransform: number[], transform: number[], height: number): number[] {
+  const [a1, b1, c1, d1, e1, f1] = viewportTransform;
+  const [a2, b2, c2, d2, e2, f2] = transform;
+  const a = a1 * a2 + c1 * b2;
+  const b = b1 * a2 + d1 * b2;
+  const c = a1 * c2 + c1 * d2;
+  const d = b1 * c2 + d1 * d2;
+  const e = a1 * e2 + c1 * f2 + e1;
+  const f = b1 * e2 + d1 * f2 + f1;
+  return [a, -b, c, -d, e, height - f];
+}
@@ -0,0 +1,529 @@
+/**
+ * PDF标准安全处理器 - 输出加密（AES-128/AES-256）与权限限制，以及受密码保护的输入解密
+ * pdf-lib不支持加密：加密时逐个间接对象加密字符串和流；解密后重新序列化为明文PDF再交给pdf-lib加载
+ */
+
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObjectStreamParser,
+  PDFParser,
+  PDFRawStream,
+  PDFRef,
+  PDFString,
+  PDFWriter,
+  type PDFContext,
+  type PDFObject
+} from 'pdf-lib';
+import { PDFCrypto } from '../crypto/PDFCrypto';
+import { CryptoUtils } from '../crypto/CryptoUtils';
+import type { PDFEncryptionConfig, PDFPermissions } from '../../types/watermark.types';
+
+type CipherMethod = 'none' | 'rc4' | 'aes-128' | 'aes-256';
+
+interface SecurityHandler {
+  key: Uint8Array;
+  stringMethod: CipherMethod;
+  streamMethod: CipherMethod;
+  encryptMetadata: boolean;
+}
+
+// 口令填充串（PDF规范Algorithm 2）
+const PASSWORD_PADDING = Uint8Array.from([
+  0x28, 0xBF, 0x4E, 0x5E, 0x4E, 0x75, 0x8A, 0x41, 0x64, 0x00, 0x4E, 0x56, 0xFF, 0xFA, 0x01, 0x08,
+  0x2E, 0x2E, 0x00, 0xB6, 0xD0, 0x68, 0x3E, 0x80, 0x2F, 0x0C, 0xA9, 0xFE, 0x64, 0x53, 0x69, 0x7A
+]);
+
+// 权限位（从1计数）：3打印 4修改 5复制 6注释 9填写表单 11组装页面 12高质量打印
+const PERMISSION_BITS: Record<keyof PDFPermissions, number> = {
+  print: (1 << 2) | (1 << 11),
+  modify: (1 << 3) | (1 << 10),
+  copy: 1 << 4,
+  annotate: (1 << 5) | (1 << 8)
+};
+
+// 7、8及13-32为保留位须置1；位10（辅助功能提取）始终允许，读屏软件依赖它
+const RESERVED_BITS = ~0xFFF | 0xC0 | (1 << 9);
+
+const ZERO_IV = new Uint8Array(16);
+const EMPTY = new Uint8Array(0);
+const AES_SALT = [0x73, 0x41, 0x6C, 0x54]; // "sAlT"
+
+export class PDFSecurity {
+  static readonly DEFAULT_PERMISSIONS: PDFPermissions = {
+    print: true,
+    copy: false,
+    modify: false,
+    annotate: false
+  };
+
+  /**
+   * 快速判断：trailer或交叉引用流字典中含/Encrypt
+   */
+  static isEncrypted(bytes: Uint8Array): boolean {
+    return /\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(latin1(bytes));
+  }
+
+  /**
+   * 打开输入PDF：未加密时原样返回，加密时用密码（打开密码或权限密码）解密
+   */
+  static async open(bytes: Uint8Array, password = ''): Promise<Uint8Array> {
+    return this.isEncrypted(bytes) ? this.decrypt(bytes, password) : bytes;
+  }
+
+  /**
+   * 权限转为/P值（有符号32位整数）
+   */
+  static permissionsToFlags(permissions: PDFPermissions): number {
+    let flags = RESERVED_BITS;
+    (Object.keys(PERMISSION_BITS) as Array<keyof PDFPermissions>).forEach(name => {
+      if (permissions[name]) flags |= PERMISSION_BITS[name];
+    });
+    return flags | 0;
+  }
+
+  static async decrypt(bytes: Uint8Array, password = ''): Promise<Uint8Array> {
+    const { context, trailer, objectStreams } = new ObjectScanner(bytes).scan();
+    const encryptRef = trailer?.get(PDFName.of('Encrypt'));
+    const encrypt = encryptRef ? context.lookup(encryptRef) : undefined;
+    if (!trailer || !(encrypt instanceof PDFDict)) {
+      throw new Error('无法读取PDF加密信息');
+    }
+
+    const handler = await this.authenticate(encrypt, documentId(context, trailer), password);
+    const decrypted = new Map<PDFRef, PDFObject>();
+
+    for (const [ref, object] of context.enumerateIndirectObjects()) {
+      if (object === encrypt) continue;
+      try {
+        decrypted.set(ref, await this.transform(object, ref, handler, false));
+      } catch (error) {
+        console.warn(`⚠️ 对象 ${ref.toString()} 解密失败，保留原始数据:`, error);
+        decrypted.set(ref, object);
+      }
+      context.assign(ref, decrypted.get(ref)!);
+    }
+
+    // 对象流解密后再展开；增量更新写出的独立对象比对象流中的旧版本新，展开后重新放回
+    for (const ref of objectStreams) {
+      const stream = context.lookup(ref);
+      context.delete(ref);
+      if (stream instanceof PDFRawStream) {
+        await PDFObjectStreamParser.forStream(stream).parseIntoContext();
+      }
+    }
+    decrypted.forEach((object, ref) => {
+      if (!objectStreams.includes(ref)) context.assign(ref, object);
+    });
+
+    if (encryptRef instanceof PDFRef) context.delete(encryptRef);
+    context.trailerInfo = {
+      Root: trailer.get(PDFName.of('Root')),
+      Info: trailer.get(PDFName.of('Info')),
+      ID: trailer.get(PDFName.of('ID'))
+    };
+
+    console.log(`🔓 PDF已解密: V${numberOf(encrypt, 'V')} R${numberOf(encrypt, 'R')}`);
+    return PDFWriter.forContext(context, 50).serializeToBuffer();
+  }
+
+  /**
+   * 加密输出PDF：字符串和流均加密，/Encrypt字典本身保持明文
+   */
+  static async encrypt(bytes: Uint8Array, config: PDFEncryptionConfig): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.load(bytes, { updateMetadata: false });
+    const context = pdfDoc.context;
+
+    if (!context.trailerInfo.ID) {
+      const id = PDFHexString.of(toHex(CryptoUtils.generateRandomBytes(16)));
+      context.trailerInfo.ID = context.obj([id, id]);
+    }
+    const { handler, values } = await this.createHandler(config, documentId(context));
+
+    for (const [ref, object] of context.enumerateIndirectObjects()) {
+      context.assign(ref, await this.transform(object, ref, handler, true));
+    }
+
+    const aes256 = config.algorithm === 'aes-256';
+    const hex = (name: string) => PDFHexString.of(toHex(values[name]));
+    context.trailerInfo.Encrypt = context.register(context.obj({
+      Filter: 'Standard',
+      V: aes256 ? 5 : 4,
+      R: aes256 ? 6 : 4,
+      Length: aes256 ? 256 : 128,
+      CF: { StdCF: { AuthEvent: 'DocOpen', CFM: aes256 ? 'AESV3' : 'AESV2', Length: aes256 ? 32 : 16 } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+      P: this.permissionsToFlags(config.permissions),
+      ...Object.fromEntries(Object.keys(values).map(name => [name, hex(name)]))
+    }));
+
+    console.log(`🔒 PDF已加密: ${config.algorithm.toUpperCase()}，权限 ${JSON.stringify(config.permissions)}`);
+    return pdfDoc.save({ useObjectStreams: false, addDefaultPage: false, updateFieldAppearances: false });
+  }
+
+  /**
+   * 生成文件密钥和/O、/U等口令校验值
+   */
+  private static async createHandler(
+    config: PDFEncryptionConfig,
+    id: Uint8Array
+  ): Promise<{ handler: SecurityHandler; values: Record<string, Uint8Array> }> {
+    const p = this.permissionsToFlags(config.permissions);
+    // 权限密码留空时随机生成：任何人都无法解除限制
+    const owner = config.ownerPassword || toHex(CryptoUtils.generateRandomBytes(16));
+    const user = config.userPassword || '';
+
+    if (config.algorithm === 'aes-256') {
+      const key = CryptoUtils.generateRandomBytes(32);
+      const userPassword = utf8Password(user);
+      const ownerPassword = utf8Password(owner);
+      const [userSalt, userKeySalt, ownerSalt, ownerKeySalt] = [0, 1, 2, 3].map(() => CryptoUtils.generateRandomBytes(8));
+
+      const U = concat(await hash2B(userPassword, userSalt, EMPTY), userSalt, userKeySalt);
+      const UE = await PDFCrypto.aesEncrypt(await hash2B(userPassword, userKeySalt, EMPTY), ZERO_IV, key, false);
+      const O = concat(await hash2B(ownerPassword, ownerSalt, U), ownerSalt, ownerKeySalt);
+      const OE = await PDFCrypto.aesEncrypt(await hash2B(ownerPassword, ownerKeySalt, U), ZERO_IV, key, false);
+
+      const block = new Uint8Array(16);
+      new DataView(block.buffer).setInt32(0, p, true);
+      block.set([0xFF, 0xFF, 0xFF, 0xFF, 0x54, 0x61, 0x64, 0x62], 4); // 高32位 + "T"（元数据已加密）+ "adb"
+      block.set(CryptoUtils.generateRandomBytes(4), 12);
+      const Perms = await PDFCrypto.aesEncrypt(key, ZERO_IV, block, false);
+
+      return {
+        handler: { key, stringMethod: 'aes-256', streamMethod: 'aes-256', encryptMetadata: true },
+        values: { O, U, OE, UE, Perms }
+      };
+    }
+
+    const userPassword = latin1Password(user);
+    const O = legacyOwnerValue(latin1Password(owner), userPassword, 4, 16);
+    const key = legacyFileKey(userPassword, O, p, id, 4, 16, true);
+    const U = concat(legacyUserValue(key, id, 4), CryptoUtils.generateRandomBytes(16));
+
+    return {
+      handler: { key, stringMethod: 'aes-128', streamMethod: 'aes-128', encryptMetadata: true },
+      values: { O, U }
+    };
+  }
+
+  /**
+   * 校验密码并求出文件密钥：先按打开密码，再按权限密码
+   */
+  private static async authenticate(encrypt: PDFDict, id: Uint8Array, password: string): Promise<SecurityHandler> {
+    if (encrypt.get(PDFName.of('Filter')) !== PDFName.of('Standard')) {
+      throw new Error('不支持的PDF加密方式（仅支持标准安全处理器）');
+    }
+
+    const v = numberOf(encrypt, 'V') ?? 0;
+    const r = numberOf(encrypt, 'R') ?? 0;
+    const p = numberOf(encrypt, 'P') ?? 0;
+    const o = bytesOf(encrypt, 'O');
+    const u = bytesOf(encrypt, 'U');
+    const encryptMetadata = encrypt.get(PDFName.of('EncryptMetadata')) !== PDFBool.False;
+    const methodOf = (name: string): CipherMethod => v >= 4 ? cryptFilterMethod(encrypt, name) : 'rc4';
+    const stringMethod = methodOf('StrF');
+    const streamMethod = methodOf('StmF');
+
+    if (![1, 2, 4, 5].includes(v) || r < 2 || r > 6) {
+      throw new Error(`不支持的PDF加密方式（V${v} R${r}）`);
+    }
+
+    if (r >= 5) {
+      const pw = utf8Password(password);
+      // R5为早期AES-256草案，口令哈希只做一次SHA-256
+      const hash = (salt: Uint8Array, udata: Uint8Array) => r >= 6 ? hash2B(pw, salt, udata) : PDFCrypto.hash('SHA-256', concat(pw, salt, udata));
+      const candidates: Array<[Uint8Array, Uint8Array, string]> = [[u, EMPTY, 'UE'], [o, u.subarray(0, 48), 'OE']];
+      for (const [value, udata, encryptedKey] of candidates) {
+        if (equal(await hash(value.subarray(32, 40), udata), value.subarray(0, 32))) {
+          const key = await PDFCrypto.aesDecrypt(await hash(value.subarray(40, 48), udata), ZERO_IV, bytesOf(encrypt, encryptedKey), false);
+          return { key, stringMethod, streamMethod, encryptMetadata };
+        }
+      }
+      throw new Error(password ? 'PDF密码不正确' : 'PDF已加密，请提供打开密码');
+    }
+
+    const length = v === 1 ? 5 : Math.min(16, (numberOf(encrypt, 'Length') ?? (v === 4 ? 128 : 40)) >> 3);
+    const matches = (key: Uint8Array) => {
+      const expected = legacyUserValue(key, id, r);
+      return equal(expected.subarray(0, r === 2 ? 32 : 16), u.subarray(0, r === 2 ? 32 : 16));
+    };
+
+    const userKey = legacyFileKey(latin1Password(password), o, p, id, r, length, encryptMetadata);
+    if (matches(userKey)) {
+      return { key: userKey, stringMethod, streamMethod, encryptMetadata };
+    }
+
+    // 权限密码：用它解开/O得到打开密码
+    const ownerKey = legacyOwnerKey(latin1Password(password), r, length);
+    let recovered = o.subarray(0, 32);
+    for (let i = r === 2 ? 0 : 19; i >= 0; i--) {
+      recovered = PDFCrypto.rc4(r === 2 ? ownerKey : xorKey(ownerKey, i), recovered);
+    }
+    const ownerUserKey = legacyFileKey(recovered, o, p, id, r, length, encryptMetadata);
+    if (matches(ownerUserKey)) {
+      return { key: ownerUserKey, stringMethod, streamMethod, encryptMetadata };
+    }
+
+    throw new Error(password ? 'PDF密码不正确' : 'PDF已加密，请提供打开密码');
+  }
+
+  /**
+   * 加密或解密一个间接对象中的全部字符串和流数据（就地修改字典和数组）
+   */
+  private static async transform(object: PDFObject, ref: PDFRef, handler: SecurityHandler, encrypting: boolean): Promise<PDFObject> {
+    const convert = (data: Uint8Array, method: CipherMethod) => crypt(data, objectKey(handler.key, ref, method), method, encrypting);
+    const walk = async (value: PDFObject): Promise<PDFObject> => {
+      if (value instanceof PDFString || value instanceof PDFHexString) {
+        return PDFHexString.of(toHex(await convert(value.asBytes(), handler.stringMethod)));
+      }
+      if (value instanceof PDFDict) {
+        for (const [key, item] of value.entries()) value.set(key, await walk(item));
+      } else if (value instanceof PDFArray) {
+        for (let i = 0; i < value.size(); i++) value.set(i, await walk(value.get(i)));
+      }
+      return value;
+    };
+
+    if (!(object instanceof PDFRawStream)) {
+      return walk(object);
+    }
+
+    const type = object.dict.get(PDFName.of('Type'));
+    if (type === PDFName.of('XRef') || (type === PDFName.of('Metadata') && !handler.encryptMetadata)) {
+      return object;
+    }
+    await walk(object.dict);
+    return PDFRawStream.of(object.dict, await convert(object.contents, handler.streamMethod));
+  }
+}
+
+/**
+ * 在加密PDF上逐个解析间接对象：pdf-lib的加载流程会直接展开对象流，而加密文件的对象流须先解密
+ */
+class ObjectScanner extends PDFParser {
+  private readonly text: string;
+
+  constructor(bytes: Uint8Array) {
+    super(bytes);
+    this.text = latin1(bytes);
+  }
+
+  scan(): { context: PDFContext; trailer?: PDFDict; objectStreams: PDFRef[] } {
+    const header = /(\d+)\s+(\d+)\s+obj\b/g;
+    const trailers: Array<[number, PDFDict]> = [];
+    const objectStreams: PDFRef[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = header.exec(this.text))) {
+      const ref = PDFRef.of(Number(match[1]), Number(match[2]));
+      let object: PDFObject;
+      try {
+        this.bytes.moveTo(match.index + match[0].length);
+        object = this.parseObject();
+      } catch {
+        continue;
+      }
+      header.lastIndex = Math.max(header.lastIndex, this.bytes.offset());
+
+      const type = object instanceof PDFRawStream ? object.dict.get(PDFName.of('Type')) : undefined;
+      if (type === PDFName.of('XRef')) {
+        trailers.push([match.index, (object as PDFRawStream).dict]);
+        continue;
+      }
+      if (type === PDFName.of('ObjStm')) objectStreams.push(ref);
+      this.context.assign(ref, object);
+    }
+
+    for (const item of this.text.matchAll(/trailer\s*(?=<<)/g)) {
+      this.bytes.moveTo(item.index! + item[0].length);
+      const dict = this.parseObject();
+      if (dict instanceof PDFDict) trailers.push([item.index!, dict]);
+    }
+
+    // 增量更新时以文件末尾的trailer为准
+    const trailer = trailers.sort((a, b) => a[0] - b[0]).pop()?.[1];
+    return { context: this.context, trailer, objectStreams };
+  }
+}
+
+function cryptFilterMethod(encrypt: PDFDict, name: string): CipherMethod {
+  const filter = encrypt.get(PDFName.of(name));
+  if (!filter || filter === PDFName.of('Identity')) return 'none';
+  const filters = encrypt.lookupMaybe(PDFName.of('CF'), PDFDict);
+  const cfm = filters?.lookupMaybe(filter as PDFName, PDFDict)?.get(PDFName.of('CFM'));
+  if (cfm === PDFName.of('AESV2')) return 'aes-128';
+  if (cfm === PDFName.of('AESV3')) return 'aes-256';
+  if (cfm === PDFName.of('V2')) return 'rc4';
+  if (cfm === PDFName.of('None')) return 'none';
+  throw new Error('不支持的PDF加密方式');
+}
+
+/**
+ * 对象密钥（Algorithm 1）：AES-256直接使用文件密钥
+ */
+function objectKey(key: Uint8Array, ref: PDFRef, method: CipherMethod): Uint8Array {
+  if (method === 'aes-256' || method === 'none') return key;
+  const { objectNumber: n, generationNumber: g } = ref;
+  const input = concat(
+    key,
+    Uint8Array.from([n & 0xFF, (n >> 8) & 0xFF, (n >> 16) & 0xFF, g & 0xFF, (g >> 8) & 0xFF]),
+    Uint8Array.from(method === 'aes-128' ? AES_SALT : [])
+  );
+  return PDFCrypto.md5(input).slice(0, Math.min(key.length + 5, 16));
+}
+
+/**
+ * AES数据以16字节随机IV开头
+ */
+async function crypt(data: Uint8Array, key: Uint8Array, method: CipherMethod, encrypting: boolean): Promise<Uint8Array> {
+  if (method === 'none') return data;
+  if (method === 'rc4') return PDFCrypto.rc4(key, data);
+  if (encrypting) {
+    const iv = CryptoUtils.generateRandomBytes(16);
+    return concat(iv, await PDFCrypto.aesEncrypt(key, iv, data));
+  }
+  if (data.length < 32) return EMPTY;
+  return PDFCrypto.aesDecrypt(key, data.subarray(0, 16), data.subarray(16));
+}
+
+/**
+ * 文件密钥（Algorithm 2，R2-R4）
+ */
+function legacyFileKey(
+  password: Uint8Array,
+  o: Uint8Array,
+  p: number,
+  id: Uint8Array,
+  r: number,
+  length: number,
+  encryptMetadata: boolean
+): Uint8Array {
+  const permissions = new Uint8Array(4);
+  new DataView(permissions.buffer).setInt32(0, p, true);
+  let hash = PDFCrypto.md5(concat(
+    padPassword(password),
+    o.subarray(0, 32),
+    permissions,
+    id,
+    r >= 4 && !encryptMetadata ? Uint8Array.from([0xFF, 0xFF, 0xFF, 0xFF]) : EMPTY
+  ));
+  if (r >= 3) {
+    for (let i = 0; i < 50; i++) hash = PDFCrypto.md5(hash.subarray(0, length));
+  }
+  return hash.slice(0, length);
+}
+
+/**
+ * /U值（Algorithm 4/5）：R3及以上只有前16字节有意义
+ */
+function legacyUserValue(key: Uint8Array, id: Uint8Array, r: number): Uint8Array {
+  if (r === 2) return PDFCrypto.rc4(key, PASSWORD_PADDING);
+  let value = PDFCrypto.rc4(key, PDFCrypto.md5(concat(PASSWORD_PADDING, id)));
+  for (let i = 1; i <= 19; i++) value = PDFCrypto.rc4(xorKey(key, i), value);
+  return value;
+}
+
+function legacyOwnerKey(ownerPassword: Uint8Array, r: number, length: number): Uint8Array {
+  let hash = PDFCrypto.md5(padPassword(ownerPassword));
+  if (r >= 3) {
+    for (let i = 0; i < 50; i++) hash = PDFCrypto.md5(hash);
+  }
+  return hash.slice(0, length);
+}
+
+/**
+ * /O值（Algorithm 3）
+ */
+function legacyOwnerValue(ownerPassword: Uint8Array, userPassword: Uint8Array, r: number, length: number): Uint8Array {
+  const key = legacyOwnerKey(ownerPassword, r, length);
+  let value = PDFCrypto.rc4(key, padPassword(userPassword));
+  if (r >= 3) {
+    for (let i = 1; i <= 19; i++) value = PDFCrypto.rc4(xorKey(key, i), value);
+  }
+  return value;
+}
+
+/**
+ * R6口令哈希（Algorithm 2.B）
+ */
+async function hash2B(password: Uint8Array, salt: Uint8Array, udata: Uint8Array): Promise<Uint8Array> {
+  const algorithms = ['SHA-256', 'SHA-384', 'SHA-512'] as const;
+  let k = await PDFCrypto.hash('SHA-256', concat(password, salt, udata));
+  let e: Uint8Array = EMPTY;
+
+  for (let round = 0; round < 64 || e[e.length - 1] > round - 32; round++) {
+    const block = concat(password, k, udata);
+    const k1 = new Uint8Array(block.length * 64);
+    for (let i = 0; i < 64; i++) k1.set(block, i * block.length);
+    e = await PDFCrypto.aesEncrypt(k.subarray(0, 16), k.subarray(16, 32), k1, false);
+
+    let sum = 0;
+    for (let i = 0; i < 16; i++) sum += e[i];
+    k = await PDFCrypto.hash(algorithms[sum % 3], e);
+  }
+  return k.slice(0, 32);
+}
+
+function documentId(context: PDFContext, trailer?: PDFDict): Uint8Array {
+  const ids = context.lookup(trailer ? trailer.get(PDFName.of('ID')) : context.trailerInfo.ID);
+  const first = ids instanceof PDFArray ? ids.get(0) : undefined;
+  return first instanceof PDFString || first instanceof PDFHexString ? first.asBytes() : EMPTY;
+}
+
+function numberOf(dict: PDFDict, name: string): number | undefined {
+  return dict.lookupMaybe(PDFName.of(name), PDFNumber)?.asNumber();
+}
+
+function bytesOf(dict: PDFDict, name: string): Uint8Array {
+  const value = dict.lookup(PDFName.of(name));
+  return value instanceof PDFString || value instanceof PDFHexString ? value.asBytes() : EMPTY;
+}
+
+function padPassword(password: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(32);
+  padded.set(password.subarray(0, 32));
+  padded.set(PASSWORD_PADDING.subarray(0, 32 - Math.min(password.length, 32)), Math.min(password.length, 32));
+  return padded;
+}
+
+// R2-R4口令为PDFDocEncoding，这里按Latin-1近似；R6口令为UTF-8，最长127字节
+function latin1Password(password: string): Uint8Array {
+  return Uint8Array.from(password.slice(0, 32), char => char.charCodeAt(0) & 0xFF);
+}
+
+function utf8Password(password: string): Uint8Array {
+  return new TextEncoder().encode(password.normalize('NFKC')).slice(0, 127);
+}
+
+function xorKey(key: Uint8Array, value: number): Uint8Array {
+  return key.map(byte => byte ^ value);
+}
+
+function latin1(bytes: Uint8Array): string {
+  return new TextDecoder('latin1').decode(bytes);
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function equal(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
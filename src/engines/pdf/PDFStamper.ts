@@ -0,0 +1,154 @@
+/**
+ * PDF页眉页脚加盖 - 页眉/页脚文字、第X页共Y页和Bates编号
+ * 文字按页边对齐绘制，不旋转；Bates序号由调用方跨文件传入，保证整批连续
+ */
+
+import { PDFDocument, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import { ChineseFontLoader } from '../../utils/fonts/ChineseFontLoader';
+import { WatermarkVariables, type WatermarkVariableContext } from '../../utils/watermark/WatermarkVariables';
+import type { BatesConfig, StampConfig, StampItem } from '../../types/watermark.types';
+
+export interface PDFStampOptions {
+  batesStart?: number;                  // 本文件第一页的序号，默认取配置的起始序号
+  variables?: WatermarkVariableContext; // 文件级变量（文件名、日期、收件人等）
+}
+
+export interface PDFStampResult {
+  bytes: Uint8Array;
+  pageCount: number;
+  stampCount: number;
+  nextBatesNumber: number;              // 下一个文件第一页应使用的序号
+}
+
+export class PDFStamper {
+  static readonly DEFAULT_CONFIG: StampConfig = {
+    enabled: true,
+    items: [
+      { text: '{date}', x: 'left', y: 'top' },
+      { text: '第 {page} 页 / 共 {pages} 页', x: 'center', y: 'bottom' },
+      { text: '{bates}', x: 'right', y: 'bottom' }
+    ],
+    bates: { prefix: 'DOC', digits: 6, start: 1 },
+    fontSize: 9,
+    color: '#000000',
+    margin: 24,
+    stampOnly: false
+  };
+
+  /**
+   * 格式化Bates编号：前缀 + 补零序号
+   */
+  static formatBates(bates: BatesConfig, value: number): string {
+    return `${bates.prefix}${String(value).padStart(Math.max(1, bates.digits), '0')}`;
+  }
+
+  /**
+   * 加盖PDF文件，返回新的文件字节
+   */
+  static async stampPDF(
+    source: ArrayBuffer | Uint8Array,
+    config: StampConfig,
+    options: PDFStampOptions = {}
+  ): Promise<PDFStampResult> {
+    const pdfDoc = await PDFDocument.load(source);
+    const { stampCount, nextBatesNumber } = await this.stampDocument(pdfDoc, config, options);
+    const bytes = await pdfDoc.save({ useObjectStreams: false });
+
+    return { bytes, pageCount: pdfDoc.getPageCount(), stampCount, nextBatesNumber };
+  }
+
+  /**
+   * 在已加载的文档上逐页加盖
+   */
+  static async stampDocument(
+    pdfDoc: PDFDocument,
+    config: StampConfig,
+    options: PDFStampOptions = {}
+  ): Promise<Omit<PDFStampResult, 'bytes' | 'pageCount'>> {
+    const pages = pdfDoc.getPages();
+    const batesStart = options.batesStart ?? config.bates.start;
+    const items = config.items.filter(item => item.text.trim());
+
+    // 先解析全部页面的文字，字体需覆盖其中的中文字符
+    const pageTexts = pages.map((_, index) => items.map(item => WatermarkVariables.resolve(item.text, {
+      ...options.variables,
+      page: index + 1,
+      pages: pages.length,
+      bates: this.formatBates(config.bates, batesStart + index)
+    })));
+
+    let stampCount = 0;
+    if (items.length > 0) {
+      const font = await ChineseFontLoader.createPDFFont(pdfDoc, pageTexts.flat().join(''));
+      if (!font) {
+        throw new Error('页眉页脚字体加载失败');
+      }
+
+      const color = this.parseColor(config.color);
+      pages.forEach((page, index) => {
+        items.forEach((item, itemIndex) => {
+          const text = pageTexts[index][itemIndex];
+          if (!text.trim()) return;
+          this.drawItem(page, font, text, item, config, color);
+          stampCount++;
+        });
+      });
+    }
+
+    console.log('🔖 PDF页眉页脚加盖完成:', {
+      pages: pages.length,
+      stampCount,
+      bates: `${this.formatBates(config.bates, batesStart)} - ${this.formatBates(config.bates, batesStart + pages.length - 1)}`
+    });
+
+    return { stampCount, nextBatesNumber: batesStart + pages.length };
+  }
+
+  /**
+   * 计算文字左下角坐标：left/right按页边距对齐，top/bottom按页边距留白
+   */
+  static calculatePosition(
+    pageSize: { width: number; height: number },
+    textSize: { width: number; height: number },
+    item: Pick<StampItem, 'x' | 'y'>,
+    margin: number
+  ): { x: number; y: number } {
+    const x = item.x === 'left'
+      ? margin
+      : item.x === 'right'
+        ? pageSize.width - margin - textSize.width
+        : (pageSize.width - textSize.width) / 2;
+    const y = item.y === 'top' ? pageSize.height - margin - textSize.height : margin;
+    return { x, y };
+  }
+
+  private static drawItem(
+    page: PDFPage,
+    font: PDFFont,
+    text: string,
+    item: StampItem,
+    config: StampConfig,
+    color: { r: number; g: number; b: number }
+  ): void {
+    const textSize = {
+      width: font.widthOfTextAtSize(text, config.fontSize),
+      height: font.heightAtSize(config.fontSize, { descender: false })
+    };
+    const { x, y } = this.calculatePosition(page.getSize(), textSize, item, config.margin);
+
+    page.drawText(text, {
+      x,
+      y,
+      size: config.fontSize,
+      font,
+      color: rgb(color.r, color.g, color.b)
+    });
+  }
+
+  private static parseColor(color: string): { r: number; g: number; b: number } {
+    const match = /^#?([0-9a-f]{6})$/i.exec(color.trim());
+    if (!match) return { r: 0, g: 0, b: 0 };
+    const value = parseInt(match[1], 16);
+    return { r: (value >> 16) / 255, g: ((value >> 8) & 0xff) / 255, b: (value & 0xff) / 255 };
+  }
+}
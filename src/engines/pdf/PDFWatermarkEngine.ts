@@ -7,8 +7,18 @@
 
 import { ChineseWatermarkRenderer, type ChineseWatermarkOptions } from '../canvas/ChineseWatermarkRenderer';
 import { LibraryLoader } from '../../utils/cdn/LibraryLoader';
+import {
+  PDFImageWatermark,
+  type PDFImageWatermarkOptions,
+  type PDFImageWatermarkSource,
+  type EmbeddedWatermarkImage
+} from './PDFImageWatermark';
+import { WatermarkVariables } from '../../utils/watermark/WatermarkVariables';
+import { PageRules } from '../../utils/watermark/PageRules';
+import { PDFSecurity } from './PDFSecurity';
 // import { FileFormatDetector } from '../../utils/document/FileFormatDetector'; // 暂未使用
-import type { WatermarkSettings } from '../../types/watermark.types';
+import type { PDFImage } from 'pdf-lib';
+import type { PageSelection, WatermarkSettings } from '../../types/watermark.types';
 
 // PDF-lib 类型定义（动态加载时使用）
 interface PDFDocument {
@@ -16,6 +26,7 @@ interface PDFDocument {
   getPageCount(): number;
   addPage(size?: [number, number]): PDFPage;
   embedPng(pngImageBytes: Uint8Array): Promise<PDFImage>;
+  embedJpg(jpgImageBytes: Uint8Array): Promise<PDFImage>;
   registerFontkit?: (fontkit: any) => void;
   save(): Promise<Uint8Array>;
 }
@@ -26,10 +37,6 @@ interface PDFPage {
   drawImage(image: PDFImage, options?: any): void;
 }
 
-interface PDFImage {
-  scale(factor: number): { width: number; height: number };
-}
-
 // RGB 颜色函数类型
 declare function rgb(r: number, g: number, b: number): any;
 
@@ -40,9 +47,11 @@ export interface PDFWatermarkConfig {
   opacity: number;
   rotation: number;
   mode: 'single' | 'grid' | 'boundary' | 'adaptive';
+  image?: PDFImageWatermarkOptions; // 设置后绘制Logo图片而非文字
   position?: {
     x?: number | 'left' | 'center' | 'right';
     y?: number | 'top' | 'middle' | 'bottom';
+    margin?: number; // 设置后top/bottom按距页边的距离定位，用于页眉页脚
   };
   grid?: {
     spacingX: number;
@@ -62,6 +71,9 @@ export interface PDFWatermarkConfig {
     minSpacing: number;
     maxCount: number;
   };
+  pages?: PageSelection; // 应用该水印的页面，默认全部页
+  pageRules?: PDFWatermarkConfig[]; // 按页规则附加的水印，各自带pages
+  inputPassword?: string; // 受密码保护的输入PDF的打开密码或权限密码
 }
 
 export interface WatermarkResult {
@@ -177,8 +189,9 @@ export class PDFWatermarkEngine {
         // 已经是PDFDocument实例
         pdfDoc = pdfDocOrBuffer;
       } else if (pdfDocOrBuffer instanceof ArrayBuffer || pdfDocOrBuffer instanceof Uint8Array) {
-        // 从ArrayBuffer加载PDF
-        pdfDoc = await this.pdfLib.PDFDocument.load(pdfDocOrBuffer);
+        // 从ArrayBuffer加载PDF，加密的PDF先用密码解密
+        const bytes = pdfDocOrBuffer instanceof Uint8Array ? pdfDocOrBuffer : new Uint8Array(pdfDocOrBuffer);
+        pdfDoc = await this.pdfLib.PDFDocument.load(await PDFSecurity.open(bytes, config.inputPassword));
       } else {
         // 创建新的PDF文档
         pdfDoc = await this.pdfLib.PDFDocument.create();
@@ -203,16 +216,42 @@ export class PDFWatermarkEngine {
         containsChinese: ChineseWatermarkRenderer.containsChineseCharacters(config.text)
       });
 
+      // 基础水印和按页规则水印，各自按pages筛选页面
+      const layers = [config, ...(config.pageRules || [])];
+
+      // Logo图片只嵌入一次，各页面引用同一个Image XObject
+      const logos = new Map<PDFImageWatermarkSource, EmbeddedWatermarkImage>();
+      for (const layer of layers) {
+        if (layer.image && !logos.has(layer.image.source)) {
+          logos.set(layer.image.source, await PDFImageWatermark.embed(pdfDoc, layer.image.source));
+        }
+      }
+
       const pages = pdfDoc.getPages();
+
+      // 空白页需在绘制水印之前识别
+      const blankPages = layers.some(layer => layer.pages?.skipBlank)
+        ? await PageRules.findBlankPages(pages)
+        : new Set<number>();
       
       for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
         const page = pages[pageIndex];
-        const pageWatermarkCount = await this.addWatermarksToPage(
-          pdfDoc, 
-          page, 
-          config, 
-          pageIndex + 1
-        );
+        const pageNumber = pageIndex + 1;
+        let pageWatermarkCount = 0;
+
+        for (const layer of layers) {
+          if (!PageRules.matches(layer.pages, pageNumber, pages.length, blankPages.has(pageNumber))) {
+            continue;
+          }
+          pageWatermarkCount += await this.addWatermarksToPage(
+            pdfDoc, 
+            page, 
+            layer, 
+            pageNumber,
+            pages.length,
+            layer.image && logos.get(layer.image.source)
+          );
+        }
         
         totalWatermarks += pageWatermarkCount;
         watermarksPerPage.push(pageWatermarkCount);
@@ -272,14 +311,17 @@ export class PDFWatermarkEngine {
   }
 
   /**
-   * 为单个页面添加水印
+   * 为单个页面添加水印，水印文字中的{page}/{pages}在此按页解析
    */
   private static async addWatermarksToPage(
     pdfDoc: PDFDocument,
     page: PDFPage,
-    config: PDFWatermarkConfig,
-    pageNumber: number
+    pageConfig: PDFWatermarkConfig,
+    pageNumber: number,
+    pageCount: number,
+    logo?: EmbeddedWatermarkImage
   ): Promise<number> {
+    const config = { ...pageConfig, text: WatermarkVariables.resolvePage(pageConfig.text, pageNumber, pageCount) };
     const { width, height } = page.getSize();
     let watermarkCount = 0;
 
@@ -290,24 +332,24 @@ export class PDFWatermarkEngine {
 
     switch (config.mode) {
       case 'single':
-        watermarkCount = await this.addSingleWatermark(pdfDoc, page, config);
+        watermarkCount = await this.addSingleWatermark(pdfDoc, page, config, logo);
         break;
       
       case 'grid':
-        watermarkCount = await this.addGridWatermarks(pdfDoc, page, config, width, height);
+        watermarkCount = await this.addGridWatermarks(pdfDoc, page, config, width, height, logo);
         break;
       
       case 'boundary':
-        watermarkCount = await this.addBoundaryWatermarks(pdfDoc, page, config, width, height);
+        watermarkCount = await this.addBoundaryWatermarks(pdfDoc, page, config, width, height, logo);
         break;
       
       case 'adaptive':
-        watermarkCount = await this.addAdaptiveWatermarks(pdfDoc, page, config, width, height);
+        watermarkCount = await this.addAdaptiveWatermarks(pdfDoc, page, config, width, height, logo);
         break;
       
       default:
         console.warn(`未知的水印模式: ${config.mode}，使用网格模式`);
-        watermarkCount = await this.addGridWatermarks(pdfDoc, page, config, width, height);
+        watermarkCount = await this.addGridWatermarks(pdfDoc, page, config, width, height, logo);
         break;
     }
 
@@ -320,7 +362,8 @@ export class PDFWatermarkEngine {
   private static async addSingleWatermark(
     pdfDoc: PDFDocument,
     page: PDFPage,
-    config: PDFWatermarkConfig
+    config: PDFWatermarkConfig,
+    logo?: EmbeddedWatermarkImage
   ): Promise<number> {
     const { width, height } = page.getSize();
     
@@ -340,13 +383,13 @@ export class PDFWatermarkEngine {
       if (typeof config.position.y === 'number') {
         y = config.position.y;
       } else if (config.position.y === 'top') {
-        y = height * 0.8;
+        y = config.position.margin !== undefined ? height - config.position.margin - config.fontSize / 2 : height * 0.8;
       } else if (config.position.y === 'bottom') {
-        y = height * 0.2;
+        y = config.position.margin !== undefined ? config.position.margin + config.fontSize / 2 : height * 0.2;
       }
     }
 
-    await this.drawWatermarkAtPosition(pdfDoc, page, config, x, y);
+    await this.drawWatermarkAtPosition(pdfDoc, page, config, x, y, logo);
     return 1;
   }
 
@@ -358,11 +401,17 @@ export class PDFWatermarkEngine {
     page: any,
     config: PDFWatermarkConfig,
     pageWidth: number,
-    pageHeight: number
+    pageHeight: number,
+    logo?: EmbeddedWatermarkImage
   ): Promise<number> {
     const grid = { ...this.DEFAULT_CONFIG.grid, ...config.grid };
     let watermarkCount = 0;
 
+    // Logo水印直接复用已嵌入的图片，无需逐个渲染文字图像
+    if (logo) {
+      return await this.addBasicGridWatermarks(pdfDoc, page, config, pageWidth, pageHeight, logo);
+    }
+
     console.log('🔲 开始增强网格水印处理:', {
       pageSize: { width: pageWidth, height: pageHeight },
       gridSettings: grid,
@@ -461,7 +510,8 @@ export class PDFWatermarkEngine {
     page: any,
     config: PDFWatermarkConfig,
     pageWidth: number,
-    pageHeight: number
+    pageHeight: number,
+    logo?: EmbeddedWatermarkImage
   ): Promise<number> {
     const grid = { ...this.DEFAULT_CONFIG.grid, ...config.grid };
     const margin = 50;
@@ -498,7 +548,7 @@ export class PDFWatermarkEngine {
             opacity: config.opacity * (0.8 + 0.4 * Math.random()) // 80%-120%的透明度变化
           };
 
-          await this.drawWatermarkAtPosition(pdfDoc, page, adjustedConfig, x, y);
+          await this.drawWatermarkAtPosition(pdfDoc, page, adjustedConfig, x, y, logo);
           watermarkCount++;
         }
       }
@@ -516,7 +566,8 @@ export class PDFWatermarkEngine {
     page: PDFPage,
     config: PDFWatermarkConfig,
     pageWidth: number,
-    pageHeight: number
+    pageHeight: number,
+    logo?: EmbeddedWatermarkImage
   ): Promise<number> {
     const boundary = config.boundary || { margin: 50, corners: true, edges: true, center: true };
     let watermarkCount = 0;
@@ -531,7 +582,7 @@ export class PDFWatermarkEngine {
       ];
 
       for (const pos of cornerPositions) {
-        await this.drawWatermarkAtPosition(pdfDoc, page, config, pos.x, pos.y);
+        await this.drawWatermarkAtPosition(pdfDoc, page, config, pos.x, pos.y, logo);
         watermarkCount++;
       }
     }
@@ -546,14 +597,14 @@ export class PDFWatermarkEngine {
       ];
 
       for (const pos of edgePositions) {
-        await this.drawWatermarkAtPosition(pdfDoc, page, config, pos.x, pos.y);
+        await this.drawWatermarkAtPosition(pdfDoc, page, config, pos.x, pos.y, logo);
         watermarkCount++;
       }
     }
 
     // 中心
     if (boundary.center) {
-      await this.drawWatermarkAtPosition(pdfDoc, page, config, pageWidth / 2, pageHeight / 2);
+      await this.drawWatermarkAtPosition(pdfDoc, page, config, pageWidth / 2, pageHeight / 2, logo);
       watermarkCount++;
     }
 
@@ -568,7 +619,8 @@ export class PDFWatermarkEngine {
     page: PDFPage,
     config: PDFWatermarkConfig,
     pageWidth: number,
-    pageHeight: number
+    pageHeight: number,
+    logo?: EmbeddedWatermarkImage
   ): Promise<number> {
     const adaptive = config.adaptive || { density: 'medium', minSpacing: 150, maxCount: 20 };
     
@@ -607,7 +659,8 @@ export class PDFWatermarkEngine {
       page, 
       adaptiveGridConfig, 
       pageWidth, 
-      pageHeight
+      pageHeight,
+      logo
     );
 
     // 限制最大数量
@@ -622,8 +675,34 @@ export class PDFWatermarkEngine {
     page: PDFPage,
     config: PDFWatermarkConfig,
     x: number,
-    y: number
+    y: number,
+    logo?: EmbeddedWatermarkImage
   ): Promise<void> {
+    if (logo && config.image) {
+      const { width } = page.getSize();
+      const size = PDFImageWatermark.calculateSize(logo, width, config.image);
+      const rotation = config.rotation || 0;
+      const withText = !!config.image.withText && !!config.text;
+
+      // 混合水印：Logo在上、文字在下，沿旋转方向整体以(x, y)为中心
+      const radians = (rotation * Math.PI) / 180;
+      const upX = -Math.sin(radians);
+      const upY = Math.cos(radians);
+      const logoShift = withText ? config.fontSize / 2 : 0;
+
+      PDFImageWatermark.drawCentered(page, logo, x + upX * logoShift, y + upY * logoShift, {
+        ...size,
+        opacity: config.opacity,
+        rotation
+      });
+      if (!withText) {
+        return;
+      }
+
+      x -= upX * size.height / 2;
+      y -= upY * size.height / 2;
+    }
+
     try {
       // 使用Canvas渲染中文水印
       const watermarkOptions: ChineseWatermarkOptions = {
@@ -770,6 +849,26 @@ export class PDFWatermarkEngine {
    * 从WatermarkSettings转换配置
    */
   static convertFromWatermarkSettings(settings: WatermarkSettings): PDFWatermarkConfig {
+    const config = this.convertLayer(settings, false);
+
+    if (settings.pages) {
+      config.pages = settings.pages;
+    }
+    if (settings.pageRules?.length) {
+      config.pageRules = settings.pageRules.map(rule => this.convertLayer(PageRules.applyRule(settings, rule), true));
+    }
+
+    if (settings.security?.pdfPassword) {
+      config.inputPassword = settings.security.pdfPassword;
+    }
+
+    return config;
+  }
+
+  /**
+   * 转换单层水印；页规则（如页脚）指定了边时只在该边居中绘制一个，基础水印的边缘布局保持边界模式
+   */
+  private static convertLayer(settings: WatermarkSettings, pageRule: boolean): PDFWatermarkConfig {
     const textColor = typeof settings.text?.color === 'string' 
       ? settings.text.color 
       : settings.text?.color?.primary || '#000000';
@@ -781,8 +880,10 @@ export class PDFWatermarkEngine {
       case 'pattern':
         mode = 'grid';
         break;
-      case 'corner':
       case 'edge':
+        mode = pageRule && settings.position.edge ? 'single' : 'boundary';
+        break;
+      case 'corner':
         mode = 'boundary';
         break;
       case 'center':
@@ -800,6 +901,18 @@ export class PDFWatermarkEngine {
       mode
     };
 
+    // 图片/混合水印使用Logo，混合水印同时保留文字
+    if (settings.type !== 'text' && settings.image?.source) {
+      config.image = {
+        source: settings.image.source,
+        width: settings.image.width,
+        height: settings.image.height,
+        preserveAspectRatio: settings.image.preserveAspectRatio,
+        scale: settings.position.scale,
+        withText: settings.type === 'hybrid'
+      };
+    }
+
     // 设置模式特定参数
     if (mode === 'grid' && settings.position.pattern) {
       config.grid = {
@@ -811,6 +924,21 @@ export class PDFWatermarkEngine {
       };
     }
 
+    const edge = pageRule && settings.position.placement === 'edge' ? settings.position.edge : undefined;
+    if (edge) {
+      config.position = {
+        x: edge === 'left' || edge === 'right' ? edge : 'center',
+        y: edge === 'top' || edge === 'bottom' ? edge : 'middle',
+        margin: settings.position.margin?.[edge] ?? 20
+      };
+      // 页眉页脚文字沿边水平排列
+      config.rotation = settings.position.rotation || 0;
+    }
+
+    if (pageRule && settings.pages) {
+      config.pages = settings.pages;
+    }
+
     return config;
   }
 
@@ -932,15 +1060,18 @@ export class PDFWatermarkEngine {
         // 添加文本内容
         this.addTextContentToPage(page, pageContent, options);
         
-        // 添加水印
-        const pageWatermarkCount = await this.addWatermarksToPage(
-          pdfDoc, 
-          page, 
-          watermarkConfig, 
-          i + 1
-        );
-        
-        totalWatermarkCount += pageWatermarkCount;
+        // 添加水印，按页规则筛选，没有文字的页面视为空白页
+        for (const layer of [watermarkConfig, ...(watermarkConfig.pageRules || [])]) {
+          if (PageRules.matches(layer.pages, i + 1, pages.length, !pageContent.trim())) {
+            totalWatermarkCount += await this.addWatermarksToPage(
+              pdfDoc, 
+              page, 
+              layer, 
+              i + 1,
+              pages.length
+            );
+          }
+        }
       }
       
       // 生成PDF字节数据
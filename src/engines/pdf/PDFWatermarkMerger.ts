@@ -448,7 +448,7 @@ export class PDFWatermarkMerger {
   /**
    * SVG转PNG工具方法
    */
-  private static async convertSVGToPNG(svgBlob: Blob): Promise<ArrayBuffer> {
+  static async convertSVGToPNG(svgBlob: Blob): Promise<ArrayBuffer> {
     return new Promise((resolve, reject) => {
       const canvas = document.createElement('canvas');
       const ctx = canvas.getContext('2d');
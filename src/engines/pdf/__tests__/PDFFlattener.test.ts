@@ -0,0 +1,98 @@
+/**
+ * PDF栅格化测试 - 单元测试
+ * 覆盖：质量预设、按页重建图片PDF、不可见文字层
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Blob as NodeBlob } from 'node:buffer';
+import { PDFArray, PDFDocument, PDFPage, PDFRawStream, decodePDFRawStream } from 'pdf-lib';
+import { PDFFlattener, type PageSnapshotter } from '../PDFFlattener';
+import type { PDFSnapshotOptions } from '../PDFPageRenderer';
+
+// 1x1像素PNG
+const PIXEL_PNG = Uint8Array.from(
+  atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='),
+  char => char.charCodeAt(0)
+);
+
+function createSnapshotter(sizes: Array<[number, number]>, calls: PDFSnapshotOptions[]): PageSnapshotter {
+  return async (_bytes, options, onPage) => {
+    calls.push(options);
+    for (let index = 0; index < sizes.length; index++) {
+      const [width, height] = sizes[index];
+      await onPage({
+        pageNumber: index + 1,
+        width,
+        height,
+        image: new NodeBlob([PIXEL_PNG], { type: 'image/png' }) as unknown as Blob,
+        textItems: options.includeText
+          ? [{ text: `Page ${index + 1} body`, transform: [12, 0, 0, 12, 72, height - 100], width: 80 }]
+          : undefined
+      });
+    }
+    return sizes.length;
+  };
+}
+
+function readContent(page: PDFPage): string {
+  const contents = page.node.Contents()!;
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map(ref => page.doc.context.lookup(ref))
+    : [contents];
+  return streams
+    .map(stream => new TextDecoder().decode(decodePDFRawStream(stream as PDFRawStream).decode()))
+    .join('\n');
+}
+
+describe('PDFFlattener', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should resolve presets and clamp custom quality', () => {
+    expect(PDFFlattener.resolveQuality({ enabled: true, preset: 'print', keepTextLayer: false }))
+      .toEqual({ dpi: 300, quality: 0.92 });
+    expect(PDFFlattener.resolveQuality({ enabled: true, preset: 'custom', dpi: 2000, quality: 0, keepTextLayer: false }))
+      .toEqual({ dpi: 600, quality: 0.8 });
+  });
+
+  it('should rebuild every page as a single image at the original size', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const calls: PDFSnapshotOptions[] = [];
+
+    const result = await PDFFlattener.flatten(
+      new Uint8Array(),
+      { enabled: true, preset: 'screen', keepTextLayer: false },
+      { snapshotter: createSnapshotter([[595, 842], [842, 595]], calls) }
+    );
+
+    expect(calls[0]).toMatchObject({ scale: 96 / 72, type: 'image/jpeg', quality: 0.6, includeText: false });
+    expect(result).toMatchObject({ pageCount: 2, textItemCount: 0, dpi: 96 });
+
+    const pdfDoc = await PDFDocument.load(result.bytes);
+    expect(pdfDoc.getPages().map(page => page.getSize())).toEqual([
+      { width: 595, height: 842 },
+      { width: 842, height: 595 }
+    ]);
+  });
+
+  it('should keep an invisible text layer aligned with the original text', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const calls: PDFSnapshotOptions[] = [];
+
+    const result = await PDFFlattener.flatten(
+      new Uint8Array(),
+      { enabled: true, preset: 'standard', keepTextLayer: true },
+      { snapshotter: createSnapshotter([[300, 400]], calls) }
+    );
+
+    expect(calls[0].includeText).toBe(true);
+    expect(result.textItemCount).toBe(1);
+
+    const [page] = (await PDFDocument.load(result.bytes)).getPages();
+    const content = readContent(page);
+    expect(content).toContain('Do');
+    expect(content).toContain('3 Tr');
+    expect(content).toContain('1 0 0 1 72 300 Tm');
+  });
+});
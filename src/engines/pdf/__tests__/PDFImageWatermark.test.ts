@@ -0,0 +1,122 @@
+/**
+ * PDF图片水印测试 - 单元测试
+ * 覆盖：格式检测、尺寸计算、Logo只嵌入一次并被所有页面引用、ImageData编码
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Blob as NodeBlob } from 'node:buffer';
+import { PDFDocument, type PDFImage } from 'pdf-lib';
+import { PDFImageWatermark, type EmbeddedWatermarkImage } from '../PDFImageWatermark';
+
+// 1x1 PNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
+
+const pngBytes = (): Uint8Array => Uint8Array.from(atob(PNG_BASE64), c => c.charCodeAt(0));
+
+const countImageXObjects = (pdfBytes: Uint8Array): number => {
+  const text = new TextDecoder('latin1').decode(pdfBytes);
+  return (text.match(/\/Subtype\s*\/Image/g) || []).length;
+};
+
+describe('PDFImageWatermark', () => {
+  describe('detectFormat', () => {
+    it('should detect PNG, JPEG and SVG', () => {
+      expect(PDFImageWatermark.detectFormat(pngBytes())).toBe('png');
+      expect(PDFImageWatermark.detectFormat(new Uint8Array([0xFF, 0xD8, 0xFF, 0xE0]))).toBe('jpeg');
+      expect(PDFImageWatermark.detectFormat(new TextEncoder().encode('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBe('svg');
+      expect(PDFImageWatermark.detectFormat(new Uint8Array([0x00, 0x01, 0x02]))).toBe('unknown');
+    });
+  });
+
+  describe('calculateSize', () => {
+    const embedded: EmbeddedWatermarkImage = { image: {} as PDFImage, format: 'png', width: 400, height: 200 };
+
+    it('should default to a quarter of the page width', () => {
+      expect(PDFImageWatermark.calculateSize(embedded, 600, {})).toEqual({ width: 150, height: 75 });
+    });
+
+    it('should fit inside the box when preserving aspect ratio', () => {
+      const size = PDFImageWatermark.calculateSize(embedded, 600, {
+        width: 100,
+        height: 100,
+        preserveAspectRatio: true
+      });
+      expect(size).toEqual({ width: 100, height: 50 });
+    });
+
+    it('should stretch and scale when aspect ratio is not preserved', () => {
+      const size = PDFImageWatermark.calculateSize(embedded, 600, {
+        width: 100,
+        height: 100,
+        preserveAspectRatio: false,
+        scale: 2
+      });
+      expect(size).toEqual({ width: 200, height: 200 });
+    });
+  });
+
+  describe('embed', () => {
+    const buildWatermarkedPDF = async (pageCount: number): Promise<Uint8Array> => {
+      const pdfDoc = await PDFDocument.create();
+      for (let i = 0; i < pageCount; i++) {
+        pdfDoc.addPage([595, 842]);
+      }
+
+      const logo = await PDFImageWatermark.embed(pdfDoc, pngBytes());
+      expect(logo.format).toBe('png');
+
+      for (const page of pdfDoc.getPages()) {
+        PDFImageWatermark.drawCentered(page, logo, 297, 421, {
+          width: 100,
+          height: 100,
+          opacity: 0.5,
+          rotation: 45
+        });
+        PDFImageWatermark.drawCentered(page, logo, 100, 100, {
+          width: 50,
+          height: 50,
+          opacity: 0.5
+        });
+      }
+
+      return pdfDoc.save({ useObjectStreams: false });
+    };
+
+    it('should embed the logo once and reference it from every page', async () => {
+      const singlePage = await buildWatermarkedPDF(1);
+      const manyPages = await buildWatermarkedPDF(5);
+
+      // 图片对象数量（含透明度蒙版）不随页数增长
+      expect(countImageXObjects(singlePage)).toBeGreaterThan(0);
+      expect(countImageXObjects(manyPages)).toBe(countImageXObjects(singlePage));
+    });
+
+    it('should encode ImageData sources as PNG', async () => {
+      class FakeImageData {
+        constructor(public data: Uint8ClampedArray, public width: number, public height: number) {}
+      }
+      vi.stubGlobal('ImageData', FakeImageData);
+      const toBlob = vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(callback => {
+        callback(new NodeBlob([pngBytes()], { type: 'image/png' }) as unknown as Blob);
+      });
+
+      try {
+        const pdfDoc = await PDFDocument.create();
+        const source = new FakeImageData(new Uint8ClampedArray(4), 1, 1) as unknown as ImageData;
+        const logo = await PDFImageWatermark.embed(pdfDoc, source);
+
+        expect(logo).toMatchObject({ format: 'png', width: 1, height: 1 });
+        expect(toBlob).toHaveBeenCalledWith(expect.any(Function), 'image/png');
+      } finally {
+        toBlob.mockRestore();
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should reject unsupported formats', async () => {
+      const pdfDoc = await PDFDocument.create();
+      await expect(PDFImageWatermark.embed(pdfDoc, new Uint8Array([1, 2, 3, 4])))
+        .rejects.toThrow('不支持的水印图片格式');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * PDF加密测试 - 单元测试
+ * 覆盖：权限位、AES-128/AES-256加解密往返、打开密码与权限密码、未加密PDF直通
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { webcrypto } from 'node:crypto';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, PDFRawStream, StandardFonts, decodePDFRawStream } from 'pdf-lib';
+import { PDFSecurity } from '../PDFSecurity';
+import type { PDFEncryptionConfig } from '../../../types/watermark.types';
+
+const TITLE = '机密 Quarterly Report';
+
+async function createPdf(): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(TITLE);
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  pdfDoc.addPage([300, 200]).drawText('CONFIDENTIAL', { x: 20, y: 100, size: 14, font });
+  pdfDoc.addPage([300, 200]);
+  return pdfDoc.save({ useObjectStreams: true });
+}
+
+function config(overrides: Partial<PDFEncryptionConfig>): PDFEncryptionConfig {
+  return {
+    enabled: true,
+    algorithm: 'aes-128',
+    userPassword: 'open',
+    ownerPassword: 'owner',
+    permissions: { print: true, copy: false, modify: false, annotate: false },
+    ...overrides
+  };
+}
+
+async function readEncryptDict(bytes: Uint8Array): Promise<PDFDict> {
+  const pdfDoc = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  return pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Encrypt, PDFDict);
+}
+
+async function expectReadable(bytes: Uint8Array): Promise<void> {
+  const pdfDoc = await PDFDocument.load(bytes);
+  const contents = pdfDoc.getPage(0).node.lookup(PDFName.of('Contents'), PDFArray).lookup(0, PDFRawStream);
+
+  expect(pdfDoc.getTitle()).toBe(TITLE);
+  expect(pdfDoc.getPageCount()).toBe(2);
+  expect(new TextDecoder().decode(decodePDFRawStream(contents).decode())).toContain('Tj');
+}
+
+describe('PDFSecurity', () => {
+  beforeAll(() => {
+    vi.stubGlobal('crypto', webcrypto);
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should map permissions to signed /P flags', () => {
+    expect(PDFSecurity.permissionsToFlags({ print: false, copy: false, modify: false, annotate: false })).toBe(-3392);
+    expect(PDFSecurity.permissionsToFlags({ print: true, copy: false, modify: false, annotate: false })).toBe(-1340);
+    expect(PDFSecurity.permissionsToFlags({ print: true, copy: true, modify: true, annotate: true })).toBe(-4);
+  });
+
+  it('should encrypt with AES-128 and open with either password', async () => {
+    const encrypted = await PDFSecurity.encrypt(await createPdf(), config({}));
+
+    expect(PDFSecurity.isEncrypted(encrypted)).toBe(true);
+    await expect(PDFDocument.load(encrypted)).rejects.toThrow();
+    const dict = await readEncryptDict(encrypted);
+    expect(dict.lookup(PDFName.of('V'), PDFNumber).asNumber()).toBe(4);
+    expect(dict.lookup(PDFName.of('P'), PDFNumber).asNumber()).toBe(-1340);
+    expect(dict.lookup(PDFName.of('CF'), PDFDict).lookup(PDFName.of('StdCF'), PDFDict).get(PDFName.of('CFM'))).toBe(PDFName.of('AESV2'));
+
+    await expectReadable(await PDFSecurity.open(encrypted, 'open'));
+    await expectReadable(await PDFSecurity.open(encrypted, 'owner'));
+    await expect(PDFSecurity.open(encrypted)).rejects.toThrow('PDF已加密，请提供打开密码');
+    await expect(PDFSecurity.open(encrypted, 'wrong')).rejects.toThrow('PDF密码不正确');
+  });
+
+  it('should encrypt with AES-256 and Unicode passwords', async () => {
+    const encrypted = await PDFSecurity.encrypt(await createPdf(), config({ algorithm: 'aes-256', userPassword: '打开', ownerPassword: '权限' }));
+
+    const dict = await readEncryptDict(encrypted);
+    expect(dict.lookup(PDFName.of('V'), PDFNumber).asNumber()).toBe(5);
+    expect(dict.lookup(PDFName.of('R'), PDFNumber).asNumber()).toBe(6);
+
+    await expectReadable(await PDFSecurity.open(encrypted, '打开'));
+    await expectReadable(await PDFSecurity.open(encrypted, '权限'));
+    await expect(PDFSecurity.open(encrypted, '打')).rejects.toThrow('PDF密码不正确');
+  });
+
+  it('should open permission-only PDFs without a password and pass plain PDFs through', async () => {
+    const plain = await createPdf();
+    const encrypted = await PDFSecurity.encrypt(plain, config({ algorithm: 'aes-256', userPassword: '', ownerPassword: '' }));
+
+    await expectReadable(await PDFSecurity.open(encrypted));
+    expect(PDFSecurity.isEncrypted(plain)).toBe(false);
+    expect(await PDFSecurity.open(plain, 'ignored')).toBe(plain);
+  });
+});
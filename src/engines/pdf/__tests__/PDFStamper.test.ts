@@ -0,0 +1,100 @@
+/**
+ * PDF页眉页脚加盖测试 - 单元测试
+ * 覆盖：Bates编号格式、跨文件连续编号、页码变量、页边对齐
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { PDFDocument, PDFPage } from 'pdf-lib';
+import { PDFStamper } from '../PDFStamper';
+import type { StampConfig } from '../../../types/watermark.types';
+
+const config: StampConfig = {
+  enabled: true,
+  items: [
+    { text: '{filename} {date:YYYY}', x: 'left', y: 'top' },
+    { text: 'Page {page} of {pages}', x: 'center', y: 'bottom' },
+    { text: '{bates}', x: 'right', y: 'bottom' }
+  ],
+  bates: { prefix: 'ACME', digits: 6, start: 1 },
+  fontSize: 10,
+  color: '#333333',
+  margin: 20
+};
+
+async function createPDF(pageCount: number): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) {
+    pdfDoc.addPage([200, 300]);
+  }
+  return pdfDoc.save();
+}
+
+function recordDrawText() {
+  const drawn: Array<{ text: string; x: number; y: number }> = [];
+  const drawText = PDFPage.prototype.drawText;
+  vi.spyOn(PDFPage.prototype, 'drawText').mockImplementation(function (this: PDFPage, text, options) {
+    drawn.push({ text, x: options!.x!, y: options!.y! });
+    return drawText.call(this, text, options);
+  });
+  return drawn;
+}
+
+describe('PDFStamper', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should format Bates numbers with prefix and padding', () => {
+    expect(PDFStamper.formatBates({ prefix: 'ACME', digits: 6, start: 1 }, 42)).toBe('ACME000042');
+    expect(PDFStamper.formatBates({ prefix: '', digits: 3, start: 1 }, 12345)).toBe('12345');
+  });
+
+  it('should continue Bates numbering across files in a batch', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const drawn = recordDrawText();
+
+    const first = await PDFStamper.stampPDF(await createPDF(2), config, {
+      variables: { filename: 'a.pdf', date: new Date(2024, 0, 1) }
+    });
+    const second = await PDFStamper.stampPDF(await createPDF(3), config, {
+      batesStart: first.nextBatesNumber,
+      variables: { filename: 'b.pdf', date: new Date(2024, 0, 1) }
+    });
+
+    expect(first).toMatchObject({ pageCount: 2, stampCount: 6, nextBatesNumber: 3 });
+    expect(second).toMatchObject({ pageCount: 3, stampCount: 9, nextBatesNumber: 6 });
+    expect(drawn.filter(entry => entry.text.startsWith('ACME')).map(entry => entry.text)).toEqual([
+      'ACME000001', 'ACME000002', 'ACME000003', 'ACME000004', 'ACME000005'
+    ]);
+    expect(drawn.map(entry => entry.text)).toContain('Page 3 of 3');
+    expect(drawn.map(entry => entry.text)).toContain('b.pdf 2024');
+
+    // 输出仍是可加载的PDF
+    const reloaded = await PDFDocument.load(second.bytes);
+    expect(reloaded.getPageCount()).toBe(3);
+  });
+
+  it('should align stamps to the page margins', () => {
+    const page = { width: 200, height: 300 };
+    const text = { width: 50, height: 8 };
+
+    expect(PDFStamper.calculatePosition(page, text, { x: 'left', y: 'top' }, 20)).toEqual({ x: 20, y: 272 });
+    expect(PDFStamper.calculatePosition(page, text, { x: 'center', y: 'bottom' }, 20)).toEqual({ x: 75, y: 20 });
+    expect(PDFStamper.calculatePosition(page, text, { x: 'right', y: 'bottom' }, 20)).toEqual({ x: 130, y: 20 });
+  });
+
+  it('should skip items that resolve to empty text', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const drawn = recordDrawText();
+
+    const result = await PDFStamper.stampPDF(await createPDF(1), {
+      ...config,
+      items: [{ text: '{user}', x: 'left', y: 'top' }, { text: '{bates}', x: 'right', y: 'top' }],
+      bates: { prefix: 'X-', digits: 4, start: 100 }
+    });
+
+    expect(result.stampCount).toBe(1);
+    expect(result.nextBatesNumber).toBe(101);
+    expect(drawn.map(entry => entry.text)).toEqual(['X-0100']);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * PDF水印引擎测试 - 单元测试
+ * 覆盖：WatermarkSettings到引擎配置的转换（边缘布局、按页规则、混合水印）
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PDFWatermarkEngine } from '../PDFWatermarkEngine';
+import type { WatermarkSettings } from '@/types/watermark.types';
+
+const createSettings = (overrides: Partial<WatermarkSettings> = {}): WatermarkSettings => ({
+  type: 'text',
+  text: {
+    content: 'CONFIDENTIAL',
+    font: { family: 'Arial', size: 24, weight: 'bold', style: 'normal' },
+    color: '#ff0000'
+  },
+  position: {
+    placement: 'edge',
+    edge: 'bottom',
+    margin: { top: 20, right: 20, bottom: 30, left: 20 },
+    opacity: 0.5,
+    scale: 1,
+    rotation: -45,
+    blendMode: 'normal'
+  },
+  security: {
+    generateCertificate: false,
+    hashAlgorithm: 'SHA-256',
+    embedMetadata: false,
+    tamperProtection: false,
+    blockChineseCharacters: false
+  },
+  output: { format: 'pdf', quality: 1, preserveOriginalMetadata: false },
+  ...overrides
+} as WatermarkSettings);
+
+describe('PDFWatermarkEngine', () => {
+  describe('convertFromWatermarkSettings', () => {
+    it('should keep boundary mode for the base edge watermark', () => {
+      const config = PDFWatermarkEngine.convertFromWatermarkSettings(createSettings());
+
+      expect(config.mode).toBe('boundary');
+      expect(config.position).toBeUndefined();
+      expect(config.rotation).toBe(-45);
+    });
+
+    it('should draw a single stamp on the chosen edge for page rules', () => {
+      const config = PDFWatermarkEngine.convertFromWatermarkSettings(createSettings({
+        position: { ...createSettings().position, placement: 'center' },
+        pageRules: [{
+          selection: { pages: '2-last' },
+          text: { content: '{page} / {pages}' },
+          position: { placement: 'edge', edge: 'bottom', rotation: 0 }
+        }]
+      }));
+
+      expect(config.mode).toBe('single');
+      expect(config.pageRules).toHaveLength(1);
+      expect(config.pageRules![0]).toMatchObject({
+        mode: 'single',
+        text: '{page} / {pages}',
+        rotation: 0,
+        position: { x: 'center', y: 'bottom', margin: 30 },
+        pages: { pages: '2-last' }
+      });
+    });
+
+    it('should keep the text of hybrid watermarks alongside the logo', () => {
+      const source = new Blob(['logo'], { type: 'image/png' });
+      const config = PDFWatermarkEngine.convertFromWatermarkSettings(createSettings({
+        type: 'hybrid',
+        image: { source, preserveAspectRatio: true }
+      }));
+
+      expect(config.text).toBe('CONFIDENTIAL');
+      expect(config.image).toMatchObject({ source, withText: true });
+    });
+  });
+});
@@ -0,0 +1,406 @@
+/**
+ * 隐形水印引擎 - DCT域量化索引调制（QIM）
+ *
+ * 核心特性：
+ * 1. 载荷（所有者ID、文档ID、时间戳）写入亮度通道8x8块的中频DCT系数
+ * 2. 块网格与JPEG一致，可抵抗PNG重新保存和中等质量的JPEG重压缩
+ * 3. 载荷按密钥打散并重复嵌入，提取时软判决投票并给出置信度
+ * 4. 纯像素运算，主线程与Worker通用
+ */
+
+import type {
+  InvisibleWatermarkConfig,
+  InvisibleWatermarkExtraction,
+  InvisibleWatermarkPayload
+} from '../../types/watermark.types';
+
+export interface InvisiblePixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// key: 打散顺序的密钥，嵌入与提取必须一致；strength: 量化步长，越大越稳健但越容易察觉
+export type InvisibleWatermarkOptions = Pick<InvisibleWatermarkConfig, 'key' | 'strength'>;
+
+export class InvisibleWatermark {
+  private static readonly MAGIC = [0x49, 0x57]; // 'IW'
+  private static readonly VERSION = 1;
+  private static readonly FRAME_BYTES = 64;
+  private static readonly FRAME_BITS = InvisibleWatermark.FRAME_BYTES * 8;
+  private static readonly MIN_REDUNDANCY = 3;
+  private static readonly BLOCK_SIZE = 8;
+  private static readonly DEFAULT_KEY = 'add-watermark-enhance';
+  private static readonly DEFAULT_STRENGTH = 28;
+  // 中频系数（u, v），避开直流分量和易被JPEG量化掉的高频
+  private static readonly COEFFICIENTS: Array<[number, number]> = [[2, 1], [1, 2]];
+
+  private static basisCache: Float32Array[] | null = null;
+
+  /**
+   * 载荷允许的最大字节数（所有者ID + 文档ID，UTF-8编码后）
+   */
+  static get maxPayloadBytes(): number {
+    // 魔数2 + 版本1 + 时间戳6 + 两个长度字段2 + CRC2
+    return this.FRAME_BYTES - 13;
+  }
+
+  /**
+   * 检查图片尺寸是否足以嵌入隐形水印
+   */
+  static canEmbed(width: number, height: number): boolean {
+    return this.getBlockCount(width, height) >= this.FRAME_BITS * this.MIN_REDUNDANCY;
+  }
+
+  /**
+   * 将载荷嵌入像素数据（原地修改）
+   */
+  static embed(
+    pixels: InvisiblePixelBuffer,
+    payload: InvisibleWatermarkPayload,
+    options: InvisibleWatermarkOptions = {}
+  ): InvisiblePixelBuffer {
+    if (!this.canEmbed(pixels.width, pixels.height)) {
+      throw new Error('图片尺寸过小，无法嵌入隐形水印');
+    }
+
+    const bits = this.bytesToBits(this.encodeFrame(payload));
+    const step = options.strength || this.DEFAULT_STRENGTH;
+    const order = this.createBlockOrder(pixels.width, pixels.height, options.key);
+    const blocksPerRow = Math.floor(pixels.width / this.BLOCK_SIZE);
+    const basis = this.getBasis();
+    const luma = new Float32Array(64);
+    const delta = new Float32Array(64);
+
+    for (let i = 0; i < order.length; i++) {
+      const blockIndex = order[i];
+      const bit = bits[i % this.FRAME_BITS];
+      const bx = (blockIndex % blocksPerRow) * this.BLOCK_SIZE;
+      const by = Math.floor(blockIndex / blocksPerRow) * this.BLOCK_SIZE;
+
+      this.readLuma(pixels, bx, by, luma);
+      delta.fill(0);
+
+      for (const coefficientBasis of basis) {
+        const coefficient = this.project(luma, coefficientBasis);
+        const target = this.quantize(coefficient, bit, step);
+        const diff = target - coefficient;
+        for (let k = 0; k < 64; k++) {
+          delta[k] += diff * coefficientBasis[k];
+        }
+      }
+
+      this.applyLumaDelta(pixels, bx, by, delta);
+    }
+
+    return pixels;
+  }
+
+  /**
+   * 从像素数据中提取载荷
+   */
+  static extract(
+    pixels: InvisiblePixelBuffer,
+    options: InvisibleWatermarkOptions = {}
+  ): InvisibleWatermarkExtraction {
+    const blockCount = this.getBlockCount(pixels.width, pixels.height);
+    if (blockCount < this.FRAME_BITS) {
+      return { found: false, confidence: 0, redundancy: 0 };
+    }
+
+    const step = options.strength || this.DEFAULT_STRENGTH;
+    const order = this.createBlockOrder(pixels.width, pixels.height, options.key);
+    const blocksPerRow = Math.floor(pixels.width / this.BLOCK_SIZE);
+    const basis = this.getBasis();
+    const luma = new Float32Array(64);
+    const scores = new Float64Array(this.FRAME_BITS);
+    const counts = new Uint32Array(this.FRAME_BITS);
+
+    for (let i = 0; i < order.length; i++) {
+      const blockIndex = order[i];
+      const bitIndex = i % this.FRAME_BITS;
+      const bx = (blockIndex % blocksPerRow) * this.BLOCK_SIZE;
+      const by = Math.floor(blockIndex / blocksPerRow) * this.BLOCK_SIZE;
+
+      this.readLuma(pixels, bx, by, luma);
+
+      for (const coefficientBasis of basis) {
+        scores[bitIndex] += this.softDecision(this.project(luma, coefficientBasis), step);
+        counts[bitIndex]++;
+      }
+    }
+
+    const bits = new Uint8Array(this.FRAME_BITS);
+    let reliability = 0;
+    for (let i = 0; i < this.FRAME_BITS; i++) {
+      bits[i] = scores[i] > 0 ? 1 : 0;
+      reliability += Math.abs(scores[i]) / counts[i];
+    }
+    reliability /= this.FRAME_BITS;
+
+    const redundancy = order.length / this.FRAME_BITS;
+    const payload = this.decodeFrame(this.bitsToBytes(bits));
+
+    if (!payload) {
+      return { found: false, confidence: 0, redundancy };
+    }
+
+    return {
+      found: true,
+      payload,
+      confidence: Math.max(0, Math.min(1, reliability)),
+      redundancy
+    };
+  }
+
+  /**
+   * 编码载荷帧：魔数 + 版本 + 时间戳 + 所有者ID + 文档ID + 填充 + CRC16
+   */
+  static encodeFrame(payload: InvisibleWatermarkPayload): Uint8Array {
+    const encoder = new TextEncoder();
+    const owner = encoder.encode(payload.ownerId);
+    const document = encoder.encode(payload.documentId);
+
+    if (owner.length + document.length > this.maxPayloadBytes) {
+      throw new Error(`隐形水印载荷过长，所有者ID与文档ID合计不能超过${this.maxPayloadBytes}字节`);
+    }
+
+    const frame = new Uint8Array(this.FRAME_BYTES);
+    let offset = 0;
+
+    frame[offset++] = this.MAGIC[0];
+    frame[offset++] = this.MAGIC[1];
+    frame[offset++] = this.VERSION;
+
+    // 48位毫秒时间戳（大端序）
+    let timestamp = Math.max(0, Math.floor(payload.timestamp));
+    for (let i = 5; i >= 0; i--) {
+      frame[offset + i] = timestamp % 256;
+      timestamp = Math.floor(timestamp / 256);
+    }
+    offset += 6;
+
+    frame[offset++] = owner.length;
+    frame.set(owner, offset);
+    offset += owner.length;
+
+    frame[offset++] = document.length;
+    frame.set(document, offset);
+
+    const crc = this.crc16(frame.subarray(0, this.FRAME_BYTES - 2));
+    frame[this.FRAME_BYTES - 2] = crc >> 8;
+    frame[this.FRAME_BYTES - 1] = crc & 0xFF;
+
+    return frame;
+  }
+
+  /**
+   * 解码载荷帧，校验失败返回null
+   */
+  static decodeFrame(frame: Uint8Array): InvisibleWatermarkPayload | null {
+    if (frame.length !== this.FRAME_BYTES) return null;
+    if (frame[0] !== this.MAGIC[0] || frame[1] !== this.MAGIC[1]) return null;
+    if (frame[2] !== this.VERSION) return null;
+
+    const expectedCrc = (frame[this.FRAME_BYTES - 2] << 8) | frame[this.FRAME_BYTES - 1];
+    if (this.crc16(frame.subarray(0, this.FRAME_BYTES - 2)) !== expectedCrc) return null;
+
+    let timestamp = 0;
+    for (let i = 0; i < 6; i++) {
+      timestamp = timestamp * 256 + frame[3 + i];
+    }
+
+    let offset = 9;
+    const ownerLength = frame[offset++];
+    if (offset + ownerLength >= this.FRAME_BYTES - 2) return null;
+    const owner = frame.subarray(offset, offset + ownerLength);
+    offset += ownerLength;
+
+    const documentLength = frame[offset++];
+    if (offset + documentLength > this.FRAME_BYTES - 2) return null;
+    const document = frame.subarray(offset, offset + documentLength);
+
+    const decoder = new TextDecoder();
+    return {
+      ownerId: decoder.decode(owner),
+      documentId: decoder.decode(document),
+      timestamp
+    };
+  }
+
+  /**
+   * 默认文档ID：文件名按UTF-8截断到16字节，且不超过所有者ID剩余的载荷空间
+   */
+  static defaultDocumentId(fileName: string, ownerId: string): string {
+    const encoder = new TextEncoder();
+    const maxBytes = Math.min(16, this.maxPayloadBytes - encoder.encode(ownerId).length);
+    let documentId = '';
+    let length = 0;
+
+    // 按码点遍历，不拆分多字节字符
+    for (const char of fileName) {
+      length += encoder.encode(char).length;
+      if (length > maxBytes) break;
+      documentId += char;
+    }
+    return documentId;
+  }
+
+  /**
+   * 计算8x8块数量
+   */
+  private static getBlockCount(width: number, height: number): number {
+    return Math.floor(width / this.BLOCK_SIZE) * Math.floor(height / this.BLOCK_SIZE);
+  }
+
+  /**
+   * 生成所选DCT系数的基函数（正交归一化）
+   */
+  private static getBasis(): Float32Array[] {
+    if (this.basisCache) return this.basisCache;
+
+    const alpha = (k: number) => (k === 0 ? Math.sqrt(1 / 8) : Math.sqrt(2 / 8));
+    this.basisCache = this.COEFFICIENTS.map(([u, v]) => {
+      const basis = new Float32Array(64);
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          basis[y * 8 + x] = alpha(u) * alpha(v) *
+            Math.cos(((2 * x + 1) * u * Math.PI) / 16) *
+            Math.cos(((2 * y + 1) * v * Math.PI) / 16);
+        }
+      }
+      return basis;
+    });
+
+    return this.basisCache;
+  }
+
+  /**
+   * 按密钥打散块顺序（Fisher-Yates）
+   */
+  private static createBlockOrder(width: number, height: number, key?: string): Uint32Array {
+    const count = this.getBlockCount(width, height);
+    const order = new Uint32Array(count);
+    for (let i = 0; i < count; i++) {
+      order[i] = i;
+    }
+
+    const random = this.createSeededRandom(key || this.DEFAULT_KEY);
+    for (let i = count - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      const temp = order[i];
+      order[i] = order[j];
+      order[j] = temp;
+    }
+
+    return order;
+  }
+
+  /**
+   * 基于字符串密钥的伪随机数生成器（FNV-1a + mulberry32）
+   */
+  private static createSeededRandom(key: string): () => number {
+    let seed = 0x811C9DC5;
+    for (let i = 0; i < key.length; i++) {
+      seed ^= key.charCodeAt(i);
+      seed = Math.imul(seed, 0x01000193);
+    }
+
+    return () => {
+      seed = (seed + 0x6D2B79F5) | 0;
+      let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  private static readLuma(pixels: InvisiblePixelBuffer, bx: number, by: number, out: Float32Array): void {
+    const { data, width } = pixels;
+    for (let y = 0; y < 8; y++) {
+      let index = ((by + y) * width + bx) * 4;
+      for (let x = 0; x < 8; x++) {
+        out[y * 8 + x] = 0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2];
+        index += 4;
+      }
+    }
+  }
+
+  /**
+   * 对RGB三个通道施加相同增量，等价于只修改亮度
+   */
+  private static applyLumaDelta(pixels: InvisiblePixelBuffer, bx: number, by: number, delta: Float32Array): void {
+    const { data, width } = pixels;
+    for (let y = 0; y < 8; y++) {
+      let index = ((by + y) * width + bx) * 4;
+      for (let x = 0; x < 8; x++) {
+        const d = delta[y * 8 + x];
+        data[index] = Math.round(data[index] + d);
+        data[index + 1] = Math.round(data[index + 1] + d);
+        data[index + 2] = Math.round(data[index + 2] + d);
+        index += 4;
+      }
+    }
+  }
+
+  private static project(luma: Float32Array, basis: Float32Array): number {
+    let sum = 0;
+    for (let k = 0; k < 64; k++) {
+      sum += luma[k] * basis[k];
+    }
+    return sum;
+  }
+
+  /**
+   * QIM量化：比特0落在kΔ格点，比特1落在kΔ + Δ/2格点
+   */
+  private static quantize(value: number, bit: number, step: number): number {
+    const offset = bit ? step / 2 : 0;
+    return Math.round((value - offset) / step) * step + offset;
+  }
+
+  /**
+   * 软判决：返回[-1, 1]，正值倾向比特1
+   */
+  private static softDecision(value: number, step: number): number {
+    const remainder = ((value % step) + step) % step;
+    const distanceToZero = Math.min(remainder, step - remainder);
+    const distanceToOne = Math.abs(remainder - step / 2);
+    return (distanceToZero - distanceToOne) / (step / 2);
+  }
+
+  private static bytesToBits(bytes: Uint8Array): Uint8Array {
+    const bits = new Uint8Array(bytes.length * 8);
+    for (let i = 0; i < bytes.length; i++) {
+      for (let b = 0; b < 8; b++) {
+        bits[i * 8 + b] = (bytes[i] >> (7 - b)) & 1;
+      }
+    }
+    return bits;
+  }
+
+  private static bitsToBytes(bits: Uint8Array): Uint8Array {
+    const bytes = new Uint8Array(bits.length / 8);
+    for (let i = 0; i < bytes.length; i++) {
+      let value = 0;
+      for (let b = 0; b < 8; b++) {
+        value = (value << 1) | bits[i * 8 + b];
+      }
+      bytes[i] = value;
+    }
+    return bytes;
+  }
+
+  /**
+   * CRC-16/CCITT-FALSE
+   */
+  private static crc16(bytes: Uint8Array): number {
+    let crc = 0xFFFF;
+    for (let i = 0; i < bytes.length; i++) {
+      crc ^= bytes[i] << 8;
+      for (let b = 0; b < 8; b++) {
+        crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xFFFF : (crc << 1) & 0xFFFF;
+      }
+    }
+    return crc;
+  }
+}
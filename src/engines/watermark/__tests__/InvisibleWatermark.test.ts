@@ -0,0 +1,184 @@
+/**
+ * 隐形水印引擎测试 - 单元测试
+ * 覆盖：载荷编解码、无损往返、模拟JPEG重压缩、密钥不匹配、尺寸限制
+ */
+
+import { describe, it, expect } from 'vitest';
+import { InvisibleWatermark, type InvisiblePixelBuffer } from '../InvisibleWatermark';
+
+const payload = {
+  ownerId: 'owner-42',
+  documentId: '合同-2024-001',
+  timestamp: 1718000000123
+};
+
+// 带纹理的测试图像（渐变 + 伪随机噪声）
+const createTestImage = (width: number, height: number): InvisiblePixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let seed = 12345;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed / 0x7fffffff;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const noise = (random() - 0.5) * 40;
+      data[i] = 60 + (x / width) * 120 + noise;
+      data[i + 1] = 80 + (y / height) * 100 + noise;
+      data[i + 2] = 100 + ((x + y) / (width + height)) * 80 + noise;
+      data[i + 3] = 255;
+    }
+  }
+
+  return { data, width, height };
+};
+
+// 标准JPEG亮度量化表
+const LUMA_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99
+];
+
+// 模拟JPEG有损压缩：亮度8x8 DCT量化后反变换，色度保持不变
+const simulateJpeg = (image: InvisiblePixelBuffer, quality: number): InvisiblePixelBuffer => {
+  const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+  const table = LUMA_QUANT.map(q => Math.max(1, Math.floor((q * scale + 50) / 100)));
+  const alpha = (k: number) => (k === 0 ? Math.sqrt(1 / 8) : Math.sqrt(2 / 8));
+  const cos = (a: number, b: number) => Math.cos(((2 * a + 1) * b * Math.PI) / 16);
+  const data = new Uint8ClampedArray(image.data);
+
+  for (let by = 0; by + 8 <= image.height; by += 8) {
+    for (let bx = 0; bx + 8 <= image.width; bx += 8) {
+      const luma = new Float64Array(64);
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          const i = ((by + y) * image.width + bx + x) * 4;
+          luma[y * 8 + x] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        }
+      }
+
+      const coefficients = new Float64Array(64);
+      for (let v = 0; v < 8; v++) {
+        for (let u = 0; u < 8; u++) {
+          let sum = 0;
+          for (let y = 0; y < 8; y++) {
+            for (let x = 0; x < 8; x++) {
+              sum += luma[y * 8 + x] * cos(x, u) * cos(y, v);
+            }
+          }
+          const q = table[v * 8 + u];
+          coefficients[v * 8 + u] = Math.round((alpha(u) * alpha(v) * sum) / q) * q;
+        }
+      }
+
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          let value = 0;
+          for (let v = 0; v < 8; v++) {
+            for (let u = 0; u < 8; u++) {
+              value += alpha(u) * alpha(v) * coefficients[v * 8 + u] * cos(x, u) * cos(y, v);
+            }
+          }
+          const i = ((by + y) * image.width + bx + x) * 4;
+          const delta = value - luma[y * 8 + x];
+          data[i] = Math.round(data[i] + delta);
+          data[i + 1] = Math.round(data[i + 1] + delta);
+          data[i + 2] = Math.round(data[i + 2] + delta);
+        }
+      }
+    }
+  }
+
+  return { data, width: image.width, height: image.height };
+};
+
+describe('InvisibleWatermark', () => {
+  describe('frame encoding', () => {
+    it('should round-trip the payload through a frame', () => {
+      const frame = InvisibleWatermark.encodeFrame(payload);
+      expect(InvisibleWatermark.decodeFrame(frame)).toEqual(payload);
+    });
+
+    it('should reject corrupted frames', () => {
+      const frame = InvisibleWatermark.encodeFrame(payload);
+      frame[12] ^= 0xFF;
+      expect(InvisibleWatermark.decodeFrame(frame)).toBeNull();
+    });
+
+    it('should reject payloads that are too long', () => {
+      expect(() => InvisibleWatermark.encodeFrame({
+        ...payload,
+        ownerId: 'x'.repeat(InvisibleWatermark.maxPayloadBytes)
+      })).toThrow('隐形水印载荷过长');
+    });
+
+    it('should truncate default document IDs by UTF-8 bytes', () => {
+      expect(InvisibleWatermark.defaultDocumentId('季度报告终稿-机密.pdf', 'owner-1')).toBe('季度报告终');
+      expect(InvisibleWatermark.defaultDocumentId('report.pdf', 'owner-1')).toBe('report.pdf');
+      expect(InvisibleWatermark.defaultDocumentId('季度报告.pdf', 'x'.repeat(InvisibleWatermark.maxPayloadBytes - 7))).toBe('季度');
+    });
+  });
+
+  describe('embed and extract', () => {
+    it('should recover the payload from lossless pixels', () => {
+      const image = createTestImage(384, 320);
+      InvisibleWatermark.embed(image, payload);
+
+      const result = InvisibleWatermark.extract(image);
+      expect(result.found).toBe(true);
+      expect(result.payload).toEqual(payload);
+      expect(result.confidence).toBeGreaterThan(0.8);
+      expect(result.redundancy).toBeGreaterThanOrEqual(3);
+    });
+
+    it('should keep pixel changes imperceptible', () => {
+      const image = createTestImage(384, 320);
+      const original = new Uint8ClampedArray(image.data);
+      InvisibleWatermark.embed(image, payload);
+
+      let maxDiff = 0;
+      for (let i = 0; i < original.length; i++) {
+        maxDiff = Math.max(maxDiff, Math.abs(original[i] - image.data[i]));
+      }
+      expect(maxDiff).toBeLessThanOrEqual(8);
+    });
+
+    it('should survive moderate JPEG recompression', () => {
+      const image = createTestImage(384, 320);
+      InvisibleWatermark.embed(image, payload);
+
+      const result = InvisibleWatermark.extract(simulateJpeg(image, 75));
+      expect(result.found).toBe(true);
+      expect(result.payload).toEqual(payload);
+      expect(result.confidence).toBeGreaterThan(0.3);
+    });
+
+    it('should not find a payload with the wrong key', () => {
+      const image = createTestImage(384, 320);
+      InvisibleWatermark.embed(image, payload, { key: 'secret-a' });
+
+      expect(InvisibleWatermark.extract(image, { key: 'secret-b' }).found).toBe(false);
+      expect(InvisibleWatermark.extract(image, { key: 'secret-a' }).found).toBe(true);
+    });
+
+    it('should not find a payload in an unmarked image', () => {
+      const result = InvisibleWatermark.extract(createTestImage(384, 320));
+      expect(result.found).toBe(false);
+      expect(result.confidence).toBe(0);
+    });
+
+    it('should refuse images that are too small', () => {
+      expect(InvisibleWatermark.canEmbed(128, 128)).toBe(false);
+      expect(() => InvisibleWatermark.embed(createTestImage(128, 128), payload))
+        .toThrow('图片尺寸过小');
+    });
+  });
+});
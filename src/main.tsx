@@ -6,8 +6,16 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { HttpConversionBackend } from './utils/document/ConversionBackend';
+import { DirectWordToPDFConverter } from './utils/document/DirectWordToPDFConverter';
 import './index.css';
 
+// 配置了转换服务地址时启用服务器端Word转PDF
+const converterBackend = HttpConversionBackend.fromEnv(import.meta.env);
+if (converterBackend) {
+  DirectWordToPDFConverter.registerBackend(converterBackend);
+}
+
 // 检查浏览器兼容性
 const checkBrowserSupport = () => {
   const features = {
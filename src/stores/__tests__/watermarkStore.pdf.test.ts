@@ -0,0 +1,101 @@
+/**
+ * 状态管理PDF处理路径测试 - 单元测试
+ * 覆盖：含{page}/{pages}的拉丁文字水印走增强PDF引擎逐页解析
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { File as NodeFile } from 'node:buffer';
+import { webcrypto } from 'node:crypto';
+import * as PDFLib from 'pdf-lib';
+import { useWatermarkStore } from '../watermarkStore';
+import { PDFWatermarkEngine } from '../../engines/pdf/PDFWatermarkEngine';
+import { DocumentProcessor } from '../../utils/document/DocumentProcessor';
+import type { WatermarkSettings } from '../../types/watermark.types';
+
+vi.mock('../../utils/cdn/LibraryLoader', () => ({
+  LibraryLoader: {
+    loadLibrary: vi.fn(async (name: string) => {
+      if (name !== 'pdf-lib') {
+        throw new Error(`${name} unavailable`);
+      }
+      (window as any).PDFLib = PDFLib;
+    })
+  }
+}));
+
+// DocumentProcessor依赖pdfjs，jsdom中无法加载
+vi.mock('../../utils/document/DocumentProcessor', () => ({
+  DocumentProcessor: vi.fn()
+}));
+
+vi.mock('../../engines/pdf/PDFPageRenderer', () => ({
+  PDFPageRenderer: {}
+}));
+
+const settings: WatermarkSettings = {
+  type: 'text',
+  text: {
+    content: 'Page {page} of {pages}',
+    font: { family: 'Arial', size: 24, weight: 'normal', style: 'normal' },
+    color: '#ff0000'
+  },
+  position: {
+    placement: 'center',
+    margin: { top: 20, right: 20, bottom: 20, left: 20 },
+    opacity: 0.5,
+    scale: 1,
+    rotation: 0,
+    blendMode: 'source-over'
+  },
+  security: {
+    generateCertificate: false,
+    hashAlgorithm: 'SHA-256',
+    embedMetadata: false,
+    tamperProtection: false,
+    blockChineseCharacters: false
+  },
+  output: { format: 'png', quality: 1, preserveOriginalMetadata: false, compression: { enabled: false, level: 'medium' } }
+};
+
+describe('WatermarkStore - PDF处理路径', () => {
+  beforeAll(async () => {
+    vi.stubGlobal('crypto', webcrypto);
+    await PDFWatermarkEngine.initialize();
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should resolve page variables per page for centered Latin text', async () => {
+    const pdfDoc = await PDFLib.PDFDocument.create();
+    for (let i = 0; i < 3; i++) {
+      pdfDoc.addPage([595, 842]);
+    }
+    const bytes = await pdfDoc.save();
+    const file = new NodeFile([bytes], 'report.pdf', { type: 'application/pdf' }) as unknown as File;
+    // Node的File返回另一个realm的ArrayBuffer，引擎的instanceof判断会失败
+    file.arrayBuffer = async () => new Uint8Array(bytes).buffer;
+
+    const store = useWatermarkStore.getState();
+    useWatermarkStore.setState({
+      files: { ...store.files, selected: [file] },
+      pdfEngine: { ...store.pdfEngine, initialized: true }
+    });
+    // jsdom没有canvas，只记录每页实际绘制的文字
+    const addSingleWatermark = vi.spyOn(PDFWatermarkEngine as any, 'addSingleWatermark').mockResolvedValue(1);
+
+    await useWatermarkStore.getState().processFiles(settings);
+
+    const result = useWatermarkStore.getState().files.results.get(`${file.name}-${file.size}`)!;
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+    expect(result.metadata).toMatchObject({ enhancedEngine: true, pageCount: 3, watermarkCount: 3 });
+    expect(addSingleWatermark.mock.calls.map(call => (call[2] as { text: string }).text)).toEqual([
+      'Page 1 of 3',
+      'Page 2 of 3',
+      'Page 3 of 3'
+    ]);
+    expect(DocumentProcessor).not.toHaveBeenCalled();
+  });
+});
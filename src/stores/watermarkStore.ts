@@ -8,9 +8,15 @@
 import { create } from 'zustand';
 import type { WatermarkStore } from '@/types/app.types';
 import type { WatermarkSettings, WatermarkResult } from '@/types/watermark.types';
-import { SimpleWatermarkProcessor } from '@/utils/watermark/SimpleWatermarkProcessor';
+import type { DistributionRecipient } from '@/types/distribution.types';
+import { SimpleWatermarkProcessor, type SimpleWatermarkSettings } from '@/utils/watermark/SimpleWatermarkProcessor';
 import { DocumentProcessor } from '@/utils/document/DocumentProcessor';
-// import { NativeDocumentProcessor } from '@/utils/document/NativeDocumentProcessor'; // 暂未使用
+import { NativeDocumentProcessor } from '@/utils/document/NativeDocumentProcessor';
+import { PageRules } from '@/utils/watermark/PageRules';
+import { PDFStamper } from '@/engines/pdf/PDFStamper';
+import { PDFFlattener } from '@/engines/pdf/PDFFlattener';
+import { PDFSecurity } from '@/engines/pdf/PDFSecurity';
+import { LegacyWordExtractor } from '@/utils/document/LegacyWordExtractor';
 import { EnhancedDocumentProcessor } from '@/utils/document/EnhancedDocumentProcessor';
 // 方案A核心模块集成
 import { HybridDocumentProcessor } from '@/utils/document/HybridDocumentProcessor';
@@ -20,6 +26,48 @@ import { PDFWatermarkMerger } from '../engines/pdf/PDFWatermarkMerger';
 import { ChineseWatermarkRenderer } from '../engines/canvas/ChineseWatermarkRenderer';
 import { PDFWatermarkEngine } from '../engines/pdf/PDFWatermarkEngine';
 import { LibraryLoader } from '../utils/cdn/LibraryLoader';
+import { CertificateSystem } from '../engines/crypto/CertificateSystem';
+import { WatermarkVerifier } from '@/utils/watermark/WatermarkVerifier';
+import { downloadAsZip, generateWatermarkedFilename } from '@/utils/downloadHelper';
+import { getRelativeDirectory } from '@/utils/fileTree';
+import { TemplateLibrary } from '@/utils/watermark/TemplateLibrary';
+import { WatermarkVariables } from '@/utils/watermark/WatermarkVariables';
+import { RecipientList } from '@/utils/watermark/RecipientList';
+import { IssuanceRegistry } from '@/utils/watermark/IssuanceRegistry';
+import { SigningKeyStore } from '@/utils/watermark/SigningKeyStore';
+import { InvisibleWatermark } from '@/engines/watermark/InvisibleWatermark';
+
+// 证书签名密钥持久化在IndexedDB，签发前由密钥存储提供，验证方可长期信任同一公钥
+const certificateSystem = new CertificateSystem();
+const signingKeyStore = new SigningKeyStore();
+
+// 模板库持久化在IndexedDB，刷新页面后仍然可用
+const templateLibrary = new TemplateLibrary();
+
+// 签发登记：带证书的副本记录指纹，用于泄露溯源
+const issuanceRegistry = new IssuanceRegistry();
+
+// 原生文档处理器的设置：网格布局按平铺处理，最高压缩级别按high处理
+const toDocumentSettings = (settings: WatermarkSettings): SimpleWatermarkSettings => {
+  const { placement } = settings.position;
+  const { compression } = settings.output;
+  return {
+    type: settings.type,
+    text: settings.text,
+    image: settings.image,
+    position: { ...settings.position, placement: placement === 'grid' ? 'pattern' : placement },
+    security: settings.security,
+    output: {
+      ...settings.output,
+      compression: {
+        enabled: compression.enabled,
+        level: compression.level === 'maximum' ? 'high' : compression.level
+      }
+    },
+    pages: settings.pages,
+    pageRules: settings.pageRules
+  };
+};
 
 export const useWatermarkStore = create<WatermarkStore>((set, get) => ({
   // Canvas 渲染引擎状态 - 增强版
@@ -172,6 +220,26 @@ export const useWatermarkStore = create<WatermarkStore>((set, get) => ({
     ]
   },
 
+  // 水印模板库状态
+  templates: {
+    items: [],
+    loaded: false,
+    appliedTemplateId: null
+  },
+
+  // 分发模式收件人列表
+  distribution: {
+    recipients: [],
+    listName: null,
+    errors: []
+  },
+
+  // 签发登记（泄露溯源）
+  attribution: {
+    records: [],
+    loaded: false
+  },
+
   // UI 状态
   ui: {
     loading: false,
@@ -369,18 +437,47 @@ export const useWatermarkStore = create<WatermarkStore>((set, get) => ({
         selected: files
       }
     }));
+
+    // 按首个文件的类型套用默认模板
+    const fileType = files.length > 0 ? TemplateLibrary.getFileType(files[0]) : null;
+    const defaultTemplate = fileType && get().templates.items.find(item => item.defaultFor.includes(fileType));
+    if (defaultTemplate) {
+      console.log('📋 套用默认模板:', { fileType, template: defaultTemplate.name });
+      get().applyTemplate(defaultTemplate.id);
+    }
   },
 
   /**
    * 增强文件处理 - 集成新的引擎和智能处理流程
    */
-  processFiles: async (settings: WatermarkSettings) => {
+  processFiles: async (batchSettings: WatermarkSettings, options = {}) => {
     const state = get();
     
     if (state.files.selected.length === 0) {
       throw new Error('No files selected');
     }
 
+    // 分发模式：同一源文件按收件人逐份处理
+    const recipients = options.distribution?.recipients;
+    if (recipients) {
+      if (state.files.selected.length !== 1) {
+        throw new Error('分发模式只能选择一个源文件');
+      }
+      if (recipients.length === 0) {
+        throw new Error('收件人列表为空');
+      }
+
+      // 水印文字未引用收件人时自动追加，保证每份副本可见地区分
+      const text = batchSettings.text;
+      if (text && !WatermarkVariables.validate(text.content).variables.some(name => name === 'user' || name === 'id')) {
+        batchSettings = { ...batchSettings, text: { ...text, content: `${text.content} {user} {id}`.trim() } };
+      }
+    }
+
+    const jobs: Array<{ file: File; recipient?: DistributionRecipient }> = recipients
+      ? recipients.map(recipient => ({ file: state.files.selected[0], recipient }))
+      : state.files.selected.map(file => ({ file }));
+
     // 确保系统已初始化
     if (!state.pdfEngine.initialized) {
       console.log('🔧 系统未初始化，开始初始化...');
@@ -391,29 +488,48 @@ export const useWatermarkStore = create<WatermarkStore>((set, get) => ({
       ui: {
         ...state.ui,
         loading: true,
-        progress: { current: 0, total: state.files.selected.length, message: '开始增强处理...' }
+        progress: { current: 0, total: jobs.length, message: recipients ? '开始分发处理...' : '开始增强处理...' }
       }
     }));
 
     const processingStartTime = performance.now();
     const results = new Map<string, WatermarkResult>();
+    // Bates序号跨文件连续
+    let batesNumber = batchSettings.stamp?.bates.start ?? 1;
     let chineseContentCount = 0;
 
     try {
       console.log('🚀 开始增强文件处理流程:', {
         fileCount: state.files.selected.length,
-        settings,
+        recipientCount: recipients?.length,
+        settings: batchSettings,
         chineseRenderer: state.canvas.chineseRenderer.initialized,
         pdfEngine: state.pdfEngine.initialized
       });
 
-      for (let i = 0; i < state.files.selected.length; i++) {
-        const file = state.files.selected[i];
-        const fileId = `${file.name}-${file.size}`;
+      for (let i = 0; i < jobs.length; i++) {
+        const { file, recipient } = jobs[i];
+        const fileId = recipient ? `${recipient.id}:${file.name}-${file.size}` : `${file.name}-${file.size}`;
         const fileStartTime = performance.now();
 
+        // 动态变量按文件解析，{page}/{pages}留给PDF输出逐页解析
+        const variableContext = await WatermarkVariables.createFileContext(
+          file,
+          [
+            batchSettings.text?.content,
+            ...(batchSettings.pageRules || []).map(rule => rule.text?.content),
+            ...(batchSettings.stamp?.enabled ? batchSettings.stamp.items.map(item => item.text) : [])
+          ].join(' '),
+          recipient
+            ? { ...batchSettings.text?.variables, user: recipient.name, email: recipient.email, id: recipient.id }
+            : batchSettings.text?.variables
+        );
+        let settings = WatermarkVariables.applyToSettings(batchSettings, variableContext, { keepPageVariables: true });
+
         // 检测是否包含中文内容
-        const containsChinese = ChineseWatermarkRenderer.containsChineseCharacters(settings.text?.content || '');
+        const containsChinese = ChineseWatermarkRenderer.containsChineseCharacters(
+          [settings.text?.content, ...(settings.pageRules || []).map(rule => rule.text?.content)].join('')
+        );
         if (containsChinese) {
           chineseContentCount++;
         }
@@ -423,8 +539,10 @@ export const useWatermarkStore = create<WatermarkStore>((set, get) => ({
             ...state.ui,
             progress: {
               current: i,
-              total: state.files.selected.length,
-              message: `增强处理: ${file.name} ${containsChinese ? '(中文水印)' : ''}`
+              total: jobs.length,
+              message: recipient
+                ? `分发处理: ${file.name} → ${recipient.name}`
+                : `增强处理: ${file.name} ${containsChinese ? '(中文水印)' : ''}`
             }
           }
         }));
@@ -434,25 +552,74 @@ export const useWatermarkStore = create<WatermarkStore>((set, get) => ({
         try {
           // 智能文件类型检测和处理路径选择
           const isPDFFile = file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
-          const isWordFile = file.type.includes('word') || file.name.match(/\.(docx?|doc)$/i);
+          const isWordFile = file.type.includes('word') || file.type.includes('rtf') || file.name.match(/\.(docx?|doc|rtf)$/i);
+          // RTF和Word 97-2003按文件签名识别，只能转换为PDF输出
+          const isLegacyWordFile = !!isWordFile &&
+            LegacyWordExtractor.detectFormat(new Uint8Array(await file.slice(0, 512).arrayBuffer())) !== null;
           const isImageFile = file.type.startsWith('image/');
+          const isTiffFile = file.type === 'image/tiff' || /\.tiff?$/i.test(file.name);
+          const isSpreadsheetFile = file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
+            file.name.toLowerCase().endsWith('.xlsx');
+          const isPresentationFile = file.type === 'application/vnd.openxmlformats-officedocument.presentationml.presentation' ||
+            file.name.toLowerCase().endsWith('.pptx');
 
-          console.log(`📁 处理文件 ${i + 1}/${state.files.selected.length}:`, {
+          console.log(`📁 处理文件 ${i + 1}/${jobs.length}:`, {
             name: file.name,
             type: file.type,
             size: `${(file.size / 1024 / 1024).toFixed(2)}MB`,
             isPDF: isPDFFile,
             isWord: isWordFile,
+            isLegacyWord: isLegacyWordFile,
             isImage: isImageFile,
+            isTiff: isTiffFile,
+            isSpreadsheet: isSpreadsheetFile,
+            isPresentation: isPresentationFile,
             containsChinese,
             useEnhancedEngine: containsChinese || settings.position.placement === 'grid'
           });
 
-          // 路径1: 增强PDF处理 (使用新引擎)
-          if (isPDFFile && (containsChinese || settings.position.placement === 'grid')) {
+          // 受密码保护的PDF先解密，各处理路径和后续加盖、栅格化都按明文PDF处理
+          let source: File = file;
+          if (isPDFFile) {
+            const bytes = new Uint8Array(await file.arrayBuffer());
+            if (PDFSecurity.isEncrypted(bytes)) {
+              const decrypted = await PDFSecurity.decrypt(bytes, settings.security.pdfPassword);
+              source = new File([decrypted as BlobPart], file.name, { type: 'application/pdf' });
+            }
+          }
+
+          // 路径0: 仅加盖页眉页脚，不绘制水印（加盖在下方统一进行）
+          const hasLogo = settings.type !== 'text' && !!settings.image?.source;
+          const hasPageRules = PageRules.hasRules(settings);
+          const hasPageVariables = WatermarkVariables.hasPageVariables(settings.text?.content ?? '');
+          if (isPDFFile && settings.stamp?.enabled && settings.stamp.stampOnly) {
+            watermarkResult = {
+              success: true,
+              originalFile: file,
+              processedImage: {
+                blob: source,
+                dataUrl: '',
+                size: source.size,
+                dimensions: { width: 800, height: 600 },
+                format: 'pdf'
+              },
+              certificate: undefined,
+              metadata: {
+                processingTime: performance.now() - fileStartTime,
+                compressionRatio: 1,
+                originalSize: file.size,
+                processedSize: file.size,
+                version: '2.0.0-stamp'
+              },
+              error: undefined
+            };
+          }
+
+          // 路径1: 增强PDF处理 (使用新引擎，Logo水印、按页规则和页码变量同样走此路径)
+          else if (isPDFFile && (containsChinese || settings.position.placement === 'grid' || hasLogo || hasPageRules || hasPageVariables)) {
             console.log('🔄 使用增强PDF引擎处理...');
             
-            const pdfBuffer = await file.arrayBuffer();
+            const pdfBuffer = await source.arrayBuffer();
             const config = PDFWatermarkEngine.convertFromWatermarkSettings(settings);
             const pdfResult = await PDFWatermarkEngine.addGridWatermarkToPDF(pdfBuffer, config);
             
@@ -491,7 +658,43 @@ export const useWatermarkStore = create<WatermarkStore>((set, get) => ({
             }
           }
           
-          // 路径2: Word转PDF增强处理
+          // 路径2: RTF/Word 97-2003文档本地解析后转PDF
+          else if (isLegacyWordFile) {
+            console.log('🔄 使用旧版Word/RTF转PDF流程...');
+
+            const docResult = await new NativeDocumentProcessor().processWordToPDF(file, toDocumentSettings(settings));
+
+            watermarkResult = {
+              success: docResult.success,
+              originalFile: docResult.originalFile,
+              processedImage: docResult.processedDocument ? {
+                blob: docResult.processedDocument.blob,
+                dataUrl: docResult.processedDocument.dataUrl,
+                size: docResult.processedDocument.size,
+                dimensions: { width: 800, height: 600 },
+                format: 'pdf'
+              } : {
+                blob: new Blob(),
+                dataUrl: '',
+                size: 0,
+                dimensions: { width: 0, height: 0 },
+                format: 'pdf'
+              },
+              certificate: undefined,
+              metadata: {
+                processingTime: docResult.processingTime,
+                compressionRatio: docResult.processedDocument ? file.size / docResult.processedDocument.size : 0,
+                originalSize: file.size,
+                processedSize: docResult.processedDocument?.size || 0,
+                version: '2.0.0-native',
+                pageCount: docResult.processedDocument?.pageCount,
+                conversionMethod: docResult.metadata?.method
+              },
+              error: docResult.error ? { message: docResult.error, code: 'DOCUMENT_PROCESSING_FAILED' } as any : undefined
+            };
+          }
+
+          // 路径3: Word转PDF增强处理
           else if (isWordFile && (settings.output.format as string) === 'pdf') {
             console.log('🔄 使用Word转PDF增强流程...');
             
@@ -582,15 +785,56 @@ export const useWatermarkStore = create<WatermarkStore>((set, get) => ({
             }
           }
           
-          // 路径3: 传统处理（回退方案）
+          // 路径4: Excel/PowerPoint原生处理（保持原格式，文档仍可编辑）
+          else if (isSpreadsheetFile || isPresentationFile) {
+            console.log(`🔄 使用${isSpreadsheetFile ? 'Excel' : 'PowerPoint'}原生水印流程...`);
+
+            // 非分页输出按第1页共1页解析页码变量
+            settings = WatermarkVariables.applyToSettings(settings, {});
+
+            const docResult = await new NativeDocumentProcessor().processDocument(file, toDocumentSettings(settings));
+
+            watermarkResult = {
+              success: docResult.success,
+              originalFile: docResult.originalFile,
+              processedImage: docResult.processedDocument ? {
+                blob: docResult.processedDocument.blob,
+                dataUrl: docResult.processedDocument.dataUrl,
+                size: docResult.processedDocument.size,
+                dimensions: { width: 800, height: 600 },
+                format: docResult.processedDocument.format
+              } : {
+                blob: new Blob(),
+                dataUrl: '',
+                size: 0,
+                dimensions: { width: 0, height: 0 },
+                format: isSpreadsheetFile ? 'xlsx' : 'pptx'
+              },
+              certificate: undefined,
+              metadata: {
+                processingTime: docResult.processingTime,
+                compressionRatio: docResult.processedDocument ? file.size / docResult.processedDocument.size : 0,
+                originalSize: file.size,
+                processedSize: docResult.processedDocument?.size || 0,
+                version: '2.0.0-native',
+                pageCount: docResult.processedDocument?.pageCount
+              },
+              error: docResult.error ? { message: docResult.error, code: 'DOCUMENT_PROCESSING_FAILED' } as any : undefined
+            };
+          }
+
+          // 路径5: 传统处理（回退方案）
           else {
             console.log('🔄 使用传统处理流程...');
+            // 多页TIFF逐页解析{page}/{pages}
+            settings = WatermarkVariables.applyToSettings(settings, {}, { keepPageVariables: isTiffFile });
             
             if (isPDFFile) {
               const documentProcessor = new DocumentProcessor();
-              const docResult = await documentProcessor.processDocument(file, {
+              const docResult = await documentProcessor.processDocument(source, {
                 type: settings.type,
                 text: settings.text,
+                image: settings.image,
                 position: settings.position as any,
                 output: settings.output as any
               });
@@ -691,10 +935,25 @@ export const useWatermarkStore = create<WatermarkStore>((set, get) => ({
             } else {
               // 图像处理
               const imageProcessor = new SimpleWatermarkProcessor();
+              const invisibleWatermark = settings.security.invisibleWatermark;
               const result = await imageProcessor.processFile(file, {
                 type: settings.type,
                 text: settings.text,
+                image: settings.image,
                 position: settings.position as any,
+                security: {
+                  ...settings.security,
+                  // 隐形水印载荷按文件生成：文档ID默认取文件名，时间戳取处理时间
+                  invisibleWatermark: invisibleWatermark?.enabled ? {
+                    ...invisibleWatermark,
+                    payload: {
+                      ...invisibleWatermark.payload,
+                      documentId: invisibleWatermark.payload.documentId ||
+                        InvisibleWatermark.defaultDocumentId(file.name, invisibleWatermark.payload.ownerId),
+                      timestamp: Date.now()
+                    }
+                  } : undefined
+                },
                 output: settings.output as any
               });
               
@@ -714,9 +973,14 @@ export const useWatermarkStore = create<WatermarkStore>((set, get) => ({
                   compressionRatio: result.processedImage ? result.originalFile.size / result.processedImage.size : 0,
                   originalSize: result.originalFile.size,
                   processedSize: result.processedImage?.size || 0,
-                  version: '1.0.0-traditional'
+                  version: '1.0.0-traditional',
+                  outputQuality: result.processedImage?.quality,
+                  outputDimensions: result.processedImage?.dimensions,
+                  frameCount: result.processedImage?.frameCount,
+                  pageCount: result.processedImage?.pageCount,
+                  warnings: result.warnings
                 },
-                error: result.error ? { message: result.error, code: 'IMAGE_PROCESSING_ERROR' } as any : undefined
+                error: result.error ? { message: result.error, code: result.errorCode || 'IMAGE_PROCESSING_ERROR' } as any : undefined
               };
             }
           }
@@ -748,7 +1012,173 @@ export const useWatermarkStore = create<WatermarkStore>((set, get) => ({
           };
         }
         
-        results.set(fileId, watermarkResult);
+        // 加盖页眉页脚和Bates编号，序号在整批PDF中连续；加盖失败视为处理失败，避免编号缺页
+        if (watermarkResult.success && settings.stamp?.enabled && watermarkResult.processedImage.format === 'pdf') {
+          try {
+            const stamped = await PDFStamper.stampPDF(
+              new Uint8Array(await watermarkResult.processedImage.blob.arrayBuffer()),
+              settings.stamp,
+              { batesStart: batesNumber, variables: variableContext }
+            );
+            batesNumber = stamped.nextBatesNumber;
+
+            const blob = new Blob([stamped.bytes as BlobPart], { type: 'application/pdf' });
+            watermarkResult = {
+              ...watermarkResult,
+              processedImage: {
+                ...watermarkResult.processedImage,
+                blob,
+                dataUrl: await get().blobToDataURL(blob),
+                size: blob.size
+              },
+              metadata: { ...watermarkResult.metadata, processedSize: blob.size, pageCount: stamped.pageCount }
+            };
+          } catch (error) {
+            console.error(`❌ 页眉页脚加盖失败: ${file.name}`, error);
+            watermarkResult = {
+              ...watermarkResult,
+              success: false,
+              error: {
+                message: `页眉页脚加盖失败: ${error instanceof Error ? error.message : String(error)}`,
+                code: 'STAMP_FAILED'
+              } as any
+            };
+          }
+        }
+
+        // 栅格化PDF输出，水印与页面内容合为图片；失败时不输出可删除水印的版本
+        if (watermarkResult.success && settings.output.flatten?.enabled && watermarkResult.processedImage.format === 'pdf') {
+          try {
+            const flattened = await PDFFlattener.flatten(
+              new Uint8Array(await watermarkResult.processedImage.blob.arrayBuffer()),
+              settings.output.flatten
+            );
+
+            const blob = new Blob([flattened.bytes as BlobPart], { type: 'application/pdf' });
+            watermarkResult = {
+              ...watermarkResult,
+              processedImage: {
+                ...watermarkResult.processedImage,
+                blob,
+                dataUrl: await get().blobToDataURL(blob),
+                size: blob.size
+              },
+              metadata: {
+                ...watermarkResult.metadata,
+                compressionRatio: file.size / blob.size,
+                processedSize: blob.size,
+                pageCount: flattened.pageCount
+              }
+            };
+          } catch (error) {
+            console.error(`❌ PDF栅格化失败: ${file.name}`, error);
+            watermarkResult = {
+              ...watermarkResult,
+              success: false,
+              error: {
+                message: `PDF栅格化失败: ${error instanceof Error ? error.message : String(error)}`,
+                code: 'FLATTEN_FAILED'
+              } as any
+            };
+          }
+        }
+
+        // 生成证书并嵌入输出文件，失败时保留无证书的结果；分发模式始终生成以记录收件人
+        if (watermarkResult.success && (settings.security.generateCertificate || recipient) && watermarkResult.processedImage.blob.size > 0) {
+          try {
+            // 记录签发者与感知哈希（整体及分块），供验证视图展示、比较和定位篡改区域
+            const imageHashes = file.type.startsWith('image/')
+              ? await WatermarkVerifier.computeImageHashes(watermarkResult.processedImage.blob)
+              : null;
+            certificateSystem.setSigningKeyPair(await signingKeyStore.getKeyPair());
+            const certificate = await certificateSystem.generateCertificate(watermarkResult, {
+              issuer: settings.security.issuer?.trim() || undefined,
+              sourceFile: file.name,
+              ...(recipient ? { recipient } : {}),
+              ...imageHashes
+            });
+            watermarkResult = { ...watermarkResult, certificate };
+
+            if (settings.security.embedMetadata) {
+              const { processedImage } = watermarkResult;
+              const blob = await certificateSystem.embedCertificate(processedImage.blob, certificate);
+              // 下载使用dataUrl，由输出文件生成的dataUrl需要同步更新
+              const dataUrl = blob.type && processedImage.dataUrl.startsWith(`data:${blob.type}`)
+                ? await get().blobToDataURL(blob)
+                : processedImage.dataUrl;
+
+              watermarkResult = {
+                ...watermarkResult,
+                processedImage: { ...processedImage, blob, dataUrl, size: blob.size },
+                metadata: { ...watermarkResult.metadata, processedSize: blob.size }
+              };
+            }
+
+            console.log(`🔏 证书已生成: ${file.name}`);
+          } catch (error) {
+            console.warn(`⚠️ 证书生成失败，输出文件不含证书: ${file.name}`, error);
+          }
+        }
+
+        // 登记签发的副本：在加密前计算指纹，设置打开密码后无法再读取内容；登记失败不影响输出，但提示无法溯源
+        let issuanceId: string | null = null;
+        if (watermarkResult.certificate) {
+          try {
+            const filename = generateWatermarkedFilename(file.name, watermarkResult.processedImage.format);
+            ({ id: issuanceId } = await issuanceRegistry.register(watermarkResult.processedImage.blob, {
+              sourceFile: file.name,
+              filename: recipient ? RecipientList.getFilename(filename, recipient) : filename,
+              format: watermarkResult.processedImage.format,
+              recipient,
+              certificate: watermarkResult.certificate
+            }));
+          } catch (error) {
+            console.warn(`⚠️ 签发登记失败: ${file.name}`, error);
+            const message = `签发登记失败，泄露时无法溯源到此副本：${error instanceof Error ? error.message : String(error)}`;
+            watermarkResult = {
+              ...watermarkResult,
+              metadata: { ...watermarkResult.metadata, warnings: [...(watermarkResult.metadata?.warnings || []), message] }
+            };
+          }
+        }
+
+        // 加密PDF输出并限制权限：放在最后，前面各阶段都要读取明文PDF；失败时不输出未加密的版本
+        if (watermarkResult.success && settings.output.encryption?.enabled && watermarkResult.processedImage.format === 'pdf') {
+          try {
+            const encrypted = await PDFSecurity.encrypt(
+              new Uint8Array(await watermarkResult.processedImage.blob.arrayBuffer()),
+              settings.output.encryption
+            );
+
+            const blob = new Blob([encrypted as BlobPart], { type: 'application/pdf' });
+            watermarkResult = {
+              ...watermarkResult,
+              processedImage: {
+                ...watermarkResult.processedImage,
+                blob,
+                dataUrl: await get().blobToDataURL(blob),
+                size: blob.size
+              },
+              metadata: { ...watermarkResult.metadata, processedSize: blob.size, encrypted: true }
+            };
+          } catch (error) {
+            console.error(`❌ PDF加密失败: ${file.name}`, error);
+            // 未输出的副本不保留登记
+            if (issuanceId) {
+              await issuanceRegistry.remove(issuanceId).catch(() => undefined);
+            }
+            watermarkResult = {
+              ...watermarkResult,
+              success: false,
+              error: {
+                message: `PDF加密失败: ${error instanceof Error ? error.message : String(error)}`,
+                code: 'ENCRYPTION_FAILED'
+              } as any
+            };
+          }
+        }
+
+        results.set(fileId, recipient ? { ...watermarkResult, recipient } : watermarkResult);
         
         const fileProcessingTime = performance.now() - fileStartTime;
         console.log(`✅ 文件处理完成: ${file.name}`, {
@@ -828,6 +1258,55 @@ export const useWatermarkStore = create<WatermarkStore>((set, get) => ({
     });
   },
 
+  /**
+   * 将成功处理的结果打包为ZIP下载，保留拖入文件夹的目录结构；分发结果按收件人命名并附分发清单
+   */
+  downloadResultsAsZip: async (options = {}) => {
+    const successfulResults = Array.from(get().files.results.values())
+      .filter(result => result.success && result.processedImage.blob.size > 0);
+
+    if (successfulResults.length === 0) {
+      throw new Error('没有成功处理的文件可供下载');
+    }
+
+    const entries = successfulResults.map(result => {
+      const filename = generateWatermarkedFilename(result.originalFile.name, result.processedImage.format);
+      return {
+        data: result.processedImage.blob,
+        filename: result.recipient ? RecipientList.getFilename(filename, result.recipient) : filename,
+        directory: getRelativeDirectory(result.originalFile),
+        originalName: result.originalFile.name,
+        certificate: result.certificate,
+        recipient: result.recipient
+      };
+    });
+    const distributed = entries.filter(entry => entry.recipient);
+
+    const setProgress = (percent: number) => set(state => ({
+      ui: {
+        ...state.ui,
+        progress: { current: Math.round(percent), total: 100, message: '正在打包下载...' }
+      }
+    }));
+
+    setProgress(0);
+    try {
+      await downloadAsZip(entries, {
+        zipName: options.zipName,
+        includeManifest: options.includeManifest ?? entries.some(entry => entry.certificate || entry.recipient),
+        manifestFields: distributed.length > 0 ? {
+          mode: 'distribution',
+          sourceFile: distributed[0].originalName,
+          recipientCount: distributed.length
+        } : undefined,
+        onProgress: setProgress
+      });
+      console.log(`📦 ZIP打包下载完成: ${entries.length} 个文件`);
+    } finally {
+      set(state => ({ ui: { ...state.ui, progress: null } }));
+    }
+  },
+
   clearFiles: () => {
     set(state => ({
       ...state,
@@ -890,6 +1369,133 @@ export const useWatermarkStore = create<WatermarkStore>((set, get) => ({
     }));
   },
 
+  loadTemplates: async () => {
+    try {
+      const items = await templateLibrary.list();
+      set(state => ({ templates: { ...state.templates, items, loaded: true } }));
+    } catch (error) {
+      console.error('❌ 模板库加载失败:', error);
+      set(state => ({ templates: { ...state.templates, loaded: true } }));
+    }
+  },
+
+  saveTemplate: async (draft) => {
+    const record = await templateLibrary.create({
+      ...draft,
+      settings: draft.settings || get().watermark.settings
+    });
+    await get().loadTemplates();
+    return record;
+  },
+
+  updateTemplate: async (templateId, changes) => {
+    await templateLibrary.update(templateId, changes);
+    await get().loadTemplates();
+  },
+
+  revertTemplate: async (templateId, version) => {
+    await templateLibrary.revert(templateId, version);
+    await get().loadTemplates();
+  },
+
+  deleteTemplate: async (templateId) => {
+    await templateLibrary.remove(templateId);
+    set(state => ({
+      templates: {
+        ...state.templates,
+        appliedTemplateId: state.templates.appliedTemplateId === templateId ? null : state.templates.appliedTemplateId
+      }
+    }));
+    await get().loadTemplates();
+  },
+
+  applyTemplate: (templateId) => {
+    const template = get().templates.items.find(item => item.id === templateId);
+    if (!template) {
+      return;
+    }
+
+    set(state => ({
+      watermark: {
+        ...state.watermark,
+        settings: template.settings
+      },
+      templates: {
+        ...state.templates,
+        appliedTemplateId: templateId
+      }
+    }));
+  },
+
+  setDefaultTemplate: async (templateId, fileType) => {
+    await templateLibrary.setDefault(templateId, fileType);
+    await get().loadTemplates();
+  },
+
+  clearDefaultTemplate: async (fileType) => {
+    await templateLibrary.clearDefault(fileType);
+    await get().loadTemplates();
+  },
+
+  importTemplates: async (json, options) => {
+    const result = await templateLibrary.importTemplates(json, options);
+    await get().loadTemplates();
+    return result;
+  },
+
+  exportTemplates: async (templateIds) => {
+    return templateLibrary.exportToJson(templateIds);
+  },
+
+  getSigningKeyFingerprint: async () => {
+    return signingKeyStore.getFingerprint();
+  },
+
+  exportSigningKey: async (includePrivateKey = false) => {
+    return includePrivateKey ? signingKeyStore.exportKeyPair() : signingKeyStore.exportPublicKey();
+  },
+
+  importSigningKey: async (pem) => {
+    const fingerprint = await signingKeyStore.importKeyPair(pem);
+    console.log(`🔑 签名密钥已导入: ${fingerprint.slice(0, 16)}`);
+    return fingerprint;
+  },
+
+  loadIssuanceRecords: async () => {
+    try {
+      const records = await issuanceRegistry.list();
+      set({ attribution: { records, loaded: true } });
+    } catch (error) {
+      console.error('❌ 签发登记加载失败:', error);
+      set(state => ({ attribution: { ...state.attribution, loaded: true } }));
+    }
+  },
+
+  matchLeakedFile: async (file, options) => {
+    return issuanceRegistry.match(file, options);
+  },
+
+  deleteIssuanceRecord: async (recordId) => {
+    await issuanceRegistry.remove(recordId);
+    await get().loadIssuanceRecords();
+  },
+
+  clearIssuanceRecords: async () => {
+    await issuanceRegistry.clear();
+    await get().loadIssuanceRecords();
+  },
+
+  loadRecipientList: async (file) => {
+    const result = await RecipientList.parseFile(file);
+    set({ distribution: { recipients: result.recipients, listName: file.name, errors: result.errors } });
+    console.log(`👥 收件人列表已加载: ${result.recipients.length} 人`, result.errors);
+    return result;
+  },
+
+  clearRecipientList: () => {
+    set({ distribution: { recipients: [], listName: null, errors: [] } });
+  },
+
   setActiveView: (view) => {
     set(state => ({
       ui: {
@@ -6,6 +6,15 @@
 import type { CanvasRenderingEngine, CanvasPool } from './canvas.types';
 import type { WorkerPool, ProcessingTask } from './worker.types';
 import type { WatermarkProcessor, WatermarkSettings, WatermarkResult } from './watermark.types';
+import type {
+  TemplateDraft,
+  TemplateFileType,
+  TemplateImportResult,
+  TemplateUpdate,
+  WatermarkTemplateRecord
+} from './template.types';
+import type { DistributionRecipient, ProcessFilesOptions, RecipientParseResult } from './distribution.types';
+import type { AttributionReport, IssuanceRecord } from './attribution.types';
 
 export interface WatermarkAppState {
   // Canvas 渲染引擎状态
@@ -70,6 +79,26 @@ export interface WatermarkAppState {
     presets: WatermarkPreset[];
   };
   
+  // 水印模板库状态（IndexedDB持久化）
+  templates: {
+    items: WatermarkTemplateRecord[];
+    loaded: boolean;
+    appliedTemplateId: string | null;
+  };
+  
+  // 分发模式收件人列表
+  distribution: {
+    recipients: DistributionRecipient[];
+    listName: string | null;
+    errors: string[];
+  };
+  
+  // 签发登记（IndexedDB持久化），用于泄露溯源
+  attribution: {
+    records: IssuanceRecord[];
+    loaded: boolean;
+  };
+  
   // UI 状态
   ui: {
     loading: boolean;
@@ -114,7 +143,7 @@ export interface ProgressInfo {
   estimatedTimeRemaining?: number;
 }
 
-export type ViewType = 'upload' | 'editor' | 'preview' | 'batch' | 'settings' | 'help';
+export type ViewType = 'upload' | 'editor' | 'preview' | 'verify' | 'attribution' | 'batch' | 'settings' | 'help';
 
 export interface ModalState {
   settings: boolean;
@@ -214,8 +243,9 @@ export interface WatermarkAppActions {
   
   // 文件操作
   selectFiles: (files: File[]) => void;
-  processFiles: (settings: WatermarkSettings) => Promise<void>;
+  processFiles: (settings: WatermarkSettings, options?: ProcessFilesOptions) => Promise<void>;
   clearFiles: () => void;
+  downloadResultsAsZip: (options?: { includeManifest?: boolean; zipName?: string }) => Promise<void>;
   
   // 水印设置操作
   updateWatermarkSettings: (settings: Partial<WatermarkSettings>) => void;
@@ -223,6 +253,33 @@ export interface WatermarkAppActions {
   loadPreset: (presetId: string) => void;
   deletePreset: (presetId: string) => void;
   
+  // 模板库操作
+  loadTemplates: () => Promise<void>;
+  saveTemplate: (draft: Omit<TemplateDraft, 'settings'> & { settings?: WatermarkSettings }) => Promise<WatermarkTemplateRecord>;
+  updateTemplate: (templateId: string, changes: TemplateUpdate) => Promise<void>;
+  revertTemplate: (templateId: string, version: number) => Promise<void>;
+  deleteTemplate: (templateId: string) => Promise<void>;
+  applyTemplate: (templateId: string) => void;
+  setDefaultTemplate: (templateId: string, fileType: TemplateFileType) => Promise<void>;
+  clearDefaultTemplate: (fileType: TemplateFileType) => Promise<void>;
+  importTemplates: (json: string, options?: { overwrite?: boolean }) => Promise<TemplateImportResult>;
+  exportTemplates: (templateIds?: string[]) => Promise<string>;
+  
+  // 分发模式操作
+  loadRecipientList: (file: File) => Promise<RecipientParseResult>;
+  clearRecipientList: () => void;
+  
+  // 签名密钥操作
+  getSigningKeyFingerprint: () => Promise<string>;
+  exportSigningKey: (includePrivateKey?: boolean) => Promise<string>; // PEM，默认只导出公钥
+  importSigningKey: (pem: string) => Promise<string>; // 返回新公钥指纹
+  
+  // 泄露溯源操作
+  loadIssuanceRecords: () => Promise<void>;
+  matchLeakedFile: (file: File, options?: { limit?: number; minScore?: number }) => Promise<AttributionReport>;
+  deleteIssuanceRecord: (recordId: string) => Promise<void>;
+  clearIssuanceRecords: () => Promise<void>;
+  
   // UI 操作
   setActiveView: (view: ViewType) => void;
   setLoading: (loading: boolean) => void;
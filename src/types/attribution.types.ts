@@ -0,0 +1,57 @@
+/**
+ * 泄露溯源相关类型定义
+ * 每份签发的副本登记证书与感知哈希，泄露文件据此反查来源副本
+ */
+
+import type { BlockHashGrid } from '@/engines/crypto/HashGenerator';
+import type { CertificateData } from './worker.types';
+import type { DistributionRecipient } from './distribution.types';
+
+export interface PageFingerprint {
+  perceptualHash: string;
+  blockHashes: BlockHashGrid;
+}
+
+export interface DocumentFingerprint {
+  contentHash: string;            // 去除内嵌证书后内容的SHA-256
+  pages: PageFingerprint[];       // 图片为1页，PDF为前几页的渲染结果
+  text?: string;                  // PDF可提取的文字（仅匹配时使用，不登记）
+  certificateHash?: string;       // 文件内嵌证书的哈希
+}
+
+export interface IssuanceRecord {
+  id: string;
+  sourceFile: string;
+  filename: string;
+  format: string;
+  recipient?: DistributionRecipient;
+  certificate?: CertificateData;
+  contentHash: string;
+  pages: PageFingerprint[];
+  issuedAt: string;               // ISO时间
+}
+
+export interface IssuanceDraft {
+  sourceFile: string;
+  filename: string;
+  format: string;
+  recipient?: DistributionRecipient;
+  certificate?: CertificateData;
+}
+
+export type AttributionMethod = 'exact' | 'certificate' | 'text' | 'perceptual';
+
+export interface AttributionCandidate {
+  record: IssuanceRecord;
+  score: number;                  // 0-1，越高越可能是来源副本
+  method: AttributionMethod;      // 得分最高的匹配依据
+  perceptualSimilarity?: number;  // 整体感知哈希相似度
+  blockSimilarity?: number;       // 分块哈希相似度，反映水印文字区域的差异
+}
+
+export interface AttributionReport {
+  fileName: string;
+  fingerprinted: boolean;         // 是否成功解码出页面像素
+  candidates: AttributionCandidate[];
+  searched: number;               // 参与比较的登记数
+}
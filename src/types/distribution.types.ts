@@ -0,0 +1,24 @@
+/**
+ * 分发模式相关类型定义
+ * 同一源文件按收件人列表逐份加水印，每份记录收件人以便泄露追踪
+ */
+
+export interface DistributionRecipient {
+  id: string;
+  name: string;
+  email?: string;
+  fields?: Record<string, string>; // 列表中的其他列，原样写入清单
+}
+
+export interface DistributionOptions {
+  recipients: DistributionRecipient[];
+}
+
+export interface RecipientParseResult {
+  recipients: DistributionRecipient[];
+  errors: string[];               // 被跳过的行
+}
+
+export interface ProcessFilesOptions {
+  distribution?: DistributionOptions;
+}
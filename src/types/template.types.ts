@@ -0,0 +1,77 @@
+/**
+ * 水印模板库相关类型定义
+ * 模板持久化在IndexedDB中，可导出为JSON供团队共享
+ */
+
+import type { WatermarkSettings } from './watermark.types';
+
+export type TemplateFileType = 'image' | 'pdf' | 'word' | 'excel' | 'powerpoint';
+
+export interface WatermarkTemplateVersion {
+  version: number;
+  settings: WatermarkSettings;
+  thumbnail?: string;
+  note?: string;
+  savedAt: string; // ISO时间
+}
+
+export interface WatermarkTemplateRecord {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  settings: WatermarkSettings;
+  thumbnail?: string;            // PNG data URL
+  version: number;               // 每次修改设置后递增
+  note?: string;                 // 当前版本说明
+  history: WatermarkTemplateVersion[]; // 历史版本，最新的在前
+  defaultFor: TemplateFileType[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TemplateDraft {
+  name: string;
+  description?: string;
+  tags?: string[];
+  settings: WatermarkSettings;
+  defaultFor?: TemplateFileType[];
+}
+
+export interface TemplateUpdate {
+  name?: string;
+  description?: string;
+  tags?: string[];
+  settings?: WatermarkSettings;
+  note?: string;                 // 版本说明
+}
+
+/**
+ * 导出文件中的水印设置：图片源转为data URL，ImageData无法序列化时省略
+ */
+export type SerializedWatermarkSettings = Omit<WatermarkSettings, 'image'> & {
+  image?: Omit<NonNullable<WatermarkSettings['image']>, 'source'> & { source?: string };
+};
+
+export interface SerializedTemplateVersion extends Omit<WatermarkTemplateVersion, 'settings'> {
+  settings: SerializedWatermarkSettings;
+}
+
+export interface SerializedTemplateRecord extends Omit<WatermarkTemplateRecord, 'settings' | 'history'> {
+  settings: SerializedWatermarkSettings;
+  history: SerializedTemplateVersion[];
+}
+
+export interface TemplateExportFile {
+  format: 'watermark-template-library';
+  schemaVersion: number;
+  exportedAt: string;
+  templates: SerializedTemplateRecord[];
+}
+
+export interface TemplateImportResult {
+  imported: number;
+  updated: number;
+  skipped: number;
+  errors: string[];
+}
@@ -5,6 +5,7 @@
 
 import type { CanvasErrorInfo } from './canvas.types';
 import type { CertificateData } from './worker.types';
+import type { DistributionRecipient } from './distribution.types';
 
 export interface WatermarkProcessor {
   process(image: File, config: WatermarkSettings): Promise<WatermarkResult>;
@@ -19,14 +20,59 @@ export interface WatermarkSettings {
   position: WatermarkLayoutConfig;
   security: SecurityConfig;
   output: OutputConfig;
+  pages?: PageSelection; // 基础水印应用的页面，默认全部页
+  pageRules?: PageWatermarkRule[]; // 按页规则追加的水印，如封面大字、正文页脚
+  stamp?: StampConfig; // PDF页眉页脚与Bates编号
+}
+
+export interface StampConfig {
+  enabled: boolean;
+  items: StampItem[];
+  bates: BatesConfig;
+  fontSize: number;
+  color: string;
+  margin: number; // 距页边的距离（PDF点）
+  stampOnly?: boolean; // 只加盖页眉页脚，不绘制水印
+}
+
+export interface StampItem {
+  text: string; // 可包含{page}、{pages}、{bates}、{date}等变量
+  x: 'left' | 'center' | 'right';
+  y: 'top' | 'bottom';
+}
+
+export interface BatesConfig {
+  prefix: string;
+  digits: number; // 序号补零位数
+  start: number; // 整批第一页的序号
+}
+
+export interface PageSelection {
+  pages?: string; // 页码范围，如 "1-3,7"、"5-"、"first"、"last"、"2-last"，为空表示全部页
+  parity?: 'odd' | 'even';
+  skipBlank?: boolean;
+}
+
+export interface PageWatermarkRule {
+  name?: string;
+  selection: PageSelection;
+  type?: WatermarkSettings['type'];
+  // 未设置的字段沿用基础水印设置
+  text?: Partial<Omit<TextWatermarkConfig, 'font'>> & { font?: Partial<FontConfig> };
+  position?: Partial<WatermarkLayoutConfig>;
 }
 
 export interface TextWatermarkConfig {
-  content: string;
+  content: string; // 可包含{user}、{date:YYYY-MM-DD}、{page}等动态变量
   font: FontConfig;
   color: string | ColorConfig;
   outline?: OutlineConfig;
   shadow?: ShadowConfig;
+  variables?: {
+    user?: string;
+    email?: string;
+    id?: string;
+  };
 }
 
 export interface ColorConfig {
@@ -67,6 +113,8 @@ export interface ImageWatermarkConfig {
   source: File | Blob | ImageData;
   tint?: string;
   preserveAspectRatio: boolean;
+  width?: number;
+  height?: number;
 }
 
 export interface WatermarkLayoutConfig {
@@ -122,9 +170,33 @@ export interface SecurityConfig {
   hashAlgorithm: 'SHA-256' | 'SHA-512';
   embedMetadata: boolean;
   tamperProtection: boolean;
+  issuer?: string; // 签发者名称，写入证书供验证视图展示
   // Chinese character validation
   blockChineseCharacters: boolean;
   allowedLanguages?: ('en' | 'zh' | 'ja' | 'ko' | 'all')[];
+  // Invisible (steganographic) watermark
+  invisibleWatermark?: InvisibleWatermarkConfig;
+  pdfPassword?: string; // 打开受密码保护的输入PDF（打开密码或权限密码）
+}
+
+export interface InvisibleWatermarkPayload {
+  ownerId: string;
+  documentId: string;
+  timestamp: number; // milliseconds
+}
+
+export interface InvisibleWatermarkConfig {
+  enabled: boolean;
+  payload: InvisibleWatermarkPayload;
+  key?: string;
+  strength?: number;
+}
+
+export interface InvisibleWatermarkExtraction {
+  found: boolean;
+  payload?: InvisibleWatermarkPayload;
+  confidence: number; // 0.0 - 1.0
+  redundancy: number; // average repetitions per payload bit
 }
 
 export interface OutputConfig {
@@ -132,9 +204,52 @@ export interface OutputConfig {
   quality: number; // 0.1 - 1.0
   maxFileSize?: number; // bytes
   preserveOriginalMetadata: boolean;
+  metadata?: MetadataConfig; // preserveOriginalMetadata开启时保留哪些元数据，未设置时全部保留
+  spreadsheetMode?: 'header' | 'background'; // Excel水印方式：页眉图片(&G)或工作表背景
+  presentationTarget?: 'slides' | 'master'; // PowerPoint水印位置：每张幻灯片或母版/版式
+  flatten?: FlattenConfig; // PDF输出栅格化，水印与页面内容合为一张图片
+  animation?: AnimationConfig; // GIF/APNG动图逐帧加水印，未设置时保留动画
+  tiffOutput?: 'pdf' | 'tiff'; // TIFF逐页加水印后的输出格式，默认每页一页的PDF
+  encryption?: PDFEncryptionConfig; // PDF输出加密与权限限制
   compression: CompressionConfig;
 }
 
+export interface PDFEncryptionConfig {
+  enabled: boolean;
+  algorithm: 'aes-128' | 'aes-256';
+  userPassword: string; // 打开密码，留空时无需密码即可打开，但仍受权限限制
+  ownerPassword: string; // 权限密码，留空时随机生成，任何人都无法解除限制
+  permissions: PDFPermissions;
+}
+
+export interface PDFPermissions {
+  print: boolean;
+  copy: boolean; // 复制文字和图片
+  modify: boolean; // 编辑内容、插入/删除/旋转页面
+  annotate: boolean; // 添加注释、填写表单
+}
+
+export interface AnimationConfig {
+  preserve: boolean; // 关闭时只取第一帧输出静态图片
+  motion: 'static' | 'scroll' | 'bounce';
+  speed: number; // 水印移动速度（像素/秒）
+}
+
+export interface MetadataConfig {
+  exif: boolean;
+  xmp: boolean;
+  icc: boolean; // 保留ICC色彩配置文件，绘制时不做色彩空间转换
+  stripPrivate: boolean; // 去除GPS位置、作者、设备序列号等个人信息
+}
+
+export interface FlattenConfig {
+  enabled: boolean;
+  preset: 'screen' | 'standard' | 'print' | 'custom';
+  dpi?: number; // preset为custom时使用
+  quality?: number; // JPEG质量 0.1 - 1.0，preset为custom时使用
+  keepTextLayer: boolean; // 保留原文字作为不可见文本层，便于搜索和复制
+}
+
 export interface CompressionConfig {
   enabled: boolean;
   level: 'low' | 'medium' | 'high' | 'maximum';
@@ -149,6 +264,7 @@ export interface WatermarkResult {
   certificate?: CertificateData;
   metadata: ProcessingMetadata;
   error?: CanvasErrorInfo;
+  recipient?: DistributionRecipient; // 分发模式下该副本的收件人
 }
 
 export interface ProcessedImageData {
@@ -173,6 +289,12 @@ export interface ProcessingMetadata {
   version?: string; // 处理器版本
   enhancedEngine?: boolean; // 是否使用增强引擎
   conversionMethod?: string; // 转换方法
+  invisibleWatermark?: boolean; // 是否嵌入了隐形水印
+  outputQuality?: number; // 最终编码质量（maxFileSize自适应编码后可能低于设置值）
+  outputDimensions?: { width: number; height: number }; // 最终输出尺寸
+  frameCount?: number; // 动图帧数
+  encrypted?: boolean; // PDF输出是否已加密
+  warnings?: string[]; // 处理成功但有功能被跳过时的提示
 }
 
 export interface ValidationResult {
@@ -3,9 +3,16 @@
  * 基于架构文档的 WebWorker 设计
  */
 
+import type {
+  AnimationConfig,
+  InvisibleWatermarkConfig,
+  InvisibleWatermarkExtraction,
+  InvisibleWatermarkPayload
+} from './watermark.types';
+
 export interface ProcessingTask {
   id: string;
-  type: 'watermark' | 'process' | 'validate' | 'compress' | 'generate-certificate' | 'validate-certificate' | 'hash-generate' | 'resize' | 'format-convert' | 'optimize' | 'filter';
+  type: 'watermark' | 'process' | 'validate' | 'compress' | 'generate-certificate' | 'validate-certificate' | 'hash-generate' | 'resize' | 'format-convert' | 'optimize' | 'filter' | 'invisible-embed' | 'invisible-extract' | 'sign-data' | 'animated-watermark';
   data: TaskData;
   priority: TaskPriority;
   timeout?: number;
@@ -27,6 +34,10 @@ export interface TaskData {
   filterType?: string;
   intensity?: number;
   memory?: number;
+  invisibleWatermark?: Pick<InvisibleWatermarkConfig, 'key' | 'strength'> & { payload?: InvisibleWatermarkPayload };
+  signingKeyPair?: CryptoKeyPair; // ECDSA P-256 签名密钥对
+  publicKey?: CryptoKey | JsonWebKey | string; // 验证时使用的可信公钥
+  animation?: AnimationConfig; // animated-watermark任务：data为原动图，imageData为水印层
 }
 
 export interface ProcessingOptions {
@@ -65,6 +76,12 @@ export interface TaskResultData {
   blob?: Blob;
   dataUrl?: string;
   certificate?: CertificateData;
+  extraction?: InvisibleWatermarkExtraction;
+  // optimize任务的最终编码结果
+  format?: string;
+  quality?: number;
+  dimensions?: { width: number; height: number };
+  frameCount?: number; // animated-watermark任务输出的帧数
 }
 
 export interface ProcessingMetrics {
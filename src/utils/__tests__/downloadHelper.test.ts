@@ -3,10 +3,15 @@
  */
 
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import JSZip from 'jszip';
+import { Blob as NodeBlob } from 'node:buffer';
 import { 
   downloadFile, 
   generateWatermarkedFilename, 
   downloadMultipleFiles,
+  resolveZipPaths,
+  createZipArchive,
+  writeZipArchive,
   checkDownloadSupport 
 } from '../downloadHelper';
 
@@ -36,8 +41,12 @@ describe('downloadHelper', () => {
   });
 
   afterEach(() => {
-    vi.runOnlyPendingTimers();
+    // JSZip依赖真实定时器，相关用例会提前切换
+    if (vi.isFakeTimers()) {
+      vi.runOnlyPendingTimers();
+    }
     vi.useRealTimers();
+    vi.unstubAllGlobals();
   });
 
   describe('downloadFile', () => {
@@ -112,31 +121,122 @@ describe('downloadHelper', () => {
       expect(mockLink.download).toBe('test1.png');
     });
 
-    it('should download multiple files with delay', async () => {
+    it('should bundle multiple files into a single ZIP download', async () => {
+      vi.useRealTimers();
+      global.URL.createObjectURL = vi.fn().mockReturnValue('blob:mock-zip');
+      global.URL.revokeObjectURL = vi.fn();
+      mockLink.click = vi.fn();
+
       const files = [
-        { dataUrl: 'data:image/png;base64,test1', filename: 'test1.png' },
-        { dataUrl: 'data:image/png;base64,test2', filename: 'test2.png' },
-        { dataUrl: 'data:image/png;base64,test3', filename: 'test3.png' }
+        { dataUrl: 'data:image/png;base64,dGVzdDE=', filename: 'test1.png' },
+        { dataUrl: 'data:image/png;base64,dGVzdDI=', filename: 'test2.png' },
+        { dataUrl: 'data:image/png;base64,dGVzdDM=', filename: 'test3.png' }
       ];
-      
-      downloadMultipleFiles(files);
-      
-      // 立即检查第一个文件没有被下载（因为有延迟）
-      expect(mockLink.click).not.toHaveBeenCalled();
-      
-      // 推进时间，检查第一个文件
-      vi.advanceTimersByTime(0);
+
+      await downloadMultipleFiles(files, { zipName: 'results.zip' });
+
       expect(mockLink.click).toHaveBeenCalledTimes(1);
-      
-      // 推进时间500ms，检查第二个文件
-      vi.advanceTimersByTime(500);
-      expect(mockLink.click).toHaveBeenCalledTimes(2);
-      
-      // 推进时间500ms，检查第三个文件
-      vi.advanceTimersByTime(500);
-      expect(mockLink.click).toHaveBeenCalledTimes(3);
-      
-      expect(global.alert).toHaveBeenCalledWith('正在下载 3 个文件，请注意浏览器下载提示');
+      expect(mockLink.href).toBe('blob:mock-zip');
+      expect(mockLink.download).toBe('results.zip');
+      expect(global.alert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveZipPaths', () => {
+    it('should keep folder structure and number colliding names', () => {
+      const paths = resolveZipPaths([
+        { filename: 'photo_watermarked.jpg' },
+        { filename: 'Photo_watermarked.JPG' },
+        { filename: 'photo_watermarked.jpg', directory: 'holiday/2024' },
+        { filename: 'photo_watermarked.jpg' }
+      ]);
+
+      expect(paths).toEqual([
+        'photo_watermarked.jpg',
+        'Photo_watermarked (2).JPG',
+        'holiday/2024/photo_watermarked.jpg',
+        'photo_watermarked (3).jpg'
+      ]);
+    });
+  });
+
+  describe('createZipArchive', () => {
+    it('should write files, a manifest and report progress', async () => {
+      vi.useRealTimers();
+      // jsdom的Blob无法正确包装JSZip输出的二进制数据，换成Node实现
+      vi.stubGlobal('Blob', NodeBlob);
+      const onProgress = vi.fn();
+      const certificate = { hash: 'abc', timestamp: 1, signature: 'sig', metadata: {} };
+
+      const archive = await createZipArchive([
+        { data: 'data:text/plain;base64,aGVsbG8=', filename: 'a.txt', directory: 'docs', originalName: 'a.txt', certificate },
+        { data: 'data:text/plain;base64,d29ybGQ=', filename: 'b.txt' }
+      ], { includeManifest: true, onProgress });
+
+      const zip = await JSZip.loadAsync(new Uint8Array(await archive.arrayBuffer()));
+      expect(await zip.file('docs/a.txt')!.async('string')).toBe('hello');
+      expect(await zip.file('b.txt')!.async('string')).toBe('world');
+
+      const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+      expect(manifest.fileCount).toBe(2);
+      expect(manifest.files[0]).toEqual({ path: 'docs/a.txt', originalName: 'a.txt', certificate });
+      expect(onProgress).toHaveBeenCalled();
+    });
+
+    it('should record recipients and extra fields in the manifest', async () => {
+      vi.useRealTimers();
+      vi.stubGlobal('Blob', NodeBlob);
+      const recipient = { id: 'R001', name: '张三', email: 'zhang@example.com' };
+
+      const archive = await createZipArchive([
+        { data: 'data:text/plain;base64,aGVsbG8=', filename: 'a_张三_R001.txt', originalName: 'a.txt', recipient }
+      ], { includeManifest: true, manifestFields: { mode: 'distribution', sourceFile: 'a.txt', recipientCount: 1 } });
+
+      const zip = await JSZip.loadAsync(new Uint8Array(await archive.arrayBuffer()));
+      const manifest = JSON.parse(await zip.file('manifest.json')!.async('string'));
+      expect(manifest).toMatchObject({ mode: 'distribution', sourceFile: 'a.txt', recipientCount: 1, fileCount: 1 });
+      expect(manifest.files[0]).toEqual({ path: 'a_张三_R001.txt', originalName: 'a.txt', recipient });
+    });
+  });
+
+  describe('writeZipArchive', () => {
+    it('should stream the archive to the target chunk by chunk', async () => {
+      vi.useRealTimers();
+      const chunks: Uint8Array[] = [];
+      const target = {
+        write: vi.fn(async (chunk: Uint8Array) => { chunks.push(chunk); }),
+        close: vi.fn(async () => undefined)
+      };
+
+      await writeZipArchive([
+        { data: 'data:text/plain;base64,aGVsbG8=', filename: 'a.txt' },
+        { data: 'data:text/plain;base64,d29ybGQ=', filename: 'b.txt', directory: 'docs' }
+      ], target, { includeManifest: true });
+
+      expect(target.write.mock.calls.length).toBeGreaterThan(1);
+      expect(target.close).toHaveBeenCalledTimes(1);
+
+      const bytes = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+      chunks.reduce((offset, chunk) => (bytes.set(chunk, offset), offset + chunk.length), 0);
+      const zip = await JSZip.loadAsync(bytes);
+      expect(await zip.file('a.txt')!.async('string')).toBe('hello');
+      expect(await zip.file('docs/b.txt')!.async('string')).toBe('world');
+      expect(zip.file('manifest.json')).not.toBeNull();
+    });
+
+    it('should abort the target when a write fails', async () => {
+      vi.useRealTimers();
+      const error = new Error('disk full');
+      const target = {
+        write: vi.fn(async () => { throw error; }),
+        close: vi.fn(async () => undefined),
+        abort: vi.fn(async () => undefined)
+      };
+
+      await expect(writeZipArchive([{ data: 'data:text/plain;base64,aGVsbG8=', filename: 'a.txt' }], target))
+        .rejects.toThrow('disk full');
+      expect(target.abort).toHaveBeenCalledWith(error);
+      expect(target.close).not.toHaveBeenCalled();
     });
   });
 
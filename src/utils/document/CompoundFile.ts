@@ -0,0 +1,226 @@
+/**
+ * OLE2复合文档读取器 - 解析Office 97-2003二进制文件的扇区、目录与数据流
+ * 仅实现读取：FAT/DIFAT扇区链、MiniFAT小数据流、红黑树目录
+ */
+
+const SIGNATURE = [0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1];
+const END_OF_CHAIN = 0xFFFFFFFE;
+const FREE_SECTOR = 0xFFFFFFFF;
+const NO_STREAM = 0xFFFFFFFF;
+const DIRECTORY_ENTRY_SIZE = 128;
+const HEADER_DIFAT_COUNT = 109;
+
+export interface CompoundFileEntry {
+  name: string;
+  type: 'storage' | 'stream' | 'root';
+  size: number;
+  startSector: number;
+  left: number;
+  right: number;
+  child: number;
+}
+
+export class CompoundFile {
+  private readonly view: DataView;
+  private readonly sectorSize: number;
+  private readonly miniSectorSize: number;
+  private readonly miniStreamCutoff: number;
+  private readonly fat: Uint32Array;
+  private readonly miniFat: Uint32Array;
+  private readonly entries: CompoundFileEntry[];
+  private miniStream?: Uint8Array;
+
+  private constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.sectorSize = 1 << this.view.getUint16(0x1E, true);
+    this.miniSectorSize = 1 << this.view.getUint16(0x20, true);
+    this.miniStreamCutoff = this.view.getUint32(0x38, true);
+    this.fat = this.readFat();
+    this.entries = this.readDirectory();
+    this.miniFat = this.toUint32Array(this.readChain(this.view.getUint32(0x3C, true)));
+  }
+
+  /**
+   * 检查是否为OLE2复合文档
+   */
+  static isCompoundFile(bytes: Uint8Array): boolean {
+    return bytes.length >= 512 && SIGNATURE.every((byte, index) => bytes[index] === byte);
+  }
+
+  /**
+   * 解析复合文档
+   */
+  static parse(source: ArrayBuffer | Uint8Array): CompoundFile {
+    const bytes = source instanceof Uint8Array ? source : new Uint8Array(source);
+    if (!this.isCompoundFile(bytes)) {
+      throw new Error('不是有效的OLE2复合文档');
+    }
+    return new CompoundFile(bytes);
+  }
+
+  /**
+   * 根存储下的条目名称
+   */
+  listEntries(): string[] {
+    return this.children(0).map(entry => entry.name);
+  }
+
+  /**
+   * 读取根存储下的数据流，名称不区分大小写，不存在时返回null
+   */
+  getStream(name: string): Uint8Array | null {
+    const entry = this.children(0).find(child => child.type === 'stream' && child.name.toLowerCase() === name.toLowerCase());
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.size < this.miniStreamCutoff) {
+      const miniStream = this.getMiniStream();
+      const data = new Uint8Array(entry.size);
+      let offset = 0;
+      for (const sector of this.followChain(this.miniFat, entry.startSector)) {
+        const start = sector * this.miniSectorSize;
+        const length = Math.min(this.miniSectorSize, entry.size - offset);
+        data.set(miniStream.subarray(start, start + length), offset);
+        offset += length;
+        if (offset >= entry.size) break;
+      }
+      return data;
+    }
+
+    return this.readChain(entry.startSector).subarray(0, entry.size);
+  }
+
+  private getMiniStream(): Uint8Array {
+    if (!this.miniStream) {
+      const root = this.entries[0];
+      this.miniStream = this.readChain(root.startSector).subarray(0, root.size);
+    }
+    return this.miniStream;
+  }
+
+  /**
+   * 遍历存储的子目录树（中序，左-中-右）
+   */
+  private children(index: number): CompoundFileEntry[] {
+    const result: CompoundFileEntry[] = [];
+    const visited = new Set<number>();
+    const walk = (id: number) => {
+      // 损坏的目录可能形成环
+      if (id === NO_STREAM || id >= this.entries.length || visited.has(id)) return;
+      visited.add(id);
+      const entry = this.entries[id];
+      walk(entry.left);
+      result.push(entry);
+      walk(entry.right);
+    };
+    walk(this.entries[index]?.child ?? NO_STREAM);
+    return result;
+  }
+
+  private readFat(): Uint32Array {
+    const fatSectors: number[] = [];
+    const fatCount = this.view.getUint32(0x2C, true);
+
+    for (let i = 0; i < HEADER_DIFAT_COUNT && fatSectors.length < fatCount; i++) {
+      fatSectors.push(this.view.getUint32(0x4C + i * 4, true));
+    }
+
+    // 超过109个FAT扇区时通过DIFAT扇区链继续
+    let difatSector = this.view.getUint32(0x44, true);
+    const perSector = this.sectorSize / 4 - 1;
+    const visited = new Set<number>();
+    while (fatSectors.length < fatCount && difatSector < END_OF_CHAIN && !visited.has(difatSector)) {
+      visited.add(difatSector);
+      const offset = this.sectorOffset(difatSector);
+      for (let i = 0; i < perSector && fatSectors.length < fatCount; i++) {
+        fatSectors.push(this.view.getUint32(offset + i * 4, true));
+      }
+      difatSector = this.view.getUint32(offset + perSector * 4, true);
+    }
+
+    const fat = new Uint32Array(fatSectors.length * (this.sectorSize / 4));
+    fatSectors.forEach((sector, index) => {
+      const offset = this.sectorOffset(sector);
+      for (let i = 0; i < this.sectorSize / 4; i++) {
+        fat[index * (this.sectorSize / 4) + i] = this.view.getUint32(offset + i * 4, true);
+      }
+    });
+    return fat;
+  }
+
+  private readDirectory(): CompoundFileEntry[] {
+    const data = this.readChain(this.view.getUint32(0x30, true));
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const entries: CompoundFileEntry[] = [];
+
+    for (let offset = 0; offset + DIRECTORY_ENTRY_SIZE <= data.length; offset += DIRECTORY_ENTRY_SIZE) {
+      const nameLength = Math.min(64, view.getUint16(offset + 64, true));
+      let name = '';
+      for (let i = 0; i + 2 < nameLength; i += 2) {
+        name += String.fromCharCode(view.getUint16(offset + i, true));
+      }
+
+      const type = view.getUint8(offset + 66);
+      entries.push({
+        name,
+        type: type === 5 ? 'root' : type === 1 ? 'storage' : 'stream',
+        left: view.getUint32(offset + 68, true),
+        right: view.getUint32(offset + 72, true),
+        child: view.getUint32(offset + 76, true),
+        startSector: view.getUint32(offset + 116, true),
+        // 版本3文件的高32位可能是脏数据
+        size: view.getUint32(offset + 120, true)
+      });
+    }
+
+    if (entries[0]?.type !== 'root') {
+      throw new Error('OLE2复合文档缺少根目录');
+    }
+    return entries;
+  }
+
+  private readChain(startSector: number): Uint8Array {
+    const sectors = this.followChain(this.fat, startSector);
+    const data = new Uint8Array(sectors.length * this.sectorSize);
+    sectors.forEach((sector, index) => {
+      const offset = this.sectorOffset(sector);
+      data.set(this.bytes.subarray(offset, offset + this.sectorSize), index * this.sectorSize);
+    });
+    return data;
+  }
+
+  private followChain(table: Uint32Array, startSector: number): number[] {
+    const sectors: number[] = [];
+    const visited = new Set<number>();
+    let sector = startSector;
+
+    while (sector !== END_OF_CHAIN && sector !== FREE_SECTOR) {
+      if (sector >= table.length || visited.has(sector)) {
+        throw new Error('OLE2复合文档扇区链已损坏');
+      }
+      visited.add(sector);
+      sectors.push(sector);
+      sector = table[sector];
+    }
+    return sectors;
+  }
+
+  private sectorOffset(sector: number): number {
+    const offset = (sector + 1) * this.sectorSize;
+    // 允许最后一个扇区被截断
+    if (offset >= this.bytes.length) {
+      throw new Error('OLE2复合文档扇区超出文件范围');
+    }
+    return offset;
+  }
+
+  private toUint32Array(data: Uint8Array): Uint32Array {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const result = new Uint32Array(Math.floor(data.length / 4));
+    for (let i = 0; i < result.length; i++) {
+      result[i] = view.getUint32(i * 4, true);
+    }
+    return result;
+  }
+}
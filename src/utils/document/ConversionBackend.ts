@@ -0,0 +1,193 @@
+/**
+ * 文档转换后端 - 可插拔的Word到PDF转换接口
+ * 内置HTTP适配器，对接自建的LibreOffice/Gotenberg兼容转换服务
+ */
+
+import type { DirectConversionOptions } from './DirectWordToPDFConverter';
+
+export type ConversionBackendKind = 'server_api' | 'webassembly';
+
+export interface ConversionBackend {
+  readonly id: string;
+  readonly kind: ConversionBackendKind;
+  readonly description: string;
+  readonly preservationScore: number;   // 格式保持得分 0-100
+  priority?: number;                    // 越大越先尝试，默认按注册顺序
+  isAvailable(): Promise<boolean>;
+  convert(file: File, options: DirectConversionOptions): Promise<Blob>;
+}
+
+export interface HttpConversionBackendOptions {
+  endpoint: string;                     // 服务地址，如 http://localhost:3000
+  id?: string;
+  description?: string;
+  convertPath?: string;                 // 默认Gotenberg路由 /forms/libreoffice/convert
+  healthPath?: string | null;           // 默认 /health，null表示跳过检查
+  fileField?: string;                   // 文件表单字段名，默认 files
+  headers?: Record<string, string>;
+  timeout?: number;                     // 单次请求超时 (ms)
+  retryAttempts?: number;               // 失败后的重试次数
+  retryDelay?: number;                  // 重试间隔 (ms)，按次数线性递增
+  healthCacheTime?: number;             // 可用性检查结果缓存时间 (ms)
+  preservationScore?: number;
+  priority?: number;
+}
+
+// 部署时通过环境变量配置转换服务
+export interface ConversionBackendEnv {
+  VITE_CONVERTER_URL?: string;          // 转换服务地址，未设置时不启用服务器端转换
+  VITE_CONVERTER_HEALTH_PATH?: string;  // 健康检查路径，设为none时跳过检查
+}
+
+export class HttpConversionBackend implements ConversionBackend {
+  readonly kind = 'server_api';
+  readonly id: string;
+  readonly description: string;
+  readonly preservationScore: number;
+  priority?: number;
+
+  private readonly options: Required<Omit<HttpConversionBackendOptions, 'id' | 'description' | 'priority'>>;
+  private availability?: { available: boolean; checkedAt: number };
+
+  constructor(options: HttpConversionBackendOptions) {
+    this.id = options.id || 'http';
+    this.description = options.description || `LibreOffice转换服务 (${options.endpoint})`;
+    this.priority = options.priority;
+    this.options = {
+      endpoint: options.endpoint.replace(/\/+$/, ''),
+      convertPath: options.convertPath || '/forms/libreoffice/convert',
+      healthPath: options.healthPath === undefined ? '/health' : options.healthPath,
+      fileField: options.fileField || 'files',
+      headers: options.headers || {},
+      timeout: options.timeout ?? 60000,
+      retryAttempts: options.retryAttempts ?? 2,
+      retryDelay: options.retryDelay ?? 500,
+      healthCacheTime: options.healthCacheTime ?? 30000,
+      preservationScore: options.preservationScore ?? 95
+    };
+    this.preservationScore = this.options.preservationScore;
+  }
+
+  /**
+   * 按环境变量创建转换后端，未配置服务地址时返回null
+   */
+  static fromEnv(env: ConversionBackendEnv): HttpConversionBackend | null {
+    const endpoint = env.VITE_CONVERTER_URL?.trim();
+    if (!endpoint) {
+      return null;
+    }
+
+    const healthPath = env.VITE_CONVERTER_HEALTH_PATH?.trim();
+    return new HttpConversionBackend({
+      endpoint,
+      healthPath: healthPath === 'none' ? null : healthPath || undefined
+    });
+  }
+
+  /**
+   * 检查转换服务是否可达，结果短时间缓存
+   */
+  async isAvailable(): Promise<boolean> {
+    const { healthPath, healthCacheTime, timeout } = this.options;
+    if (healthPath === null) {
+      return true;
+    }
+    if (this.availability && Date.now() - this.availability.checkedAt < healthCacheTime) {
+      return this.availability.available;
+    }
+
+    let available = false;
+    try {
+      available = await this.request(healthPath, { method: 'GET' }, Math.min(timeout, 5000), async response => response.ok);
+    } catch (error) {
+      console.warn('⚠️ 转换服务健康检查失败:', this.id, error);
+    }
+
+    this.availability = { available, checkedAt: Date.now() };
+    return available;
+  }
+
+  /**
+   * 上传文档并取回PDF，网络错误、超时和5xx/429会重试
+   */
+  async convert(file: File, options: DirectConversionOptions): Promise<Blob> {
+    const { convertPath, fileField, timeout, retryAttempts, retryDelay } = this.options;
+    let lastError: Error = new Error('转换服务未返回结果');
+
+    for (let attempt = 0; attempt <= retryAttempts; attempt++) {
+      if (attempt > 0) {
+        console.log(`🔁 转换服务重试 ${attempt}/${retryAttempts}:`, this.id);
+        await new Promise(resolve => setTimeout(resolve, retryDelay * attempt));
+      }
+
+      let retryable = true;
+      try {
+        const form = new FormData();
+        form.append(fileField, file);
+        if (options.orientation === 'landscape') {
+          form.append('landscape', 'true');
+        }
+
+        const blob = await this.request(convertPath, { method: 'POST', body: form }, timeout, async response => {
+          if (!response.ok) {
+            // 其余4xx是请求本身的问题，重试没有意义
+            retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+            throw new Error(`转换服务返回错误状态: ${response.status}`);
+          }
+          const result = await response.blob();
+          if (!(await this.isPdf(result, response.headers.get('content-type')))) {
+            retryable = false;
+            throw new Error('转换服务返回的不是PDF文件');
+          }
+          return result.type === 'application/pdf' ? result : new Blob([result], { type: 'application/pdf' });
+        });
+
+        this.availability = { available: true, checkedAt: Date.now() };
+        return blob;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        console.warn('⚠️ 转换服务请求失败:', this.id, lastError.message);
+        if (!retryable) {
+          break;
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  // 超时覆盖从发出请求到读完响应体的全过程
+  private async request<T>(
+    path: string,
+    init: RequestInit,
+    timeout: number,
+    handle: (response: Response) => Promise<T>
+  ): Promise<T> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      const response = await fetch(`${this.options.endpoint}${path}`, {
+        ...init,
+        headers: this.options.headers,
+        signal: controller.signal
+      });
+      return await handle(response);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`转换服务请求超时 (${timeout}ms)`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async isPdf(blob: Blob, contentType: string | null): Promise<boolean> {
+    if (contentType?.includes('application/pdf')) {
+      return true;
+    }
+    const header = new Uint8Array(await blob.slice(0, 5).arrayBuffer());
+    return String.fromCharCode(...header) === '%PDF-';
+  }
+}
@@ -2,14 +2,18 @@
  * 直接Word到PDF转换器
  * 核心策略：保持Word原始内容和格式，不进行内容提取和重构
  * 
- * 转换方法优先级：
- * 1. 浏览器File System Access API + 系统默认转换器
- * 2. Mammoth + 高保真HTML到PDF转换
- * 3. WebAssembly DOCX解析器
- * 4. 服务器端转换API（如果配置）
+ * 转换方法优先级（可通过methodOrder调整）：
+ * 1. 服务器端转换API（注册了server_api后端时）
+ * 2. WebAssembly DOCX解析器（注册了webassembly后端时）
+ * 3. 浏览器File System Access API + 系统默认转换器
+ * 4. Mammoth + 高保真HTML到PDF转换
  */
 
+import { PDFDocument } from 'pdf-lib';
 import { LibraryLoader } from '../cdn/LibraryLoader';
+import type { ConversionBackend, ConversionBackendKind } from './ConversionBackend';
+
+export type ConversionMethod = 'server_api' | 'webassembly' | 'browser_native' | 'mammoth_advanced';
 
 export interface DirectConversionOptions {
   preserveFormatting: boolean;     // 保持格式化
@@ -20,6 +24,7 @@ export interface DirectConversionOptions {
   pageSize: 'A4' | 'Letter' | 'Legal';
   orientation: 'portrait' | 'landscape';
   margin: number;                  // 页边距 (mm)
+  methodOrder?: ConversionMethod[]; // 转换方法尝试顺序
 }
 
 export interface DirectConversionResult {
@@ -29,6 +34,7 @@ export interface DirectConversionResult {
   pageCount?: number;
   fileSize?: number;
   conversionMethod: string;
+  backendId?: string;              // 实际完成转换的后端
   preservationScore: number;       // 格式保持得分 0-100
   processingTime: number;
   warnings?: string[];
@@ -54,6 +60,15 @@ export class DirectWordToPDFConverter {
     margin: 20
   };
 
+  private static readonly DEFAULT_METHOD_ORDER: ConversionMethod[] = [
+    'server_api',
+    'webassembly',
+    'browser_native',
+    'mammoth_advanced'
+  ];
+
+  private static backends: ConversionBackend[] = [];
+
   /**
    * 主转换方法 - 直接Word到PDF转换
    */
@@ -73,92 +88,34 @@ export class DirectWordToPDFConverter {
       timestamp: new Date().toISOString()
     });
 
-    // 方法1：浏览器原生转换 (最高保真度)
-    try {
-      console.log('🥇 尝试方法1: 浏览器原生转换...');
-      const nativeResult = await this.convertWithBrowserNative(file, config);
-      
-      if (nativeResult.success && nativeResult.pdfBlob) {
-        console.log('✅ 浏览器原生转换成功');
-        return {
-          ...nativeResult,
-          processingTime: performance.now() - startTime,
-          warnings,
-          errors
-        };
-      } else {
-        warnings.push('浏览器原生转换不可用或失败');
-      }
-    } catch (error) {
-      const errorMsg = `浏览器原生转换出错: ${error instanceof Error ? error.message : '未知错误'}`;
-      console.warn('⚠️', errorMsg);
-      errors.push(errorMsg);
-    }
-
-    // 方法2：Mammoth高保真HTML转换
-    try {
-      console.log('🥈 尝试方法2: Mammoth高保真HTML转换...');
-      const mammothResult = await this.convertWithMammothAdvanced(file, config);
-      
-      if (mammothResult.success && mammothResult.pdfBlob) {
-        console.log('✅ Mammoth高保真转换成功');
-        return {
-          ...mammothResult,
-          processingTime: performance.now() - startTime,
-          warnings,
-          errors
-        };
-      } else {
-        warnings.push('Mammoth高保真转换失败');
-      }
-    } catch (error) {
-      const errorMsg = `Mammoth转换出错: ${error instanceof Error ? error.message : '未知错误'}`;
-      console.warn('⚠️', errorMsg);
-      errors.push(errorMsg);
-    }
-
-    // 方法3：WebAssembly转换器 (预留)
-    try {
-      console.log('🥉 尝试方法3: WebAssembly转换器...');
-      const wasmResult = await this.convertWithWebAssembly(file, config);
-      
-      if (wasmResult.success && wasmResult.pdfBlob) {
-        console.log('✅ WebAssembly转换成功');
-        return {
-          ...wasmResult,
-          processingTime: performance.now() - startTime,
-          warnings,
-          errors
-        };
-      } else {
-        warnings.push('WebAssembly转换器不可用');
-      }
-    } catch (error) {
-      const errorMsg = `WebAssembly转换出错: ${error instanceof Error ? error.message : '未知错误'}`;
-      console.warn('⚠️', errorMsg);
-      errors.push(errorMsg);
-    }
+    const methods: Record<ConversionMethod, { label: string; run: () => Promise<DirectConversionResult> }> = {
+      server_api: { label: '服务器端转换API', run: () => this.convertWithServerAPI(file, config) },
+      webassembly: { label: 'WebAssembly转换器', run: () => this.convertWithWebAssembly(file, config) },
+      browser_native: { label: '浏览器原生转换', run: () => this.convertWithBrowserNative(file, config) },
+      mammoth_advanced: { label: 'Mammoth高保真HTML转换', run: () => this.convertWithMammothAdvanced(file, config) }
+    };
 
-    // 方法4：服务器端转换API (预留)
-    try {
-      console.log('🎯 尝试方法4: 服务器端转换API...');
-      const serverResult = await this.convertWithServerAPI(file, config);
-      
-      if (serverResult.success && serverResult.pdfBlob) {
-        console.log('✅ 服务器端转换成功');
-        return {
-          ...serverResult,
-          processingTime: performance.now() - startTime,
-          warnings,
-          errors
-        };
-      } else {
-        warnings.push('服务器端转换API不可用');
+    for (const method of config.methodOrder || this.DEFAULT_METHOD_ORDER) {
+      const { label, run } = methods[method];
+      try {
+        console.log(`🔄 尝试${label}...`);
+        const result = await run();
+
+        if (result.success && result.pdfBlob) {
+          console.log(`✅ ${label}成功`);
+          return {
+            ...result,
+            processingTime: performance.now() - startTime,
+            warnings: [...warnings, ...(result.warnings || [])],
+            errors
+          };
+        }
+        warnings.push(...(result.errors?.length ? result.errors : [`${label}不可用或失败`]));
+      } catch (error) {
+        const errorMsg = `${label}出错: ${error instanceof Error ? error.message : '未知错误'}`;
+        console.warn('⚠️', errorMsg);
+        errors.push(errorMsg);
       }
-    } catch (error) {
-      const errorMsg = `服务器端转换出错: ${error instanceof Error ? error.message : '未知错误'}`;
-      console.warn('⚠️', errorMsg);
-      errors.push(errorMsg);
     }
 
     // 所有方法都失败
@@ -650,53 +607,167 @@ export class DirectWordToPDFConverter {
   }
 
   /**
-   * 方法3：WebAssembly转换器 (预留)
+   * WebAssembly转换器，由注册的webassembly后端提供
    */
   private static async convertWithWebAssembly(
     file: File,
     options: DirectConversionOptions
   ): Promise<DirectConversionResult> {
-    // 预留WebAssembly DOCX解析器接口
-    return {
-      success: false,
-      conversionMethod: 'webassembly',
-      preservationScore: 0,
-      processingTime: 0,
-      errors: ['WebAssembly转换器暂未实现']
-    };
+    return this.convertWithBackends('webassembly', file, options);
   }
 
   /**
-   * 方法4：服务器端转换API (预留)
+   * 服务器端转换API，由注册的server_api后端提供
    */
   private static async convertWithServerAPI(
     file: File,
     options: DirectConversionOptions
   ): Promise<DirectConversionResult> {
-    // 预留服务器端转换API接口
+    return this.convertWithBackends('server_api', file, options);
+  }
+
+  /**
+   * 按优先级依次尝试可用的后端，第一个成功的结果即返回
+   */
+  private static async convertWithBackends(
+    kind: ConversionBackendKind,
+    file: File,
+    options: DirectConversionOptions
+  ): Promise<DirectConversionResult> {
+    const candidates = this.getBackends(kind);
+    if (candidates.length === 0) {
+      return {
+        success: false,
+        conversionMethod: kind,
+        preservationScore: 0,
+        processingTime: 0,
+        errors: [kind === 'server_api' ? '服务器端转换API需要配置' : 'WebAssembly转换器未配置']
+      };
+    }
+
+    const errors: string[] = [];
+    for (const backend of candidates) {
+      if (!(await backend.isAvailable())) {
+        errors.push(`转换后端${backend.id}不可用`);
+        continue;
+      }
+
+      try {
+        console.log('🔧 使用转换后端:', backend.id);
+        const pdfBlob = await backend.convert(file, options);
+        const pageCount = await this.countPages(pdfBlob);
+
+        return {
+          success: true,
+          pdfBlob,
+          pdfDataUrl: URL.createObjectURL(pdfBlob),
+          pageCount,
+          fileSize: pdfBlob.size,
+          conversionMethod: kind,
+          backendId: backend.id,
+          preservationScore: backend.preservationScore,
+          processingTime: 0,
+          warnings: errors.length > 0 ? errors : undefined,
+          metadata: {
+            originalSize: file.size,
+            compressedSize: pdfBlob.size,
+            hasImages: false,
+            hasTables: false,
+            pageCount
+          }
+        };
+      } catch (error) {
+        errors.push(`转换后端${backend.id}失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      }
+    }
+
     return {
       success: false,
-      conversionMethod: 'server_api',
+      conversionMethod: kind,
       preservationScore: 0,
       processingTime: 0,
-      errors: ['服务器端转换API需要配置']
+      errors
     };
   }
 
+  private static async countPages(pdfBlob: Blob): Promise<number> {
+    try {
+      const pdfDoc = await PDFDocument.load(new Uint8Array(await pdfBlob.arrayBuffer()), { ignoreEncryption: true });
+      return pdfDoc.getPageCount();
+    } catch (error) {
+      console.warn('⚠️ 无法读取转换结果的页数:', error);
+      return 0;
+    }
+  }
+
   /**
-   * 获取支持的转换方法
+   * 注册转换后端，同id的后端会被替换
    */
-  static getSupportedMethods(): Array<{
-    method: string;
+  static registerBackend(backend: ConversionBackend): void {
+    this.backends = [...this.backends.filter(existing => existing.id !== backend.id), backend];
+    console.log('🔌 注册转换后端:', { id: backend.id, kind: backend.kind });
+  }
+
+  static unregisterBackend(id: string): void {
+    this.backends = this.backends.filter(backend => backend.id !== id);
+  }
+
+  static clearBackends(): void {
+    this.backends = [];
+  }
+
+  /**
+   * 获取已注册的后端，按priority降序，相同时保持注册顺序
+   */
+  static getBackends(kind?: ConversionBackendKind): ConversionBackend[] {
+    return this.backends
+      .filter(backend => !kind || backend.kind === kind)
+      .map((backend, index) => ({ backend, index }))
+      .sort((a, b) => (b.backend.priority ?? 0) - (a.backend.priority ?? 0) || a.index - b.index)
+      .map(({ backend }) => backend);
+  }
+
+  /**
+   * 获取支持的转换方法及当前的实际可用性
+   */
+  static async getSupportedMethods(): Promise<Array<{
+    method: ConversionMethod;
     available: boolean;
     description: string;
     preservationScore: number;
-  }> {
+    backends?: Array<{ id: string; available: boolean; description: string }>;
+  }>> {
+    const describeBackends = async (kind: ConversionBackendKind) => Promise.all(
+      this.getBackends(kind).map(async backend => ({
+        id: backend.id,
+        available: await backend.isAvailable().catch(() => false),
+        description: backend.description
+      }))
+    );
+    const [serverBackends, wasmBackends] = await Promise.all([
+      describeBackends('server_api'),
+      describeBackends('webassembly')
+    ]);
+
     return [
+      {
+        method: 'server_api',
+        available: serverBackends.some(backend => backend.available),
+        description: '服务器端转换API',
+        preservationScore: 95,
+        backends: serverBackends
+      },
+      {
+        method: 'webassembly',
+        available: wasmBackends.some(backend => backend.available),
+        description: 'WebAssembly DOCX解析器',
+        preservationScore: 90,
+        backends: wasmBackends
+      },
       {
         method: 'browser_native',
-        available: 'showSaveFilePicker' in window,
-        description: '浏览器原生转换 (最高保真度)',
+        available: 'showSaveFilePicker' in window && 'showOpenFilePicker' in window,
+        description: '浏览器原生转换',
         preservationScore: 85
       },
       {
@@ -704,19 +775,7 @@ export class DirectWordToPDFConverter {
         available: true,
         description: 'Mammoth高保真HTML转换',
         preservationScore: 75
-      },
-      {
-        method: 'webassembly',
-        available: false,
-        description: 'WebAssembly DOCX解析器',
-        preservationScore: 90
-      },
-      {
-        method: 'server_api',
-        available: false,
-        description: '服务器端转换API',
-        preservationScore: 95
       }
     ];
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,301 @@
+/**
+ * Word (DOCX) 原生水印 - 与Word"插入水印"相同的页眉锚定形状
+ * 旋转、半透明的艺术字(VML textpath)或冲蚀图片写入每个节的页眉（首页/偶数页/奇数页），
+ * 出现在每一页正文之下，不占用正文排版
+ */
+
+import JSZip from 'jszip';
+import { OoxmlPackage, OOXML_NS, OOXML_REL_TYPES, type OoxmlImage } from './OoxmlPackage';
+
+export type HeaderType = 'default' | 'first' | 'even';
+
+export interface DocxTextWatermark {
+  content: string;
+  fontFamily?: string;
+  color: string; // #RRGGBB
+  width: number; // 艺术字宽度（pt），文字自动适应形状大小
+  height: number; // pt
+}
+
+export interface DocxWatermarkContent {
+  text?: DocxTextWatermark;
+  image?: OoxmlImage;
+}
+
+export interface DocxWatermarkOptions {
+  opacity: number;
+  rotation?: number; // 度，仅文字水印
+  horizontal?: 'left' | 'center' | 'right';
+  vertical?: 'top' | 'center' | 'bottom';
+  washout?: boolean; // 图片冲蚀效果
+}
+
+export interface DocxWatermarkResult {
+  bytes: Uint8Array;
+  sectionCount: number;
+  headerParts: string[];
+  createdHeaders: string[];
+}
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const VML_NS = 'urn:schemas-microsoft-com:vml';
+const OFFICE_NS = 'urn:schemas-microsoft-com:office:office';
+const W10_NS = 'urn:schemas-microsoft-com:office:word';
+const HEADER_REL_TYPE = `${OOXML_NS.relationships}/header`;
+const SETTINGS_REL_TYPE = `${OOXML_NS.relationships}/settings`;
+const HEADER_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml';
+
+// 已有水印形状的ID前缀，与Word自身生成的水印一致，重复处理时替换而不是叠加
+const WATERMARK_SHAPE_PREFIXES = ['PowerPlusWaterMarkObject', 'WordPictureWatermark'];
+
+export class DocxWatermark {
+  /**
+   * 为文档每个节的页眉添加水印
+   */
+  static async apply(
+    source: ArrayBuffer | Uint8Array,
+    content: DocxWatermarkContent,
+    options: DocxWatermarkOptions
+  ): Promise<DocxWatermarkResult> {
+    if (!content.text && !content.image) {
+      throw new Error('未提供水印文字或图片');
+    }
+
+    const zip = await JSZip.loadAsync(source);
+    const documentPath = await OoxmlPackage.findMainPartPath(zip, 'word/document.xml');
+    const documentXml = await zip.file(documentPath)!.async('string');
+    const documentDoc = OoxmlPackage.parseXml(documentXml);
+    const relationships = await OoxmlPackage.getRelationships(zip, documentPath);
+    const headerTargets = new Map(relationships.filter(rel => rel.type === HEADER_REL_TYPE).map(rel => [rel.id, rel.target]));
+
+    const sections = Array.from(documentDoc.getElementsByTagNameNS(W_NS, 'sectPr'))
+      // 修订记录中的旧节属性不参与排版
+      .filter(sectPr => sectPr.parentElement?.localName !== 'sectPrChange');
+    if (sections.length === 0) {
+      // 没有节属性时使用默认节
+      const body = documentDoc.getElementsByTagNameNS(W_NS, 'body')[0];
+      if (!body) {
+        throw new Error('不是有效的Word文档：缺少文档主体');
+      }
+      sections.push(body.appendChild(documentDoc.createElementNS(W_NS, 'w:sectPr')) as Element);
+    }
+
+    const evenAndOddHeaders = await this.hasEvenAndOddHeaders(zip, relationships);
+    let mediaPath: string | undefined;
+    if (content.image) {
+      mediaPath = OoxmlPackage.uniquePath(zip, `word/media/watermark.${content.image.format === 'jpeg' ? 'jpeg' : 'png'}`);
+      zip.file(mediaPath, content.image.bytes);
+      await OoxmlPackage.ensureDefaultContentTypes(zip, [content.image.format]);
+    }
+
+    const headerParts = new Set<string>();
+    const createdHeaders: string[] = [];
+    // 没有引用某类页眉的节会继承前一节的页眉，只有第一次缺失时需要新建
+    const inherited = new Set<HeaderType>();
+
+    for (const sectPr of sections) {
+      const types: HeaderType[] = ['default'];
+      if (this.isOn(this.child(sectPr, 'titlePg'))) types.push('first');
+      if (evenAndOddHeaders) types.push('even');
+
+      const references = Array.from(sectPr.children).filter(child => child.localName === 'headerReference');
+      for (const type of types) {
+        const reference = references.find(ref => (ref.getAttributeNS(W_NS, 'type') || 'default') === type);
+        const target = reference ? headerTargets.get(reference.getAttributeNS(OOXML_NS.relationships, 'id') || '') : undefined;
+
+        if (target && zip.file(target)) {
+          headerParts.add(target);
+        } else if (!inherited.has(type)) {
+          const headerPath = OoxmlPackage.uniquePath(zip, 'word/header1.xml');
+          zip.file(headerPath, this.createHeaderXml());
+          await OoxmlPackage.addOverrideContentType(zip, headerPath, HEADER_CONTENT_TYPE);
+          const relId = await OoxmlPackage.addRelationship(zip, documentPath, HEADER_REL_TYPE, headerPath);
+
+          reference?.parentElement?.removeChild(reference);
+          const headerReference = documentDoc.createElementNS(W_NS, 'w:headerReference');
+          headerReference.setAttributeNS(W_NS, 'w:type', type);
+          headerReference.setAttributeNS(OOXML_NS.relationships, 'r:id', relId);
+          // 页眉引用必须位于节属性的最前面
+          sectPr.insertBefore(headerReference, sectPr.firstElementChild);
+
+          headerParts.add(headerPath);
+          createdHeaders.push(headerPath);
+        }
+        inherited.add(type);
+      }
+    }
+
+    let shapeIndex = 0;
+    for (const headerPath of headerParts) {
+      await this.addWatermarkToHeader(zip, headerPath, content, options, mediaPath, ++shapeIndex);
+    }
+
+    if (createdHeaders.length > 0) {
+      zip.file(documentPath, OoxmlPackage.serializeXml(documentDoc, documentXml));
+    }
+
+    const bytes = await zip.generateAsync({
+      type: 'uint8array',
+      compression: 'DEFLATE',
+      compressionOptions: { level: 6 }
+    });
+
+    console.log('📝 Word页眉水印添加完成:', {
+      sections: sections.length,
+      headers: headerParts.size,
+      created: createdHeaders.length
+    });
+
+    return { bytes, sectionCount: sections.length, headerParts: Array.from(headerParts), createdHeaders };
+  }
+
+  /**
+   * 在页眉部件开头插入水印段落，已有的水印形状先移除
+   */
+  private static async addWatermarkToHeader(
+    zip: JSZip,
+    headerPath: string,
+    content: DocxWatermarkContent,
+    options: DocxWatermarkOptions,
+    mediaPath: string | undefined,
+    index: number
+  ): Promise<void> {
+    const xml = await zip.file(headerPath)!.async('string');
+    const doc = OoxmlPackage.parseXml(xml);
+    const root = doc.documentElement;
+
+    Array.from(doc.getElementsByTagNameNS(VML_NS, 'shape'))
+      .filter(shape => WATERMARK_SHAPE_PREFIXES.some(prefix => (shape.getAttribute('id') || '').startsWith(prefix)))
+      .forEach(shape => {
+        let run: Element | null = shape;
+        while (run && !(run.localName === 'r' && run.namespaceURI === W_NS)) {
+          run = run.parentElement;
+        }
+        const target = run || shape;
+        const paragraph = target.parentElement;
+        target.parentNode?.removeChild(target);
+        // 只剩段落属性的水印段落一并移除
+        if (paragraph?.localName === 'p' && Array.from(paragraph.children).every(child => child.localName === 'pPr')) {
+          paragraph.parentNode?.removeChild(paragraph);
+        }
+      });
+
+    const shapes: string[] = [];
+    if (content.text) {
+      shapes.push(this.createTextShapeXml(content.text, options, index));
+    }
+    if (content.image && mediaPath) {
+      const relId = await OoxmlPackage.addRelationship(zip, headerPath, OOXML_REL_TYPES.image, mediaPath);
+      shapes.push(this.createImageShapeXml(content.image, options, relId, index));
+    }
+
+    const fragment = OoxmlPackage.parseXml(
+      `<w:root xmlns:w="${W_NS}" xmlns:r="${OOXML_NS.relationships}" xmlns:v="${VML_NS}" xmlns:o="${OFFICE_NS}" xmlns:w10="${W10_NS}">` +
+      `<w:p><w:pPr><w:pStyle w:val="Header"/></w:pPr>${shapes.map(shape => `<w:r><w:rPr><w:noProof/></w:rPr><w:pict>${shape}</w:pict></w:r>`).join('')}</w:p>` +
+      `</w:root>`
+    );
+    root.insertBefore(doc.importNode(fragment.documentElement.firstElementChild!, true), root.firstElementChild);
+
+    zip.file(headerPath, OoxmlPackage.serializeXml(doc, xml));
+  }
+
+  private static createTextShapeXml(text: DocxTextWatermark, options: DocxWatermarkOptions, index: number): string {
+    // VML rotation为顺时针角度
+    const rotation = ((Math.round(options.rotation ?? -45) % 360) + 360) % 360;
+    const fontFamily = this.escapeXml(text.fontFamily || 'Calibri');
+
+    return `<v:shapetype id="_x0000_t136" coordsize="21600,21600" o:spt="136" adj="10800" path="m@7,l@8,m@5,21600l@6,21600e">` +
+      `<v:formulas><v:f eqn="sum #0 0 10800"/><v:f eqn="prod #0 2 1"/><v:f eqn="sum 21600 0 @1"/><v:f eqn="sum 0 0 @2"/>` +
+      `<v:f eqn="sum 21600 0 @3"/><v:f eqn="if @0 @3 0"/><v:f eqn="if @0 21600 @1"/><v:f eqn="if @0 0 @2"/>` +
+      `<v:f eqn="if @0 @4 21600"/><v:f eqn="mid @5 @6"/><v:f eqn="mid @8 @5"/><v:f eqn="mid @7 @8"/>` +
+      `<v:f eqn="mid @6 @7"/><v:f eqn="sum @6 0 @5"/></v:formulas>` +
+      `<v:path textpathok="t" o:connecttype="custom" o:connectlocs="@9,0;@10,10800;@11,21600;@12,10800" o:connectangles="270,180,90,0"/>` +
+      `<v:textpath on="t" fitshape="t"/><v:handles><v:h position="#0,bottomRight" xrange="6629,14971"/></v:handles>` +
+      `<o:lock v:ext="edit" text="t" shapetype="t"/></v:shapetype>` +
+      `<v:shape id="PowerPlusWaterMarkObject${index}" o:spid="_x0000_s${2048 + index * 2 - 1}" type="#_x0000_t136" ` +
+      `style="${this.positionStyle(text.width, text.height, options)};rotation:${rotation}" ` +
+      `o:allowincell="f" fillcolor="${text.color}" stroked="f">` +
+      `<v:fill opacity="${this.formatNumber(options.opacity)}"/>` +
+      `<v:textpath style="font-family:&quot;${fontFamily}&quot;;font-size:1pt" string="${this.escapeXml(text.content)}"/>` +
+      `<w10:wrap anchorx="margin" anchory="margin"/></v:shape>`;
+  }
+
+  private static createImageShapeXml(image: OoxmlImage, options: DocxWatermarkOptions, relId: string, index: number): string {
+    const washout = options.washout ? ' gain="19661f" blacklevel="22938f"' : '';
+
+    return `<v:shapetype id="_x0000_t75" coordsize="21600,21600" o:spt="75" o:preferrelative="t" path="m@4@5l@4@11@9@11@9@5xe" filled="f" stroked="f">` +
+      `<v:stroke joinstyle="miter"/><v:formulas><v:f eqn="if lineDrawn pixelLineWidth 0"/><v:f eqn="sum @0 1 0"/>` +
+      `<v:f eqn="sum 0 0 @1"/><v:f eqn="prod @2 1 2"/><v:f eqn="prod @3 21600 pixelWidth"/><v:f eqn="prod @3 21600 pixelHeight"/>` +
+      `<v:f eqn="sum @0 0 1"/><v:f eqn="prod @6 1 2"/><v:f eqn="prod @7 21600 pixelWidth"/><v:f eqn="sum @8 21600 0"/>` +
+      `<v:f eqn="prod @7 21600 pixelHeight"/><v:f eqn="sum @10 21600 0"/></v:formulas>` +
+      `<v:path o:extrusionok="f" gradientshapeok="t" o:connecttype="rect"/><o:lock v:ext="edit" aspectratio="t"/></v:shapetype>` +
+      `<v:shape id="WordPictureWatermark${index}" o:spid="_x0000_s${2048 + index * 2}" type="#_x0000_t75" ` +
+      `style="${this.positionStyle(image.width, image.height, options)}" o:allowincell="f">` +
+      `<v:imagedata r:id="${relId}" o:title="watermark"${washout}/>` +
+      `<w10:wrap anchorx="margin" anchory="margin"/></v:shape>`;
+  }
+
+  /**
+   * 相对页边距定位，负z-index使水印位于正文之下
+   */
+  private static positionStyle(width: number, height: number, options: DocxWatermarkOptions): string {
+    return [
+      'position:absolute',
+      'margin-left:0',
+      'margin-top:0',
+      `width:${width.toFixed(1)}pt`,
+      `height:${height.toFixed(1)}pt`,
+      'z-index:-251657216',
+      `mso-position-horizontal:${options.horizontal || 'center'}`,
+      'mso-position-horizontal-relative:margin',
+      `mso-position-vertical:${options.vertical || 'center'}`,
+      'mso-position-vertical-relative:margin'
+    ].join(';');
+  }
+
+  private static createHeaderXml(): string {
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+      `<w:hdr xmlns:w="${W_NS}" xmlns:r="${OOXML_NS.relationships}" xmlns:v="${VML_NS}" xmlns:o="${OFFICE_NS}" xmlns:w10="${W10_NS}">` +
+      `<w:p><w:pPr><w:pStyle w:val="Header"/></w:pPr></w:p></w:hdr>`;
+  }
+
+  /**
+   * settings.xml中的evenAndOddHeaders决定是否使用偶数页页眉
+   */
+  private static async hasEvenAndOddHeaders(
+    zip: JSZip,
+    relationships: Array<{ type: string; target: string }>
+  ): Promise<boolean> {
+    const settingsPath = relationships.find(rel => rel.type === SETTINGS_REL_TYPE)?.target;
+    const settingsFile = settingsPath ? zip.file(settingsPath) : null;
+    if (!settingsFile) {
+      return false;
+    }
+
+    const doc = OoxmlPackage.parseXml(await settingsFile.async('string'));
+    return this.isOn(doc.getElementsByTagNameNS(W_NS, 'evenAndOddHeaders')[0]);
+  }
+
+  private static child(parent: Element, localName: string): Element | undefined {
+    return Array.from(parent.children).find(child => child.localName === localName && child.namespaceURI === W_NS);
+  }
+
+  // 开关属性：元素存在且w:val不为false/0/off
+  private static isOn(element: Element | undefined): boolean {
+    if (!element) return false;
+    const value = element.getAttributeNS(W_NS, 'val');
+    return value === null || value === '' || !['false', '0', 'off'].includes(value);
+  }
+
+  private static formatNumber(value: number): string {
+    return String(Math.round(Math.max(0, Math.min(1, value)) * 100) / 100);
+  }
+
+  private static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -108,6 +108,20 @@ export class FileFormatDetector {
       extension: 'webp',
       mimeType: 'image/webp'
     },
+    {
+      format: 'tiff',
+      signature: [0x49, 0x49, 0x2A, 0x00], // II* (小端)
+      description: 'Tagged Image File Format',
+      extension: 'tif',
+      mimeType: 'image/tiff'
+    },
+    {
+      format: 'tiff',
+      signature: [0x4D, 0x4D, 0x00, 0x2A], // MM*(大端)
+      description: 'Tagged Image File Format',
+      extension: 'tif',
+      mimeType: 'image/tiff'
+    },
     // 压缩格式
     {
       format: 'zip',
@@ -327,6 +341,7 @@ export class FileFormatDetector {
       'jpeg': ['add_watermark', 'resize', 'convert_format'],
       'gif': ['add_watermark', 'resize', 'convert_format'],
       'webp': ['add_watermark', 'resize', 'convert_format'],
+      'tiff': ['add_watermark', 'convert_to_pdf'],
       'rtf': ['extract_text', 'convert_to_pdf'],
       'zip': ['extract', 'list_contents'],
       'rar': ['extract', 'list_contents'],
@@ -441,7 +456,7 @@ export class FileFormatDetector {
    * 检查是否为图像格式
    */
   static isImageFormat(format: string): boolean {
-    return ['png', 'jpeg', 'gif', 'webp', 'bmp', 'svg'].includes(format);
+    return ['png', 'jpeg', 'gif', 'webp', 'tiff', 'bmp', 'svg'].includes(format);
   }
 
   /**
@@ -0,0 +1,70 @@
+/**
+ * 旧版Word文档提取器 - 将RTF和Word 97-2003(.doc)文档解析为统一的段落结构
+ * 输出供Word转PDF流程排版使用，无需服务器转换
+ */
+
+import { CompoundFile } from './CompoundFile';
+import { RtfParser } from './RtfParser';
+import { Word97Extractor } from './Word97Extractor';
+
+export type ExtractedAlignment = 'left' | 'center' | 'right' | 'justify';
+
+export interface ExtractedRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  fontSize?: number; // pt
+  color?: string; // #RRGGBB
+}
+
+export interface ExtractedParagraph {
+  runs: ExtractedRun[];
+  alignment?: ExtractedAlignment;
+  pageBreakBefore?: boolean;
+}
+
+export interface ExtractedDocument {
+  format: 'doc' | 'rtf' | 'docx';
+  paragraphs: ExtractedParagraph[];
+}
+
+export class LegacyWordExtractor {
+  /**
+   * 根据文件签名判断旧版Word格式
+   */
+  static detectFormat(bytes: Uint8Array): 'doc' | 'rtf' | null {
+    if (CompoundFile.isCompoundFile(bytes)) {
+      return 'doc';
+    }
+    if (RtfParser.isRtf(bytes)) {
+      return 'rtf';
+    }
+    return null;
+  }
+
+  /**
+   * 提取RTF或.doc文档的文本和格式
+   */
+  static extract(source: ArrayBuffer | Uint8Array): ExtractedDocument {
+    const bytes = source instanceof Uint8Array ? source : new Uint8Array(source);
+    const format = this.detectFormat(bytes);
+
+    if (format === 'rtf') {
+      return { format, paragraphs: RtfParser.parse(bytes) };
+    }
+    if (format === 'doc') {
+      return { format, paragraphs: Word97Extractor.extract(CompoundFile.parse(bytes)) };
+    }
+    throw new Error('不支持的旧版Word格式：仅支持RTF和Word 97-2003文档');
+  }
+
+  /**
+   * 段落结构转为纯文本，段落之间换行
+   */
+  static toPlainText(document: ExtractedDocument): string {
+    return document.paragraphs
+      .map(paragraph => paragraph.runs.map(run => run.text).join(''))
+      .join('\n');
+  }
+}
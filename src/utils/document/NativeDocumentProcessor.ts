@@ -1,12 +1,21 @@
 /**
  * 原生文档处理器 - 保持原始文档格式输出
- * 支持PDF和Word文档的水印添加，输出为相同格式
+ * 支持PDF、Word、Excel和PowerPoint文档的水印添加，输出为相同格式
  */
 
-import { PDFDocument, rgb } from 'pdf-lib';
-import JSZip from 'jszip';
-import type { SimpleWatermarkSettings, SimpleColorConfig } from '../watermark/SimpleWatermarkProcessor';
+import { PDFDocument, rgb, type PDFFont } from 'pdf-lib';
+import type { SimpleWatermarkSettings } from '../watermark/SimpleWatermarkProcessor';
 import { ChineseFontLoader } from '../fonts/ChineseFontLoader';
+import { PDFImageWatermark, type EmbeddedWatermarkImage } from '../../engines/pdf/PDFImageWatermark';
+import { PDFSecurity } from '../../engines/pdf/PDFSecurity';
+import { WatermarkImageGenerator } from '../../engines/watermark/WatermarkImageGenerator';
+import { XlsxWatermark } from './XlsxWatermark';
+import { PptxWatermark } from './PptxWatermark';
+import { DocxWatermark } from './DocxWatermark';
+import { OoxmlPackage, type OoxmlImage } from './OoxmlPackage';
+import { LegacyWordExtractor, type ExtractedDocument, type ExtractedParagraph } from './LegacyWordExtractor';
+import { WatermarkVariables } from '../watermark/WatermarkVariables';
+import { PageRules } from '../watermark/PageRules';
 
 export interface NativeDocumentResult {
   success: boolean;
@@ -73,7 +82,15 @@ export class NativeDocumentProcessor {
       if (fileType === 'pdf') {
         return await this.processPDFNative(file, settings, startTime);
       } else if (fileType === 'word') {
+        // RTF和Word 97-2003文档无法保持原格式，转换为PDF输出
+        if (await this.isLegacyWordFile(file)) {
+          return await this.processWordToPDF(file, settings);
+        }
         return await this.processWordNative(file, settings, startTime);
+      } else if (fileType === 'excel') {
+        return await this.processExcelNative(file, settings, startTime);
+      } else if (fileType === 'powerpoint') {
+        return await this.processPowerPointNative(file, settings, startTime);
       } else {
         throw new Error(`不支持的文档格式: ${file.type}`);
       }
@@ -98,9 +115,11 @@ export class NativeDocumentProcessor {
     settings: SimpleWatermarkSettings,
     startTime: number
   ): Promise<NativeDocumentResult> {
-    // 读取PDF文件
+    // 读取PDF文件，受密码保护的PDF先解密
     const arrayBuffer = await file.arrayBuffer();
-    const pdfDoc = await PDFDocument.load(arrayBuffer);
+    const pdfDoc = await PDFDocument.load(
+      await PDFSecurity.open(new Uint8Array(arrayBuffer), settings.security?.pdfPassword)
+    );
     
     // 获取页面信息
     const pages = pdfDoc.getPages();
@@ -108,101 +127,52 @@ export class NativeDocumentProcessor {
 
     // 设置水印样式
     const watermarkText = settings.text?.content || 'WATERMARK';
-    // 确保字体大小足够大，特别是对于小的PDF
-    const baseFontSize = Math.max(24, (settings.text?.font?.size || 24));
-    const fontSize = Math.max(18, baseFontSize * settings.position.scale);
-    // 确保透明度不会让水印完全消失
-    const opacity = Math.max(0.3, Math.min(1.0, settings.position.opacity));
+    const ruleTexts = (settings.pageRules || []).map(rule => rule.text?.content || '').join('');
 
     console.log('PDF水印参数:', {
       watermarkText,
-      fontSize,
-      opacity,
       scale: settings.position.scale,
       placement: settings.position.placement,
       corner: settings.position.corner,
-      containsChinese: ChineseFontLoader.containsChineseCharacters(watermarkText)
+      pages: settings.pages,
+      pageRules: settings.pageRules?.length || 0,
+      containsChinese: ChineseFontLoader.containsChineseCharacters(watermarkText + ruleTexts)
     });
 
-    // 创建支持中文的字体
-    const font = await ChineseFontLoader.createPDFFont(pdfDoc, watermarkText) || undefined;
+    // 创建支持中文的字体，需覆盖各页规则的文字
+    const font = await ChineseFontLoader.createPDFFont(pdfDoc, watermarkText + ruleTexts) || undefined;
 
-    // 解析颜色，使用用户设置的颜色或默认黑色
-    const textColor = settings.text?.color;
-    const colorString = typeof textColor === 'string' ? textColor : textColor?.primary || '#000000';
-    const color = this.parseColor(colorString);
+    // Logo图片只嵌入一次，各页面引用同一个Image XObject
+    let logo: EmbeddedWatermarkImage | undefined;
+    const usesImage = [settings.type, ...(settings.pageRules || []).map(rule => rule.type)].some(type => type && type !== 'text');
+    if (usesImage && settings.image?.source) {
+      logo = await PDFImageWatermark.embed(pdfDoc, settings.image.source);
+    }
+
+    // 空白页需在绘制水印之前识别
+    const blankPages = PageRules.needsBlankDetection(settings)
+      ? await PageRules.findBlankPages(pages)
+      : new Set<number>();
 
-    // 在每页添加水印
+    // 在每页添加水印，按页规则决定各页绘制哪些水印
     for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
       const page = pages[pageIndex];
+      const pageNumber = pageIndex + 1;
       const { width, height } = page.getSize();
-      
-      console.log(`处理第${pageIndex + 1}页，尺寸: ${width} x ${height}`);
-      
-      // 计算水印位置列表
-      const watermarkPositions = this.calculateWatermarkPositions(width, height, settings, fontSize);
-
-      // 现在支持中文水印，不需要预处理
-      const finalWatermarkText = watermarkText;
-      
-      // 确保水印文本不为空
-      if (!finalWatermarkText || finalWatermarkText.trim() === '') {
-        console.error('水印文本为空!', { watermarkText });
-        continue; // 跳过这页
-      }
-      
-      console.log(`页面${pageIndex + 1}水印详情:`, {
-        text: finalWatermarkText,
-        positionCount: watermarkPositions.length,
-        fontSize,
-        opacity,
-        color: color,
-        fontSupport: ChineseFontLoader.containsChineseCharacters(finalWatermarkText) ? '中文字体' : '标准字体'
-      });
-      
-      // 根据用户设置在所有计算的位置添加水印
-      for (let posIndex = 0; posIndex < watermarkPositions.length; posIndex++) {
-        const { x, y } = watermarkPositions[posIndex];
-        
-        try {
-          console.log(`在页面${pageIndex + 1}添加水印到位置 (${x}, ${y})`);
-          
-          page.drawText(finalWatermarkText, {
-            x,
-            y,
-            size: fontSize,
-            font,
-            color: rgb(color.r, color.g, color.b),
-            opacity
-          });
+      const layers = PageRules.getPageSettings(settings, pageNumber, pageCount, blankPages.has(pageNumber));
 
-          console.log(`页面${pageIndex + 1}位置${posIndex + 1}水印添加成功`);
+      console.log(`处理第${pageNumber}页，尺寸: ${width} x ${height}，水印层数: ${layers.length}`);
 
-        } catch (drawError) {
-          console.error(`绘制水印失败 (位置${posIndex + 1})，使用备用方案:`, drawError);
-          
-          // 备用方案：使用最安全的参数
-          try {
-            page.drawText(finalWatermarkText, {
-              x: Math.max(50, Math.min(x, width - 150)),
-              y: Math.max(50, Math.min(y, height - 50)),
-              size: Math.max(16, fontSize),
-              font,
-              color: rgb(1, 0, 0), // 红色确保可见
-              opacity: 1.0
-            });
-            console.log(`页面${pageIndex + 1}位置${posIndex + 1}使用备用方案添加水印成功`);
-          } catch (backupError) {
-            console.error(`备用方案也失败 (位置${posIndex + 1}):`, backupError);
-          }
-        }
+      for (const layer of layers) {
+        this.addWatermarkLayerToPage(page, layer, font, layer.type !== 'text' ? logo : undefined, pageNumber, pageCount);
       }
 
-      console.log(`页面${pageIndex + 1}水印添加完成`);
+      console.log(`页面${pageNumber}水印添加完成`);
     }
 
     // 生成处理后的PDF
     console.log('开始保存PDF文档...');
+    // 加密由处理流程在最后一步统一进行，这里输出明文PDF
     const pdfBytes = await pdfDoc.save({
       useObjectStreams: false,
       addDefaultPage: false
@@ -232,7 +202,178 @@ export class NativeDocumentProcessor {
   }
 
   /**
-   * 处理Word文档 - 使用JSZip读取和修改现有Word文档内容并添加水印
+   * 在PDF页面上绘制一层水印（基础水印或某条页面规则）
+   */
+  private addWatermarkLayerToPage(
+    page: ReturnType<PDFDocument['getPages']>[number],
+    settings: SimpleWatermarkSettings,
+    font: PDFFont | undefined,
+    logo: EmbeddedWatermarkImage | undefined,
+    pageNumber: number,
+    pageCount: number
+  ): void {
+    const { width, height } = page.getSize();
+    const watermarkText = settings.text?.content || 'WATERMARK';
+    // 确保字体大小足够大，特别是对于小的PDF
+    const baseFontSize = Math.max(24, (settings.text?.font?.size || 24));
+    const fontSize = Math.max(18, baseFontSize * settings.position.scale);
+    // 确保透明度不会让水印完全消失
+    const opacity = Math.max(0.3, Math.min(1.0, settings.position.opacity));
+
+    // 解析颜色，使用用户设置的颜色或默认黑色
+    const textColor = settings.text?.color;
+    const colorString = typeof textColor === 'string' ? textColor : textColor?.primary || '#000000';
+    const color = this.parseColor(colorString);
+
+    if (logo) {
+      this.addImageWatermarkToPage(page, logo, settings, opacity);
+
+      // 纯图片水印不再绘制文字
+      if (settings.type === 'image') {
+        return;
+      }
+    }
+
+    // 计算水印位置列表
+    const watermarkPositions = this.calculateWatermarkPositions(width, height, settings, fontSize);
+
+    // 现在支持中文水印，不需要预处理；按页解析{page}/{pages}
+    const finalWatermarkText = WatermarkVariables.resolvePage(watermarkText, pageNumber, pageCount);
+
+    // 确保水印文本不为空
+    if (!finalWatermarkText || finalWatermarkText.trim() === '') {
+      console.error('水印文本为空!', { watermarkText });
+      return; // 跳过这页
+    }
+
+    console.log(`页面${pageNumber}水印详情:`, {
+      text: finalWatermarkText,
+      positionCount: watermarkPositions.length,
+      fontSize,
+      opacity,
+      color: color,
+      fontSupport: ChineseFontLoader.containsChineseCharacters(finalWatermarkText) ? '中文字体' : '标准字体'
+    });
+
+    // 根据用户设置在所有计算的位置添加水印
+    for (let posIndex = 0; posIndex < watermarkPositions.length; posIndex++) {
+      const { x, y } = watermarkPositions[posIndex];
+
+      try {
+        console.log(`在页面${pageNumber}添加水印到位置 (${x}, ${y})`);
+
+        page.drawText(finalWatermarkText, {
+          x,
+          y,
+          size: fontSize,
+          font,
+          color: rgb(color.r, color.g, color.b),
+          opacity
+        });
+
+        console.log(`页面${pageNumber}位置${posIndex + 1}水印添加成功`);
+
+      } catch (drawError) {
+        console.error(`绘制水印失败 (位置${posIndex + 1})，使用备用方案:`, drawError);
+
+        // 备用方案：使用最安全的参数
+        try {
+          page.drawText(finalWatermarkText, {
+            x: Math.max(50, Math.min(x, width - 150)),
+            y: Math.max(50, Math.min(y, height - 50)),
+            size: Math.max(16, fontSize),
+            font,
+            color: rgb(1, 0, 0), // 红色确保可见
+            opacity: 1.0
+          });
+          console.log(`页面${pageNumber}位置${posIndex + 1}使用备用方案添加水印成功`);
+        } catch (backupError) {
+          console.error(`备用方案也失败 (位置${posIndex + 1}):`, backupError);
+        }
+      }
+    }
+  }
+
+  /**
+   * 在PDF页面上绘制Logo水印（引用已嵌入的图片）
+   */
+  private addImageWatermarkToPage(
+    page: ReturnType<PDFDocument['getPages']>[number],
+    logo: EmbeddedWatermarkImage,
+    settings: SimpleWatermarkSettings,
+    opacity: number
+  ): void {
+    const { width, height } = page.getSize();
+    const size = PDFImageWatermark.calculateSize(logo, width, {
+      width: settings.image?.width,
+      height: settings.image?.height,
+      preserveAspectRatio: settings.image?.preserveAspectRatio,
+      scale: settings.position.scale
+    });
+
+    const positions = this.calculateImagePositions(width, height, settings, size);
+    for (const { x, y } of positions) {
+      PDFImageWatermark.drawCentered(page, logo, x, y, {
+        ...size,
+        opacity,
+        rotation: settings.position.rotation || 0
+      });
+    }
+  }
+
+  /**
+   * 计算Logo中心点位置（PDF坐标系，原点在左下角）
+   */
+  private calculateImagePositions(
+    pageWidth: number,
+    pageHeight: number,
+    settings: SimpleWatermarkSettings,
+    size: { width: number; height: number }
+  ): Array<{ x: number; y: number }> {
+    const margin = 50;
+    const halfWidth = size.width / 2;
+    const halfHeight = size.height / 2;
+
+    switch (settings.position.placement) {
+      case 'pattern':
+        // 均匀分布时复用文字水印的网格位置
+        return this.calculateWatermarkPositions(pageWidth, pageHeight, settings, 0);
+
+      case 'corner':
+        switch (settings.position.corner) {
+          case 'top-left':
+            return [{ x: margin + halfWidth, y: pageHeight - margin - halfHeight }];
+          case 'top-right':
+            return [{ x: pageWidth - margin - halfWidth, y: pageHeight - margin - halfHeight }];
+          case 'bottom-left':
+            return [{ x: margin + halfWidth, y: margin + halfHeight }];
+          case 'bottom-right':
+          default:
+            return [{ x: pageWidth - margin - halfWidth, y: margin + halfHeight }];
+        }
+
+      case 'edge':
+        const edgeMargin = 30;
+        switch (settings.position.edge) {
+          case 'top':
+            return [{ x: pageWidth / 2, y: pageHeight - edgeMargin - halfHeight }];
+          case 'right':
+            return [{ x: pageWidth - edgeMargin - halfWidth, y: pageHeight / 2 }];
+          case 'left':
+            return [{ x: edgeMargin + halfWidth, y: pageHeight / 2 }];
+          case 'bottom':
+          default:
+            return [{ x: pageWidth / 2, y: edgeMargin + halfHeight }];
+        }
+
+      case 'center':
+      default:
+        return [{ x: pageWidth / 2, y: pageHeight / 2 }];
+    }
+  }
+
+  /**
+   * 处理Word文档 - 使用JSZip在每个节的页眉中添加Word原生水印（艺术字或冲蚀图片）
    */
   private async processWordNative(
     file: File,
@@ -240,44 +381,36 @@ export class NativeDocumentProcessor {
     startTime: number
   ): Promise<NativeDocumentResult> {
     try {
-      // 读取Word文件内容
       const arrayBuffer = await file.arrayBuffer();
       const watermarkText = settings.text?.content || 'WATERMARK';
-      // const fontSize = Math.max(12, (settings.text?.font?.size || 24) * settings.position.scale);
-      
-      // 使用JSZip读取Word文档（DOCX是ZIP格式）
-      const zip = await JSZip.loadAsync(arrayBuffer);
-      
-      // 检查是否存在关键的Word文档文件
-      const documentXml = zip.file('word/document.xml');
-      if (!documentXml) {
-        throw new Error('不是有效的Word文档格式：缺少 word/document.xml');
-      }
+      const textColor = settings.text?.color;
 
-      // 读取原始文档内容
-      const originalXmlContent = await documentXml.async('string');
-      console.log('读取原始文档XML内容成功');
-
-      // 解析并修改XML内容添加水印
-      let modifiedXmlContent = this.addWatermarkToWordXML(
-        originalXmlContent, 
-        watermarkText, 
-        settings
-      );
-
-      // 更新文档XML内容
-      zip.file('word/document.xml', modifiedXmlContent);
-
-      // 生成修改后的Word文档
-      const modifiedArrayBuffer = await zip.generateAsync({
-        type: 'arraybuffer',
-        compression: 'DEFLATE',
-        compressionOptions: {
-          level: 6
-        }
+      // 艺术字按字数估算形状尺寸，文字会自动填满形状，宽度不超过页面可用宽度
+      const units = Array.from(watermarkText).reduce((sum, char) => sum + (/[⺀-￯]/.test(char) ? 1 : 0.6), 0);
+      const fontSize = Math.max(36, settings.text?.font?.size || 72) * settings.position.scale;
+      const ratio = Math.min(1, 450 / (Math.max(1, units) * fontSize));
+
+      const logo = await this.loadOfficeLogoImage(settings);
+      const { horizontal, vertical } = this.getWordWatermarkAlignment(settings);
+
+      const result = await DocxWatermark.apply(arrayBuffer, {
+        text: settings.type !== 'image' ? {
+          content: watermarkText,
+          fontFamily: settings.text?.font?.family,
+          color: typeof textColor === 'string' ? textColor : textColor?.primary || '#C0C0C0',
+          width: Math.max(1, units) * fontSize * ratio,
+          height: fontSize * ratio
+        } : undefined,
+        image: logo || undefined
+      }, {
+        opacity: settings.position.opacity,
+        rotation: settings.position.rotation ?? (settings.position.placement === 'corner' ? 0 : -45),
+        horizontal,
+        vertical,
+        washout: true
       });
 
-      const blob = new Blob([modifiedArrayBuffer], { 
+      const blob = new Blob([result.bytes as BlobPart], { 
         type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' 
       });
       const dataUrl = await this.blobToDataUrl(blob);
@@ -294,7 +427,12 @@ export class NativeDocumentProcessor {
           pageCount: 1, // Word文档页数需要进一步解析确定
           size: blob.size
         },
-        processingTime
+        processingTime,
+        metadata: {
+          method: 'docx-header-watermark',
+          fontUsed: settings.text?.font?.family || 'Calibri',
+          chineseSupport: true
+        }
       };
     } catch (error) {
       console.error('Word文档处理失败:', error);
@@ -310,244 +448,214 @@ export class NativeDocumentProcessor {
   }
 
   /**
-   * 在Word文档XML中添加水印
+   * Word水印相对页边距的对齐方式
    */
-  private addWatermarkToWordXML(
-    xmlContent: string, 
-    watermarkText: string, 
-    settings: SimpleWatermarkSettings
-  ): string {
-    try {
-      // 解析XML内容，查找文档根元素
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(xmlContent, 'application/xml');
-      
-      // 检查解析是否成功
-      const parseError = xmlDoc.querySelector('parsererror');
-      if (parseError) {
-        console.warn('XML解析失败，使用字符串替换方式:', parseError.textContent);
-        return this.addWatermarkToWordXMLByString(xmlContent, watermarkText, settings);
-      }
-
-      // 查找文档主体元素
-      const bodyElement = xmlDoc.querySelector('w\\:body, body');
-      if (!bodyElement) {
-        console.warn('未找到文档主体元素，使用字符串替换方式');
-        return this.addWatermarkToWordXMLByString(xmlContent, watermarkText, settings);
-      }
+  private getWordWatermarkAlignment(settings: SimpleWatermarkSettings): {
+    horizontal: 'left' | 'center' | 'right';
+    vertical: 'top' | 'center' | 'bottom';
+  } {
+    const { placement, corner, edge } = settings.position;
 
-      // 创建水印段落元素
-      const watermarkParagraph = this.createWatermarkParagraphXML(watermarkText, settings, xmlDoc as any);
-      
-      // 在文档开始处插入水印段落
-      const firstChild = bodyElement.firstElementChild;
-      if (firstChild) {
-        bodyElement.insertBefore(watermarkParagraph, firstChild);
-      } else {
-        bodyElement.appendChild(watermarkParagraph);
-      }
+    if (placement === 'corner') {
+      return {
+        horizontal: corner?.endsWith('left') ? 'left' : 'right',
+        vertical: corner?.startsWith('top') ? 'top' : 'bottom'
+      };
+    }
 
-      // 将修改后的XML转换回字符串
-      const serializer = new XMLSerializer();
-      return serializer.serializeToString(xmlDoc);
-      
-    } catch (error) {
-      console.warn('DOM方式处理XML失败，使用字符串替换:', error);
-      return this.addWatermarkToWordXMLByString(xmlContent, watermarkText, settings);
+    if (placement === 'edge') {
+      return {
+        horizontal: edge === 'left' ? 'left' : edge === 'right' ? 'right' : 'center',
+        vertical: edge === 'top' ? 'top' : edge === 'bottom' ? 'bottom' : 'center'
+      };
     }
+
+    return { horizontal: 'center', vertical: 'center' };
   }
 
   /**
-   * 使用字符串替换方式在Word XML中添加水印（备用方案）
+   * 处理Excel文档 - 使用JSZip为每个工作表添加页眉图片(&G)或背景图片水印
    */
-  private addWatermarkToWordXMLByString(
-    xmlContent: string, 
-    watermarkText: string, 
-    settings: SimpleWatermarkSettings
-  ): string {
-    // 创建多个水印段落的XML字符串
-    // const opacity = Math.round(settings.position.opacity * 100);
-    const color = this.getColorHex(settings.text?.color) || '000000';
-    const fontSize = Math.max(12, (settings.text?.font?.size || 24) * settings.position.scale * 2); // Word使用半点单位
+  private async processExcelNative(
+    file: File,
+    settings: SimpleWatermarkSettings,
+    startTime: number
+  ): Promise<NativeDocumentResult> {
+    try {
+      const arrayBuffer = await file.arrayBuffer();
+      const image = await this.createSpreadsheetWatermarkImage(settings);
+      const mode = settings.output.spreadsheetMode || 'header';
 
-    let watermarksXML = '';
-    
-    // 根据位置设置生成多个水印
-    const watermarkCount = this.getWordWatermarkCount(settings);
-    
-    for (let i = 0; i < watermarkCount; i++) {
-      const justification = this.getWordWatermarkJustification(settings, i);
-      
-      watermarksXML += `
-      <w:p xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
-        <w:pPr>
-          <w:jc w:val="${justification}"/>
-          <w:spacing w:after="120"/>
-        </w:pPr>
-        <w:r>
-          <w:rPr>
-            <w:sz w:val="${fontSize}"/>
-            <w:szCs w:val="${fontSize}"/>
-            <w:color w:val="${color}"/>
-            <w:highlight w:val="none"/>
-          </w:rPr>
-          <w:t>${this.escapeXmlText(watermarkText)}</w:t>
-        </w:r>
-      </w:p>`;
-      
-      // 对于均匀分布，添加一些空行来分隔水印
-      if (settings.position.placement === 'pattern' && i < watermarkCount - 1) {
-        watermarksXML += `
-        <w:p xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
-          <w:pPr>
-            <w:spacing w:after="360"/>
-          </w:pPr>
-        </w:p>`;
+      const result = await XlsxWatermark.apply(arrayBuffer, image, {
+        mode,
+        slot: XlsxWatermark.slotForPosition(settings.position),
+        washout: settings.type !== 'text'
+      });
+
+      if (result.watermarkedSheets.length === 0) {
+        throw new Error('所有工作表均已有页眉图片，未添加水印');
       }
-    }
 
-    // 查找文档体的开始标签并在其后插入水印
-    const bodyStartMatch = xmlContent.match(/<w:body[^>]*>/);
-    if (bodyStartMatch) {
-      const insertPosition = bodyStartMatch.index! + bodyStartMatch[0].length;
-      return xmlContent.slice(0, insertPosition) + 
-             watermarksXML + 
-             xmlContent.slice(insertPosition);
-    }
+      const blob = new Blob([result.bytes as BlobPart], {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      });
+      const dataUrl = await this.blobToDataUrl(blob);
 
-    // 如果没找到标准的w:body，尝试查找其他可能的位置
-    const documentMatch = xmlContent.match(/<w:document[^>]*>/);
-    if (documentMatch) {
-      const insertPosition = documentMatch.index! + documentMatch[0].length;
-      return xmlContent.slice(0, insertPosition) + 
-             `<w:body xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">${watermarksXML}</w:body>` +
-             xmlContent.slice(insertPosition);
-    }
+      return {
+        success: true,
+        originalFile: file,
+        processedDocument: {
+          blob,
+          dataUrl,
+          format: 'xlsx',
+          pageCount: result.watermarkedSheets.length,
+          size: blob.size
+        },
+        processingTime: performance.now() - startTime,
+        metadata: {
+          method: mode === 'header' ? 'xlsx-header-picture' : 'xlsx-background',
+          fontUsed: settings.text?.font?.family || 'default',
+          chineseSupport: true,
+          warning: result.skippedSheets.length > 0
+            ? `以下工作表已有页眉图片，未添加水印: ${result.skippedSheets.join(', ')}`
+            : undefined
+        }
+      };
+    } catch (error) {
+      console.error('Excel文档处理失败:', error);
 
-    console.warn('无法找到合适的插入位置，水印添加失败');
-    return xmlContent;
+      return {
+        success: false,
+        originalFile: file,
+        error: 'Excel文档处理失败: ' + (error instanceof Error ? error.message : '未知错误'),
+        processingTime: performance.now() - startTime
+      };
+    }
   }
 
   /**
-   * 获取Word文档中水印的数量
+   * 生成表格水印图片：Logo水印直接使用原图，文字水印渲染为透明PNG
    */
-  private getWordWatermarkCount(settings: SimpleWatermarkSettings): number {
-    switch (settings.position.placement) {
-      case 'pattern':
-        return 6; // 在Word中添加6个水印来模拟均匀分布
-      case 'corner':
-      case 'center':
-      case 'edge':
-      default:
-        return 1; // 单个水印
+  private async createSpreadsheetWatermarkImage(settings: SimpleWatermarkSettings): Promise<OoxmlImage> {
+    // 单张图片的最大显示宽度（pt），约为A4纵向页面的可打印宽度
+    const maxWidth = 480;
+    const fit = (width: number, height: number) => {
+      const ratio = Math.min(1, maxWidth / width);
+      return { width: width * ratio, height: height * ratio };
+    };
+
+    const logo = await this.loadOfficeLogoImage(settings);
+    if (logo) {
+      return { ...logo, ...fit(logo.width, logo.height) };
     }
+
+    const textColor = settings.text?.color;
+    const dpi = 150;
+    const generated = await WatermarkImageGenerator.generateWatermarkImage({
+      text: settings.text?.content || 'WATERMARK',
+      fontSize: Math.max(24, settings.text?.font?.size || 48) * settings.position.scale,
+      color: typeof textColor === 'string' ? textColor : textColor?.primary || '#000000',
+      opacity: settings.position.opacity,
+      rotation: settings.position.rotation ?? -45,
+      fontFamily: settings.text?.font?.family,
+      fontWeight: settings.text?.font?.weight
+    }, { format: 'png', dpi });
+
+    const bytes = new Uint8Array(await this.blobToArrayBuffer(generated.blob));
+    return {
+      bytes,
+      format: 'png',
+      ...fit((generated.dimensions.width * 72) / dpi, (generated.dimensions.height * 72) / dpi)
+    };
   }
 
   /**
-   * 获取Word文档中水印的对齐方式
+   * 读取Office文档使用的Logo图片，尺寸按96DPI换算为pt并应用缩放；非Logo水印返回null
    */
-  private getWordWatermarkJustification(settings: SimpleWatermarkSettings, index: number): string {
-    switch (settings.position.placement) {
-      case 'center':
-        return 'center';
-      case 'corner':
-        switch (settings.position.corner) {
-          case 'top-left':
-          case 'bottom-left':
-            return 'left';
-          case 'top-right':
-          case 'bottom-right':
-            return 'right';
-          default:
-            return 'right';
-        }
-      case 'edge':
-        switch (settings.position.edge) {
-          case 'left':
-            return 'left';
-          case 'right':
-            return 'right';
-          case 'top':
-          case 'bottom':
-            return 'center';
-          default:
-            return 'center';
-        }
-      case 'pattern':
-        // 交替使用不同对齐方式来实现分布效果
-        const alignments = ['left', 'center', 'right', 'left', 'center', 'right'];
-        return alignments[index % alignments.length];
-      default:
-        return 'center';
+  private async loadOfficeLogoImage(settings: SimpleWatermarkSettings): Promise<OoxmlImage | null> {
+    if (settings.type === 'text' || !(settings.image?.source instanceof Blob)) {
+      return null;
     }
+
+    const bytes = new Uint8Array(await this.blobToArrayBuffer(settings.image.source));
+    const format = PDFImageWatermark.detectFormat(bytes, settings.image.source.type);
+    const size = OoxmlPackage.readImageSize(bytes);
+    if ((format !== 'png' && format !== 'jpeg') || !size) {
+      throw new Error('Office文档水印仅支持PNG或JPEG格式的Logo图片');
+    }
+
+    const baseWidth = settings.image.width || size.width;
+    const baseHeight = settings.image.height || (baseWidth * size.height) / size.width;
+    return {
+      bytes,
+      format,
+      width: baseWidth * 0.75 * settings.position.scale,
+      height: baseHeight * 0.75 * settings.position.scale
+    };
   }
 
   /**
-   * 创建水印段落的DOM元素
+   * 处理PowerPoint文档 - 向每张幻灯片或母版/版式追加锁定的半透明水印形状
    */
-  private createWatermarkParagraphXML(
-    watermarkText: string, 
+  private async processPowerPointNative(
+    file: File,
     settings: SimpleWatermarkSettings,
-    xmlDoc: XMLDocument
-  ): Element {
-    const nsUri = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
-    
-    // 创建段落元素
-    const paragraph = xmlDoc.createElementNS(nsUri, 'w:p');
-    
-    // 创建段落属性
-    const paragraphProps = xmlDoc.createElementNS(nsUri, 'w:pPr');
-    const justification = xmlDoc.createElementNS(nsUri, 'w:jc');
-    justification.setAttribute('w:val', 'center');
-    paragraphProps.appendChild(justification);
-    
-    const spacing = xmlDoc.createElementNS(nsUri, 'w:spacing');
-    spacing.setAttribute('w:after', '240');
-    paragraphProps.appendChild(spacing);
-    
-    paragraph.appendChild(paragraphProps);
-    
-    // 创建文本运行元素
-    const run = xmlDoc.createElementNS(nsUri, 'w:r');
-    
-    // 创建文本运行属性
-    const runProps = xmlDoc.createElementNS(nsUri, 'w:rPr');
-    
-    const fontSize = Math.max(12, (settings.text?.font?.size || 24) * settings.position.scale * 2);
-    const sz = xmlDoc.createElementNS(nsUri, 'w:sz');
-    sz.setAttribute('w:val', fontSize.toString());
-    runProps.appendChild(sz);
-    
-    const szCs = xmlDoc.createElementNS(nsUri, 'w:szCs');
-    szCs.setAttribute('w:val', fontSize.toString());
-    runProps.appendChild(szCs);
-    
-    const color = xmlDoc.createElementNS(nsUri, 'w:color');
-    color.setAttribute('w:val', this.getColorHex(settings.text?.color) || '000000');
-    runProps.appendChild(color);
-    
-    run.appendChild(runProps);
-    
-    // 创建文本元素
-    const text = xmlDoc.createElementNS(nsUri, 'w:t');
-    text.textContent = watermarkText;
-    run.appendChild(text);
-    
-    paragraph.appendChild(run);
-    
-    return paragraph;
-  }
+    startTime: number
+  ): Promise<NativeDocumentResult> {
+    try {
+      const arrayBuffer = await file.arrayBuffer();
+      const textColor = settings.text?.color;
+      const target = settings.output.presentationTarget || 'slides';
 
-  /**
-   * 转义XML文本内容
-   */
-  private escapeXmlText(text: string): string {
-    return text
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&apos;');
+      const result = await PptxWatermark.apply(arrayBuffer, {
+        text: settings.type !== 'image' ? {
+          content: settings.text?.content || 'WATERMARK',
+          fontSize: Math.max(12, settings.text?.font?.size || 48) * settings.position.scale,
+          color: typeof textColor === 'string' ? textColor : textColor?.primary || '#000000',
+          fontFamily: settings.text?.font?.family,
+          bold: settings.text?.font?.weight === 'bold'
+        } : undefined,
+        image: await this.loadOfficeLogoImage(settings) || undefined
+      }, {
+        target,
+        layout: {
+          ...settings.position,
+          rotation: settings.position.rotation ?? (settings.position.placement === 'corner' ? 0 : -45)
+        }
+      });
+
+      const blob = new Blob([result.bytes as BlobPart], {
+        type: 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+      });
+      const dataUrl = await this.blobToDataUrl(blob);
+
+      return {
+        success: true,
+        originalFile: file,
+        processedDocument: {
+          blob,
+          dataUrl,
+          format: 'pptx',
+          pageCount: result.watermarkedParts.length,
+          size: blob.size
+        },
+        processingTime: performance.now() - startTime,
+        metadata: {
+          method: target === 'master' ? 'pptx-master' : 'pptx-slides',
+          fontUsed: settings.text?.font?.family || 'default',
+          chineseSupport: true
+        }
+      };
+    } catch (error) {
+      console.error('PowerPoint文档处理失败:', error);
+
+      return {
+        success: false,
+        originalFile: file,
+        error: 'PowerPoint文档处理失败: ' + (error instanceof Error ? error.message : '未知错误'),
+        processingTime: performance.now() - startTime
+      };
+    }
   }
 
   /**
@@ -703,9 +811,14 @@ export class NativeDocumentProcessor {
       
       // Word转PDF现在支持中文字符
       
-      // 首先尝试读取Word文档内容并提取文本
-      const wordContent = await this.extractWordContent(file);
-      console.log('Word内容提取完成:', wordContent.substring(0, 100) + '...');
+      // 首先尝试读取Word文档内容并提取文本（DOCX、RTF、Word 97-2003）
+      const wordDocument = await this.extractWordContent(file);
+      const wordContent = LegacyWordExtractor.toPlainText(wordDocument);
+      console.log('Word内容提取完成:', {
+        format: wordDocument.format,
+        paragraphs: wordDocument.paragraphs.length,
+        preview: wordContent.substring(0, 100) + '...'
+      });
       
       // 创建新的PDF文档
       const pdfLib = await import('pdf-lib');
@@ -738,8 +851,9 @@ export class NativeDocumentProcessor {
         return this.processWordToPDFWithFallback(pdfDoc, wordContent, settings, fallbackFont, file, startTime);
       }
       
-      // 添加原始文档内容 - 改进版，支持多页
-      const contentLines = wordContent.split('\n').filter(line => line.trim());
+      // 添加原始文档内容 - 改进版，支持多页，保留段落字号、对齐和分页
+      const contentParagraphs = wordDocument.paragraphs.filter(paragraph => this.getParagraphText(paragraph).trim());
+      const contentLines = contentParagraphs.map(paragraph => this.getParagraphText(paragraph));
       let yPosition = height - 50;
       const lineHeight = 20;
       const maxWidth = width - 100;
@@ -765,9 +879,21 @@ export class NativeDocumentProcessor {
       let currentPage = page;
       let processedLines = 0;
       
-      for (const line of contentLines) {
-        // 处理长文本换行
-        const wrappedLines = this.wrapText(line, font, 12, maxWidth);
+      for (const paragraph of contentParagraphs) {
+        const fontSize = this.getParagraphFontSize(paragraph);
+        const paragraphLineHeight = lineHeight * fontSize / 12;
+        // 整段加粗（如标题）时通过重复绘制模拟粗体
+        const bold = paragraph.runs.every(run => run.bold || !run.text.trim());
+
+        if (paragraph.pageBreakBefore && yPosition < height - 50) {
+          currentPage = pdfDoc.addPage([595.28, 841.89]);
+          yPosition = height - 50;
+        }
+
+        // 处理长文本换行，段内换行符单独成行
+        const wrappedLines = this.getParagraphText(paragraph)
+          .split('\n')
+          .flatMap(line => this.wrapText(line.replace(/\t/g, '    '), font, fontSize, maxWidth));
         
         for (const wrappedLine of wrappedLines) {
           // 如果当前页面空间不足，创建新页面
@@ -778,18 +904,22 @@ export class NativeDocumentProcessor {
           }
           
           try {
+            const x = this.getAlignedX(wrappedLine, paragraph.alignment, font, fontSize, 50, maxWidth);
             currentPage.drawText(wrappedLine, {
-              x: 50,
+              x,
               y: yPosition,
-              size: 12,
+              size: fontSize,
               font,
               color: rgb(0, 0, 0)
             });
-            yPosition -= lineHeight;
+            if (bold) {
+              currentPage.drawText(wrappedLine, { x: x + 0.4, y: yPosition, size: fontSize, font, color: rgb(0, 0, 0) });
+            }
+            yPosition -= paragraphLineHeight;
             processedLines++;
           } catch (drawError) {
             console.warn('绘制文本失败:', drawError, '行内容:', wrappedLine.substring(0, 50));
-            yPosition -= lineHeight; // 跳过有问题的行但继续处理
+            yPosition -= paragraphLineHeight; // 跳过有问题的行但继续处理
           }
         }
       }
@@ -844,6 +974,7 @@ export class NativeDocumentProcessor {
       
       for (let pageIndex = 0; pageIndex < allPages.length; pageIndex++) {
         const currentPageForWatermark = allPages[pageIndex];
+        const pageWatermarkText = WatermarkVariables.resolvePage(finalWatermarkText, pageIndex + 1, allPages.length);
         const { width: pageWidth, height: pageHeight } = currentPageForWatermark.getSize();
         
         // 计算每个页面的水印位置
@@ -860,7 +991,7 @@ export class NativeDocumentProcessor {
           
           // 创建水印配置
           const watermarkOptions = {
-            text: finalWatermarkText,
+            text: pageWatermarkText,
             fontSize: watermarkFontSize,
             color: colorStr,
             opacity: watermarkOpacity,
@@ -914,7 +1045,7 @@ export class NativeDocumentProcessor {
             const { x, y } = watermarkPositions[posIndex];
             
             try {
-              currentPageForWatermark.drawText(finalWatermarkText, {
+              currentPageForWatermark.drawText(pageWatermarkText, {
                 x,
                 y,
                 size: watermarkFontSize,
@@ -955,7 +1086,12 @@ export class NativeDocumentProcessor {
           pageCount: pdfDoc.getPageCount(),
           size: blob.size
         },
-        processingTime
+        processingTime,
+        metadata: {
+          method: `${wordDocument.format}-to-pdf`,
+          fontUsed: 'Chinese font',
+          chineseSupport: true
+        }
       };
       
     } catch (error) {
@@ -972,17 +1108,24 @@ export class NativeDocumentProcessor {
   }
 
   /**
-   * 提取Word文档文本内容
+   * 提取Word文档文本内容，RTF和Word 97-2003文档同时提取段落格式
    */
-  private async extractWordContent(file: File): Promise<string> {
+  private async extractWordContent(file: File): Promise<ExtractedDocument> {
+    const arrayBuffer = await file.arrayBuffer();
+    if (LegacyWordExtractor.detectFormat(new Uint8Array(arrayBuffer))) {
+      // 旧版文档解析失败时直接报错，避免输出只有占位文字的PDF
+      return LegacyWordExtractor.extract(arrayBuffer);
+    }
+
+    const toDocument = (text: string): ExtractedDocument => ({ format: 'docx', paragraphs: [{ runs: [{ text }] }] });
+
     try {
-      const arrayBuffer = await file.arrayBuffer();
       const JSZip = (window as any).JSZip || await import('jszip');
       const zip = await JSZip.loadAsync(arrayBuffer);
       
       const documentXml = zip.file('word/document.xml');
       if (!documentXml) {
-        return '无法读取Word文档内容';
+        return toDocument('无法读取Word文档内容');
       }
       
       const xmlContent = await documentXml.async('string');
@@ -990,7 +1133,7 @@ export class NativeDocumentProcessor {
       // 简单的XML文本提取
       const textMatches = xmlContent.match(/<w:t[^>]*>([^<]*)<\/w:t>/g);
       if (!textMatches) {
-        return '文档内容提取失败';
+        return toDocument('文档内容提取失败');
       }
       
       const extractedText = textMatches
@@ -998,19 +1141,66 @@ export class NativeDocumentProcessor {
         .filter((text: string) => text.trim())
         .join(' ');
       
-      return extractedText || '(Word文档已转换为PDF格式)';
+      return toDocument(extractedText || '(Word文档已转换为PDF格式)');
       
     } catch (error) {
       console.error('提取Word内容失败:', error);
-      return '(原Word文档内容 - 转换为PDF格式)';
+      return toDocument('(原Word文档内容 - 转换为PDF格式)');
     }
   }
 
+  /**
+   * 根据文件签名判断是否为RTF或Word 97-2003文档
+   */
+  private async isLegacyWordFile(file: File): Promise<boolean> {
+    const header = new Uint8Array(await file.slice(0, 512).arrayBuffer());
+    return LegacyWordExtractor.detectFormat(header) !== null;
+  }
+
+  private getParagraphText(paragraph: ExtractedParagraph): string {
+    return paragraph.runs.map(run => run.text).join('');
+  }
+
+  /**
+   * 段落字号取最大的文字字号，未指定时为12pt
+   */
+  private getParagraphFontSize(paragraph: ExtractedParagraph): number {
+    const sizes = paragraph.runs.filter(run => run.text.trim() && run.fontSize).map(run => run.fontSize!);
+    return sizes.length > 0 ? Math.min(36, Math.max(6, ...sizes)) : 12;
+  }
+
+  /**
+   * 按段落对齐方式计算行的起始x坐标
+   */
+  private getAlignedX(
+    line: string,
+    alignment: ExtractedParagraph['alignment'],
+    font: any,
+    fontSize: number,
+    left: number,
+    maxWidth: number
+  ): number {
+    if (alignment !== 'center' && alignment !== 'right') {
+      return left;
+    }
+
+    let lineWidth: number;
+    try {
+      lineWidth = font.widthOfTextAtSize(line, fontSize);
+    } catch {
+      lineWidth = this.estimateTextWidth(line, fontSize);
+    }
+
+    const offset = Math.max(0, maxWidth - lineWidth);
+    return left + (alignment === 'center' ? offset / 2 : offset);
+  }
+
   /**
    * 文本换行处理
    */
   private wrapText(text: string, font: any, fontSize: number, maxWidth: number): string[] {
-    const words = text.split(' ');
+    // 超出行宽的单词（如不含空格的中文段落）按字符拆分
+    const words = text.split(' ').flatMap(word => this.splitLongWord(word, font, fontSize, maxWidth));
     const lines: string[] = [];
     let currentLine = '';
     
@@ -1045,6 +1235,38 @@ export class NativeDocumentProcessor {
     return lines;
   }
 
+  /**
+   * 将超出行宽的单词按字符拆成多段
+   */
+  private splitLongWord(word: string, font: any, fontSize: number, maxWidth: number): string[] {
+    const measure = (text: string): number => {
+      try {
+        return font.widthOfTextAtSize(text, fontSize);
+      } catch {
+        return this.estimateTextWidth(text, fontSize);
+      }
+    };
+
+    if (measure(word) <= maxWidth) {
+      return [word];
+    }
+
+    const parts: string[] = [];
+    let current = '';
+    for (const char of Array.from(word)) {
+      if (current && measure(current + char) > maxWidth) {
+        parts.push(current);
+        current = char;
+      } else {
+        current += char;
+      }
+    }
+    if (current) {
+      parts.push(current);
+    }
+    return parts;
+  }
+
   /**
    * 估算文本宽度（用于字体编码失败时的回退方案）
    */
@@ -1192,7 +1414,7 @@ export class NativeDocumentProcessor {
       for (let pageIndex = 0; pageIndex < allPages.length; pageIndex++) {
         try {
           const currentPageForWatermark = allPages[pageIndex];
-          this.addTextWatermark(currentPageForWatermark, watermarkText, settings, fallbackFont);
+          this.addTextWatermark(currentPageForWatermark, watermarkText, settings, fallbackFont, pageIndex + 1, allPages.length);
           console.log(`✅ Fallback模式页面 ${pageIndex + 1} 水印添加成功`);
         } catch (watermarkError) {
           console.warn(`❌ Fallback模式页面 ${pageIndex + 1} 水印添加失败:`, watermarkError);
@@ -1247,9 +1469,17 @@ export class NativeDocumentProcessor {
   }
 
   /**
-   * 添加文本水印到PDF页面
+   * 添加文本水印到PDF页面，水印文字中的{page}/{pages}按页解析
    */
-  private addTextWatermark(page: any, watermarkText: string, settings: SimpleWatermarkSettings, font: any): void {
+  private addTextWatermark(
+    page: any,
+    text: string,
+    settings: SimpleWatermarkSettings,
+    font: any,
+    pageNumber = 1,
+    pageCount = 1
+  ): void {
+    const watermarkText = WatermarkVariables.resolvePage(text, pageNumber, pageCount);
     try {
       const { width, height } = page.getSize();
       
@@ -1322,7 +1552,7 @@ export class NativeDocumentProcessor {
   /**
    * 获取文件类型
    */
-  private getFileType(file: File): 'pdf' | 'word' | 'unknown' {
+  private getFileType(file: File): 'pdf' | 'word' | 'excel' | 'powerpoint' | 'unknown' {
     if (file.type === 'application/pdf') {
       return 'pdf';
     }
@@ -1330,30 +1560,30 @@ export class NativeDocumentProcessor {
     if (
       file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
       file.type === 'application/msword' ||
+      file.type === 'application/rtf' ||
+      file.type === 'text/rtf' ||
       file.name.toLowerCase().endsWith('.docx') ||
-      file.name.toLowerCase().endsWith('.doc')
+      file.name.toLowerCase().endsWith('.doc') ||
+      file.name.toLowerCase().endsWith('.rtf')
     ) {
       return 'word';
     }
-    
-    return 'unknown';
-  }
 
-  /**
-   * 获取颜色的十六进制值（不带#）
-   */
-  private getColorHex(color: string | SimpleColorConfig | undefined): string | undefined {
-    if (!color) return undefined;
-    
-    if (typeof color === 'string') {
-      return color.replace('#', '');
+    if (
+      file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
+      file.name.toLowerCase().endsWith('.xlsx')
+    ) {
+      return 'excel';
     }
-    
-    if (typeof color === 'object' && color.primary) {
-      return color.primary.replace('#', '');
+
+    if (
+      file.type === 'application/vnd.openxmlformats-officedocument.presentationml.presentation' ||
+      file.name.toLowerCase().endsWith('.pptx')
+    ) {
+      return 'powerpoint';
     }
     
-    return undefined;
+    return 'unknown';
   }
 
   /**
@@ -0,0 +1,310 @@
+/**
+ * OOXML包操作工具 - Word/Excel/PowerPoint原生水印共用
+ * 部件关系、内容类型、路径换算与XML读写
+ */
+
+import JSZip from 'jszip';
+
+export const OOXML_NS = {
+  relationships: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  packageRelationships: 'http://schemas.openxmlformats.org/package/2006/relationships',
+  contentTypes: 'http://schemas.openxmlformats.org/package/2006/content-types'
+};
+
+export const OOXML_REL_TYPES = {
+  officeDocument: `${OOXML_NS.relationships}/officeDocument`,
+  image: `${OOXML_NS.relationships}/image`,
+  vmlDrawing: `${OOXML_NS.relationships}/vmlDrawing`
+};
+
+// 水印图片，尺寸为显示尺寸
+export interface OoxmlImage {
+  bytes: Uint8Array;
+  format: 'png' | 'jpeg';
+  width: number; // pt
+  height: number; // pt
+}
+
+export interface OoxmlRelationship {
+  id: string;
+  type: string;
+  target: string; // 已解析为包内绝对路径（不含前导/）
+  external: boolean;
+}
+
+const DEFAULT_CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  vml: 'application/vnd.openxmlformats-officedocument.vmlDrawing'
+};
+
+export class OoxmlPackage {
+  /**
+   * 从根关系中查找主文档部件路径
+   */
+  static async findMainPartPath(zip: JSZip, fallback: string): Promise<string> {
+    const main = (await this.getRelationships(zip, ''))
+      .find(rel => rel.type === OOXML_REL_TYPES.officeDocument);
+    const path = main?.target || fallback;
+
+    if (!zip.file(path)) {
+      throw new Error(`不是有效的Office文档：缺少 ${path}`);
+    }
+    return path;
+  }
+
+  /**
+   * 读取部件的全部关系，partPath为空字符串时读取包根关系
+   */
+  static async getRelationships(zip: JSZip, partPath: string): Promise<OoxmlRelationship[]> {
+    const relsFile = zip.file(this.relsPathFor(partPath));
+    if (!relsFile) {
+      return [];
+    }
+
+    const doc = this.parseXml(await relsFile.async('string'));
+    return Array.from(doc.getElementsByTagNameNS(OOXML_NS.packageRelationships, 'Relationship')).map(rel => {
+      const external = rel.getAttribute('TargetMode') === 'External';
+      const target = rel.getAttribute('Target') || '';
+      return {
+        id: rel.getAttribute('Id') || '',
+        type: rel.getAttribute('Type') || '',
+        target: external ? target : this.resolveTarget(partPath, target),
+        external
+      };
+    });
+  }
+
+  /**
+   * 在部件的关系文件中添加关系，返回新的关系ID
+   */
+  static async addRelationship(zip: JSZip, partPath: string, type: string, targetPath: string): Promise<string> {
+    const relsPath = this.relsPathFor(partPath);
+    const relsFile = zip.file(relsPath);
+    const relsXml = relsFile ? await relsFile.async('string') : this.createRelsXml([]);
+    const doc = this.parseXml(relsXml);
+    const root = doc.documentElement;
+
+    const usedIds = new Set(Array.from(root.getElementsByTagNameNS(OOXML_NS.packageRelationships, 'Relationship'))
+      .map(rel => rel.getAttribute('Id')));
+    let counter = 1;
+    let id = 'rIdWatermark';
+    while (usedIds.has(id)) {
+      id = `rIdWatermark${++counter}`;
+    }
+
+    const relationship = doc.createElementNS(OOXML_NS.packageRelationships, 'Relationship');
+    relationship.setAttribute('Id', id);
+    relationship.setAttribute('Type', type);
+    relationship.setAttribute('Target', this.relativeTarget(partPath, targetPath));
+    root.appendChild(relationship);
+
+    zip.file(relsPath, this.serializeXml(doc, relsXml));
+    return id;
+  }
+
+  /**
+   * 删除部件的一条关系，返回被删除的关系
+   */
+  static async removeRelationship(zip: JSZip, partPath: string, id: string): Promise<OoxmlRelationship | undefined> {
+    const relsPath = this.relsPathFor(partPath);
+    const relsFile = zip.file(relsPath);
+    if (!relsFile) {
+      return undefined;
+    }
+
+    const removed = (await this.getRelationships(zip, partPath)).find(rel => rel.id === id);
+    if (!removed) {
+      return undefined;
+    }
+
+    const relsXml = await relsFile.async('string');
+    const doc = this.parseXml(relsXml);
+    Array.from(doc.getElementsByTagNameNS(OOXML_NS.packageRelationships, 'Relationship'))
+      .filter(rel => rel.getAttribute('Id') === id)
+      .forEach(rel => rel.parentNode?.removeChild(rel));
+
+    zip.file(relsPath, this.serializeXml(doc, relsXml));
+    return removed;
+  }
+
+  /**
+   * 部件不再被任何关系引用时从包中删除，返回是否已删除
+   */
+  static async removeIfUnreferenced(zip: JSZip, path: string): Promise<boolean> {
+    const relsPaths = Object.keys(zip.files).filter(name => /(^|\/)_rels\/[^/]*\.rels$/.test(name));
+    for (const relsPath of relsPaths) {
+      const partPath = relsPath.replace(/(^|\/)_rels\/([^/]*)\.rels$/, '$1$2');
+      const relationships = await this.getRelationships(zip, partPath);
+      if (relationships.some(rel => !rel.external && rel.target === path)) {
+        return false;
+      }
+    }
+
+    zip.remove(path);
+    return true;
+  }
+
+  /**
+   * 确保扩展名的默认内容类型已登记
+   */
+  static async ensureDefaultContentTypes(zip: JSZip, extensions: Iterable<string>): Promise<void> {
+    await this.updateContentTypes(zip, (doc, root) => {
+      const existing = new Set(Array.from(root.getElementsByTagNameNS(OOXML_NS.contentTypes, 'Default'))
+        .map(element => (element.getAttribute('Extension') || '').toLowerCase()));
+
+      let changed = false;
+      for (const extension of extensions) {
+        if (existing.has(extension)) continue;
+        const element = doc.createElementNS(OOXML_NS.contentTypes, 'Default');
+        element.setAttribute('Extension', extension);
+        element.setAttribute('ContentType', DEFAULT_CONTENT_TYPES[extension]);
+        // Default必须位于Override之前
+        root.insertBefore(element, root.firstElementChild);
+        existing.add(extension);
+        changed = true;
+      }
+      return changed;
+    });
+  }
+
+  /**
+   * 为新部件登记内容类型覆盖
+   */
+  static async addOverrideContentType(zip: JSZip, partPath: string, contentType: string): Promise<void> {
+    await this.updateContentTypes(zip, (doc, root) => {
+      const partName = `/${partPath}`;
+      const exists = Array.from(root.getElementsByTagNameNS(OOXML_NS.contentTypes, 'Override'))
+        .some(element => element.getAttribute('PartName') === partName);
+      if (exists) return false;
+
+      const element = doc.createElementNS(OOXML_NS.contentTypes, 'Override');
+      element.setAttribute('PartName', partName);
+      element.setAttribute('ContentType', contentType);
+      root.appendChild(element);
+      return true;
+    });
+  }
+
+  static createRelsXml(relationships: Array<{ id: string; type: string; target: string }>): string {
+    const items = relationships
+      .map(rel => `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${rel.target}"/>`)
+      .join('');
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="${OOXML_NS.packageRelationships}">${items}</Relationships>`;
+  }
+
+  static parseXml(xml: string): Document {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('Office文档XML解析失败');
+    }
+    return doc;
+  }
+
+  /**
+   * 序列化XML，保留原文件的XML声明（XMLSerializer不会输出声明）
+   */
+  static serializeXml(doc: Document, originalXml: string): string {
+    const declaration = originalXml.match(/^\s*<\?xml[^>]*\?>/)?.[0].trim()
+      || '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+    const body = new XMLSerializer().serializeToString(doc).replace(/^<\?xml[^>]*\?>\s*/, '');
+    return `${declaration}\n${body}`;
+  }
+
+  static childByName(parent: Element, localName: string): Element | undefined {
+    return Array.from(parent.children).find(child => child.localName === localName);
+  }
+
+  /**
+   * 按Schema规定的子元素顺序插入元素
+   */
+  static insertInOrder(parent: Element, element: Element, order: string[]): void {
+    const rank = order.indexOf(element.localName);
+    const next = Array.from(parent.children).find(child => order.indexOf(child.localName) > rank);
+    parent.insertBefore(element, next || null);
+  }
+
+  static relsPathFor(partPath: string): string {
+    const slash = partPath.lastIndexOf('/');
+    return `${partPath.slice(0, slash + 1)}_rels/${partPath.slice(slash + 1)}.rels`;
+  }
+
+  static resolveTarget(basePath: string, target: string): string {
+    if (target.startsWith('/')) {
+      return target.slice(1);
+    }
+
+    const parts = basePath.split('/').slice(0, -1);
+    for (const segment of target.split('/')) {
+      if (segment === '..') parts.pop();
+      else if (segment !== '.') parts.push(segment);
+    }
+    return parts.join('/');
+  }
+
+  static relativeTarget(fromPart: string, toPart: string): string {
+    const from = fromPart.split('/').slice(0, -1);
+    const to = toPart.split('/');
+    let common = 0;
+    while (common < from.length && common < to.length - 1 && from[common] === to[common]) {
+      common++;
+    }
+    return [...from.slice(common).map(() => '..'), ...to.slice(common)].join('/');
+  }
+
+  /**
+   * 生成包内未被占用的部件路径，如 media/watermark.png → media/watermark2.png
+   */
+  static uniquePath(zip: JSZip, path: string): string {
+    const match = path.match(/^(.*?)(\d*)(\.[^.]+)$/)!;
+    let candidate = path;
+    for (let counter = Number(match[2]) || 1; zip.file(candidate); counter++) {
+      candidate = `${match[1]}${counter + 1}${match[3]}`;
+    }
+    return candidate;
+  }
+
+  /**
+   * 读取PNG/JPEG图片的像素尺寸，无法识别时返回null
+   */
+  static readImageSize(bytes: Uint8Array): { width: number; height: number } | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    // PNG: IHDR紧跟签名
+    if (bytes.length >= 24 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4E && bytes[3] === 0x47) {
+      return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+
+    // JPEG: 查找SOF段
+    if (bytes.length >= 4 && bytes[0] === 0xFF && bytes[1] === 0xD8) {
+      let offset = 2;
+      while (offset + 9 < bytes.length) {
+        if (bytes[offset] !== 0xFF) return null;
+        const marker = bytes[offset + 1];
+        const length = view.getUint16(offset + 2);
+        if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+          return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+        }
+        offset += 2 + length;
+      }
+    }
+
+    return null;
+  }
+
+  private static async updateContentTypes(
+    zip: JSZip,
+    update: (doc: Document, root: Element) => boolean
+  ): Promise<void> {
+    const file = zip.file('[Content_Types].xml');
+    if (!file) {
+      throw new Error('不是有效的Office文档：缺少 [Content_Types].xml');
+    }
+
+    const xml = await file.async('string');
+    const doc = this.parseXml(xml);
+    if (update(doc, doc.documentElement)) {
+      zip.file('[Content_Types].xml', this.serializeXml(doc, xml));
+    }
+  }
+}
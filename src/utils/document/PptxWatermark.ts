@@ -0,0 +1,390 @@
+/**
+ * PowerPoint (PPTX) 原生水印 - 通过JSZip向幻灯片或母版/版式的形状树追加锁定的水印形状
+ * 只在spTree末尾追加新形状，动画、备注和媒体等部件保持不变
+ */
+
+import JSZip from 'jszip';
+import { OoxmlPackage, OOXML_NS, OOXML_REL_TYPES, type OoxmlImage } from './OoxmlPackage';
+
+export type PresentationWatermarkTarget = 'slides' | 'master';
+
+export interface PptxTextWatermark {
+  content: string;
+  fontSize: number; // pt
+  color: string; // CSS颜色：#RGB、#RRGGBB、rgb()或颜色名
+  fontFamily?: string;
+  bold?: boolean;
+}
+
+export interface PptxWatermarkContent {
+  text?: PptxTextWatermark;
+  image?: OoxmlImage;
+}
+
+// 与SimpleWatermarkSettings.position保持一致的布局选项
+export interface PptxWatermarkLayout {
+  placement: 'corner' | 'center' | 'edge' | 'pattern' | 'custom';
+  corner?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+  edge?: 'top' | 'right' | 'bottom' | 'left';
+  pattern?: {
+    spacing: { x: number; y: number };
+    stagger?: boolean;
+    columns?: number;
+    rows?: number;
+  };
+  margin?: { top: number; right: number; bottom: number; left: number };
+  opacity: number;
+  rotation?: number; // 度
+}
+
+export interface PptxWatermarkOptions {
+  target: PresentationWatermarkTarget;
+  layout: PptxWatermarkLayout;
+}
+
+export interface PptxWatermarkResult {
+  bytes: Uint8Array;
+  watermarkedParts: string[];
+  shapeCount: number;
+}
+
+interface ShapeRect {
+  x: number;
+  y: number;
+  cx: number;
+  cy: number;
+}
+
+const PML_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const DML_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const SLIDE_REL_TYPE = `${OOXML_NS.relationships}/slide`;
+const SLIDE_MASTER_REL_TYPE = `${OOXML_NS.relationships}/slideMaster`;
+const SLIDE_LAYOUT_REL_TYPE = `${OOXML_NS.relationships}/slideLayout`;
+
+const EMU_PER_PT = 12700;
+const DEFAULT_SLIDE_SIZE = { cx: 12192000, cy: 6858000 }; // 16:9
+const DEFAULT_MARGIN_PT = 20;
+
+// 锁定形状：不可选中、移动、缩放、旋转或编辑文字
+const SHAPE_LOCKS = 'noGrp="1" noSelect="1" noRot="1" noMove="1" noResize="1" noTextEdit="1" noEditPoints="1" noAdjustHandles="1" noChangeArrowheads="1" noChangeShapeType="1"';
+const PICTURE_LOCKS = 'noGrp="1" noSelect="1" noRot="1" noChangeAspect="1" noMove="1" noResize="1" noEditPoints="1" noAdjustHandles="1" noChangeArrowheads="1" noChangeShapeType="1" noCrop="1"';
+
+export class PptxWatermark {
+  /**
+   * 为演示文稿添加水印
+   */
+  static async apply(
+    source: ArrayBuffer | Uint8Array,
+    content: PptxWatermarkContent,
+    options: PptxWatermarkOptions
+  ): Promise<PptxWatermarkResult> {
+    if (!content.text && !content.image) {
+      throw new Error('未提供水印文字或图片');
+    }
+
+    const zip = await JSZip.loadAsync(source);
+    const presentationPath = await OoxmlPackage.findMainPartPath(zip, 'ppt/presentation.xml');
+    const presentationDoc = OoxmlPackage.parseXml(await zip.file(presentationPath)!.async('string'));
+    const slideSize = this.readSlideSize(presentationDoc);
+
+    const parts = options.target === 'master'
+      ? await this.listMasterParts(zip, presentationPath, presentationDoc)
+      : await this.listSlides(zip, presentationPath, presentationDoc);
+
+    if (parts.length === 0) {
+      throw new Error(options.target === 'master' ? '演示文稿中没有母版' : '演示文稿中没有幻灯片');
+    }
+
+    // 图片只写入一次，各部件共用
+    let mediaPath: string | undefined;
+    if (content.image) {
+      mediaPath = OoxmlPackage.uniquePath(zip, `ppt/media/watermark.${content.image.format === 'jpeg' ? 'jpeg' : 'png'}`);
+      zip.file(mediaPath, content.image.bytes);
+      await OoxmlPackage.ensureDefaultContentTypes(zip, [content.image.format]);
+    }
+
+    let shapeCount = 0;
+    for (const partPath of parts) {
+      shapeCount += await this.applyToPart(zip, partPath, content, options.layout, slideSize, mediaPath);
+    }
+
+    const bytes = await zip.generateAsync({
+      type: 'uint8array',
+      compression: 'DEFLATE',
+      compressionOptions: { level: 6 }
+    });
+
+    console.log('📽️ PowerPoint水印添加完成:', {
+      target: options.target,
+      parts: parts.length,
+      shapeCount
+    });
+
+    return { bytes, watermarkedParts: parts, shapeCount };
+  }
+
+  /**
+   * 按布局选项计算水印形状位置（EMU）
+   */
+  static calculateRects(
+    slideSize: { cx: number; cy: number },
+    shapeSize: { cx: number; cy: number },
+    layout: PptxWatermarkLayout
+  ): ShapeRect[] {
+    const { cx, cy } = shapeSize;
+    const margin = {
+      top: (layout.margin?.top ?? DEFAULT_MARGIN_PT) * EMU_PER_PT,
+      right: (layout.margin?.right ?? DEFAULT_MARGIN_PT) * EMU_PER_PT,
+      bottom: (layout.margin?.bottom ?? DEFAULT_MARGIN_PT) * EMU_PER_PT,
+      left: (layout.margin?.left ?? DEFAULT_MARGIN_PT) * EMU_PER_PT
+    };
+    const centerX = (slideSize.cx - cx) / 2;
+    const centerY = (slideSize.cy - cy) / 2;
+    const right = slideSize.cx - cx - margin.right;
+    const bottom = slideSize.cy - cy - margin.bottom;
+
+    const rects: ShapeRect[] = [];
+    const add = (x: number, y: number) => rects.push({ x: Math.round(x), y: Math.round(y), cx: Math.round(cx), cy: Math.round(cy) });
+
+    switch (layout.placement) {
+      case 'corner':
+        switch (layout.corner) {
+          case 'top-left': add(margin.left, margin.top); break;
+          case 'top-right': add(right, margin.top); break;
+          case 'bottom-left': add(margin.left, bottom); break;
+          default: add(right, bottom); break;
+        }
+        break;
+
+      case 'edge':
+        switch (layout.edge) {
+          case 'top': add(centerX, margin.top); break;
+          case 'left': add(margin.left, centerY); break;
+          case 'right': add(right, centerY); break;
+          default: add(centerX, bottom); break;
+        }
+        break;
+
+      case 'pattern': {
+        // 平铺：按间距计算行列数，可交错排列
+        const spacingX = (layout.pattern?.spacing.x ?? 100) * EMU_PER_PT * 0.75;
+        const spacingY = (layout.pattern?.spacing.y ?? 100) * EMU_PER_PT * 0.75;
+        const columns = layout.pattern?.columns || Math.max(1, Math.floor(slideSize.cx / (cx + spacingX)));
+        const rows = layout.pattern?.rows || Math.max(1, Math.floor(slideSize.cy / (cy + spacingY)));
+        const cellWidth = slideSize.cx / columns;
+        const cellHeight = slideSize.cy / rows;
+
+        for (let row = 0; row < rows; row++) {
+          const offset = layout.pattern?.stagger && row % 2 === 1 ? cellWidth / 2 : 0;
+          for (let col = 0; col < columns; col++) {
+            const x = col * cellWidth + offset + (cellWidth - cx) / 2;
+            if (x + cx / 2 > slideSize.cx) continue;
+            add(x, row * cellHeight + (cellHeight - cy) / 2);
+          }
+        }
+        break;
+      }
+
+      default:
+        add(centerX, centerY);
+    }
+
+    return rects;
+  }
+
+  /**
+   * 向单个幻灯片/母版/版式追加水印形状，返回追加的形状数
+   */
+  private static async applyToPart(
+    zip: JSZip,
+    partPath: string,
+    content: PptxWatermarkContent,
+    layout: PptxWatermarkLayout,
+    slideSize: { cx: number; cy: number },
+    mediaPath?: string
+  ): Promise<number> {
+    const xml = await zip.file(partPath)!.async('string');
+    const doc = OoxmlPackage.parseXml(xml);
+    const spTree = doc.getElementsByTagNameNS(PML_NS, 'spTree')[0];
+    if (!spTree) {
+      console.warn(`⚠️ 未找到形状树，跳过: ${partPath}`);
+      return 0;
+    }
+
+    // 形状ID在部件内必须唯一
+    let nextId = Math.max(0, ...Array.from(doc.getElementsByTagNameNS(PML_NS, 'cNvPr'))
+      .map(element => Number(element.getAttribute('id')) || 0)) + 1;
+    const rotation = this.toAngle(layout.rotation ?? 0);
+    const alpha = Math.round(Math.max(0, Math.min(1, layout.opacity)) * 100000);
+    const shapes: string[] = [];
+
+    if (content.image && mediaPath) {
+      const relId = await OoxmlPackage.addRelationship(zip, partPath, OOXML_REL_TYPES.image, mediaPath);
+      const size = { cx: content.image.width * EMU_PER_PT, cy: content.image.height * EMU_PER_PT };
+      for (const rect of this.calculateRects(slideSize, size, layout)) {
+        shapes.push(this.createPictureXml(nextId++, rect, rotation, alpha, relId));
+      }
+    }
+
+    if (content.text) {
+      for (const rect of this.calculateRects(slideSize, this.estimateTextSize(content.text), layout)) {
+        shapes.push(this.createTextShapeXml(nextId++, rect, rotation, alpha, content.text));
+      }
+    }
+
+    const fragment = OoxmlPackage.parseXml(
+      `<root xmlns:p="${PML_NS}" xmlns:a="${DML_NS}" xmlns:r="${OOXML_NS.relationships}">${shapes.join('')}</root>`
+    );
+    // 追加到形状树末尾，位于原有内容之上；extLst必须保持在最后
+    const extLst = OoxmlPackage.childByName(spTree, 'extLst');
+    Array.from(fragment.documentElement.children).forEach(shape => {
+      spTree.insertBefore(doc.importNode(shape, true), extLst || null);
+    });
+
+    zip.file(partPath, OoxmlPackage.serializeXml(doc, xml));
+    return shapes.length;
+  }
+
+  private static createTextShapeXml(id: number, rect: ShapeRect, rotation: number, alpha: number, text: PptxTextWatermark): string {
+    const color = this.toHexColor(text.color);
+    const typeface = text.fontFamily ? this.escapeXml(text.fontFamily) : '+mn-lt';
+    const eaTypeface = text.fontFamily ? this.escapeXml(text.fontFamily) : '+mn-ea';
+
+    return `<p:sp>` +
+      `<p:nvSpPr><p:cNvPr id="${id}" name="Watermark ${id}" descr="watermark"/>` +
+      `<p:cNvSpPr txBox="1"><a:spLocks ${SHAPE_LOCKS}/></p:cNvSpPr><p:nvPr/></p:nvSpPr>` +
+      `<p:spPr>${this.xfrmXml(rect, rotation)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:noFill/></p:spPr>` +
+      `<p:txBody><a:bodyPr wrap="none" lIns="0" tIns="0" rIns="0" bIns="0" anchor="ctr"><a:noAutofit/></a:bodyPr><a:lstStyle/>` +
+      `<a:p><a:pPr algn="ctr"/><a:r>` +
+      `<a:rPr lang="zh-CN" sz="${Math.round(text.fontSize * 100)}" b="${text.bold ? 1 : 0}" dirty="0">` +
+      `<a:solidFill><a:srgbClr val="${color}"><a:alpha val="${alpha}"/></a:srgbClr></a:solidFill>` +
+      `<a:latin typeface="${typeface}"/><a:ea typeface="${eaTypeface}"/></a:rPr>` +
+      `<a:t>${this.escapeXml(text.content)}</a:t></a:r></a:p></p:txBody>` +
+      `</p:sp>`;
+  }
+
+  private static createPictureXml(id: number, rect: ShapeRect, rotation: number, alpha: number, relId: string): string {
+    return `<p:pic>` +
+      `<p:nvPicPr><p:cNvPr id="${id}" name="Watermark ${id}" descr="watermark"/>` +
+      `<p:cNvPicPr><a:picLocks ${PICTURE_LOCKS}/></p:cNvPicPr><p:nvPr/></p:nvPicPr>` +
+      `<p:blipFill><a:blip r:embed="${relId}"><a:alphaModFix amt="${alpha}"/></a:blip><a:stretch><a:fillRect/></a:stretch></p:blipFill>` +
+      `<p:spPr>${this.xfrmXml(rect, rotation)}<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>` +
+      `</p:pic>`;
+  }
+
+  private static xfrmXml(rect: ShapeRect, rotation: number): string {
+    const rot = rotation ? ` rot="${rotation}"` : '';
+    return `<a:xfrm${rot}><a:off x="${rect.x}" y="${rect.y}"/><a:ext cx="${rect.cx}" cy="${rect.cy}"/></a:xfrm>`;
+  }
+
+  /**
+   * 估算文字框尺寸：中日韩字符按全角，其余按半角计算
+   */
+  private static estimateTextSize(text: PptxTextWatermark): { cx: number; cy: number } {
+    const units = Array.from(text.content).reduce((sum, char) => sum + (/[⺀-￯]/.test(char) ? 1 : 0.6), 0);
+    return {
+      cx: Math.max(1, units) * text.fontSize * EMU_PER_PT * 1.1,
+      cy: text.fontSize * EMU_PER_PT * 1.4
+    };
+  }
+
+  /**
+   * CSS颜色转换为srgbClr所需的6位十六进制（RRGGBB），无法识别时使用黑色
+   */
+  static toHexColor(color: string): string {
+    let value = color.trim();
+
+    // 颜色名交给Canvas规范化为#rrggbb
+    if (!/^#|^rgba?\(/i.test(value) && typeof document !== 'undefined') {
+      const ctx = document.createElement('canvas').getContext('2d');
+      if (ctx) {
+        ctx.fillStyle = '#000000';
+        ctx.fillStyle = value;
+        value = String(ctx.fillStyle);
+      }
+    }
+
+    const hex = /^#([0-9a-f]{3,8})$/i.exec(value)?.[1];
+    if (hex && (hex.length === 3 || hex.length === 4)) {
+      return hex.slice(0, 3).split('').map(digit => digit + digit).join('').toUpperCase();
+    }
+    if (hex && (hex.length === 6 || hex.length === 8)) {
+      return hex.slice(0, 6).toUpperCase();
+    }
+
+    const rgb = /^rgba?\(\s*(\d+)\s*[,\s]\s*(\d+)\s*[,\s]\s*(\d+)/i.exec(value);
+    if (rgb) {
+      return rgb.slice(1, 4)
+        .map(channel => Math.min(255, Number(channel)).toString(16).padStart(2, '0'))
+        .join('')
+        .toUpperCase();
+    }
+
+    console.warn('⚠️ 无法识别的水印颜色，使用黑色:', color);
+    return '000000';
+  }
+
+  // DrawingML角度单位为1/60000度，取值0~21600000
+  private static toAngle(degrees: number): number {
+    return Math.round((((degrees % 360) + 360) % 360) * 60000);
+  }
+
+  private static readSlideSize(presentationDoc: Document): { cx: number; cy: number } {
+    const sldSz = presentationDoc.getElementsByTagNameNS(PML_NS, 'sldSz')[0];
+    const cx = Number(sldSz?.getAttribute('cx'));
+    const cy = Number(sldSz?.getAttribute('cy'));
+    return cx > 0 && cy > 0 ? { cx, cy } : DEFAULT_SLIDE_SIZE;
+  }
+
+  private static async listSlides(zip: JSZip, presentationPath: string, presentationDoc: Document): Promise<string[]> {
+    const rels = await OoxmlPackage.getRelationships(zip, presentationPath);
+    const targets = new Map(rels.filter(rel => rel.type === SLIDE_REL_TYPE).map(rel => [rel.id, rel.target]));
+
+    // 按演示文稿中的放映顺序
+    return Array.from(presentationDoc.getElementsByTagNameNS(PML_NS, 'sldId'))
+      .map(sldId => targets.get(sldId.getAttributeNS(OOXML_NS.relationships, 'id') || '') || '')
+      .filter(path => path && zip.file(path));
+  }
+
+  /**
+   * 母版、不显示母版形状的版式，以及不显示母版形状的幻灯片（均为showMasterSp="0"）
+   */
+  private static async listMasterParts(zip: JSZip, presentationPath: string, presentationDoc: Document): Promise<string[]> {
+    const masters = (await OoxmlPackage.getRelationships(zip, presentationPath))
+      .filter(rel => rel.type === SLIDE_MASTER_REL_TYPE && zip.file(rel.target))
+      .map(rel => rel.target);
+
+    const parts = [...masters];
+    for (const master of masters) {
+      const layouts = (await OoxmlPackage.getRelationships(zip, master))
+        .filter(rel => rel.type === SLIDE_LAYOUT_REL_TYPE && zip.file(rel.target));
+      for (const layout of layouts) {
+        if (!parts.includes(layout.target) && await this.hidesMasterShapes(zip, layout.target)) {
+          parts.push(layout.target);
+        }
+      }
+    }
+
+    // 幻灯片本身隐藏母版和版式形状时，水印直接画在幻灯片上
+    for (const slide of await this.listSlides(zip, presentationPath, presentationDoc)) {
+      if (await this.hidesMasterShapes(zip, slide)) {
+        parts.push(slide);
+      }
+    }
+    return parts;
+  }
+
+  private static async hidesMasterShapes(zip: JSZip, partPath: string): Promise<boolean> {
+    const doc = OoxmlPackage.parseXml(await zip.file(partPath)!.async('string'));
+    const showMasterSp = doc.documentElement.getAttribute('showMasterSp');
+    return showMasterSp === '0' || showMasterSp === 'false';
+  }
+
+  private static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,431 @@
+/**
+ * RTF解析器 - 提取RTF文档的段落文本和基本格式
+ * 支持：字体字符集/代码页(\'hh多字节)、Unicode(\uN)、粗体/斜体/下划线/字号/颜色、段落对齐、分页、表格单元格
+ */
+
+import type { ExtractedAlignment, ExtractedParagraph, ExtractedRun } from './LegacyWordExtractor';
+
+interface RtfState {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  fontSize: number;
+  color?: string;
+  font: number;
+  uc: number;
+  alignment: ExtractedAlignment;
+  skip: boolean;
+  destination: 'body' | 'fonttbl' | 'colortbl';
+}
+
+// 不包含正文内容的目标组
+const SKIPPED_DESTINATIONS = new Set([
+  'stylesheet', 'info', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl',
+  'footerr', 'footerf', 'footnote', 'annotation', 'fldinst', 'themedata', 'colorschememapping', 'datastore',
+  'latentstyles', 'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'xmlnstbl', 'filetbl', 'revtbl',
+  'pgdsctbl', 'docvar', 'userprops', 'xe', 'tc', 'nonshppict', 'bkmkstart', 'bkmkend', 'shpinst'
+]);
+
+const SYMBOLS: Record<string, string> = {
+  line: '\n',
+  tab: '\t',
+  cell: '\t',
+  nestcell: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  emspace: ' ',
+  enspace: ' ',
+  qmspace: ' '
+};
+
+const ALIGNMENTS: Record<string, ExtractedAlignment> = {
+  ql: 'left',
+  qc: 'center',
+  qr: 'right',
+  qj: 'justify',
+  qd: 'justify'
+};
+
+// \fcharset对应的文本编码
+const CHARSET_ENCODINGS: Record<number, string> = {
+  0: 'windows-1252',
+  128: 'shift_jis',
+  129: 'euc-kr',
+  134: 'gbk',
+  136: 'big5',
+  161: 'windows-1253',
+  162: 'windows-1254',
+  163: 'windows-1258',
+  177: 'windows-1255',
+  178: 'windows-1256',
+  186: 'windows-1257',
+  204: 'windows-1251',
+  222: 'windows-874',
+  238: 'windows-1250'
+};
+
+const CODEPAGE_ENCODINGS: Record<number, string> = {
+  932: 'shift_jis',
+  936: 'gbk',
+  949: 'euc-kr',
+  950: 'big5',
+  10000: 'macintosh'
+};
+
+export class RtfParser {
+  /**
+   * 检查是否以{\rtf开头
+   */
+  static isRtf(bytes: Uint8Array): boolean {
+    const signature = [0x7B, 0x5C, 0x72, 0x74, 0x66];
+    return bytes.length >= signature.length && signature.every((byte, index) => bytes[index] === byte);
+  }
+
+  /**
+   * 解析RTF文档为段落列表
+   */
+  static parse(source: Uint8Array | string): ExtractedParagraph[] {
+    const input = typeof source === 'string' ? source : this.toBinaryString(source);
+    if (!input.startsWith('{\\rtf')) {
+      throw new Error('不是有效的RTF文档');
+    }
+
+    const paragraphs: ExtractedParagraph[] = [];
+    const fontEncodings = new Map<number, string>();
+    const colors: Array<string | undefined> = [];
+    const decoders = new Map<string, TextDecoder>();
+    const stack: RtfState[] = [];
+
+    let state: RtfState = {
+      bold: false,
+      italic: false,
+      underline: false,
+      fontSize: 12,
+      font: -1,
+      uc: 1,
+      alignment: 'left',
+      skip: false,
+      destination: 'body'
+    };
+    let documentEncoding = 'windows-1252';
+    let paragraph: ExtractedParagraph = { runs: [] };
+    let pendingBytes: number[] = [];
+    let pendingPageBreak = false;
+    let fontTableId = -1;
+    let color = { red: 0, green: 0, blue: 0, set: false };
+    let skipFallback = 0;
+    let groupStart = false;
+
+    const decode = (bytes: number[]): string => {
+      const encoding = fontEncodings.get(state.font) || documentEncoding;
+      if (!decoders.has(encoding)) {
+        try {
+          decoders.set(encoding, new TextDecoder(encoding));
+        } catch {
+          decoders.set(encoding, new TextDecoder('windows-1252'));
+        }
+      }
+      return decoders.get(encoding)!.decode(new Uint8Array(bytes));
+    };
+
+    const appendText = (text: string) => {
+      if (state.skip || state.destination !== 'body' || !text) return;
+      const run: ExtractedRun = {
+        text,
+        ...(state.bold && { bold: true }),
+        ...(state.italic && { italic: true }),
+        ...(state.underline && { underline: true }),
+        fontSize: state.fontSize,
+        ...(state.color && { color: state.color })
+      };
+      const last = paragraph.runs[paragraph.runs.length - 1];
+      if (last && this.sameFormat(last, run)) {
+        last.text += text;
+      } else {
+        paragraph.runs.push(run);
+      }
+    };
+
+    const flushBytes = () => {
+      if (pendingBytes.length > 0) {
+        appendText(decode(pendingBytes));
+        pendingBytes = [];
+      }
+    };
+
+    const endParagraph = (trimCells = false) => {
+      flushBytes();
+      if (state.skip || state.destination !== 'body') return;
+      if (trimCells) {
+        const last = paragraph.runs[paragraph.runs.length - 1];
+        if (last) last.text = last.text.replace(/\t+$/, '');
+      }
+      paragraph.alignment = state.alignment;
+      if (pendingPageBreak) {
+        paragraph.pageBreakBefore = true;
+        pendingPageBreak = false;
+      }
+      paragraphs.push(paragraph);
+      paragraph = { runs: [] };
+    };
+
+    // Unicode字符之后的替代字符需要跳过
+    const emit = (text: string) => {
+      if (skipFallback > 0) {
+        skipFallback--;
+        return;
+      }
+      appendText(text);
+    };
+
+    let i = 0;
+    while (i < input.length) {
+      const char = input[i];
+
+      if (char === '{') {
+        flushBytes();
+        stack.push({ ...state });
+        groupStart = true;
+        skipFallback = 0;
+        i++;
+        continue;
+      }
+
+      if (char === '}') {
+        flushBytes();
+        if (state.destination === 'fonttbl' && stack[stack.length - 1]?.destination !== 'fonttbl') {
+          fontTableId = -1;
+        }
+        state = stack.pop() || state;
+        groupStart = false;
+        skipFallback = 0;
+        i++;
+        continue;
+      }
+
+      if (char === '\\') {
+        const next = input[i + 1];
+
+        if (next === "'") {
+          const byte = parseInt(input.substr(i + 2, 2), 16);
+          i += 4;
+          if (skipFallback > 0) {
+            skipFallback--;
+          } else if (!Number.isNaN(byte)) {
+            pendingBytes.push(byte);
+          }
+          groupStart = false;
+          continue;
+        }
+
+        flushBytes();
+
+        if (next === '*') {
+          // 不认识的可选目标组整体跳过
+          if (groupStart) state.skip = true;
+          i += 2;
+          continue;
+        }
+
+        if (next === '\\' || next === '{' || next === '}') {
+          emit(next);
+          i += 2;
+          groupStart = false;
+          continue;
+        }
+        if (next === '~') {
+          emit(' ');
+          i += 2;
+          continue;
+        }
+        if (next === '_') {
+          emit('-');
+          i += 2;
+          continue;
+        }
+        if (next === '\r' || next === '\n') {
+          endParagraph();
+          i += 2;
+          continue;
+        }
+        if (!/[a-zA-Z]/.test(next || '')) {
+          // \-可选连字符等其他控制符号
+          i += 2;
+          continue;
+        }
+
+        const match = /^([a-zA-Z]{1,32})(-?\d{1,10})? ?/.exec(input.slice(i + 1, i + 48));
+        const word = match![1];
+        const param = match![2] !== undefined ? parseInt(match![2], 10) : undefined;
+        i += 1 + match![0].length;
+        const isGroupStart = groupStart;
+        groupStart = false;
+
+        if (word === 'bin') {
+          i += Math.max(0, param || 0);
+          continue;
+        }
+
+        if (isGroupStart && SKIPPED_DESTINATIONS.has(word)) {
+          state.skip = true;
+          continue;
+        }
+        if (word === 'fonttbl') {
+          state.destination = 'fonttbl';
+          continue;
+        }
+        if (word === 'colortbl') {
+          state.destination = 'colortbl';
+          color = { red: 0, green: 0, blue: 0, set: false };
+          continue;
+        }
+
+        if (state.destination === 'fonttbl') {
+          if (word === 'f' && param !== undefined) {
+            fontTableId = param;
+          } else if (word === 'fcharset' && param !== undefined && fontTableId >= 0 && CHARSET_ENCODINGS[param]) {
+            fontEncodings.set(fontTableId, CHARSET_ENCODINGS[param]);
+          }
+          continue;
+        }
+
+        if (state.destination === 'colortbl') {
+          if (word === 'red' || word === 'green' || word === 'blue') {
+            color[word] = param || 0;
+            color.set = true;
+          }
+          continue;
+        }
+
+        switch (word) {
+          case 'ansicpg':
+            if (param !== undefined) {
+              documentEncoding = CODEPAGE_ENCODINGS[param] || `windows-${param}`;
+            }
+            break;
+          case 'u':
+            if (param !== undefined) {
+              emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+              skipFallback = state.uc;
+            }
+            break;
+          case 'uc':
+            state.uc = Math.max(0, param ?? 1);
+            break;
+          case 'par':
+            endParagraph();
+            break;
+          case 'sect':
+            if (paragraph.runs.length > 0) endParagraph();
+            break;
+          case 'row':
+            endParagraph(true);
+            break;
+          case 'page':
+            if (paragraph.runs.length > 0) endParagraph();
+            pendingPageBreak = true;
+            break;
+          case 'pard':
+            state.alignment = 'left';
+            break;
+          case 'plain':
+            state = { ...state, bold: false, italic: false, underline: false, fontSize: 12, color: undefined };
+            break;
+          case 'b':
+            state.bold = param !== 0;
+            break;
+          case 'i':
+            state.italic = param !== 0;
+            break;
+          case 'ul':
+          case 'uld':
+          case 'uldb':
+          case 'ulw':
+          case 'ulwave':
+          case 'ulth':
+          case 'uldash':
+            state.underline = param !== 0;
+            break;
+          case 'ulnone':
+            state.underline = false;
+            break;
+          case 'fs':
+            if (param) state.fontSize = param / 2;
+            break;
+          case 'cf':
+            state.color = param ? colors[param] : undefined;
+            break;
+          case 'f':
+          case 'deff':
+            if (param !== undefined) state.font = param;
+            break;
+          default:
+            if (ALIGNMENTS[word]) {
+              state.alignment = ALIGNMENTS[word];
+            } else if (SYMBOLS[word]) {
+              emit(SYMBOLS[word]);
+            }
+        }
+        continue;
+      }
+
+      groupStart = false;
+      i++;
+
+      // 原始换行符在RTF中没有意义
+      if (char === '\r' || char === '\n') {
+        continue;
+      }
+
+      flushBytes();
+
+      if (state.destination === 'colortbl') {
+        if (char === ';') {
+          colors.push(color.set ? this.toHex(color.red, color.green, color.blue) : undefined);
+          color = { red: 0, green: 0, blue: 0, set: false };
+        }
+        continue;
+      }
+      if (state.destination === 'fonttbl') {
+        continue;
+      }
+
+      emit(char);
+    }
+
+    flushBytes();
+    if (paragraph.runs.length > 0) {
+      endParagraph();
+    }
+
+    console.log('📄 RTF解析完成:', {
+      paragraphs: paragraphs.length,
+      encoding: documentEncoding
+    });
+
+    return paragraphs;
+  }
+
+  private static sameFormat(a: ExtractedRun, b: ExtractedRun): boolean {
+    return a.bold === b.bold && a.italic === b.italic && a.underline === b.underline &&
+      a.fontSize === b.fontSize && a.color === b.color;
+  }
+
+  private static toHex(red: number, green: number, blue: number): string {
+    return '#' + [red, green, blue].map(value => value.toString(16).padStart(2, '0')).join('');
+  }
+
+  // RTF本身是7位ASCII，\bin数据按字节保留
+  private static toBinaryString(bytes: Uint8Array): string {
+    let result = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return result;
+  }
+}
@@ -0,0 +1,421 @@
+/**
+ * Word 97-2003文档提取器 - 从WordDocument/表格数据流中读取正文文本与基本格式
+ * 通过FIB定位分段表(Clx)拼接正文，再按字符/段落FKP中的sprm解析格式
+ */
+
+import type { CompoundFile } from './CompoundFile';
+import type { ExtractedAlignment, ExtractedParagraph, ExtractedRun } from './LegacyWordExtractor';
+
+interface CharacterFormat {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  fontSize?: number;
+  color?: string;
+}
+
+interface ParagraphFormat {
+  alignment?: ExtractedAlignment;
+  pageBreakBefore?: boolean;
+  tableRowEnd?: boolean;
+}
+
+// 按文件偏移(FC)划分的格式区间
+interface FormatRange<T> {
+  start: number;
+  end: number;
+  format: T;
+}
+
+interface TextPiece {
+  text: string;
+  fcs: number[];
+}
+
+const WORD_IDENT = 0xA5EC;
+const FKP_SIZE = 512;
+
+// FibRgFcLcb97中的序号
+const FC_PLCF_BTE_CHPX = 12;
+const FC_PLCF_BTE_PAPX = 13;
+const FC_CLX = 33;
+
+const SPRM = {
+  cFBold: 0x0835,
+  cFItalic: 0x0836,
+  cKul: 0x2A3E,
+  cIco: 0x2A42,
+  cHps: 0x4A43,
+  cCv: 0x6870,
+  pJc80: 0x2403,
+  pJc: 0x2461,
+  pFPageBreakBefore: 0x2407,
+  pFTtp: 0x2417,
+  tDefTable: 0xD608
+};
+
+// sprmCIco使用的16色调色板
+const ICO_COLORS = [
+  undefined, '#000000', '#0000ff', '#00ffff', '#00ff00', '#ff00ff', '#ff0000', '#ffff00', '#ffffff',
+  '#000080', '#008080', '#008000', '#800080', '#800000', '#808000', '#808080', '#c0c0c0'
+];
+
+const JUSTIFICATIONS: ExtractedAlignment[] = ['left', 'center', 'right', 'justify', 'justify', 'justify'];
+
+export class Word97Extractor {
+  /**
+   * 提取正文段落
+   */
+  static extract(file: CompoundFile): ExtractedParagraph[] {
+    const wordDocument = file.getStream('WordDocument');
+    if (!wordDocument || wordDocument.length < 0x200) {
+      throw new Error('缺少WordDocument数据流，不是Word文档');
+    }
+
+    const fib = new DataView(wordDocument.buffer, wordDocument.byteOffset, wordDocument.byteLength);
+    if (fib.getUint16(0, true) !== WORD_IDENT) {
+      throw new Error('Word文档标识无效');
+    }
+    if (fib.getUint16(2, true) < 0xC0) {
+      throw new Error('暂不支持Word 97之前的文档格式');
+    }
+
+    const flags = fib.getUint16(0x0A, true);
+    if (flags & 0x0100) {
+      throw new Error('文档已加密，无法提取内容');
+    }
+
+    const table = file.getStream(flags & 0x0200 ? '1Table' : '0Table');
+    if (!table) {
+      throw new Error('Word文档缺少表格数据流');
+    }
+
+    // FibRgW97和FibRgLw97的长度由csw/cslw给出
+    const csw = fib.getUint16(32, true);
+    const rgLwOffset = 34 + csw * 2 + 2;
+    const cslw = fib.getUint16(rgLwOffset - 2, true);
+    const ccpText = fib.getUint32(rgLwOffset + 12, true);
+    const rgFcLcbOffset = rgLwOffset + cslw * 4 + 2;
+    const fcLcb = (index: number): [number, number] => [
+      fib.getUint32(rgFcLcbOffset + index * 8, true),
+      fib.getUint32(rgFcLcbOffset + index * 8 + 4, true)
+    ];
+
+    const piece = this.readText(wordDocument, table, fcLcb(FC_CLX), ccpText);
+    const characterRanges = this.readFormatRanges(wordDocument, table, fcLcb(FC_PLCF_BTE_CHPX), false)
+      .map(range => ({ ...range, format: this.parseCharacterSprms(range.format) }));
+    const paragraphRanges = this.readFormatRanges(wordDocument, table, fcLcb(FC_PLCF_BTE_PAPX), true)
+      .map(range => ({ ...range, format: this.parseParagraphSprms(range.format) }));
+
+    const paragraphs = this.buildParagraphs(piece, characterRanges, paragraphRanges);
+
+    console.log('📄 Word 97文档解析完成:', {
+      characters: ccpText,
+      paragraphs: paragraphs.length,
+      formatRuns: characterRanges.length
+    });
+
+    return paragraphs;
+  }
+
+  /**
+   * 按分段表读取正文字符及每个字符的文件偏移
+   */
+  private static readText(wordDocument: Uint8Array, table: Uint8Array, [fcClx, lcbClx]: [number, number], ccpText: number): TextPiece {
+    if (lcbClx === 0 || fcClx + lcbClx > table.length) {
+      throw new Error('Word文档缺少分段表');
+    }
+
+    const view = new DataView(table.buffer, table.byteOffset + fcClx, lcbClx);
+    let offset = 0;
+    // 跳过Prc属性修饰，定位到Pcdt
+    while (offset < lcbClx && view.getUint8(offset) === 0x01) {
+      offset += 3 + view.getInt16(offset + 1, true);
+    }
+    if (offset >= lcbClx || view.getUint8(offset) !== 0x02) {
+      throw new Error('Word文档分段表格式无效');
+    }
+
+    const lcb = view.getUint32(offset + 1, true);
+    const plcStart = offset + 5;
+    const count = Math.floor((lcb - 4) / 12);
+    const utf16 = new TextDecoder('utf-16le');
+    const cp1252 = new TextDecoder('windows-1252');
+    const result: TextPiece = { text: '', fcs: [] };
+
+    for (let i = 0; i < count; i++) {
+      const cpStart = view.getUint32(plcStart + i * 4, true);
+      const cpEnd = Math.min(view.getUint32(plcStart + (i + 1) * 4, true), ccpText);
+      if (cpStart >= ccpText) break;
+      if (cpEnd <= cpStart) continue;
+
+      const rawFc = view.getUint32(plcStart + (count + 1) * 4 + i * 8 + 2, true);
+      const compressed = (rawFc & 0x40000000) !== 0;
+      const fc = compressed ? (rawFc & 0x3FFFFFFF) / 2 : rawFc;
+      const length = cpEnd - cpStart;
+      const bytes = wordDocument.subarray(fc, fc + length * (compressed ? 1 : 2));
+
+      // 压缩的分段为单字节cp1252，否则为UTF-16LE，两者解码后长度都与字符数一致
+      result.text += compressed ? cp1252.decode(bytes) : utf16.decode(bytes);
+      for (let j = 0; j < length; j++) {
+        result.fcs.push(fc + j * (compressed ? 1 : 2));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 读取PlcBteChpx/PlcBtePapx指向的FKP页，返回每个区间的grpprl
+   */
+  private static readFormatRanges(
+    wordDocument: Uint8Array,
+    table: Uint8Array,
+    [fcPlc, lcbPlc]: [number, number],
+    paragraph: boolean
+  ): FormatRange<Uint8Array>[] {
+    if (lcbPlc < 12 || fcPlc + lcbPlc > table.length) {
+      return [];
+    }
+
+    const plc = new DataView(table.buffer, table.byteOffset + fcPlc, lcbPlc);
+    const count = Math.floor((lcbPlc - 4) / 8);
+    const ranges: FormatRange<Uint8Array>[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const pageNumber = plc.getUint32((count + 1) * 4 + i * 4, true) & 0x3FFFFF;
+      const pageOffset = pageNumber * FKP_SIZE;
+      if (pageOffset + FKP_SIZE > wordDocument.length) continue;
+
+      const page = wordDocument.subarray(pageOffset, pageOffset + FKP_SIZE);
+      const view = new DataView(page.buffer, page.byteOffset, FKP_SIZE);
+      const crun = page[FKP_SIZE - 1];
+
+      for (let j = 0; j < crun; j++) {
+        const start = view.getUint32(j * 4, true);
+        const end = view.getUint32((j + 1) * 4, true);
+        // 段落FKP中每项为1字节偏移+12字节PHE
+        const wordOffset = page[(crun + 1) * 4 + j * (paragraph ? 13 : 1)] * 2;
+        ranges.push({ start, end, format: wordOffset ? this.readFkpGrpprl(page, wordOffset, paragraph) : new Uint8Array(0) });
+      }
+    }
+
+    return ranges.sort((a, b) => a.start - b.start);
+  }
+
+  private static readFkpGrpprl(page: Uint8Array, offset: number, paragraph: boolean): Uint8Array {
+    if (!paragraph) {
+      return page.subarray(offset + 1, offset + 1 + page[offset]);
+    }
+
+    // PapxInFkp：cb为0时下一字节给出长度；grpprl前是2字节的样式索引
+    const cb = page[offset];
+    const start = cb === 0 ? offset + 2 : offset + 1;
+    const length = cb === 0 ? page[offset + 1] * 2 : cb * 2 - 1;
+    return page.subarray(start + 2, start + length);
+  }
+
+  private static parseCharacterSprms(grpprl: Uint8Array): CharacterFormat {
+    const format: CharacterFormat = {};
+    this.forEachSprm(grpprl, (sprm, operand) => {
+      switch (sprm) {
+        case SPRM.cFBold:
+          format.bold = operand[0] === 1 || operand[0] === 0x81;
+          break;
+        case SPRM.cFItalic:
+          format.italic = operand[0] === 1 || operand[0] === 0x81;
+          break;
+        case SPRM.cKul:
+          format.underline = operand[0] !== 0;
+          break;
+        case SPRM.cHps:
+          format.fontSize = (operand[0] | (operand[1] << 8)) / 2;
+          break;
+        case SPRM.cIco:
+          format.color = ICO_COLORS[operand[0]];
+          break;
+        case SPRM.cCv:
+          // COLORREF：最后一字节为0xFF表示自动颜色
+          format.color = operand[3] === 0xFF ? undefined : '#' + Array.from(operand.subarray(0, 3))
+            .map(value => value.toString(16).padStart(2, '0')).join('');
+          break;
+      }
+    });
+    return format;
+  }
+
+  private static parseParagraphSprms(grpprl: Uint8Array): ParagraphFormat {
+    const format: ParagraphFormat = {};
+    this.forEachSprm(grpprl, (sprm, operand) => {
+      switch (sprm) {
+        case SPRM.pJc80:
+        case SPRM.pJc:
+          format.alignment = JUSTIFICATIONS[operand[0]] || 'left';
+          break;
+        case SPRM.pFPageBreakBefore:
+          format.pageBreakBefore = operand[0] !== 0;
+          break;
+        case SPRM.pFTtp:
+          format.tableRowEnd = operand[0] !== 0;
+          break;
+      }
+    });
+    return format;
+  }
+
+  /**
+   * 遍历grpprl中的sprm，操作数长度由sprm的spra位决定
+   */
+  private static forEachSprm(grpprl: Uint8Array, callback: (sprm: number, operand: Uint8Array) => void): void {
+    let offset = 0;
+    while (offset + 2 <= grpprl.length) {
+      const sprm = grpprl[offset] | (grpprl[offset + 1] << 8);
+      offset += 2;
+
+      let size: number;
+      switch (sprm >> 13) {
+        case 0:
+        case 1:
+          size = 1;
+          break;
+        case 2:
+        case 4:
+        case 5:
+          size = 2;
+          break;
+        case 3:
+          size = 4;
+          break;
+        case 7:
+          size = 3;
+          break;
+        default:
+          if (sprm === SPRM.tDefTable) {
+            size = (grpprl[offset] | (grpprl[offset + 1] << 8)) + 1;
+          } else {
+            size = grpprl[offset] + 1;
+          }
+          callback(sprm, grpprl.subarray(offset + (sprm === SPRM.tDefTable ? 2 : 1), offset + size));
+          offset += size;
+          continue;
+      }
+
+      callback(sprm, grpprl.subarray(offset, offset + size));
+      offset += size;
+    }
+  }
+
+  /**
+   * 按段落标记拆分正文，去掉域代码和对象占位符
+   */
+  private static buildParagraphs(
+    piece: TextPiece,
+    characterRanges: FormatRange<CharacterFormat>[],
+    paragraphRanges: FormatRange<ParagraphFormat>[]
+  ): ExtractedParagraph[] {
+    const paragraphs: ExtractedParagraph[] = [];
+    // 域的状态：true表示仍在域代码中，域结果部分正常输出
+    const fields: boolean[] = [];
+    let paragraph: ExtractedParagraph = { runs: [] };
+    let pendingPageBreak = false;
+
+    const endParagraph = (fc: number) => {
+      const format = this.findRange(paragraphRanges, fc)?.format || {};
+      if (format.alignment) paragraph.alignment = format.alignment;
+      if (pendingPageBreak || format.pageBreakBefore) paragraph.pageBreakBefore = true;
+      pendingPageBreak = false;
+      paragraphs.push(paragraph);
+      paragraph = { runs: [] };
+    };
+
+    const append = (text: string, fc: number) => {
+      const format = this.findRange(characterRanges, fc)?.format || {};
+      const run: ExtractedRun = { text, ...format };
+      const last = paragraph.runs[paragraph.runs.length - 1];
+      if (last && last.bold === run.bold && last.italic === run.italic && last.underline === run.underline &&
+        last.fontSize === run.fontSize && last.color === run.color) {
+        last.text += text;
+      } else {
+        paragraph.runs.push(run);
+      }
+    };
+
+    for (let i = 0; i < piece.text.length; i++) {
+      const char = piece.text[i];
+      const code = char.charCodeAt(0);
+      const fc = piece.fcs[i];
+
+      if (code === 0x13) {
+        fields.push(true);
+        continue;
+      }
+      if (code === 0x14) {
+        if (fields.length > 0) fields[fields.length - 1] = false;
+        continue;
+      }
+      if (code === 0x15) {
+        fields.pop();
+        continue;
+      }
+      if (fields.includes(true)) {
+        continue;
+      }
+
+      switch (code) {
+        case 0x0D:
+          endParagraph(fc);
+          break;
+        case 0x07: {
+          // 单元格结束标记；行结束标记所在段落带有sprmPFTtp
+          const format = this.findRange(paragraphRanges, fc)?.format;
+          if (format?.tableRowEnd) {
+            const last = paragraph.runs[paragraph.runs.length - 1];
+            if (last) last.text = last.text.replace(/\t+$/, '');
+            endParagraph(fc);
+          } else {
+            append('\t', fc);
+          }
+          break;
+        }
+        case 0x0B:
+          append('\n', fc);
+          break;
+        case 0x0C:
+          if (paragraph.runs.length > 0) endParagraph(fc);
+          pendingPageBreak = true;
+          break;
+        case 0x09:
+          append('\t', fc);
+          break;
+        case 0x1E:
+          append('-', fc);
+          break;
+        default:
+          // 图片、脚注引用等控制字符不输出
+          if (code >= 0x20) append(char, fc);
+      }
+    }
+
+    if (paragraph.runs.length > 0) {
+      endParagraph(piece.fcs[piece.fcs.length - 1] ?? 0);
+    }
+    return paragraphs;
+  }
+
+  private static findRange<T>(ranges: FormatRange<T>[], fc: number): FormatRange<T> | undefined {
+    let low = 0;
+    let high = ranges.length - 1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      const range = ranges[middle];
+      if (fc < range.start) {
+        high = middle - 1;
+      } else if (fc >= range.end) {
+        low = middle + 1;
+      } else {
+        return range;
+      }
+    }
+    return undefined;
+  }
+}
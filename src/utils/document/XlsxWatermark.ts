@@ -0,0 +1,307 @@
+/**
+ * Excel (XLSX) 原生水印 - 通过JSZip直接改写工作表XML
+ * 支持页眉/页脚图片（&G，打印时每页显示）和工作表背景图片两种方式
+ * 只增加图片、VML绘图和关系，不改动单元格、公式与样式，工作簿保持可编辑
+ */
+
+import JSZip from 'jszip';
+import { OoxmlPackage, OOXML_NS, OOXML_REL_TYPES, type OoxmlImage } from './OoxmlPackage';
+
+export type SpreadsheetWatermarkMode = 'header' | 'background';
+
+// 页眉/页脚图片位置：左/中/右 + 页眉(H)/页脚(F)，与Excel VML形状ID一致
+export type HeaderFooterSlot = 'LH' | 'CH' | 'RH' | 'LF' | 'CF' | 'RF';
+
+export interface XlsxWatermarkOptions {
+  mode: SpreadsheetWatermarkMode;
+  slot?: HeaderFooterSlot;
+  washout?: boolean; // 冲蚀效果，淡化图片避免遮挡单元格内容
+}
+
+export interface XlsxWatermarkResult {
+  bytes: Uint8Array;
+  watermarkedSheets: string[];
+  skippedSheets: string[];
+}
+
+const WORKSHEET_REL_TYPE = `${OOXML_NS.relationships}/worksheet`;
+
+// CT_Worksheet子元素顺序，新元素必须插入到正确位置，否则Excel会提示文件损坏
+const WORKSHEET_CHILD_ORDER = [
+  'sheetPr', 'dimension', 'sheetViews', 'sheetFormatPr', 'cols', 'sheetData', 'sheetCalcPr',
+  'sheetProtection', 'protectedRanges', 'scenarios', 'autoFilter', 'sortState', 'dataConsolidate',
+  'customSheetViews', 'mergeCells', 'phoneticPr', 'conditionalFormatting', 'dataValidations',
+  'hyperlinks', 'printOptions', 'pageMargins', 'pageSetup', 'headerFooter', 'rowBreaks', 'colBreaks',
+  'customProperties', 'cellWatches', 'ignoredErrors', 'smartTags', 'drawing', 'legacyDrawing',
+  'legacyDrawingHF', 'drawingHF', 'picture', 'oleObjects', 'controls', 'webPublishItems',
+  'tableParts', 'extLst'
+];
+
+const HEADER_FOOTER_CHILD_ORDER = ['oddHeader', 'oddFooter', 'evenHeader', 'evenFooter', 'firstHeader', 'firstFooter'];
+
+export class XlsxWatermark {
+  /**
+   * 为工作簿中的每个工作表添加水印图片
+   */
+  static async apply(
+    source: ArrayBuffer | Uint8Array,
+    image: OoxmlImage,
+    options: XlsxWatermarkOptions
+  ): Promise<XlsxWatermarkResult> {
+    const zip = await JSZip.loadAsync(source);
+    const workbookPath = await OoxmlPackage.findMainPartPath(zip, 'xl/workbook.xml');
+    const sheets = await this.listWorksheets(zip, workbookPath);
+
+    if (sheets.length === 0) {
+      throw new Error('不是有效的Excel文档：未找到工作表');
+    }
+
+    // 图片只写入一次，所有工作表共用
+    const mediaPath = OoxmlPackage.uniquePath(zip, `xl/media/watermark.${image.format === 'jpeg' ? 'jpeg' : 'png'}`);
+    zip.file(mediaPath, image.bytes);
+
+    const extensions = new Set<string>([image.format]);
+    const watermarkedSheets: string[] = [];
+    const skippedSheets: string[] = [];
+
+    for (let index = 0; index < sheets.length; index++) {
+      const sheet = sheets[index];
+      const applied = options.mode === 'header'
+        ? await this.applyHeaderPicture(zip, sheet.path, mediaPath, image, options, index + 1)
+        : await this.applyBackground(zip, sheet.path, mediaPath);
+
+      if (applied) {
+        watermarkedSheets.push(sheet.name);
+        if (options.mode === 'header') extensions.add('vml');
+      } else {
+        skippedSheets.push(sheet.name);
+      }
+    }
+
+    await OoxmlPackage.ensureDefaultContentTypes(zip, extensions);
+
+    const bytes = await zip.generateAsync({
+      type: 'uint8array',
+      compression: 'DEFLATE',
+      compressionOptions: { level: 6 }
+    });
+
+    console.log('📊 Excel水印添加完成:', {
+      mode: options.mode,
+      watermarkedSheets,
+      skippedSheets
+    });
+
+    return { bytes, watermarkedSheets, skippedSheets };
+  }
+
+  /**
+   * 根据水印位置设置选择页眉/页脚图片的位置
+   */
+  static slotForPosition(position: { placement: string; corner?: string; edge?: string }): HeaderFooterSlot {
+    if (position.placement === 'corner') {
+      switch (position.corner) {
+        case 'top-left': return 'LH';
+        case 'top-right': return 'RH';
+        case 'bottom-left': return 'LF';
+        case 'bottom-right': return 'RF';
+      }
+    }
+    if (position.placement === 'edge' && position.edge === 'bottom') {
+      return 'CF';
+    }
+    return 'CH';
+  }
+
+  /**
+   * 页眉/页脚图片：headerFooter中写入&G，legacyDrawingHF指向包含图片形状的VML绘图
+   */
+  private static async applyHeaderPicture(
+    zip: JSZip,
+    sheetPath: string,
+    mediaPath: string,
+    image: OoxmlImage,
+    options: XlsxWatermarkOptions,
+    sheetNumber: number
+  ): Promise<boolean> {
+    const sheetXml = await zip.file(sheetPath)!.async('string');
+    const doc = OoxmlPackage.parseXml(sheetXml);
+    const root = doc.documentElement;
+
+    // 已有页眉图片的工作表不再覆盖，避免破坏原有页眉
+    if (OoxmlPackage.childByName(root, 'legacyDrawingHF')) {
+      console.warn(`⚠️ 工作表已有页眉图片，跳过: ${sheetPath}`);
+      return false;
+    }
+
+    const slot = options.slot || 'CH';
+    const kind = slot.endsWith('H') ? 'Header' : 'Footer';
+    const section = slot[0] as 'L' | 'C' | 'R';
+
+    let headerFooter = OoxmlPackage.childByName(root, 'headerFooter');
+    if (!headerFooter) {
+      headerFooter = doc.createElementNS(root.namespaceURI, 'headerFooter');
+      OoxmlPackage.insertInOrder(root, headerFooter, WORKSHEET_CHILD_ORDER);
+    }
+
+    // 奇偶页/首页不同时，每种页眉都需要各自的图片形状
+    const variants: Array<{ element: string; suffix: string }> = [{ element: `odd${kind}`, suffix: '' }];
+    if (headerFooter.getAttribute('differentOddEven') === '1' || headerFooter.getAttribute('differentOddEven') === 'true') {
+      variants.push({ element: `even${kind}`, suffix: 'EVEN' });
+    }
+    if (headerFooter.getAttribute('differentFirst') === '1' || headerFooter.getAttribute('differentFirst') === 'true') {
+      variants.push({ element: `first${kind}`, suffix: 'FIRST' });
+    }
+
+    for (const variant of variants) {
+      let element = OoxmlPackage.childByName(headerFooter, variant.element);
+      if (!element) {
+        element = doc.createElementNS(root.namespaceURI, variant.element);
+        OoxmlPackage.insertInOrder(headerFooter, element, HEADER_FOOTER_CHILD_ORDER);
+      }
+      element.textContent = this.addPictureCode(element.textContent || '', section);
+    }
+
+    // VML绘图及其关系
+    const vmlPath = OoxmlPackage.uniquePath(zip, 'xl/drawings/vmlDrawingHF1.vml');
+    const imageRelId = 'rId1';
+    zip.file(OoxmlPackage.relsPathFor(vmlPath), OoxmlPackage.createRelsXml([
+      { id: imageRelId, type: OOXML_REL_TYPES.image, target: OoxmlPackage.relativeTarget(vmlPath, mediaPath) }
+    ]));
+    zip.file(vmlPath, this.createHeaderVml(
+      variants.map(variant => `${slot}${variant.suffix}`),
+      imageRelId,
+      image,
+      options.washout ?? false,
+      sheetNumber
+    ));
+
+    const relId = await OoxmlPackage.addRelationship(zip, sheetPath, OOXML_REL_TYPES.vmlDrawing, vmlPath);
+    const legacyDrawingHF = doc.createElementNS(root.namespaceURI, 'legacyDrawingHF');
+    legacyDrawingHF.setAttributeNS(OOXML_NS.relationships, 'r:id', relId);
+    OoxmlPackage.insertInOrder(root, legacyDrawingHF, WORKSHEET_CHILD_ORDER);
+
+    zip.file(sheetPath, OoxmlPackage.serializeXml(doc, sheetXml));
+    return true;
+  }
+
+  /**
+   * 工作表背景图片：picture元素直接引用图片（仅屏幕显示，不打印）
+   */
+  private static async applyBackground(zip: JSZip, sheetPath: string, mediaPath: string): Promise<boolean> {
+    const sheetXml = await zip.file(sheetPath)!.async('string');
+    const doc = OoxmlPackage.parseXml(sheetXml);
+    const root = doc.documentElement;
+
+    // 每个工作表只能有一张背景图，已有背景时替换为水印，旧图片不再被引用时一并删除
+    const existing = OoxmlPackage.childByName(root, 'picture');
+    if (existing) {
+      root.removeChild(existing);
+      const oldRelId = existing.getAttributeNS(OOXML_NS.relationships, 'id');
+      const removed = oldRelId ? await OoxmlPackage.removeRelationship(zip, sheetPath, oldRelId) : undefined;
+      if (removed && !removed.external) {
+        await OoxmlPackage.removeIfUnreferenced(zip, removed.target);
+      }
+    }
+
+    const relId = await OoxmlPackage.addRelationship(zip, sheetPath, OOXML_REL_TYPES.image, mediaPath);
+
+    const picture = doc.createElementNS(root.namespaceURI, 'picture');
+    picture.setAttributeNS(OOXML_NS.relationships, 'r:id', relId);
+    OoxmlPackage.insertInOrder(root, picture, WORKSHEET_CHILD_ORDER);
+
+    zip.file(sheetPath, OoxmlPackage.serializeXml(doc, sheetXml));
+    return true;
+  }
+
+  /**
+   * 在页眉/页脚文本的指定分区加入&G图片占位符
+   * 格式如"&L左侧&C中间&R右侧"，没有分区代码的文本属于中间分区，"&&"为转义的&
+   */
+  private static addPictureCode(text: string, section: 'L' | 'C' | 'R'): string {
+    const sections: Record<'L' | 'C' | 'R', string> = { L: '', C: '', R: '' };
+    let current: 'L' | 'C' | 'R' = 'C';
+
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '&' && i + 1 < text.length) {
+        const code = text[i + 1];
+        if (code === 'L' || code === 'C' || code === 'R') {
+          current = code;
+          i++;
+          continue;
+        }
+        sections[current] += text[i] + code;
+        i++;
+        continue;
+      }
+      sections[current] += text[i];
+    }
+
+    if (!/&G/.test(sections[section])) {
+      sections[section] = `&G${sections[section]}`;
+    }
+
+    return (['L', 'C', 'R'] as const)
+      .filter(key => sections[key])
+      .map(key => `&${key}${sections[key]}`)
+      .join('');
+  }
+
+  private static createHeaderVml(
+    shapeIds: string[],
+    imageRelId: string,
+    image: OoxmlImage,
+    washout: boolean,
+    drawingNumber: number
+  ): string {
+    // idmap块号与现有批注绘图错开，形状ID = 块号 * 1024 + 序号
+    const idBlock = 100 + drawingNumber;
+    const washoutAttributes = washout ? ' gain="19661f" blacklevel="22938f"' : '';
+    const shapes = shapeIds.map((shapeId, index) => `
+ <v:shape id="${shapeId}" o:spid="_x0000_s${idBlock * 1024 + index + 1}" type="#_x0000_t75" style="position:absolute;margin-left:0;margin-top:0;width:${image.width.toFixed(1)}pt;height:${image.height.toFixed(1)}pt;z-index:${index + 1}">
+  <v:imagedata o:relid="${imageRelId}" o:title="watermark"${washoutAttributes}/>
+  <o:lock v:ext="edit" rotation="t"/>
+ </v:shape>`).join('');
+
+    return `<xml xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:x="urn:schemas-microsoft-com:office:excel">
+ <o:shapelayout v:ext="edit">
+  <o:idmap v:ext="edit" data="${idBlock}"/>
+ </o:shapelayout>
+ <v:shapetype id="_x0000_t75" coordsize="21600,21600" o:spt="75" o:preferrelative="t" path="m@4@5l@4@11@9@11@9@5xe" filled="f" stroked="f">
+  <v:stroke joinstyle="miter"/>
+  <v:formulas>
+   <v:f eqn="if lineDrawn pixelLineWidth 0"/>
+   <v:f eqn="sum @0 1 0"/>
+   <v:f eqn="sum 0 0 @1"/>
+   <v:f eqn="prod @2 1 2"/>
+   <v:f eqn="prod @3 21600 pixelWidth"/>
+   <v:f eqn="prod @3 21600 pixelHeight"/>
+   <v:f eqn="sum @0 0 1"/>
+   <v:f eqn="prod @6 1 2"/>
+   <v:f eqn="prod @7 21600 pixelWidth"/>
+   <v:f eqn="sum @8 21600 0"/>
+   <v:f eqn="prod @7 21600 pixelHeight"/>
+   <v:f eqn="sum @10 21600 0"/>
+  </v:formulas>
+  <v:path o:extrusionok="f" gradientshapeok="t" o:connecttype="rect"/>
+  <o:lock v:ext="edit" aspectratio="t"/>
+ </v:shapetype>${shapes}
+</xml>`;
+  }
+
+  private static async listWorksheets(zip: JSZip, workbookPath: string): Promise<Array<{ name: string; path: string }>> {
+    const targets = new Map<string, string>();
+    (await OoxmlPackage.getRelationships(zip, workbookPath))
+      .filter(rel => rel.type === WORKSHEET_REL_TYPE)
+      .forEach(rel => targets.set(rel.id, rel.target));
+
+    // 按工作簿中的顺序返回，图表工作表等其他类型不处理
+    const workbookDoc = OoxmlPackage.parseXml(await zip.file(workbookPath)!.async('string'));
+    return Array.from(workbookDoc.getElementsByTagNameNS(workbookDoc.documentElement.namespaceURI, 'sheet'))
+      .map(sheet => ({
+        name: sheet.getAttribute('name') || '',
+        path: targets.get(sheet.getAttributeNS(OOXML_NS.relationships, 'id') || '') || ''
+      }))
+      .filter(sheet => sheet.path && zip.file(sheet.path));
+  }
+}
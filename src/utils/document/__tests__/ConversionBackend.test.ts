@@ -0,0 +1,199 @@
+/**
+ * 转换后端测试 - 使用本地模拟的Gotenberg兼容服务
+ * 覆盖：表单上传、5xx重试、4xx不重试、超时、后端回退顺序、方法可用性、环境变量配置
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { URL as NodeURL } from 'node:url';
+import { File as NodeFile } from 'node:buffer';
+import { PDFDocument } from 'pdf-lib';
+import { HttpConversionBackend } from '../ConversionBackend';
+import { DirectWordToPDFConverter } from '../DirectWordToPDFConverter';
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse, body: string) => void;
+
+let server: http.Server;
+let baseUrl: string;
+let handler: Handler;
+let pdfBytes: Uint8Array;
+const requests: Array<{ method?: string; url?: string; headers: http.IncomingHttpHeaders; body: string }> = [];
+
+const createDocx = () =>
+  new NodeFile(['fake docx'], 'report.docx', {
+    type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  }) as unknown as File;
+
+const sendPdf = (res: http.ServerResponse) => {
+  res.writeHead(200, { 'Content-Type': 'application/pdf' });
+  res.end(Buffer.from(pdfBytes));
+};
+
+beforeAll(async () => {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage();
+  pdfDoc.addPage();
+  pdfBytes = await pdfDoc.save();
+
+  server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString('latin1');
+      requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+      handler(req, res, body);
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(async () => {
+  // jsdom的URL/FormData/File无法被Node的fetch使用，测试中换回Node实现
+  vi.stubGlobal('URL', NodeURL);
+  const NodeFormData = (await new Response(new URLSearchParams('a=1')).formData()).constructor;
+  vi.stubGlobal('FormData', NodeFormData);
+  vi.stubGlobal('File', NodeFile);
+  requests.length = 0;
+  handler = (req, res) => (req.url === '/health' ? res.end('ok') : sendPdf(res));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  DirectWordToPDFConverter.clearBackends();
+});
+
+describe('HttpConversionBackend', () => {
+  it('should upload the document as multipart form and return the PDF', async () => {
+    const backend = new HttpConversionBackend({ endpoint: `${baseUrl}/`, headers: { Authorization: 'Bearer token' } });
+
+    expect(await backend.isAvailable()).toBe(true);
+    const blob = await backend.convert(createDocx(), { orientation: 'landscape' } as any);
+
+    expect(blob.type).toBe('application/pdf');
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(pdfBytes);
+    expect(requests.map(request => `${request.method} ${request.url}`)).toEqual([
+      'GET /health',
+      'POST /forms/libreoffice/convert'
+    ]);
+    expect(requests[1].headers.authorization).toBe('Bearer token');
+    expect(requests[1].body).toContain('name="files"; filename="report.docx"');
+    expect(requests[1].body).toMatch(/name="landscape"\r\n\r\ntrue/);
+  });
+
+  it('should retry server errors and succeed', async () => {
+    let attempts = 0;
+    handler = (_req, res) => {
+      attempts++;
+      if (attempts < 3) {
+        res.writeHead(503);
+        res.end();
+      } else {
+        sendPdf(res);
+      }
+    };
+    const backend = new HttpConversionBackend({ endpoint: baseUrl, retryAttempts: 2, retryDelay: 1 });
+
+    const blob = await backend.convert(createDocx(), {} as any);
+    expect(blob.size).toBe(pdfBytes.length);
+    expect(attempts).toBe(3);
+  });
+
+  it('should not retry client errors or non-PDF responses', async () => {
+    handler = (_req, res) => {
+      res.writeHead(400);
+      res.end();
+    };
+    const backend = new HttpConversionBackend({ endpoint: baseUrl, retryAttempts: 2, retryDelay: 1 });
+    await expect(backend.convert(createDocx(), {} as any)).rejects.toThrow('转换服务返回错误状态: 400');
+    expect(requests).toHaveLength(1);
+
+    requests.length = 0;
+    handler = (_req, res) => res.end('<html>error</html>');
+    await expect(backend.convert(createDocx(), {} as any)).rejects.toThrow('转换服务返回的不是PDF文件');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should abort requests that exceed the timeout', async () => {
+    handler = (_req, res) => {
+      setTimeout(() => sendPdf(res), 500);
+    };
+    const backend = new HttpConversionBackend({ endpoint: baseUrl, timeout: 50, retryAttempts: 1, retryDelay: 1 });
+
+    await expect(backend.convert(createDocx(), {} as any)).rejects.toThrow('转换服务请求超时 (50ms)');
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe('DirectWordToPDFConverter backends', () => {
+  it('should fall back to the next available backend in priority order', async () => {
+    handler = (req, res) => {
+      if (req.url?.startsWith('/down')) {
+        res.writeHead(503);
+        res.end();
+      } else if (req.url === '/broken/forms/libreoffice/convert') {
+        res.writeHead(500);
+        res.end();
+      } else {
+        req.url?.endsWith('/health') ? res.end('ok') : sendPdf(res);
+      }
+    };
+
+    DirectWordToPDFConverter.registerBackend(new HttpConversionBackend({ id: 'secondary', endpoint: `${baseUrl}/ok` }));
+    DirectWordToPDFConverter.registerBackend(new HttpConversionBackend({ id: 'down', endpoint: `${baseUrl}/down`, priority: 2 }));
+    DirectWordToPDFConverter.registerBackend(
+      new HttpConversionBackend({ id: 'broken', endpoint: `${baseUrl}/broken`, priority: 1, retryAttempts: 0 })
+    );
+
+    const result = await DirectWordToPDFConverter.convertWordToPDF(createDocx(), { methodOrder: ['server_api'] });
+
+    expect(result).toMatchObject({
+      success: true,
+      conversionMethod: 'server_api',
+      backendId: 'secondary',
+      pageCount: 2,
+      preservationScore: 95
+    });
+    expect(result.warnings).toEqual([
+      '转换后端down不可用',
+      '转换后端broken失败: 转换服务返回错误状态: 500'
+    ]);
+
+    const methods = await DirectWordToPDFConverter.getSupportedMethods();
+    const serverApi = methods.find(method => method.method === 'server_api')!;
+    expect(serverApi.available).toBe(true);
+    expect(serverApi.backends!.map(backend => [backend.id, backend.available])).toEqual([
+      ['down', false],
+      ['broken', true],
+      ['secondary', true]
+    ]);
+    expect(methods.find(method => method.method === 'webassembly')!.available).toBe(false);
+  });
+
+  it('should create the server backend from environment variables', async () => {
+    expect(HttpConversionBackend.fromEnv({})).toBeNull();
+    expect(HttpConversionBackend.fromEnv({ VITE_CONVERTER_URL: '  ' })).toBeNull();
+
+    const backend = HttpConversionBackend.fromEnv({ VITE_CONVERTER_URL: baseUrl, VITE_CONVERTER_HEALTH_PATH: 'none' })!;
+    DirectWordToPDFConverter.registerBackend(backend);
+
+    const methods = await DirectWordToPDFConverter.getSupportedMethods();
+    expect(backend.kind).toBe('server_api');
+    expect(methods.find(method => method.method === 'server_api')!.available).toBe(true);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should report failure when no backend is configured', async () => {
+    const result = await DirectWordToPDFConverter.convertWordToPDF(createDocx(), { methodOrder: ['server_api', 'webassembly'] });
+
+    expect(result.success).toBe(false);
+    expect(result.warnings).toEqual(['服务器端转换API需要配置', 'WebAssembly转换器未配置']);
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Word原生水印测试 - 单元测试
+ * 覆盖：新建页眉、已有页眉、首页/奇偶页页眉、多节继承、重复处理、图片水印
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { DocxWatermark, type DocxWatermarkContent } from '../DocxWatermark';
+import type { OoxmlImage } from '../OoxmlPackage';
+
+// 1x1 PNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
+const image: OoxmlImage = {
+  bytes: Uint8Array.from(atob(PNG_BASE64), c => c.charCodeAt(0)),
+  format: 'png',
+  width: 200,
+  height: 100
+};
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PKG_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const VML_NS = 'urn:schemas-microsoft-com:vml';
+
+const text: DocxWatermarkContent = {
+  text: { content: '机密 & Draft', color: '#ff0000', width: 400, height: 80 }
+};
+
+interface DocumentOptions {
+  sections: string[];
+  documentRels?: string;
+  extraFiles?: Record<string, string>;
+}
+
+const createDocument = async ({ sections, documentRels = '', extraFiles = {} }: DocumentOptions): Promise<Uint8Array> => {
+  const zip = new JSZip();
+  const [last, ...rest] = [...sections].reverse();
+  const paragraphs = rest.reverse().map(sectPr => `<w:p><w:pPr>${sectPr}</w:pPr><w:r><w:t>节</w:t></w:r></w:p>`).join('');
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/></Types>`);
+  zip.file('_rels/.rels', `<Relationships xmlns="${PKG_NS}"><Relationship Id="rId1" Type="${R_NS}/officeDocument" Target="word/document.xml"/></Relationships>`);
+  zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}"><w:body>${paragraphs}<w:p><w:r><w:t>正文内容</w:t></w:r></w:p>${last}</w:body></w:document>`);
+  zip.file('word/_rels/document.xml.rels', `<Relationships xmlns="${PKG_NS}">${documentRels}</Relationships>`);
+  Object.entries(extraFiles).forEach(([path, content]) => zip.file(path, content));
+  return zip.generateAsync({ type: 'uint8array' });
+};
+
+const readXml = async (zip: JSZip, path: string) =>
+  new DOMParser().parseFromString(await zip.file(path)!.async('string'), 'application/xml');
+
+const headerReferences = (doc: Document) =>
+  Array.from(doc.getElementsByTagNameNS(W_NS, 'headerReference'))
+    .map(ref => [ref.getAttributeNS(W_NS, 'type'), ref.getAttributeNS(R_NS, 'id')]);
+
+describe('DocxWatermark', () => {
+  it('should create a default header holding the watermark when the document has none', async () => {
+    const source = await createDocument({ sections: ['<w:sectPr><w:pgSz w:w="11906" w:h="16838"/></w:sectPr>'] });
+    const result = await DocxWatermark.apply(source, text, { opacity: 0.4, rotation: -45 });
+    const zip = await JSZip.loadAsync(result.bytes);
+
+    expect(result.sectionCount).toBe(1);
+    expect(result.createdHeaders).toEqual(['word/header1.xml']);
+
+    const document = await readXml(zip, 'word/document.xml');
+    const [[type, relId]] = headerReferences(document);
+    expect(type).toBe('default');
+    expect(document.getElementsByTagNameNS(W_NS, 'sectPr')[0].firstElementChild?.localName).toBe('headerReference');
+    // 正文中不再插入可见的水印段落
+    expect(document.getElementsByTagNameNS(W_NS, 'p')).toHaveLength(1);
+
+    const rels = await zip.file('word/_rels/document.xml.rels')!.async('string');
+    expect(rels).toContain(`Id="${relId}"`);
+    expect(rels).toContain('Target="header1.xml"');
+    expect(await zip.file('[Content_Types].xml')!.async('string')).toContain('PartName="/word/header1.xml"');
+
+    const header = await readXml(zip, 'word/header1.xml');
+    const shape = header.getElementsByTagNameNS(VML_NS, 'shape')[0];
+    expect(shape.getAttribute('id')).toMatch(/^PowerPlusWaterMarkObject/);
+    expect(shape.getAttribute('style')).toContain('rotation:315');
+    expect(shape.getAttribute('fillcolor')).toBe('#ff0000');
+    expect(shape.getElementsByTagNameNS(VML_NS, 'textpath')[0].getAttribute('string')).toBe('机密 & Draft');
+    expect(header.getElementsByTagNameNS(VML_NS, 'fill')[0].getAttribute('opacity')).toBe('0.4');
+  });
+
+  it('should watermark existing headers and add first and even page headers', async () => {
+    const source = await createDocument({
+      sections: ['<w:sectPr><w:headerReference w:type="default" r:id="rId7"/><w:titlePg/></w:sectPr>'],
+      documentRels: `<Relationship Id="rId7" Type="${R_NS}/header" Target="header1.xml"/><Relationship Id="rId8" Type="${R_NS}/settings" Target="settings.xml"/>`,
+      extraFiles: {
+        'word/header1.xml': `<w:hdr xmlns:w="${W_NS}"><w:p><w:r><w:t>公司页眉</w:t></w:r></w:p></w:hdr>`,
+        'word/settings.xml': `<w:settings xmlns:w="${W_NS}"><w:evenAndOddHeaders/></w:settings>`
+      }
+    });
+    const result = await DocxWatermark.apply(source, text, { opacity: 0.5 });
+    const zip = await JSZip.loadAsync(result.bytes);
+
+    expect(result.headerParts).toEqual(['word/header1.xml', 'word/header2.xml', 'word/header3.xml']);
+    expect(result.createdHeaders).toEqual(['word/header2.xml', 'word/header3.xml']);
+
+    const document = await readXml(zip, 'word/document.xml');
+    expect(headerReferences(document).map(([type]) => type).sort()).toEqual(['default', 'even', 'first']);
+
+    const header = await readXml(zip, 'word/header1.xml');
+    expect(header.documentElement.textContent).toContain('公司页眉');
+    expect(header.getElementsByTagNameNS(VML_NS, 'shape')).toHaveLength(1);
+  });
+
+  it('should let later sections inherit headers created for the first section', async () => {
+    const source = await createDocument({ sections: ['<w:sectPr/>', '<w:sectPr><w:type w:val="nextPage"/></w:sectPr>'] });
+    const result = await DocxWatermark.apply(source, text, { opacity: 0.3 });
+    const zip = await JSZip.loadAsync(result.bytes);
+
+    expect(result.sectionCount).toBe(2);
+    expect(result.createdHeaders).toEqual(['word/header1.xml']);
+
+    const sections = (await readXml(zip, 'word/document.xml')).getElementsByTagNameNS(W_NS, 'sectPr');
+    expect(sections[0].getElementsByTagNameNS(W_NS, 'headerReference')).toHaveLength(1);
+    expect(sections[1].getElementsByTagNameNS(W_NS, 'headerReference')).toHaveLength(0);
+  });
+
+  it('should replace an existing watermark when applied again', async () => {
+    const source = await createDocument({ sections: ['<w:sectPr/>'] });
+    const first = await DocxWatermark.apply(source, text, { opacity: 0.3 });
+    const second = await DocxWatermark.apply(first.bytes, {
+      text: { ...text.text!, content: '第二次' }
+    }, { opacity: 0.3 });
+    const zip = await JSZip.loadAsync(second.bytes);
+
+    expect(second.createdHeaders).toEqual([]);
+    const header = await readXml(zip, 'word/header1.xml');
+    const shapes = header.getElementsByTagNameNS(VML_NS, 'shape');
+    expect(shapes).toHaveLength(1);
+    expect(shapes[0].getElementsByTagNameNS(VML_NS, 'textpath')[0].getAttribute('string')).toBe('第二次');
+    expect(header.getElementsByTagNameNS(W_NS, 'p')).toHaveLength(2);
+  });
+
+  it('should embed a washed-out picture watermark in the header', async () => {
+    const source = await createDocument({ sections: ['<w:sectPr/>'] });
+    const result = await DocxWatermark.apply(source, { image }, { opacity: 1, washout: true, horizontal: 'right', vertical: 'bottom' });
+    const zip = await JSZip.loadAsync(result.bytes);
+
+    const header = await readXml(zip, 'word/header1.xml');
+    const shape = header.getElementsByTagNameNS(VML_NS, 'shape')[0];
+    expect(shape.getAttribute('id')).toMatch(/^WordPictureWatermark/);
+    expect(shape.getAttribute('style')).toContain('mso-position-horizontal:right');
+    expect(shape.getAttribute('style')).toContain('mso-position-vertical:bottom');
+
+    const imageData = header.getElementsByTagNameNS(VML_NS, 'imagedata')[0];
+    const relId = imageData.getAttributeNS(R_NS, 'id');
+    const rels = await zip.file('word/_rels/header1.xml.rels')!.async('string');
+    expect(rels).toContain(`Id="${relId}"`);
+    expect(rels).toContain('Target="media/watermark.png"');
+    expect(zip.file('word/media/watermark.png')).not.toBeNull();
+    expect(await zip.file('[Content_Types].xml')!.async('string')).toContain('Extension="png"');
+  });
+});
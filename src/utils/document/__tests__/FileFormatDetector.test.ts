@@ -296,6 +296,23 @@ describe('FileFormatDetector - 文件格式检测测试', () => {
       expect(modernResult.compatibilityLevel).toBe('high');
       expect(oldResult.compatibilityLevel).toBe('medium');
     });
+
+    it('DOC-020: TIFF格式识别', () => {
+      const header = (signature: number[]) => {
+        const bytes = new Uint8Array(16);
+        bytes.set(signature);
+        return bytes.buffer;
+      };
+
+      const littleResult = FileFormatDetector.detectFileFormat(header([0x49, 0x49, 0x2A, 0x00]), 'scan.tif', 'image/tiff');
+      const bigResult = FileFormatDetector.detectFileFormat(header([0x4D, 0x4D, 0x00, 0x2A]), 'scan.tif', 'image/tiff');
+
+      expect(littleResult.detectedFormat).toBe('tiff');
+      expect(bigResult.detectedFormat).toBe('tiff');
+      expect(bigResult.extensionMatch).toBe(true);
+      expect(littleResult.supportedOperations).toContain('convert_to_pdf');
+      expect(FileFormatDetector.isImageFormat('tiff')).toBe(true);
+    });
   });
 
   describe('性能和边界测试', () => {
@@ -0,0 +1,142 @@
+/**
+ * PowerPoint原生水印测试 - 单元测试
+ * 覆盖：逐页文字水印、母版/版式图片水印、隐藏母版形状的幻灯片、颜色规范化、布局计算、动画与备注保留
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { PptxWatermark, type PptxWatermarkLayout } from '../PptxWatermark';
+import type { OoxmlImage } from '../OoxmlPackage';
+
+// 1x1 PNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
+const image: OoxmlImage = {
+  bytes: Uint8Array.from(atob(PNG_BASE64), c => c.charCodeAt(0)),
+  format: 'png',
+  width: 100,
+  height: 50
+};
+
+const P_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PKG_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+const TIMING = '<p:timing><p:tnLst><p:par><p:cTn id="1" dur="indefinite" nodeType="tmRoot"/></p:par></p:tnLst></p:timing>';
+
+const slideXml = (title: string) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<p:sld xmlns:a="${A_NS}" xmlns:r="${R_NS}" xmlns:p="${P_NS}"><p:cSld><p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/><p:sp><p:nvSpPr><p:cNvPr id="4" name="Title"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr><p:spPr/><p:txBody><a:bodyPr/><a:p><a:r><a:t>${title}</a:t></a:r></a:p></p:txBody></p:sp></p:spTree></p:cSld>${TIMING}</p:sld>`;
+
+const createPresentation = async (): Promise<Uint8Array> => {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/></Types>`);
+  zip.file('_rels/.rels', `<Relationships xmlns="${PKG_NS}"><Relationship Id="rId1" Type="${R_NS}/officeDocument" Target="ppt/presentation.xml"/></Relationships>`);
+  zip.file('ppt/presentation.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<p:presentation xmlns:a="${A_NS}" xmlns:r="${R_NS}" xmlns:p="${P_NS}"><p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst><p:sldIdLst><p:sldId id="257" r:id="rId3"/><p:sldId id="256" r:id="rId2"/></p:sldIdLst><p:sldSz cx="9144000" cy="6858000"/></p:presentation>`);
+  zip.file('ppt/_rels/presentation.xml.rels', `<Relationships xmlns="${PKG_NS}"><Relationship Id="rId1" Type="${R_NS}/slideMaster" Target="slideMasters/slideMaster1.xml"/><Relationship Id="rId2" Type="${R_NS}/slide" Target="slides/slide1.xml"/><Relationship Id="rId3" Type="${R_NS}/slide" Target="slides/slide2.xml"/></Relationships>`);
+  zip.file('ppt/slides/slide1.xml', slideXml('第一页'));
+  zip.file('ppt/slides/slide2.xml', slideXml('Second'));
+  zip.file('ppt/slides/_rels/slide1.xml.rels', `<Relationships xmlns="${PKG_NS}"><Relationship Id="rId2" Type="${R_NS}/notesSlide" Target="../notesSlides/notesSlide1.xml"/></Relationships>`);
+  zip.file('ppt/notesSlides/notesSlide1.xml', '<p:notes xmlns:p="' + P_NS + '"/>');
+  zip.file('ppt/slideMasters/slideMaster1.xml', slideXml('Master').replace(/p:sld /, 'p:sldMaster ').replace('</p:sld>', '</p:sldMaster>'));
+  zip.file('ppt/slideMasters/_rels/slideMaster1.xml.rels', `<Relationships xmlns="${PKG_NS}"><Relationship Id="rId1" Type="${R_NS}/slideLayout" Target="../slideLayouts/slideLayout1.xml"/><Relationship Id="rId2" Type="${R_NS}/slideLayout" Target="../slideLayouts/slideLayout2.xml"/></Relationships>`);
+  zip.file('ppt/slideLayouts/slideLayout1.xml', `<p:sldLayout xmlns:p="${P_NS}" xmlns:a="${A_NS}"><p:cSld><p:spTree/></p:cSld></p:sldLayout>`);
+  zip.file('ppt/slideLayouts/slideLayout2.xml', `<p:sldLayout xmlns:p="${P_NS}" xmlns:a="${A_NS}" showMasterSp="0"><p:cSld><p:spTree/></p:cSld></p:sldLayout>`);
+  return zip.generateAsync({ type: 'uint8array' });
+};
+
+const readXml = async (zip: JSZip, path: string) =>
+  new DOMParser().parseFromString(await zip.file(path)!.async('string'), 'application/xml');
+
+const layout: PptxWatermarkLayout = { placement: 'center', opacity: 0.3, rotation: -45 };
+
+describe('PptxWatermark', () => {
+  it('should add a locked text watermark to every slide', async () => {
+    const result = await PptxWatermark.apply(await createPresentation(), {
+      text: { content: '机密 <Draft>', fontSize: 40, color: '#ff0000' }
+    }, { target: 'slides', layout });
+    const zip = await JSZip.loadAsync(result.bytes);
+
+    expect(result.watermarkedParts).toEqual(['ppt/slides/slide2.xml', 'ppt/slides/slide1.xml']);
+    expect(result.shapeCount).toBe(2);
+
+    const slide = await readXml(zip, 'ppt/slides/slide1.xml');
+    const shapes = slide.getElementsByTagNameNS(P_NS, 'sp');
+    const watermark = shapes[shapes.length - 1];
+
+    expect(watermark.getElementsByTagNameNS(P_NS, 'cNvPr')[0].getAttribute('id')).toBe('5');
+    expect(watermark.getElementsByTagNameNS(A_NS, 'spLocks')[0].getAttribute('noSelect')).toBe('1');
+    expect(watermark.getElementsByTagNameNS(A_NS, 't')[0].textContent).toBe('机密 <Draft>');
+    expect(watermark.getElementsByTagNameNS(A_NS, 'alpha')[0].getAttribute('val')).toBe('30000');
+    expect(watermark.getElementsByTagNameNS(A_NS, 'xfrm')[0].getAttribute('rot')).toBe(String(315 * 60000));
+
+    // 动画和备注保持不变
+    expect(slide.getElementsByTagNameNS(P_NS, 'timing')).toHaveLength(1);
+    expect(await zip.file('ppt/slides/_rels/slide1.xml.rels')!.async('string')).toContain('notesSlide1.xml');
+    expect(zip.file('ppt/notesSlides/notesSlide1.xml')).not.toBeNull();
+  });
+
+  it('should place a picture on the master and layouts that hide master shapes', async () => {
+    const result = await PptxWatermark.apply(await createPresentation(), { image }, { target: 'master', layout });
+    const zip = await JSZip.loadAsync(result.bytes);
+
+    expect(result.watermarkedParts).toEqual(['ppt/slideMasters/slideMaster1.xml', 'ppt/slideLayouts/slideLayout2.xml']);
+
+    const master = await readXml(zip, 'ppt/slideMasters/slideMaster1.xml');
+    const blip = master.getElementsByTagNameNS(A_NS, 'blip')[0];
+    const relId = blip.getAttributeNS(R_NS, 'embed');
+    const rels = await zip.file('ppt/slideMasters/_rels/slideMaster1.xml.rels')!.async('string');
+    expect(rels).toContain(`Id="${relId}"`);
+    expect(rels).toContain('Target="../media/watermark.png"');
+    expect(blip.getElementsByTagNameNS(A_NS, 'alphaModFix')[0].getAttribute('amt')).toBe('30000');
+
+    const slide = await readXml(zip, 'ppt/slides/slide1.xml');
+    expect(slide.getElementsByTagNameNS(P_NS, 'pic')).toHaveLength(0);
+    expect(await zip.file('[Content_Types].xml')!.async('string')).toContain('Extension="png"');
+  });
+
+  it('should also mark slides that hide master shapes in master mode', async () => {
+    const source = await JSZip.loadAsync(await createPresentation());
+    source.file('ppt/slides/slide2.xml', slideXml('Cover').replace('<p:sld ', '<p:sld showMasterSp="0" '));
+
+    const result = await PptxWatermark.apply(await source.generateAsync({ type: 'uint8array' }), { image }, { target: 'master', layout });
+    const zip = await JSZip.loadAsync(result.bytes);
+
+    expect(result.watermarkedParts).toEqual([
+      'ppt/slideMasters/slideMaster1.xml',
+      'ppt/slideLayouts/slideLayout2.xml',
+      'ppt/slides/slide2.xml'
+    ]);
+    expect((await readXml(zip, 'ppt/slides/slide2.xml')).getElementsByTagNameNS(P_NS, 'pic')).toHaveLength(1);
+    expect((await readXml(zip, 'ppt/slides/slide1.xml')).getElementsByTagNameNS(P_NS, 'pic')).toHaveLength(0);
+  });
+
+  it('should normalize CSS colors to six-digit hex', () => {
+    expect(PptxWatermark.toHexColor('#ff0000')).toBe('FF0000');
+    expect(PptxWatermark.toHexColor('#f80')).toBe('FF8800');
+    expect(PptxWatermark.toHexColor('#11223380')).toBe('112233');
+    expect(PptxWatermark.toHexColor('rgb(255, 128, 0)')).toBe('FF8000');
+    expect(PptxWatermark.toHexColor('rgba(0,0,255,0.5)')).toBe('0000FF');
+    expect(PptxWatermark.toHexColor('not-a-color')).toBe('000000');
+  });
+
+  it('should compute corner and tiled layouts within the slide', () => {
+    const slide = { cx: 9144000, cy: 6858000 };
+    const shape = { cx: 1270000, cy: 635000 };
+
+    const [corner] = PptxWatermark.calculateRects(slide, shape, {
+      placement: 'corner', corner: 'bottom-right', opacity: 1, margin: { top: 0, right: 10, bottom: 10, left: 0 }
+    });
+    expect(corner).toEqual({ x: 9144000 - 1270000 - 127000, y: 6858000 - 635000 - 127000, cx: 1270000, cy: 635000 });
+
+    const tiles = PptxWatermark.calculateRects(slide, shape, {
+      placement: 'pattern', opacity: 1, pattern: { spacing: { x: 50, y: 50 }, columns: 3, rows: 2 }
+    });
+    expect(tiles).toHaveLength(6);
+    tiles.forEach(rect => {
+      expect(rect.x).toBeGreaterThanOrEqual(0);
+      expect(rect.x + rect.cx).toBeLessThanOrEqual(slide.cx);
+    });
+  });
+});
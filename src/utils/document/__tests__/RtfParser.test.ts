@@ -0,0 +1,59 @@
+/**
+ * RTF解析器测试 - 单元测试
+ * 覆盖：GBK代码页、Unicode替代字符、字符格式与颜色表、段落对齐、跳过的目标组、域结果、表格与分页
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RtfParser } from '../RtfParser';
+import { LegacyWordExtractor } from '../LegacyWordExtractor';
+
+const toBytes = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+const SAMPLE = [
+  '{\\rtf1\\ansi\\ansicpg936\\deff0',
+  '{\\fonttbl{\\f0\\fnil\\fcharset134 \\\'cb\\\'ce\\\'cc\\\'e5;}{\\f1\\fswiss\\fcharset0 Arial;}}',
+  '{\\colortbl;\\red255\\green0\\blue0;}',
+  '{\\stylesheet{\\s0 Normal;}}',
+  '{\\info{\\title Secret}}',
+  '{\\header Page header\\par}',
+  '\\pard\\qc\\b\\fs36 \\\'d6\\\'d0\\\'ce\\\'c4\\\'b1\\\'ea\\\'cc\\\'e2\\b0\\par',
+  '\\pard\\f1\\fs24 Plain {\\i italic} {\\cf1 red}\\line next \\u8364?5\\par',
+  '{\\field{\\*\\fldinst HYPERLINK "http://example.com"}{\\fldrslt Link}}\\par',
+  '{\\*\\unknowndestination ignored}',
+  '\\trowd A\\cell B\\cell\\row',
+  '\\page\\qr Right {\\pict\\pngblip 89504e47}end\\par',
+  '}'
+].join('\n');
+
+describe('RtfParser', () => {
+  it('should detect RTF signatures', () => {
+    expect(RtfParser.isRtf(toBytes('{\\rtf1 x}'))).toBe(true);
+    expect(RtfParser.isRtf(toBytes('PK\u0003\u0004'))).toBe(false);
+    expect(LegacyWordExtractor.detectFormat(toBytes(SAMPLE))).toBe('rtf');
+  });
+
+  it('should extract paragraphs with formatting and code page text', () => {
+    const paragraphs = RtfParser.parse(toBytes(SAMPLE));
+    const texts = paragraphs.map(paragraph => paragraph.runs.map(run => run.text).join(''));
+
+    expect(texts).toEqual(['中文标题', 'Plain italic red\nnext €5', 'Link', 'A\tB', 'Right end']);
+
+    expect(paragraphs[0]).toEqual({
+      alignment: 'center',
+      runs: [{ text: '中文标题', bold: true, fontSize: 18 }]
+    });
+    expect(paragraphs[1].alignment).toBe('left');
+    expect(paragraphs[1].runs).toEqual([
+      { text: 'Plain ', fontSize: 12 },
+      { text: 'italic', italic: true, fontSize: 12 },
+      { text: ' ', fontSize: 12 },
+      { text: 'red', color: '#ff0000', fontSize: 12 },
+      { text: '\nnext €5', fontSize: 12 }
+    ]);
+    expect(paragraphs[4]).toMatchObject({ alignment: 'right', pageBreakBefore: true });
+  });
+
+  it('should reject input that is not RTF', () => {
+    expect(() => RtfParser.parse('plain text')).toThrow('不是有效的RTF文档');
+  });
+});
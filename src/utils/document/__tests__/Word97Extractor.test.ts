@@ -0,0 +1,265 @@
+/**
+ * Word 97-2003文档提取测试 - 单元测试
+ * 覆盖：OLE2扇区/MiniFAT读取、分段表(压缩与Unicode分段)、字符与段落格式、域代码、表格、分页、加密检测
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CompoundFile } from '../CompoundFile';
+import { LegacyWordExtractor } from '../LegacyWordExtractor';
+
+const SECTOR_SIZE = 512;
+const END_OF_CHAIN = 0xFFFFFFFE;
+const FREE_SECTOR = 0xFFFFFFFF;
+const NO_STREAM = 0xFFFFFFFF;
+
+/**
+ * 构造版本3的OLE2复合文档：小于4096字节的数据流放入Mini Stream
+ */
+const buildCompoundFile = (streams: Array<{ name: string; data: Uint8Array }>): Uint8Array => {
+  const sectorsFor = (size: number, unit: number) => Math.ceil(size / unit);
+  const small = streams.filter(stream => stream.data.length < 4096);
+
+  // 扇区布局：0=FAT，1=目录，2=MiniFAT，随后是Mini Stream容器和普通数据流
+  let miniOffset = 0;
+  const miniStarts = new Map<string, number>();
+  small.forEach(stream => {
+    miniStarts.set(stream.name, miniOffset);
+    miniOffset += sectorsFor(stream.data.length, 64);
+  });
+  const miniContainer = new Uint8Array(miniOffset * 64);
+  small.forEach(stream => miniContainer.set(stream.data, miniStarts.get(stream.name)! * 64));
+
+  const fat: number[] = [0xFFFFFFFD, END_OF_CHAIN, END_OF_CHAIN];
+  const chain = (count: number): number => {
+    const start = fat.length;
+    for (let i = 0; i < count; i++) fat.push(i === count - 1 ? END_OF_CHAIN : start + i + 1);
+    return start;
+  };
+  const containerStart = miniContainer.length > 0 ? chain(sectorsFor(miniContainer.length, SECTOR_SIZE)) : END_OF_CHAIN;
+  const bigStarts = new Map<string, number>();
+  streams.filter(stream => stream.data.length >= 4096)
+    .forEach(stream => bigStarts.set(stream.name, chain(sectorsFor(stream.data.length, SECTOR_SIZE))));
+
+  const file = new Uint8Array((fat.length + 1) * SECTOR_SIZE);
+  const view = new DataView(file.buffer);
+  file.set([0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1]);
+  view.setUint16(0x18, 0x3E, true);
+  view.setUint16(0x1A, 3, true);
+  view.setUint16(0x1C, 0xFFFE, true);
+  view.setUint16(0x1E, 9, true);
+  view.setUint16(0x20, 6, true);
+  view.setUint32(0x2C, 1, true);
+  view.setUint32(0x30, 1, true);
+  view.setUint32(0x38, 4096, true);
+  view.setUint32(0x3C, 2, true);
+  view.setUint32(0x40, 1, true);
+  view.setUint32(0x44, END_OF_CHAIN, true);
+  for (let i = 0; i < 109; i++) view.setUint32(0x4C + i * 4, i === 0 ? 0 : FREE_SECTOR, true);
+
+  const sectorOffset = (sector: number) => (sector + 1) * SECTOR_SIZE;
+  for (let i = 0; i < SECTOR_SIZE / 4; i++) {
+    view.setUint32(sectorOffset(0) + i * 4, i < fat.length ? fat[i] : FREE_SECTOR, true);
+  }
+
+  // MiniFAT
+  const miniFat: number[] = [];
+  small.forEach(stream => {
+    const start = miniStarts.get(stream.name)!;
+    const count = sectorsFor(stream.data.length, 64);
+    for (let i = 0; i < count; i++) miniFat.push(i === count - 1 ? END_OF_CHAIN : start + i + 1);
+  });
+  for (let i = 0; i < SECTOR_SIZE / 4; i++) {
+    view.setUint32(sectorOffset(2) + i * 4, i < miniFat.length ? miniFat[i] : FREE_SECTOR, true);
+  }
+
+  if (containerStart !== END_OF_CHAIN) file.set(miniContainer, sectorOffset(containerStart));
+  streams.forEach(stream => {
+    if (bigStarts.has(stream.name)) file.set(stream.data, sectorOffset(bigStarts.get(stream.name)!));
+  });
+
+  // 目录：根节点的子树为右链
+  const writeEntry = (index: number, name: string, type: number, start: number, size: number, right: number, child: number) => {
+    const offset = sectorOffset(1) + index * 128;
+    for (let i = 0; i < name.length; i++) view.setUint16(offset + i * 2, name.charCodeAt(i), true);
+    view.setUint16(offset + 64, (name.length + 1) * 2, true);
+    view.setUint8(offset + 66, type);
+    view.setUint8(offset + 67, 1);
+    view.setUint32(offset + 68, NO_STREAM, true);
+    view.setUint32(offset + 72, right, true);
+    view.setUint32(offset + 76, child, true);
+    view.setUint32(offset + 116, start, true);
+    view.setUint32(offset + 120, size, true);
+  };
+  writeEntry(0, 'Root Entry', 5, containerStart, miniContainer.length, NO_STREAM, streams.length > 0 ? 1 : NO_STREAM);
+  streams.forEach((stream, index) => {
+    const start = bigStarts.get(stream.name) ?? miniStarts.get(stream.name)!;
+    writeEntry(index + 1, stream.name, 2, start, stream.data.length, index + 1 < streams.length ? index + 2 : NO_STREAM, NO_STREAM);
+  });
+
+  return file;
+};
+
+interface FormatRun {
+  start: number;
+  end: number;
+  grpprl: number[];
+}
+
+/**
+ * 构造字符(CHPX)或段落(PAPX) FKP页
+ */
+const buildFkp = (runs: FormatRun[], paragraph: boolean): Uint8Array => {
+  const page = new Uint8Array(512);
+  const view = new DataView(page.buffer);
+  runs.forEach((run, index) => view.setUint32(index * 4, run.start, true));
+  view.setUint32(runs.length * 4, runs[runs.length - 1].end, true);
+
+  let dataOffset = 510;
+  runs.forEach((run, index) => {
+    if (run.grpprl.length === 0) return;
+    let bytes: number[];
+    if (paragraph) {
+      // istd(2字节) + grpprl，长度为奇数时用cb形式，偶数时用cb=0加cb'
+      const content = [0, 0, ...run.grpprl];
+      bytes = content.length % 2 === 1 ? [(content.length + 1) / 2, ...content] : [0, content.length / 2, ...content];
+    } else {
+      bytes = [run.grpprl.length, ...run.grpprl];
+    }
+    dataOffset = (dataOffset - bytes.length) & ~1;
+    page.set(bytes, dataOffset);
+    page[(runs.length + 1) * 4 + index * (paragraph ? 13 : 1)] = dataOffset / 2;
+  });
+  page[511] = runs.length;
+  return page;
+};
+
+const TEXT_FC = 1024;
+const UNICODE_FC = 1536;
+const CHPX_PAGE = 4;
+const PAPX_PAGE = 5;
+
+const MAIN_TEXT = 'Report\rPlain Bold\r\x13 HYPERLINK "http://example.com" \x14Link\x15 text\rA\x07B\x07\x07\x0cNext\x01\r';
+const UNICODE_TEXT = '中文段落\r';
+
+const buildWordDocument = (flags = 0x0200): Uint8Array => {
+  const wordDocument = new Uint8Array(4096);
+  const fib = new DataView(wordDocument.buffer);
+  fib.setUint16(0, 0xA5EC, true);
+  fib.setUint16(2, 0xC1, true);
+  fib.setUint16(0x0A, flags, true);
+  fib.setUint16(32, 14, true);
+  fib.setUint16(62, 22, true);
+  fib.setUint32(76, MAIN_TEXT.length + UNICODE_TEXT.length, true);
+  fib.setUint16(152, 93, true);
+
+  for (let i = 0; i < MAIN_TEXT.length; i++) wordDocument[TEXT_FC + i] = MAIN_TEXT.charCodeAt(i);
+  for (let i = 0; i < UNICODE_TEXT.length; i++) fib.setUint16(UNICODE_FC + i * 2, UNICODE_TEXT.charCodeAt(i), true);
+
+  const fcOf = (text: string) => TEXT_FC + MAIN_TEXT.indexOf(text);
+  const textEnd = UNICODE_FC + UNICODE_TEXT.length * 2;
+
+  wordDocument.set(buildFkp([
+    // 标题：加粗、16pt
+    { start: TEXT_FC, end: fcOf('Plain'), grpprl: [0x35, 0x08, 0x01, 0x43, 0x4A, 0x20, 0x00] },
+    { start: fcOf('Plain'), end: fcOf('Bold'), grpprl: [] },
+    // 斜体、红色(COLORREF)
+    { start: fcOf('Bold'), end: fcOf('Bold') + 4, grpprl: [0x36, 0x08, 0x01, 0x70, 0x68, 0xFF, 0x00, 0x00, 0x00] },
+    { start: fcOf('Bold') + 4, end: UNICODE_FC, grpprl: [] },
+    { start: UNICODE_FC, end: textEnd, grpprl: [0x43, 0x4A, 0x1C, 0x00] }
+  ], false), CHPX_PAGE * 512);
+
+  const rowEnd = fcOf('\x07\x0c');
+  wordDocument.set(buildFkp([
+    // 居中段落
+    { start: TEXT_FC, end: fcOf('Plain'), grpprl: [0x03, 0x24, 0x01] },
+    { start: fcOf('Plain'), end: rowEnd, grpprl: [] },
+    // 表格行结束标记
+    { start: rowEnd, end: rowEnd + 1, grpprl: [0x17, 0x24, 0x01] },
+    { start: rowEnd + 1, end: textEnd, grpprl: [] }
+  ], true), PAPX_PAGE * 512);
+
+  return wordDocument;
+};
+
+const buildTableStream = () => {
+  const table = new Uint8Array(256);
+  const view = new DataView(table.buffer);
+
+  // Clx：一个Prc后接Pcdt（两个分段），压缩分段的fc为字节偏移的2倍并置位0x40000000
+  table.set([0x01, 0x02, 0x00, 0x00, 0x00, 0x02], 0);
+  view.setUint32(6, 4 * 3 + 8 * 2, true);
+  const plc = 10;
+  view.setUint32(plc, 0, true);
+  view.setUint32(plc + 4, MAIN_TEXT.length, true);
+  view.setUint32(plc + 8, MAIN_TEXT.length + UNICODE_TEXT.length, true);
+  view.setUint32(plc + 12 + 2, (TEXT_FC * 2) | 0x40000000, true);
+  view.setUint32(plc + 20 + 2, UNICODE_FC, true);
+  const clxLength = plc + 28;
+
+  const writePlcBte = (at: number, page: number) => {
+    view.setUint32(at, TEXT_FC, true);
+    view.setUint32(at + 4, UNICODE_FC + UNICODE_TEXT.length * 2, true);
+    view.setUint32(at + 8, page, true);
+  };
+  const chpxOffset = clxLength;
+  writePlcBte(chpxOffset, CHPX_PAGE);
+  const papxOffset = chpxOffset + 12;
+  writePlcBte(papxOffset, PAPX_PAGE);
+
+  return { table, clxLength, chpxOffset, papxOffset };
+};
+
+const buildDocFile = (flags?: number): Uint8Array => {
+  const wordDocument = buildWordDocument(flags);
+  const { table, clxLength, chpxOffset, papxOffset } = buildTableStream();
+  const fib = new DataView(wordDocument.buffer);
+  const setFcLcb = (index: number, fc: number, lcb: number) => {
+    fib.setUint32(154 + index * 8, fc, true);
+    fib.setUint32(154 + index * 8 + 4, lcb, true);
+  };
+  setFcLcb(12, chpxOffset, 12);
+  setFcLcb(13, papxOffset, 12);
+  setFcLcb(33, 0, clxLength);
+
+  return buildCompoundFile([
+    { name: 'WordDocument', data: wordDocument },
+    { name: '1Table', data: table },
+    { name: '\u0005SummaryInformation', data: new Uint8Array(100) }
+  ]);
+};
+
+describe('CompoundFile', () => {
+  it('should read regular and mini streams', () => {
+    const file = CompoundFile.parse(buildDocFile());
+
+    expect(file.listEntries()).toEqual(['WordDocument', '1Table', '\u0005SummaryInformation']);
+    expect(file.getStream('WordDocument')).toHaveLength(4096);
+    expect(file.getStream('1table')![0]).toBe(0x01);
+    expect(file.getStream('Data')).toBeNull();
+    expect(() => CompoundFile.parse(new Uint8Array(1024))).toThrow('不是有效的OLE2复合文档');
+  });
+});
+
+describe('Word97Extractor', () => {
+  it('should extract paragraphs with character and paragraph formatting', () => {
+    const document = LegacyWordExtractor.extract(buildDocFile());
+
+    expect(document.format).toBe('doc');
+    expect(LegacyWordExtractor.toPlainText(document)).toBe('Report\nPlain Bold\nLink text\nA\tB\nNext\n中文段落');
+
+    const [title, body, link, row, next, chinese] = document.paragraphs;
+    expect(title).toEqual({ alignment: 'center', runs: [{ text: 'Report', bold: true, fontSize: 16 }] });
+    expect(body.runs).toEqual([
+      { text: 'Plain ' },
+      { text: 'Bold', italic: true, color: '#ff0000' }
+    ]);
+    expect(link.runs.map(run => run.text).join('')).toBe('Link text');
+    expect(row.runs[0].text).toBe('A\tB');
+    expect(next.pageBreakBefore).toBe(true);
+    expect(chinese.runs).toEqual([{ text: '中文段落', fontSize: 14 }]);
+  });
+
+  it('should reject encrypted documents', () => {
+    expect(() => LegacyWordExtractor.extract(buildDocFile(0x0300))).toThrow('文档已加密，无法提取内容');
+  });
+});
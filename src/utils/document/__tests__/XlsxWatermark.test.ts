@@ -0,0 +1,124 @@
+/**
+ * Excel原生水印测试 - 单元测试
+ * 覆盖：页眉图片(&G)、工作表背景及重复加水印、元素顺序、公式与样式保留、内容类型
+ */
+
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { XlsxWatermark } from '../XlsxWatermark';
+import { OoxmlPackage, type OoxmlImage } from '../OoxmlPackage';
+
+// 1x1 PNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
+const image: OoxmlImage = {
+  bytes: Uint8Array.from(atob(PNG_BASE64), c => c.charCodeAt(0)),
+  format: 'png',
+  width: 300,
+  height: 150
+};
+
+const SHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const createWorkbook = async (secondSheetHeaderFooter = ''): Promise<Uint8Array> => {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/></Types>`);
+  zip.file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`);
+  zip.file('xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="${SHEET_NS}" xmlns:r="${REL_NS}"><sheets><sheet name="收入" sheetId="1" r:id="rId1"/><sheet name="Summary" sheetId="2" r:id="rId2"/></sheets></workbook>`);
+  zip.file('xl/_rels/workbook.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="${REL_NS}/worksheet" Target="/xl/worksheets/sheet2.xml"/><Relationship Id="rId3" Type="${REL_NS}/styles" Target="styles.xml"/></Relationships>`);
+  zip.file('xl/styles.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="${SHEET_NS}"><numFmts count="1"><numFmt numFmtId="164" formatCode="0.00%"/></numFmts></styleSheet>`);
+  zip.file('xl/worksheets/sheet1.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="${SHEET_NS}" xmlns:r="${REL_NS}"><sheetData><row r="1"><c r="A1"><v>1</v></c><c r="B1" s="1"><f>SUM(A1:A3)</f><v>1</v></c></row></sheetData><pageMargins left="0.7" right="0.7" top="0.75" bottom="0.75" header="0.3" footer="0.3"/><tableParts count="0"/></worksheet>`);
+  zip.file('xl/worksheets/sheet2.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="${SHEET_NS}" xmlns:r="${REL_NS}"><sheetData/>${secondSheetHeaderFooter}</worksheet>`);
+  return zip.generateAsync({ type: 'uint8array' });
+};
+
+const readXml = async (zip: JSZip, path: string) =>
+  new DOMParser().parseFromString(await zip.file(path)!.async('string'), 'application/xml');
+
+const childNames = (doc: Document) => Array.from(doc.documentElement.children).map(child => child.localName);
+
+describe('XlsxWatermark', () => {
+  it('should add a header picture to every worksheet', async () => {
+    const result = await XlsxWatermark.apply(await createWorkbook(), image, { mode: 'header', slot: 'CH' });
+    const zip = await JSZip.loadAsync(result.bytes);
+
+    expect(result.watermarkedSheets).toEqual(['收入', 'Summary']);
+
+    const sheet = await readXml(zip, 'xl/worksheets/sheet1.xml');
+    expect(childNames(sheet)).toEqual(['sheetData', 'pageMargins', 'headerFooter', 'legacyDrawingHF', 'tableParts']);
+    expect(sheet.getElementsByTagNameNS(SHEET_NS, 'oddHeader')[0].textContent).toBe('&C&G');
+    expect(sheet.getElementsByTagNameNS(SHEET_NS, 'f')[0].textContent).toBe('SUM(A1:A3)');
+
+    // 关系与VML绘图
+    const relId = sheet.getElementsByTagNameNS(SHEET_NS, 'legacyDrawingHF')[0].getAttributeNS(REL_NS, 'id');
+    const rels = await zip.file('xl/worksheets/_rels/sheet1.xml.rels')!.async('string');
+    expect(rels).toContain(`Id="${relId}"`);
+    expect(rels).toContain('Target="../drawings/vmlDrawingHF1.vml"');
+
+    const vml = await zip.file('xl/drawings/vmlDrawingHF1.vml')!.async('string');
+    expect(vml).toContain('id="CH"');
+    expect(vml).toContain('width:300.0pt;height:150.0pt');
+    expect(await zip.file('xl/drawings/_rels/vmlDrawingHF1.vml.rels')!.async('string')).toContain('Target="../media/watermark.png"');
+    expect(zip.file('xl/drawings/vmlDrawingHF2.vml')).not.toBeNull();
+
+    const contentTypes = await zip.file('[Content_Types].xml')!.async('string');
+    expect(contentTypes).toContain('Extension="png"');
+    expect(contentTypes).toContain('Extension="vml"');
+    expect(await zip.file('xl/styles.xml')!.async('string')).toContain('formatCode="0.00%"');
+  });
+
+  it('should keep existing header text and add shapes for first and even pages', async () => {
+    const headerFooter = '<headerFooter differentFirst="1" differentOddEven="1"><oddHeader>&amp;L机密&amp;C季度报表</oddHeader></headerFooter>';
+    const result = await XlsxWatermark.apply(await createWorkbook(headerFooter), image, { mode: 'header', slot: 'CH' });
+    const zip = await JSZip.loadAsync(result.bytes);
+
+    const sheet = await readXml(zip, 'xl/worksheets/sheet2.xml');
+    const headers = Array.from(sheet.getElementsByTagNameNS(SHEET_NS, 'headerFooter')[0].children)
+      .map(child => [child.localName, child.textContent]);
+    expect(headers).toEqual([
+      ['oddHeader', '&L机密&C&G季度报表'],
+      ['evenHeader', '&C&G'],
+      ['firstHeader', '&C&G']
+    ]);
+
+    const vml = await zip.file('xl/drawings/vmlDrawingHF2.vml')!.async('string');
+    expect(vml).toContain('id="CHEVEN"');
+    expect(vml).toContain('id="CHFIRST"');
+  });
+
+  it('should set the watermark as the worksheet background', async () => {
+    const result = await XlsxWatermark.apply(await createWorkbook(), image, { mode: 'background' });
+    const zip = await JSZip.loadAsync(result.bytes);
+
+    const sheet = await readXml(zip, 'xl/worksheets/sheet1.xml');
+    expect(childNames(sheet)).toEqual(['sheetData', 'pageMargins', 'picture', 'tableParts']);
+    expect(await zip.file('xl/worksheets/_rels/sheet1.xml.rels')!.async('string')).toContain('Target="../media/watermark.png"');
+    expect(zip.file('xl/drawings/vmlDrawingHF1.vml')).toBeNull();
+  });
+
+  it('should drop the replaced background image when watermarking again', async () => {
+    const first = await XlsxWatermark.apply(await createWorkbook(), image, { mode: 'background' });
+    const second = await XlsxWatermark.apply(first.bytes, image, { mode: 'background' });
+    const zip = await JSZip.loadAsync(second.bytes);
+
+    expect(zip.file(/^xl\/media\//).map(file => file.name)).toEqual(['xl/media/watermark2.png']);
+    for (const sheet of ['sheet1', 'sheet2']) {
+      const rels = await zip.file(`xl/worksheets/_rels/${sheet}.xml.rels`)!.async('string');
+      expect(rels.match(/<Relationship /g)).toHaveLength(1);
+      expect(rels).toContain('Target="../media/watermark2.png"');
+    }
+  });
+
+  it('should map placement to header and footer slots', () => {
+    expect(XlsxWatermark.slotForPosition({ placement: 'center' })).toBe('CH');
+    expect(XlsxWatermark.slotForPosition({ placement: 'corner', corner: 'bottom-right' })).toBe('RF');
+    expect(OoxmlPackage.readImageSize(image.bytes)).toEqual({ width: 1, height: 1 });
+  });
+});
@@ -1,8 +1,28 @@
 /**
  * 下载助手工具
- * 提供文件下载功能
+ * 提供文件下载功能，批量结果打包为ZIP
  */
 
+import JSZip from 'jszip';
+import type { CertificateData } from '@/types/worker.types';
+import type { DistributionRecipient } from '@/types/distribution.types';
+
+export interface ZipDownloadEntry {
+  data: Blob | string; // Blob或dataUrl
+  filename: string;
+  directory?: string; // 相对目录，保留拖入文件夹的结构
+  originalName?: string;
+  certificate?: CertificateData;
+  recipient?: DistributionRecipient; // 分发模式下的收件人，写入清单
+}
+
+export interface ZipDownloadOptions {
+  zipName?: string;
+  includeManifest?: boolean; // 附带manifest.json（含每个文件的证书）
+  manifestFields?: Record<string, unknown>; // 清单顶层的附加字段
+  onProgress?: (percent: number, currentFile: string | null) => void;
+}
+
 /**
  * 下载单个文件
  */
@@ -71,11 +91,184 @@ export const generateWatermarkedFilename = (originalFilename: string, format?: s
 };
 
 /**
- * 批量下载文件（使用ZIP压缩）
- * 注意：这里使用简单的方式逐个下载，避免引入额外的ZIP库
+ * 下载Blob（通过临时对象URL）
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  downloadFile(url, filename);
+  // 延迟释放，确保浏览器已开始下载
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
+
+/**
+ * 计算ZIP内路径：保留目录结构，同目录下重名文件追加序号（不区分大小写）
+ */
+export const resolveZipPaths = (entries: Array<Pick<ZipDownloadEntry, 'filename' | 'directory'>>): string[] => {
+  const used = new Set<string>();
+
+  return entries.map(({ filename, directory }) => {
+    const folder = (directory || '').replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+    const prefix = folder ? `${folder}/` : '';
+    const lastDotIndex = filename.lastIndexOf('.');
+    const base = lastDotIndex > 0 ? filename.slice(0, lastDotIndex) : filename;
+    const extension = lastDotIndex > 0 ? filename.slice(lastDotIndex) : '';
+
+    let path = `${prefix}${filename}`;
+    for (let counter = 2; used.has(path.toLowerCase()); counter++) {
+      path = `${prefix}${base} (${counter})${extension}`;
+    }
+
+    used.add(path.toLowerCase());
+    return path;
+  });
+};
+
+/**
+ * 保存ZIP的可写目标（FileSystemWritableFileStream或同接口的实现）
+ */
+export interface ZipWritableTarget {
+  write(chunk: Uint8Array): Promise<void>;
+  close(): Promise<void>;
+  abort?(reason?: unknown): Promise<void>;
+}
+
+// File System Access API尚未进入TypeScript的DOM类型
+type SaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: Array<{ description?: string; accept: Record<string, string[]> }>;
+}) => Promise<FileSystemFileHandle>;
+
+const ZIP_COMPRESSION = { compression: 'DEFLATE', compressionOptions: { level: 6 }, streamFiles: true } as const;
+
+/**
+ * 写入文件和清单，返回尚未生成的ZIP对象
+ */
+const buildZip = (entries: ZipDownloadEntry[], options: ZipDownloadOptions): JSZip => {
+  const zip = new JSZip();
+  const paths = resolveZipPaths(entries);
+
+  entries.forEach((entry, index) => {
+    if (typeof entry.data === 'string') {
+      // dataUrl只取base64部分
+      const base64 = entry.data.slice(entry.data.indexOf(',') + 1);
+      zip.file(paths[index], base64, { base64: true });
+    } else {
+      zip.file(paths[index], entry.data);
+    }
+  });
+
+  if (options.includeManifest) {
+    const manifest = {
+      generatedAt: new Date().toISOString(),
+      ...options.manifestFields,
+      fileCount: entries.length,
+      files: entries.map((entry, index) => ({
+        path: paths[index],
+        originalName: entry.originalName,
+        ...(entry.recipient ? { recipient: entry.recipient } : {}),
+        certificate: entry.certificate
+      }))
+    };
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  }
+
+  return zip;
+};
+
+/**
+ * 在内存中生成完整的ZIP压缩包（不支持流式保存时的回退方案）
+ */
+export const createZipArchive = async (
+  entries: ZipDownloadEntry[],
+  options: ZipDownloadOptions = {}
+): Promise<Blob> => {
+  return buildZip(entries, options).generateAsync(
+    { type: 'blob', ...ZIP_COMPRESSION },
+    metadata => options.onProgress?.(metadata.percent, metadata.currentFile)
+  );
+};
+
+/**
+ * 流式生成ZIP并逐块写入目标，写入未完成时暂停生成，压缩包不会整体留在内存中
+ */
+export const writeZipArchive = (
+  entries: ZipDownloadEntry[],
+  target: ZipWritableTarget,
+  options: ZipDownloadOptions = {}
+): Promise<void> => {
+  const stream = buildZip(entries, options).generateInternalStream({ type: 'uint8array', ...ZIP_COMPRESSION });
+
+  return new Promise<void>((resolve, reject) => {
+    let pending = Promise.resolve();
+    let failed = false;
+
+    const fail = (error: unknown) => {
+      if (failed) return;
+      failed = true;
+      stream.pause();
+      Promise.resolve(target.abort?.(error)).catch(() => undefined).finally(() => reject(error));
+    };
+
+    stream
+      .on('data', (chunk, metadata) => {
+        options.onProgress?.(metadata.percent, metadata.currentFile);
+        stream.pause();
+        pending = pending
+          .then(() => target.write(chunk))
+          .then(() => { if (!failed) stream.resume(); }, fail);
+      })
+      .on('error', fail)
+      .on('end', () => {
+        pending
+          .then(() => failed ? undefined : target.close())
+          .then(() => resolve(), fail);
+      })
+      .resume();
+  });
+};
+
+/**
+ * 打包为ZIP并下载：支持File System Access API时流式写入用户选择的文件，否则在内存中生成后下载
+ */
+export const downloadAsZip = async (
+  entries: ZipDownloadEntry[],
+  options: ZipDownloadOptions = {}
+): Promise<void> => {
+  const zipName = options.zipName || `watermarked_${new Date().toISOString().slice(0, 10)}.zip`;
+  const showSaveFilePicker = (globalThis as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+
+  if (showSaveFilePicker) {
+    let handle: FileSystemFileHandle;
+    try {
+      handle = await showSaveFilePicker({
+        suggestedName: zipName,
+        types: [{ description: 'ZIP压缩包', accept: { 'application/zip': ['.zip'] } }]
+      });
+    } catch (error) {
+      // 用户取消保存
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      throw error;
+    }
+
+    const writable = await handle.createWritable();
+    await writeZipArchive(entries, {
+      write: chunk => writable.write(chunk as BufferSource),
+      close: () => writable.close(),
+      abort: reason => writable.abort(reason)
+    }, options);
+    return;
+  }
+
+  const zipBlob = await createZipArchive(entries, options);
+  downloadBlob(zipBlob, zipName);
+};
+
+/**
+ * 批量下载文件：单个文件直接下载，多个文件打包为ZIP
  */
 export const downloadMultipleFiles = async (
-  files: Array<{ dataUrl: string; filename: string }>
+  files: Array<{ dataUrl: string; filename: string }>,
+  options: ZipDownloadOptions = {}
 ): Promise<void> => {
   if (files.length === 0) {
     alert('没有可下载的文件');
@@ -88,15 +281,7 @@ export const downloadMultipleFiles = async (
     return;
   }
 
-  // 多个文件逐个下载（延迟500ms避免浏览器阻止）
-  for (let i = 0; i < files.length; i++) {
-    const file = files[i];
-    setTimeout(() => {
-      downloadFile(file.dataUrl, file.filename);
-    }, i * 500);
-  }
-  
-  alert(`正在下载 ${files.length} 个文件，请注意浏览器下载提示`);
+  await downloadAsZip(files.map(file => ({ data: file.dataUrl, filename: file.filename })), options);
 };
 
 /**
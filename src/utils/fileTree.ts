@@ -0,0 +1,60 @@
+/**
+ * 拖放文件树工具
+ * 读取拖入的文件夹并记录每个文件的相对目录，批量下载时按原目录结构打包
+ */
+
+// 拖放得到的File对象没有webkitRelativePath，单独记录
+const relativePaths = new WeakMap<File, string>();
+
+/**
+ * 获取文件所在的相对目录（不含文件名），根目录返回空字符串
+ */
+export const getRelativeDirectory = (file: File): string => {
+  const path = relativePaths.get(file) || file.webkitRelativePath || '';
+  const lastSlash = path.lastIndexOf('/');
+  return lastSlash > 0 ? path.slice(0, lastSlash) : '';
+};
+
+/**
+ * 读取拖放内容，展开其中的文件夹
+ */
+export const readDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items || [])
+    .map(item => (typeof item.webkitGetAsEntry === 'function' ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  // 浏览器不支持文件系统入口时退回普通文件列表
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    await collectEntry(entry, files);
+  }
+  return files;
+};
+
+const collectEntry = async (entry: FileSystemEntry, files: File[]): Promise<void> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => {
+      (entry as FileSystemFileEntry).file(resolve, reject);
+    });
+    // fullPath形如"/photos/2024/a.jpg"
+    relativePaths.set(file, entry.fullPath.replace(/^\//, ''));
+    files.push(file);
+    return;
+  }
+
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries每次只返回一批，需要读到空为止
+    let batch: FileSystemEntry[];
+    do {
+      batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      for (const child of batch) {
+        await collectEntry(child, files);
+      }
+    } while (batch.length > 0);
+  }
+};
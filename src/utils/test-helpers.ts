@@ -43,6 +43,14 @@ export const createMockCanvasContext = () => {
     arc: vi.fn(),
     moveTo: vi.fn(),
     lineTo: vi.fn(),
+    fillRect: vi.fn(),
+    putImageData: vi.fn(),
+    getImageData: vi.fn().mockImplementation((_x: number, _y: number, width: number, height: number) => ({
+      data: new Uint8ClampedArray(width * height * 4).fill(128),
+      width,
+      height
+    })),
+    measureText: vi.fn().mockImplementation((text: string) => ({ width: text.length * 12 })),
     // 属性
     globalAlpha: 1,
     font: '16px Arial',
@@ -54,6 +62,7 @@ export const createMockCanvasContext = () => {
     shadowOffsetX: 0,
     shadowOffsetY: 0,
     shadowBlur: 0,
+    globalCompositeOperation: 'source-over' as GlobalCompositeOperation,
   };
   
   return context as unknown as CanvasRenderingContext2D;
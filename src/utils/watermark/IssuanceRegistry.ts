@@ -0,0 +1,235 @@
+/**
+ * 签发登记 - 记录每份发出副本的证书与感知哈希，用于泄露溯源
+ * 泄露文件（截图、另存、转码后）按完整哈希、内嵌证书、PDF文字与感知哈希依次比对，给出候选副本排名
+ */
+
+import { HashGenerator } from '@/engines/crypto/HashGenerator';
+import { CertificateEmbedder } from '@/engines/crypto/CertificateEmbedder';
+import { PDFPageRenderer } from '@/engines/pdf/PDFPageRenderer';
+import { WatermarkVerifier } from './WatermarkVerifier';
+import { createRecordStorage, type RecordStorage } from './RecordStorage';
+import type {
+  AttributionCandidate,
+  AttributionReport,
+  DocumentFingerprint,
+  IssuanceDraft,
+  IssuanceRecord,
+  PageFingerprint
+} from '@/types/attribution.types';
+
+export type IssuanceStorage = RecordStorage<IssuanceRecord>;
+
+export interface FingerprintOptions {
+  includeText?: boolean;          // 同时提取PDF文字（仅匹配泄露文件时需要）
+}
+
+export type DocumentFingerprinter = (
+  file: Blob,
+  options?: FingerprintOptions
+) => Promise<DocumentFingerprint>;
+
+export interface IssuanceRegistryOptions {
+  storage?: IssuanceStorage;
+  fingerprinter?: DocumentFingerprinter;
+}
+
+export interface AttributionOptions {
+  limit?: number;
+  minScore?: number;
+}
+
+// PDF只渲染前几页，截图泄露通常只包含少数页面
+const PDF_FINGERPRINT_PAGES = 3;
+// 整体感知哈希只能判断是否同一文档，分块哈希能反映各副本水印文字的差异，权重更高
+const PERCEPTUAL_WEIGHT = 0.3;
+const BLOCK_WEIGHT = 0.7;
+// 感知相似只是旁证，满分低于哈希、证书、文字这些确定性依据
+const PERCEPTUAL_MAX_SCORE = 0.9;
+
+export class IssuanceRegistry {
+  private readonly storage: IssuanceStorage;
+  private readonly fingerprinter: DocumentFingerprinter;
+
+  constructor(options: IssuanceRegistryOptions = {}) {
+    this.storage = options.storage || createRecordStorage<IssuanceRecord>('watermark-issuance', 'copies', '签发登记');
+    this.fingerprinter = options.fingerprinter || createDocumentFingerprint;
+  }
+
+  /**
+   * 登记一份发出的副本
+   */
+  async register(file: Blob, draft: IssuanceDraft): Promise<IssuanceRecord> {
+    const fingerprint = await this.fingerprinter(file);
+    const record: IssuanceRecord = {
+      id: `copy-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      sourceFile: draft.sourceFile,
+      filename: draft.filename,
+      format: draft.format,
+      ...(draft.recipient ? { recipient: draft.recipient } : {}),
+      ...(draft.certificate ? { certificate: draft.certificate } : {}),
+      contentHash: fingerprint.contentHash,
+      pages: fingerprint.pages,
+      issuedAt: new Date().toISOString()
+    };
+
+    await this.storage.put(record);
+    return record;
+  }
+
+  /**
+   * 所有登记，最新的在前
+   */
+  async list(): Promise<IssuanceRecord[]> {
+    const records = await this.storage.getAll();
+    return records.sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.storage.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    const records = await this.storage.getAll();
+    await Promise.all(records.map(record => this.storage.delete(record.id)));
+  }
+
+  /**
+   * 反查泄露文件来自哪份副本，候选按得分从高到低排列
+   */
+  async match(file: File, options: AttributionOptions = {}): Promise<AttributionReport> {
+    const { limit = 10, minScore = 0.5 } = options;
+    const fingerprint = await this.fingerprinter(file, { includeText: true });
+    const records = await this.storage.getAll();
+
+    const candidates = records
+      .map(record => IssuanceRegistry.compare(fingerprint, record))
+      .filter(candidate => candidate.score >= minScore)
+      .sort((a, b) => b.score - a.score || b.record.issuedAt.localeCompare(a.record.issuedAt))
+      .slice(0, limit);
+
+    console.log(`🕵️ 泄露溯源完成: ${file.name}`, {
+      searched: records.length,
+      candidates: candidates.length,
+      best: candidates[0] && { id: candidates[0].record.id, score: candidates[0].score, method: candidates[0].method }
+    });
+
+    return {
+      fileName: file.name,
+      fingerprinted: fingerprint.pages.length > 0,
+      candidates,
+      searched: records.length
+    };
+  }
+
+  /**
+   * 比较泄露文件与一份登记的副本
+   */
+  static compare(
+    fingerprint: DocumentFingerprint,
+    record: IssuanceRecord
+  ): AttributionCandidate {
+    const similarity = this.comparePages(fingerprint.pages, record.pages);
+    const candidate: AttributionCandidate = { record, score: similarity.score * PERCEPTUAL_MAX_SCORE, method: 'perceptual' };
+    if (similarity.perceptual !== undefined) candidate.perceptualSimilarity = similarity.perceptual;
+    if (similarity.block !== undefined) candidate.blockSimilarity = similarity.block;
+
+    if (fingerprint.contentHash === record.contentHash) {
+      return { ...candidate, score: 1, method: 'exact' };
+    }
+    // 内容被修改但证书仍在，证书本身记录了收件人
+    if (fingerprint.certificateHash && fingerprint.certificateHash === record.certificate?.hash) {
+      return { ...candidate, score: 0.99, method: 'certificate' };
+    }
+    if (fingerprint.text && record.recipient && this.containsRecipient(fingerprint.text, record)) {
+      return { ...candidate, score: Math.max(0.95, candidate.score), method: 'text' };
+    }
+    return candidate;
+  }
+
+  private static comparePages(
+    leaked: PageFingerprint[],
+    issued: PageFingerprint[]
+  ): { score: number; perceptual?: number; block?: number } {
+    let best: { score: number; perceptual?: number; block?: number } = { score: 0 };
+
+    for (const page of leaked) {
+      for (const original of issued) {
+        if (page.perceptualHash.length !== original.perceptualHash.length) continue;
+
+        const perceptual = HashGenerator.calculateSimilarity(original.perceptualHash, page.perceptualHash);
+        const sameLayout = page.blockHashes.cols === original.blockHashes.cols &&
+          page.blockHashes.rows === original.blockHashes.rows;
+        const block = sameLayout
+          ? 1 - average(HashGenerator.compareBlockHashes(original.blockHashes, page.blockHashes).scores)
+          : undefined;
+        const score = block === undefined ? perceptual : PERCEPTUAL_WEIGHT * perceptual + BLOCK_WEIGHT * block;
+
+        if (score > best.score) {
+          best = { score, perceptual, block };
+        }
+      }
+    }
+
+    return best;
+  }
+
+  private static containsRecipient(text: string, record: IssuanceRecord): boolean {
+    const compact = (value: string) => value.replace(/\s+/g, '').toLowerCase();
+    const haystack = compact(text);
+    return !!record.recipient &&
+      haystack.includes(compact(record.recipient.id)) &&
+      haystack.includes(compact(record.recipient.name));
+  }
+}
+
+/**
+ * 计算文件指纹：去除证书后的内容哈希，以及图片/PDF页面的感知哈希
+ */
+export async function createDocumentFingerprint(
+  file: Blob,
+  options: FingerprintOptions = {}
+): Promise<DocumentFingerprint> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const extracted = await CertificateEmbedder.extractBytes(bytes);
+  const fingerprint: DocumentFingerprint = {
+    contentHash: toHex(await crypto.subtle.digest('SHA-256', extracted.content as BufferSource)),
+    pages: []
+  };
+  if (extracted.certificate) {
+    fingerprint.certificateHash = extracted.certificate.hash;
+  }
+
+  try {
+    if (extracted.format === 'pdf') {
+      const pages = await PDFPageRenderer.renderPages(bytes, { maxPages: PDF_FINGERPRINT_PAGES });
+      fingerprint.pages = await Promise.all(pages.map(page => fingerprintPage(page.imageData)));
+      if (options.includeText) {
+        fingerprint.text = await PDFPageRenderer.extractText(bytes, PDF_FINGERPRINT_PAGES);
+      }
+    } else {
+      const imageData = await WatermarkVerifier.decodeImage(file);
+      if (imageData) {
+        fingerprint.pages = [await fingerprintPage(imageData)];
+      }
+    }
+  } catch (error) {
+    console.warn('⚠️ 页面指纹计算失败，仅使用内容哈希:', error);
+  }
+
+  return fingerprint;
+}
+
+async function fingerprintPage(imageData: ImageData): Promise<PageFingerprint> {
+  return {
+    perceptualHash: await HashGenerator.perceptualHash(imageData),
+    blockHashes: HashGenerator.blockPerceptualHashes(imageData, WatermarkVerifier.BLOCK_GRID)
+  };
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
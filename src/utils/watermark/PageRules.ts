@@ -0,0 +1,244 @@
+/**
+ * 按页水印规则 - 页码范围解析、奇偶页/空白页筛选，以及按规则合并出每页的水印设置
+ * 页码范围写法："1-3,7"、"5-"、"-3"、"first"、"last"、"2-last"
+ */
+
+import type { PageSelection, PageWatermarkRule } from '@/types/watermark.types';
+
+// 规则合并只涉及这几个字段，WatermarkSettings与SimpleWatermarkSettings都满足
+export interface PageRuleTarget {
+  type: string;
+  text?: object & { font?: object };
+  position: object;
+  pages?: PageSelection;
+  pageRules?: PageWatermarkRule[];
+}
+
+// 会在页面上留下可见内容的绘制操作符
+const PAINT_OPERATORS = new Set(['Tj', 'TJ', "'", '"', 'Do', 'BI', 'sh', 'S', 's', 'f', 'F', 'f*', 'B', 'B*', 'b', 'b*']);
+const DELIMITERS = '()<>[]{}/%';
+
+export class PageRules {
+  /**
+   * 解析页码范围为页码集合，超出文档页数的部分忽略
+   */
+  static parseRanges(spec: string, pageCount: number): Set<number> {
+    const pages = new Set<number>();
+    for (const [start, end] of this.parseSegments(spec, pageCount)) {
+      for (let page = Math.max(1, start); page <= Math.min(pageCount, end); page++) {
+        pages.add(page);
+      }
+    }
+    return pages;
+  }
+
+  /**
+   * 校验页码范围写法，返回错误信息，合法时返回null
+   */
+  static validate(spec: string | undefined): string | null {
+    if (!spec?.trim()) return null;
+    try {
+      // 用足够大的页数校验写法本身，"last"按最后一页处理
+      this.parseSegments(spec, Number.MAX_SAFE_INTEGER);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : '无效的页码范围';
+    }
+  }
+
+  /**
+   * 判断页面是否被选中，未设置选择条件时选中全部页
+   */
+  static matches(
+    selection: PageSelection | undefined,
+    pageNumber: number,
+    pageCount: number,
+    isBlank: boolean = false
+  ): boolean {
+    if (!selection) return true;
+    if (selection.skipBlank && isBlank) return false;
+    if (selection.parity === 'odd' && pageNumber % 2 === 0) return false;
+    if (selection.parity === 'even' && pageNumber % 2 === 1) return false;
+    if (selection.pages?.trim()) {
+      return this.parseRanges(selection.pages, pageCount).has(pageNumber);
+    }
+    return true;
+  }
+
+  static hasRules(settings: PageRuleTarget): boolean {
+    const { pages } = settings;
+    return !!(pages && (pages.pages?.trim() || pages.parity || pages.skipBlank)) ||
+      (settings.pageRules?.length || 0) > 0;
+  }
+
+  /**
+   * 是否有规则需要识别空白页（识别需要解析页面内容流，没有用到时跳过）
+   */
+  static needsBlankDetection(settings: PageRuleTarget): boolean {
+    return !!settings.pages?.skipBlank || !!settings.pageRules?.some(rule => rule.selection.skipBlank);
+  }
+
+  /**
+   * 将规则覆盖到基础设置上，得到该规则的完整水印设置
+   */
+  static applyRule<T extends PageRuleTarget>(settings: T, rule: PageWatermarkRule): T {
+    return {
+      ...settings,
+      type: rule.type || settings.type,
+      text: settings.text || rule.text
+        ? { ...settings.text, ...rule.text, font: { ...settings.text?.font, ...rule.text?.font } }
+        : undefined,
+      position: { ...settings.position, ...rule.position },
+      pages: rule.selection,
+      pageRules: undefined
+    } as T;
+  }
+
+  /**
+   * 某一页需要绘制的全部水印设置：基础水印（若选中）加上所有命中的规则
+   */
+  static getPageSettings<T extends PageRuleTarget>(
+    settings: T,
+    pageNumber: number,
+    pageCount: number,
+    isBlank: boolean = false
+  ): T[] {
+    const layers: T[] = [];
+    if (this.matches(settings.pages, pageNumber, pageCount, isBlank)) {
+      layers.push(settings);
+    }
+    for (const rule of settings.pageRules || []) {
+      if (this.matches(rule.selection, pageNumber, pageCount, isBlank)) {
+        layers.push(this.applyRule(settings, rule));
+      }
+    }
+    return layers;
+  }
+
+  /**
+   * 找出文档中的空白页，返回页码集合
+   */
+  static async findBlankPages(pages: any[]): Promise<Set<number>> {
+    const blank = new Set<number>();
+    for (let index = 0; index < pages.length; index++) {
+      if (await this.isBlankPDFPage(pages[index])) {
+        blank.add(index + 1);
+      }
+    }
+    return blank;
+  }
+
+  /**
+   * 判断pdf-lib页面是否空白：内容流中没有任何文字、图片、路径绘制操作
+   * 页面对象可能来自npm包或CDN加载的pdf-lib，这里只按结构访问，不依赖具体的类
+   */
+  static async isBlankPDFPage(page: any): Promise<boolean> {
+    try {
+      const contents = page.node?.Contents?.();
+      if (!contents) return true;
+
+      const streams: any[] = typeof contents.asArray === 'function'
+        ? contents.asArray().map((ref: any) => page.doc.context.lookup(ref))
+        : [contents];
+
+      for (const stream of streams) {
+        const content = await this.decodeStream(stream);
+        // 无法解码的内容按非空白处理，宁可多加水印
+        if (!content || this.hasPaintOperators(content)) {
+          return false;
+        }
+      }
+      return true;
+    } catch (error) {
+      console.warn('⚠️ 空白页检测失败，按非空白页处理:', error);
+      return false;
+    }
+  }
+
+  private static parseSegments(spec: string, pageCount: number): Array<[number, number]> {
+    return spec.split(/[,，、\s]+/).filter(Boolean).map(part => {
+      const match = part.match(/^([^-]*)(-)?([^-]*)$/);
+      const start = match ? this.parsePageNumber(match[1], pageCount, 1) : NaN;
+      const end = match ? (match[2] ? this.parsePageNumber(match[3], pageCount, pageCount) : start) : NaN;
+
+      if (isNaN(start) || isNaN(end)) {
+        throw new Error(`无效的页码范围: ${part}`);
+      }
+      if (start > end) {
+        throw new Error(`页码范围起始大于结束: ${part}`);
+      }
+      return [start, end];
+    });
+  }
+
+  private static parsePageNumber(value: string, pageCount: number, fallback: number): number {
+    const token = value.trim().toLowerCase();
+    if (!token) return fallback;
+    if (token === 'first') return 1;
+    if (token === 'last') return pageCount;
+    return /^\d+$/.test(token) && Number(token) > 0 ? Number(token) : NaN;
+  }
+
+  private static async decodeStream(stream: any): Promise<string | null> {
+    if (!stream || typeof stream.getContents !== 'function') return null;
+
+    // 本次新建的内容流尚未编码，直接读取操作符；调用getContents会缓存压缩结果，之后追加的绘制将不会写入
+    if (typeof stream.getUnencodedContents === 'function') {
+      return new TextDecoder('latin1').decode(stream.getUnencodedContents());
+    }
+
+    let bytes: Uint8Array = stream.getContents();
+    for (const filter of this.getFilters(stream)) {
+      if (filter !== '/FlateDecode') return null;
+      bytes = await inflate(bytes);
+    }
+    return new TextDecoder('latin1').decode(bytes);
+  }
+
+  private static getFilters(stream: any): string[] {
+    const entry = (stream.dict?.entries?.() || []).find(([key]: [any]) => String(key) === '/Filter');
+    if (!entry) return [];
+    const value = entry[1];
+    return typeof value.asArray === 'function' ? value.asArray().map(String) : [String(value)];
+  }
+
+  /**
+   * 扫描内容流中的操作符，跳过字符串、名称和注释
+   */
+  private static hasPaintOperators(content: string): boolean {
+    let index = 0;
+    while (index < content.length) {
+      const char = content[index];
+
+      if (char === '(') {
+        let depth = 0;
+        for (; index < content.length; index++) {
+          if (content[index] === '\\') index++;
+          else if (content[index] === '(') depth++;
+          else if (content[index] === ')' && --depth === 0) break;
+        }
+        index++;
+      } else if (char === '<' && content[index + 1] !== '<') {
+        index = content.indexOf('>', index) + 1 || content.length;
+      } else if (char === '%') {
+        index = content.indexOf('\n', index) + 1 || content.length;
+      } else if (char === '/' || !DELIMITERS.includes(char) && /\S/.test(char)) {
+        const start = index++;
+        while (index < content.length && /\S/.test(content[index]) && !DELIMITERS.includes(content[index])) {
+          index++;
+        }
+        if (char !== '/' && PAINT_OPERATORS.has(content.slice(start, index))) {
+          return true;
+        }
+      } else {
+        index++;
+      }
+    }
+    return false;
+  }
+}
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Response(bytes as BodyInit).body!.pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
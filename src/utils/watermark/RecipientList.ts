@@ -0,0 +1,178 @@
+/**
+ * 收件人列表 - 分发模式的CSV/JSON解析与按收件人命名
+ * 识别的列：姓名(name)、编号(id)、邮箱(email)，其他列保留在fields中
+ */
+
+import type { DistributionRecipient, RecipientParseResult } from '@/types/distribution.types';
+
+type RecipientColumn = 'name' | 'id' | 'email';
+
+const COLUMN_ALIASES: Record<string, RecipientColumn> = {
+  name: 'name',
+  姓名: 'name',
+  收件人: 'name',
+  user: 'name',
+  id: 'id',
+  编号: 'id',
+  工号: 'id',
+  email: 'email',
+  邮箱: 'email',
+  mail: 'email'
+};
+
+// 无表头时按 姓名,编号,邮箱 的顺序读取
+const POSITIONAL_COLUMNS: RecipientColumn[] = ['name', 'id', 'email'];
+
+export class RecipientList {
+  /**
+   * 读取收件人文件，按扩展名或内容判断格式
+   */
+  static async parseFile(file: File): Promise<RecipientParseResult> {
+    const text = await file.text();
+    const format = /\.json$/i.test(file.name) ? 'json' : /\.(csv|txt)$/i.test(file.name) ? 'csv' : undefined;
+    return this.parse(text, format);
+  }
+
+  static parse(text: string, format?: 'csv' | 'json'): RecipientParseResult {
+    const content = text.replace(/^\uFEFF/, '');
+    const isJson = format ? format === 'json' : /^\s*[[{]/.test(content);
+    const rows = isJson ? this.readJson(content) : this.readCsv(content);
+    return this.normalize(rows);
+  }
+
+  /**
+   * 按收件人生成文件名：原文件名_watermarked_姓名_编号.扩展名
+   */
+  static getFilename(watermarkedFilename: string, recipient: DistributionRecipient): string {
+    const lastDotIndex = watermarkedFilename.lastIndexOf('.');
+    const base = lastDotIndex > 0 ? watermarkedFilename.slice(0, lastDotIndex) : watermarkedFilename;
+    const extension = lastDotIndex > 0 ? watermarkedFilename.slice(lastDotIndex) : '';
+    const suffix = [recipient.name, recipient.id].map(part => this.sanitize(part)).filter(Boolean).join('_');
+    return `${base}_${suffix}${extension}`;
+  }
+
+  private static readJson(content: string): Array<Record<string, unknown>> {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error('收件人列表不是有效的JSON');
+    }
+
+    const list = Array.isArray(data) ? data : (data as { recipients?: unknown })?.recipients;
+    if (!Array.isArray(list)) {
+      throw new Error('JSON收件人列表应为数组或包含recipients数组');
+    }
+    return list.map(item => (item && typeof item === 'object' ? item as Record<string, unknown> : {}));
+  }
+
+  private static readCsv(content: string): Array<Record<string, unknown>> {
+    const lines = this.splitCsv(content).filter(cells => cells.some(cell => cell.trim()));
+    if (lines.length === 0) {
+      return [];
+    }
+
+    const header = lines[0].map(cell => cell.trim());
+    const hasHeader = header.some(cell => COLUMN_ALIASES[cell.toLowerCase()]);
+    const columns = hasHeader ? header : POSITIONAL_COLUMNS;
+
+    return lines.slice(hasHeader ? 1 : 0).map(cells => {
+      const row: Record<string, unknown> = {};
+      cells.forEach((cell, index) => {
+        row[columns[index] ?? `column${index + 1}`] = cell;
+      });
+      return row;
+    });
+  }
+
+  /**
+   * 逐字符切分CSV，支持引号内的逗号、换行和 "" 转义
+   */
+  private static splitCsv(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    row.push(cell);
+    rows.push(row);
+    return rows;
+  }
+
+  private static normalize(rows: Array<Record<string, unknown>>): RecipientParseResult {
+    const recipients: DistributionRecipient[] = [];
+    const errors: string[] = [];
+    const usedIds = new Set<string>();
+    const width = String(rows.length).length;
+
+    rows.forEach((row, index) => {
+      const position = `第${index + 1}个收件人`;
+      const values: Partial<Record<RecipientColumn, string>> = {};
+      const fields: Record<string, string> = {};
+
+      for (const [key, value] of Object.entries(row)) {
+        if (value === undefined || value === null || typeof value === 'object') continue;
+        const text = String(value).trim();
+        const column = COLUMN_ALIASES[key.trim().toLowerCase()];
+        if (column) {
+          values[column] = values[column] || text;
+        } else if (text) {
+          fields[key] = text;
+        }
+      }
+
+      if (!values.name) {
+        errors.push(`${position}缺少姓名`);
+        return;
+      }
+
+      // 未提供编号时按行号生成
+      const id = values.id || `R${String(index + 1).padStart(Math.max(3, width), '0')}`;
+      if (usedIds.has(id.toLowerCase())) {
+        errors.push(`${position}的编号 ${id} 重复`);
+        return;
+      }
+      usedIds.add(id.toLowerCase());
+
+      recipients.push({
+        id,
+        name: values.name,
+        ...(values.email ? { email: values.email } : {}),
+        ...(Object.keys(fields).length > 0 ? { fields } : {})
+      });
+    });
+
+    return { recipients, errors };
+  }
+
+  private static sanitize(value: string): string {
+    return value.trim().replace(/[\\/:*?"<>|\s]+/g, '_').replace(/^_+|_+$/g, '');
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * 本地记录存储 - IndexedDB持久化，不可用时退回内存存储
+ * 模板库、签发登记等按id存取的记录共用
+ */
+
+export interface RecordStorage<T extends { id: string }> {
+  getAll(): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  put(record: T): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export class IndexedDBRecordStorage<T extends { id: string }> implements RecordStorage<T> {
+  private dbPromise?: Promise<IDBDatabase>;
+
+  constructor(
+    private readonly dbName: string,
+    private readonly storeName: string,
+    private readonly factory: IDBFactory = indexedDB
+  ) {}
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async getAll(): Promise<T[]> {
+    return this.run('readonly', store => store.getAll());
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    return this.run('readonly', store => store.get(id));
+  }
+
+  async put(record: T): Promise<void> {
+    await this.run('readwrite', store => store.put(record));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(id));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = this.factory.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(this.storeName)) {
+            db.createObjectStore(this.storeName, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = undefined;
+          reject(request.error || new Error(`无法打开本地数据库 ${this.dbName}`));
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<R>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<R> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = action(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error || new Error('本地数据库操作失败'));
+      transaction.onabort = () => reject(transaction.error || new Error('本地数据库操作被中止'));
+    });
+  }
+}
+
+export class MemoryRecordStorage<T extends { id: string }> implements RecordStorage<T> {
+  private records = new Map<string, T>();
+
+  async getAll(): Promise<T[]> {
+    return Array.from(this.records.values());
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    return this.records.get(id);
+  }
+
+  async put(record: T): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+}
+
+/**
+ * 创建默认存储：优先IndexedDB（如隐私模式下不可用则仅在会话内保存）
+ */
+export function createRecordStorage<T extends { id: string }>(
+  dbName: string,
+  storeName: string,
+  label: string
+): RecordStorage<T> {
+  if (IndexedDBRecordStorage.isSupported()) {
+    return new IndexedDBRecordStorage<T>(dbName, storeName);
+  }
+  console.warn(`⚠️ 当前环境不支持IndexedDB，${label}仅在本次会话内保存`);
+  return new MemoryRecordStorage<T>();
+}
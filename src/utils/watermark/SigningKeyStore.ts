@@ -0,0 +1,103 @@
+/**
+ * 签名密钥存储 - 持久化证书签名密钥对，支持导入导出
+ * 刷新页面或换一台设备后继续用同一密钥签发，验证方只需信任一个公钥
+ */
+
+import { CertificateSigner } from '@/engines/crypto/CertificateSigner';
+import { createRecordStorage, type RecordStorage } from './RecordStorage';
+
+export interface SigningKeyRecord {
+  id: string;
+  keyPair: CryptoKeyPair;
+  createdAt: string;
+}
+
+export type SigningKeyStorage = RecordStorage<SigningKeyRecord>;
+
+export interface SigningKeyStoreOptions {
+  storage?: SigningKeyStorage;
+}
+
+const RECORD_ID = 'default';
+
+export class SigningKeyStore {
+  private readonly storage: SigningKeyStorage;
+  private keyPair: Promise<CryptoKeyPair> | null = null;
+
+  constructor(options: SigningKeyStoreOptions = {}) {
+    this.storage = options.storage || createRecordStorage<SigningKeyRecord>('watermark-signing-keys', 'keys', '签名密钥');
+  }
+
+  /**
+   * 获取签名密钥对：读取已保存的密钥，首次使用时生成并保存
+   */
+  getKeyPair(): Promise<CryptoKeyPair> {
+    if (!this.keyPair) {
+      this.keyPair = this.loadOrCreate().catch(error => {
+        this.keyPair = null;
+        throw error;
+      });
+    }
+    return this.keyPair;
+  }
+
+  /**
+   * 当前签名公钥指纹
+   */
+  async getFingerprint(): Promise<string> {
+    return CertificateSigner.getKeyFingerprint((await this.getKeyPair()).publicKey);
+  }
+
+  /**
+   * 导出公钥PEM，供验证方配置为可信公钥
+   */
+  async exportPublicKey(): Promise<string> {
+    return CertificateSigner.exportKey((await this.getKeyPair()).publicKey, 'pem');
+  }
+
+  /**
+   * 导出密钥对PEM（私钥在前），用于备份或迁移签发端
+   */
+  async exportKeyPair(): Promise<string> {
+    const exported = await CertificateSigner.exportKeyPair(await this.getKeyPair(), 'pem');
+    return `${exported.privateKey}\n${exported.publicKey}\n`;
+  }
+
+  /**
+   * 导入密钥对PEM，替换当前签名密钥，返回新公钥指纹
+   */
+  async importKeyPair(pem: string): Promise<string> {
+    let keyPair: CryptoKeyPair;
+    try {
+      keyPair = {
+        privateKey: await CertificateSigner.importPrivateKey(pem, true),
+        publicKey: await CertificateSigner.importPublicKey(pem)
+      };
+    } catch {
+      throw new Error('密钥文件无效，需要包含PEM格式的ECDSA P-256私钥和公钥');
+    }
+
+    // 私钥与公钥必须配对，否则签发的证书无法验证
+    const probe = { check: 'signing-key-import' };
+    const signature = await CertificateSigner.sign(keyPair.privateKey, probe);
+    if (!await CertificateSigner.verify(keyPair.publicKey, probe, signature)) {
+      throw new Error('私钥与公钥不匹配');
+    }
+
+    await this.storage.put({ id: RECORD_ID, keyPair, createdAt: new Date().toISOString() });
+    this.keyPair = Promise.resolve(keyPair);
+    return CertificateSigner.getKeyFingerprint(keyPair.publicKey);
+  }
+
+  private async loadOrCreate(): Promise<CryptoKeyPair> {
+    const saved = await this.storage.get(RECORD_ID);
+    if (saved) {
+      return saved.keyPair;
+    }
+
+    const keyPair = await CertificateSigner.generateKeyPair(true);
+    await this.storage.put({ id: RECORD_ID, keyPair, createdAt: new Date().toISOString() });
+    console.log('🔑 已生成并保存证书签名密钥');
+    return keyPair;
+  }
+}
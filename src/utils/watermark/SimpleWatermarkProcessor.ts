@@ -3,6 +3,31 @@
  * 使用原生Canvas API实现，避免复杂的架构导致的问题
  */
 
+import { InvisibleWatermark, type InvisibleWatermarkOptions } from '../../engines/watermark/InvisibleWatermark';
+import { ImageMetadata } from '../../engines/image/ImageMetadata';
+import { AdaptiveEncoder, type AdaptiveFormat } from '../../engines/image/AdaptiveEncoder';
+import { TIFFCodec, type TIFFPage } from '../../engines/image/TIFFCodec';
+import {
+  AnimatedWatermark,
+  DEFAULT_ANIMATION_CONFIG,
+  type AnimatedWatermarkResult
+} from '../../engines/image/AnimatedWatermark';
+import { WorkerPool } from '../../workers/WorkerPool';
+import { WatermarkVariables } from './WatermarkVariables';
+import { PDFDocument } from 'pdf-lib';
+import type {
+  AnimationConfig,
+  CustomPositionConfig,
+  InvisibleWatermarkConfig,
+  InvisibleWatermarkExtraction,
+  MetadataConfig,
+  PageSelection,
+  PageWatermarkRule,
+  PDFEncryptionConfig,
+  WatermarkError
+} from '../../types/watermark.types';
+import type { TaskData, TaskResultData } from '../../types/worker.types';
+
 export interface SimpleColorConfig {
   type: 'solid' | 'gradient' | 'multi';
   primary: string;
@@ -18,6 +43,14 @@ export interface SimpleColorConfig {
   multi?: string[];
 }
 
+export interface SimpleImageWatermarkConfig {
+  source: File | Blob | ImageData;
+  tint?: string; // 着色颜色，保留原图透明度
+  preserveAspectRatio: boolean;
+  width?: number; // 基准宽度（像素），未设置时按画布宽度的25%计算
+  height?: number; // 基准高度（像素）
+}
+
 export interface SimpleWatermarkSettings {
   type: 'text' | 'image' | 'hybrid';
   text?: {
@@ -30,10 +63,12 @@ export interface SimpleWatermarkSettings {
     };
     color: string | SimpleColorConfig;
   };
+  image?: SimpleImageWatermarkConfig;
   position: {
     placement: 'corner' | 'center' | 'edge' | 'pattern' | 'custom';
     corner?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
     edge?: 'top' | 'right' | 'bottom' | 'left';
+    custom?: CustomPositionConfig; // placement为custom时的中心点
     pattern?: {
       type?: 'default' | 'tiled-3-column' | 'random';
       spacing: { x: number; y: number; };
@@ -54,16 +89,27 @@ export interface SimpleWatermarkSettings {
   security?: {
     blockChineseCharacters?: boolean;
     allowedLanguages?: ('en' | 'zh' | 'ja' | 'ko' | 'all')[];
+    invisibleWatermark?: InvisibleWatermarkConfig;
+    pdfPassword?: string; // 受密码保护的输入PDF
   };
   output: {
     format: 'png' | 'jpeg' | 'webp' | 'pdf' | 'docx' | 'word-to-pdf' | 'original';
     quality: number;
+    maxFileSize?: number; // bytes，超出时自适应降低质量/尺寸
     preserveOriginalMetadata?: boolean;
+    metadata?: MetadataConfig;
+    animation?: AnimationConfig; // GIF/APNG动图逐帧加水印
+    tiffOutput?: 'pdf' | 'tiff'; // TIFF逐页加水印后的输出：PDF（默认）或多页TIFF
+    encryption?: PDFEncryptionConfig; // PDF输出加密与权限限制
+    spreadsheetMode?: 'header' | 'background'; // Excel水印方式：页眉图片(&G)或工作表背景
+    presentationTarget?: 'slides' | 'master'; // PowerPoint水印位置：每张幻灯片或母版/版式
     compression?: {
       enabled: boolean;
       level: 'low' | 'medium' | 'high';
     };
   };
+  pages?: PageSelection; // 仅对分页文档（PDF）生效
+  pageRules?: PageWatermarkRule[];
 }
 
 export interface SimpleWatermarkResult {
@@ -75,12 +121,23 @@ export interface SimpleWatermarkResult {
     size: number;
     dimensions: { width: number; height: number };
     format: string;
+    quality?: number; // 最终编码质量
+    frameCount?: number; // 动图帧数
+    pageCount?: number; // TIFF页数
   };
   error?: string;
+  errorCode?: WatermarkError;
+  warnings?: string[]; // 处理成功但部分功能被跳过
   processingTime: number;
 }
 
+const OUTPUT_SIZE_EXCEEDED = 'OUTPUT_SIZE_EXCEEDED';
+
 export class SimpleWatermarkProcessor {
+  private static readonly LARGE_IMAGE_PIXELS = 2048 * 2048; // 4MP以上的大图交给Worker处理
+  private static workerPool: WorkerPool | null = null;
+  private static imageWorkerPool: WorkerPool | null = null;
+
   /**
    * 检测文本中是否包含中文字符
    */
@@ -151,15 +208,52 @@ export class SimpleWatermarkProcessor {
     const startTime = performance.now();
     
     try {
-      // 1. 验证水印文本语言（如果是文本水印）
-      if (settings.type === 'text' && settings.text) {
+      // 1. 验证水印文本语言（文本或混合水印）
+      if ((settings.type === 'text' || settings.type === 'hybrid') && settings.text) {
         this.validateTextLanguage(settings.text.content, settings, settings.output?.format);
       }
       
-      // 2. 加载图片
-      const imageElement = await this.loadImageFromFile(file);
+      // 2. GIF/APNG动图逐帧加水印，保留帧延时、循环次数和处置方式
+      const animation = { ...DEFAULT_ANIMATION_CONFIG, ...settings.output.animation };
+      if (animation.preserve) {
+        const animated = await this.processAnimation(file, settings, animation);
+        if (animated) {
+          // 隐形水印和元数据不写入动图，请求了这些功能时给出警告
+          const warnings: string[] = [];
+          if (settings.security?.invisibleWatermark?.enabled) {
+            warnings.push('动图不支持隐形水印，已跳过');
+          }
+          if (settings.output.preserveOriginalMetadata) {
+            warnings.push('动图不保留原图元数据，已跳过');
+          }
+          return {
+            success: true,
+            originalFile: file,
+            processedImage: { ...animated, dataUrl: await this.blobToDataUrl(animated.blob), size: animated.blob.size },
+            warnings: warnings.length > 0 ? warnings : undefined,
+            processingTime: performance.now() - startTime
+          };
+        }
+      }
+
+      // 3. TIFF逐页解码加水印，输出PDF或多页TIFF
+      const tiff = await this.processTiff(file, settings);
+      if (tiff) {
+        return {
+          success: true,
+          originalFile: file,
+          processedImage: { ...tiff, dataUrl: await this.blobToDataUrl(tiff.blob), size: tiff.blob.size },
+          processingTime: performance.now() - startTime
+        };
+      }
+
+      // 4. 读取原图元数据并加载图片（按EXIF方向摆正）
+      const metadata = settings.output.preserveOriginalMetadata
+        ? ImageMetadata.select(await ImageMetadata.read(file), settings.output.metadata)
+        : null;
+      const imageElement = await this.loadImageForDrawing(file, !!metadata?.icc);
       
-      // 2. 创建Canvas并添加水印
+      // 5. 创建Canvas并添加水印
       const canvas = document.createElement('canvas');
       const ctx = canvas.getContext('2d');
       
@@ -170,15 +264,64 @@ export class SimpleWatermarkProcessor {
       canvas.width = imageElement.width;
       canvas.height = imageElement.height;
       
-      // 3. 绘制原始图片
+      // 6. 绘制原始图片
       ctx.drawImage(imageElement, 0, 0);
+      if ('close' in imageElement) {
+        imageElement.close();
+      }
       
-      // 4. 添加水印
+      // 7. 添加水印
       await this.addWatermark(ctx, canvas, settings);
       
-      // 5. 转换为Blob和DataURL
-      const blob = await this.canvasToBlob(canvas, settings.output.format, settings.output.quality);
-      const dataUrl = canvas.toDataURL(`image/${settings.output.format}`, settings.output.quality);
+      // 8. 嵌入隐形水印（在可见水印之后，避免载荷被覆盖；失败时跳过并给出警告）
+      const warnings: string[] = [];
+      const invisibleWatermark = settings.security?.invisibleWatermark;
+      let invisibleEmbedded = false;
+      if (invisibleWatermark?.enabled) {
+        try {
+          await this.embedInvisibleWatermark(ctx, canvas, invisibleWatermark);
+          invisibleEmbedded = true;
+        } catch (error) {
+          console.warn('⚠️ 隐形水印嵌入失败，已跳过:', error);
+          warnings.push(`未嵌入隐形水印：${error instanceof Error ? error.message : '未知错误'}`);
+        }
+      }
+      
+      // 9. 转换为Blob，超出文件大小上限时自适应编码（预算扣除将写回的元数据）
+      let encoded = {
+        blob: await this.canvasToBlob(canvas, settings.output.format, settings.output.quality),
+        format: settings.output.format as string,
+        quality: settings.output.quality,
+        dimensions: { width: canvas.width, height: canvas.height }
+      };
+      const hasMetadata = !!metadata && !ImageMetadata.isEmpty(metadata);
+      const maxFileSize = settings.output.maxFileSize;
+      const budget = maxFileSize ? maxFileSize - (hasMetadata ? ImageMetadata.byteLength(metadata!) : 0) : 0;
+      const adapted = !!maxFileSize && encoded.blob.size > budget;
+      if (adapted) {
+        encoded = await this.fitToFileSize(ctx, canvas, settings.output, budget);
+        // 缩小或重压缩会破坏已嵌入的隐形水印，在最终尺寸上重新嵌入
+        if (invisibleEmbedded) {
+          const remarked = await this.reembedInvisibleWatermark(encoded, invisibleWatermark!, budget);
+          if (remarked) {
+            encoded = remarked;
+          } else {
+            warnings.push('压缩到文件大小上限后隐形水印无法提取，输出中不含隐形水印');
+          }
+        }
+      }
+
+      // 10. 写回保留的元数据并生成DataURL
+      let blob = encoded.blob;
+      let dataUrl: string;
+      if (hasMetadata) {
+        blob = await ImageMetadata.write(blob, metadata!);
+        dataUrl = await this.blobToDataUrl(blob);
+      } else if (adapted) {
+        dataUrl = await this.blobToDataUrl(blob);
+      } else {
+        dataUrl = canvas.toDataURL(`image/${settings.output.format}`, settings.output.quality);
+      }
       
       const processingTime = performance.now() - startTime;
       
@@ -189,12 +332,11 @@ export class SimpleWatermarkProcessor {
           blob,
           dataUrl,
           size: blob.size,
-          dimensions: {
-            width: canvas.width,
-            height: canvas.height
-          },
-          format: settings.output.format
+          dimensions: encoded.dimensions,
+          format: encoded.format,
+          quality: encoded.quality
         },
+        warnings: warnings.length > 0 ? warnings : undefined,
         processingTime
       };
       
@@ -202,27 +344,438 @@ export class SimpleWatermarkProcessor {
       const processingTime = performance.now() - startTime;
       console.error('水印处理失败:', error);
       
+      const message = error instanceof Error ? error.message : '未知错误';
+      const sizeExceeded = message.startsWith(OUTPUT_SIZE_EXCEEDED);
+
       return {
         success: false,
         originalFile: file,
-        error: error instanceof Error ? error.message : '未知错误',
+        error: sizeExceeded
+          ? `输出文件超出大小上限（${message.slice(OUTPUT_SIZE_EXCEEDED.length + 1).trim()}）`
+          : message,
+        errorCode: sizeExceeded ? OUTPUT_SIZE_EXCEEDED : undefined,
         processingTime
       };
     }
   }
   
   /**
-   * 从File对象加载图片
+   * 从图片中提取隐形水印载荷
+   */
+  async extractWatermark(
+    file: Blob,
+    options: InvisibleWatermarkOptions = {}
+  ): Promise<InvisibleWatermarkExtraction> {
+    const imageElement = await this.loadImageFromFile(file);
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('无法创建Canvas上下文');
+    }
+
+    canvas.width = imageElement.width;
+    canvas.height = imageElement.height;
+    ctx.drawImage(imageElement, 0, 0);
+
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+    if (this.isLargeImage(imageData)) {
+      try {
+        const result = await this.runInvisibleWatermarkTask('invisible-extract', imageData, options);
+        if (result.extraction) {
+          return result.extraction;
+        }
+      } catch (error) {
+        console.warn('⚠️ Worker提取隐形水印失败，回退到主线程:', error);
+      }
+    }
+
+    return InvisibleWatermark.extract(imageData, options);
+  }
+
+  /**
+   * 动图水印：主线程渲染与画布同尺寸的透明水印层，逐帧合成和编码在图像Worker中执行
+   * 不是动图时返回null；隐形水印和元数据不写入动图
+   */
+  private async processAnimation(
+    file: File,
+    settings: SimpleWatermarkSettings,
+    animation: AnimationConfig
+  ): Promise<AnimatedWatermarkResult | null> {
+    if (!/^image\/(gif|png|apng)$/.test(file.type) && !/\.(gif|a?png)$/i.test(file.name)) {
+      return null;
+    }
+
+    let bytes: Uint8Array;
+    try {
+      bytes = new Uint8Array(await file.arrayBuffer());
+    } catch (error) {
+      console.warn('⚠️ 读取文件失败，按静态图片处理:', error);
+      return null;
+    }
+    if (!AnimatedWatermark.detect(bytes)) {
+      return null;
+    }
+
+    const { width, height } = AnimatedWatermark.readSize(bytes);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('无法创建Canvas上下文');
+    }
+    await this.addWatermark(ctx, canvas, settings);
+    const overlay = ctx.getImageData(0, 0, width, height);
+
+    let result: AnimatedWatermarkResult | null = null;
+    // APNG帧解码依赖OffscreenCanvas，Worker中没有时回退到主线程
+    if (typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined') {
+      try {
+        if (!SimpleWatermarkProcessor.imageWorkerPool) {
+          SimpleWatermarkProcessor.imageWorkerPool = new WorkerPool(1, '/src/workers/image-processor.worker.js');
+        }
+        const response = await SimpleWatermarkProcessor.imageWorkerPool.execute({
+          id: `animated-watermark-${Date.now()}`,
+          type: 'animated-watermark',
+          data: {
+            data: bytes,
+            imageData: overlay,
+            animation,
+            options: { quality: 1, format: 'png' }
+          },
+          priority: 'normal',
+          timeout: 300000
+        });
+        const data = response.data;
+        if (response.success && data?.blob && data.dimensions) {
+          result = {
+            blob: data.blob,
+            format: data.format === 'gif' ? 'gif' : 'png',
+            dimensions: data.dimensions,
+            frameCount: data.frameCount ?? 0
+          };
+        }
+      } catch (error) {
+        console.warn('⚠️ Worker处理动图失败，回退到主线程:', error);
+      }
+    }
+    if (!result) {
+      result = await AnimatedWatermark.process(bytes, overlay, animation);
+    }
+
+    console.log(`🎞️ 动图水印完成: ${result.frameCount}帧, ${result.blob.size}字节`);
+
+    // 动图不做自适应编码，超出上限直接报错
+    const maxFileSize = settings.output.maxFileSize;
+    if (maxFileSize && result.blob.size > maxFileSize) {
+      throw new Error(`${OUTPUT_SIZE_EXCEEDED}: 动图${result.blob.size}字节，上限${maxFileSize}字节`);
+    }
+
+    return result;
+  }
+
+  /**
+   * TIFF水印：浏览器无法直接绘制TIFF，逐页解码为像素后绘制水印，{page}/{pages}按页解析
+   * 默认每页输出为PDF的一页（页面尺寸按DPI换算），也可输出多页TIFF
+   */
+  private async processTiff(
+    file: File,
+    settings: SimpleWatermarkSettings
+  ): Promise<{ blob: Blob; format: 'pdf' | 'tiff'; dimensions: { width: number; height: number }; pageCount: number } | null> {
+    if (file.type !== 'image/tiff' && !/\.tiff?$/i.test(file.name)) {
+      return null;
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    if (!TIFFCodec.isTIFF(bytes)) {
+      return null;
+    }
+
+    const pages = TIFFCodec.readPages(bytes);
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('无法创建Canvas上下文');
+    }
+
+    const pdfDoc = settings.output.tiffOutput === 'tiff' ? null : await PDFDocument.create();
+    const tiffPages: TIFFPage[] = [];
+
+    for (let index = 0; index < pages.length; index++) {
+      const page = TIFFCodec.decodePage(bytes, pages[index]);
+      canvas.width = page.width;
+      canvas.height = page.height;
+      const imageData = ctx.createImageData(page.width, page.height);
+      imageData.data.set(page.pixels);
+      ctx.putImageData(imageData, 0, 0);
+
+      const pageSettings = WatermarkVariables.applyToSettings(settings, { page: index + 1, pages: pages.length });
+      await this.addWatermark(ctx, canvas, pageSettings);
+
+      if (pdfDoc) {
+        // 透明页面用PNG嵌入，避免JPEG把透明区域变黑
+        const png = settings.output.format === 'png' || this.hasTransparency(imageData);
+        const blob = await this.canvasToBlob(canvas, png ? 'png' : 'jpeg', settings.output.quality);
+        const imageBytes = new Uint8Array(await blob.arrayBuffer());
+        const image = png ? await pdfDoc.embedPng(imageBytes) : await pdfDoc.embedJpg(imageBytes);
+        const width = page.width * 72 / page.dpi.x;
+        const height = page.height * 72 / page.dpi.y;
+        pdfDoc.addPage([width, height]).drawImage(image, { x: 0, y: 0, width, height });
+      } else {
+        tiffPages.push({ ...page, pixels: ctx.getImageData(0, 0, page.width, page.height).data });
+      }
+    }
+
+    const blob = pdfDoc
+      ? new Blob([await pdfDoc.save() as BlobPart], { type: 'application/pdf' })
+      : new Blob([TIFFCodec.encode(tiffPages) as BlobPart], { type: 'image/tiff' });
+    console.log(`🗂️ TIFF水印完成: ${pages.length}页 → ${pdfDoc ? 'PDF' : 'TIFF'}, ${blob.size}字节`);
+
+    const maxFileSize = settings.output.maxFileSize;
+    if (maxFileSize && blob.size > maxFileSize) {
+      throw new Error(`${OUTPUT_SIZE_EXCEEDED}: TIFF输出${blob.size}字节，上限${maxFileSize}字节`);
+    }
+
+    return {
+      blob,
+      format: pdfDoc ? 'pdf' : 'tiff',
+      dimensions: { width: pages[0].width, height: pages[0].height },
+      pageCount: pages.length
+    };
+  }
+
+  /**
+   * 在字节预算内重新编码（大图在图像Worker中执行）
+   */
+  private async fitToFileSize(
+    ctx: CanvasRenderingContext2D,
+    canvas: HTMLCanvasElement,
+    output: SimpleWatermarkSettings['output'],
+    budget: number
+  ): Promise<{ blob: Blob; format: string; quality: number; dimensions: { width: number; height: number } }> {
+    const format = (['jpeg', 'webp'].includes(output.format) ? output.format : 'png') as AdaptiveFormat;
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+    if (this.isLargeImage(imageData)) {
+      try {
+        if (!SimpleWatermarkProcessor.imageWorkerPool) {
+          SimpleWatermarkProcessor.imageWorkerPool = new WorkerPool(1, '/src/workers/image-processor.worker.js');
+        }
+        const result = await SimpleWatermarkProcessor.imageWorkerPool.execute({
+          id: `optimize-${Date.now()}`,
+          type: 'optimize',
+          data: {
+            imageData,
+            options: { format, quality: output.quality, maxFileSize: budget }
+          },
+          priority: 'normal',
+          timeout: 120000
+        });
+        const data = result.data;
+        if (result.success && data?.blob && data.format && data.dimensions) {
+          return { blob: data.blob, format: data.format, quality: data.quality ?? output.quality, dimensions: data.dimensions };
+        }
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith(OUTPUT_SIZE_EXCEEDED)) {
+          throw error;
+        }
+        console.warn('⚠️ Worker自适应编码失败，回退到主线程:', error);
+      }
+    }
+
+    // 主线程：同一缩放比例只绘制一次
+    let scaled = { scale: 1, canvas };
+    const hasTransparency = format !== 'jpeg' && this.hasTransparency(imageData);
+    const result = await AdaptiveEncoder.encode(
+      async (scale, candidate, quality) => {
+        if (scaled.scale !== scale) {
+          const target = document.createElement('canvas');
+          target.width = Math.max(1, Math.round(canvas.width * scale));
+          target.height = Math.max(1, Math.round(canvas.height * scale));
+          const targetCtx = target.getContext('2d')!;
+          targetCtx.imageSmoothingQuality = 'high';
+          targetCtx.drawImage(canvas, 0, 0, target.width, target.height);
+          scaled = { scale, canvas: target };
+        }
+        return this.canvasToBlob(scaled.canvas, candidate, quality);
+      },
+      {
+        maxFileSize: budget,
+        formats: AdaptiveEncoder.candidateFormats(format, hasTransparency),
+        maxQuality: output.quality
+      }
+    );
+
+    if (!result.fits) {
+      throw new Error(`${OUTPUT_SIZE_EXCEEDED}: 最小可达${result.blob.size}字节，上限${budget}字节`);
+    }
+
+    return {
+      blob: result.blob,
+      format: result.format,
+      quality: result.quality,
+      dimensions: {
+        width: Math.max(1, Math.round(canvas.width * result.scale)),
+        height: Math.max(1, Math.round(canvas.height * result.scale))
+      }
+    };
+  }
+
+  /**
+   * 在自适应编码的结果上重新嵌入隐形水印，按选定的格式和质量编码
+   * 超出字节预算或重新编码后无法提取时返回null
+   */
+  private async reembedInvisibleWatermark<T extends { blob: Blob; format: string; quality: number; dimensions: { width: number; height: number } }>(
+    encoded: T,
+    config: InvisibleWatermarkConfig,
+    budget: number
+  ): Promise<T | null> {
+    try {
+      const imageElement = await this.loadImageFromFile(encoded.blob);
+      const canvas = document.createElement('canvas');
+      canvas.width = encoded.dimensions.width;
+      canvas.height = encoded.dimensions.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('无法创建Canvas上下文');
+      }
+      ctx.drawImage(imageElement, 0, 0, canvas.width, canvas.height);
+
+      await this.embedInvisibleWatermark(ctx, canvas, config);
+      const blob = await this.canvasToBlob(canvas, encoded.format, encoded.quality);
+      if (blob.size > budget) {
+        return null;
+      }
+
+      const extraction = await this.extractWatermark(blob, { key: config.key, strength: config.strength });
+      return extraction.found ? { ...encoded, blob } : null;
+    } catch (error) {
+      console.warn('⚠️ 自适应编码后重新嵌入隐形水印失败:', error);
+      return null;
+    }
+  }
+
+  private hasTransparency({ data }: ImageData): boolean {
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] < 255) return true;
+    }
+    return false;
+  }
+
+  /**
+   * 嵌入隐形水印（大图在Worker中处理）
+   */
+  private async embedInvisibleWatermark(
+    ctx: CanvasRenderingContext2D,
+    canvas: HTMLCanvasElement,
+    config: InvisibleWatermarkConfig
+  ): Promise<void> {
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const options = { key: config.key, strength: config.strength };
+
+    if (this.isLargeImage(imageData)) {
+      try {
+        const result = await this.runInvisibleWatermarkTask('invisible-embed', imageData, {
+          ...options,
+          payload: config.payload
+        });
+        if (result.imageData) {
+          ctx.putImageData(result.imageData, 0, 0);
+          return;
+        }
+      } catch (error) {
+        console.warn('⚠️ Worker嵌入隐形水印失败，回退到主线程:', error);
+      }
+    }
+
+    InvisibleWatermark.embed(imageData, config.payload, options);
+    ctx.putImageData(imageData, 0, 0);
+  }
+
+  private isLargeImage(imageData: ImageData): boolean {
+    return typeof Worker !== 'undefined' &&
+      imageData.width * imageData.height > SimpleWatermarkProcessor.LARGE_IMAGE_PIXELS;
+  }
+
+  /**
+   * 在水印Worker中执行隐形水印任务
+   */
+  private async runInvisibleWatermarkTask(
+    type: 'invisible-embed' | 'invisible-extract',
+    imageData: ImageData,
+    invisibleWatermark: NonNullable<TaskData['invisibleWatermark']>
+  ): Promise<TaskResultData> {
+    if (!SimpleWatermarkProcessor.workerPool) {
+      SimpleWatermarkProcessor.workerPool = new WorkerPool(1);
+    }
+
+    const result = await SimpleWatermarkProcessor.workerPool.execute({
+      id: `${type}-${Date.now()}`,
+      type,
+      data: {
+        imageData,
+        invisibleWatermark,
+        options: { quality: 1, format: 'png' }
+      },
+      priority: 'normal',
+      timeout: 60000
+    });
+
+    if (!result.success || !result.data) {
+      throw new Error(`隐形水印Worker处理失败: ${result.error || '未知错误'}`);
+    }
+
+    return result.data;
+  }
+
+  /**
+   * 从File/Blob对象加载图片
    */
-  private loadImageFromFile(file: File): Promise<HTMLImageElement> {
+  private loadImageFromFile(file: Blob): Promise<HTMLImageElement> {
     return new Promise((resolve, reject) => {
       const img = new Image();
-      img.onload = () => resolve(img);
-      img.onerror = () => reject(new Error('图片加载失败'));
-      img.src = URL.createObjectURL(file);
+      const url = URL.createObjectURL(file);
+      img.onload = () => {
+        URL.revokeObjectURL(url);
+        resolve(img);
+      };
+      img.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('图片加载失败'));
+      };
+      img.src = url;
     });
   }
   
+  /**
+   * 加载待加水印的图片：按EXIF方向摆正；保留ICC时不做色彩空间转换，像素仍对应原色彩配置文件
+   */
+  private async loadImageForDrawing(file: Blob, keepColorProfile: boolean): Promise<HTMLImageElement | ImageBitmap> {
+    if (typeof createImageBitmap === 'function') {
+      try {
+        return await createImageBitmap(file, {
+          imageOrientation: 'from-image',
+          colorSpaceConversion: keepColorProfile ? 'none' : 'default'
+        });
+      } catch (error) {
+        console.warn('⚠️ createImageBitmap加载失败，回退到Image元素:', error);
+      }
+    }
+    // Image元素默认按image-orientation: from-image摆正
+    return this.loadImageFromFile(file);
+  }
+
+  private blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    });
+  }
+
   /**
    * 在Canvas上添加水印
    */
@@ -239,6 +792,13 @@ export class SimpleWatermarkProcessor {
     
     if (settings.type === 'text' && settings.text) {
       await this.addTextWatermark(ctx, canvas, settings);
+    } else if (settings.type === 'image' || settings.type === 'hybrid') {
+      if (settings.image?.source) {
+        await this.addImageWatermark(ctx, canvas, settings);
+      } else if (settings.type === 'hybrid' && settings.text) {
+        // 混合水印缺少Logo时退化为文字水印
+        await this.addTextWatermark(ctx, canvas, settings);
+      }
     }
     
     // 恢复状态
@@ -306,12 +866,7 @@ export class SimpleWatermarkProcessor {
     if (!text || !text.content) return;
     
     // 设置字体
-    const fontSize = Math.max(12, (text.font?.size || 24) * settings.position.scale);
-    const fontFamily = text.font?.family || 'Arial, sans-serif';
-    const fontWeight = text.font?.weight || 'normal';
-    const fontStyle = text.font?.style || 'normal';
-    
-    ctx.font = `${fontStyle} ${fontWeight} ${fontSize}px ${fontFamily}`;
+    this.applyTextFont(ctx, settings);
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
     
@@ -362,6 +917,9 @@ export class SimpleWatermarkProcessor {
               break;
           }
           break;
+        case 'custom':
+          ({ x, y } = this.resolveCustomPosition(canvas, settings.position.custom));
+          break;
         default:
           x = canvas.width / 2;
           y = canvas.height / 2;
@@ -372,6 +930,269 @@ export class SimpleWatermarkProcessor {
     }
   }
   
+  /**
+   * 设置文字字体，返回实际字号
+   */
+  private applyTextFont(ctx: CanvasRenderingContext2D, settings: SimpleWatermarkSettings): number {
+    const font = settings.text?.font;
+    const fontSize = Math.max(12, (font?.size || 24) * settings.position.scale);
+    const fontFamily = font?.family || 'Arial, sans-serif';
+    const fontWeight = font?.weight || 'normal';
+    const fontStyle = font?.style || 'normal';
+
+    ctx.font = `${fontStyle} ${fontWeight} ${fontSize}px ${fontFamily}`;
+    return fontSize;
+  }
+
+  /**
+   * 添加图片水印（混合模式下Logo与文字组合绘制）
+   */
+  private async addImageWatermark(
+    ctx: CanvasRenderingContext2D,
+    canvas: HTMLCanvasElement,
+    settings: SimpleWatermarkSettings
+  ): Promise<void> {
+    const stamp = await this.createWatermarkStamp(canvas, settings);
+    if (!stamp || stamp.width === 0 || stamp.height === 0) return;
+
+    if (settings.position.placement === 'pattern' && settings.position.pattern) {
+      const positions = this.calculatePatternPositions(canvas, settings.position.pattern);
+      positions.forEach(pos => {
+        this.drawStampAt(ctx, stamp, pos.x, pos.y, settings);
+      });
+    } else {
+      const { x, y } = this.calculateStampAnchor(canvas, stamp.width, stamp.height, settings);
+      this.drawStampAt(ctx, stamp, x, y, settings);
+    }
+  }
+
+  /**
+   * 生成水印印章画布：图片模式为着色后的Logo，混合模式为Logo + 下方文字
+   */
+  private async createWatermarkStamp(
+    canvas: HTMLCanvasElement,
+    settings: SimpleWatermarkSettings
+  ): Promise<HTMLCanvasElement | null> {
+    const imageConfig = settings.image;
+    if (!imageConfig?.source) return null;
+
+    const logo = await this.loadWatermarkImage(imageConfig.source);
+    const size = this.calculateImageSize(logo.width, logo.height, canvas, settings);
+    const logoCanvas = this.renderLogo(logo.image, size.width, size.height, imageConfig.tint);
+
+    const textContent = settings.text?.content;
+    if (settings.type !== 'hybrid' || !textContent) {
+      return logoCanvas;
+    }
+
+    // 混合模式：测量文字后组合为一个印章
+    const stampCanvas = document.createElement('canvas');
+    const stampCtx = stampCanvas.getContext('2d');
+    if (!stampCtx) {
+      throw new Error('无法创建Canvas上下文');
+    }
+
+    const fontSize = this.applyTextFont(stampCtx, settings);
+    const textWidth = stampCtx.measureText(textContent).width;
+    const gap = Math.round(fontSize * 0.4);
+    const textHeight = Math.ceil(fontSize * 1.2);
+
+    stampCanvas.width = Math.ceil(Math.max(size.width, textWidth));
+    stampCanvas.height = Math.ceil(size.height + gap + textHeight);
+
+    // 调整画布尺寸会重置上下文状态，需要重新设置字体
+    this.applyTextFont(stampCtx, settings);
+    stampCtx.drawImage(logoCanvas, (stampCanvas.width - size.width) / 2, 0, size.width, size.height);
+
+    stampCtx.textAlign = 'center';
+    stampCtx.textBaseline = 'middle';
+    stampCtx.fillStyle = this.createColorStyle(stampCtx, settings.text?.color || '#000000', stampCanvas);
+    stampCtx.fillText(textContent, stampCanvas.width / 2, size.height + gap + textHeight / 2);
+
+    return stampCanvas;
+  }
+
+  /**
+   * 加载水印图片源（支持PNG/SVG等Blob以及ImageData）
+   */
+  private async loadWatermarkImage(
+    source: File | Blob | ImageData
+  ): Promise<{ image: CanvasImageSource; width: number; height: number }> {
+    if (typeof ImageData !== 'undefined' && source instanceof ImageData) {
+      const sourceCanvas = document.createElement('canvas');
+      sourceCanvas.width = source.width;
+      sourceCanvas.height = source.height;
+      const sourceCtx = sourceCanvas.getContext('2d');
+      if (!sourceCtx) {
+        throw new Error('无法创建Canvas上下文');
+      }
+      sourceCtx.putImageData(source, 0, 0);
+      return { image: sourceCanvas, width: source.width, height: source.height };
+    }
+
+    try {
+      const image = await this.loadImageFromFile(source as Blob);
+      return { image, width: image.width, height: image.height };
+    } catch {
+      throw new Error('水印图片加载失败');
+    }
+  }
+
+  /**
+   * 计算Logo绘制尺寸（应用缩放与宽高比设置）
+   */
+  private calculateImageSize(
+    naturalWidth: number,
+    naturalHeight: number,
+    canvas: HTMLCanvasElement,
+    settings: SimpleWatermarkSettings
+  ): { width: number; height: number } {
+    const imageConfig = settings.image!;
+    const scale = settings.position.scale;
+    const safeNaturalWidth = naturalWidth || 1;
+    const safeNaturalHeight = naturalHeight || 1;
+    const aspectRatio = safeNaturalWidth / safeNaturalHeight;
+
+    let boxWidth = imageConfig.width;
+    let boxHeight = imageConfig.height;
+
+    if (!boxWidth && !boxHeight) {
+      // 默认Logo宽度为画布宽度的25%，且不放大超过原始尺寸
+      boxWidth = Math.min(safeNaturalWidth, canvas.width * 0.25);
+      boxHeight = boxWidth / aspectRatio;
+    } else if (!boxWidth) {
+      boxWidth = boxHeight! * aspectRatio;
+    } else if (!boxHeight) {
+      boxHeight = boxWidth / aspectRatio;
+    }
+
+    let width = boxWidth;
+    let height = boxHeight!;
+
+    if (imageConfig.preserveAspectRatio) {
+      // 在目标区域内等比适配
+      const fit = Math.min(boxWidth / safeNaturalWidth, boxHeight! / safeNaturalHeight);
+      width = safeNaturalWidth * fit;
+      height = safeNaturalHeight * fit;
+    }
+
+    return {
+      width: Math.max(1, Math.round(width * scale)),
+      height: Math.max(1, Math.round(height * scale))
+    };
+  }
+
+  /**
+   * 将Logo绘制到独立画布，可选着色（保留Alpha通道）
+   */
+  private renderLogo(
+    image: CanvasImageSource,
+    width: number,
+    height: number,
+    tint?: string
+  ): HTMLCanvasElement {
+    const logoCanvas = document.createElement('canvas');
+    logoCanvas.width = width;
+    logoCanvas.height = height;
+
+    const logoCtx = logoCanvas.getContext('2d');
+    if (!logoCtx) {
+      throw new Error('无法创建Canvas上下文');
+    }
+
+    logoCtx.drawImage(image, 0, 0, width, height);
+
+    if (tint) {
+      logoCtx.globalCompositeOperation = 'source-in';
+      logoCtx.fillStyle = tint;
+      logoCtx.fillRect(0, 0, width, height);
+      logoCtx.globalCompositeOperation = 'source-over';
+    }
+
+    return logoCanvas;
+  }
+
+  /**
+   * 计算印章中心点位置（角落/边缘/居中/自定义）
+   */
+  private calculateStampAnchor(
+    canvas: HTMLCanvasElement,
+    stampWidth: number,
+    stampHeight: number,
+    settings: SimpleWatermarkSettings
+  ): { x: number; y: number } {
+    const margin = 20;
+    const halfWidth = stampWidth / 2;
+    const halfHeight = stampHeight / 2;
+
+    switch (settings.position.placement) {
+      case 'corner':
+        switch (settings.position.corner) {
+          case 'top-left':
+            return { x: margin + halfWidth, y: margin + halfHeight };
+          case 'top-right':
+            return { x: canvas.width - margin - halfWidth, y: margin + halfHeight };
+          case 'bottom-left':
+            return { x: margin + halfWidth, y: canvas.height - margin - halfHeight };
+          case 'bottom-right':
+          default:
+            return { x: canvas.width - margin - halfWidth, y: canvas.height - margin - halfHeight };
+        }
+      case 'edge':
+        switch (settings.position.edge) {
+          case 'top':
+            return { x: canvas.width / 2, y: margin + halfHeight };
+          case 'right':
+            return { x: canvas.width - margin - halfWidth, y: canvas.height / 2 };
+          case 'left':
+            return { x: margin + halfWidth, y: canvas.height / 2 };
+          case 'bottom':
+          default:
+            return { x: canvas.width / 2, y: canvas.height - margin - halfHeight };
+        }
+      case 'custom':
+        return this.resolveCustomPosition(canvas, settings.position.custom);
+      case 'center':
+      default:
+        return { x: canvas.width / 2, y: canvas.height / 2 };
+    }
+  }
+
+  /**
+   * 自定义位置：像素值或百分比（如'25%'），相对画布左上角，缺省时居中
+   */
+  private resolveCustomPosition(canvas: HTMLCanvasElement, custom?: CustomPositionConfig): { x: number; y: number } {
+    const resolve = (value: number | string | undefined, size: number): number => {
+      if (typeof value === 'string' && value.trim().endsWith('%')) {
+        return (size * parseFloat(value)) / 100;
+      }
+      const pixels = Number(value);
+      return value !== undefined && value !== '' && Number.isFinite(pixels) ? pixels : size / 2;
+    };
+    return { x: resolve(custom?.x, canvas.width), y: resolve(custom?.y, canvas.height) };
+  }
+
+  /**
+   * 以指定点为中心绘制印章（应用旋转）
+   */
+  private drawStampAt(
+    ctx: CanvasRenderingContext2D,
+    stamp: HTMLCanvasElement,
+    x: number,
+    y: number,
+    settings: SimpleWatermarkSettings
+  ): void {
+    ctx.save();
+    ctx.translate(x, y);
+
+    if (settings.position.rotation) {
+      ctx.rotate((settings.position.rotation * Math.PI) / 180);
+    }
+
+    ctx.drawImage(stamp, -stamp.width / 2, -stamp.height / 2);
+    ctx.restore();
+  }
+
   /**
    * 绘制单个水印
    */
@@ -411,25 +1232,29 @@ export class SimpleWatermarkProcessor {
     content: string,
     settings: SimpleWatermarkSettings
   ): void {
-    const pattern = settings.position.pattern!;
-    const positions: Array<{ x: number; y: number }> = [];
+    const positions = this.calculatePatternPositions(canvas, settings.position.pattern!);
 
+    // 绘制所有位置的水印
+    positions.forEach(pos => {
+      this.drawSingleWatermark(ctx, content, pos.x, pos.y, settings);
+    });
+  }
+
+  /**
+   * 根据模式类型计算所有水印位置
+   */
+  private calculatePatternPositions(
+    canvas: HTMLCanvasElement,
+    pattern: NonNullable<SimpleWatermarkSettings['position']['pattern']>
+  ): Array<{ x: number; y: number }> {
     switch (pattern.type) {
       case 'tiled-3-column':
-        positions.push(...this.calculateTiledPositions(canvas, pattern, 3));
-        break;
+        return this.calculateTiledPositions(canvas, pattern, 3);
       case 'random':
-        positions.push(...this.calculateRandomPositions(canvas, pattern));
-        break;
+        return this.calculateRandomPositions(canvas, pattern);
       default:
-        positions.push(...this.calculateDefaultPatternPositions(canvas, pattern));
-        break;
+        return this.calculateDefaultPatternPositions(canvas, pattern);
     }
-
-    // 绘制所有位置的水印
-    positions.forEach(pos => {
-      this.drawSingleWatermark(ctx, content, pos.x, pos.y, settings);
-    });
   }
 
   /**
@@ -0,0 +1,440 @@
+/**
+ * 水印模板库 - 持久化的可复用水印配置
+ * 支持版本历史、自动缩略图、标签、按文件类型的默认模板以及JSON导入导出
+ */
+
+import type { WatermarkSettings } from '@/types/watermark.types';
+import type {
+  SerializedWatermarkSettings,
+  TemplateDraft,
+  TemplateExportFile,
+  TemplateFileType,
+  TemplateImportResult,
+  TemplateUpdate,
+  WatermarkTemplateRecord
+} from '@/types/template.types';
+import { createTemplateStorage, type TemplateStorage } from './TemplateStorage';
+
+export type ThumbnailRenderer = (settings: WatermarkSettings) => Promise<string | undefined>;
+
+export interface TemplateLibraryOptions {
+  storage?: TemplateStorage;
+  thumbnailRenderer?: ThumbnailRenderer;
+  maxHistory?: number;           // 每个模板保留的历史版本数
+}
+
+export interface TemplateImportOptions {
+  overwrite?: boolean;           // 同id模板即使版本不更新也覆盖
+}
+
+const EXPORT_FORMAT = 'watermark-template-library';
+const SCHEMA_VERSION = 1;
+const THUMBNAIL_WIDTH = 160;
+const THUMBNAIL_HEIGHT = 120;
+
+export class TemplateLibrary {
+  private readonly storage: TemplateStorage;
+  private readonly renderThumbnail: ThumbnailRenderer;
+  private readonly maxHistory: number;
+
+  constructor(options: TemplateLibraryOptions = {}) {
+    this.storage = options.storage || createTemplateStorage();
+    this.renderThumbnail = options.thumbnailRenderer || TemplateLibrary.renderDefaultThumbnail;
+    this.maxHistory = options.maxHistory ?? 20;
+  }
+
+  /**
+   * 根据MIME类型和扩展名判断模板适用的文件类型
+   */
+  static getFileType(file: File): TemplateFileType | null {
+    const name = file.name.toLowerCase();
+    if (file.type.startsWith('image/')) return 'image';
+    if (file.type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+    if (/\.(docx?|rtf)$/.test(name) || file.type === 'application/msword' || file.type.includes('wordprocessingml')) {
+      return 'word';
+    }
+    if (name.endsWith('.xlsx') || file.type.includes('spreadsheetml')) return 'excel';
+    if (name.endsWith('.pptx') || file.type.includes('presentationml')) return 'powerpoint';
+    return null;
+  }
+
+  /**
+   * 列出模板，可按标签或名称/描述关键字筛选
+   */
+  async list(filter: { tag?: string; search?: string } = {}): Promise<WatermarkTemplateRecord[]> {
+    const search = filter.search?.trim().toLowerCase();
+    const records = await this.storage.getAll();
+
+    return records
+      .filter(record => !filter.tag || record.tags.includes(filter.tag))
+      .filter(record => !search ||
+        record.name.toLowerCase().includes(search) ||
+        record.description.toLowerCase().includes(search))
+      .sort((a, b) => a.name.localeCompare(b.name, 'zh-CN'));
+  }
+
+  async get(id: string): Promise<WatermarkTemplateRecord | undefined> {
+    return this.storage.get(id);
+  }
+
+  async getTags(): Promise<string[]> {
+    const records = await this.storage.getAll();
+    return Array.from(new Set(records.flatMap(record => record.tags))).sort();
+  }
+
+  /**
+   * 新建模板并生成缩略图
+   */
+  async create(draft: TemplateDraft): Promise<WatermarkTemplateRecord> {
+    const name = draft.name.trim();
+    if (!name) {
+      throw new Error('模板名称不能为空');
+    }
+
+    const now = new Date().toISOString();
+    const settings = this.omitPasswords(draft.settings);
+    const record: WatermarkTemplateRecord = {
+      id: `template-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      description: draft.description || '',
+      tags: this.normalizeTags(draft.tags),
+      settings,
+      thumbnail: await this.safeRenderThumbnail(settings),
+      version: 1,
+      history: [],
+      defaultFor: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.storage.put(record);
+    for (const fileType of draft.defaultFor || []) {
+      await this.setDefault(record.id, fileType);
+    }
+
+    console.log('💾 模板已保存:', { id: record.id, name: record.name });
+    return (await this.storage.get(record.id)) || record;
+  }
+
+  /**
+   * 更新模板，设置变化时旧版本进入历史并递增版本号
+   */
+  async update(id: string, changes: TemplateUpdate): Promise<WatermarkTemplateRecord> {
+    const existing = await this.require(id);
+    const updated: WatermarkTemplateRecord = {
+      ...existing,
+      name: changes.name?.trim() || existing.name,
+      description: changes.description ?? existing.description,
+      tags: changes.tags ? this.normalizeTags(changes.tags) : existing.tags,
+      updatedAt: new Date().toISOString()
+    };
+
+    const settings = changes.settings && this.omitPasswords(changes.settings);
+    if (settings && JSON.stringify(settings) !== JSON.stringify(existing.settings)) {
+      updated.history = [
+        {
+          version: existing.version,
+          settings: this.omitPasswords(existing.settings),
+          thumbnail: existing.thumbnail,
+          note: existing.note,
+          savedAt: existing.updatedAt
+        },
+        ...existing.history
+      ].slice(0, this.maxHistory);
+      updated.settings = settings;
+      updated.version = existing.version + 1;
+      updated.note = changes.note;
+      updated.thumbnail = await this.safeRenderThumbnail(settings);
+    }
+
+    await this.storage.put(updated);
+    return updated;
+  }
+
+  /**
+   * 恢复到历史版本（作为新版本保存，历史不会丢失）
+   */
+  async revert(id: string, version: number): Promise<WatermarkTemplateRecord> {
+    const existing = await this.require(id);
+    const target = existing.history.find(entry => entry.version === version);
+    if (!target) {
+      throw new Error(`模板不存在版本 ${version}`);
+    }
+    return this.update(id, { settings: target.settings, note: `恢复到版本 ${version}` });
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.storage.delete(id);
+  }
+
+  /**
+   * 设为某文件类型的默认模板，同类型的其他默认会被取消
+   */
+  async setDefault(id: string, fileType: TemplateFileType): Promise<void> {
+    await this.require(id);
+    const records = await this.storage.getAll();
+
+    for (const record of records) {
+      const isTarget = record.id === id;
+      const hasType = record.defaultFor.includes(fileType);
+      if (isTarget && !hasType) {
+        await this.storage.put({ ...record, defaultFor: [...record.defaultFor, fileType] });
+      } else if (!isTarget && hasType) {
+        await this.storage.put({ ...record, defaultFor: record.defaultFor.filter(type => type !== fileType) });
+      }
+    }
+  }
+
+  async clearDefault(fileType: TemplateFileType): Promise<void> {
+    const records = await this.storage.getAll();
+    for (const record of records.filter(record => record.defaultFor.includes(fileType))) {
+      await this.storage.put({ ...record, defaultFor: record.defaultFor.filter(type => type !== fileType) });
+    }
+  }
+
+  async getDefault(fileType: TemplateFileType): Promise<WatermarkTemplateRecord | undefined> {
+    const records = await this.storage.getAll();
+    return records.find(record => record.defaultFor.includes(fileType));
+  }
+
+  /**
+   * 导出模板（默认全部），图片水印的源文件转为data URL
+   */
+  async exportTemplates(ids?: string[]): Promise<TemplateExportFile> {
+    const records = await this.list();
+    const selected = ids ? records.filter(record => ids.includes(record.id)) : records;
+
+    return {
+      format: EXPORT_FORMAT,
+      schemaVersion: SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      templates: await Promise.all(selected.map(async record => ({
+        ...record,
+        settings: await this.serializeSettings(record.settings),
+        history: await Promise.all(record.history.map(async entry => ({
+          ...entry,
+          settings: await this.serializeSettings(entry.settings)
+        })))
+      })))
+    };
+  }
+
+  async exportToJson(ids?: string[]): Promise<string> {
+    return JSON.stringify(await this.exportTemplates(ids), null, 2);
+  }
+
+  /**
+   * 导入模板：新模板直接加入，同id模板仅在版本更新或overwrite时覆盖
+   */
+  async importTemplates(
+    source: string | TemplateExportFile,
+    options: TemplateImportOptions = {}
+  ): Promise<TemplateImportResult> {
+    let data: TemplateExportFile;
+    try {
+      data = typeof source === 'string' ? JSON.parse(source) : source;
+    } catch {
+      throw new Error('模板文件不是有效的JSON');
+    }
+
+    if (!data || data.format !== EXPORT_FORMAT || !Array.isArray(data.templates)) {
+      throw new Error('不是有效的水印模板库文件');
+    }
+    if (data.schemaVersion > SCHEMA_VERSION) {
+      throw new Error(`模板文件版本过新 (${data.schemaVersion})，请升级应用后再导入`);
+    }
+
+    const result: TemplateImportResult = { imported: 0, updated: 0, skipped: 0, errors: [] };
+    const claimedDefaults: Array<{ id: string; fileType: TemplateFileType }> = [];
+
+    for (const [index, raw] of data.templates.entries()) {
+      if (!raw || typeof raw.id !== 'string' || typeof raw.name !== 'string' || !this.hasRequiredSettings(raw.settings) ||
+          (raw.history !== undefined && (!Array.isArray(raw.history) ||
+            !raw.history.every(entry => entry && this.hasRequiredSettings(entry.settings))))) {
+        result.errors.push(`第${index + 1}个模板缺少必要字段`);
+        continue;
+      }
+
+      const existing = await this.storage.get(raw.id);
+      if (existing && !options.overwrite && (raw.version || 1) <= existing.version) {
+        result.skipped++;
+        continue;
+      }
+
+      const settings = this.omitPasswords(this.deserializeSettings(raw.settings));
+      const record: WatermarkTemplateRecord = {
+        id: raw.id,
+        name: raw.name,
+        description: raw.description || '',
+        tags: this.normalizeTags(raw.tags),
+        settings,
+        thumbnail: raw.thumbnail || await this.safeRenderThumbnail(settings),
+        version: raw.version || 1,
+        note: raw.note,
+        history: (raw.history || []).map(entry => ({
+          ...entry,
+          settings: this.omitPasswords(this.deserializeSettings(entry.settings))
+        })),
+        defaultFor: existing?.defaultFor || [],
+        createdAt: raw.createdAt || new Date().toISOString(),
+        updatedAt: raw.updatedAt || new Date().toISOString()
+      };
+
+      await this.storage.put(record);
+      (raw.defaultFor || []).forEach(fileType => claimedDefaults.push({ id: record.id, fileType }));
+      existing ? result.updated++ : result.imported++;
+    }
+
+    // 导入的默认设置覆盖本地默认
+    for (const { id, fileType } of claimedDefaults) {
+      await this.setDefault(id, fileType);
+    }
+
+    console.log('📥 模板导入完成:', result);
+    return result;
+  }
+
+  private async require(id: string): Promise<WatermarkTemplateRecord> {
+    const record = await this.storage.get(id);
+    if (!record) {
+      throw new Error('模板不存在');
+    }
+    return record;
+  }
+
+  /**
+   * 导入的设置至少要有布局、安全和输出配置，否则无法使用
+   */
+  private hasRequiredSettings(settings: unknown): settings is SerializedWatermarkSettings {
+    const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+    return isObject(settings) && isObject(settings.position) && isObject(settings.security) && isObject(settings.output);
+  }
+
+  private normalizeTags(tags?: string[]): string[] {
+    return Array.from(new Set((tags || []).map(tag => tag.trim()).filter(Boolean)));
+  }
+
+  private async safeRenderThumbnail(settings: WatermarkSettings): Promise<string | undefined> {
+    try {
+      return await this.renderThumbnail(settings);
+    } catch (error) {
+      console.warn('⚠️ 模板缩略图生成失败:', error);
+      return undefined;
+    }
+  }
+
+  private async serializeSettings(settings: WatermarkSettings): Promise<SerializedWatermarkSettings> {
+    const { image, ...rest } = this.omitPasswords(settings);
+    if (!image) {
+      return rest;
+    }
+
+    const { source, ...options } = image;
+    if (source instanceof Blob) {
+      return { ...rest, image: { ...options, source: await this.blobToDataUrl(source) } };
+    }
+    // ImageData无法可靠序列化，导出时省略图片源
+    console.warn('⚠️ 导出时省略了ImageData类型的图片水印源');
+    return { ...rest, image: options };
+  }
+
+  /**
+   * PDF打开密码和权限密码不保存到模板，也不随模板导出
+   */
+  private omitPasswords(settings: WatermarkSettings): WatermarkSettings {
+    const { pdfPassword: _password, ...security } = settings.security;
+    const encryption = settings.output.encryption;
+    return {
+      ...settings,
+      security,
+      output: encryption
+        ? { ...settings.output, encryption: { ...encryption, userPassword: '', ownerPassword: '' } }
+        : settings.output
+    };
+  }
+
+  private deserializeSettings(settings: SerializedWatermarkSettings): WatermarkSettings {
+    const { image, ...rest } = settings;
+    if (!image) {
+      return rest;
+    }
+
+    // 没有可用图片源（导出时省略）的图片设置无法使用，丢弃
+    const { source, ...options } = image;
+    if (typeof source !== 'string' || !source.startsWith('data:')) {
+      console.warn('⚠️ 模板中的图片水印缺少图片源，已忽略');
+      return rest;
+    }
+
+    const [header, payload] = source.split(',', 2);
+    const mimeType = header.slice(5).split(';')[0] || 'application/octet-stream';
+    const binary = header.includes(';base64') ? atob(payload) : decodeURIComponent(payload);
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    return { ...rest, image: { ...options, source: new Blob([bytes], { type: mimeType }) } };
+  }
+
+  private blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error('读取图片水印源失败'));
+      reader.readAsDataURL(blob);
+    });
+  }
+
+  /**
+   * 默认缩略图：在小画布上按透明度和角度绘制水印文字或图片
+   */
+  private static async renderDefaultThumbnail(settings: WatermarkSettings): Promise<string | undefined> {
+    if (typeof document === 'undefined') {
+      return undefined;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_WIDTH;
+    canvas.height = THUMBNAIL_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      return undefined;
+    }
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+    ctx.globalAlpha = Math.max(0.15, settings.position?.opacity ?? 0.5);
+
+    const tiled = ['grid', 'pattern'].includes(settings.position?.placement);
+    const points = tiled
+      ? [[40, 30], [120, 30], [80, 60], [40, 90], [120, 90]]
+      : [[THUMBNAIL_WIDTH / 2, THUMBNAIL_HEIGHT / 2]];
+    const angle = ((settings.position?.rotation ?? 0) * Math.PI) / 180;
+
+    let image: ImageBitmap | undefined;
+    if (settings.type !== 'text' && settings.image?.source instanceof Blob && typeof createImageBitmap === 'function') {
+      image = await createImageBitmap(settings.image.source).catch(() => undefined);
+    }
+
+    const text = settings.type !== 'image' ? settings.text?.content : undefined;
+    const color = settings.text?.color;
+    ctx.fillStyle = typeof color === 'string' ? color : color?.primary || '#666666';
+    ctx.font = `${settings.text?.font?.weight || 'normal'} ${tiled ? 11 : 16}px ${settings.text?.font?.family || 'sans-serif'}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    for (const [x, y] of points) {
+      ctx.save();
+      ctx.translate(x, y);
+      ctx.rotate(angle);
+      if (image) {
+        const size = tiled ? 24 : 48;
+        const scale = size / Math.max(image.width, image.height);
+        ctx.drawImage(image, (-image.width * scale) / 2, (-image.height * scale) / 2, image.width * scale, image.height * scale);
+      }
+      if (text) {
+        ctx.fillText(text, 0, image ? (tiled ? 16 : 32) : 0, THUMBNAIL_WIDTH);
+      }
+      ctx.restore();
+    }
+
+    return canvas.toDataURL('image/png');
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * 水印模板存储 - IndexedDB持久化，不可用时退回内存存储
+ */
+
+import type { WatermarkTemplateRecord } from '@/types/template.types';
+import {
+  createRecordStorage,
+  IndexedDBRecordStorage,
+  MemoryRecordStorage,
+  type RecordStorage
+} from './RecordStorage';
+
+export type TemplateStorage = RecordStorage<WatermarkTemplateRecord>;
+
+export class IndexedDBTemplateStorage extends IndexedDBRecordStorage<WatermarkTemplateRecord> {
+  constructor(dbName: string = 'watermark-templates', factory?: IDBFactory) {
+    super(dbName, 'templates', factory);
+  }
+}
+
+export class MemoryTemplateStorage extends MemoryRecordStorage<WatermarkTemplateRecord> {}
+
+export function createTemplateStorage(): TemplateStorage {
+  return createRecordStorage<WatermarkTemplateRecord>('watermark-templates', 'templates', '模板');
+}
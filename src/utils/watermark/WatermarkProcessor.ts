@@ -10,13 +10,15 @@ import type {
   WatermarkResult,
   ValidationResult,
   ProcessingMetadata,
-  ProcessedImageData
+  ProcessedImageData,
+  InvisibleWatermarkConfig
 } from '@/types/watermark.types';
 import type { CertificateData } from '@/types/worker.types';
 
 import { CanvasRenderer } from '@/engines/canvas/CanvasRenderer';
 import { WorkerPool } from '@/workers/WorkerPool';
 import { CertificateSystem } from '@/engines/crypto/CertificateSystem';
+import { InvisibleWatermark } from '@/engines/watermark/InvisibleWatermark';
 
 export class WatermarkProcessor implements IWatermarkProcessor {
   private _canvasRenderer: CanvasRenderer;
@@ -65,10 +67,28 @@ export class WatermarkProcessor implements IWatermarkProcessor {
       const imageData = await this._loadImageData(image);
       
       // 根据设置选择处理策略
-      const processedImage = await this._processWithStrategy(imageData, image, settings);
+      let processedImage = await this._processWithStrategy(imageData, image, settings);
+
+      // 嵌入隐形水印（在可见水印之后，避免载荷被覆盖；失败时跳过并给出警告）
+      const warnings: string[] = [];
+      let invisibleEmbedded = false;
+      const invisibleWatermark = settings.security.invisibleWatermark;
+      if (invisibleWatermark?.enabled) {
+        try {
+          processedImage = await this._applyInvisibleWatermark(processedImage, invisibleWatermark, settings);
+          invisibleEmbedded = true;
+        } catch (error) {
+          console.warn('⚠️ 隐形水印嵌入失败，已跳过:', error);
+          warnings.push(`未嵌入隐形水印：${error instanceof Error ? error.message : '未知错误'}`);
+        }
+      }
       
       // 生成处理元数据
-      const metadata = this._generateMetadata(settings, startTime, image, processedImage);
+      const metadata = {
+        ...this._generateMetadata(settings, startTime, image, processedImage),
+        invisibleWatermark: invisibleEmbedded,
+        warnings: warnings.length > 0 ? warnings : undefined
+      };
       
       // 生成证书（如果启用）
       let certificate: CertificateData | undefined;
@@ -223,7 +243,7 @@ export class WatermarkProcessor implements IWatermarkProcessor {
     }
   }
 
-  private async _loadImageData(image: File): Promise<ImageData> {
+  private async _loadImageData(image: Blob): Promise<ImageData> {
     return new Promise((resolve, reject) => {
       const img = new Image();
       const canvas = document.createElement('canvas');
@@ -251,6 +271,79 @@ export class WatermarkProcessor implements IWatermarkProcessor {
     });
   }
 
+  /**
+   * 在已加可见水印的图像上嵌入隐形水印并重新编码
+   */
+  private async _applyInvisibleWatermark(
+    processedImage: ProcessedImageData,
+    config: InvisibleWatermarkConfig,
+    settings: WatermarkSettings
+  ): Promise<ProcessedImageData> {
+    const imageData = await this._embedInvisibleWatermark(await this._loadImageData(processedImage.blob), config);
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Cannot create canvas context');
+    }
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    ctx.putImageData(imageData, 0, 0);
+
+    const blob = await new Promise<Blob | null>(resolve =>
+      canvas.toBlob(resolve, `image/${settings.output.format}`, settings.output.quality)
+    );
+    if (!blob) {
+      throw new Error('Failed to encode image');
+    }
+
+    return {
+      blob,
+      dataUrl: URL.createObjectURL(blob),
+      dimensions: { width: canvas.width, height: canvas.height },
+      format: settings.output.format,
+      size: blob.size
+    };
+  }
+
+  private async _embedInvisibleWatermark(
+    imageData: ImageData,
+    config: InvisibleWatermarkConfig
+  ): Promise<ImageData> {
+    const isLargeImage = imageData.width * imageData.height > 2048 * 2048; // 4MP
+
+    // 大图交给Worker，Worker不可用或失败时回退到主线程
+    if (isLargeImage && typeof Worker !== 'undefined') {
+      try {
+        const result = await this._workerPool.execute({
+          id: `invisible-embed-${Date.now()}`,
+          type: 'invisible-embed',
+          data: {
+            imageData,
+            invisibleWatermark: {
+              payload: config.payload,
+              key: config.key,
+              strength: config.strength
+            },
+            options: { quality: 1, format: 'png' }
+          },
+          priority: 'normal',
+          timeout: 60000
+        });
+
+        if (result.success && result.data?.imageData) {
+          return result.data.imageData;
+        }
+        console.warn('⚠️ Worker嵌入隐形水印失败，回退到主线程:', result.error);
+      } catch (error) {
+        console.warn('⚠️ Worker嵌入隐形水印失败，回退到主线程:', error);
+      }
+    }
+
+    InvisibleWatermark.embed(imageData, config.payload, { key: config.key, strength: config.strength });
+    return imageData;
+  }
+
   private async _processWithStrategy(
     imageData: ImageData,
     originalFile: File,
@@ -0,0 +1,292 @@
+/**
+ * 水印文字动态变量 - 用于泄露追踪
+ * 语法：{name} 或 {name:参数}，{{ 和 }} 输出字面量花括号
+ * 文件级变量在处理每个文件前解析，{page}/{pages}由PDF渲染按页解析，{bates}仅由页眉页脚加盖解析
+ */
+
+export interface WatermarkVariableValues {
+  user?: string;
+  email?: string;
+  id?: string;                    // 收件人编号
+}
+
+export interface WatermarkVariableContext extends WatermarkVariableValues {
+  filename?: string;
+  date?: Date;                    // 处理时间
+  uuid?: string;                  // 每个文件一个
+  hash?: string;                  // 文件内容SHA-256（十六进制）
+  page?: number;
+  pages?: number;
+  bates?: string;                 // 当前页的Bates编号，仅加盖页眉页脚时提供
+}
+
+export interface WatermarkVariableValidation {
+  valid: boolean;
+  errors: string[];
+  variables: string[];            // 出现的变量名（去重）
+  pageDependent: boolean;         // 含{page}/{pages}，逐页不同
+}
+
+export interface WatermarkTextPreview extends WatermarkVariableValidation {
+  text: string;
+  warnings: string[];
+}
+
+interface VariableDefinition {
+  description: string;
+  argument?: 'format' | 'length';
+}
+
+const VARIABLES: Record<string, VariableDefinition> = {
+  user: { description: '用户名' },
+  email: { description: '邮箱' },
+  id: { description: '收件人编号（分发模式按收件人填入）' },
+  date: { description: '处理日期，默认格式YYYY-MM-DD', argument: 'format' },
+  time: { description: '处理时间，默认格式HH:mm:ss', argument: 'format' },
+  filename: { description: '文件名' },
+  page: { description: '当前页码（PDF逐页）' },
+  pages: { description: '总页数' },
+  bates: { description: 'Bates编号（PDF页眉页脚，整批连续递增）' },
+  uuid: { description: '每个文件唯一的ID，可指定截取长度', argument: 'length' },
+  hash: { description: '文件内容SHA-256摘要，默认取前8位', argument: 'length' }
+};
+
+const PAGE_VARIABLES = new Set(['page', 'pages']);
+const TOKEN_PATTERN = /\{\{|\}\}|\{([a-zA-Z]+)(?::([^{}]*))?\}/g;
+const DATE_TOKEN_PATTERN = /YYYY|YY|MM|DD|HH|mm|ss/g;
+
+export class WatermarkVariables {
+  /**
+   * 支持的变量及说明，供界面展示
+   */
+  static getDefinitions(): Array<{ name: string; syntax: string; description: string }> {
+    return Object.entries(VARIABLES).map(([name, definition]) => ({
+      name,
+      syntax: definition.argument === 'format' ? `{${name}:格式}` : definition.argument === 'length' ? `{${name}:长度}` : `{${name}}`,
+      description: definition.description
+    }));
+  }
+
+  static hasVariables(text: string): boolean {
+    return this.scan(text).some(token => token.name);
+  }
+
+  static hasPageVariables(text: string): boolean {
+    return this.scan(text).some(token => token.name && PAGE_VARIABLES.has(token.name));
+  }
+
+  /**
+   * 检查变量名和参数是否有效
+   */
+  static validate(text: string): WatermarkVariableValidation {
+    const errors: string[] = [];
+    const variables = new Set<string>();
+
+    for (const { raw, name, argument } of this.scan(text)) {
+      if (!name) continue;
+
+      const definition = VARIABLES[name];
+      if (!definition) {
+        errors.push(`未知变量 ${raw}`);
+        continue;
+      }
+      variables.add(name);
+
+      if (argument === undefined) continue;
+      if (!definition.argument) {
+        errors.push(`变量 {${name}} 不支持参数`);
+      } else if (definition.argument === 'length' && !/^\d+$/.test(argument)) {
+        errors.push(`变量 ${raw} 的长度必须是正整数`);
+      } else if (definition.argument === 'format' && !argument.match(DATE_TOKEN_PATTERN)) {
+        errors.push(`变量 ${raw} 的格式中没有日期时间占位符`);
+      }
+    }
+
+    const unclosed = text.replace(TOKEN_PATTERN, '').match(/[{}]/);
+    if (unclosed) {
+      errors.push('存在未配对的花括号，字面量请写作 {{ 或 }}');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      variables: Array.from(variables),
+      pageDependent: Array.from(variables).some(name => PAGE_VARIABLES.has(name))
+    };
+  }
+
+  /**
+   * 解析变量；keepPageVariables时保留{page}/{pages}留待逐页解析
+   */
+  static resolve(
+    text: string,
+    context: WatermarkVariableContext,
+    options: { keepPageVariables?: boolean } = {}
+  ): string {
+    // 保留页码变量时，代入的值需要转义，避免逐页解析时被再次当作变量
+    const keep = options.keepPageVariables;
+    const escape = (value: string) => keep ? value.replace(/[{}]/g, brace => brace + brace) : value;
+
+    return text.replace(TOKEN_PATTERN, (raw, name?: string, argument?: string) => {
+      if (raw === '{{') return keep ? raw : '{';
+      if (raw === '}}') return keep ? raw : '}';
+      if (!name || !VARIABLES[name]) return raw;
+      if (keep && PAGE_VARIABLES.has(name)) return raw;
+      // Bates编号只在加盖页眉页脚时提供，其他场合原样保留
+      if (name === 'bates' && context.bates === undefined) return raw;
+      return escape(this.resolveVariable(name, argument, context));
+    });
+  }
+
+  /**
+   * 逐页解析{page}/{pages}（文件级变量已由resolve处理）
+   */
+  static resolvePage(text: string, page: number, pages: number): string {
+    return this.resolve(text, { page, pages });
+  }
+
+  /**
+   * 返回水印文字已解析的设置副本，文字不含变量时原样返回
+   */
+  static applyToSettings<T extends {
+    text?: { content: string };
+    pageRules?: Array<{ text?: { content?: string } }>;
+  }>(
+    settings: T,
+    context: WatermarkVariableContext,
+    options: { keepPageVariables?: boolean } = {}
+  ): T {
+    let result = settings;
+    const content = settings.text?.content;
+    if (content && /[{}]/.test(content)) {
+      result = { ...result, text: { ...settings.text!, content: this.resolve(content, context, options) } };
+    }
+    // 按页规则的文字同样解析
+    if (settings.pageRules?.some(rule => /[{}]/.test(rule.text?.content || ''))) {
+      result = {
+        ...result,
+        pageRules: settings.pageRules.map(rule => rule.text?.content
+          ? { ...rule, text: { ...rule.text, content: this.resolve(rule.text.content, context, options) } }
+          : rule)
+      };
+    }
+    return result;
+  }
+
+  /**
+   * 为单个文件准备变量上下文，仅在需要时计算文件哈希
+   */
+  static async createFileContext(
+    file: File,
+    text: string,
+    values: WatermarkVariableValues = {}
+  ): Promise<WatermarkVariableContext> {
+    const used = new Set(this.scan(text).map(token => token.name));
+    return {
+      ...values,
+      filename: file.name,
+      date: new Date(),
+      uuid: used.has('uuid') ? this.createUuid() : undefined,
+      hash: used.has('hash') ? await this.hashFile(file) : undefined
+    };
+  }
+
+  /**
+   * 预览解析结果：未提供的文件信息使用示例值
+   */
+  static preview(text: string, context: WatermarkVariableContext = {}): WatermarkTextPreview {
+    const validation = this.validate(text);
+    const warnings: string[] = [];
+
+    if (validation.variables.includes('user') && !context.user) warnings.push('未设置 {user} 的值');
+    if (validation.variables.includes('email') && !context.email) warnings.push('未设置 {email} 的值');
+    if (validation.pageDependent) warnings.push('{page}/{pages} 仅对PDF输出逐页生效，其他格式按第1页共1页处理');
+    if (validation.variables.includes('bates') && !context.bates) warnings.push('{bates} 仅在PDF页眉页脚中生效，水印文字中不会替换');
+
+    return {
+      ...validation,
+      warnings,
+      text: this.resolve(text, {
+        filename: 'example.pdf',
+        uuid: '3f2b8c4e-9a1d-4e7b-8c6f-2d5a9e1b7c30',
+        hash: 'a3f5c9e2b7d14f6a8e0c2b4d6f8a1c3e5b7d9f0a2c4e6b8d0f1a3c5e7b9d2f4a',
+        page: 1,
+        pages: 3,
+        ...context
+      })
+    };
+  }
+
+  private static resolveVariable(name: string, argument: string | undefined, context: WatermarkVariableContext): string {
+    const date = context.date || new Date();
+    switch (name) {
+      case 'user':
+        return context.user || '';
+      case 'email':
+        return context.email || '';
+      case 'id':
+        return context.id || '';
+      case 'filename':
+        return context.filename || '';
+      case 'date':
+        return this.formatDate(date, argument || 'YYYY-MM-DD');
+      case 'time':
+        return this.formatDate(date, argument || 'HH:mm:ss');
+      case 'page':
+        return String(context.page ?? 1);
+      case 'pages':
+        return String(context.pages ?? 1);
+      case 'bates':
+        return context.bates ?? '';
+      case 'uuid':
+        return this.truncate(context.uuid || '', argument);
+      case 'hash':
+        return this.truncate(context.hash || '', argument || '8');
+      default:
+        return '';
+    }
+  }
+
+  private static scan(text: string): Array<{ raw: string; name?: string; argument?: string }> {
+    return Array.from(text.matchAll(TOKEN_PATTERN), match => ({
+      raw: match[0],
+      name: match[1],
+      argument: match[2]
+    }));
+  }
+
+  private static formatDate(date: Date, format: string): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const parts: Record<string, string> = {
+      YYYY: String(date.getFullYear()),
+      YY: String(date.getFullYear()).slice(-2),
+      MM: pad(date.getMonth() + 1),
+      DD: pad(date.getDate()),
+      HH: pad(date.getHours()),
+      mm: pad(date.getMinutes()),
+      ss: pad(date.getSeconds())
+    };
+    return format.replace(DATE_TOKEN_PATTERN, token => parts[token]);
+  }
+
+  private static truncate(value: string, length?: string): string {
+    const count = length ? parseInt(length, 10) : NaN;
+    return Number.isFinite(count) && count > 0 ? value.slice(0, count) : value;
+  }
+
+  private static createUuid(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+      return crypto.randomUUID();
+    }
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+    const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  }
+
+  private static async hashFile(file: File): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new Uint8Array(await file.arrayBuffer()));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+}
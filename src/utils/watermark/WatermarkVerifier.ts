@@ -0,0 +1,178 @@
+/**
+ * 水印文件验证器 - 检查文件真伪
+ * 证书签名与哈希校验、篡改检测、感知哈希相似度、篡改区域热力图、签发者信息
+ */
+
+import { CertificateSystem, type TrustedPublicKey } from '@/engines/crypto/CertificateSystem';
+import { HashGenerator, type BlockHashGrid, type TamperMap } from '@/engines/crypto/HashGenerator';
+import type { CertificateData } from '@/types/worker.types';
+
+export interface WatermarkVerifyOptions {
+  certificate?: CertificateData; // 外部证书，未提供时读取文件内嵌证书
+  trustedPublicKey?: TrustedPublicKey;
+}
+
+export interface VerificationReport {
+  fileName: string;
+  certificateSource: 'embedded' | 'external' | 'none';
+  isValid: boolean;
+  hashValid: boolean;
+  signatureValid: boolean;
+  trustedKey: boolean;
+  timestampValid: boolean;
+  tamperDetected: boolean;
+  confidence: number;
+  errors: string[];
+  issuer?: {
+    name?: string;
+    keyFingerprint?: string;
+    issuedAt?: number;
+  };
+  perceptual?: {
+    originalHash?: string;
+    currentHash: string;
+    similarity?: number;
+  };
+  tamperMap?: TamperMap;
+  certificate?: CertificateData;
+}
+
+interface CertificateImageData {
+  issuer?: string;
+  perceptualHash?: string;
+  blockHashes?: BlockHashGrid;
+}
+
+export class WatermarkVerifier {
+  static readonly BLOCK_GRID = 16;
+
+  private static readonly _certificateSystem = new CertificateSystem();
+
+  /**
+   * 验证文件：证书有效性、哈希匹配、篡改检测与感知相似度
+   */
+  static async verify(file: File, options: WatermarkVerifyOptions = {}): Promise<VerificationReport> {
+    const validation = options.certificate
+      ? await this._certificateSystem.validateCertificate(options.certificate, file, options.trustedPublicKey)
+      : await this._certificateSystem.validateCertificate(file, options.trustedPublicKey);
+
+    const certificate = validation.certificate;
+    const metadata = certificate?.metadata || {};
+    const additionalData = (metadata.additionalData || {}) as CertificateImageData;
+
+    const report: VerificationReport = {
+      fileName: file.name,
+      certificateSource: options.certificate ? 'external' : certificate ? 'embedded' : 'none',
+      isValid: validation.isValid,
+      hashValid: validation.details.hashValid,
+      signatureValid: validation.details.signatureValid,
+      trustedKey: validation.details.trustedKey,
+      timestampValid: validation.details.timestampValid,
+      tamperDetected: validation.details.tamperDetected,
+      confidence: validation.details.confidence,
+      errors: validation.errors,
+      certificate
+    };
+
+    if (certificate) {
+      report.issuer = {
+        name: additionalData.issuer,
+        keyFingerprint: metadata.keyFingerprint as string | undefined,
+        issuedAt: certificate.timestamp
+      };
+    }
+
+    // 图片额外比较感知哈希：哈希不匹配时判断内容是否仍然相近，并定位被修改的区域
+    const imageData = file.type.startsWith('image/') ? await this.decodeImage(file) : null;
+    if (imageData) {
+      const currentHash = await HashGenerator.perceptualHash(imageData);
+      const originalHash = additionalData.perceptualHash;
+      report.perceptual = {
+        originalHash,
+        currentHash,
+        similarity: originalHash && originalHash.length === currentHash.length
+          ? HashGenerator.calculateSimilarity(originalHash, currentHash)
+          : undefined
+      };
+
+      const original = additionalData.blockHashes;
+      if (original) {
+        const current = HashGenerator.blockPerceptualHashes(imageData, Math.max(original.cols, original.rows));
+        if (current.cols === original.cols && current.rows === original.rows) {
+          report.tamperMap = HashGenerator.compareBlockHashes(original, current);
+        }
+      }
+    }
+
+    console.log(`🔍 文件验证完成: ${file.name}`, {
+      isValid: report.isValid,
+      source: report.certificateSource,
+      tamperDetected: report.tamperDetected
+    });
+
+    return report;
+  }
+
+  /**
+   * 读取外部证书JSON文件
+   */
+  static async readCertificateFile(file: Blob): Promise<CertificateData> {
+    let certificate: any;
+    try {
+      certificate = JSON.parse(await file.text());
+    } catch {
+      throw new Error('证书文件不是有效的JSON');
+    }
+
+    if (!certificate || typeof certificate.hash !== 'string' ||
+        typeof certificate.signature !== 'string' || typeof certificate.metadata !== 'object') {
+      throw new Error('证书文件格式无效');
+    }
+
+    return certificate as CertificateData;
+  }
+
+  /**
+   * 计算图片的整体与分块感知哈希（签发证书时记录），浏览器不支持解码时返回null
+   */
+  static async computeImageHashes(
+    image: Blob,
+    grid: number = this.BLOCK_GRID
+  ): Promise<Required<Pick<CertificateImageData, 'perceptualHash' | 'blockHashes'>> | null> {
+    const imageData = await this.decodeImage(image);
+    if (!imageData) {
+      return null;
+    }
+
+    return {
+      perceptualHash: await HashGenerator.perceptualHash(imageData),
+      blockHashes: HashGenerator.blockPerceptualHashes(imageData, grid)
+    };
+  }
+
+  /**
+   * 解码图片像素，浏览器不支持解码时返回null
+   */
+  static async decodeImage(image: Blob): Promise<ImageData | null> {
+    if (typeof createImageBitmap === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+      return null;
+    }
+
+    try {
+      const bitmap = await createImageBitmap(image);
+      const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        bitmap.close();
+        return null;
+      }
+
+      ctx.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      return ctx.getImageData(0, 0, canvas.width, canvas.height);
+    } catch (error) {
+      console.warn('⚠️ 图片解码失败:', error);
+      return null;
+    }
+  }
+}
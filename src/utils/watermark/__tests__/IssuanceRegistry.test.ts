@@ -0,0 +1,139 @@
+/**
+ * 签发登记测试 - 单元测试
+ * 覆盖：登记与列表、完整哈希/证书/文字/感知哈希匹配排名、文件指纹
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { webcrypto } from 'node:crypto';
+import { File as NodeFile } from 'node:buffer';
+import { HashGenerator, type HashPixelBuffer } from '@/engines/crypto/HashGenerator';
+import { CertificateEmbedder } from '@/engines/crypto/CertificateEmbedder';
+import { IssuanceRegistry, createDocumentFingerprint, type DocumentFingerprinter } from '../IssuanceRegistry';
+import { MemoryRecordStorage } from '../RecordStorage';
+import type { DocumentFingerprint, IssuanceRecord } from '@/types/attribution.types';
+import type { CertificateData } from '@/types/worker.types';
+
+// 1x1 PNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
+
+const toFile = (content: string | Uint8Array, name: string, type = '') =>
+  new NodeFile([content], name, { type }) as unknown as File;
+
+// 灰色页面上在指定位置画一条深色“水印文字”，不同收件人位置不同
+const renderPage = (stripeY: number): HashPixelBuffer => {
+  const width = 64;
+  const height = 64;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = (y >= stripeY && y < stripeY + 4 && x > 8 && x < 56) ? 20 : 120 + ((x * 7 + y * 3) % 60);
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+};
+
+const fingerprintOf = (stripeY: number, contentHash: string, extra: Partial<DocumentFingerprint> = {}): DocumentFingerprint => ({
+  contentHash,
+  pages: [{ perceptualHash: 'ffff0000ffff0000', blockHashes: HashGenerator.blockPerceptualHashes(renderPage(stripeY), 8) }],
+  ...extra
+});
+
+const certificate = (hash: string) => ({ hash, timestamp: 1, signature: 'sig', metadata: {} }) as CertificateData;
+
+describe('IssuanceRegistry', () => {
+  let fingerprints: Map<string, DocumentFingerprint>;
+  let registry: IssuanceRegistry;
+
+  beforeEach(() => {
+    fingerprints = new Map();
+    const fingerprinter: DocumentFingerprinter = async file => fingerprints.get((file as File).name)!;
+    registry = new IssuanceRegistry({ storage: new MemoryRecordStorage<IssuanceRecord>(), fingerprinter });
+  });
+
+  const issue = async (name: string, id: string, stripeY: number) => {
+    fingerprints.set(`${id}.pdf`, fingerprintOf(stripeY, `hash-${id}`));
+    return registry.register(toFile('', `${id}.pdf`), {
+      sourceFile: 'report.pdf',
+      filename: `report_watermarked_${name}_${id}.pdf`,
+      format: 'pdf',
+      recipient: { id, name },
+      certificate: certificate(`cert-${id}`)
+    });
+  };
+
+  it('should register copies and list the newest first', async () => {
+    const first = await issue('张三', 'R001', 8);
+    vi.useFakeTimers({ now: Date.now() + 1000 });
+    const second = await issue('李四', 'R002', 40);
+    vi.useRealTimers();
+
+    expect(first).toMatchObject({ sourceFile: 'report.pdf', recipient: { id: 'R001' }, contentHash: 'hash-R001' });
+    expect((await registry.list()).map(record => record.id)).toEqual([second.id, first.id]);
+
+    await registry.remove(first.id);
+    expect(await registry.list()).toHaveLength(1);
+    await registry.clear();
+    expect(await registry.list()).toEqual([]);
+  });
+
+  it('should rank the copy whose watermark region matches a re-saved leak', async () => {
+    await issue('张三', 'R001', 8);
+    await issue('李四', 'R002', 40);
+
+    // 重新保存后内容哈希变化、证书丢失，画面与李四的副本一致
+    fingerprints.set('leak.png', fingerprintOf(40, 'hash-leak'));
+    const report = await registry.match(toFile('', 'leak.png'), { minScore: 0 });
+
+    expect(report).toMatchObject({ fileName: 'leak.png', fingerprinted: true, searched: 2 });
+    expect(report.candidates.map(candidate => candidate.record.recipient?.id)).toEqual(['R002', 'R001']);
+    expect(report.candidates[0]).toMatchObject({ method: 'perceptual', perceptualSimilarity: 1, blockSimilarity: 1 });
+    expect(report.candidates[0].score).toBeGreaterThan(report.candidates[1].score);
+  });
+
+  it('should prefer exact, certificate and text matches', async () => {
+    await issue('张三', 'R001', 8);
+    await issue('李四', 'R002', 40);
+
+    fingerprints.set('exact.pdf', fingerprintOf(8, 'hash-R002'));
+    expect((await registry.match(toFile('', 'exact.pdf'))).candidates[0]).toMatchObject({
+      score: 1,
+      method: 'exact',
+      record: { recipient: { id: 'R002' } }
+    });
+
+    fingerprints.set('edited.pdf', fingerprintOf(8, 'hash-edited', { certificateHash: 'cert-R002' }));
+    expect((await registry.match(toFile('', 'edited.pdf'))).candidates[0]).toMatchObject({
+      method: 'certificate',
+      record: { recipient: { id: 'R002' } }
+    });
+
+    fingerprints.set('printed.pdf', { contentHash: 'hash-printed', pages: [], text: '机密 李四 R002 第1/3页' });
+    const report = await registry.match(toFile('', 'printed.pdf'));
+    expect(report.fingerprinted).toBe(false);
+    expect(report.candidates).toHaveLength(1);
+    expect(report.candidates[0]).toMatchObject({ score: 0.95, method: 'text', record: { recipient: { id: 'R002' } } });
+  });
+
+  describe('createDocumentFingerprint', () => {
+    beforeEach(() => {
+      vi.stubGlobal('crypto', webcrypto);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should hash content without the embedded certificate', async () => {
+      const png = Uint8Array.from(atob(PNG_BASE64), c => c.charCodeAt(0));
+      const embedded = await CertificateEmbedder.embedBytes(png, certificate('cert-1'));
+
+      const plain = await createDocumentFingerprint(toFile(png, 'a.png', 'image/png'));
+      const signed = await createDocumentFingerprint(toFile(embedded, 'b.png', 'image/png'));
+
+      expect(signed.contentHash).toBe(plain.contentHash);
+      expect(signed.certificateHash).toBe('cert-1');
+      expect(plain.certificateHash).toBeUndefined();
+    });
+  });
+});
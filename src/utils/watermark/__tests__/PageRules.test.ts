@@ -0,0 +1,135 @@
+/**
+ * 按页水印规则测试 - 单元测试
+ * 覆盖：页码范围解析、奇偶页筛选、规则合并、空白页检测、PDF逐页应用
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { File as NodeFile } from 'node:buffer';
+import { PDFDocument, PDFPage, StandardFonts, popGraphicsState, pushGraphicsState } from 'pdf-lib';
+import { PageRules } from '../PageRules';
+import { NativeDocumentProcessor } from '../../document/NativeDocumentProcessor';
+import type { SimpleWatermarkSettings } from '../SimpleWatermarkProcessor';
+
+const baseSettings: SimpleWatermarkSettings = {
+  type: 'text',
+  text: {
+    content: 'CONFIDENTIAL',
+    font: { family: 'Arial', size: 48, weight: 'bold', style: 'normal' },
+    color: '#ff0000'
+  },
+  position: { placement: 'center', opacity: 0.5, scale: 1, rotation: -45 },
+  output: { format: 'pdf', quality: 1 },
+  pages: { pages: 'first' },
+  pageRules: [
+    {
+      name: '页脚',
+      selection: { pages: '2-last', skipBlank: true },
+      text: { content: '{page} / {pages}', font: { size: 10 } },
+      position: { placement: 'edge', edge: 'bottom' }
+    }
+  ]
+};
+
+async function createPDF(pageTexts: string[]): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  for (const text of pageTexts) {
+    const page = pdfDoc.addPage([300, 400]);
+    if (text) {
+      page.drawText(text, { x: 50, y: 300, size: 12, font });
+    }
+  }
+  return pdfDoc.save();
+}
+
+describe('PageRules', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should parse page ranges with open ends and keywords', () => {
+    expect([...PageRules.parseRanges('1-3,7', 10)]).toEqual([1, 2, 3, 7]);
+    expect([...PageRules.parseRanges('8-, first', 10)]).toEqual([8, 9, 10, 1]);
+    expect([...PageRules.parseRanges('-2、last', 10)]).toEqual([1, 2, 10]);
+    expect([...PageRules.parseRanges('2-last', 3)]).toEqual([2, 3]);
+    // 超出页数的部分忽略
+    expect([...PageRules.parseRanges('3,12-15', 4)]).toEqual([3]);
+
+    expect(PageRules.validate('1-3,7')).toBeNull();
+    expect(PageRules.validate('')).toBeNull();
+    expect(PageRules.validate('5-2')).toBe('页码范围起始大于结束: 5-2');
+    expect(PageRules.validate('1,a')).toBe('无效的页码范围: a');
+    expect(PageRules.validate('0')).toBe('无效的页码范围: 0');
+  });
+
+  it('should match pages by range, parity and blankness', () => {
+    expect(PageRules.matches(undefined, 4, 5)).toBe(true);
+    expect(PageRules.matches({ parity: 'odd' }, 3, 5)).toBe(true);
+    expect(PageRules.matches({ parity: 'odd' }, 4, 5)).toBe(false);
+    expect(PageRules.matches({ pages: '2-last', parity: 'even' }, 4, 5)).toBe(true);
+    expect(PageRules.matches({ pages: 'last' }, 4, 5)).toBe(false);
+    expect(PageRules.matches({ skipBlank: true }, 2, 5, true)).toBe(false);
+    expect(PageRules.matches({}, 2, 5, true)).toBe(true);
+  });
+
+  it('should merge rules over the base settings for each page', () => {
+    const cover = PageRules.getPageSettings(baseSettings, 1, 3);
+    expect(cover).toHaveLength(1);
+    expect(cover[0]).toBe(baseSettings);
+
+    const body = PageRules.getPageSettings(baseSettings, 2, 3);
+    expect(body).toHaveLength(1);
+    expect(body[0].text).toMatchObject({
+      content: '{page} / {pages}',
+      color: '#ff0000',
+      font: { family: 'Arial', size: 10, weight: 'bold' }
+    });
+    expect(body[0].position).toMatchObject({ placement: 'edge', edge: 'bottom', opacity: 0.5 });
+    expect(body[0].pageRules).toBeUndefined();
+
+    expect(PageRules.hasRules({ ...baseSettings, pages: {}, pageRules: [] })).toBe(false);
+    expect(PageRules.needsBlankDetection(baseSettings)).toBe(true);
+  });
+
+  it('should detect blank pages from decoded content streams', async () => {
+    const pdfDoc = await PDFDocument.load(await createPDF(['Hello', '', 'World']));
+    const blankPages = await PageRules.findBlankPages(pdfDoc.getPages());
+    expect([...blankPages]).toEqual([2]);
+
+    // 只有图形状态操作的页面同样视为空白
+    const page = pdfDoc.addPage();
+    page.pushOperators(pushGraphicsState(), popGraphicsState());
+    expect(await PageRules.isBlankPDFPage(page)).toBe(true);
+    page.drawRectangle({ x: 0, y: 0, width: 10, height: 10 });
+    expect(await PageRules.isBlankPDFPage(page)).toBe(false);
+  });
+
+  it('should apply the cover watermark and footer rule to different PDF pages', async () => {
+    const drawn: Array<{ page: number; text: string }> = [];
+    let currentPage = 0;
+    vi.spyOn(PDFPage.prototype, 'getSize').mockImplementation(function (this: PDFPage) {
+      currentPage = this.doc.getPages().indexOf(this) + 1;
+      return { width: 300, height: 400 };
+    });
+    const drawText = PDFPage.prototype.drawText;
+    vi.spyOn(PDFPage.prototype, 'drawText').mockImplementation(function (this: PDFPage, text, options) {
+      drawn.push({ page: currentPage, text });
+      return drawText.call(this, text, options);
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(NativeDocumentProcessor.prototype as any, 'blobToDataUrl').mockResolvedValue('data:application/pdf;base64,');
+
+    const pdf = await createPDF(['Cover', 'Body', '', 'Body']);
+    const file = new NodeFile([pdf], 'report.pdf', { type: 'application/pdf' }) as unknown as File;
+    // Node的File返回的ArrayBuffer与测试环境的ArrayBuffer不是同一个构造函数
+    file.arrayBuffer = async () => pdf.slice().buffer;
+    const result = await new NativeDocumentProcessor().processDocument(file, baseSettings);
+
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+    expect(result.processedDocument?.pageCount).toBe(4);
+    expect(drawn.some(entry => entry.page === 1 && entry.text === 'CONFIDENTIAL')).toBe(true);
+    expect(drawn.some(entry => entry.page === 1 && entry.text.includes('/'))).toBe(false);
+    expect(drawn.filter(entry => entry.page > 1).map(entry => `${entry.page}:${entry.text}`)).toEqual(['2:2 / 4', '4:4 / 4']);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * 收件人列表测试 - 单元测试
+ * 覆盖：CSV表头与无表头、引号转义、JSON格式、编号生成与去重、按收件人命名
+ */
+
+import { describe, it, expect } from 'vitest';
+import { File as NodeFile } from 'node:buffer';
+import { RecipientList } from '../RecipientList';
+
+describe('RecipientList', () => {
+  it('should parse CSV with aliased headers, quotes and extra columns', () => {
+    const csv = '\uFEFF姓名,工号,邮箱,部门\r\n"Li, Lei",E-7,li@example.com,"法务""一部"""\r\n王芳,E-8,,\r\n\r\n';
+
+    expect(RecipientList.parse(csv)).toEqual({
+      recipients: [
+        { id: 'E-7', name: 'Li, Lei', email: 'li@example.com', fields: { 部门: '法务"一部"' } },
+        { id: 'E-8', name: '王芳' }
+      ],
+      errors: []
+    });
+  });
+
+  it('should read headerless CSV as name, id, email and generate missing ids', () => {
+    const result = RecipientList.parse('张三,R9,zhang@example.com\n李四\n,X1\n王五,r9');
+
+    expect(result.recipients).toEqual([
+      { id: 'R9', name: '张三', email: 'zhang@example.com' },
+      { id: 'R002', name: '李四' }
+    ]);
+    expect(result.errors).toEqual(['第3个收件人缺少姓名', '第4个收件人的编号 r9 重复']);
+  });
+
+  it('should parse JSON arrays and recipients objects', async () => {
+    const list = [{ name: 'Alice', id: 7, email: 'a@example.com' }, { user: 'Bob' }];
+
+    expect(RecipientList.parse(JSON.stringify(list)).recipients).toEqual([
+      { id: '7', name: 'Alice', email: 'a@example.com' },
+      { id: 'R002', name: 'Bob' }
+    ]);
+
+    const file = new NodeFile([JSON.stringify({ recipients: list })], 'reviewers.json') as unknown as File;
+    expect((await RecipientList.parseFile(file)).recipients).toHaveLength(2);
+
+    expect(() => RecipientList.parse('{oops', 'json')).toThrow('收件人列表不是有效的JSON');
+    expect(() => RecipientList.parse('{"items": []}')).toThrow('JSON收件人列表应为数组或包含recipients数组');
+  });
+
+  it('should name files per recipient', () => {
+    const recipient = { id: 'E/7', name: ' Li Lei ' };
+
+    expect(RecipientList.getFilename('合同_watermarked.pdf', recipient)).toBe('合同_watermarked_Li_Lei_E_7.pdf');
+    expect(RecipientList.getFilename('README_watermarked', { id: 'R001', name: '张三' })).toBe('README_watermarked_张三_R001');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * 签名密钥存储测试 - 单元测试
+ * 覆盖：首次生成并持久化、密钥对导出导入、拒绝不配对的密钥
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { webcrypto } from 'node:crypto';
+import { SigningKeyStore, type SigningKeyRecord } from '../SigningKeyStore';
+import { MemoryRecordStorage } from '../RecordStorage';
+import { CertificateSigner } from '@/engines/crypto/CertificateSigner';
+
+// 测试环境的crypto.subtle为模拟实现，这里换成真实的WebCrypto
+let mockedSubtle: SubtleCrypto;
+
+beforeAll(() => {
+  const subtle = webcrypto.subtle;
+  mockedSubtle = globalThis.crypto.subtle;
+  (globalThis.crypto as any).subtle = {
+    generateKey: subtle.generateKey.bind(subtle),
+    importKey: subtle.importKey.bind(subtle),
+    exportKey: subtle.exportKey.bind(subtle),
+    sign: subtle.sign.bind(subtle),
+    verify: subtle.verify.bind(subtle),
+    digest: (algorithm: string, data: ArrayBuffer) => subtle.digest(algorithm, new Uint8Array(data))
+  };
+});
+
+afterAll(() => {
+  (globalThis.crypto as any).subtle = mockedSubtle;
+});
+
+describe('SigningKeyStore', () => {
+  it('should generate the key once and reuse it across sessions', async () => {
+    const storage = new MemoryRecordStorage<SigningKeyRecord>();
+    const fingerprint = await new SigningKeyStore({ storage }).getFingerprint();
+
+    expect(fingerprint).toMatch(/^[0-9a-f]{64}$/);
+    expect(await new SigningKeyStore({ storage }).getFingerprint()).toBe(fingerprint);
+  });
+
+  it('should export the public key for verifiers', async () => {
+    const store = new SigningKeyStore({ storage: new MemoryRecordStorage() });
+    const pem = await store.exportPublicKey();
+
+    expect(pem).toContain('-----BEGIN PUBLIC KEY-----');
+    expect(pem).not.toContain('PRIVATE KEY');
+    expect(await CertificateSigner.getKeyFingerprint(await CertificateSigner.importPublicKey(pem)))
+      .toBe(await store.getFingerprint());
+  });
+
+  it('should move the key pair to another installation', async () => {
+    const source = new SigningKeyStore({ storage: new MemoryRecordStorage() });
+    const target = new SigningKeyStore({ storage: new MemoryRecordStorage() });
+    const pem = await source.exportKeyPair();
+
+    expect(await target.importKeyPair(pem)).toBe(await source.getFingerprint());
+    expect(await target.getFingerprint()).toBe(await source.getFingerprint());
+  });
+
+  it('should reject invalid or mismatched key files', async () => {
+    const store = new SigningKeyStore({ storage: new MemoryRecordStorage() });
+    const other = await CertificateSigner.exportKeyPair(await CertificateSigner.generateKeyPair(), 'pem');
+    const own = await CertificateSigner.exportKeyPair(await CertificateSigner.generateKeyPair(), 'pem');
+
+    await expect(store.importKeyPair('not a key')).rejects.toThrow('密钥文件无效');
+    await expect(store.importKeyPair(`${own.privateKey}\n${other.publicKey}`)).rejects.toThrow('私钥与公钥不匹配');
+  });
+});
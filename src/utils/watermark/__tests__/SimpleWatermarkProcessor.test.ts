@@ -2,7 +2,7 @@
  * SimpleWatermarkProcessor 单元测试
  */
 
-import { describe, it, expect, beforeEach, vi, type MockedFunction } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi, type MockedFunction } from 'vitest';
 import { SimpleWatermarkProcessor } from '../SimpleWatermarkProcessor';
 import { 
   createMockFile, 
@@ -33,6 +33,8 @@ global.Image = class MockImage {
   get src() { return 'mock-image-src'; }
 } as any;
 
+const WorkingMockImage = global.Image;
+
 // 模拟document.createElement
 const originalCreateElement = document.createElement.bind(document);
 document.createElement = vi.fn().mockImplementation((tagName: string) => {
@@ -61,6 +63,7 @@ describe('SimpleWatermarkProcessor', () => {
       expectWatermarkResult(result, true);
       expect(result.originalFile).toBe(mockFile);
       expect(result.processedImage?.format).toBe('png');
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith('mock-object-url');
     });
 
     it('should handle different text watermark positions', async () => {
@@ -208,6 +211,7 @@ describe('SimpleWatermarkProcessor', () => {
       const result = await processor.processFile(mockFile, mockSettings);
       expectWatermarkResult(result, false);
       expect(result.error).toContain('图片加载失败');
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith('mock-object-url');
     });
 
     it('should measure processing time', async () => {
@@ -218,6 +222,272 @@ describe('SimpleWatermarkProcessor', () => {
     });
   });
 
+  describe('image and hybrid watermarks', () => {
+    let logoBlob: Blob;
+
+    const getMainContext = () => {
+      const canvas = (document.createElement as MockedFunction<typeof document.createElement>)
+        .mock.results[0].value as HTMLCanvasElement;
+      return canvas.getContext('2d') as any;
+    };
+
+    beforeEach(() => {
+      global.Image = WorkingMockImage;
+      logoBlob = new Blob(['<svg></svg>'], { type: 'image/svg+xml' });
+    });
+
+    it('should draw an image watermark', async () => {
+      const settings = {
+        ...mockSettings,
+        type: 'image' as const,
+        image: { source: logoBlob, preserveAspectRatio: true }
+      };
+
+      const result = await processor.processFile(mockFile, settings);
+      expectWatermarkResult(result, true);
+
+      // 原图 + Logo印章
+      expect(getMainContext().drawImage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should tint the logo while preserving alpha', async () => {
+      const settings = {
+        ...mockSettings,
+        type: 'image' as const,
+        image: { source: logoBlob, preserveAspectRatio: true, tint: '#ff0000' }
+      };
+
+      const result = await processor.processFile(mockFile, settings);
+      expectWatermarkResult(result, true);
+
+      const logoCanvas = (document.createElement as MockedFunction<typeof document.createElement>)
+        .mock.results[1].value as HTMLCanvasElement;
+      const logoCtx = logoCanvas.getContext('2d') as any;
+      expect(logoCtx.fillRect).toHaveBeenCalled();
+      expect(logoCtx.fillStyle).toBe('#ff0000');
+    });
+
+    it('should respect preserveAspectRatio when sizing the logo', async () => {
+      const base = {
+        ...mockSettings,
+        type: 'image' as const,
+        position: { ...mockSettings.position, scale: 1 }
+      };
+
+      await processor.processFile(mockFile, {
+        ...base,
+        image: { source: logoBlob, preserveAspectRatio: true, width: 200, height: 200 }
+      });
+      let logoCanvas = (document.createElement as MockedFunction<typeof document.createElement>)
+        .mock.results[1].value as HTMLCanvasElement;
+      expect(logoCanvas.width).toBe(200);
+      expect(logoCanvas.height).toBe(150);
+
+      vi.clearAllMocks();
+      await processor.processFile(mockFile, {
+        ...base,
+        image: { source: logoBlob, preserveAspectRatio: false, width: 200, height: 200 }
+      });
+      logoCanvas = (document.createElement as MockedFunction<typeof document.createElement>)
+        .mock.results[1].value as HTMLCanvasElement;
+      expect(logoCanvas.width).toBe(200);
+      expect(logoCanvas.height).toBe(200);
+    });
+
+    it('should place image watermarks at a custom position', async () => {
+      const settings = {
+        ...mockSettings,
+        type: 'image' as const,
+        image: { source: logoBlob, preserveAspectRatio: true },
+        position: { ...mockSettings.position, placement: 'custom' as const, custom: { x: '25%', y: 120 } }
+      };
+
+      const result = await processor.processFile(mockFile, settings);
+      expectWatermarkResult(result, true);
+      expect(getMainContext().translate).toHaveBeenCalledWith(200, 120);
+    });
+
+    it('should tile image watermarks in pattern placement', async () => {
+      const settings = {
+        ...mockSettings,
+        type: 'image' as const,
+        image: { source: logoBlob, preserveAspectRatio: true },
+        position: {
+          ...mockSettings.position,
+          placement: 'pattern' as const,
+          pattern: { type: 'tiled-3-column' as const, spacing: { x: 200, y: 200 } }
+        }
+      };
+
+      const result = await processor.processFile(mockFile, settings);
+      expectWatermarkResult(result, true);
+      expect(getMainContext().drawImage.mock.calls.length).toBeGreaterThan(2);
+    });
+
+    it('should combine logo and text in hybrid mode', async () => {
+      const settings = {
+        ...mockSettings,
+        type: 'hybrid' as const,
+        image: { source: logoBlob, preserveAspectRatio: true }
+      };
+
+      const result = await processor.processFile(mockFile, settings);
+      expectWatermarkResult(result, true);
+
+      const stampCanvas = (document.createElement as MockedFunction<typeof document.createElement>)
+        .mock.results[2].value as HTMLCanvasElement;
+      const stampCtx = stampCanvas.getContext('2d') as any;
+      expect(stampCtx.fillText).toHaveBeenCalledWith('测试水印', expect.any(Number), expect.any(Number));
+    });
+
+    it('should fall back to text when hybrid watermark has no logo', async () => {
+      const settings = {
+        ...mockSettings,
+        type: 'hybrid' as const
+      };
+
+      const result = await processor.processFile(mockFile, settings);
+      expectWatermarkResult(result, true);
+      expect(getMainContext().fillText).toHaveBeenCalled();
+    });
+  });
+
+  describe('invisible watermark', () => {
+    const invisibleWatermark = {
+      enabled: true,
+      payload: { ownerId: 'owner-1', documentId: 'doc-1', timestamp: 1718000000000 }
+    };
+
+    beforeEach(() => {
+      global.Image = WorkingMockImage;
+    });
+
+    it('should embed the payload into the pixel data', async () => {
+      const settings = {
+        ...mockSettings,
+        security: { ...mockSettings.security, invisibleWatermark }
+      };
+
+      const result = await processor.processFile(mockFile, settings);
+      expectWatermarkResult(result, true);
+
+      const ctx = (document.createElement as MockedFunction<typeof document.createElement>)
+        .mock.results[0].value.getContext('2d') as any;
+      expect(ctx.getImageData).toHaveBeenCalledWith(0, 0, 800, 600);
+      expect(ctx.putImageData).toHaveBeenCalledTimes(1);
+
+      const marked = ctx.putImageData.mock.calls[0][0];
+      expect(marked.data.some((value: number) => value !== 128)).toBe(true);
+    });
+
+    it('should skip the invisible watermark with a warning when embedding fails', async () => {
+      const settings = {
+        ...mockSettings,
+        security: {
+          ...mockSettings.security,
+          invisibleWatermark: { ...invisibleWatermark, payload: { ...invisibleWatermark.payload, ownerId: 'x'.repeat(64) } }
+        }
+      };
+
+      const result = await processor.processFile(mockFile, settings);
+
+      expectWatermarkResult(result, true);
+      expect(result.warnings).toEqual([expect.stringContaining('未嵌入隐形水印')]);
+    });
+
+    it('should report no payload for unmarked images', async () => {
+      const extraction = await processor.extractWatermark(mockFile);
+
+      expect(extraction.found).toBe(false);
+      expect(extraction.confidence).toBe(0);
+    });
+
+    it('should warn that animations skip the invisible watermark and metadata', async () => {
+      const settings = {
+        ...mockSettings,
+        security: { ...mockSettings.security, invisibleWatermark },
+        output: { ...mockSettings.output, preserveOriginalMetadata: true }
+      };
+      vi.spyOn(processor as any, 'processAnimation').mockResolvedValue({
+        blob: new Blob(['gif'], { type: 'image/gif' }),
+        format: 'gif',
+        dimensions: { width: 800, height: 600 },
+        frameCount: 3
+      });
+
+      const result = await processor.processFile(mockFile, settings);
+
+      expect(result.success).toBe(true);
+      expect(result.processedImage!.format).toBe('gif');
+      expect(result.warnings).toEqual(['动图不支持隐形水印，已跳过', '动图不保留原图元数据，已跳过']);
+    });
+  });
+
+  describe('file size limit', () => {
+    // 编码大小与像素数和质量成正比：800x600在质量0.9时为4320字节
+    const createSizedCanvas = () => {
+      const canvas = createMockCanvas();
+      (canvas as any).toBlob = vi.fn((callback: (blob: Blob) => void, type: string, quality: number) => {
+        const size = Math.round(canvas.width * canvas.height * quality / 100);
+        callback(new Blob([new Uint8Array(size)], { type }));
+      });
+      return canvas;
+    };
+
+    beforeEach(() => {
+      global.Image = WorkingMockImage;
+      (document.createElement as MockedFunction<typeof document.createElement>).mockImplementation((tagName: string) =>
+        tagName === 'canvas' ? createSizedCanvas() : originalCreateElement(tagName)
+      );
+    });
+
+    afterEach(() => {
+      (document.createElement as MockedFunction<typeof document.createElement>).mockImplementation((tagName: string) =>
+        tagName === 'canvas' ? createMockCanvas() : originalCreateElement(tagName)
+      );
+    });
+
+    it('should lower the quality until the output fits maxFileSize', async () => {
+      const settings = { ...mockSettings, output: { format: 'jpeg', quality: 0.9, maxFileSize: 3000 } };
+
+      const result = await processor.processFile(mockFile, settings);
+
+      expect(result.success).toBe(true);
+      expect(result.processedImage!.size).toBeLessThanOrEqual(3000);
+      expect(result.processedImage!.quality).toBeLessThan(0.9);
+      expect(result.processedImage!.dimensions).toEqual({ width: 800, height: 600 });
+    });
+
+    it('should re-embed the invisible watermark after fitting and warn when it cannot be read back', async () => {
+      const settings = {
+        ...mockSettings,
+        output: { format: 'jpeg', quality: 0.9, maxFileSize: 3000 },
+        security: {
+          ...mockSettings.security,
+          invisibleWatermark: { enabled: true, payload: { ownerId: 'owner-1', documentId: 'doc-1', timestamp: 1718000000000 } }
+        }
+      };
+      const extract = vi.spyOn(processor, 'extractWatermark');
+
+      const result = await processor.processFile(mockFile, settings);
+
+      expect(result.success).toBe(true);
+      expect(result.processedImage!.size).toBeLessThanOrEqual(3000);
+      expect(extract).toHaveBeenCalledTimes(1);
+      expect(result.warnings).toEqual([expect.stringContaining('隐形水印无法提取')]);
+    });
+
+    it('should report OUTPUT_SIZE_EXCEEDED when even the smallest encoding is too large', async () => {
+      const settings = { ...mockSettings, output: { format: 'jpeg', quality: 0.9, maxFileSize: 100 } };
+
+      const result = await processor.processFile(mockFile, settings);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('OUTPUT_SIZE_EXCEEDED');
+      expect(result.error).toContain('输出文件超出大小上限');
+    });
+  });
+
   describe('performance', () => {
     it('should process files within reasonable time', async () => {
       const startTime = performance.now();
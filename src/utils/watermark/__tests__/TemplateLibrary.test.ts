@@ -0,0 +1,201 @@
+/**
+ * 水印模板库测试 - 单元测试
+ * 覆盖：新建与缩略图、版本历史与恢复、标签筛选、按文件类型的默认模板、JSON导入导出、保存和导出均不含密码
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { File as NodeFile } from 'node:buffer';
+import { TemplateLibrary, type ThumbnailRenderer } from '../TemplateLibrary';
+import { MemoryTemplateStorage } from '../TemplateStorage';
+import type { WatermarkSettings } from '@/types/watermark.types';
+
+const createSettings = (content: string, opacity = 0.3): WatermarkSettings => ({
+  type: 'text',
+  text: {
+    content,
+    font: { family: 'Microsoft YaHei', size: 20, weight: 'normal', style: 'normal' },
+    color: '#000000'
+  },
+  position: {
+    placement: 'grid',
+    margin: { top: 20, right: 20, bottom: 20, left: 20 },
+    opacity,
+    scale: 1,
+    rotation: 45,
+    blendMode: 'multiply'
+  },
+  security: {
+    generateCertificate: false,
+    hashAlgorithm: 'SHA-256',
+    embedMetadata: false,
+    tamperProtection: false,
+    blockChineseCharacters: false
+  },
+  output: { format: 'png', quality: 0.9, preserveOriginalMetadata: false }
+} as WatermarkSettings);
+
+const toFile = (name: string, type = '') => new NodeFile([''], name, { type }) as unknown as File;
+
+describe('TemplateLibrary', () => {
+  let library: TemplateLibrary;
+  let thumbnailRenderer: ThumbnailRenderer;
+
+  beforeEach(() => {
+    thumbnailRenderer = async settings => `data:image/png;base64,${settings.text?.content}`;
+    library = new TemplateLibrary({ storage: new MemoryTemplateStorage(), thumbnailRenderer, maxHistory: 2 });
+  });
+
+  it('should create templates with normalized tags and thumbnails', async () => {
+    const record = await library.create({
+      name: '  机密  ',
+      tags: ['法务', ' 对外 ', '法务', ''],
+      settings: createSettings('机密')
+    });
+
+    expect(record).toMatchObject({
+      name: '机密',
+      description: '',
+      tags: ['法务', '对外'],
+      version: 1,
+      history: [],
+      thumbnail: 'data:image/png;base64,机密'
+    });
+    await expect(library.create({ name: ' ', settings: createSettings('x') })).rejects.toThrow('模板名称不能为空');
+
+    await library.create({ name: '草稿', tags: ['内部'], settings: createSettings('草稿') });
+    expect((await library.list({ tag: '法务' })).map(item => item.name)).toEqual(['机密']);
+    expect((await library.list({ search: '草' })).map(item => item.name)).toEqual(['草稿']);
+    expect(await library.getTags()).toEqual(['内部', '对外', '法务'].sort());
+  });
+
+  it('should keep a bounded version history and revert to earlier versions', async () => {
+    const record = await library.create({ name: '机密', settings: createSettings('v1') });
+
+    const renamed = await library.update(record.id, { name: '机密文件' });
+    expect(renamed.version).toBe(1);
+
+    await library.update(record.id, { settings: createSettings('v2'), note: '调整文字' });
+    await library.update(record.id, { settings: createSettings('v3') });
+    const latest = await library.update(record.id, { settings: createSettings('v4') });
+
+    expect(latest.version).toBe(4);
+    expect(latest.thumbnail).toBe('data:image/png;base64,v4');
+    expect(latest.history.map(entry => entry.version)).toEqual([3, 2]);
+    expect(latest.history[1].note).toBe('调整文字');
+
+    const reverted = await library.revert(record.id, 2);
+    expect(reverted.version).toBe(5);
+    expect(reverted.settings.text?.content).toBe('v2');
+    expect(reverted.note).toBe('恢复到版本 2');
+    expect(reverted.history[0].version).toBe(4);
+    await expect(library.revert(record.id, 1)).rejects.toThrow('模板不存在版本 1');
+  });
+
+  it('should keep a single default template per file type', async () => {
+    const first = await library.create({ name: 'A', settings: createSettings('A'), defaultFor: ['pdf', 'word'] });
+    const second = await library.create({ name: 'B', settings: createSettings('B') });
+
+    await library.setDefault(second.id, 'pdf');
+
+    expect((await library.getDefault('pdf'))?.id).toBe(second.id);
+    expect((await library.getDefault('word'))?.id).toBe(first.id);
+    expect((await library.get(first.id))?.defaultFor).toEqual(['word']);
+
+    await library.clearDefault('word');
+    expect(await library.getDefault('word')).toBeUndefined();
+    await expect(library.setDefault('missing', 'image')).rejects.toThrow('模板不存在');
+  });
+
+  it('should map files to template file types', () => {
+    expect(TemplateLibrary.getFileType(toFile('photo.jpg', 'image/jpeg'))).toBe('image');
+    expect(TemplateLibrary.getFileType(toFile('report.PDF'))).toBe('pdf');
+    expect(TemplateLibrary.getFileType(toFile('legacy.rtf'))).toBe('word');
+    expect(TemplateLibrary.getFileType(toFile('sheet.xlsx'))).toBe('excel');
+    expect(TemplateLibrary.getFileType(toFile('deck.pptx'))).toBe('powerpoint');
+    expect(TemplateLibrary.getFileType(toFile('notes.txt', 'text/plain'))).toBeNull();
+  });
+
+  it('should round-trip templates through JSON export and import', async () => {
+    const record = await library.create({ name: '机密', tags: ['法务'], settings: createSettings('v1'), defaultFor: ['pdf'] });
+    await library.update(record.id, { settings: createSettings('v2') });
+    const json = await library.exportToJson();
+
+    const parsed = JSON.parse(json);
+    expect(parsed).toMatchObject({ format: 'watermark-template-library', schemaVersion: 1 });
+    expect(parsed.templates[0]).toMatchObject({ id: record.id, version: 2, defaultFor: ['pdf'] });
+
+    const teammate = new TemplateLibrary({ storage: new MemoryTemplateStorage(), thumbnailRenderer });
+    const local = await teammate.create({ name: '本地', settings: createSettings('local'), defaultFor: ['pdf'] });
+
+    expect(await teammate.importTemplates(json)).toEqual({ imported: 1, updated: 0, skipped: 0, errors: [] });
+    const imported = await teammate.get(record.id);
+    expect(imported).toMatchObject({ name: '机密', version: 2, tags: ['法务'] });
+    expect(imported?.history[0].settings.text?.content).toBe('v1');
+    expect((await teammate.getDefault('pdf'))?.id).toBe(record.id);
+    expect((await teammate.get(local.id))?.defaultFor).toEqual([]);
+
+    // 版本未更新的模板默认跳过，overwrite时强制覆盖
+    expect(await teammate.importTemplates(json)).toMatchObject({ imported: 0, updated: 0, skipped: 1 });
+    expect(await teammate.importTemplates(json, { overwrite: true })).toMatchObject({ updated: 1 });
+
+    await library.update(record.id, { settings: createSettings('v3') });
+    expect(await teammate.importTemplates(await library.exportTemplates([record.id]))).toMatchObject({ updated: 1 });
+    expect((await teammate.get(record.id))?.version).toBe(3);
+  });
+
+  it('should neither store nor export PDF passwords', async () => {
+    const settings = createSettings('加密');
+    settings.security.pdfPassword = 'input-secret';
+    settings.output.encryption = {
+      enabled: true,
+      algorithm: 'aes-256',
+      userPassword: 'open-secret',
+      ownerPassword: 'owner-secret',
+      permissions: { print: true, copy: false, modify: false, annotate: false }
+    };
+    const record = await library.create({ name: '加密', settings });
+
+    const json = await library.exportToJson([record.id]);
+
+    expect(json).not.toMatch(/secret/);
+    expect(JSON.parse(json).templates[0].settings.output.encryption).toMatchObject({ enabled: true, algorithm: 'aes-256' });
+
+    const stored = await library.get(record.id);
+    expect(stored?.settings.security.pdfPassword).toBeUndefined();
+    expect(stored?.settings.output.encryption).toMatchObject({ enabled: true, userPassword: '', ownerPassword: '' });
+
+    const updated = await library.update(record.id, { settings: { ...settings, text: { ...settings.text!, content: 'v2' } } });
+    expect(JSON.stringify(updated)).not.toMatch(/secret/);
+  });
+
+  it('should reject invalid import files and report invalid entries', async () => {
+    await expect(library.importTemplates('not json')).rejects.toThrow('模板文件不是有效的JSON');
+    await expect(library.importTemplates('{"templates": []}')).rejects.toThrow('不是有效的水印模板库文件');
+    await expect(library.importTemplates(JSON.stringify({
+      format: 'watermark-template-library',
+      schemaVersion: 99,
+      templates: []
+    }))).rejects.toThrow('模板文件版本过新');
+
+    const result = await library.importTemplates(JSON.stringify({
+      format: 'watermark-template-library',
+      schemaVersion: 1,
+      exportedAt: new Date().toISOString(),
+      templates: [
+        { id: 'broken', name: '缺少设置' },
+        { id: 'ok', name: '最简模板', settings: createSettings('ok') },
+        { id: 'legacy', name: '旧版模板', settings: { type: 'text', position: createSettings('legacy').position } },
+        { id: 'bad-history', name: '历史缺少设置', settings: createSettings('h'), history: [{ version: 1, settings: {} }] }
+      ]
+    }));
+
+    expect(result).toEqual({
+      imported: 1,
+      updated: 0,
+      skipped: 0,
+      errors: ['第1个模板缺少必要字段', '第3个模板缺少必要字段', '第4个模板缺少必要字段']
+    });
+    expect(await library.get('legacy')).toBeUndefined();
+    expect(await library.get('ok')).toMatchObject({ version: 1, tags: [], history: [], thumbnail: 'data:image/png;base64,ok' });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * 水印文字动态变量测试 - 单元测试
+ * 覆盖：变量解析与格式化、转义、逐页解析、Bates编号、校验、预览、文件上下文
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { File as NodeFile } from 'node:buffer';
+import { webcrypto } from 'node:crypto';
+import { WatermarkVariables } from '../WatermarkVariables';
+
+const date = new Date(2024, 2, 5, 9, 7, 3);
+
+describe('WatermarkVariables', () => {
+  it('should resolve file variables with formats and lengths', () => {
+    const text = WatermarkVariables.resolve(
+      '{user} <{email}> {date} {date:YY/MM/DD HH:mm} {time} {filename} {uuid:8} {hash} {hash:4}',
+      {
+        user: '张三',
+        email: 'zhang@example.com',
+        date,
+        filename: '合同.pdf',
+        uuid: '3f2b8c4e-9a1d-4e7b-8c6f-2d5a9e1b7c30',
+        hash: 'a3f5c9e2b7d14f6a'
+      }
+    );
+
+    expect(text).toBe('张三 <zhang@example.com> 2024-03-05 24/03/05 09:07 09:07:03 合同.pdf 3f2b8c4e a3f5c9e2 a3f5');
+  });
+
+  it('should keep page variables for per-page resolution', () => {
+    const fileLevel = WatermarkVariables.resolve(
+      '{{机密}} {user} 第{page}/{pages}页',
+      { user: '{page}' },
+      { keepPageVariables: true }
+    );
+
+    // 代入的值被转义，逐页解析时不会被当作变量
+    expect(fileLevel).toBe('{{机密}} {{page}} 第{page}/{pages}页');
+    expect(WatermarkVariables.resolvePage(fileLevel, 2, 7)).toBe('{机密} {page} 第2/7页');
+    expect(WatermarkVariables.resolve('第{page}页', {})).toBe('第1页');
+    expect(WatermarkVariables.resolvePage('仅文字', 3, 4)).toBe('仅文字');
+  });
+
+  it('should resolve {bates} only when a stamp provides the number', () => {
+    const fileLevel = WatermarkVariables.resolve('{bates} {user}', { user: 'bob' }, { keepPageVariables: true });
+
+    expect(fileLevel).toBe('{bates} bob');
+    expect(WatermarkVariables.resolvePage(fileLevel, 2, 7)).toBe('{bates} bob');
+    expect(WatermarkVariables.hasPageVariables('{bates}')).toBe(false);
+    expect(WatermarkVariables.resolve('{bates}', { bates: 'DOC000002' })).toBe('DOC000002');
+    expect(WatermarkVariables.preview('{bates}').warnings).toEqual(['{bates} 仅在PDF页眉页脚中生效，水印文字中不会替换']);
+  });
+
+  it('should only resolve text content in settings when needed', () => {
+    const settings = { text: { content: '{user} {page}' }, type: 'text' };
+    const resolved = WatermarkVariables.applyToSettings(settings, { user: 'bob' }, { keepPageVariables: true });
+
+    expect(resolved.text.content).toBe('bob {page}');
+    expect(settings.text.content).toBe('{user} {page}');
+
+    const plain = { text: { content: '机密' } };
+    expect(WatermarkVariables.applyToSettings(plain, {})).toBe(plain);
+  });
+
+  it('should validate variable names, arguments and braces', () => {
+    expect(WatermarkVariables.validate('{user} {page}/{pages}')).toEqual({
+      valid: true,
+      errors: [],
+      variables: ['user', 'page', 'pages'],
+      pageDependent: true
+    });
+
+    const result = WatermarkVariables.validate('{name} {hash:abc} {user:x} {date:hello} {open');
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      '未知变量 {name}',
+      '变量 {hash:abc} 的长度必须是正整数',
+      '变量 {user} 不支持参数',
+      '变量 {date:hello} 的格式中没有日期时间占位符',
+      '存在未配对的花括号，字面量请写作 {{ 或 }}'
+    ]);
+    expect(WatermarkVariables.validate('{{字面量}}').valid).toBe(true);
+  });
+
+  it('should preview with sample values and warn about missing inputs', () => {
+    const preview = WatermarkVariables.preview('{user} {filename} {page}/{pages}', { filename: '报告.pdf' });
+
+    expect(preview.text).toBe(' 报告.pdf 1/3');
+    expect(preview.warnings).toEqual([
+      '未设置 {user} 的值',
+      '{page}/{pages} 仅对PDF输出逐页生效，其他格式按第1页共1页处理'
+    ]);
+    expect(WatermarkVariables.hasVariables('{{user}}')).toBe(false);
+    expect(WatermarkVariables.hasPageVariables('{pages}')).toBe(true);
+  });
+
+  describe('createFileContext', () => {
+    beforeEach(() => {
+      vi.stubGlobal('crypto', webcrypto);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should compute uuid and hash only when used', async () => {
+      const file = new NodeFile(['hello'], 'a.txt') as unknown as File;
+
+      const plain = await WatermarkVariables.createFileContext(file, '{user}', { user: 'bob' });
+      expect(plain).toMatchObject({ user: 'bob', filename: 'a.txt', uuid: undefined, hash: undefined });
+
+      const context = await WatermarkVariables.createFileContext(file, '{uuid} {hash:12}');
+      expect(context.uuid).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+      expect(context.hash).toBe('2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824');
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * 水印文件验证器测试 - 单元测试
+ * 覆盖：外部证书解析、内嵌证书验证报告、篡改检测
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { webcrypto } from 'node:crypto';
+import { Blob as NodeBlob, File as NodeFile } from 'node:buffer';
+import { WatermarkVerifier } from '../WatermarkVerifier';
+import { CertificateSystem } from '@/engines/crypto/CertificateSystem';
+import { CertificateSigner } from '@/engines/crypto/CertificateSigner';
+import { CertificateEmbedder } from '@/engines/crypto/CertificateEmbedder';
+import type { WatermarkResult } from '@/types/watermark.types';
+
+// 1x1 PNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==';
+const pngBytes = (): Uint8Array => Uint8Array.from(atob(PNG_BASE64), c => c.charCodeAt(0));
+
+// jsdom的Blob/File不支持arrayBuffer()和text()，使用Node实现
+const toFile = (bytes: Uint8Array | string, name: string, type: string): File =>
+  new NodeFile([bytes], name, { type }) as unknown as File;
+
+let mockedSubtle: SubtleCrypto;
+
+// 使用真实WebCrypto；jsdom的ArrayBuffer与Node不属于同一realm，digest输入统一转为Uint8Array
+beforeAll(() => {
+  const subtle = webcrypto.subtle;
+  mockedSubtle = globalThis.crypto.subtle;
+  (globalThis.crypto as any).subtle = {
+    generateKey: subtle.generateKey.bind(subtle),
+    importKey: subtle.importKey.bind(subtle),
+    exportKey: subtle.exportKey.bind(subtle),
+    sign: subtle.sign.bind(subtle),
+    verify: subtle.verify.bind(subtle),
+    digest: (algorithm: string, data: ArrayBuffer) => subtle.digest(algorithm, new Uint8Array(data))
+  };
+});
+
+afterAll(() => {
+  (globalThis.crypto as any).subtle = mockedSubtle;
+});
+
+const issueCertificate = async () => {
+  const system = new CertificateSystem({ signingKeyPair: await CertificateSigner.generateKeyPair() });
+  const blob = new NodeBlob([pngBytes()], { type: 'image/png' }) as unknown as Blob;
+  const result = {
+    success: true,
+    originalFile: toFile('', 'photo.png', 'image/png'),
+    processedImage: { blob, dataUrl: '', dimensions: { width: 1, height: 1 }, format: 'png', size: blob.size },
+    metadata: { processingTime: 1, compressionRatio: 1 }
+  } as WatermarkResult;
+
+  const certificate = await system.generateCertificate(result, { issuer: 'owner-42' });
+  return { system, certificate };
+};
+
+describe('WatermarkVerifier', () => {
+  describe('readCertificateFile', () => {
+    it('should reject invalid JSON and incomplete certificates', async () => {
+      await expect(WatermarkVerifier.readCertificateFile(toFile('not json', 'c.json', 'application/json')))
+        .rejects.toThrow('证书文件不是有效的JSON');
+      await expect(WatermarkVerifier.readCertificateFile(toFile('{"hash":"x"}', 'c.json', 'application/json')))
+        .rejects.toThrow('证书文件格式无效');
+    });
+  });
+
+  describe('verify', () => {
+    it('should report a valid embedded certificate and its issuer', async () => {
+      const { system, certificate } = await issueCertificate();
+      const embedded = await CertificateEmbedder.embedBytes(pngBytes(), certificate);
+
+      const report = await WatermarkVerifier.verify(toFile(embedded, 'photo.png', 'image/png'), {
+        trustedPublicKey: await system.exportPublicKey('pem')
+      });
+
+      expect(report.isValid).toBe(true);
+      expect(report.certificateSource).toBe('embedded');
+      expect(report.trustedKey).toBe(true);
+      expect(report.issuer).toEqual({
+        name: 'owner-42',
+        keyFingerprint: await system.getKeyFingerprint(),
+        issuedAt: certificate.timestamp
+      });
+    });
+
+    it('should detect tampering against an external certificate', async () => {
+      const { certificate } = await issueCertificate();
+      const modified = pngBytes();
+      modified[modified.length - 20] ^= 0xFF;
+
+      const report = await WatermarkVerifier.verify(toFile(modified, 'photo.png', 'image/png'), { certificate });
+
+      expect(report.certificateSource).toBe('external');
+      expect(report.signatureValid).toBe(true);
+      expect(report.hashValid).toBe(false);
+      expect(report.tamperDetected).toBe(true);
+      expect(report.isValid).toBe(false);
+    });
+
+    it('should report files without a certificate', async () => {
+      const report = await WatermarkVerifier.verify(toFile(pngBytes(), 'photo.png', 'image/png'));
+
+      expect(report.certificateSource).toBe('none');
+      expect(report.isValid).toBe(false);
+      expect(report.issuer).toBeUndefined();
+    });
+  });
+});
@@ -1,6 +1,6 @@
 /**
  * 加密处理 WebWorker
- * 处理 SHA-256 证书生成和验证
+ * 处理 SHA-256 证书生成和验证，ECDSA P-256 签名
  * 基于架构文档的安全设计
  */
 
@@ -11,12 +11,14 @@ import type {
   CertificateData,
   ProcessingMetrics
 } from '@/types/worker.types';
+import { CertificateSigner } from '@/engines/crypto/CertificateSigner';
 
 declare const self: DedicatedWorkerGlobalScope;
 
 class CryptoProcessor {
   private _isProcessing = false;
   private _currentTaskId: string | null = null;
+  private _keyPair: Promise<CryptoKeyPair> | null = null;
 
   /**
    * 获取当前任务ID
@@ -71,7 +73,7 @@ class CryptoProcessor {
         case 'hash-generate':
           result = await this.generateHash(taskId, task);
           break;
-        case 'hash-generate':
+        case 'sign-data':
           result = await this.signData(taskId, task);
           break;
         default:
@@ -99,7 +101,7 @@ class CryptoProcessor {
   }
 
   private async generateCertificate(taskId: string, task: ProcessingTask): Promise<CertificateData> {
-    const { imageData, metadata } = task.data;
+    const { imageData, metadata, signingKeyPair } = task.data;
     
     if (!imageData) {
       throw new Error('Missing image data for certificate generation');
@@ -115,18 +117,24 @@ class CryptoProcessor {
     // 生成时间戳
     const timestamp = Date.now();
     
-    // 创建证书数据
-    const certificateData = {
-      imageHash,
-      timestamp,
-      metadata: metadata || {},
-      version: '1.0'
+    // 签名公钥信息写入元数据
+    const keyPair = await this.getKeyPair(signingKeyPair);
+    const certificateMetadata = {
+      ...(metadata || {}),
+      version: '2.0',
+      signatureAlgorithm: CertificateSigner.ALGORITHM,
+      keyFingerprint: await CertificateSigner.getKeyFingerprint(keyPair.publicKey),
+      publicKey: await CertificateSigner.exportKey(keyPair.publicKey, 'jwk')
     };
 
     this.sendProgress(taskId, 0.7);
 
     // 生成数字签名
-    const signature = await this.generateSignature(certificateData);
+    const signature = await CertificateSigner.sign(keyPair.privateKey, {
+      hash: imageHash,
+      timestamp,
+      metadata: certificateMetadata
+    });
     
     this.sendProgress(taskId, 1.0);
 
@@ -134,12 +142,12 @@ class CryptoProcessor {
       hash: imageHash,
       timestamp,
       signature,
-      metadata: certificateData.metadata
+      metadata: certificateMetadata
     };
   }
 
   private async validateCertificate(taskId: string, task: ProcessingTask): Promise<any> {
-    const { certificate, imageData } = task.data;
+    const { certificate, imageData, publicKey } = task.data;
     
     if (!certificate || !imageData) {
       throw new Error('Missing certificate or image data');
@@ -156,14 +164,15 @@ class CryptoProcessor {
     const hashValid = currentHash === certificate.hash;
     
     // 验证签名
-    const signatureValid = await this.verifySignature(certificate);
+    const signatureValid = await this.verifySignature(certificate, publicKey);
     
     this.sendProgress(taskId, 1.0);
 
     return {
-      isValid: hashValid && signatureValid,
+      isValid: hashValid && signatureValid && !!publicKey,
       hashValid,
       signatureValid,
+      trustedKey: signatureValid && !!publicKey,
       tamperDetected: !hashValid,
       validationTime: Date.now() - certificate.timestamp
     };
@@ -186,7 +195,7 @@ class CryptoProcessor {
   }
 
   private async signData(taskId: string, task: ProcessingTask): Promise<string> {
-    const { data } = task.data;
+    const { data, signingKeyPair } = task.data;
     
     if (!data) {
       throw new Error('Missing data for signing');
@@ -194,7 +203,8 @@ class CryptoProcessor {
 
     this.sendProgress(taskId, 0.5);
 
-    const signature = await this.generateSignature(data);
+    const keyPair = await this.getKeyPair(signingKeyPair);
+    const signature = await CertificateSigner.sign(keyPair.privateKey, this.arrayBufferToHex(data));
     
     this.sendProgress(taskId, 1.0);
 
@@ -216,42 +226,50 @@ class CryptoProcessor {
     return this.arrayBufferToHex(hashBuffer);
   }
 
-  private async generateSignature(data: any): Promise<string> {
-    // 简化的签名生成（实际应用中应使用私钥）
-    const dataString = JSON.stringify(data);
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(dataString);
-    
-    // 生成 HMAC-SHA256 签名
-    const key = await crypto.subtle.generateKey(
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['sign']
-    );
-    
-    const signature = await crypto.subtle.sign('HMAC', key, dataBuffer);
-    return this.arrayBufferToHex(signature);
+  private getKeyPair(signingKeyPair?: CryptoKeyPair): Promise<CryptoKeyPair> {
+    if (signingKeyPair) {
+      return Promise.resolve(signingKeyPair);
+    }
+
+    // 未提供密钥时使用Worker生命周期内的临时密钥对
+    if (!this._keyPair) {
+      console.warn('No signing key provided, generating an ephemeral ECDSA key pair');
+      this._keyPair = CertificateSigner.generateKeyPair(false);
+    }
+    return this._keyPair;
   }
 
-  private async verifySignature(certificate: CertificateData): Promise<boolean> {
-    // 简化的签名验证
+  private async verifySignature(
+    certificate: CertificateData,
+    trustedPublicKey?: CryptoKey | JsonWebKey | string
+  ): Promise<boolean> {
     try {
-      const dataToVerify = {
+      const keySource = trustedPublicKey ?? certificate.metadata.publicKey;
+      if (certificate.metadata.signatureAlgorithm !== CertificateSigner.ALGORITHM || !keySource) {
+        return false;
+      }
+
+      const publicKey = keySource instanceof CryptoKey
+        ? keySource
+        : await CertificateSigner.importPublicKey(keySource);
+
+      // 公钥指纹必须与证书记录的签名者一致
+      if (await CertificateSigner.getKeyFingerprint(publicKey) !== certificate.metadata.keyFingerprint) {
+        return false;
+      }
+
+      return CertificateSigner.verify(publicKey, {
         hash: certificate.hash,
         timestamp: certificate.timestamp,
         metadata: certificate.metadata
-      };
-      
-      // 重新生成签名进行比较
-      const expectedSignature = await this.generateSignature(dataToVerify);
-      return expectedSignature === certificate.signature;
+      }, certificate.signature);
     } catch (error) {
       console.error('Signature verification failed:', error);
       return false;
     }
   }
 
-  private arrayBufferToHex(buffer: ArrayBuffer): string {
+  private arrayBufferToHex(buffer: ArrayBuffer | Uint8Array): string {
     const byteArray = new Uint8Array(buffer);
     return Array.from(byteArray)
       .map(byte => byte.toString(16).padStart(2, '0'))
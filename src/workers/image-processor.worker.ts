@@ -8,8 +8,11 @@ import type {
   WorkerMessage,
   ProcessingTask,
   TaskResult,
-  ProcessingMetrics
+  ProcessingMetrics,
+  ProcessingOptions
 } from '@/types/worker.types';
+import { AdaptiveEncoder } from '@/engines/image/AdaptiveEncoder';
+import { AnimatedWatermark } from '@/engines/image/AnimatedWatermark';
 
 declare const self: DedicatedWorkerGlobalScope;
 
@@ -67,6 +70,9 @@ class ImageProcessor {
         case 'filter':
           result = await this.applyFilter(taskId, task);
           break;
+        case 'animated-watermark':
+          result = await this.watermarkAnimation(taskId, task);
+          break;
         default:
           throw new Error(`Unsupported image processing type: ${task.type}`);
       }
@@ -209,6 +215,11 @@ class ImageProcessor {
     
     this.sendProgress(taskId, 0.7);
 
+    // 设置了文件大小上限时按字节预算自适应编码
+    if (options.maxFileSize) {
+      return this.encodeWithinBudget(canvas, imageData, options);
+    }
+
     // 自动选择最佳格式和质量
     const { format, quality } = this.selectOptimalFormat(imageData, options);
 
@@ -234,6 +245,90 @@ class ImageProcessor {
     };
   }
 
+  /**
+   * 在maxFileSize内编码：先搜索质量，仍超出时缩小尺寸；无法满足时报OUTPUT_SIZE_EXCEEDED
+   */
+  private async encodeWithinBudget(
+    canvas: OffscreenCanvas,
+    imageData: ImageData,
+    options: ProcessingOptions
+  ): Promise<any> {
+    const scaledCanvases = new Map<number, OffscreenCanvas>([[1, canvas]]);
+    const getScaledCanvas = (scale: number): OffscreenCanvas => {
+      let scaled = scaledCanvases.get(scale);
+      if (!scaled) {
+        scaled = new OffscreenCanvas(
+          Math.max(1, Math.round(canvas.width * scale)),
+          Math.max(1, Math.round(canvas.height * scale))
+        );
+        const ctx = scaled.getContext('2d')!;
+        ctx.imageSmoothingEnabled = true;
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(canvas, 0, 0, scaled.width, scaled.height);
+        scaledCanvases.clear();
+        scaledCanvases.set(scale, scaled);
+      }
+      return scaled;
+    };
+
+    const result = await AdaptiveEncoder.encode(
+      (scale, format, quality) => getScaledCanvas(scale).convertToBlob({ type: `image/${format}`, quality }),
+      {
+        maxFileSize: options.maxFileSize!,
+        formats: AdaptiveEncoder.candidateFormats(options.format, this.hasTransparency(imageData)),
+        maxQuality: options.quality || AdaptiveEncoder.DEFAULT_MAX_QUALITY
+      }
+    );
+
+    const dimensions = {
+      width: Math.max(1, Math.round(canvas.width * result.scale)),
+      height: Math.max(1, Math.round(canvas.height * result.scale))
+    };
+
+    if (!result.fits) {
+      throw new Error(`OUTPUT_SIZE_EXCEEDED: 最小可达${result.blob.size}字节，超出上限${options.maxFileSize}字节`);
+    }
+
+    const originalSize = imageData.data.length;
+    return {
+      blob: result.blob,
+      dimensions,
+      originalDimensions: { width: imageData.width, height: imageData.height },
+      format: result.format,
+      quality: result.quality,
+      scale: result.scale,
+      attempts: result.attempts,
+      originalSize,
+      optimizedSize: result.blob.size,
+      compressionRatio: originalSize / result.blob.size
+    };
+  }
+
+  /**
+   * 动图逐帧合成水印层并重新编码
+   */
+  private async watermarkAnimation(taskId: string, task: ProcessingTask): Promise<any> {
+    const { data, imageData, animation } = task.data;
+
+    if (!data || !imageData) {
+      throw new Error('Missing animation data or watermark layer');
+    }
+
+    this.sendProgress(taskId, 0.1);
+
+    const result = await AnimatedWatermark.process(data, imageData, animation);
+
+    this.sendProgress(taskId, 1.0);
+
+    return {
+      blob: result.blob,
+      dimensions: result.dimensions,
+      format: result.format,
+      frameCount: result.frameCount,
+      compressionRatio: data.length / result.blob.size
+    };
+  }
+
   private async applyFilter(taskId: string, task: ProcessingTask): Promise<any> {
     const { imageData, options } = task.data;
     const { filterType, intensity } = options;
@@ -11,6 +11,7 @@ import type {
   ProcessingMetrics,
   WatermarkConfig
 } from '@/types/worker.types';
+import { InvisibleWatermark } from '@/engines/watermark/InvisibleWatermark';
 
 // Worker 上下文类型声明
 declare const self: DedicatedWorkerGlobalScope;
@@ -71,6 +72,12 @@ class WatermarkProcessor {
         case 'compress':
           result = await this.compressImage(taskId, task);
           break;
+        case 'invisible-embed':
+          result = await this.embedInvisibleWatermark(taskId, task);
+          break;
+        case 'invisible-extract':
+          result = await this.extractInvisibleWatermark(taskId, task);
+          break;
         default:
           throw new Error(`Unsupported task type: ${task.type}`);
       }
@@ -234,6 +241,44 @@ class WatermarkProcessor {
     };
   }
 
+  private async embedInvisibleWatermark(taskId: string, task: ProcessingTask): Promise<any> {
+    const { imageData, invisibleWatermark } = task.data;
+
+    if (!imageData || !invisibleWatermark?.payload) {
+      throw new Error('Missing image data or invisible watermark payload');
+    }
+
+    this.sendProgress(taskId, 0.1);
+
+    InvisibleWatermark.embed(imageData, invisibleWatermark.payload, {
+      key: invisibleWatermark.key,
+      strength: invisibleWatermark.strength
+    });
+
+    this.sendProgress(taskId, 1.0);
+
+    return { imageData };
+  }
+
+  private async extractInvisibleWatermark(taskId: string, task: ProcessingTask): Promise<any> {
+    const { imageData, invisibleWatermark } = task.data;
+
+    if (!imageData) {
+      throw new Error('Missing image data');
+    }
+
+    this.sendProgress(taskId, 0.1);
+
+    const extraction = InvisibleWatermark.extract(imageData, {
+      key: invisibleWatermark?.key,
+      strength: invisibleWatermark?.strength
+    });
+
+    this.sendProgress(taskId, 1.0);
+
+    return { extraction };
+  }
+
   private async applyWatermark(
     ctx: OffscreenCanvasRenderingContext2D,
     canvas: OffscreenCanvas,